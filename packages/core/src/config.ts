@@ -93,6 +93,7 @@ export function loadGlobalConfig(): GlobalConfig {
     venues: {
       polymarket: loadVenueConfig('polymarket'),
       kalshi: loadVenueConfig('kalshi'),
+      manifold: loadVenueConfig('manifold'),
     },
   };
 }
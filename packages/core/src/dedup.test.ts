@@ -0,0 +1,60 @@
+/**
+ * Unit tests for quote dedup with top-of-book (v3.2.0)
+ * Run with: npx tsx --test packages/core/src/dedup.test.ts
+ */
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert';
+import { shouldRecordQuote, bookChanged, QuoteDeduplicator } from './utils.js';
+import type { DedupConfig } from './types.js';
+
+const CONFIG: DedupConfig = { epsilon: 0.001, minIntervalSeconds: 60 };
+const LAST_TS = new Date('2026-02-01T12:00:00Z');
+const NOW = new Date('2026-02-01T12:00:10Z'); // 10s later, inside min interval
+
+describe('bookChanged (v3.2.0)', () => {
+  it('should ignore sides the new quote does not report', () => {
+    assert.strictEqual(bookChanged({}, { bestBid: 0.4, bestAsk: 0.6 }, CONFIG.epsilon), false);
+    assert.strictEqual(bookChanged(undefined, { bestBid: 0.4 }, CONFIG.epsilon), false);
+  });
+
+  it('should detect a bid move', () => {
+    assert.strictEqual(bookChanged({ bestBid: 0.41, bestAsk: 0.6 }, { bestBid: 0.4, bestAsk: 0.6 }, CONFIG.epsilon), true);
+  });
+
+  it('should detect an ask appearing or disappearing', () => {
+    assert.strictEqual(bookChanged({ bestAsk: 0.6 }, { bestAsk: null }, CONFIG.epsilon), true);
+    assert.strictEqual(bookChanged({ bestAsk: null }, { bestAsk: 0.6 }, CONFIG.epsilon), true);
+  });
+
+  it('should treat sub-epsilon moves as unchanged', () => {
+    assert.strictEqual(bookChanged({ bestBid: 0.40004 }, { bestBid: 0.4 }, CONFIG.epsilon), false);
+  });
+});
+
+describe('shouldRecordQuote with book (v3.2.0)', () => {
+  it('should skip when mid and book are unchanged', () => {
+    const book = { bestBid: 0.45, bestAsk: 0.55 };
+    assert.strictEqual(shouldRecordQuote(0.5, 0.5, LAST_TS, NOW, CONFIG, book, book), false);
+  });
+
+  it('should record when spread widens symmetrically (same mid)', () => {
+    assert.strictEqual(
+      shouldRecordQuote(0.5, 0.5, LAST_TS, NOW, CONFIG, { bestBid: 0.4, bestAsk: 0.6 }, { bestBid: 0.45, bestAsk: 0.55 }),
+      true
+    );
+  });
+
+  it('should keep legacy behaviour without book', () => {
+    assert.strictEqual(shouldRecordQuote(0.5, 0.5, LAST_TS, NOW, CONFIG), false);
+    assert.strictEqual(shouldRecordQuote(0.51, 0.5, LAST_TS, NOW, CONFIG), true);
+  });
+});
+
+describe('QuoteDeduplicator with book (v3.2.0)', () => {
+  it('should not treat a different book at the same mid as duplicate', () => {
+    const dedup = new QuoteDeduplicator(CONFIG);
+    assert.strictEqual(dedup.isDuplicate(1, 0.5, NOW, { bestBid: 0.45, bestAsk: 0.55 }), false);
+    assert.strictEqual(dedup.isDuplicate(1, 0.5, NOW, { bestBid: 0.45, bestAsk: 0.55 }), true);
+    assert.strictEqual(dedup.isDuplicate(1, 0.5, NOW, { bestBid: 0.4, bestAsk: 0.6 }), false);
+  });
+});
@@ -1,6 +1,9 @@
 export * from './types.js';
 export * from './utils.js';
 export * from './config.js';
+export * from './timeseries.js';
+export * from './overround.js';
+export * from './metrics.js';
 export * from './matching.js';
 export * from './aliases.js';
 export * from './extractor.js';
@@ -0,0 +1,71 @@
+/**
+ * Unit tests for the Prometheus metrics registry (v3.2.0)
+ * Run with: npx tsx --test packages/core/src/metrics.test.ts
+ */
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert';
+import { MetricsRegistry } from './metrics.js';
+
+describe('MetricsRegistry', () => {
+  it('renders counters and gauges with labels', async () => {
+    const registry = new MetricsRegistry();
+    const fetched = registry.counter({ name: 'markets_fetched_total', help: 'Markets fetched', labelNames: ['venue'] });
+    fetched.inc({ venue: 'kalshi' }, 3);
+    fetched.inc({ venue: 'kalshi' });
+    registry.gauge({ name: 'links', help: 'Links by status', labelNames: ['status'] }).set({ status: 'say "hi"\n' }, 2);
+
+    const text = await registry.render();
+    assert.ok(text.includes('# HELP markets_fetched_total Markets fetched\n# TYPE markets_fetched_total counter\n'));
+    assert.ok(text.includes('markets_fetched_total{venue="kalshi"} 4\n'));
+    assert.ok(text.includes('links{status="say \\"hi\\"\\n"} 2\n'));
+    assert.strictEqual(fetched.get({ venue: 'kalshi' }), 4);
+  });
+
+  it('renders cumulative histogram buckets', async () => {
+    const registry = new MetricsRegistry();
+    const duration = registry.histogram({ name: 'run_seconds', help: 'Run time', buckets: [1, 5] });
+    duration.observe(undefined, 0.5);
+    duration.observe(undefined, 3);
+    duration.observe(undefined, 30);
+
+    const lines = (await registry.render()).split('\n');
+    assert.ok(lines.includes('run_seconds_bucket{le="1"} 1'));
+    assert.ok(lines.includes('run_seconds_bucket{le="5"} 2'));
+    assert.ok(lines.includes('run_seconds_bucket{le="+Inf"} 3'));
+    assert.ok(lines.includes('run_seconds_sum 33.5'));
+    assert.ok(lines.includes('run_seconds_count 3'));
+  });
+
+  it('returns the existing metric for a repeated definition', () => {
+    const registry = new MetricsRegistry();
+    const a = registry.counter({ name: 'x_total', help: 'x' });
+    assert.strictEqual(registry.counter({ name: 'x_total', help: 'x' }), a);
+    assert.throws(() => registry.gauge({ name: 'x_total', help: 'x' }), /already registered as a counter/);
+  });
+
+  it('validates names, labels and counter increments', () => {
+    const registry = new MetricsRegistry();
+    assert.throws(() => registry.counter({ name: 'bad-name', help: 'x' }), /Invalid metric name/);
+    assert.throws(() => registry.histogram({ name: 'h', help: 'x', labelNames: ['le'] }), /Invalid label name/);
+
+    const counter = registry.counter({ name: 'c_total', help: 'x', labelNames: ['venue'] });
+    assert.throws(() => counter.inc(), /Missing label "venue"/);
+    assert.throws(() => counter.inc({ venue: 'kalshi', topic: 'x' }), /Unknown label "topic"/);
+    assert.throws(() => counter.inc({ venue: 'kalshi' }, -1), /only increase/);
+  });
+
+  it('runs collectors before rendering and survives failures', async () => {
+    const registry = new MetricsRegistry();
+    const gauge = registry.gauge({ name: 'queue_size', help: 'Queue size' });
+    let size = 0;
+    registry.addCollector(() => gauge.set(undefined, ++size));
+    registry.addCollector(async () => {
+      throw new Error('db down');
+    });
+
+    assert.ok((await registry.render()).includes('queue_size 1\n'));
+    const text = await registry.render();
+    assert.ok(text.includes('queue_size 2\n'));
+    assert.ok(text.includes('metrics_collector_failures 1\n'));
+  });
+});
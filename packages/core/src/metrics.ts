@@ -0,0 +1,296 @@
+/**
+ * Prometheus metrics registry (v3.2.0)
+ *
+ * Counters, gauges and histograms with labels, rendered in the Prometheus
+ * text exposition format (0.0.4). Metric definitions are get-or-create by
+ * name, so modules can declare what they record at load time without
+ * coordinating registration. Collectors run at scrape time for values read
+ * from elsewhere (e.g. link totals from the database).
+ */
+
+export type MetricLabels = Record<string, string | number>;
+
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+export interface MetricOptions {
+  name: string;
+  help: string;
+  labelNames?: readonly string[];
+}
+
+export interface HistogramOptions extends MetricOptions {
+  /** Upper bounds, ascending; +Inf is implied */
+  buckets?: readonly number[];
+}
+
+export type MetricsCollector = () => void | Promise<void>;
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export const DEFAULT_BUCKETS: readonly number[] = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const NAME_PATTERN = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
+
+function formatLabels(names: readonly string[], values: readonly string[], extra?: [string, string]): string {
+  const pairs = names.map((name, i) => `${name}="${escapeLabelValue(values[i])}"`);
+  if (extra) pairs.push(`${extra[0]}="${escapeLabelValue(extra[1])}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+abstract class Metric<T> {
+  readonly name: string;
+  readonly help: string;
+  readonly labelNames: readonly string[];
+  abstract readonly type: MetricType;
+  protected readonly series = new Map<string, { labels: string[]; value: T }>();
+
+  constructor(options: MetricOptions) {
+    if (!NAME_PATTERN.test(options.name)) {
+      throw new Error(`Invalid metric name "${options.name}"`);
+    }
+    for (const label of options.labelNames ?? []) {
+      if (!LABEL_PATTERN.test(label) || label.startsWith('__') || label === 'le') {
+        throw new Error(`Invalid label name "${label}" on ${options.name}`);
+      }
+    }
+    this.name = options.name;
+    this.help = options.help;
+    this.labelNames = options.labelNames ?? [];
+  }
+
+  /**
+   * Label values in declaration order
+   * @throws Error on missing or undeclared labels
+   */
+  protected labelValues(labels: MetricLabels = {}): string[] {
+    for (const key of Object.keys(labels)) {
+      if (!this.labelNames.includes(key)) {
+        throw new Error(`Unknown label "${key}" on ${this.name}`);
+      }
+    }
+    return this.labelNames.map((name) => {
+      const value = labels[name];
+      if (value === undefined) throw new Error(`Missing label "${name}" on ${this.name}`);
+      return String(value);
+    });
+  }
+
+  protected entry(labels: MetricLabels | undefined, init: () => T): { labels: string[]; value: T } {
+    const values = this.labelValues(labels);
+    const key = values.join('\u0000');
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: values, value: init() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${escapeHelp(this.help)}`, `# TYPE ${this.name} ${this.type}`];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, value));
+    }
+    return lines;
+  }
+
+  protected abstract renderSeries(labels: string[], value: T): string[];
+}
+
+/**
+ * Monotonic total
+ */
+export class Counter extends Metric<{ n: number }> {
+  readonly type = 'counter';
+
+  inc(labels?: MetricLabels, value = 1): void {
+    if (value < 0 || !Number.isFinite(value)) {
+      throw new Error(`Counter ${this.name} can only increase by a finite amount`);
+    }
+    this.entry(labels, () => ({ n: 0 })).value.n += value;
+  }
+
+  get(labels?: MetricLabels): number {
+    return this.series.get(this.labelValues(labels).join('\u0000'))?.value.n ?? 0;
+  }
+
+  protected renderSeries(labels: string[], value: { n: number }): string[] {
+    return [`${this.name}${formatLabels(this.labelNames, labels)} ${formatValue(value.n)}`];
+  }
+}
+
+/**
+ * Value that can go up and down
+ */
+export class Gauge extends Metric<{ n: number }> {
+  readonly type = 'gauge';
+
+  set(labels: MetricLabels | undefined, value: number): void {
+    this.entry(labels, () => ({ n: 0 })).value.n = value;
+  }
+
+  inc(labels?: MetricLabels, value = 1): void {
+    this.entry(labels, () => ({ n: 0 })).value.n += value;
+  }
+
+  get(labels?: MetricLabels): number {
+    return this.series.get(this.labelValues(labels).join('\u0000'))?.value.n ?? 0;
+  }
+
+  protected renderSeries(labels: string[], value: { n: number }): string[] {
+    return [`${this.name}${formatLabels(this.labelNames, labels)} ${formatValue(value.n)}`];
+  }
+}
+
+interface HistogramState {
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Observations counted into cumulative buckets
+ */
+export class Histogram extends Metric<HistogramState> {
+  readonly type = 'histogram';
+  readonly buckets: readonly number[];
+
+  constructor(options: HistogramOptions) {
+    super(options);
+    const buckets = [...(options.buckets ?? DEFAULT_BUCKETS)].filter((b) => b !== Infinity);
+    if (buckets.some((b, i) => i > 0 && b <= buckets[i - 1])) {
+      throw new Error(`Histogram ${options.name} buckets must be strictly ascending`);
+    }
+    this.buckets = buckets;
+  }
+
+  observe(labels: MetricLabels | undefined, value: number): void {
+    const state = this.entry(labels, () => ({ counts: this.buckets.map(() => 0), sum: 0, count: 0 })).value;
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (value <= this.buckets[i]) state.counts[i]++;
+    }
+    state.sum += value;
+    state.count++;
+  }
+
+  /**
+   * Start timing; the returned function observes the elapsed seconds
+   */
+  startTimer(labels?: MetricLabels): () => number {
+    const start = process.hrtime.bigint();
+    return () => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe(labels, seconds);
+      return seconds;
+    };
+  }
+
+  /**
+   * Count and sum of observations
+   */
+  get(labels?: MetricLabels): { count: number; sum: number } {
+    const state = this.series.get(this.labelValues(labels).join('\u0000'))?.value;
+    return { count: state?.count ?? 0, sum: state?.sum ?? 0 };
+  }
+
+  protected renderSeries(labels: string[], value: HistogramState): string[] {
+    const lines = this.buckets.map(
+      (bound, i) => `${this.name}_bucket${formatLabels(this.labelNames, labels, ['le', formatValue(bound)])} ${value.counts[i]}`
+    );
+    lines.push(`${this.name}_bucket${formatLabels(this.labelNames, labels, ['le', '+Inf'])} ${value.count}`);
+    lines.push(`${this.name}_sum${formatLabels(this.labelNames, labels)} ${formatValue(value.sum)}`);
+    lines.push(`${this.name}_count${formatLabels(this.labelNames, labels)} ${value.count}`);
+    return lines;
+  }
+}
+
+type AnyMetric = Counter | Gauge | Histogram;
+
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, AnyMetric>();
+  private readonly collectors: MetricsCollector[] = [];
+
+  counter(options: MetricOptions): Counter {
+    return this.getOrCreate(options, 'counter', () => new Counter(options)) as Counter;
+  }
+
+  gauge(options: MetricOptions): Gauge {
+    return this.getOrCreate(options, 'gauge', () => new Gauge(options)) as Gauge;
+  }
+
+  histogram(options: HistogramOptions): Histogram {
+    return this.getOrCreate(options, 'histogram', () => new Histogram(options)) as Histogram;
+  }
+
+  /**
+   * Run before every render, e.g. to refresh gauges from the database
+   */
+  addCollector(collector: MetricsCollector): void {
+    this.collectors.push(collector);
+  }
+
+  get(name: string): AnyMetric | undefined {
+    return this.metrics.get(name);
+  }
+
+  /**
+   * Text exposition of every metric. A failing collector doesn't fail the
+   * scrape; its metrics keep their previous values.
+   */
+  async render(): Promise<string> {
+    const results = await Promise.allSettled(this.collectors.map(async (collect) => collect()));
+    const failures = results.filter((r) => r.status === 'rejected').length;
+    this.gauge({ name: 'metrics_collector_failures', help: 'Collectors that failed during the last scrape' }).set(undefined, failures);
+
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(...metric.render());
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Clear all recorded values (definitions and collectors stay)
+   */
+  resetValues(): void {
+    for (const metric of this.metrics.values()) metric.reset();
+  }
+
+  private getOrCreate(options: MetricOptions, type: MetricType, create: () => AnyMetric): AnyMetric {
+    const existing = this.metrics.get(options.name);
+    if (existing) {
+      if (existing.type !== type) {
+        throw new Error(`Metric ${options.name} is already registered as a ${existing.type}`);
+      }
+      return existing;
+    }
+    const metric = create();
+    this.metrics.set(options.name, metric);
+    return metric;
+  }
+}
+
+/**
+ * Process-wide registry served at /metrics
+ */
+export const metrics = new MetricsRegistry();
@@ -0,0 +1,89 @@
+/**
+ * Unit tests for overround removal (v3.2.0)
+ * Run with: npx tsx --test packages/core/src/overround.test.ts
+ */
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert';
+import { normalizeProbabilities, NORMALIZATION_METHODS } from './overround.js';
+
+const sum = (xs: number[]) => xs.reduce((a, b) => a + b, 0);
+const close = (actual: number, expected: number, eps = 1e-9) =>
+  assert.ok(Math.abs(actual - expected) < eps, `expected ${expected}, got ${actual}`);
+
+// Favourite / mid / longshot with a 5% margin
+const BOOK = [0.6, 0.3, 0.15];
+
+describe('normalizeProbabilities (v3.2.0)', () => {
+  it('should report booksum and overround', () => {
+    const book = normalizeProbabilities(BOOK);
+    close(book.booksum, 1.05);
+    close(book.overround, 0.05);
+  });
+
+  it('should sum to 1 for every method', () => {
+    for (const method of NORMALIZATION_METHODS) {
+      const book = normalizeProbabilities(BOOK, method);
+      assert.strictEqual(book.method, method);
+      close(sum(book.probabilities), 1);
+      assert.strictEqual(book.probabilities.length, BOOK.length);
+    }
+  });
+
+  it('should divide by the booksum for proportional', () => {
+    const book = normalizeProbabilities(BOOK, 'proportional');
+    assert.deepStrictEqual(book.probabilities.map((p) => +p.toFixed(6)), [0.571429, 0.285714, 0.142857]);
+    assert.strictEqual(book.parameter, null);
+  });
+
+  it('should take more margin off the longshot with power and Shin', () => {
+    const prop = normalizeProbabilities(BOOK, 'proportional').probabilities;
+    for (const method of ['power', 'shin'] as const) {
+      const book = normalizeProbabilities(BOOK, method);
+      assert.ok(book.probabilities[0] > prop[0], `${method}: favourite keeps more`);
+      assert.ok(book.probabilities[2] < prop[2], `${method}: longshot gives up more`);
+    }
+  });
+
+  it('should fit k > 1 for an over-round book and k < 1 for an under-round one', () => {
+    const over = normalizeProbabilities(BOOK, 'power');
+    assert.ok(over.parameter! > 1);
+    close(sum(BOOK.map((p) => Math.pow(p, over.parameter!))), 1, 1e-6);
+
+    const under = normalizeProbabilities([0.5, 0.3, 0.1], 'power');
+    assert.ok(under.parameter! < 1);
+    close(sum(under.probabilities), 1);
+  });
+
+  it('should fit a small positive Shin z', () => {
+    const book = normalizeProbabilities(BOOK, 'shin');
+    assert.ok(book.parameter! > 0 && book.parameter! < 0.1);
+  });
+
+  it('should leave a fair book unchanged', () => {
+    for (const method of NORMALIZATION_METHODS) {
+      const book = normalizeProbabilities([0.25, 0.75], method);
+      close(book.probabilities[0], 0.25, 1e-6);
+      close(book.overround, 0);
+    }
+  });
+
+  it('should fall back to proportional where a method is undefined', () => {
+    const under = normalizeProbabilities([0.4, 0.4], 'shin');
+    assert.strictEqual(under.method, 'shin');
+    assert.strictEqual(under.parameter, null);
+    assert.deepStrictEqual(under.probabilities, [0.5, 0.5]);
+
+    const single = normalizeProbabilities([0.3, 0], 'power');
+    assert.deepStrictEqual(single.probabilities, [1, 0]);
+  });
+
+  it('should clamp bad inputs and handle empty books', () => {
+    const book = normalizeProbabilities([NaN, -0.2, 0.5, 0.7]);
+    assert.deepStrictEqual(book.probabilities.slice(0, 2), [0, 0]);
+    close(book.booksum, 1.2);
+
+    const empty = normalizeProbabilities([], 'shin');
+    assert.deepStrictEqual(empty.probabilities, []);
+    assert.strictEqual(empty.booksum, 0);
+  });
+});
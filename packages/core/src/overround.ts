@@ -0,0 +1,138 @@
+/**
+ * Overround removal for multi-outcome books (v3.2.0)
+ *
+ * Quote.impliedProb is the raw price, so the outcomes of one event sum to
+ * the "booksum" (1 + overround) rather than 1. These helpers turn a set of
+ * mutually exclusive implied probabilities into vig-free ones:
+ *
+ *   proportional - divide by the booksum (margin spread pro rata)
+ *   power        - p_i^k with k chosen so the book sums to 1 (longshots absorb more margin)
+ *   shin         - Shin (1993) insider-trading model, solved for the insider share z
+ */
+
+export type NormalizationMethod = 'proportional' | 'power' | 'shin';
+
+export const NORMALIZATION_METHODS: readonly NormalizationMethod[] = ['proportional', 'power', 'shin'];
+
+export interface NormalizedBook {
+  method: NormalizationMethod;
+  /** Sum of the implied probabilities that were normalized */
+  booksum: number;
+  /** booksum - 1 (negative when the book is under-round, e.g. mid prices) */
+  overround: number;
+  /** Vig-free probabilities, same order as the input */
+  probabilities: number[];
+  /**
+   * Fitted model parameter: the exponent k for power, the insider share z
+   * for Shin, null for proportional or when a method fell back to it
+   */
+  parameter: number | null;
+}
+
+const MAX_ITERATIONS = 200;
+const TOLERANCE = 1e-12;
+
+function clampProb(p: number): number {
+  if (!Number.isFinite(p) || p <= 0) return 0;
+  return p > 1 ? 1 : p;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((acc, v) => acc + v, 0);
+}
+
+/**
+ * Bisection for a root of a decreasing function on [lo, hi]
+ */
+function solveDecreasing(f: (x: number) => number, lo: number, hi: number): number {
+  for (let i = 0; i < MAX_ITERATIONS && hi - lo > TOLERANCE; i++) {
+    const mid = (lo + hi) / 2;
+    if (f(mid) > 0) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+function proportional(probs: number[], booksum: number): NormalizedBook {
+  return {
+    method: 'proportional',
+    booksum,
+    overround: booksum - 1,
+    probabilities: probs.map((p) => p / booksum),
+    parameter: null,
+  };
+}
+
+/**
+ * Power method: find k > 0 with sum(p_i^k) = 1
+ */
+function power(probs: number[], booksum: number): NormalizedBook {
+  // sum(p^k) is decreasing in k; it equals n at k=0, so widen hi until it drops below 1
+  const f = (k: number) => sum(probs.map((p) => Math.pow(p, k))) - 1;
+  let hi = 2;
+  while (f(hi) > 0 && hi < 1e6) hi *= 2;
+  const k = solveDecreasing(f, 0, hi);
+  const raw = probs.map((p) => Math.pow(p, k));
+  const total = sum(raw);
+
+  return {
+    method: 'power',
+    booksum,
+    overround: booksum - 1,
+    probabilities: raw.map((p) => p / total),
+    parameter: k,
+  };
+}
+
+/**
+ * Shin's method: p_i(z) = (sqrt(z^2 + 4(1-z) pi_i^2 / B) - z) / (2(1-z)),
+ * with z in [0, 1) chosen so the p_i sum to 1. Only defined for B > 1.
+ */
+function shin(probs: number[], booksum: number): NormalizedBook {
+  const shinProbs = (z: number) =>
+    probs.map((p) => (Math.sqrt(z * z + (4 * (1 - z) * p * p) / booksum) - z) / (2 * (1 - z)));
+  // At z=0 the book sums to sqrt(B) > 1 and falls as z grows
+  const z = solveDecreasing((x) => sum(shinProbs(x)) - 1, 0, 1 - 1e-9);
+  const raw = shinProbs(z);
+  const total = sum(raw);
+
+  return {
+    method: 'shin',
+    booksum,
+    overround: booksum - 1,
+    probabilities: raw.map((p) => p / total),
+    parameter: z,
+  };
+}
+
+/**
+ * Remove the overround from a set of mutually exclusive implied probabilities.
+ *
+ * Inputs are clamped to [0, 1]. Books with fewer than two priced outcomes
+ * are normalized proportionally, as is Shin on an under-round book (its
+ * model has no solution when the booksum is at most 1). An empty or all-zero
+ * book is returned as zeros.
+ */
+export function normalizeProbabilities(
+  impliedProbs: number[],
+  method: NormalizationMethod = 'proportional'
+): NormalizedBook {
+  const probs = impliedProbs.map(clampProb);
+  const booksum = sum(probs);
+
+  if (booksum <= 0) {
+    return { method, booksum, overround: booksum - 1, probabilities: probs.map(() => 0), parameter: null };
+  }
+
+  const priced = probs.filter((p) => p > 0).length;
+  if (method === 'proportional' || priced < 2) {
+    return { ...proportional(probs, booksum), method };
+  }
+  if (method === 'power') {
+    return power(probs, booksum);
+  }
+  if (booksum <= 1) {
+    return { ...proportional(probs, booksum), method };
+  }
+  return shin(probs, booksum);
+}
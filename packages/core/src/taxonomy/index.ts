@@ -56,9 +56,20 @@ export {
   type PolymarketMarketInfoV3,
 } from './polymarketRules.js';
 
+// Manifold rules (v3.2.0)
+export {
+  MANIFOLD_GROUP_MAP,
+  normalizeManifoldGroupSlug,
+  classifyManifoldMarket,
+  type ManifoldMarketInfo,
+} from './manifoldRules.js';
+
 // Unified matcher
 export {
   classifyMarket,
+  registerVenueClassifier,
+  getClassifiedVenues,
+  type VenueClassifier,
   areTopicsCompatible,
   filterByTopic,
   classifyMarkets,
@@ -0,0 +1,69 @@
+/**
+ * Tests for Manifold taxonomy rules and venue classifier hooks (v3.2.0)
+ *
+ * Run: npx tsx --test packages/core/src/taxonomy/manifoldRules.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CanonicalTopic, TopicSource } from './types.js';
+import { classifyManifoldMarket, normalizeManifoldGroupSlug } from './manifoldRules.js';
+import { classifyMarket, registerVenueClassifier, getClassifiedVenues } from './matcher.js';
+
+describe('classifyManifoldMarket', () => {
+  it('strips default and hash suffixes from group slugs', () => {
+    assert.equal(normalizeManifoldGroupSlug('economics-default'), 'economics');
+    assert.equal(normalizeManifoldGroupSlug('music-f213cbf1d0a5'), 'music');
+    assert.equal(normalizeManifoldGroupSlug('2028-us-presidential-election'), '2028-us-presidential-election');
+  });
+
+  it('uses the first mapped group', () => {
+    const result = classifyManifoldMarket({
+      title: 'Will Bitcoin close 2026 above $150k?',
+      groupSlugs: ['fun-stuff', 'crypto-speculation', 'economics-default'],
+    });
+    assert.equal(result.topic, CanonicalTopic.CRYPTO_DAILY);
+    assert.equal(result.source, TopicSource.CATEGORY);
+  });
+
+  it('moves economics markets about rates to RATES', () => {
+    const result = classifyManifoldMarket({
+      title: 'Will the Fed announce a rate cut in December?',
+      groupSlugs: ['economics-default'],
+    });
+    assert.equal(result.topic, CanonicalTopic.RATES);
+  });
+
+  it('returns UNKNOWN without a mapped group', () => {
+    assert.equal(classifyManifoldMarket({ title: 'x', groupSlugs: ['personal-goals'] }).topic, CanonicalTopic.UNKNOWN);
+    assert.equal(classifyManifoldMarket({ title: 'x' }).topic, CanonicalTopic.UNKNOWN);
+  });
+});
+
+describe('classifyMarket venue hooks', () => {
+  it('routes manifold markets through group slugs', () => {
+    const result = classifyMarket({
+      venue: 'manifold',
+      title: 'Who will win the 2026 NBA Finals?',
+      metadata: { groupSlugs: ['nba'] },
+    });
+    assert.equal(result.topic, CanonicalTopic.SPORTS);
+  });
+
+  it('falls back to title rules for venues without a classifier', () => {
+    const result = classifyMarket({ venue: 'predictit', title: 'Will CPI exceed 3% in March?' });
+    assert.equal(result.topic, CanonicalTopic.MACRO);
+    assert.equal(result.source, TopicSource.TITLE_KEYWORDS);
+  });
+
+  it('uses registered classifiers for plug-in venues', () => {
+    registerVenueClassifier('testvenue', (market) => ({
+      topic: market.category === 'wx' ? CanonicalTopic.CLIMATE : CanonicalTopic.UNKNOWN,
+      confidence: 0.9,
+      source: TopicSource.CATEGORY,
+    }));
+
+    assert.ok(getClassifiedVenues().includes('testvenue'));
+    assert.equal(classifyMarket({ venue: 'testvenue', title: 'Rain tomorrow?', category: 'wx' }).topic, CanonicalTopic.CLIMATE);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Manifold Taxonomy Rules (v3.2.0)
+ *
+ * Maps Manifold group (topic) slugs to canonical topics. Manifold markets
+ * carry user-curated group slugs such as "us-politics", "economics-default"
+ * or "music-f213cbf1d0a5"; the "-default" and hash suffixes are stripped
+ * before lookup.
+ */
+
+import { CanonicalTopic, TopicClassification, TopicSource } from './types.js';
+
+/**
+ * Rate keywords that move an economics market to RATES
+ */
+const RATE_KEYWORDS = /\b(fed(?:eral)?\s+reserve|fomc|rate\s+cut|rate\s+hike|interest\s+rates?|basis\s+points?|bps|fed\s+funds?)\b/i;
+
+/**
+ * Manifold group slug -> canonical topic
+ */
+export const MANIFOLD_GROUP_MAP: Record<string, CanonicalTopic> = {
+  // === Crypto ===
+  'crypto': CanonicalTopic.CRYPTO_DAILY,
+  'cryptocurrency': CanonicalTopic.CRYPTO_DAILY,
+  'crypto-speculation': CanonicalTopic.CRYPTO_DAILY,
+  'bitcoin': CanonicalTopic.CRYPTO_DAILY,
+  'ethereum': CanonicalTopic.CRYPTO_DAILY,
+  'solana': CanonicalTopic.CRYPTO_DAILY,
+
+  // === Macro / Rates ===
+  'economics': CanonicalTopic.MACRO,
+  'economy': CanonicalTopic.MACRO,
+  'inflation': CanonicalTopic.MACRO,
+  'us-economy': CanonicalTopic.MACRO,
+  'recession': CanonicalTopic.MACRO,
+  'fed': CanonicalTopic.RATES,
+  'federal-reserve': CanonicalTopic.RATES,
+  'interest-rates': CanonicalTopic.RATES,
+
+  // === Finance ===
+  'finance': CanonicalTopic.FINANCE,
+  'stocks': CanonicalTopic.FINANCE,
+  'stock-market': CanonicalTopic.FINANCE,
+  'sp-500': CanonicalTopic.FINANCE,
+
+  // === Commodities ===
+  'commodities': CanonicalTopic.COMMODITIES,
+  'oil': CanonicalTopic.COMMODITIES,
+  'gold': CanonicalTopic.COMMODITIES,
+
+  // === Elections ===
+  'politics': CanonicalTopic.ELECTIONS,
+  'us-politics': CanonicalTopic.ELECTIONS,
+  'elections': CanonicalTopic.ELECTIONS,
+  'us-elections': CanonicalTopic.ELECTIONS,
+  '2028-us-presidential-election': CanonicalTopic.ELECTIONS,
+  'world-elections': CanonicalTopic.ELECTIONS,
+
+  // === Geopolitics ===
+  'geopolitics': CanonicalTopic.GEOPOLITICS,
+  'world': CanonicalTopic.GEOPOLITICS,
+  'ukraine-russia': CanonicalTopic.GEOPOLITICS,
+  'ukrainerussia-war': CanonicalTopic.GEOPOLITICS,
+  'israel-hamas': CanonicalTopic.GEOPOLITICS,
+  'middle-east': CanonicalTopic.GEOPOLITICS,
+  'china': CanonicalTopic.GEOPOLITICS,
+
+  // === Climate ===
+  'climate': CanonicalTopic.CLIMATE,
+  'climate-change': CanonicalTopic.CLIMATE,
+  'weather': CanonicalTopic.CLIMATE,
+  'hurricanes': CanonicalTopic.CLIMATE,
+
+  // === Sports ===
+  'sports': CanonicalTopic.SPORTS,
+  'nfl': CanonicalTopic.SPORTS,
+  'nba': CanonicalTopic.SPORTS,
+  'mlb': CanonicalTopic.SPORTS,
+  'nhl': CanonicalTopic.SPORTS,
+  'soccer': CanonicalTopic.SPORTS,
+  'football': CanonicalTopic.SPORTS,
+  'tennis': CanonicalTopic.SPORTS,
+  'f1': CanonicalTopic.SPORTS,
+
+  // === Entertainment ===
+  'entertainment': CanonicalTopic.ENTERTAINMENT,
+  'culture': CanonicalTopic.ENTERTAINMENT,
+  'movies': CanonicalTopic.ENTERTAINMENT,
+  'music': CanonicalTopic.ENTERTAINMENT,
+  'tv': CanonicalTopic.ENTERTAINMENT,
+  'oscars': CanonicalTopic.ENTERTAINMENT,
+  'academy-awards': CanonicalTopic.ENTERTAINMENT,
+};
+
+/**
+ * Strip Manifold's "-default" and random hash suffixes from a group slug
+ */
+export function normalizeManifoldGroupSlug(slug: string): string {
+  return slug
+    .toLowerCase()
+    .trim()
+    .replace(/-default$/, '')
+    .replace(/-[0-9a-f]{8,}$/, '');
+}
+
+/**
+ * Manifold market info for classification
+ */
+export interface ManifoldMarketInfo {
+  title: string;
+  groupSlugs?: string[];
+}
+
+/**
+ * Classify a Manifold market by its group slugs (first mapped group wins)
+ */
+export function classifyManifoldMarket(market: ManifoldMarketInfo): TopicClassification {
+  for (const rawSlug of market.groupSlugs ?? []) {
+    const slug = normalizeManifoldGroupSlug(rawSlug);
+    const topic = MANIFOLD_GROUP_MAP[slug];
+    if (!topic) continue;
+
+    if (topic === CanonicalTopic.MACRO && RATE_KEYWORDS.test(market.title)) {
+      return {
+        topic: CanonicalTopic.RATES,
+        confidence: 0.85,
+        source: TopicSource.CATEGORY,
+        reason: `Group: ${rawSlug} + rate keywords`,
+      };
+    }
+
+    return {
+      topic,
+      confidence: 0.85,
+      source: TopicSource.CATEGORY,
+      reason: `Group: ${rawSlug}`,
+    };
+  }
+
+  return {
+    topic: CanonicalTopic.UNKNOWN,
+    confidence: 0,
+    source: TopicSource.FALLBACK,
+    reason: 'No Manifold group matched',
+  };
+}
@@ -11,8 +11,10 @@ import {
   TopicSource,
   MarketTopicInfo,
 } from './types.js';
+import type { Venue } from '../types.js';
 import { classifyKalshiMarket } from './kalshiRules.js';
 import { classifyPolymarketMarket, extractPolymarketTags } from './polymarketRules.js';
+import { classifyManifoldMarket } from './manifoldRules.js';
 
 /**
  * Title-based fallback rules (venue-agnostic)
@@ -58,36 +60,64 @@ function classifyByTitle(title: string): TopicClassification | null {
   return null;
 }
 
+/**
+ * Venue-specific classification hook (v3.2.0)
+ * Returns UNKNOWN to fall through to title rules
+ */
+export type VenueClassifier = (market: MarketTopicInfo) => TopicClassification;
+
+const venueClassifiers = new Map<Venue, VenueClassifier>([
+  ['kalshi', (market) => classifyKalshiMarket(market.title, market.category, market.metadata)],
+  [
+    'polymarket',
+    (market) =>
+      classifyPolymarketMarket({
+        title: market.title,
+        category: market.category,
+        groupItemTitle: market.metadata?.groupItemTitle as string | undefined,
+        tags: extractPolymarketTags(market.metadata),
+      }),
+  ],
+  [
+    'manifold',
+    (market) =>
+      classifyManifoldMarket({
+        title: market.title,
+        groupSlugs: market.metadata?.groupSlugs as string[] | undefined,
+      }),
+  ],
+]);
+
+/**
+ * Register (or replace) the taxonomy rules for a venue (v3.2.0)
+ */
+export function registerVenueClassifier(venue: Venue, classifier: VenueClassifier): void {
+  venueClassifiers.set(venue, classifier);
+}
+
+/**
+ * Venues with venue-specific taxonomy rules (v3.2.0)
+ */
+export function getClassifiedVenues(): Venue[] {
+  return [...venueClassifiers.keys()];
+}
+
 /**
  * Main classification function - determines canonical topic for any market
  *
  * Priority:
- * 1. Venue-specific rules (ticker patterns, categories)
+ * 1. Venue-specific rules (ticker patterns, categories, registered hooks)
  * 2. Title keyword analysis
  * 3. Metadata analysis
  * 4. Fallback to UNKNOWN
  */
 export function classifyMarket(market: MarketTopicInfo): TopicClassification {
   // 1. Try venue-specific classification
-  if (market.venue === 'kalshi') {
-    const kalshiResult = classifyKalshiMarket(
-      market.title,
-      market.category,
-      market.metadata
-    );
-    if (kalshiResult.topic !== CanonicalTopic.UNKNOWN) {
-      return kalshiResult;
-    }
-  } else if (market.venue === 'polymarket') {
-    const tags = extractPolymarketTags(market.metadata);
-    const polyResult = classifyPolymarketMarket({
-      title: market.title,
-      category: market.category,
-      groupItemTitle: market.metadata?.groupItemTitle as string | undefined,
-      tags,
-    });
-    if (polyResult.topic !== CanonicalTopic.UNKNOWN) {
-      return polyResult;
+  const venueClassifier = venueClassifiers.get(market.venue);
+  if (venueClassifier) {
+    const venueResult = venueClassifier(market);
+    if (venueResult.topic !== CanonicalTopic.UNKNOWN) {
+      return venueResult;
     }
   }
 
@@ -139,14 +169,14 @@ export function areTopicsCompatible(
 /**
  * Get all markets that match a specific topic
  */
-export function filterByTopic<T extends { title: string; venue: 'kalshi' | 'polymarket'; category?: string; metadata?: Record<string, unknown> }>(
+export function filterByTopic<T extends { title: string; venue: Venue; category?: string; metadata?: Record<string, unknown> }>(
   markets: T[],
   topic: CanonicalTopic,
   minConfidence: number = 0.5
 ): T[] {
   return markets.filter((market) => {
     const classification = classifyMarket({
-      venue: market.venue as 'kalshi' | 'polymarket',
+      venue: market.venue,
       title: market.title,
       category: market.category,
       metadata: market.metadata,
@@ -12,6 +12,8 @@
  * v3.1.0: Added FINANCE topic for indices, forex, bonds
  */
 
+import type { Venue } from '../types.js';
+
 /**
  * Canonical topics for cross-venue matching
  * These are the top-level categories that enable matching across venues
@@ -128,7 +130,7 @@ export interface PolymarketMarketInfo {
  * Market info for topic classification (venue-agnostic)
  */
 export interface MarketTopicInfo {
-  venue: 'kalshi' | 'polymarket';
+  venue: Venue;
   title: string;
   category?: string;
   metadata?: Record<string, unknown>;
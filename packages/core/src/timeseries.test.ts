@@ -0,0 +1,106 @@
+/**
+ * Unit tests for quote time-series resampling (v3.2.0)
+ * Run with: npx tsx --test packages/core/src/timeseries.test.ts
+ */
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert';
+import { parseInterval, alignToInterval, resampleOhlc, alignBars, type PricePoint } from './timeseries.js';
+
+const T0 = new Date('2026-02-01T12:00:00Z');
+const at = (minutes: number) => new Date(T0.getTime() + minutes * 60 * 1000);
+const MIN = 60 * 1000;
+
+describe('parseInterval (v3.2.0)', () => {
+  it('should parse supported units', () => {
+    assert.strictEqual(parseInterval('1m'), MIN);
+    assert.strictEqual(parseInterval('5m'), 5 * MIN);
+    assert.strictEqual(parseInterval('1h'), 60 * MIN);
+    assert.strictEqual(parseInterval('1d'), 24 * 60 * MIN);
+  });
+
+  it('should reject invalid intervals', () => {
+    assert.throws(() => parseInterval('5x'));
+    assert.throws(() => parseInterval('0m'));
+    assert.throws(() => parseInterval(''));
+  });
+});
+
+describe('alignToInterval (v3.2.0)', () => {
+  it('should floor to bucket start', () => {
+    assert.strictEqual(alignToInterval(new Date('2026-02-01T12:07:30Z'), 5 * MIN).toISOString(), '2026-02-01T12:05:00.000Z');
+  });
+});
+
+describe('resampleOhlc (v3.2.0)', () => {
+  it('should build OHLC within a bucket', () => {
+    const points: PricePoint[] = [
+      { ts: at(0.5), price: 0.40 },
+      { ts: at(1.5), price: 0.45 },
+      { ts: at(2.5), price: 0.38 },
+      { ts: at(4.5), price: 0.42 },
+    ];
+    const bars = resampleOhlc(points, { from: T0, to: at(5), intervalMs: 5 * MIN });
+    assert.strictEqual(bars.length, 1);
+    assert.strictEqual(bars[0].open, 0.40);
+    assert.strictEqual(bars[0].high, 0.45);
+    assert.strictEqual(bars[0].low, 0.38);
+    assert.strictEqual(bars[0].close, 0.42);
+    assert.strictEqual(bars[0].count, 4);
+    assert.strictEqual(bars[0].filled, false);
+  });
+
+  it('should forward-fill gaps left by dedup', () => {
+    const bars = resampleOhlc([{ ts: at(0), price: 0.5 }, { ts: at(3), price: 0.6 }], {
+      from: T0,
+      to: at(4),
+      intervalMs: MIN,
+    });
+    assert.deepStrictEqual(bars.map((b) => b.close), [0.5, 0.5, 0.5, 0.6]);
+    assert.deepStrictEqual(bars.map((b) => b.filled), [false, true, true, false]);
+    // Bucket with a change opens at the carried price
+    assert.strictEqual(bars[3].open, 0.5);
+  });
+
+  it('should seed from the last quote before the range', () => {
+    const bars = resampleOhlc([{ ts: at(-30), price: 0.7 }], { from: T0, to: at(2), intervalMs: MIN });
+    assert.strictEqual(bars.length, 2);
+    assert.ok(bars.every((b) => b.filled && b.close === 0.7));
+  });
+
+  it('should emit no bars before the first observation', () => {
+    const bars = resampleOhlc([{ ts: at(2), price: 0.3 }], { from: T0, to: at(3), intervalMs: MIN });
+    assert.strictEqual(bars.length, 1);
+    assert.strictEqual(bars[0].ts.toISOString(), at(2).toISOString());
+  });
+
+  it('should compute time-weighted and volume-weighted prices', () => {
+    const points: PricePoint[] = [
+      { ts: at(-1), price: 0.4, volume: 100 },
+      { ts: at(0.5), price: 0.6, volume: 110 },
+      { ts: at(0.75), price: 0.8, volume: 140 },
+    ];
+    const [bar] = resampleOhlc(points, { from: T0, to: at(1), intervalMs: MIN });
+    // 0.4 for 30s, 0.6 for 15s, 0.8 for 15s
+    assert.ok(Math.abs(bar.twap - (0.4 * 30 + 0.6 * 15 + 0.8 * 15) / 60) < 1e-9);
+    // volume deltas 10 @0.6, 30 @0.8
+    assert.strictEqual(bar.volume, 40);
+    assert.ok(bar.vwap !== null && Math.abs(bar.vwap - (10 * 0.6 + 30 * 0.8) / 40) < 1e-9);
+  });
+
+  it('should refuse oversized ranges', () => {
+    assert.throws(() => resampleOhlc([], { from: T0, to: at(1000), intervalMs: MIN, maxBuckets: 10 }));
+  });
+});
+
+describe('alignBars (v3.2.0)', () => {
+  it('should join both sides on bucket start', () => {
+    const opts = { from: T0, to: at(3), intervalMs: MIN };
+    const left = resampleOhlc([{ ts: at(0), price: 0.5 }], opts);
+    const right = resampleOhlc([{ ts: at(1), price: 0.55 }], opts);
+    const rows = alignBars(left, right);
+    assert.strictEqual(rows.length, 3);
+    assert.strictEqual(rows[0].right, null);
+    assert.strictEqual(rows[1].left?.close, 0.5);
+    assert.strictEqual(rows[1].right?.close, 0.55);
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Quote time-series resampling (v3.2.0)
+ *
+ * Quotes are stored as a step function: dedup (shouldRecordQuote) skips
+ * writes while the price is unchanged, so a missing row means "same as
+ * before", not "no data". Resampling therefore carries the last known
+ * price forward into empty buckets and into the start of each bucket.
+ */
+
+/**
+ * Single observation from the quotes table
+ */
+export interface PricePoint {
+  ts: Date;
+  price: number;
+  /** Cumulative venue volume at this point, if reported */
+  volume?: number | null;
+}
+
+/**
+ * Resampled bar
+ */
+export interface OhlcBar {
+  /** Bucket start (UTC, aligned to a multiple of the interval) */
+  ts: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  /** Volume-weighted price over the bucket (from cumulative volume deltas), null if no volume moved */
+  vwap: number | null;
+  /** Time-weighted price over the bucket */
+  twap: number;
+  /** Volume traded within the bucket (sum of positive cumulative deltas) */
+  volume: number;
+  /** Raw quotes that fell in the bucket */
+  count: number;
+  /** true if the bucket had no quotes and was forward-filled */
+  filled: boolean;
+}
+
+export interface ResampleOptions {
+  from: Date;
+  to: Date;
+  intervalMs: number;
+  /** Carry the previous close into empty buckets (default: true) */
+  forwardFill?: boolean;
+  /** Safety cap on number of buckets (default: 100000) */
+  maxBuckets?: number;
+}
+
+const INTERVAL_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse interval string like "1m", "5m", "1h", "1d" into milliseconds
+ */
+export function parseInterval(interval: string): number {
+  const match = interval.trim().toLowerCase().match(/^(\d+)([smhd])$/);
+  if (!match) {
+    throw new Error(`Invalid interval: "${interval}" (expected e.g. 1m, 5m, 1h, 1d)`);
+  }
+  const n = parseInt(match[1], 10);
+  if (n <= 0) {
+    throw new Error(`Invalid interval: "${interval}" (must be positive)`);
+  }
+  return n * INTERVAL_UNITS[match[2]];
+}
+
+/**
+ * Align a timestamp down to the start of its bucket
+ */
+export function alignToInterval(ts: Date, intervalMs: number): Date {
+  return new Date(Math.floor(ts.getTime() / intervalMs) * intervalMs);
+}
+
+/**
+ * Resample price points into OHLC/VWAP bars on a fixed UTC grid
+ *
+ * @param points - Quotes in any order. Include the last quote before `from`
+ *   to seed the forward-fill; points outside [from, to) are otherwise ignored.
+ */
+export function resampleOhlc(points: PricePoint[], options: ResampleOptions): OhlcBar[] {
+  const { from, to, intervalMs, forwardFill = true, maxBuckets = 100000 } = options;
+
+  const start = alignToInterval(from, intervalMs).getTime();
+  const end = to.getTime();
+  const bucketCount = Math.ceil((end - start) / intervalMs);
+  if (bucketCount > maxBuckets) {
+    throw new Error(`Too many buckets: ${bucketCount} > ${maxBuckets} (use a larger interval or shorter range)`);
+  }
+
+  const sorted = [...points].sort((a, b) => a.ts.getTime() - b.ts.getTime());
+
+  let prevPrice: number | null = null;
+  let prevVolume: number | null = null;
+  let i = 0;
+
+  // Seed with everything before the first bucket
+  while (i < sorted.length && sorted[i].ts.getTime() < start) {
+    prevPrice = sorted[i].price;
+    prevVolume = sorted[i].volume ?? prevVolume;
+    i++;
+  }
+
+  const bars: OhlcBar[] = [];
+
+  for (let bucketStart = start; bucketStart < end; bucketStart += intervalMs) {
+    const bucketEnd = bucketStart + intervalMs;
+    const inBucket: PricePoint[] = [];
+    while (i < sorted.length && sorted[i].ts.getTime() < bucketEnd) {
+      inBucket.push(sorted[i]);
+      i++;
+    }
+
+    if (inBucket.length === 0) {
+      if (prevPrice !== null && forwardFill) {
+        bars.push({
+          ts: new Date(bucketStart),
+          open: prevPrice,
+          high: prevPrice,
+          low: prevPrice,
+          close: prevPrice,
+          vwap: null,
+          twap: prevPrice,
+          volume: 0,
+          count: 0,
+          filled: true,
+        });
+      }
+      continue;
+    }
+
+    // Price in effect at bucket start (step function), else first observation
+    const open = prevPrice ?? inBucket[0].price;
+    let high = open;
+    let low = open;
+    let segmentStart = prevPrice !== null ? bucketStart : inBucket[0].ts.getTime();
+    let segmentPrice = open;
+    let weightedTime = 0;
+    let volumeTotal = 0;
+    let volumeWeighted = 0;
+
+    for (const p of inBucket) {
+      const t = p.ts.getTime();
+      weightedTime += segmentPrice * (t - segmentStart);
+      segmentStart = t;
+      segmentPrice = p.price;
+
+      high = Math.max(high, p.price);
+      low = Math.min(low, p.price);
+
+      if (p.volume !== undefined && p.volume !== null) {
+        if (prevVolume !== null && p.volume > prevVolume) {
+          const delta = p.volume - prevVolume;
+          volumeTotal += delta;
+          volumeWeighted += delta * p.price;
+        }
+        prevVolume = p.volume;
+      }
+    }
+    weightedTime += segmentPrice * (bucketEnd - segmentStart);
+
+    const close = inBucket[inBucket.length - 1].price;
+    const span = bucketEnd - (prevPrice !== null ? bucketStart : inBucket[0].ts.getTime());
+
+    bars.push({
+      ts: new Date(bucketStart),
+      open,
+      high,
+      low,
+      close,
+      vwap: volumeTotal > 0 ? volumeWeighted / volumeTotal : null,
+      twap: span > 0 ? weightedTime / span : close,
+      volume: volumeTotal,
+      count: inBucket.length,
+      filled: false,
+    });
+
+    prevPrice = close;
+  }
+
+  return bars;
+}
+
+/**
+ * Row of two bar series joined on bucket start
+ */
+export interface AlignedBar {
+  ts: Date;
+  left: OhlcBar | null;
+  right: OhlcBar | null;
+}
+
+/**
+ * Join two bar series resampled on the same grid by bucket start
+ * Buckets present in only one series get null on the other side
+ */
+export function alignBars(left: OhlcBar[], right: OhlcBar[]): AlignedBar[] {
+  const rows = new Map<number, AlignedBar>();
+  for (const bar of left) {
+    rows.set(bar.ts.getTime(), { ts: bar.ts, left: bar, right: null });
+  }
+  for (const bar of right) {
+    const row = rows.get(bar.ts.getTime());
+    if (row) {
+      row.right = bar;
+    } else {
+      rows.set(bar.ts.getTime(), { ts: bar.ts, left: null, right: bar });
+    }
+  }
+  return [...rows.values()].sort((a, b) => a.ts.getTime() - b.ts.getTime());
+}
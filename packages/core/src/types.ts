@@ -1,7 +1,14 @@
 /**
- * Venue enum - supported prediction market platforms
+ * Venues with adapters and taxonomy rules in this repo (v3.2.0)
  */
-export type Venue = 'polymarket' | 'kalshi';
+export type BuiltinVenue = 'polymarket' | 'kalshi' | 'manifold';
+
+/**
+ * Venue identifier - prediction market platform
+ * v3.2.0: Open set. Adapters register at runtime and venues are stored as
+ * text, so adding a venue needs no schema change.
+ */
+export type Venue = BuiltinVenue | (string & {});
 
 /**
  * Market status lifecycle
@@ -21,11 +28,13 @@ export interface MarketDTO {
   title: string;
   category?: string;
   status: MarketStatus;
-  statusMeta?: Record<string, unknown>;
+  statusMeta?: MarketStatusMeta;
   closeTime?: Date;
   sourceUpdatedAt?: Date;
   outcomes: OutcomeDTO[];
   metadata?: Record<string, unknown>;
+  // v3.2.0: Settlement outcome, set once the venue reports the market closed
+  resolution?: MarketResolutionDTO;
   // v3.0.2: Polymarket taxonomy fields (from Gamma API)
   pmCategories?: Array<{ slug: string; label: string }>;
   pmTags?: Array<{ slug: string; label: string }>;
@@ -34,6 +43,38 @@ export interface MarketDTO {
   taxonomySource?: string;
 }
 
+/**
+ * Venue-side status details stored in Market.statusMeta (v3.2.0)
+ */
+export interface MarketStatusMeta {
+  [key: string]: unknown;
+  /** Raw venue status (e.g. Kalshi "settled", Polymarket "closed") */
+  venueStatus?: string;
+  /** Polymarket UMA oracle state: proposed, disputed, resolved */
+  umaResolutionStatus?: string;
+}
+
+/**
+ * Settlement state of a closed market (v3.2.0)
+ */
+export type ResolutionStatus = 'pending' | 'resolved' | 'void';
+
+/**
+ * Settlement outcome derived from venue data (v3.2.0)
+ */
+export interface MarketResolutionDTO {
+  status: ResolutionStatus;
+  /** Winning outcome name, matching OutcomeDTO.name */
+  winningOutcome?: string;
+  winningSide?: OutcomeSide;
+  /** Payout per winning contract (0..1), or the scalar value for scalar markets */
+  settlementValue?: number;
+  resolvedAt?: Date;
+  /** Where the resolution came from: kalshi:result, polymarket:uma, polymarket:prices, manifold:resolution */
+  source: string;
+  raw?: Record<string, unknown>;
+}
+
 /**
  * DTO for outcome data
  */
@@ -56,9 +97,23 @@ export interface QuoteDTO {
   impliedProb: number;
   liquidity?: number;
   volume?: number;
+  // v3.2.0: Top of book (prices in 0..1)
+  bestBid?: number;
+  bestAsk?: number;
+  bidSize?: number;
+  askSize?: number;
+  spread?: number;
   raw?: Record<string, unknown>;
 }
 
+/**
+ * Top-of-book snapshot used for quote dedup (v3.2.0)
+ */
+export interface TopOfBook {
+  bestBid?: number | null;
+  bestAsk?: number | null;
+}
+
 /**
  * Result of fetching markets from venue
  */
@@ -1,4 +1,4 @@
-import { type DedupConfig, DEFAULT_DEDUP_CONFIG } from './types.js';
+import { type DedupConfig, type TopOfBook, DEFAULT_DEDUP_CONFIG } from './types.js';
 
 /**
  * Normalize timestamp to UTC Date object
@@ -41,17 +41,47 @@ export function tsToBucket(ts: Date, intervalSeconds: number): number {
   return Math.floor(ts.getTime() / (intervalSeconds * 1000));
 }
 
+/**
+ * Check if either side of the book moved by at least one epsilon bucket (v3.2.0)
+ * A side the new quote doesn't report (undefined) is treated as unchanged.
+ */
+export function bookChanged(
+  newBook: TopOfBook | undefined,
+  lastBook: TopOfBook | undefined,
+  epsilon: number
+): boolean {
+  if (!newBook) return false;
+
+  for (const key of ['bestBid', 'bestAsk'] as const) {
+    const next = newBook[key];
+    if (next === undefined) continue;
+    const prev = lastBook?.[key] ?? null;
+    if (next === null || prev === null) {
+      if (next !== prev) return true;
+      continue;
+    }
+    if (priceToBucket(next, epsilon) !== priceToBucket(prev, epsilon)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
 /**
  * Check if a new quote should be recorded based on dedup rules
  * Returns true if the quote should be written
  * Uses bucket comparison for float-safe price comparison
+ * v3.2.0: Optional top-of-book - a move on either side records even if the mid is unchanged
  */
 export function shouldRecordQuote(
   newPrice: number,
   lastPrice: number | null,
   lastTs: Date | null,
   now: Date,
-  config: DedupConfig = DEFAULT_DEDUP_CONFIG
+  config: DedupConfig = DEFAULT_DEDUP_CONFIG,
+  newBook?: TopOfBook,
+  lastBook?: TopOfBook
 ): boolean {
   // Always record if no previous quote exists
   if (lastPrice === null || lastTs === null) {
@@ -71,7 +101,7 @@ export function shouldRecordQuote(
     return true;
   }
 
-  return false;
+  return bookChanged(newBook, lastBook, config.epsilon);
 }
 
 /**
@@ -91,11 +121,14 @@ export class QuoteDeduplicator {
   /**
    * Check if this quote was already seen in this cycle
    * Returns true if it's a duplicate (should skip)
+   * v3.2.0: Top-of-book prices are part of the key when provided
    */
-  isDuplicate(outcomeId: number, price: number, ts: Date): boolean {
+  isDuplicate(outcomeId: number, price: number, ts: Date, book?: TopOfBook): boolean {
     const priceBucket = priceToBucket(price, this.epsilon);
     const timeBucket = tsToBucket(ts, this.intervalSeconds);
-    const key = `${outcomeId}:${timeBucket}:${priceBucket}`;
+    const bidBucket = book?.bestBid != null ? priceToBucket(book.bestBid, this.epsilon) : '-';
+    const askBucket = book?.bestAsk != null ? priceToBucket(book.bestAsk, this.epsilon) : '-';
+    const key = `${outcomeId}:${timeBucket}:${priceBucket}:${bidBucket}:${askBucket}`;
 
     if (this.seen.has(key)) {
       return true;
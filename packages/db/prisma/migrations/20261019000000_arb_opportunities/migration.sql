@@ -0,0 +1,43 @@
+-- v3.2.0: Cross-venue arbitrage opportunities over confirmed links
+
+-- CreateEnum
+CREATE TYPE "ArbStatus" AS ENUM ('open', 'closed');
+
+-- CreateTable
+CREATE TABLE "arb_opportunities" (
+    "id" SERIAL NOT NULL,
+    "link_id" INTEGER NOT NULL,
+    "strategy" TEXT NOT NULL,
+    "status" "ArbStatus" NOT NULL DEFAULT 'open',
+    "inverted" BOOLEAN NOT NULL DEFAULT false,
+    "left_outcome_id" INTEGER NOT NULL,
+    "right_outcome_id" INTEGER NOT NULL,
+    "left_price" DOUBLE PRECISION NOT NULL,
+    "right_price" DOUBLE PRECISION NOT NULL,
+    "gross_edge" DOUBLE PRECISION NOT NULL,
+    "net_edge" DOUBLE PRECISION NOT NULL,
+    "max_net_edge" DOUBLE PRECISION NOT NULL,
+    "size" DOUBLE PRECISION,
+    "left_quote_age_sec" INTEGER NOT NULL,
+    "right_quote_age_sec" INTEGER NOT NULL,
+    "scan_count" INTEGER NOT NULL DEFAULT 1,
+    "first_seen_at" TIMESTAMPTZ NOT NULL,
+    "last_seen_at" TIMESTAMPTZ NOT NULL,
+    "closed_at" TIMESTAMPTZ,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "arb_opportunities_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "arb_opportunities_link_id_strategy_status_idx" ON "arb_opportunities"("link_id", "strategy", "status");
+
+-- CreateIndex
+CREATE INDEX "arb_opportunities_status_net_edge_idx" ON "arb_opportunities"("status", "net_edge" DESC);
+
+-- CreateIndex
+CREATE INDEX "arb_opportunities_first_seen_at_idx" ON "arb_opportunities"("first_seen_at");
+
+-- AddForeignKey
+ALTER TABLE "arb_opportunities" ADD CONSTRAINT "arb_opportunities_link_id_fkey" FOREIGN KEY ("link_id") REFERENCES "market_links"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- v3.2.0: First-class top-of-book columns on quotes (previously only inside raw JSON)
+
+-- Quotes
+ALTER TABLE "quotes" ADD COLUMN "best_bid" DOUBLE PRECISION;
+ALTER TABLE "quotes" ADD COLUMN "best_ask" DOUBLE PRECISION;
+ALTER TABLE "quotes" ADD COLUMN "bid_size" DOUBLE PRECISION;
+ALTER TABLE "quotes" ADD COLUMN "ask_size" DOUBLE PRECISION;
+ALTER TABLE "quotes" ADD COLUMN "spread" DOUBLE PRECISION;
+
+-- LatestQuotes
+ALTER TABLE "latest_quotes" ADD COLUMN "best_bid" DOUBLE PRECISION;
+ALTER TABLE "latest_quotes" ADD COLUMN "best_ask" DOUBLE PRECISION;
+ALTER TABLE "latest_quotes" ADD COLUMN "bid_size" DOUBLE PRECISION;
+ALTER TABLE "latest_quotes" ADD COLUMN "ask_size" DOUBLE PRECISION;
+ALTER TABLE "latest_quotes" ADD COLUMN "spread" DOUBLE PRECISION;
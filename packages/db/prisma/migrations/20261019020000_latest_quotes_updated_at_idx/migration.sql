@@ -0,0 +1,2 @@
+-- v3.2.0: Live quote stream polls latest_quotes for rows written since its cursor
+CREATE INDEX "latest_quotes_updated_at_idx" ON "latest_quotes"("updated_at");
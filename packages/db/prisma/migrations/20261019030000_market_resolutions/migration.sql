@@ -0,0 +1,34 @@
+-- v3.2.0: Market resolution / settlement outcome tracking
+
+-- CreateEnum
+CREATE TYPE "ResolutionStatus" AS ENUM ('pending', 'resolved', 'void');
+
+-- CreateTable
+CREATE TABLE "market_resolutions" (
+    "id" SERIAL NOT NULL,
+    "market_id" INTEGER NOT NULL,
+    "status" "ResolutionStatus" NOT NULL,
+    "winning_outcome_id" INTEGER,
+    "winning_outcome" TEXT,
+    "winning_side" "OutcomeSide",
+    "settlement_value" DOUBLE PRECISION,
+    "resolved_at" TIMESTAMPTZ,
+    "source" TEXT NOT NULL,
+    "raw" JSONB,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "market_resolutions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "market_resolutions_market_id_key" ON "market_resolutions"("market_id");
+
+-- CreateIndex
+CREATE INDEX "market_resolutions_status_resolved_at_idx" ON "market_resolutions"("status", "resolved_at");
+
+-- AddForeignKey
+ALTER TABLE "market_resolutions" ADD CONSTRAINT "market_resolutions_market_id_fkey" FOREIGN KEY ("market_id") REFERENCES "markets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "market_resolutions" ADD CONSTRAINT "market_resolutions_winning_outcome_id_fkey" FOREIGN KEY ("winning_outcome_id") REFERENCES "outcomes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
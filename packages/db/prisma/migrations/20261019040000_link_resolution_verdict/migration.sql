@@ -0,0 +1,12 @@
+-- v3.2.0: Resolution agreement verdict on market links
+
+-- CreateEnum
+CREATE TYPE "ResolutionVerdict" AS ENUM ('AGREE', 'DISAGREE', 'PENDING', 'VOID');
+
+-- AlterTable
+ALTER TABLE "market_links" ADD COLUMN "resolution_verdict" "ResolutionVerdict",
+ADD COLUMN "resolution_checked_at" TIMESTAMPTZ,
+ADD COLUMN "resolution_details" JSONB;
+
+-- CreateIndex
+CREATE INDEX "market_links_resolution_verdict_idx" ON "market_links"("resolution_verdict");
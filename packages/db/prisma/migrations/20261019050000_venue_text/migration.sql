@@ -0,0 +1,13 @@
+-- v3.2.0: Store venues as text so plug-in venues need no enum migration
+
+-- AlterTable
+ALTER TABLE "markets" ALTER COLUMN "venue" TYPE TEXT USING "venue"::text;
+ALTER TABLE "ingestion_state" ALTER COLUMN "venue" TYPE TEXT USING "venue"::text;
+ALTER TABLE "ingestion_runs" ALTER COLUMN "venue" TYPE TEXT USING "venue"::text;
+ALTER TABLE "market_links" ALTER COLUMN "left_venue" TYPE TEXT USING "left_venue"::text,
+ALTER COLUMN "right_venue" TYPE TEXT USING "right_venue"::text;
+ALTER TABLE "quote_watchlist" ALTER COLUMN "venue" TYPE TEXT USING "venue"::text;
+ALTER TABLE "topic_map" ALTER COLUMN "venue" TYPE TEXT USING "venue"::text;
+
+-- DropEnum
+DROP TYPE "Venue";
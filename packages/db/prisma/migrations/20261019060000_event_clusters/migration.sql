@@ -0,0 +1,59 @@
+-- v3.2.0: N-venue event clusters derived from confirmed links
+
+-- CreateEnum
+CREATE TYPE "ClusterStatus" AS ENUM ('ok', 'conflict');
+
+-- CreateTable
+CREATE TABLE "event_clusters" (
+    "id" SERIAL NOT NULL,
+    "key" TEXT NOT NULL,
+    "topic" TEXT,
+    "title" TEXT NOT NULL,
+    "status" "ClusterStatus" NOT NULL DEFAULT 'ok',
+    "member_count" INTEGER NOT NULL,
+    "venue_count" INTEGER NOT NULL,
+    "link_count" INTEGER NOT NULL,
+    "conflicts" JSONB,
+    "built_at" TIMESTAMPTZ NOT NULL,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "event_clusters_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "event_cluster_members" (
+    "id" SERIAL NOT NULL,
+    "cluster_id" INTEGER NOT NULL,
+    "market_id" INTEGER NOT NULL,
+    "venue" TEXT NOT NULL,
+
+    CONSTRAINT "event_cluster_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_clusters_key_key" ON "event_clusters"("key");
+
+-- CreateIndex
+CREATE INDEX "event_clusters_status_idx" ON "event_clusters"("status");
+
+-- CreateIndex
+CREATE INDEX "event_clusters_topic_idx" ON "event_clusters"("topic");
+
+-- CreateIndex
+CREATE INDEX "event_clusters_venue_count_idx" ON "event_clusters"("venue_count");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_cluster_members_market_id_key" ON "event_cluster_members"("market_id");
+
+-- CreateIndex
+CREATE INDEX "event_cluster_members_cluster_id_idx" ON "event_cluster_members"("cluster_id");
+
+-- CreateIndex
+CREATE INDEX "event_cluster_members_venue_idx" ON "event_cluster_members"("venue");
+
+-- AddForeignKey
+ALTER TABLE "event_cluster_members" ADD CONSTRAINT "event_cluster_members_cluster_id_fkey" FOREIGN KEY ("cluster_id") REFERENCES "event_clusters"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_cluster_members" ADD CONSTRAINT "event_cluster_members_market_id_fkey" FOREIGN KEY ("market_id") REFERENCES "markets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- v3.2.0: Bracket / ladder equivalences replicated from another venue's legs
+
+-- CreateTable
+CREATE TABLE "synthetic_links" (
+    "id" SERIAL NOT NULL,
+    "event_key" TEXT NOT NULL,
+    "topic" TEXT,
+    "target_venue" TEXT NOT NULL,
+    "target_market_id" INTEGER NOT NULL,
+    "target_lo" DOUBLE PRECISION,
+    "target_hi" DOUBLE PRECISION,
+    "leg_venue" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "constant" INTEGER NOT NULL DEFAULT 0,
+    "legs" JSONB NOT NULL,
+    "legs_key" TEXT NOT NULL,
+    "leg_count" INTEGER NOT NULL,
+    "status" "LinkStatus" NOT NULL DEFAULT 'suggested',
+    "algo_version" TEXT NOT NULL,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "synthetic_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "synthetic_links_target_market_id_legs_key_key" ON "synthetic_links"("target_market_id", "legs_key");
+
+-- CreateIndex
+CREATE INDEX "synthetic_links_event_key_idx" ON "synthetic_links"("event_key");
+
+-- CreateIndex
+CREATE INDEX "synthetic_links_status_kind_idx" ON "synthetic_links"("status", "kind");
+
+-- AddForeignKey
+ALTER TABLE "synthetic_links" ADD CONSTRAINT "synthetic_links_target_market_id_fkey" FOREIGN KEY ("target_market_id") REFERENCES "markets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- v3.2.0: Cross-venue consensus probability time series
+
+-- CreateTable
+CREATE TABLE "consensus_quotes" (
+    "id" SERIAL NOT NULL,
+    "subject_key" TEXT NOT NULL,
+    "topic" TEXT,
+    "market_ids" INTEGER[],
+    "ts" TIMESTAMPTZ NOT NULL,
+    "prob" DOUBLE PRECISION NOT NULL,
+    "lo" DOUBLE PRECISION NOT NULL,
+    "hi" DOUBLE PRECISION NOT NULL,
+    "divergence" DOUBLE PRECISION NOT NULL,
+    "diverged" BOOLEAN NOT NULL DEFAULT false,
+    "source_count" INTEGER NOT NULL,
+    "sources" JSONB NOT NULL,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "consensus_quotes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "consensus_quotes_subject_key_ts_idx" ON "consensus_quotes"("subject_key", "ts");
+
+-- CreateIndex
+CREATE INDEX "consensus_quotes_topic_ts_idx" ON "consensus_quotes"("topic", "ts");
+
+-- CreateIndex
+CREATE INDEX "consensus_quotes_market_ids_idx" ON "consensus_quotes" USING GIN ("market_ids");
@@ -0,0 +1,45 @@
+-- v3.2.0: Alert rules and fired alert log
+
+-- CreateTable
+CREATE TABLE "alert_rules" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "params" JSONB NOT NULL,
+    "sinks" JSONB NOT NULL,
+    "cooldown_sec" INTEGER NOT NULL DEFAULT 900,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "alert_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "alert_events" (
+    "id" SERIAL NOT NULL,
+    "rule_id" INTEGER NOT NULL,
+    "dedup_key" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "data" JSONB,
+    "deliveries" JSONB NOT NULL,
+    "fired_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "alert_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "alert_rules_name_key" ON "alert_rules"("name");
+
+-- CreateIndex
+CREATE INDEX "alert_rules_enabled_idx" ON "alert_rules"("enabled");
+
+-- CreateIndex
+CREATE INDEX "alert_events_rule_id_dedup_key_fired_at_idx" ON "alert_events"("rule_id", "dedup_key", "fired_at" DESC);
+
+-- CreateIndex
+CREATE INDEX "alert_events_fired_at_idx" ON "alert_events"("fired_at");
+
+-- AddForeignKey
+ALTER TABLE "alert_events" ADD CONSTRAINT "alert_events_rule_id_fkey" FOREIGN KEY ("rule_id") REFERENCES "alert_rules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
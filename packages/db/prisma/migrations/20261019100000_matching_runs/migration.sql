@@ -0,0 +1,31 @@
+-- v3.2.0: Engine V3 run history
+
+-- CreateTable
+CREATE TABLE "matching_runs" (
+    "id" SERIAL NOT NULL,
+    "topic" TEXT NOT NULL,
+    "algo_version" TEXT NOT NULL,
+    "from_venue" TEXT NOT NULL,
+    "to_venue" TEXT NOT NULL,
+    "mode" TEXT NOT NULL,
+    "ok" BOOLEAN NOT NULL,
+    "left_count" INTEGER NOT NULL,
+    "right_count" INTEGER NOT NULL,
+    "suggestions_created" INTEGER NOT NULL,
+    "auto_confirmed" INTEGER NOT NULL,
+    "auto_rejected" INTEGER NOT NULL,
+    "duration_ms" INTEGER NOT NULL,
+    "stats" JSONB NOT NULL,
+    "options" JSONB,
+    "errors" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "started_at" TIMESTAMPTZ NOT NULL,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "matching_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "matching_runs_topic_from_venue_to_venue_started_at_idx" ON "matching_runs"("topic", "from_venue", "to_venue", "started_at" DESC);
+
+-- CreateIndex
+CREATE INDEX "matching_runs_started_at_idx" ON "matching_runs"("started_at");
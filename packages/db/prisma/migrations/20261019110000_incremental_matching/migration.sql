@@ -0,0 +1,19 @@
+-- v3.2.0: Incremental matching watermarks
+
+-- AlterTable
+ALTER TABLE "matching_runs" ADD COLUMN "incremental" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "matching_watermarks" (
+    "id" SERIAL NOT NULL,
+    "topic" TEXT NOT NULL,
+    "from_venue" TEXT NOT NULL,
+    "to_venue" TEXT NOT NULL,
+    "watermark_ts" TIMESTAMPTZ NOT NULL,
+    "updated_at" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "matching_watermarks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "matching_watermarks_topic_from_venue_to_venue_key" ON "matching_watermarks"("topic", "from_venue", "to_venue");
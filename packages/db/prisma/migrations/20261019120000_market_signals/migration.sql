@@ -0,0 +1,26 @@
+-- v3.2.0: Persisted matching signals and index keys
+
+-- CreateTable
+CREATE TABLE "market_signals" (
+    "id" SERIAL NOT NULL,
+    "market_id" INTEGER NOT NULL,
+    "topic" TEXT NOT NULL,
+    "extractor_version" TEXT NOT NULL,
+    "signals" JSONB,
+    "index_keys" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "computed_at" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "market_signals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "market_signals_market_id_topic_extractor_version_key" ON "market_signals"("market_id", "topic", "extractor_version");
+
+-- CreateIndex
+CREATE INDEX "market_signals_topic_extractor_version_idx" ON "market_signals"("topic", "extractor_version");
+
+-- CreateIndex
+CREATE INDEX "market_signals_index_keys_idx" ON "market_signals" USING GIN ("index_keys");
+
+-- AddForeignKey
+ALTER TABLE "market_signals" ADD CONSTRAINT "market_signals_market_id_fkey" FOREIGN KEY ("market_id") REFERENCES "markets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- v3.2.0: Link lifecycle audit log
+
+-- CreateTable
+CREATE TABLE "market_link_events" (
+    "id" SERIAL NOT NULL,
+    "link_id" INTEGER NOT NULL,
+    "from_status" "LinkStatus",
+    "to_status" "LinkStatus" NOT NULL,
+    "from_reason" TEXT,
+    "to_reason" TEXT,
+    "from_score" DOUBLE PRECISION,
+    "to_score" DOUBLE PRECISION NOT NULL,
+    "algo_version" TEXT,
+    "actor_type" TEXT NOT NULL,
+    "actor_id" TEXT NOT NULL,
+    "source" TEXT,
+    "rollback_of_id" INTEGER,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "market_link_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "market_link_events_link_id_id_idx" ON "market_link_events"("link_id", "id");
+
+-- CreateIndex
+CREATE INDEX "market_link_events_created_at_idx" ON "market_link_events"("created_at");
+
+-- CreateIndex
+CREATE INDEX "market_link_events_actor_type_actor_id_idx" ON "market_link_events"("actor_type", "actor_id");
+
+-- CreateIndex
+CREATE INDEX "market_link_events_source_idx" ON "market_link_events"("source");
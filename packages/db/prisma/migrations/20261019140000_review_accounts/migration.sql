@@ -0,0 +1,51 @@
+-- v3.2.0: Review server accounts and per-reviewer decisions
+
+-- CreateTable
+CREATE TABLE "reviewers" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'reviewer',
+    "password_hash" TEXT,
+    "token_hash" TEXT,
+    "topics" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "reviewers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "review_decisions" (
+    "id" SERIAL NOT NULL,
+    "link_id" INTEGER NOT NULL,
+    "reviewer_id" INTEGER NOT NULL,
+    "round" INTEGER NOT NULL,
+    "decision" TEXT NOT NULL,
+    "sampled" BOOLEAN NOT NULL DEFAULT false,
+    "note" TEXT,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "review_decisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reviewers_name_key" ON "reviewers"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reviewers_token_hash_key" ON "reviewers"("token_hash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "review_decisions_link_id_round_key" ON "review_decisions"("link_id", "round");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "review_decisions_link_id_reviewer_id_key" ON "review_decisions"("link_id", "reviewer_id");
+
+-- CreateIndex
+CREATE INDEX "review_decisions_reviewer_id_created_at_idx" ON "review_decisions"("reviewer_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "review_decisions" ADD CONSTRAINT "review_decisions_link_id_fkey" FOREIGN KEY ("link_id") REFERENCES "market_links"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_decisions" ADD CONSTRAINT "review_decisions_reviewer_id_fkey" FOREIGN KEY ("reviewer_id") REFERENCES "reviewers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
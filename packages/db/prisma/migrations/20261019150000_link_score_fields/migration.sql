@@ -0,0 +1,4 @@
+-- v3.2.0: Structured scorer output on links, read by declarative link rules
+
+-- AlterTable
+ALTER TABLE "market_links" ADD COLUMN "score_fields" JSONB;
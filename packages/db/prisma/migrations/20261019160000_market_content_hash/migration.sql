@@ -0,0 +1,8 @@
+-- v3.2.0: Track changes to the market fields matching reads
+
+-- AlterTable
+ALTER TABLE "markets" ADD COLUMN "content_hash" TEXT,
+ADD COLUMN "content_changed_at" TIMESTAMPTZ;
+
+-- Existing rows: last write is the best available bound
+UPDATE "markets" SET "content_changed_at" = "updated_at";
@@ -0,0 +1,6 @@
+-- v3.2.0: Scope incremental watermarks to the run that set them
+
+-- AlterTable
+ALTER TABLE "matching_watermarks" ADD COLUMN "algo_version" TEXT,
+ADD COLUMN "min_score" DOUBLE PRECISION,
+ADD COLUMN "market_ids" INTEGER[] DEFAULT ARRAY[]::INTEGER[];
@@ -1,6 +1,7 @@
 export { getClient, disconnect, PrismaClient, Prisma } from './client.js';
 export * from './repositories/index.js';
 export * from './utils/chunked-processor.js';
+export * from './utils/market-content.js';
 
 // Re-export Prisma types
 export type {
@@ -13,8 +14,28 @@ export type {
   MarketLink,
   QuoteWatchlist,
   KalshiEvent,
-  Venue,
+  ArbOpportunity,
+  MarketResolution,
   MarketStatus,
   OutcomeSide,
   LinkStatus,
+  ArbStatus,
+  ResolutionStatus,
+  ResolutionVerdict,
+  EventCluster,
+  EventClusterMember,
+  ClusterStatus,
+  SyntheticLink,
+  ConsensusQuote,
+  AlertRule,
+  AlertEvent,
+  MatchingRun,
+  MatchingWatermark,
+  MarketSignal,
+  MarketLinkEvent,
+  Reviewer,
+  ReviewDecision,
 } from '@prisma/client';
+
+// v3.2.0: Venue is an open string type (stored as text), owned by core
+export type { Venue } from '@data-module/core';
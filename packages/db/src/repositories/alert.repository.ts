@@ -0,0 +1,120 @@
+/**
+ * AlertRepository - Alert rules and fired alert log (v3.2.0)
+ *
+ * Rules hold a type, type-specific params and a list of sinks as JSON; the
+ * worker's alert engine validates them when it loads. Every alert that
+ * fires is appended to alert_events with its per-sink delivery result, and
+ * the newest event per (rule, dedupKey) drives the cooldown.
+ */
+
+import type { PrismaClient, Prisma, AlertRule, AlertEvent } from '@prisma/client';
+
+export interface AlertRuleInput {
+  name: string;
+  type: string;
+  params: Record<string, unknown>;
+  sinks: Array<Record<string, unknown>>;
+  cooldownSec?: number;
+  enabled?: boolean;
+}
+
+export interface AlertDelivery {
+  sink: string;
+  ok: boolean;
+  error?: string;
+}
+
+export interface AlertEventInput {
+  ruleId: number;
+  dedupKey: string;
+  title: string;
+  message: string;
+  data?: Record<string, unknown>;
+  deliveries: AlertDelivery[];
+  firedAt?: Date;
+}
+
+/**
+ * Repository for alert rule and event operations
+ */
+export class AlertRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * All rules, or only enabled ones
+   */
+  async listRules(options: { enabledOnly?: boolean } = {}): Promise<AlertRule[]> {
+    return this.prisma.alertRule.findMany({
+      where: options.enabledOnly ? { enabled: true } : {},
+      orderBy: { id: 'asc' },
+    });
+  }
+
+  async createRule(input: AlertRuleInput): Promise<AlertRule> {
+    return this.prisma.alertRule.create({
+      data: {
+        name: input.name,
+        type: input.type,
+        params: input.params as Prisma.InputJsonValue,
+        sinks: input.sinks as Prisma.InputJsonValue,
+        ...(input.cooldownSec !== undefined && { cooldownSec: input.cooldownSec }),
+        ...(input.enabled !== undefined && { enabled: input.enabled }),
+      },
+    });
+  }
+
+  async setEnabled(id: number, enabled: boolean): Promise<AlertRule> {
+    return this.prisma.alertRule.update({ where: { id }, data: { enabled } });
+  }
+
+  async deleteRule(id: number): Promise<AlertRule> {
+    return this.prisma.alertRule.delete({ where: { id } });
+  }
+
+  /**
+   * When each (rule, dedupKey) last fired
+   */
+  async getLastFired(ruleId: number, dedupKeys: string[]): Promise<Map<string, Date>> {
+    if (dedupKeys.length === 0) return new Map();
+
+    const groups = await this.prisma.alertEvent.groupBy({
+      by: ['dedupKey'],
+      where: { ruleId, dedupKey: { in: dedupKeys } },
+      _max: { firedAt: true },
+    });
+    const result = new Map<string, Date>();
+    for (const g of groups) {
+      if (g._max.firedAt) result.set(g.dedupKey, g._max.firedAt);
+    }
+    return result;
+  }
+
+  async recordEvent(input: AlertEventInput): Promise<AlertEvent> {
+    return this.prisma.alertEvent.create({
+      data: {
+        ruleId: input.ruleId,
+        dedupKey: input.dedupKey,
+        title: input.title,
+        message: input.message,
+        ...(input.data && { data: input.data as Prisma.InputJsonValue }),
+        deliveries: input.deliveries as unknown as Prisma.InputJsonValue,
+        ...(input.firedAt && { firedAt: input.firedAt }),
+      },
+    });
+  }
+
+  /**
+   * Recent events, newest first
+   */
+  async listEvents(options: { ruleId?: number; since?: Date; limit?: number } = {}): Promise<AlertEvent[]> {
+    const { ruleId, since, limit = 50 } = options;
+    return this.prisma.alertEvent.findMany({
+      where: {
+        ...(ruleId !== undefined && { ruleId }),
+        ...(since && { firedAt: { gte: since } }),
+      },
+      orderBy: [{ firedAt: 'desc' }, { id: 'desc' }],
+      take: limit,
+    });
+  }
+}
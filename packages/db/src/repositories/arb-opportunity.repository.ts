@@ -0,0 +1,222 @@
+/**
+ * ArbOpportunityRepository - Track cross-venue spreads on confirmed links (v3.2.0)
+ *
+ * Each row is one continuous window during which a spread was observed.
+ * arb:scan calls recordScan() every cycle: matching open rows are extended,
+ * new spreads open a row, and spreads that disappeared are closed.
+ */
+
+import type { PrismaClient, ArbOpportunity, MarketLink, Market, Outcome, LatestQuote } from '@prisma/client';
+
+export interface ArbObservation {
+  linkId: number;
+  strategy: string;
+  inverted: boolean;
+  leftOutcomeId: number;
+  rightOutcomeId: number;
+  leftPrice: number;
+  rightPrice: number;
+  grossEdge: number;
+  netEdge: number;
+  size: number | null;
+  leftQuoteAgeSec: number;
+  rightQuoteAgeSec: number;
+}
+
+export interface RecordScanResult {
+  opened: number;
+  extended: number;
+  closed: number;
+}
+
+export type MarketWithQuotes = Market & {
+  outcomes: Array<Outcome & { latestQuote: LatestQuote | null }>;
+};
+
+export interface LinkWithQuotes extends MarketLink {
+  leftMarket: MarketWithQuotes;
+  rightMarket: MarketWithQuotes;
+}
+
+export interface ArbOpportunityWithLink extends ArbOpportunity {
+  link: MarketLink & {
+    leftMarket: { id: number; title: string };
+    rightMarket: { id: number; title: string };
+  };
+}
+
+export interface ArbDurationStats {
+  closedCount: number;
+  openCount: number;
+  avgOpenSeconds: number | null;
+  medianOpenSeconds: number | null;
+  maxOpenSeconds: number | null;
+}
+
+/**
+ * Repository for arbitrage opportunity operations
+ */
+export class ArbOpportunityRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Load confirmed links with both markets, their outcomes and latest quotes
+   */
+  async getConfirmedLinksWithQuotes(options: {
+    topic?: string;
+    /** Only links with one of these markets on either side */
+    marketIds?: number[];
+    limit?: number;
+  } = {}): Promise<LinkWithQuotes[]> {
+    const { topic, marketIds, limit = 5000 } = options;
+
+    return this.prisma.marketLink.findMany({
+      where: {
+        status: 'confirmed',
+        ...(topic ? { topic } : {}),
+        ...(marketIds ? { OR: [{ leftMarketId: { in: marketIds } }, { rightMarketId: { in: marketIds } }] } : {}),
+      },
+      include: {
+        leftMarket: { include: { outcomes: { include: { latestQuote: true } } } },
+        rightMarket: { include: { outcomes: { include: { latestQuote: true } } } },
+      },
+      orderBy: { id: 'asc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Persist the result of one scan
+   *
+   * @param observations - Opportunities found in this scan
+   * @param scannedLinkIds - All links evaluated in this scan; open rows for
+   *   these links that were not observed again are closed. Open rows for
+   *   links outside the scan scope are left untouched.
+   */
+  async recordScan(
+    observations: ArbObservation[],
+    scannedLinkIds: number[],
+    scannedAt: Date = new Date()
+  ): Promise<RecordScanResult> {
+    let opened = 0;
+    let extended = 0;
+
+    const openRows = await this.prisma.arbOpportunity.findMany({
+      where: { status: 'open', linkId: { in: scannedLinkIds } },
+    });
+    const openByKey = new Map(openRows.map((r) => [`${r.linkId}:${r.strategy}`, r]));
+    const seenKeys = new Set<string>();
+
+    for (const obs of observations) {
+      const key = `${obs.linkId}:${obs.strategy}`;
+      seenKeys.add(key);
+      const existing = openByKey.get(key);
+
+      if (existing) {
+        await this.prisma.arbOpportunity.update({
+          where: { id: existing.id },
+          data: {
+            inverted: obs.inverted,
+            leftOutcomeId: obs.leftOutcomeId,
+            rightOutcomeId: obs.rightOutcomeId,
+            leftPrice: obs.leftPrice,
+            rightPrice: obs.rightPrice,
+            grossEdge: obs.grossEdge,
+            netEdge: obs.netEdge,
+            maxNetEdge: Math.max(existing.maxNetEdge, obs.netEdge),
+            size: obs.size,
+            leftQuoteAgeSec: obs.leftQuoteAgeSec,
+            rightQuoteAgeSec: obs.rightQuoteAgeSec,
+            scanCount: { increment: 1 },
+            lastSeenAt: scannedAt,
+          },
+        });
+        extended++;
+      } else {
+        await this.prisma.arbOpportunity.create({
+          data: {
+            linkId: obs.linkId,
+            strategy: obs.strategy,
+            inverted: obs.inverted,
+            leftOutcomeId: obs.leftOutcomeId,
+            rightOutcomeId: obs.rightOutcomeId,
+            leftPrice: obs.leftPrice,
+            rightPrice: obs.rightPrice,
+            grossEdge: obs.grossEdge,
+            netEdge: obs.netEdge,
+            size: obs.size,
+            leftQuoteAgeSec: obs.leftQuoteAgeSec,
+            rightQuoteAgeSec: obs.rightQuoteAgeSec,
+            status: 'open',
+            maxNetEdge: obs.netEdge,
+            firstSeenAt: scannedAt,
+            lastSeenAt: scannedAt,
+          },
+        });
+        opened++;
+      }
+    }
+
+    const toClose = openRows.filter((r) => !seenKeys.has(`${r.linkId}:${r.strategy}`));
+    if (toClose.length > 0) {
+      await this.prisma.arbOpportunity.updateMany({
+        where: { id: { in: toClose.map((r) => r.id) } },
+        data: { status: 'closed', closedAt: scannedAt },
+      });
+    }
+
+    return { opened, extended, closed: toClose.length };
+  }
+
+  /**
+   * List currently open opportunities, best net edge first
+   */
+  async listOpen(options: { limit?: number; minNetEdge?: number } = {}): Promise<ArbOpportunityWithLink[]> {
+    const { limit = 50, minNetEdge } = options;
+
+    return this.prisma.arbOpportunity.findMany({
+      where: {
+        status: 'open',
+        ...(minNetEdge !== undefined ? { netEdge: { gte: minNetEdge } } : {}),
+      },
+      include: {
+        link: {
+          include: {
+            leftMarket: { select: { id: true, title: true } },
+            rightMarket: { select: { id: true, title: true } },
+          },
+        },
+      },
+      orderBy: { netEdge: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * How long spreads stay open (closed windows since a cutoff)
+   */
+  async getDurationStats(since: Date): Promise<ArbDurationStats> {
+    const closed = await this.prisma.arbOpportunity.findMany({
+      where: { status: 'closed', firstSeenAt: { gte: since } },
+      select: { firstSeenAt: true, closedAt: true },
+    });
+    const openCount = await this.prisma.arbOpportunity.count({ where: { status: 'open' } });
+
+    const durations = closed
+      .filter((r) => r.closedAt !== null)
+      .map((r) => (r.closedAt!.getTime() - r.firstSeenAt.getTime()) / 1000)
+      .sort((a, b) => a - b);
+
+    if (durations.length === 0) {
+      return { closedCount: 0, openCount, avgOpenSeconds: null, medianOpenSeconds: null, maxOpenSeconds: null };
+    }
+
+    return {
+      closedCount: durations.length,
+      openCount,
+      avgOpenSeconds: durations.reduce((s, d) => s + d, 0) / durations.length,
+      medianOpenSeconds: durations[Math.floor(durations.length / 2)],
+      maxOpenSeconds: durations[durations.length - 1],
+    };
+  }
+}
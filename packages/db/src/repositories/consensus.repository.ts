@@ -0,0 +1,178 @@
+/**
+ * ConsensusRepository - Cross-venue consensus probability series (v3.2.0)
+ *
+ * consensus:compute blends the latest quotes of every market in a confirmed
+ * link or event cluster into one probability and appends a row here when the
+ * underlying quotes have moved. Rows are keyed by subject ("link:<id>",
+ * "cluster:<key>") and carry all member market ids for per-market lookups.
+ */
+
+import type { PrismaClient, Prisma, ConsensusQuote, EventCluster } from '@prisma/client';
+import type { MarketWithQuotes } from './arb-opportunity.repository.js';
+
+export interface ConsensusSourceRecord {
+  marketId: number;
+  venue: string;
+  prob: number;
+  weight: number;
+  ageSec: number;
+  liquidity: number | null;
+  spread: number | null;
+  inverted: boolean;
+}
+
+export interface ConsensusQuoteInput {
+  subjectKey: string;
+  topic: string | null;
+  marketIds: number[];
+  ts: Date;
+  prob: number;
+  lo: number;
+  hi: number;
+  divergence: number;
+  diverged: boolean;
+  sources: ConsensusSourceRecord[];
+}
+
+export interface ConsensusSeriesOptions {
+  subjectKey?: string;
+  /** Subjects containing this market */
+  marketId?: number;
+  topic?: string;
+  from?: Date;
+  to?: Date;
+  divergedOnly?: boolean;
+  limit?: number;
+}
+
+export interface ClusterWithQuotes extends EventCluster {
+  members: Array<{ marketId: number; venue: string; market: MarketWithQuotes }>;
+}
+
+/**
+ * Repository for consensus probability operations
+ */
+export class ConsensusRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Load event clusters with every member's outcomes and latest quotes
+   */
+  async getClustersWithQuotes(options: { topic?: string; limit?: number } = {}): Promise<ClusterWithQuotes[]> {
+    const { topic, limit = 5000 } = options;
+
+    return this.prisma.eventCluster.findMany({
+      where: topic ? { topic } : {},
+      include: {
+        members: {
+          select: {
+            marketId: true,
+            venue: true,
+            market: { include: { outcomes: { include: { latestQuote: true } } } },
+          },
+          orderBy: { marketId: 'asc' },
+        },
+      },
+      orderBy: { id: 'asc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Newest row per subject (used to skip subjects whose quotes have not moved)
+   */
+  async getLatestBySubjects(subjectKeys: string[]): Promise<Map<string, ConsensusQuote>> {
+    if (subjectKeys.length === 0) return new Map();
+
+    // DISTINCT ON in SQL: Prisma's `distinct` is applied in memory over every row
+    const latest = await this.prisma.$queryRaw<Array<{ id: number }>>`
+      SELECT DISTINCT ON (subject_key) id
+      FROM consensus_quotes
+      WHERE subject_key = ANY(${subjectKeys}::text[])
+      ORDER BY subject_key, ts DESC, id DESC
+    `;
+    const rows = await this.findByIds(latest.map((r) => r.id));
+    return new Map(rows.map((r) => [r.subjectKey, r]));
+  }
+
+  /**
+   * Append consensus rows
+   */
+  async insertMany(rows: ConsensusQuoteInput[]): Promise<number> {
+    if (rows.length === 0) return 0;
+
+    const result = await this.prisma.consensusQuote.createMany({
+      data: rows.map((r) => ({
+        subjectKey: r.subjectKey,
+        topic: r.topic,
+        marketIds: r.marketIds,
+        ts: r.ts,
+        prob: r.prob,
+        lo: r.lo,
+        hi: r.hi,
+        divergence: r.divergence,
+        diverged: r.diverged,
+        sourceCount: r.sources.length,
+        sources: r.sources as unknown as Prisma.InputJsonValue,
+      })),
+    });
+    return result.count;
+  }
+
+  /**
+   * Time series, newest first
+   */
+  async getSeries(options: ConsensusSeriesOptions = {}): Promise<ConsensusQuote[]> {
+    const { subjectKey, marketId, topic, from, to, divergedOnly = false, limit = 500 } = options;
+
+    return this.prisma.consensusQuote.findMany({
+      where: this.seriesWhere({ subjectKey, marketId, topic, from, to, divergedOnly }),
+      orderBy: [{ ts: 'desc' }, { id: 'desc' }],
+      take: limit,
+    });
+  }
+
+  /**
+   * Current value of each matching subject
+   */
+  async getLatest(options: Omit<ConsensusSeriesOptions, 'subjectKey' | 'from' | 'to'> = {}): Promise<ConsensusQuote[]> {
+    const { marketId, topic, divergedOnly = false, limit = 500 } = options;
+
+    const latest = await this.prisma.$queryRaw<Array<{ id: number }>>`
+      SELECT id
+      FROM (
+        SELECT DISTINCT ON (subject_key) id, ts, diverged
+        FROM consensus_quotes
+        WHERE (${topic ?? null}::text IS NULL OR topic = ${topic ?? null})
+          AND (${marketId ?? null}::int IS NULL OR ${marketId ?? null}::int = ANY(market_ids))
+        ORDER BY subject_key, ts DESC, id DESC
+      ) latest
+      WHERE (NOT ${divergedOnly} OR diverged)
+      ORDER BY ts DESC, id DESC
+      LIMIT ${limit}
+    `;
+    return this.findByIds(latest.map((r) => r.id));
+  }
+
+  /**
+   * Rows by id, newest first
+   */
+  private async findByIds(ids: number[]): Promise<ConsensusQuote[]> {
+    if (ids.length === 0) return [];
+    return this.prisma.consensusQuote.findMany({
+      where: { id: { in: ids } },
+      orderBy: [{ ts: 'desc' }, { id: 'desc' }],
+    });
+  }
+
+  private seriesWhere(options: ConsensusSeriesOptions): Prisma.ConsensusQuoteWhereInput {
+    const { subjectKey, marketId, topic, from, to, divergedOnly } = options;
+    return {
+      ...(subjectKey && { subjectKey }),
+      ...(marketId !== undefined && { marketIds: { has: marketId } }),
+      ...(topic && { topic }),
+      ...((from || to) && { ts: { ...(from && { gte: from }), ...(to && { lte: to }) } }),
+      ...(divergedOnly && { diverged: true }),
+    };
+  }
+}
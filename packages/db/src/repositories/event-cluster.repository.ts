@@ -0,0 +1,256 @@
+/**
+ * EventClusterRepository - N-venue clusters of equivalent markets (v3.2.0)
+ *
+ * Clusters are derived state: clusters:rebuild recomputes them from the
+ * reviewed MarketLinks and replaces the table contents. Cluster ids stay
+ * stable across rebuilds as long as a cluster keeps its key (lowest member
+ * market id).
+ */
+
+import { Prisma, type PrismaClient, type ClusterStatus, type EventCluster, type MarketStatus } from '@prisma/client';
+import type { Venue } from '@data-module/core';
+
+/** A full rebuild runs in one transaction; allow it well past Prisma's 5s default */
+const REBUILD_TIMEOUT_MS = 300_000;
+
+/**
+ * Reviewed link with both markets, as input to cluster derivation
+ */
+export interface ClusterLinkEdge {
+  linkId: number;
+  status: 'confirmed' | 'rejected';
+  topic: string | null;
+  left: { id: number; venue: Venue; title: string };
+  right: { id: number; venue: Venue; title: string };
+}
+
+/**
+ * A derived cluster to store
+ */
+export interface EventClusterInput {
+  key: string;
+  topic: string | null;
+  title: string;
+  members: Array<{ marketId: number; venue: Venue }>;
+  venues: Venue[];
+  linkIds: number[];
+  conflicts: object[];
+}
+
+export interface ReplaceClustersResult {
+  created: number;
+  updated: number;
+  deleted: number;
+}
+
+export interface SearchClustersOptions {
+  status?: ClusterStatus;
+  topic?: string;
+  /** Clusters with a member on this venue */
+  venue?: Venue;
+  minVenues?: number;
+  /** The cluster containing this market */
+  marketId?: number;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ClusterMemberMarket {
+  marketId: number;
+  venue: Venue;
+  market: {
+    id: number;
+    externalId: string;
+    title: string;
+    status: MarketStatus;
+    closeTime: Date | null;
+    derivedTopic: string | null;
+  };
+}
+
+export type EventClusterWithMembers = EventCluster & { members: ClusterMemberMarket[] };
+
+export interface SearchClustersResult {
+  items: EventClusterWithMembers[];
+  total: number;
+}
+
+export interface ClusterStats {
+  total: number;
+  byStatus: Record<string, number>;
+  byVenueCount: Record<number, number>;
+  members: number;
+}
+
+const memberInclude = {
+  members: {
+    select: {
+      marketId: true,
+      venue: true,
+      market: {
+        select: { id: true, externalId: true, title: true, status: true, closeTime: true, derivedTopic: true },
+      },
+    },
+    orderBy: [{ venue: 'asc' }, { marketId: 'asc' }],
+  },
+} satisfies Prisma.EventClusterInclude;
+
+/**
+ * Repository for event cluster operations
+ */
+export class EventClusterRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Confirmed and rejected links with both markets (suggestions are not edges)
+   */
+  async listLinkEdges(): Promise<ClusterLinkEdge[]> {
+    const marketSelect = { id: true, venue: true, title: true } as const;
+    const links = await this.prisma.marketLink.findMany({
+      where: { status: { in: ['confirmed', 'rejected'] } },
+      select: {
+        id: true,
+        status: true,
+        topic: true,
+        leftMarket: { select: marketSelect },
+        rightMarket: { select: marketSelect },
+      },
+      orderBy: { id: 'asc' },
+    });
+
+    return links.map((l) => ({
+      linkId: l.id,
+      status: l.status as ClusterLinkEdge['status'],
+      topic: l.topic,
+      left: l.leftMarket,
+      right: l.rightMarket,
+    }));
+  }
+
+  /**
+   * Replace all clusters with a fresh derivation, in one transaction
+   * Clusters are upserted by key; keys no longer derived are deleted.
+   */
+  async replaceClusters(clusters: EventClusterInput[], builtAt: Date = new Date()): Promise<ReplaceClustersResult> {
+    const result: ReplaceClustersResult = { created: 0, updated: 0, deleted: 0 };
+
+    await this.prisma.$transaction(
+      async (tx) => {
+        const existingKeys = new Set((await tx.eventCluster.findMany({ select: { key: true } })).map((c) => c.key));
+
+        // Memberships move between clusters on merge/split; clear them first (marketId is unique)
+        await tx.eventClusterMember.deleteMany({});
+
+        for (const cluster of clusters) {
+          const data = {
+            topic: cluster.topic,
+            title: cluster.title,
+            status: (cluster.conflicts.length > 0 ? 'conflict' : 'ok') as ClusterStatus,
+            memberCount: cluster.members.length,
+            venueCount: cluster.venues.length,
+            linkCount: cluster.linkIds.length,
+            conflicts: cluster.conflicts.length > 0 ? (cluster.conflicts as Prisma.InputJsonValue) : Prisma.DbNull,
+            builtAt,
+          };
+          const row = await tx.eventCluster.upsert({
+            where: { key: cluster.key },
+            create: { key: cluster.key, ...data },
+            update: data,
+            select: { id: true },
+          });
+          await tx.eventClusterMember.createMany({
+            data: cluster.members.map((m) => ({ clusterId: row.id, marketId: m.marketId, venue: m.venue })),
+          });
+
+          if (existingKeys.has(cluster.key)) {
+            result.updated++;
+          } else {
+            result.created++;
+          }
+        }
+
+        const deleted = await tx.eventCluster.deleteMany({ where: { builtAt: { not: builtAt } } });
+        result.deleted = deleted.count;
+      },
+      { timeout: REBUILD_TIMEOUT_MS }
+    );
+
+    return result;
+  }
+
+  /**
+   * Filtered, paginated cluster listing (largest clusters first)
+   */
+  async searchClusters(options: SearchClustersOptions = {}): Promise<SearchClustersResult> {
+    const { status, topic, venue, minVenues, marketId, limit = 50, offset = 0 } = options;
+
+    const where: Prisma.EventClusterWhereInput = {
+      ...(status && { status }),
+      ...(topic && { topic }),
+      ...(minVenues !== undefined && { venueCount: { gte: minVenues } }),
+      ...((venue || marketId !== undefined) && {
+        members: {
+          some: {
+            ...(venue && { venue }),
+            ...(marketId !== undefined && { marketId }),
+          },
+        },
+      }),
+    };
+
+    const [items, total] = await Promise.all([
+      this.prisma.eventCluster.findMany({
+        where,
+        include: memberInclude,
+        orderBy: [{ venueCount: 'desc' }, { memberCount: 'desc' }, { id: 'asc' }],
+        take: limit,
+        skip: offset,
+      }),
+      this.prisma.eventCluster.count({ where }),
+    ]);
+
+    return { items, total };
+  }
+
+  /**
+   * Cluster with its member markets
+   */
+  async getById(id: number): Promise<EventClusterWithMembers | null> {
+    return this.prisma.eventCluster.findUnique({
+      where: { id },
+      include: memberInclude,
+    });
+  }
+
+  /**
+   * Cluster containing a market, if any
+   */
+  async getByMarketId(marketId: number): Promise<EventClusterWithMembers | null> {
+    const member = await this.prisma.eventClusterMember.findUnique({
+      where: { marketId },
+      select: { clusterId: true },
+    });
+    return member ? this.getById(member.clusterId) : null;
+  }
+
+  /**
+   * Counts by status and venue count
+   */
+  async getStats(): Promise<ClusterStats> {
+    const [byStatus, byVenueCount, members] = await Promise.all([
+      this.prisma.eventCluster.groupBy({ by: ['status'], _count: { _all: true } }),
+      this.prisma.eventCluster.groupBy({ by: ['venueCount'], _count: { _all: true } }),
+      this.prisma.eventClusterMember.count(),
+    ]);
+
+    const stats: ClusterStats = { total: 0, byStatus: {}, byVenueCount: {}, members };
+    for (const g of byStatus) {
+      stats.total += g._count._all;
+      stats.byStatus[g.status] = g._count._all;
+    }
+    for (const g of byVenueCount) {
+      stats.byVenueCount[g.venueCount] = g._count._all;
+    }
+    return stats;
+  }
+}
@@ -1,6 +1,16 @@
-export { MarketRepository, type MarketWithOutcomes, type UpsertMarketsResult, type EligibleMarket } from './market.repository.js';
-export { QuoteRepository, type InsertQuotesResult, type QuoteInput } from './quote.repository.js';
+export { MarketRepository, type MarketWithOutcomes, type UpsertMarketsResult, type EligibleMarket, type SearchMarketsOptions, type SearchMarketsResult, type MarketWithLatestQuotes, type MarketEventRef } from './market.repository.js';
+export { QuoteRepository, type InsertQuotesResult, type QuoteInput, type QuoteBarsOptions, type OutcomeBarSeries, type LinkBarSeries, type LatestQuoteWithMarket } from './quote.repository.js';
 export { IngestionRepository, type StartRunResult } from './ingestion.repository.js';
-export { MarketLinkRepository, type MarketLinkWithMarkets, type ListSuggestionsOptions, type UpsertSuggestionResult, type UpsertSuggestionV3Options } from './market-link.repository.js';
-export { WatchlistRepository, type WatchlistItem, type WatchlistStats, type WatchlistWithMarket } from './watchlist.repository.js';
+export { MarketLinkRepository, type MarketLinkWithMarkets, type ListSuggestionsOptions, type UpsertSuggestionResult, type UpsertSuggestionV3Options, type SearchLinksOptions, type SearchLinksResult, type MarketLinkWithTitles, type LabeledLinkPair, type LabeledLinkMarket, type LinkActor, type LinkActorType, type LinkTransition } from './market-link.repository.js';
+export { WatchlistRepository, type WatchlistItem, type WatchlistStats, type WatchlistWithMarket, type StaleWatchlistMarket } from './watchlist.repository.js';
 export { KalshiEventRepository, type KalshiEventDTO, type UpsertEventsResult, type EventSyncStats } from './kalshi-event.repository.js';
+export { ArbOpportunityRepository, type ArbObservation, type RecordScanResult, type LinkWithQuotes, type MarketWithQuotes, type ArbOpportunityWithLink, type ArbDurationStats } from './arb-opportunity.repository.js';
+export { ResolutionRepository, type UpsertResolutionsResult, type ResolutionCandidate, type ResolutionStats, type LinkWithResolutions, type LinkVerdictUpdate, type VerdictBreakdownRow, type LinkAuditFilter } from './resolution.repository.js';
+export { EventClusterRepository, type ClusterLinkEdge, type EventClusterInput, type ReplaceClustersResult, type SearchClustersOptions, type SearchClustersResult, type ClusterMemberMarket, type EventClusterWithMembers, type ClusterStats } from './event-cluster.repository.js';
+export { SyntheticLinkRepository, type SyntheticLinkLeg, type SyntheticLinkInput, type UpsertSyntheticLinksResult, type ListSyntheticLinksOptions, type SyntheticLinkWithTarget } from './synthetic-link.repository.js';
+export { ConsensusRepository, type ConsensusSourceRecord, type ConsensusQuoteInput, type ConsensusSeriesOptions, type ClusterWithQuotes } from './consensus.repository.js';
+export { AlertRepository, type AlertRuleInput, type AlertDelivery, type AlertEventInput } from './alert.repository.js';
+export { MatchingRunRepository, type MatchingRunInput, type ListMatchingRunsOptions, type ListMatchingRunsResult, type MatchingWatermarkState } from './matching-run.repository.js';
+export { MarketSignalRepository, type MarketSignalInput, type StoredMarketSignal, type FindByIndexKeysOptions, type MarketSignalWithMarket, type MarketSignalStats } from './market-signal.repository.js';
+export { MarketLinkEventRepository, type MarketLinkEventFilter, type ListMarketLinkEventsOptions, type ListMarketLinkEventsResult } from './market-link-event.repository.js';
+export { ReviewRepository, type ReviewerRole, type ReviewQueue, type ReviewVerdict, type ReviewerInput, type ReviewerUpdate, type ReviewQueueOptions, type ReviewDecisionInput, type ReviewDecisionWithReviewer, type ReviewLink, type DoubleReviewedLink, type ReviewerDecisionCounts } from './review.repository.js';
@@ -1,5 +1,5 @@
-import type { PrismaClient, IngestionState, IngestionRun, Venue } from '@prisma/client';
-import type { IngestionStats } from '@data-module/core';
+import type { PrismaClient, IngestionState, IngestionRun } from '@prisma/client';
+import type { IngestionStats, Venue } from '@data-module/core';
 
 export interface StartRunResult {
   runId: number;
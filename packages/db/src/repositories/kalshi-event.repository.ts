@@ -205,7 +205,8 @@ export class KalshiEventRepository {
       for (const [eventTicker, marketIds] of marketsByEventTicker) {
         await this.prisma.market.updateMany({
           where: { id: { in: marketIds } },
-          data: { kalshiEventTicker: eventTicker },
+          // v3.2.0: Event enrichment is a matching input
+          data: { kalshiEventTicker: eventTicker, contentChangedAt: new Date() },
         });
         linked += marketIds.length;
       }
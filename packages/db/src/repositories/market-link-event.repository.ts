@@ -0,0 +1,96 @@
+/**
+ * MarketLinkEventRepository - Link lifecycle audit log (v3.2.0)
+ *
+ * Read side of market_link_events. Rows are appended by
+ * MarketLinkRepository on every status change; nothing updates or deletes
+ * them. Rollbacks select a range of events here and revert it through
+ * MarketLinkRepository.transition, which logs the revert as new events.
+ */
+
+import type { PrismaClient, Prisma, MarketLinkEvent } from '@prisma/client';
+
+export interface MarketLinkEventFilter {
+  linkId?: number;
+  actorType?: string;
+  actorId?: string;
+  source?: string;
+  /** Inclusive event id range */
+  fromId?: number;
+  toId?: number;
+  /** Inclusive time range */
+  since?: Date;
+  until?: Date;
+}
+
+export interface ListMarketLinkEventsOptions extends MarketLinkEventFilter {
+  limit?: number;
+  offset?: number;
+}
+
+export interface ListMarketLinkEventsResult {
+  items: MarketLinkEvent[];
+  total: number;
+}
+
+function toWhere(filter: MarketLinkEventFilter): Prisma.MarketLinkEventWhereInput {
+  return {
+    ...(filter.linkId !== undefined && { linkId: filter.linkId }),
+    ...(filter.actorType && { actorType: filter.actorType }),
+    ...(filter.actorId && { actorId: filter.actorId }),
+    ...(filter.source && { source: filter.source }),
+    ...((filter.fromId !== undefined || filter.toId !== undefined) && {
+      id: {
+        ...(filter.fromId !== undefined && { gte: filter.fromId }),
+        ...(filter.toId !== undefined && { lte: filter.toId }),
+      },
+    }),
+    ...((filter.since || filter.until) && {
+      createdAt: {
+        ...(filter.since && { gte: filter.since }),
+        ...(filter.until && { lte: filter.until }),
+      },
+    }),
+  };
+}
+
+/**
+ * Repository for link audit events
+ */
+export class MarketLinkEventRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Events, newest first
+   */
+  async list(options: ListMarketLinkEventsOptions = {}): Promise<ListMarketLinkEventsResult> {
+    const { limit = 50, offset = 0 } = options;
+    const where = toWhere(options);
+    const [items, total] = await Promise.all([
+      this.prisma.marketLinkEvent.findMany({ where, orderBy: { id: 'desc' }, take: limit, skip: offset }),
+      this.prisma.marketLinkEvent.count({ where }),
+    ]);
+    return { items, total };
+  }
+
+  /**
+   * Every event matching the filter, oldest first (capped for safety)
+   */
+  async findRange(filter: MarketLinkEventFilter, maxEvents = 50000): Promise<MarketLinkEvent[]> {
+    return this.prisma.marketLinkEvent.findMany({
+      where: toWhere(filter),
+      orderBy: { id: 'asc' },
+      take: maxEvents,
+    });
+  }
+
+  /**
+   * Events of these links with id >= afterId, oldest first
+   */
+  async findForLinks(linkIds: number[], afterId: number): Promise<MarketLinkEvent[]> {
+    if (linkIds.length === 0) return [];
+    return this.prisma.marketLinkEvent.findMany({
+      where: { linkId: { in: linkIds }, id: { gte: afterId } },
+      orderBy: { id: 'asc' },
+    });
+  }
+}
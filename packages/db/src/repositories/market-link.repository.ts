@@ -1,4 +1,5 @@
-import type { PrismaClient, MarketLink, Venue, LinkStatus, Market, Outcome } from '@prisma/client';
+import { Prisma, type PrismaClient, type MarketLink, type LinkStatus, type Market, type Outcome } from '@prisma/client';
+import type { Venue } from '@data-module/core';
 
 export interface MarketLinkWithMarkets extends MarketLink {
   leftMarket: Market & { outcomes: Outcome[] };
@@ -17,6 +18,57 @@ export interface UpsertSuggestionResult {
   created: boolean;
 }
 
+/**
+ * v3.2.0: Filters for the read API link listing
+ */
+export interface SearchLinksOptions {
+  status?: LinkStatus;
+  topic?: string;
+  algoVersion?: string;
+  minScore?: number;
+  maxScore?: number;
+  /** Only links first suggested at or after this time */
+  createdSince?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export interface SearchLinksResult {
+  items: MarketLinkWithTitles[];
+  total: number;
+}
+
+export interface MarketLinkWithTitles extends MarketLink {
+  leftMarket: { id: number; title: string; status: Market['status']; closeTime: Date | null };
+  rightMarket: { id: number; title: string; status: Market['status']; closeTime: Date | null };
+}
+
+/**
+ * v3.2.0: Who changed a link - stored on every market_link_events row
+ */
+export type LinkActorType = 'user' | 'rule' | 'llm' | 'engine' | 'system';
+
+export interface LinkActor {
+  type: LinkActorType;
+  /** Reviewer, rule id, LLM provider:model or algoVersion */
+  id: string;
+  /** Command or service making the change (e.g. links:auto-confirm, review-server) */
+  source?: string;
+}
+
+/**
+ * v3.2.0: A status change applied through transition()
+ */
+export interface LinkTransition {
+  status: LinkStatus;
+  /** undefined keeps the current reason */
+  reason?: string | null;
+  /** undefined keeps the current score */
+  score?: number;
+  /** Set by rollbacks: first event of the reverted range */
+  rollbackOfId?: number;
+}
+
 /**
  * V3 options for upserting suggestions with full control
  */
@@ -29,7 +81,15 @@ export interface UpsertSuggestionV3Options {
   reason: string | null;
   algoVersion?: string | null;
   topic?: string | null;
+  /** v3.2.0: Structured scorer output; null clears fields of an earlier score */
+  scoreFields?: Prisma.InputJsonObject | null;
   status?: LinkStatus;
+  /** v3.2.0: Recorded when the status changes; defaults to the engine (algoVersion) */
+  actor?: LinkActor;
+}
+
+function engineActor(algoVersion: string | null | undefined): LinkActor {
+  return { type: 'engine', id: algoVersion || 'unknown' };
 }
 
 /**
@@ -38,12 +98,70 @@ export interface UpsertSuggestionV3Options {
 export class MarketLinkRepository {
   constructor(private readonly prisma: PrismaClient) {}
 
+  /**
+   * v3.2.0: Append the audit row for a status change (or creation when before is null)
+   */
+  private async recordEvent(
+    tx: Prisma.TransactionClient,
+    before: MarketLink | null,
+    after: MarketLink,
+    actor: LinkActor,
+    rollbackOfId?: number
+  ): Promise<void> {
+    await tx.marketLinkEvent.create({
+      data: {
+        linkId: after.id,
+        fromStatus: before?.status ?? null,
+        toStatus: after.status,
+        fromReason: before?.reason ?? null,
+        toReason: after.reason,
+        fromScore: before?.score ?? null,
+        toScore: after.score,
+        algoVersion: after.algoVersion,
+        actorType: actor.type,
+        actorId: actor.id,
+        source: actor.source ?? null,
+        rollbackOfId: rollbackOfId ?? null,
+      },
+    });
+  }
+
+  /**
+   * v3.2.0: Update an already loaded link, logging the transition if the status changes
+   */
+  private async updateWithEvent(
+    before: MarketLink,
+    data: Prisma.MarketLinkUpdateInput,
+    actor: LinkActor
+  ): Promise<MarketLink> {
+    if (data.status === undefined || data.status === before.status) {
+      return this.prisma.marketLink.update({ where: { id: before.id }, data });
+    }
+    return this.prisma.$transaction(async (tx) => {
+      const after = await tx.marketLink.update({ where: { id: before.id }, data });
+      await this.recordEvent(tx, before, after, actor);
+      return after;
+    });
+  }
+
+  /**
+   * v3.2.0: Create a link and log its creation
+   */
+  private async createWithEvent(data: Prisma.MarketLinkUncheckedCreateInput, actor: LinkActor): Promise<MarketLink> {
+    return this.prisma.$transaction(async (tx) => {
+      const link = await tx.marketLink.create({ data });
+      await this.recordEvent(tx, null, link, actor);
+      return link;
+    });
+  }
+
   /**
    * Upsert a suggestion
    * If pair exists and status != confirmed, update score/reason
    * If pair exists and status == confirmed, skip
    * v2.6.2: Added algoVersion parameter
    * v2.6.3: Added topic parameter (derived from algoVersion if not provided)
+   * v3.2.0: Status changes are logged to market_link_events
    */
   async upsertSuggestion(
     leftVenue: Venue,
@@ -53,7 +171,8 @@ export class MarketLinkRepository {
     score: number,
     reason: string | null,
     algoVersion?: string | null,
-    topic?: string | null
+    topic?: string | null,
+    actor: LinkActor = engineActor(algoVersion)
   ): Promise<UpsertSuggestionResult> {
     // v2.6.3: Derive topic from algoVersion if not provided
     const effectiveTopic = topic ?? (algoVersion?.split('@')[0] || null);
@@ -77,34 +196,30 @@ export class MarketLinkRepository {
       }
 
       // Update score/reason for suggested/rejected
-      const updated = await this.prisma.marketLink.update({
-        where: { id: existing.id },
-        data: {
-          score,
-          reason,
-          algoVersion,
-          topic: effectiveTopic,
-          status: 'suggested', // Reset to suggested if was rejected
-        },
-      });
+      const updated = await this.updateWithEvent(existing, {
+        score,
+        reason,
+        algoVersion,
+        topic: effectiveTopic,
+        scoreFields: Prisma.DbNull, // v3.2.0: reason-only scorer, drop fields of an earlier V3 score
+        status: 'suggested', // Reset to suggested if was rejected
+      }, actor);
 
       return { link: updated, created: false };
     }
 
     // Create new
-    const link = await this.prisma.marketLink.create({
-      data: {
-        leftVenue,
-        leftMarketId,
-        rightVenue,
-        rightMarketId,
-        score,
-        reason,
-        algoVersion,
-        topic: effectiveTopic,
-        status: 'suggested',
-      },
-    });
+    const link = await this.createWithEvent({
+      leftVenue,
+      leftMarketId,
+      rightVenue,
+      rightMarketId,
+      score,
+      reason,
+      algoVersion,
+      topic: effectiveTopic,
+      status: 'suggested',
+    }, actor);
 
     return { link, created: true };
   }
@@ -124,7 +239,9 @@ export class MarketLinkRepository {
       reason,
       algoVersion,
       topic,
+      scoreFields,
       status = 'suggested',
+      actor = engineActor(algoVersion),
     } = options;
 
     // Derive topic from algoVersion if not provided
@@ -149,34 +266,31 @@ export class MarketLinkRepository {
       }
 
       // Update
-      const updated = await this.prisma.marketLink.update({
-        where: { id: existing.id },
-        data: {
-          score,
-          reason,
-          algoVersion,
-          topic: effectiveTopic,
-          status,
-        },
-      });
-
-      return { link: updated, created: false };
-    }
-
-    // Create new
-    const link = await this.prisma.marketLink.create({
-      data: {
-        leftVenue,
-        leftMarketId,
-        rightVenue,
-        rightMarketId,
+      const updated = await this.updateWithEvent(existing, {
         score,
         reason,
         algoVersion,
         topic: effectiveTopic,
+        scoreFields: scoreFields ?? Prisma.DbNull,
         status,
-      },
-    });
+      }, actor);
+
+      return { link: updated, created: false };
+    }
+
+    // Create new
+    const link = await this.createWithEvent({
+      leftVenue,
+      leftMarketId,
+      rightVenue,
+      rightMarketId,
+      score,
+      reason,
+      algoVersion,
+      topic: effectiveTopic,
+      scoreFields: scoreFields ?? undefined,
+      status,
+    }, actor);
 
     return { link, created: true };
   }
@@ -305,21 +419,40 @@ export class MarketLinkRepository {
 
   /**
    * Confirm a link
+   * v3.2.0: Logged to market_link_events with the actor
    */
-  async confirm(id: number): Promise<MarketLink> {
-    return this.prisma.marketLink.update({
-      where: { id },
-      data: { status: 'confirmed' },
-    });
+  async confirm(id: number, actor: LinkActor, reason?: string | null): Promise<MarketLink> {
+    return this.transition(id, { status: 'confirmed', reason }, actor);
   }
 
   /**
    * Reject a link
+   * v3.2.0: Logged to market_link_events with the actor
    */
-  async reject(id: number): Promise<MarketLink> {
-    return this.prisma.marketLink.update({
-      where: { id },
-      data: { status: 'rejected' },
+  async reject(id: number, actor: LinkActor, reason?: string | null): Promise<MarketLink> {
+    return this.transition(id, { status: 'rejected', reason }, actor);
+  }
+
+  /**
+   * v3.2.0: Set a link's status (and optionally reason/score); a status
+   * change appends a market_link_events row in the same transaction.
+   * Throws if the link does not exist.
+   */
+  async transition(id: number, change: LinkTransition, actor: LinkActor): Promise<MarketLink> {
+    return this.prisma.$transaction(async (tx) => {
+      const before = await tx.marketLink.findUniqueOrThrow({ where: { id } });
+      const after = await tx.marketLink.update({
+        where: { id },
+        data: {
+          status: change.status,
+          ...(change.reason !== undefined && { reason: change.reason }),
+          ...(change.score !== undefined && { score: change.score }),
+        },
+      });
+      if (after.status !== before.status) {
+        await this.recordEvent(tx, before, after, actor, change.rollbackOfId);
+      }
+      return after;
     });
   }
 
@@ -557,6 +690,7 @@ export class MarketLinkRepository {
    * Confirm a link by pair (venue + marketId) - v2.6.0
    * Creates the link if it doesn't exist, or updates status to confirmed
    * Returns info about what happened
+   * v3.2.0: Logged to market_link_events with the actor
    */
   async confirmByPair(
     leftVenue: Venue,
@@ -564,7 +698,8 @@ export class MarketLinkRepository {
     rightVenue: Venue,
     rightMarketId: number,
     score: number,
-    reason: string | null
+    reason: string | null,
+    actor: LinkActor
   ): Promise<{ link: MarketLink; created: boolean; wasAlreadyConfirmed: boolean }> {
     const existing = await this.prisma.marketLink.findUnique({
       where: {
@@ -584,31 +719,156 @@ export class MarketLinkRepository {
       }
 
       // Update to confirmed
-      const updated = await this.prisma.marketLink.update({
-        where: { id: existing.id },
-        data: {
-          status: 'confirmed',
-          score,
-          reason,
-        },
-      });
+      const updated = await this.updateWithEvent(existing, {
+        status: 'confirmed',
+        score,
+        reason,
+      }, actor);
 
       return { link: updated, created: false, wasAlreadyConfirmed: false };
     }
 
     // Create new confirmed link
-    const link = await this.prisma.marketLink.create({
-      data: {
+    const link = await this.createWithEvent({
+      leftVenue,
+      leftMarketId,
+      rightVenue,
+      rightMarketId,
+      score,
+      reason,
+      status: 'confirmed',
+    }, actor);
+
+    return { link, created: true, wasAlreadyConfirmed: false };
+  }
+
+  /**
+   * v3.2.0: Paginated link search for the read API
+   */
+  async searchLinks(options: SearchLinksOptions = {}): Promise<SearchLinksResult> {
+    const { status, topic, algoVersion, minScore, maxScore, createdSince, limit = 50, offset = 0 } = options;
+
+    const where: Prisma.MarketLinkWhereInput = {
+      ...(status && { status }),
+      ...(topic && { topic }),
+      ...(algoVersion && { algoVersion }),
+      ...(createdSince && { createdAt: { gte: createdSince } }),
+      ...((minScore !== undefined || maxScore !== undefined) && {
+        score: {
+          ...(minScore !== undefined && { gte: minScore }),
+          ...(maxScore !== undefined && { lte: maxScore }),
+        },
+      }),
+    };
+    const marketSelect = { id: true, title: true, status: true, closeTime: true } as const;
+
+    const [items, total] = await Promise.all([
+      this.prisma.marketLink.findMany({
+        where,
+        include: {
+          leftMarket: { select: marketSelect },
+          rightMarket: { select: marketSelect },
+        },
+        orderBy: [{ score: 'desc' }, { id: 'asc' }],
+        take: limit,
+        skip: offset,
+      }),
+      this.prisma.marketLink.count({ where }),
+    ]);
+
+    return { items, total };
+  }
+
+  /**
+   * v3.2.0: Scores of one algo version's links touching any of the given
+   * markets (seeds incremental matching's dedup with pairs it did not rescore)
+   */
+  async getPairScores(options: {
+    leftVenue: Venue;
+    rightVenue: Venue;
+    algoVersion: string;
+    leftMarketIds: number[];
+    rightMarketIds: number[];
+    minScore?: number;
+  }): Promise<Array<{ leftMarketId: number; rightMarketId: number; score: number; reason: string | null }>> {
+    const { leftVenue, rightVenue, algoVersion, leftMarketIds, rightMarketIds, minScore = 0 } = options;
+    if (leftMarketIds.length === 0 && rightMarketIds.length === 0) return [];
+    return this.prisma.marketLink.findMany({
+      where: {
         leftVenue,
-        leftMarketId,
         rightVenue,
-        rightMarketId,
-        score,
-        reason,
-        status: 'confirmed',
+        algoVersion,
+        score: { gte: minScore },
+        OR: [{ leftMarketId: { in: leftMarketIds } }, { rightMarketId: { in: rightMarketIds } }],
       },
+      select: { leftMarketId: true, rightMarketId: true, score: true, reason: true },
     });
+  }
 
-    return { link, created: true, wasAlreadyConfirmed: false };
+  /**
+   * v3.2.0: Market ids on both sides of the given links
+   */
+  async getLinkMarketIds(
+    linkIds: number[]
+  ): Promise<Array<{ id: number; leftMarketId: number; rightMarketId: number }>> {
+    if (linkIds.length === 0) return [];
+    return this.prisma.marketLink.findMany({
+      where: { id: { in: linkIds } },
+      select: { id: true, leftMarketId: true, rightMarketId: true },
+    });
+  }
+
+  /**
+   * v3.2.0: Reviewed links (confirmed / rejected) with the market fields
+   * matching pipelines read, for offline matcher evaluation
+   */
+  async getLabeledPairs(options: { topic?: string; limit?: number } = {}): Promise<LabeledLinkPair[]> {
+    const { topic, limit = 5000 } = options;
+    const marketSelect = {
+      id: true,
+      title: true,
+      category: true,
+      status: true,
+      closeTime: true,
+      venue: true,
+      metadata: true,
+      kalshiEventTicker: true,
+      isMve: true,
+      derivedTopic: true,
+    } as const;
+
+    return this.prisma.marketLink.findMany({
+      where: {
+        status: { in: ['confirmed', 'rejected'] },
+        ...(topic && { topic }),
+      },
+      select: {
+        id: true,
+        status: true,
+        topic: true,
+        algoVersion: true,
+        leftMarket: { select: marketSelect },
+        rightMarket: { select: marketSelect },
+      },
+      orderBy: { id: 'asc' },
+      take: limit,
+    });
   }
 }
+
+/**
+ * v3.2.0: Reviewed link as an evaluation label
+ */
+export interface LabeledLinkPair {
+  id: number;
+  status: LinkStatus;
+  topic: string | null;
+  algoVersion: string | null;
+  leftMarket: LabeledLinkMarket;
+  rightMarket: LabeledLinkMarket;
+}
+
+export type LabeledLinkMarket = Pick<
+  Market,
+  'id' | 'title' | 'category' | 'status' | 'closeTime' | 'venue' | 'metadata' | 'kalshiEventTicker' | 'isMve' | 'derivedTopic'
+>;
@@ -0,0 +1,160 @@
+/**
+ * MarketSignalRepository - Persisted matching signals (v3.2.0)
+ *
+ * One row per market, topic and extractor version holding the signals a
+ * pipeline extracted and the keys buildIndex files the market under. A row
+ * is fresh while computed_at is not older than the market's
+ * content_changed_at, which only moves when a field matching reads changes
+ * (updated_at moves on every sync).
+ */
+
+import type { PrismaClient, Prisma, MarketSignal } from '@prisma/client';
+
+export interface MarketSignalInput {
+  marketId: number;
+  /** null = extracted, but not a market for this topic */
+  signals: Prisma.InputJsonValue | null;
+  indexKeys: string[];
+}
+
+export interface StoredMarketSignal {
+  marketId: number;
+  signals: Prisma.JsonValue | null;
+  indexKeys: string[];
+}
+
+export interface FindByIndexKeysOptions {
+  extractorVersion?: string;
+  venue?: string;
+  limit?: number;
+}
+
+export type MarketSignalWithMarket = MarketSignal & {
+  market: { id: number; venue: string; title: string; status: string; closeTime: Date | null };
+};
+
+export interface MarketSignalStats {
+  topic: string;
+  extractorVersion: string;
+  markets: number;
+  /** Rows with signals (the rest were not markets for the topic) */
+  relevant: number;
+  lastComputedAt: Date | null;
+}
+
+/**
+ * Repository for the persisted signal store
+ */
+export class MarketSignalRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Fresh rows for these markets, keyed by market id; stale and missing markets are absent
+   */
+  async loadFresh(
+    topic: string,
+    extractorVersion: string,
+    marketIds: number[],
+    chunkSize = 10000
+  ): Promise<Map<number, StoredMarketSignal>> {
+    const result = new Map<number, StoredMarketSignal>();
+    for (let i = 0; i < marketIds.length; i += chunkSize) {
+      const chunk = marketIds.slice(i, i + chunkSize);
+      const rows = await this.prisma.$queryRaw<StoredMarketSignal[]>`
+        SELECT s.market_id AS "marketId", s.signals, s.index_keys AS "indexKeys"
+        FROM market_signals s
+        JOIN markets m ON m.id = s.market_id
+        WHERE s.topic = ${topic}
+          AND s.extractor_version = ${extractorVersion}
+          AND s.market_id = ANY(${chunk}::int[])
+          AND s.computed_at >= COALESCE(m.content_changed_at, m.updated_at)
+      `;
+      for (const row of rows) {
+        result.set(row.marketId, row);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Replace the rows of these markets; computedAt should be taken before the markets were read
+   */
+  async upsertMany(
+    topic: string,
+    extractorVersion: string,
+    rows: MarketSignalInput[],
+    computedAt: Date,
+    chunkSize = 1000
+  ): Promise<number> {
+    for (let i = 0; i < rows.length; i += chunkSize) {
+      const chunk = rows.slice(i, i + chunkSize);
+      await this.prisma.$transaction([
+        this.prisma.marketSignal.deleteMany({
+          where: { topic, extractorVersion, marketId: { in: chunk.map((r) => r.marketId) } },
+        }),
+        this.prisma.marketSignal.createMany({
+          data: chunk.map((r) => ({
+            marketId: r.marketId,
+            topic,
+            extractorVersion,
+            // Omitted = SQL NULL
+            ...(r.signals !== null && { signals: r.signals }),
+            indexKeys: r.indexKeys,
+            computedAt,
+          })),
+        }),
+      ]);
+    }
+    return rows.length;
+  }
+
+  /**
+   * Drop rows extracted by other versions of a topic's pipeline
+   */
+  async deleteOtherVersions(topic: string, extractorVersion: string): Promise<number> {
+    const { count } = await this.prisma.marketSignal.deleteMany({
+      where: { topic, extractorVersion: { not: extractorVersion } },
+    });
+    return count;
+  }
+
+  /**
+   * Markets filed under any of the keys, e.g. RATES + "FED|2025-03"
+   */
+  async findByIndexKeys(
+    topic: string,
+    keys: string[],
+    options: FindByIndexKeysOptions = {}
+  ): Promise<MarketSignalWithMarket[]> {
+    const { extractorVersion, venue, limit = 100 } = options;
+    return this.prisma.marketSignal.findMany({
+      where: {
+        topic,
+        indexKeys: { hasSome: keys },
+        ...(extractorVersion && { extractorVersion }),
+        ...(venue && { market: { venue } }),
+      },
+      include: {
+        market: { select: { id: true, venue: true, title: true, status: true, closeTime: true } },
+      },
+      orderBy: { marketId: 'asc' },
+      take: limit,
+    });
+  }
+
+  async getStats(): Promise<MarketSignalStats[]> {
+    const rows = await this.prisma.$queryRaw<
+      Array<{ topic: string; extractorVersion: string; markets: bigint; relevant: bigint; lastComputedAt: Date | null }>
+    >`
+      SELECT topic,
+             extractor_version AS "extractorVersion",
+             COUNT(*) AS markets,
+             COUNT(*) FILTER (WHERE signals IS NOT NULL) AS relevant,
+             MAX(computed_at) AS "lastComputedAt"
+      FROM market_signals
+      GROUP BY topic, extractor_version
+      ORDER BY topic, extractor_version
+    `;
+    return rows.map((r) => ({ ...r, markets: Number(r.markets), relevant: Number(r.relevant) }));
+  }
+}
@@ -1,6 +1,7 @@
-import type { PrismaClient, Market, Outcome, Venue, MarketStatus } from '@prisma/client';
-import type { MarketDTO } from '@data-module/core';
+import type { PrismaClient, Prisma, Market, Outcome, LatestQuote, MarketStatus } from '@prisma/client';
+import type { MarketDTO, Venue } from '@data-module/core';
 import { processInChunks } from '../utils/chunked-processor.js';
+import { marketContentHash } from '../utils/market-content.js';
 
 /**
  * v3.0.15: Extract MVE truth fields from Kalshi market metadata
@@ -69,9 +70,40 @@ export interface MarketWithOutcomes extends Market {
   outcomes: Outcome[];
 }
 
+/**
+ * v3.2.0: Filters for the read API market listing
+ */
+export interface SearchMarketsOptions {
+  venue?: Venue;
+  derivedTopic?: string;
+  status?: MarketStatus;
+  closeTimeFrom?: Date;
+  closeTimeTo?: Date;
+  /** Case-insensitive substring match on title */
+  q?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface SearchMarketsResult {
+  items: Market[];
+  total: number;
+}
+
+export interface MarketWithLatestQuotes extends Market {
+  outcomes: Array<Outcome & { latestQuote: LatestQuote | null }>;
+}
+
+/**
+ * v3.2.0: Venue event a market belongs to (Gamma event ID or Kalshi event ticker)
+ */
+export type MarketEventRef = { pmEventId: string } | { kalshiEventTicker: string };
+
 export interface UpsertMarketsResult {
   created: number;
   updated: number;
+  /** v3.2.0: Markets created or whose content hash changed (see utils/market-content) */
+  changedIds: number[];
   /** v2.6.4: Micro-batch processing stats */
   stats?: {
     batches: number;
@@ -108,6 +140,8 @@ export class MarketRepository {
   ): Promise<UpsertMarketsResult> {
     let created = 0;
     let updated = 0;
+    // v3.2.0: A Set because retried batches revisit their markets
+    const changedIds = new Set<number>();
 
     const processBatch = async (batch: MarketDTO[]): Promise<void> => {
       // v2.6.4: Add explicit timeout for transaction (30 seconds max)
@@ -121,17 +155,25 @@ export class MarketRepository {
               },
             },
             // v2.6.3: Only select id, don't load metadata to reduce memory
-            select: { id: true },
+            select: { id: true, contentHash: true },
           });
 
           // v3.0.15: Extract MVE truth fields from Kalshi metadata
           const mveFields = extractKalshiMveFields(venue, market.metadata as Record<string, unknown>);
+          const contentHash = marketContentHash(market);
 
           if (existing) {
+            // v3.2.0: content_changed_at only moves when matching inputs change;
+            // a first hash keeps the value backfilled from updated_at
+            const contentChanged = existing.contentHash !== null && existing.contentHash !== contentHash;
+            if (contentChanged) changedIds.add(existing.id);
+
             // Update market
             await tx.market.update({
               where: { id: existing.id },
               data: {
+                contentHash,
+                ...(contentChanged && { contentChangedAt: new Date() }),
                 title: market.title,
                 category: market.category,
                 status: market.status as MarketStatus,
@@ -180,10 +222,12 @@ export class MarketRepository {
             }
           } else {
             // Create new market with outcomes
-            await tx.market.create({
+            const { id } = await tx.market.create({
               data: {
                 venue,
                 externalId: market.externalId,
+                contentHash,
+                contentChangedAt: new Date(),
                 title: market.title,
                 category: market.category,
                 status: market.status as MarketStatus,
@@ -212,7 +256,9 @@ export class MarketRepository {
                   })),
                 },
               },
+              select: { id: true },
             });
+            changedIds.add(id);
             created++;
           }
         }
@@ -231,6 +277,7 @@ export class MarketRepository {
     return {
       created,
       updated,
+      changedIds: [...changedIds],
       stats: {
         batches: stats.batches,
         retries: stats.retries,
@@ -600,13 +647,12 @@ export class MarketRepository {
 
     // Raw query for regex support
     // Note: Prisma maps "Market" model to "markets" table (@@map), columns to snake_case
-    // Cast venue to "Venue" enum type for PostgreSQL compatibility
     // v3.0.12: Added kalshi_event_ticker for SPORTS enrichment
     // v3.0.14: Added is_mve for MVE detection
     const query = `
       SELECT m.id, m.title, m.category, m.status, m.close_time as "closeTime", m.venue, m.metadata, m.kalshi_event_ticker as "kalshiEventTicker", m.is_mve as "isMve"
       FROM markets m
-      WHERE m.venue = $1::"Venue"
+      WHERE m.venue = $1
         AND (m.status = 'active' OR (m.status = 'closed' AND m.close_time >= $2))
         AND (${keywordCondition})
       ORDER BY ${orderByClause}
@@ -733,6 +779,91 @@ export class MarketRepository {
 
     return eligible;
   }
+
+  /**
+   * v3.2.0: Paginated market search for the read API
+   */
+  async searchMarkets(options: SearchMarketsOptions = {}): Promise<SearchMarketsResult> {
+    const { venue, derivedTopic, status, closeTimeFrom, closeTimeTo, q, limit = 50, offset = 0 } = options;
+
+    const where: Prisma.MarketWhereInput = {
+      ...(venue && { venue }),
+      ...(derivedTopic && { derivedTopic }),
+      ...(status && { status }),
+      ...((closeTimeFrom || closeTimeTo) && {
+        closeTime: {
+          ...(closeTimeFrom && { gte: closeTimeFrom }),
+          ...(closeTimeTo && { lt: closeTimeTo }),
+        },
+      }),
+      ...(q && { title: { contains: q, mode: 'insensitive' as const } }),
+    };
+
+    const [items, total] = await Promise.all([
+      this.prisma.market.findMany({
+        where,
+        orderBy: { id: 'desc' },
+        take: limit,
+        skip: offset,
+      }),
+      this.prisma.market.count({ where }),
+    ]);
+
+    return { items, total };
+  }
+
+  /**
+   * v3.2.0: Get market by ID with outcomes and their latest quotes
+   */
+  async getByIdWithLatestQuotes(id: number): Promise<MarketWithLatestQuotes | null> {
+    return this.prisma.market.findUnique({
+      where: { id },
+      include: {
+        outcomes: {
+          include: { latestQuote: true },
+          orderBy: { id: 'asc' },
+        },
+      },
+    });
+  }
+
+  /**
+   * v3.2.0: All markets of one venue event with outcomes and latest quotes
+   */
+  async getEventMarketsWithLatestQuotes(
+    event: MarketEventRef,
+    statuses: MarketStatus[] = ['active']
+  ): Promise<MarketWithLatestQuotes[]> {
+    return this.prisma.market.findMany({
+      where: { ...event, status: { in: statuses } },
+      include: {
+        outcomes: {
+          include: { latestQuote: true },
+          orderBy: { id: 'asc' },
+        },
+      },
+      orderBy: { id: 'asc' },
+    });
+  }
+
+  /**
+   * v3.2.0: The subset of `ids` created, or whose content changed, after `since`
+   * (incremental matching; content_changed_at ignores syncs that change nothing matching reads)
+   */
+  async filterChangedSince(ids: number[], since: Date, chunkSize = 10000): Promise<Set<number>> {
+    const changed = new Set<number>();
+    for (let i = 0; i < ids.length; i += chunkSize) {
+      const rows = await this.prisma.market.findMany({
+        where: {
+          id: { in: ids.slice(i, i + chunkSize) },
+          OR: [{ contentChangedAt: { gt: since } }, { createdAt: { gt: since } }],
+        },
+        select: { id: true },
+      });
+      for (const row of rows) changed.add(row.id);
+    }
+    return changed;
+  }
 }
 
 /**
@@ -0,0 +1,189 @@
+/**
+ * MatchingRunRepository - Engine V3 run history (v3.2.0)
+ *
+ * runMatchingV3 appends one row per run with its EngineV3Stats as JSON, so
+ * stage counts can be compared across runs of the same topic and venue
+ * direction (e.g. to spot a taxonomy change that halved passed gates).
+ * Incremental runs keep their checkpoint in matching_watermarks.
+ */
+
+import type { PrismaClient, Prisma, MatchingRun } from '@prisma/client';
+
+export interface MatchingRunInput {
+  topic: string;
+  algoVersion: string;
+  fromVenue: string;
+  toVenue: string;
+  mode: string;
+  incremental?: boolean;
+  leftCount: number;
+  rightCount: number;
+  suggestionsCreated: number;
+  autoConfirmed: number;
+  autoRejected: number;
+  durationMs: number;
+  stats: Record<string, unknown>;
+  options?: Record<string, unknown>;
+  errors: string[];
+  startedAt: Date;
+}
+
+export interface ListMatchingRunsOptions {
+  topic?: string;
+  algoVersion?: string;
+  fromVenue?: string;
+  toVenue?: string;
+  mode?: string;
+  incremental?: boolean;
+  since?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ListMatchingRunsResult {
+  items: MatchingRun[];
+  total: number;
+}
+
+/**
+ * Checkpoint of the last clean suggest run: when it started, the algorithm
+ * version and threshold it scored with, and the markets it covered
+ */
+export interface MatchingWatermarkState {
+  watermarkTs: Date;
+  algoVersion: string | null;
+  minScore: number | null;
+  marketIds: number[];
+}
+
+/**
+ * Repository for matching run history
+ */
+export class MatchingRunRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async record(input: MatchingRunInput): Promise<MatchingRun> {
+    return this.prisma.matchingRun.create({
+      data: {
+        topic: input.topic,
+        algoVersion: input.algoVersion,
+        fromVenue: input.fromVenue,
+        toVenue: input.toVenue,
+        mode: input.mode,
+        incremental: input.incremental ?? false,
+        ok: input.errors.length === 0,
+        leftCount: input.leftCount,
+        rightCount: input.rightCount,
+        suggestionsCreated: input.suggestionsCreated,
+        autoConfirmed: input.autoConfirmed,
+        autoRejected: input.autoRejected,
+        durationMs: Math.round(input.durationMs),
+        stats: input.stats as Prisma.InputJsonValue,
+        ...(input.options && { options: input.options as Prisma.InputJsonValue }),
+        errors: input.errors,
+        startedAt: input.startedAt,
+      },
+    });
+  }
+
+  /**
+   * Runs, newest first
+   */
+  async list(options: ListMatchingRunsOptions = {}): Promise<ListMatchingRunsResult> {
+    const { limit = 50, offset = 0 } = options;
+    const where: Prisma.MatchingRunWhereInput = {
+      ...(options.topic && { topic: options.topic }),
+      ...(options.algoVersion && { algoVersion: options.algoVersion }),
+      ...(options.fromVenue && { fromVenue: options.fromVenue }),
+      ...(options.toVenue && { toVenue: options.toVenue }),
+      ...(options.mode && { mode: options.mode }),
+      ...(options.incremental !== undefined && { incremental: options.incremental }),
+      ...(options.since && { startedAt: { gte: options.since } }),
+    };
+
+    const [items, total] = await Promise.all([
+      this.prisma.matchingRun.findMany({
+        where,
+        orderBy: [{ startedAt: 'desc' }, { id: 'desc' }],
+        take: limit,
+        skip: offset,
+      }),
+      this.prisma.matchingRun.count({ where }),
+    ]);
+    return { items, total };
+  }
+
+  async getById(id: number): Promise<MatchingRun | null> {
+    return this.prisma.matchingRun.findUnique({ where: { id } });
+  }
+
+  /**
+   * The run before this one for the same topic, venue direction, mode and kind (full/incremental)
+   */
+  async getPrevious(run: MatchingRun): Promise<MatchingRun | null> {
+    return this.prisma.matchingRun.findFirst({
+      where: {
+        topic: run.topic,
+        fromVenue: run.fromVenue,
+        toVenue: run.toVenue,
+        mode: run.mode,
+        incremental: run.incremental,
+        OR: [{ startedAt: { lt: run.startedAt } }, { startedAt: run.startedAt, id: { lt: run.id } }],
+      },
+      orderBy: [{ startedAt: 'desc' }, { id: 'desc' }],
+    });
+  }
+
+  /**
+   * Newest run of each topic, venue direction and mode
+   */
+  async getLatestPerTopic(): Promise<MatchingRun[]> {
+    const rows = await this.prisma.$queryRaw<Array<{ id: number }>>`
+      SELECT DISTINCT ON (topic, from_venue, to_venue, mode) id
+      FROM matching_runs
+      ORDER BY topic, from_venue, to_venue, mode, started_at DESC, id DESC
+    `;
+    if (rows.length === 0) return [];
+    return this.prisma.matchingRun.findMany({
+      where: { id: { in: rows.map((r) => r.id) } },
+      orderBy: [{ topic: 'asc' }, { id: 'asc' }],
+    });
+  }
+
+  /**
+   * Run counts by topic, mode and result
+   */
+  async countByTopic(): Promise<Array<{ topic: string; mode: string; ok: boolean; count: number }>> {
+    const groups = await this.prisma.matchingRun.groupBy({
+      by: ['topic', 'mode', 'ok'],
+      _count: { _all: true },
+    });
+    return groups.map((g) => ({ topic: g.topic, mode: g.mode, ok: g.ok, count: g._count._all }));
+  }
+
+  /**
+   * Incremental matching watermark for a topic and direction
+   */
+  async getWatermark(topic: string, fromVenue: string, toVenue: string): Promise<MatchingWatermarkState | null> {
+    const row = await this.prisma.matchingWatermark.findUnique({
+      where: { topic_fromVenue_toVenue: { topic, fromVenue, toVenue } },
+    });
+    return row
+      ? { watermarkTs: row.watermarkTs, algoVersion: row.algoVersion, minScore: row.minScore, marketIds: row.marketIds }
+      : null;
+  }
+
+  async setWatermark(topic: string, fromVenue: string, toVenue: string, state: MatchingWatermarkState): Promise<void> {
+    const data = {
+      watermarkTs: state.watermarkTs,
+      algoVersion: state.algoVersion,
+      minScore: state.minScore,
+      marketIds: state.marketIds,
+    };
+    await this.prisma.matchingWatermark.upsert({
+      where: { topic_fromVenue_toVenue: { topic, fromVenue, toVenue } },
+      create: { topic, fromVenue, toVenue, ...data },
+      update: data,
+    });
+  }
+}
@@ -1,8 +1,28 @@
-import type { PrismaClient, Quote, LatestQuote, Venue } from '@prisma/client';
-import type { DedupConfig } from '@data-module/core';
-import { shouldRecordQuote, QuoteDeduplicator, DEFAULT_DEDUP_CONFIG } from '@data-module/core';
+import type { PrismaClient, Prisma, Quote, LatestQuote, OutcomeSide } from '@prisma/client';
+import type { DedupConfig, OhlcBar, AlignedBar, Venue } from '@data-module/core';
+import { shouldRecordQuote, QuoteDeduplicator, DEFAULT_DEDUP_CONFIG, parseInterval, resampleOhlc, alignBars, metrics } from '@data-module/core';
 import { processInChunks, chunkArray } from '../utils/chunked-processor.js';
 
+// v3.2.0: Prometheus instrumentation for quote writes
+const quotesDedupTotal = metrics.counter({
+  name: 'quotes_dedup_total',
+  help: 'Quotes passed to insertQuotesWithDedup, by outcome (inserted, skipped, skipped_in_cycle)',
+  labelNames: ['result'],
+});
+const quotesDedupSkipRatio = metrics.gauge({
+  name: 'quotes_dedup_skip_ratio',
+  help: 'Share of quotes skipped by dedup in the last insertQuotesWithDedup call',
+});
+const quotesInsertRetries = metrics.counter({
+  name: 'quotes_insert_batch_retries_total',
+  help: 'Quote insert micro-batch retries after DB errors',
+});
+const quotesInsertDuration = metrics.histogram({
+  name: 'quotes_insert_duration_seconds',
+  help: 'Duration of insertQuotesWithDedup (dedup lookup, inserts and latest upserts)',
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+});
+
 export interface InsertQuotesResult {
   inserted: number;
   skipped: number;
@@ -27,9 +47,61 @@ export interface QuoteInput {
   impliedProb: number;
   liquidity?: number;
   volume?: number;
+  /** v3.2.0: Top of book */
+  bestBid?: number;
+  bestAsk?: number;
+  bidSize?: number;
+  askSize?: number;
+  spread?: number;
   raw?: Record<string, unknown>;
 }
 
+/**
+ * v3.2.0: Latest quote joined with the outcome/market fields the live stream routes on
+ */
+export type LatestQuoteWithMarket = LatestQuote & {
+  outcome: {
+    id: number;
+    name: string;
+    side: OutcomeSide;
+    marketId: number;
+    market: { venue: Venue; derivedTopic: string | null };
+  };
+};
+
+/**
+ * v3.2.0: Options for resampled quote history
+ */
+export interface QuoteBarsOptions {
+  from: Date;
+  to: Date;
+  /** Interval string: 1m, 5m, 1h, 1d, ... */
+  interval: string;
+  /** Carry the previous close into empty buckets (default: true) */
+  forwardFill?: boolean;
+}
+
+export interface OutcomeBarSeries {
+  marketId: number;
+  outcomeId: number;
+  outcomeName: string;
+  bars: OhlcBar[];
+}
+
+/**
+ * v3.2.0: Both sides of a MarketLink resampled onto the same time grid
+ */
+export interface LinkBarSeries {
+  linkId: number;
+  interval: string;
+  from: Date;
+  to: Date;
+  left: OutcomeBarSeries;
+  right: OutcomeBarSeries;
+  /** Both sides joined on bucket start */
+  aligned: AlignedBar[];
+}
+
 /**
  * Repository for quote operations
  */
@@ -50,6 +122,7 @@ export class QuoteRepository {
     quotes: QuoteInput[],
     batchSize = parseInt(process.env.KALSHI_QUOTE_BATCH || '200', 10)
   ): Promise<InsertQuotesResult> {
+    const endTimer = quotesInsertDuration.startTimer();
     let inserted = 0;
     let skipped = 0;
     let skippedInCycle = 0;
@@ -77,6 +150,8 @@ export class QuoteRepository {
           impliedProb: true,
           liquidity: true,
           volume: true,
+          bestBid: true,
+          bestAsk: true,
         },
       });
       for (const lq of latestQuotes) {
@@ -89,8 +164,11 @@ export class QuoteRepository {
     const latestUpdates = new Map<number, QuoteInput>();
 
     for (const quote of quotes) {
+      // v3.2.0: Top of book participates in dedup, not only the mid
+      const book = { bestBid: quote.bestBid, bestAsk: quote.bestAsk };
+
       // Check in-cycle dedup first
-      if (cycleDedup.isDuplicate(quote.outcomeId, quote.price, quote.ts)) {
+      if (cycleDedup.isDuplicate(quote.outcomeId, quote.price, quote.ts, book)) {
         skippedInCycle++;
         continue;
       }
@@ -102,7 +180,9 @@ export class QuoteRepository {
         latest?.price ?? null,
         latest?.ts ?? null,
         quote.ts,
-        this.dedupConfig
+        this.dedupConfig,
+        book,
+        latest ? { bestBid: latest.bestBid, bestAsk: latest.bestAsk } : undefined
       );
 
       if (shouldRecord) {
@@ -129,6 +209,11 @@ export class QuoteRepository {
             impliedProb: q.impliedProb,
             liquidity: q.liquidity,
             volume: q.volume,
+            bestBid: q.bestBid,
+            bestAsk: q.bestAsk,
+            bidSize: q.bidSize,
+            askSize: q.askSize,
+            spread: q.spread,
             raw: q.raw as object | undefined,
           })),
           skipDuplicates: true,
@@ -163,6 +248,11 @@ export class QuoteRepository {
                 impliedProb: quote.impliedProb,
                 liquidity: quote.liquidity,
                 volume: quote.volume,
+                bestBid: quote.bestBid ?? null,
+                bestAsk: quote.bestAsk ?? null,
+                bidSize: quote.bidSize ?? null,
+                askSize: quote.askSize ?? null,
+                spread: quote.spread ?? null,
                 raw: quote.raw as object | undefined,
               },
               update: {
@@ -171,6 +261,11 @@ export class QuoteRepository {
                 impliedProb: quote.impliedProb,
                 liquidity: quote.liquidity,
                 volume: quote.volume,
+                bestBid: quote.bestBid ?? null,
+                bestAsk: quote.bestAsk ?? null,
+                bidSize: quote.bidSize ?? null,
+                askSize: quote.askSize ?? null,
+                spread: quote.spread ?? null,
                 raw: quote.raw as object | undefined,
               },
             })
@@ -186,6 +281,15 @@ export class QuoteRepository {
       }
     );
 
+    endTimer();
+    quotesDedupTotal.inc({ result: 'inserted' }, inserted);
+    quotesDedupTotal.inc({ result: 'skipped' }, skipped);
+    quotesDedupTotal.inc({ result: 'skipped_in_cycle' }, skippedInCycle);
+    quotesInsertRetries.inc(undefined, insertStats.retries);
+    if (quotes.length > 0) {
+      quotesDedupSkipRatio.set(undefined, (skipped + skippedInCycle) / quotes.length);
+    }
+
     return {
       inserted,
       skipped,
@@ -227,6 +331,130 @@ export class QuoteRepository {
     });
   }
 
+  /**
+   * v3.2.0: Resample quote history for an outcome into OHLC/VWAP bars
+   * Seeds the forward-fill with the last quote before `from`
+   */
+  async getQuoteBars(outcomeId: number, options: QuoteBarsOptions): Promise<OhlcBar[]> {
+    const { from, to, interval, forwardFill = true } = options;
+    const intervalMs = parseInterval(interval);
+
+    const [before, inRange] = await Promise.all([
+      this.prisma.quote.findFirst({
+        where: { outcomeId, ts: { lt: from } },
+        orderBy: { ts: 'desc' },
+        select: { ts: true, price: true, volume: true },
+      }),
+      this.prisma.quote.findMany({
+        where: { outcomeId, ts: { gte: from, lt: to } },
+        orderBy: { ts: 'asc' },
+        select: { ts: true, price: true, volume: true },
+      }),
+    ]);
+
+    const points = before ? [before, ...inRange] : inRange;
+    return resampleOhlc(points, { from, to, intervalMs, forwardFill });
+  }
+
+  /**
+   * v3.2.0: Aligned bar series for both sides of a MarketLink
+   * Uses the outcome with the requested side on each market (default: yes),
+   * falling back to the first outcome for non-binary markets.
+   */
+  async getLinkQuoteBars(
+    linkId: number,
+    options: QuoteBarsOptions & { side?: 'yes' | 'no' }
+  ): Promise<LinkBarSeries | null> {
+    const { side = 'yes' } = options;
+
+    const link = await this.prisma.marketLink.findUnique({
+      where: { id: linkId },
+      include: {
+        leftMarket: { include: { outcomes: { orderBy: { id: 'asc' } } } },
+        rightMarket: { include: { outcomes: { orderBy: { id: 'asc' } } } },
+      },
+    });
+    if (!link) return null;
+
+    const pick = (outcomes: Array<{ id: number; name: string; side: string }>) =>
+      outcomes.find((o) => o.side === side) ?? outcomes[0];
+    const leftOutcome = pick(link.leftMarket.outcomes);
+    const rightOutcome = pick(link.rightMarket.outcomes);
+    if (!leftOutcome || !rightOutcome) return null;
+
+    const [leftBars, rightBars] = await Promise.all([
+      this.getQuoteBars(leftOutcome.id, options),
+      this.getQuoteBars(rightOutcome.id, options),
+    ]);
+
+    return {
+      linkId,
+      interval: options.interval,
+      from: options.from,
+      to: options.to,
+      left: { marketId: link.leftMarketId, outcomeId: leftOutcome.id, outcomeName: leftOutcome.name, bars: leftBars },
+      right: { marketId: link.rightMarketId, outcomeId: rightOutcome.id, outcomeName: rightOutcome.name, bars: rightBars },
+      aligned: alignBars(leftBars, rightBars),
+    };
+  }
+
+  /**
+   * v3.2.0: Latest quotes written at or after a cursor, oldest first (live stream polling)
+   */
+  async getLatestQuotesUpdatedSince(since: Date, limit = 5000): Promise<LatestQuoteWithMarket[]> {
+    return this.findLatestQuotesWithMarket({ updatedAt: { gte: since } }, 'asc', limit);
+  }
+
+  /**
+   * v3.2.0: Latest quotes for all outcomes of the given markets, newest first (stream snapshot)
+   */
+  async getLatestQuotesForMarkets(marketIds: number[]): Promise<LatestQuoteWithMarket[]> {
+    if (marketIds.length === 0) return [];
+    return this.findLatestQuotesWithMarket({ outcome: { marketId: { in: marketIds } } }, 'desc');
+  }
+
+  /**
+   * v3.2.0: Recently updated latest quotes for markets with a derivedTopic, newest first
+   * (stream snapshot; `limit` keeps the most recent)
+   */
+  async getLatestQuotesForTopic(topic: string, since: Date, limit = 1000): Promise<LatestQuoteWithMarket[]> {
+    return this.findLatestQuotesWithMarket(
+      {
+        updatedAt: { gte: since },
+        outcome: { market: { derivedTopic: { equals: topic, mode: 'insensitive' } } },
+      },
+      'desc',
+      limit
+    );
+  }
+
+  /**
+   * Cursor pollers read oldest first so `limit` never skips past unseen rows;
+   * snapshots read newest first so `limit` drops the stalest
+   */
+  private async findLatestQuotesWithMarket(
+    where: Prisma.LatestQuoteWhereInput,
+    order: Prisma.SortOrder,
+    limit?: number
+  ): Promise<LatestQuoteWithMarket[]> {
+    return this.prisma.latestQuote.findMany({
+      where,
+      include: {
+        outcome: {
+          select: {
+            id: true,
+            name: true,
+            side: true,
+            marketId: true,
+            market: { select: { venue: true, derivedTopic: true } },
+          },
+        },
+      },
+      orderBy: { updatedAt: order },
+      take: limit,
+    });
+  }
+
   /**
    * Count quotes for a venue
    */
@@ -236,7 +464,7 @@ export class QuoteRepository {
       FROM quotes q
       JOIN outcomes o ON q.outcome_id = o.id
       JOIN markets m ON o.market_id = m.id
-      WHERE m.venue = ${venue}::"Venue"
+      WHERE m.venue = ${venue}
     `;
     return Number(result[0].count);
   }
@@ -257,7 +485,7 @@ export class QuoteRepository {
       FROM outcomes o
       JOIN markets m ON o.market_id = m.id
       LEFT JOIN latest_quotes lq ON o.id = lq.outcome_id
-      WHERE m.venue = ${venue}::"Venue"
+      WHERE m.venue = ${venue}
       AND m.status IN ('active', 'closed')
     `;
 
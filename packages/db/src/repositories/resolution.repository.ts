@@ -0,0 +1,320 @@
+/**
+ * ResolutionRepository - Settlement outcomes of closed markets (v3.2.0)
+ *
+ * One row per market. Written by ingestion whenever an adapter reports a
+ * resolution, and by resolutions:sync which refetches recently closed
+ * markets that have no final resolution yet.
+ *
+ * Also stores links:resolution-audit verdicts on confirmed MarketLinks.
+ */
+
+import type {
+  PrismaClient,
+  Prisma,
+  MarketResolution,
+  MarketStatus,
+  ResolutionStatus,
+  ResolutionVerdict,
+} from '@prisma/client';
+import type { MarketDTO, MarketResolutionDTO, Venue } from '@data-module/core';
+
+/** Markets looked up per query when matching externalIds */
+const LOOKUP_CHUNK = 500;
+
+export interface UpsertResolutionsResult {
+  created: number;
+  updated: number;
+  /** Final resolutions already stored with the same winner */
+  unchanged: number;
+  /** Markets not found in the DB */
+  missing: number;
+  /** Resolutions whose winning outcome name matched no stored outcome */
+  unmatchedOutcomes: number;
+}
+
+export interface ResolutionCandidate {
+  id: number;
+  externalId: string;
+  status: MarketStatus;
+  closeTime: Date | null;
+  resolutionStatus: ResolutionStatus | null;
+}
+
+export interface ResolutionStats {
+  total: number;
+  byStatus: Record<string, number>;
+  byVenue: Record<string, Record<string, number>>;
+}
+
+/**
+ * Confirmed link with both sides' resolutions (for links:resolution-audit)
+ */
+export interface LinkWithResolutions {
+  id: number;
+  algoVersion: string | null;
+  topic: string | null;
+  resolutionVerdict: ResolutionVerdict | null;
+  leftMarket: { id: number; venue: Venue; title: string; resolution: MarketResolution | null };
+  rightMarket: { id: number; venue: Venue; title: string; resolution: MarketResolution | null };
+}
+
+export interface LinkVerdictUpdate {
+  linkId: number;
+  verdict: ResolutionVerdict;
+  details: Record<string, unknown>;
+}
+
+export interface VerdictBreakdownRow {
+  algoVersion: string | null;
+  topic: string | null;
+  verdict: ResolutionVerdict | null;
+  count: number;
+}
+
+export interface LinkAuditFilter {
+  topic?: string;
+  algoVersion?: string;
+}
+
+/**
+ * Repository for market resolution operations
+ */
+export class ResolutionRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Store resolutions for markets (matched by venue + externalId)
+   * Final resolutions also move the market status to 'resolved'.
+   */
+  async upsertResolutions(
+    venue: Venue,
+    markets: Array<Pick<MarketDTO, 'externalId'> & { resolution?: MarketResolutionDTO }>
+  ): Promise<UpsertResolutionsResult> {
+    const result: UpsertResolutionsResult = { created: 0, updated: 0, unchanged: 0, missing: 0, unmatchedOutcomes: 0 };
+    const withResolution = markets.filter((m) => m.resolution);
+
+    for (let i = 0; i < withResolution.length; i += LOOKUP_CHUNK) {
+      const chunk = withResolution.slice(i, i + LOOKUP_CHUNK);
+      const stored = await this.prisma.market.findMany({
+        where: { venue, externalId: { in: chunk.map((m) => m.externalId) } },
+        select: {
+          id: true,
+          externalId: true,
+          outcomes: { select: { id: true, name: true } },
+          resolution: { select: { status: true, winningOutcome: true } },
+        },
+      });
+      const byExternalId = new Map(stored.map((m) => [m.externalId, m]));
+
+      for (const market of chunk) {
+        const row = byExternalId.get(market.externalId);
+        if (!row) {
+          result.missing++;
+          continue;
+        }
+        await this.writeResolution(row, market.resolution!, result);
+      }
+    }
+
+    return result;
+  }
+
+  private async writeResolution(
+    row: {
+      id: number;
+      outcomes: Array<{ id: number; name: string }>;
+      resolution: { status: ResolutionStatus; winningOutcome: string | null } | null;
+    },
+    resolution: MarketResolutionDTO,
+    result: UpsertResolutionsResult
+  ): Promise<void> {
+    // Ingestion re-reports settled markets every cycle; final rows only change on a venue correction
+    if (
+      row.resolution &&
+      row.resolution.status !== 'pending' &&
+      row.resolution.status === resolution.status &&
+      row.resolution.winningOutcome === (resolution.winningOutcome ?? null)
+    ) {
+      result.unchanged++;
+      return;
+    }
+
+    let winningOutcomeId: number | null = null;
+    if (resolution.winningOutcome) {
+      const wanted = resolution.winningOutcome.toLowerCase();
+      winningOutcomeId = row.outcomes.find((o) => o.name.toLowerCase() === wanted)?.id ?? null;
+      if (winningOutcomeId === null) result.unmatchedOutcomes++;
+    }
+
+    const data = {
+      status: resolution.status,
+      winningOutcomeId,
+      winningOutcome: resolution.winningOutcome ?? null,
+      winningSide: resolution.winningSide ?? null,
+      settlementValue: resolution.settlementValue ?? null,
+      resolvedAt: resolution.resolvedAt ?? null,
+      source: resolution.source,
+      raw: (resolution.raw ?? undefined) as object | undefined,
+    };
+
+    await this.prisma.$transaction([
+      this.prisma.marketResolution.upsert({
+        where: { marketId: row.id },
+        create: { marketId: row.id, ...data },
+        update: data,
+      }),
+      ...(resolution.status !== 'pending'
+        ? [this.prisma.market.update({ where: { id: row.id }, data: { status: 'resolved' } })]
+        : []),
+    ]);
+
+    if (row.resolution) {
+      result.updated++;
+    } else {
+      result.created++;
+    }
+  }
+
+  /**
+   * Recently closed markets without a final resolution
+   * Includes markets with no resolution row and those still pending.
+   */
+  async getSyncCandidates(options: {
+    venue: Venue;
+    closedSince: Date;
+    limit?: number;
+  }): Promise<ResolutionCandidate[]> {
+    const { venue, closedSince, limit = 2000 } = options;
+
+    const markets = await this.prisma.market.findMany({
+      where: {
+        venue,
+        closeTime: { gte: closedSince, lte: new Date() },
+        OR: [{ resolution: null }, { resolution: { status: 'pending' } }],
+      },
+      select: {
+        id: true,
+        externalId: true,
+        status: true,
+        closeTime: true,
+        resolution: { select: { status: true } },
+      },
+      orderBy: { closeTime: 'desc' },
+      take: limit,
+    });
+
+    return markets.map((m) => ({
+      id: m.id,
+      externalId: m.externalId,
+      status: m.status,
+      closeTime: m.closeTime,
+      resolutionStatus: m.resolution?.status ?? null,
+    }));
+  }
+
+  /**
+   * Resolutions for a set of markets, keyed by marketId
+   */
+  async getByMarketIds(marketIds: number[]): Promise<Map<number, MarketResolution>> {
+    if (marketIds.length === 0) return new Map();
+    const rows = await this.prisma.marketResolution.findMany({
+      where: { marketId: { in: marketIds } },
+    });
+    return new Map(rows.map((r) => [r.marketId, r]));
+  }
+
+  /**
+   * Counts by status, overall and per venue
+   */
+  async getStats(): Promise<ResolutionStats> {
+    const groups = await this.prisma.$queryRaw<Array<{ venue: string; status: string; count: bigint }>>`
+      SELECT m.venue::text AS venue, r.status::text AS status, COUNT(*)::bigint AS count
+      FROM market_resolutions r
+      JOIN markets m ON m.id = r.market_id
+      GROUP BY m.venue, r.status
+    `;
+
+    const stats: ResolutionStats = { total: 0, byStatus: {}, byVenue: {} };
+    for (const g of groups) {
+      const count = Number(g.count);
+      stats.total += count;
+      stats.byStatus[g.status] = (stats.byStatus[g.status] || 0) + count;
+      stats.byVenue[g.venue] = { ...stats.byVenue[g.venue], [g.status]: count };
+    }
+    return stats;
+  }
+
+  /**
+   * Confirmed links to audit, with both sides' resolutions
+   * By default only links without a final verdict (none yet, or PENDING).
+   */
+  async getConfirmedLinksForAudit(
+    options: LinkAuditFilter & { recheck?: boolean; limit?: number } = {}
+  ): Promise<LinkWithResolutions[]> {
+    const { topic, algoVersion, recheck = false, limit = 5000 } = options;
+    const marketSelect = { id: true, venue: true, title: true, resolution: true } as const;
+
+    return this.prisma.marketLink.findMany({
+      where: {
+        status: 'confirmed',
+        ...(topic && { topic }),
+        ...(algoVersion && { algoVersion }),
+        ...(!recheck && { OR: [{ resolutionVerdict: null }, { resolutionVerdict: 'PENDING' }] }),
+      },
+      select: {
+        id: true,
+        algoVersion: true,
+        topic: true,
+        resolutionVerdict: true,
+        leftMarket: { select: marketSelect },
+        rightMarket: { select: marketSelect },
+      },
+      orderBy: { id: 'asc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Store verdicts on links
+   */
+  async setLinkVerdicts(updates: LinkVerdictUpdate[], checkedAt: Date = new Date()): Promise<number> {
+    for (let i = 0; i < updates.length; i += LOOKUP_CHUNK) {
+      const chunk = updates.slice(i, i + LOOKUP_CHUNK);
+      await this.prisma.$transaction(
+        chunk.map((u) =>
+          this.prisma.marketLink.update({
+            where: { id: u.linkId },
+            data: {
+              resolutionVerdict: u.verdict,
+              resolutionCheckedAt: checkedAt,
+              resolutionDetails: u.details as Prisma.InputJsonValue,
+            },
+          })
+        )
+      );
+    }
+    return updates.length;
+  }
+
+  /**
+   * Stored verdict counts for confirmed links by algoVersion and topic
+   */
+  async getVerdictBreakdown(filter: LinkAuditFilter = {}): Promise<VerdictBreakdownRow[]> {
+    const groups = await this.prisma.marketLink.groupBy({
+      by: ['algoVersion', 'topic', 'resolutionVerdict'],
+      where: {
+        status: 'confirmed',
+        ...(filter.topic && { topic: filter.topic }),
+        ...(filter.algoVersion && { algoVersion: filter.algoVersion }),
+      },
+      _count: { _all: true },
+    });
+
+    return groups.map((g) => ({
+      algoVersion: g.algoVersion,
+      topic: g.topic,
+      verdict: g.resolutionVerdict,
+      count: g._count._all,
+    }));
+  }
+}
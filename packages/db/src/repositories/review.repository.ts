@@ -0,0 +1,320 @@
+/**
+ * ReviewRepository - Review server accounts, queues and decisions (v3.2.0)
+ *
+ * Each reviewer's verdict is a review_decisions row. A link is in a
+ * reviewer's queue while it is suggested, matches their topics, has no
+ * decision of theirs and still needs one: no decision yet, or a round-1
+ * decision sampled for a blind second review. Sampled links whose two
+ * decisions disagree stay suggested and wait in the escalation queue for a
+ * round-3 decision by a lead. The (link, round) unique key keeps two
+ * reviewers from filling the same slot.
+ *
+ * A bracket group is the set of queued links between the same two venue
+ * events (e.g. every Polymarket/Kalshi leg of one BTC price ladder), which
+ * reviewers can confirm together.
+ */
+
+import { Prisma, type PrismaClient, type Market, type Reviewer, type ReviewDecision } from '@prisma/client';
+
+export type ReviewerRole = 'reviewer' | 'lead';
+export type ReviewQueue = 'review' | 'escalation';
+export type ReviewVerdict = 'confirm' | 'reject';
+
+export interface ReviewerInput {
+  name: string;
+  role?: ReviewerRole;
+  passwordHash?: string | null;
+  tokenHash?: string | null;
+  topics?: string[];
+}
+
+export interface ReviewerUpdate {
+  role?: ReviewerRole;
+  passwordHash?: string | null;
+  tokenHash?: string | null;
+  topics?: string[];
+  active?: boolean;
+}
+
+export interface ReviewQueueOptions {
+  minScore: number;
+  /** Links currently claimed by other reviewers */
+  excludeLinkIds?: number[];
+  /** Title substring on either side, or a link id */
+  search?: string;
+  /** Narrow to one link topic (within the reviewer's topics) */
+  topic?: string;
+}
+
+export interface ReviewDecisionInput {
+  linkId: number;
+  reviewerId: number;
+  round: number;
+  decision: ReviewVerdict;
+  sampled?: boolean;
+  note?: string | null;
+}
+
+export type ReviewDecisionWithReviewer = ReviewDecision & { reviewer: Pick<Reviewer, 'id' | 'name'> };
+
+const REVIEW_LINK_INCLUDE = {
+  leftMarket: { include: { outcomes: { include: { latestQuote: true } } } },
+  rightMarket: { include: { outcomes: { include: { latestQuote: true } } } },
+} satisfies Prisma.MarketLinkInclude;
+
+/** Market fields that identify its venue event */
+type MarketEventFields = Pick<Market, 'pmEventId' | 'kalshiEventTicker' | 'metadata'>;
+
+/** Max links returned for one bracket group */
+const BRACKET_GROUP_LIMIT = 100;
+
+export type ReviewLink = Prisma.MarketLinkGetPayload<{ include: typeof REVIEW_LINK_INCLUDE }>;
+
+export interface DoubleReviewedLink {
+  linkId: number;
+  topic: string | null;
+  decisions: ReviewDecisionWithReviewer[];
+}
+
+export interface ReviewerDecisionCounts {
+  reviewerId: number;
+  decision: string;
+  count: number;
+}
+
+const WITH_REVIEWER = { reviewer: { select: { id: true, name: true } } } satisfies Prisma.ReviewDecisionInclude;
+
+/**
+ * Repository for review accounts and decisions
+ */
+export class ReviewRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async createReviewer(input: ReviewerInput): Promise<Reviewer> {
+    return this.prisma.reviewer.create({
+      data: {
+        name: input.name,
+        role: input.role ?? 'reviewer',
+        passwordHash: input.passwordHash ?? null,
+        tokenHash: input.tokenHash ?? null,
+        topics: input.topics ?? [],
+      },
+    });
+  }
+
+  async updateReviewer(name: string, update: ReviewerUpdate): Promise<Reviewer> {
+    return this.prisma.reviewer.update({ where: { name }, data: update });
+  }
+
+  async findReviewerByName(name: string): Promise<Reviewer | null> {
+    return this.prisma.reviewer.findUnique({ where: { name } });
+  }
+
+  async findReviewerByTokenHash(tokenHash: string): Promise<Reviewer | null> {
+    return this.prisma.reviewer.findUnique({ where: { tokenHash } });
+  }
+
+  async listReviewers(): Promise<Reviewer[]> {
+    return this.prisma.reviewer.findMany({ orderBy: { name: 'asc' } });
+  }
+
+  async countActiveReviewers(): Promise<number> {
+    return this.prisma.reviewer.count({ where: { active: true } });
+  }
+
+  /**
+   * Highest-scored link in the reviewer's queue
+   */
+  async nextLink(
+    reviewer: Pick<Reviewer, 'id' | 'topics'>,
+    queue: ReviewQueue,
+    options: ReviewQueueOptions
+  ): Promise<ReviewLink | null> {
+    return this.prisma.marketLink.findFirst({
+      where: this.queueWhere(reviewer, queue, options),
+      orderBy: { score: 'desc' },
+      include: REVIEW_LINK_INCLUDE,
+    });
+  }
+
+  async countQueue(reviewer: Pick<Reviewer, 'id' | 'topics'>, queue: ReviewQueue, options: ReviewQueueOptions): Promise<number> {
+    return this.prisma.marketLink.count({ where: this.queueWhere(reviewer, queue, options) });
+  }
+
+  /**
+   * Whether a link is in the reviewer's queue (checked before recording a decision)
+   */
+  async isQueued(
+    reviewer: Pick<Reviewer, 'id' | 'topics'>,
+    queue: ReviewQueue,
+    linkId: number,
+    options: ReviewQueueOptions
+  ): Promise<boolean> {
+    const count = await this.prisma.marketLink.count({
+      where: { AND: [this.queueWhere(reviewer, queue, options), { id: linkId }] },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Other links in the reviewer's queue between the same two venue events
+   */
+  async findBracketGroup(
+    link: { id: number; leftMarket: MarketEventFields; rightMarket: MarketEventFields },
+    reviewer: Pick<Reviewer, 'id' | 'topics'>,
+    options: ReviewQueueOptions
+  ): Promise<ReviewLink[]> {
+    const left = marketEventWhere(link.leftMarket);
+    const right = marketEventWhere(link.rightMarket);
+    if (!left || !right) return [];
+
+    return this.prisma.marketLink.findMany({
+      where: {
+        AND: [
+          this.queueWhere(reviewer, 'review', options),
+          { id: { not: link.id } },
+          { leftMarket: left },
+          { rightMarket: right },
+        ],
+      },
+      orderBy: { score: 'desc' },
+      take: BRACKET_GROUP_LIMIT,
+      include: REVIEW_LINK_INCLUDE,
+    });
+  }
+
+  async getDecisions(linkId: number): Promise<ReviewDecisionWithReviewer[]> {
+    return this.prisma.reviewDecision.findMany({
+      where: { linkId },
+      orderBy: { round: 'asc' },
+      include: WITH_REVIEWER,
+    });
+  }
+
+  /**
+   * Record a decision; null when the round is already taken or the reviewer
+   * already decided this link
+   */
+  async recordDecision(input: ReviewDecisionInput): Promise<ReviewDecision | null> {
+    try {
+      return await this.prisma.reviewDecision.create({
+        data: {
+          linkId: input.linkId,
+          reviewerId: input.reviewerId,
+          round: input.round,
+          decision: input.decision,
+          sampled: input.sampled ?? false,
+          note: input.note ?? null,
+        },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Drop decisions so the links re-enter the queues (after a rollback)
+   */
+  async deleteDecisions(linkIds: number[]): Promise<number> {
+    if (linkIds.length === 0) return 0;
+    const { count } = await this.prisma.reviewDecision.deleteMany({ where: { linkId: { in: linkIds } } });
+    return count;
+  }
+
+  /**
+   * Links with a second-round decision, with all their decisions
+   */
+  async listDoubleReviewed(since?: Date): Promise<DoubleReviewedLink[]> {
+    const decisions = await this.prisma.reviewDecision.findMany({
+      where: {
+        link: { reviewDecisions: { some: { round: 2, ...(since && { createdAt: { gte: since } }) } } },
+      },
+      orderBy: [{ linkId: 'asc' }, { round: 'asc' }],
+      include: { ...WITH_REVIEWER, link: { select: { topic: true } } },
+    });
+
+    const byLink = new Map<number, DoubleReviewedLink>();
+    for (const { link, ...decision } of decisions) {
+      let entry = byLink.get(decision.linkId);
+      if (!entry) {
+        entry = { linkId: decision.linkId, topic: link.topic, decisions: [] };
+        byLink.set(decision.linkId, entry);
+      }
+      entry.decisions.push(decision);
+    }
+    return [...byLink.values()];
+  }
+
+  async countDecisionsByReviewer(since?: Date): Promise<ReviewerDecisionCounts[]> {
+    const rows = await this.prisma.reviewDecision.groupBy({
+      by: ['reviewerId', 'decision'],
+      where: since ? { createdAt: { gte: since } } : undefined,
+      _count: true,
+    });
+    return rows.map((r) => ({ reviewerId: r.reviewerId, decision: r.decision, count: r._count }));
+  }
+
+  private queueWhere(
+    reviewer: Pick<Reviewer, 'id' | 'topics'>,
+    queue: ReviewQueue,
+    options: ReviewQueueOptions
+  ): Prisma.MarketLinkWhereInput {
+    const excluded = options.excludeLinkIds ?? [];
+    const search = options.search?.trim();
+    const filters: Prisma.MarketLinkWhereInput[] = [
+      { status: 'suggested', score: { gte: options.minScore } },
+      { reviewDecisions: { none: { reviewerId: reviewer.id } } },
+    ];
+    // No topics = unrestricted, including links without a topic
+    if (reviewer.topics.length > 0) {
+      filters.push({ topic: { in: reviewer.topics } });
+    }
+    if (excluded.length > 0) {
+      filters.push({ id: { notIn: excluded } });
+    }
+    if (options.topic) {
+      filters.push({ topic: options.topic });
+    }
+    if (search) {
+      filters.push({
+        OR: [
+          ...(/^\d+$/.test(search) ? [{ id: parseInt(search, 10) }] : []),
+          { leftMarket: { title: { contains: search, mode: 'insensitive' } } },
+          { rightMarket: { title: { contains: search, mode: 'insensitive' } } },
+        ],
+      });
+    }
+
+    if (queue === 'escalation') {
+      // Still suggested after round 2 = the two reviewers disagreed
+      filters.push({ reviewDecisions: { some: { round: 2 } } }, { reviewDecisions: { none: { round: 3 } } });
+    } else {
+      filters.push({
+        OR: [
+          { reviewDecisions: { none: {} } },
+          {
+            AND: [
+              { reviewDecisions: { some: { round: 1, sampled: true } } },
+              { reviewDecisions: { none: { round: 2 } } },
+            ],
+          },
+        ],
+      });
+    }
+    return { AND: filters };
+  }
+}
+
+/**
+ * Filter for markets in the same venue event (Gamma event ID or Kalshi event ticker)
+ */
+function marketEventWhere(market: MarketEventFields): Prisma.MarketWhereInput | null {
+  if (market.pmEventId) return { pmEventId: market.pmEventId };
+  if (market.kalshiEventTicker) return { kalshiEventTicker: market.kalshiEventTicker };
+  const metadata = market.metadata as Record<string, unknown> | null;
+  const eventTicker = typeof metadata?.eventTicker === 'string' ? metadata.eventTicker : null;
+  return eventTicker ? { metadata: { path: ['eventTicker'], equals: eventTicker } } : null;
+}
@@ -0,0 +1,147 @@
+/**
+ * SyntheticLinkRepository - Bracket equivalences across venue ladders (v3.2.0)
+ *
+ * A SyntheticLink says one market pays exactly like a weighted combination
+ * of another venue's markets (e.g. a Polymarket $2k bracket = eight Kalshi
+ * $250 legs). Written by brackets:map; like MarketLink suggestions, an
+ * existing row keeps its review status when recomputed.
+ */
+
+import type { PrismaClient, Prisma, SyntheticLink, LinkStatus } from '@prisma/client';
+import type { Venue } from '@data-module/core';
+
+export interface SyntheticLinkLeg {
+  marketId: number;
+  weight: 1 | -1;
+  lo: number | null;
+  hi: number | null;
+}
+
+export interface SyntheticLinkInput {
+  eventKey: string;
+  topic: string | null;
+  targetVenue: Venue;
+  targetMarketId: number;
+  targetLo: number | null;
+  targetHi: number | null;
+  legVenue: Venue;
+  kind: string;
+  constant: 0 | 1;
+  legs: SyntheticLinkLeg[];
+  legsKey: string;
+  algoVersion: string;
+}
+
+export interface UpsertSyntheticLinksResult {
+  created: number;
+  updated: number;
+}
+
+export interface ListSyntheticLinksOptions {
+  eventKey?: string;
+  kind?: string;
+  status?: LinkStatus;
+  /** Links whose target or any leg is this market */
+  marketId?: number;
+  limit?: number;
+  offset?: number;
+}
+
+export type SyntheticLinkWithTarget = SyntheticLink & {
+  targetMarket: { id: number; title: string; status: string; closeTime: Date | null };
+};
+
+/**
+ * Repository for synthetic (multi-leg) link operations
+ */
+export class SyntheticLinkRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Insert or refresh equivalences, keyed by target market + leg combination
+   */
+  async upsertMany(links: SyntheticLinkInput[]): Promise<UpsertSyntheticLinksResult> {
+    const result: UpsertSyntheticLinksResult = { created: 0, updated: 0 };
+
+    for (const link of links) {
+      const data = {
+        eventKey: link.eventKey,
+        topic: link.topic,
+        targetVenue: link.targetVenue,
+        targetLo: link.targetLo,
+        targetHi: link.targetHi,
+        legVenue: link.legVenue,
+        kind: link.kind,
+        constant: link.constant,
+        legs: link.legs as unknown as Prisma.InputJsonValue,
+        legCount: link.legs.length,
+        algoVersion: link.algoVersion,
+      };
+      const key = { targetMarketId: link.targetMarketId, legsKey: link.legsKey };
+
+      const existing = await this.prisma.syntheticLink.findUnique({
+        where: { targetMarketId_legsKey: key },
+        select: { id: true },
+      });
+      if (existing) {
+        await this.prisma.syntheticLink.update({ where: { id: existing.id }, data });
+        result.updated++;
+      } else {
+        await this.prisma.syntheticLink.create({ data: { ...key, ...data } });
+        result.created++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Filtered, paginated listing (newest first)
+   */
+  async list(options: ListSyntheticLinksOptions = {}): Promise<{ items: SyntheticLinkWithTarget[]; total: number }> {
+    const { eventKey, kind, status, marketId, limit = 50, offset = 0 } = options;
+
+    const where: Prisma.SyntheticLinkWhereInput = {
+      ...(eventKey && { eventKey }),
+      ...(kind && { kind }),
+      ...(status && { status }),
+      ...(marketId !== undefined && {
+        OR: [
+          { targetMarketId: marketId },
+          { legs: { array_contains: [{ marketId }] } },
+        ],
+      }),
+    };
+
+    const [items, total] = await Promise.all([
+      this.prisma.syntheticLink.findMany({
+        where,
+        include: { targetMarket: { select: { id: true, title: true, status: true, closeTime: true } } },
+        orderBy: [{ updatedAt: 'desc' }, { id: 'asc' }],
+        take: limit,
+        skip: offset,
+      }),
+      this.prisma.syntheticLink.count({ where }),
+    ]);
+
+    return { items, total };
+  }
+
+  /**
+   * Set review status
+   */
+  async setStatus(id: number, status: LinkStatus): Promise<SyntheticLink> {
+    return this.prisma.syntheticLink.update({ where: { id }, data: { status } });
+  }
+
+  /**
+   * Counts by kind and status
+   */
+  async getStats(): Promise<Array<{ kind: string; status: LinkStatus; count: number }>> {
+    const groups = await this.prisma.syntheticLink.groupBy({
+      by: ['kind', 'status'],
+      _count: { _all: true },
+    });
+    return groups.map((g) => ({ kind: g.kind, status: g.status, count: g._count._all }));
+  }
+}
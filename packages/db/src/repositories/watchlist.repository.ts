@@ -5,7 +5,8 @@
  * instead of trying to quote all 1.2M markets.
  */
 
-import type { PrismaClient, QuoteWatchlist, Venue } from '@prisma/client';
+import type { PrismaClient, QuoteWatchlist } from '@prisma/client';
+import type { Venue } from '@data-module/core';
 
 export interface WatchlistItem {
   venue: Venue;
@@ -21,6 +22,18 @@ export interface WatchlistStats {
   byPriority: { priority: number; count: number }[];
 }
 
+/**
+ * v3.2.0: Watchlisted market without a recent quote
+ */
+export interface StaleWatchlistMarket {
+  marketId: number;
+  venue: Venue;
+  priority: number;
+  title: string;
+  /** Newest quote across the market's outcomes, null if never quoted */
+  lastQuoteAt: Date | null;
+}
+
 export interface WatchlistWithMarket extends QuoteWatchlist {
   market: {
     id: number;
@@ -247,6 +260,33 @@ export class WatchlistRepository {
     return result.count;
   }
 
+  /**
+   * v3.2.0: Active watchlisted markets whose newest quote is older than the cutoff (or missing)
+   */
+  async getStaleMarkets(options: {
+    cutoff: Date;
+    venue?: Venue;
+    minPriority?: number;
+    limit?: number;
+  }): Promise<StaleWatchlistMarket[]> {
+    const { cutoff, venue, minPriority = 0, limit = 500 } = options;
+
+    return this.prisma.$queryRaw<StaleWatchlistMarket[]>`
+      SELECT w.market_id AS "marketId", w.venue, w.priority, m.title, MAX(lq.ts) AS "lastQuoteAt"
+      FROM quote_watchlist w
+      JOIN markets m ON m.id = w.market_id
+      LEFT JOIN outcomes o ON o.market_id = m.id
+      LEFT JOIN latest_quotes lq ON lq.outcome_id = o.id
+      WHERE m.status = 'active'
+        AND w.priority >= ${minPriority}
+        AND (${venue ?? null}::text IS NULL OR w.venue = ${venue ?? null})
+      GROUP BY w.market_id, w.venue, w.priority, m.title
+      HAVING MAX(lq.ts) IS NULL OR MAX(lq.ts) < ${cutoff}
+      ORDER BY w.priority DESC, w.market_id
+      LIMIT ${limit}
+    `;
+  }
+
   /**
    * Check if a market is in the watchlist
    */
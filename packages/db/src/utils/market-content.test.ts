@@ -0,0 +1,36 @@
+/**
+ * Unit tests for market-content.ts (v3.2.0)
+ * Run with: npx tsx --test packages/db/src/utils/market-content.test.ts
+ */
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert';
+import { marketContentHash } from './market-content.js';
+
+const base = {
+  title: 'Bitcoin above $100,000 on Dec 31?',
+  category: 'Crypto',
+  status: 'active' as const,
+  closeTime: new Date('2026-12-31T17:00:00Z'),
+  metadata: { eventTicker: 'KXBTCD-26DEC31', seriesTicker: 'KXBTCD', yesBid: 41, volume: 1200 },
+};
+
+describe('marketContentHash (v3.2.0)', () => {
+  it('ignores prices, volume and metadata key order', () => {
+    const moved = {
+      ...base,
+      metadata: { volume: 5400, yesBid: 44, seriesTicker: 'KXBTCD', eventTicker: 'KXBTCD-26DEC31' },
+    };
+    assert.strictEqual(marketContentHash(moved), marketContentHash(base));
+  });
+
+  it('changes with the fields matching reads', () => {
+    const hash = marketContentHash(base);
+    assert.notStrictEqual(marketContentHash({ ...base, title: 'Bitcoin above $105,000 on Dec 31?' }), hash);
+    assert.notStrictEqual(marketContentHash({ ...base, closeTime: new Date('2026-12-30T17:00:00Z') }), hash);
+    assert.notStrictEqual(marketContentHash({ ...base, status: 'closed' }), hash);
+    assert.notStrictEqual(
+      marketContentHash({ ...base, metadata: { ...base.metadata, eventTicker: 'KXBTCD-26DEC30' } }),
+      hash
+    );
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Market content hash (v3.2.0)
+ *
+ * Every markets sync rewrites each fetched market, so updated_at moves even
+ * when nothing matching reads has changed. The hash covers the fields
+ * signal extraction and scoring use (title, category, status, close time and
+ * metadata without prices, volume and liquidity); content_changed_at only
+ * moves when it changes.
+ */
+
+import { createHash } from 'node:crypto';
+import type { MarketDTO } from '@data-module/core';
+
+/** Metadata keys that move with trading, not with what the market is about */
+export const VOLATILE_METADATA_KEYS: ReadonlySet<string> = new Set([
+  // Kalshi
+  'yesBid',
+  'yesAsk',
+  'noBid',
+  'noAsk',
+  'lastPrice',
+  'volume24h',
+  'openInterest',
+  // Polymarket
+  'liquidity',
+  // Manifold
+  'totalLiquidity',
+  'volume24Hours',
+  // All
+  'volume',
+]);
+
+/**
+ * JSON with object keys sorted, so equal content always hashes the same
+ */
+function stableStringify(value: unknown): string {
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function marketContentHash(
+  market: Pick<MarketDTO, 'title' | 'category' | 'status' | 'closeTime' | 'metadata'>
+): string {
+  const metadata = Object.fromEntries(
+    Object.entries(market.metadata ?? {}).filter(([key]) => !VOLATILE_METADATA_KEYS.has(key))
+  );
+  const content = stableStringify({
+    title: market.title,
+    category: market.category ?? null,
+    status: market.status,
+    closeTime: market.closeTime ?? null,
+    metadata,
+  });
+  return createHash('sha1').update(content).digest('hex');
+}
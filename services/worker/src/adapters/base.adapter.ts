@@ -4,6 +4,7 @@
  */
 
 import { withRetry, HttpError, parseRetryAfter } from '@data-module/core';
+import { httpRetries } from '../metrics/instruments.js';
 
 export interface BaseAdapterConfig {
   timeoutMs: number;
@@ -44,6 +45,7 @@ export abstract class BaseAdapter {
         onRetry: (err, attempt, delayMs) => {
           const venueName = this.constructor.name.replace('Adapter', '').toLowerCase();
           console.warn(`[${venueName}] Retry ${attempt} in ${delayMs}ms: ${err.message}`);
+          httpRetries.inc({ venue: venueName });
         },
       }
     );
@@ -1,38 +1,34 @@
 import type { Venue } from '@data-module/core';
-import { type VenueAdapter, type AdapterConfig } from './types.js';
-import { PolymarketAdapter } from './polymarket.adapter.js';
-import { KalshiAdapter, type KalshiAuthConfig } from './kalshi.adapter.js';
+import { type VenueAdapter } from './types.js';
+import { getVenueDefinition, getRegisteredVenues, type CreateAdapterOptions } from './registry.js';
 
 export { type VenueAdapter, type AdapterConfig } from './types.js';
 export { BaseAdapter, type BaseAdapterConfig } from './base.adapter.js';
 export { PolymarketAdapter } from './polymarket.adapter.js';
 export { KalshiAdapter, type KalshiAuthConfig, type KalshiFetchStats } from './kalshi.adapter.js';
 export { type KalshiConfig, type KalshiMode, loadKalshiConfig, formatKalshiConfig } from './kalshi.config.js';
-
-export interface CreateAdapterOptions {
-  config?: AdapterConfig;
-  kalshiAuth?: KalshiAuthConfig;
-}
+export { KalshiOrderBook, kalshiQuoteFromBook, type KalshiBookLevel, type KalshiBookSide } from './kalshi-book.js';
+export { KalshiWsClient, kalshiWsUrl, KALSHI_WS_CHANNELS, type KalshiWsConfig, type KalshiWsStats } from './kalshi-ws.js';
+export { PolymarketOrderBook, polymarketQuoteFromLevels, parseClobLevels, type ClobLevel, type PolymarketTokenMapping } from './polymarket-book.js';
+export { kalshiResolution, polymarketResolution, manifoldResolution, parseGammaTime, type KalshiResolutionFields, type GammaResolutionFields, type ManifoldResolutionFields } from './resolution.js';
+export { ManifoldAdapter } from './manifold.adapter.js';
+export { registerVenue, getVenueDefinition, getRegisteredVenues, type VenueDefinition, type CreateAdapterOptions } from './registry.js';
+export { PolymarketWsClient, POLYMARKET_WS_URL, type PolymarketWsConfig, type PolymarketWsStats, type PolymarketWsToken } from './polymarket-ws.js';
 
 /**
  * Create adapter for a venue
  */
 export function createAdapter(venue: Venue, options: CreateAdapterOptions = {}): VenueAdapter {
-  const { config, kalshiAuth } = options;
-
-  switch (venue) {
-    case 'polymarket':
-      return new PolymarketAdapter(config);
-    case 'kalshi':
-      return new KalshiAdapter(config, kalshiAuth);
-    default:
-      throw new Error(`Unknown venue: ${venue}`);
+  const definition = getVenueDefinition(venue);
+  if (!definition) {
+    throw new Error(`Unknown venue: ${venue}`);
   }
+  return definition.create(options);
 }
 
 /**
  * Get all supported venues
  */
 export function getSupportedVenues(): Venue[] {
-  return ['polymarket', 'kalshi'];
+  return getRegisteredVenues();
 }
@@ -0,0 +1,115 @@
+/**
+ * Kalshi order book helpers (v3.2.0)
+ *
+ * Kalshi only publishes bids on each side: a YES ask is the complement of
+ * the best NO bid. Shared by the REST orderbook path and the websocket
+ * stream, which keeps a live KalshiOrderBook per ticker.
+ */
+
+import type { QuoteDTO } from '@data-module/core';
+
+/** [priceCents, quantity] */
+export type KalshiBookLevel = [number, number];
+
+export type KalshiBookSide = 'yes' | 'no';
+
+function bestLevel(levels: KalshiBookLevel[]): KalshiBookLevel | null {
+  return levels.reduce<KalshiBookLevel | null>((best, l) => (!best || l[0] > best[0] ? l : best), null);
+}
+
+/**
+ * Build a quote for one side from Kalshi bid ladders
+ * Levels are [priceCents, quantity]; best = highest price regardless of ordering
+ */
+export function kalshiQuoteFromBook(
+  marketExternalId: string,
+  outcomeName: string,
+  bids: KalshiBookLevel[],
+  oppositeBids: KalshiBookLevel[],
+  now: Date
+): QuoteDTO | null {
+  const topBid = bestLevel(bids);
+  const topOpposite = bestLevel(oppositeBids);
+  if (!topBid && !topOpposite) return null;
+
+  const bestBid = topBid ? topBid[0] / 100 : undefined;
+  const bestAsk = topOpposite ? (100 - topOpposite[0]) / 100 : undefined;
+  const price = bestBid !== undefined && bestAsk !== undefined
+    ? (bestBid + bestAsk) / 2
+    : (bestBid ?? bestAsk)!;
+
+  return {
+    marketExternalId,
+    outcomeName,
+    ts: now,
+    price,
+    impliedProb: price,
+    liquidity: bids.reduce((sum, [, qty]) => sum + qty, 0),
+    bestBid,
+    bestAsk,
+    bidSize: topBid ? topBid[1] : undefined,
+    askSize: topOpposite ? topOpposite[1] : undefined,
+    spread: bestBid !== undefined && bestAsk !== undefined ? bestAsk - bestBid : undefined,
+    raw: {
+      orderbookDepth: bids.length,
+      levels: bids.slice(0, 5),
+    },
+  };
+}
+
+/**
+ * In-memory Kalshi book for one ticker, maintained from snapshot + deltas
+ */
+export class KalshiOrderBook {
+  private readonly yes = new Map<number, number>();
+  private readonly no = new Map<number, number>();
+  /** Latest cumulative volume from the ticker channel */
+  volume: number | undefined;
+
+  constructor(readonly ticker: string) {}
+
+  /**
+   * Replace both sides
+   */
+  applySnapshot(yes: KalshiBookLevel[] = [], no: KalshiBookLevel[] = []): void {
+    this.yes.clear();
+    this.no.clear();
+    for (const [price, qty] of yes) if (qty > 0) this.yes.set(price, qty);
+    for (const [price, qty] of no) if (qty > 0) this.no.set(price, qty);
+  }
+
+  /**
+   * Apply a quantity change at one price level; levels at or below zero are removed
+   */
+  applyDelta(side: KalshiBookSide, price: number, delta: number): void {
+    const levels = side === 'yes' ? this.yes : this.no;
+    const qty = (levels.get(price) ?? 0) + delta;
+    if (qty > 0) {
+      levels.set(price, qty);
+    } else {
+      levels.delete(price);
+    }
+  }
+
+  levels(side: KalshiBookSide): KalshiBookLevel[] {
+    const levels = side === 'yes' ? this.yes : this.no;
+    return [...levels.entries()].sort((a, b) => b[0] - a[0]);
+  }
+
+  /**
+   * Yes/No quotes for the current book
+   */
+  toQuotes(now: Date): QuoteDTO[] {
+    const yesLevels = this.levels('yes');
+    const noLevels = this.levels('no');
+    const quotes: QuoteDTO[] = [];
+
+    const yesQuote = kalshiQuoteFromBook(this.ticker, 'Yes', yesLevels, noLevels, now);
+    if (yesQuote) quotes.push({ ...yesQuote, volume: this.volume });
+
+    const noQuote = kalshiQuoteFromBook(this.ticker, 'No', noLevels, yesLevels, now);
+    if (noQuote) quotes.push({ ...noQuote, volume: this.volume });
+
+    return quotes;
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Tests for Kalshi websocket client and order book (v3.2.0)
+ *
+ * Runs against a local mock websocket server.
+ * Run: npx tsx --test services/worker/src/adapters/kalshi-ws.test.ts
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { generateKeyPairSync } from 'node:crypto';
+import jwt from 'jsonwebtoken';
+import { KalshiOrderBook } from './kalshi-book.js';
+import { KalshiWsClient, kalshiWsUrl } from './kalshi-ws.js';
+import { MockWsServer } from '../test-utils/mock-ws-server.js';
+
+async function until(check: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise((r) => setTimeout(r, 10));
+  }
+}
+
+describe('KalshiOrderBook', () => {
+  it('derives top of book from both bid ladders', () => {
+    const book = new KalshiOrderBook('KXTEST');
+    book.applySnapshot([[40, 100], [45, 20]], [[50, 30]]);
+    const [yes, no] = book.toQuotes(new Date());
+    assert.strictEqual(yes.bestBid, 0.45);
+    assert.strictEqual(yes.bestAsk, 0.5);
+    assert.strictEqual(yes.bidSize, 20);
+    assert.ok(Math.abs(yes.price - 0.475) < 1e-9);
+    assert.strictEqual(no.bestBid, 0.5);
+    assert.strictEqual(no.bestAsk, 0.55);
+  });
+
+  it('applies deltas and removes emptied levels', () => {
+    const book = new KalshiOrderBook('KXTEST');
+    book.applySnapshot([[45, 20]], []);
+    book.applyDelta('yes', 45, -20);
+    book.applyDelta('yes', 41, 5);
+    assert.deepStrictEqual(book.levels('yes'), [[41, 5]]);
+  });
+});
+
+describe('kalshiWsUrl', () => {
+  it('maps the REST base to the websocket endpoint', () => {
+    assert.strictEqual(
+      kalshiWsUrl('https://api.elections.kalshi.com/trade-api/v2'),
+      'wss://api.elections.kalshi.com/trade-api/ws/v2'
+    );
+  });
+});
+
+describe('KalshiWsClient (mock server)', () => {
+  const server = new MockWsServer();
+  let url: string;
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+  });
+
+  before(async () => {
+    url = await server.listen();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it('authenticates, subscribes, and builds quotes from snapshot + delta', async () => {
+    const client = new KalshiWsClient({
+      url,
+      auth: { apiKeyId: 'key-1', privateKeyPem: privateKey },
+      reconnectMinMs: 20,
+    });
+    client.setTickers(['KXA', 'KXB']);
+    client.start();
+
+    try {
+      const conn = await server.waitForConnection(1);
+      const auth = String(conn.request.headers['authorization']);
+      assert.ok(auth.startsWith('Bearer '));
+      const claims = jwt.verify(auth.slice(7), publicKey) as { sub: string };
+      assert.strictEqual(claims.sub, 'key-1');
+
+      const sub = (await conn.waitFor((m) => (m as { cmd?: string }).cmd === 'subscribe')) as {
+        params: { channels: string[]; market_tickers: string[] };
+      };
+      assert.deepStrictEqual(sub.params.market_tickers, ['KXA', 'KXB']);
+      assert.ok(sub.params.channels.includes('orderbook_delta'));
+
+      conn.send({ type: 'orderbook_snapshot', sid: 1, seq: 1, msg: { market_ticker: 'KXA', yes: [[40, 10]], no: [[55, 7]] } });
+      conn.send({ type: 'orderbook_delta', sid: 1, seq: 2, msg: { market_ticker: 'KXA', side: 'yes', price: 42, delta: 3 } });
+      conn.send({ type: 'ticker', sid: 2, msg: { market_ticker: 'KXA', volume: 1234 } });
+      await until(() => client.stats.deltas === 1 && client.stats.messages === 3);
+
+      const quotes = client.drainQuotes();
+      const yes = quotes.find((q) => q.outcomeName === 'Yes')!;
+      assert.strictEqual(yes.marketExternalId, 'KXA');
+      assert.strictEqual(yes.bestBid, 0.42);
+      assert.strictEqual(yes.bestAsk, 0.45);
+      assert.strictEqual(yes.volume, 1234);
+
+      // Nothing changed since the drain
+      assert.strictEqual(client.drainQuotes().length, 0);
+    } finally {
+      client.stop();
+    }
+  });
+
+  it('resubscribes with fresh snapshots after a sequence gap', async () => {
+    const client = new KalshiWsClient({ url, reconnectMinMs: 20 });
+    client.setTickers(['KXC']);
+    const base = server.connections.length;
+    client.start();
+
+    try {
+      const first = await server.waitForConnection(base + 1);
+      await first.waitFor((m) => (m as { cmd?: string }).cmd === 'subscribe');
+      first.send({ type: 'orderbook_snapshot', sid: 1, seq: 1, msg: { market_ticker: 'KXC', yes: [[30, 1]], no: [] } });
+      first.send({ type: 'orderbook_delta', sid: 1, seq: 5, msg: { market_ticker: 'KXC', side: 'yes', price: 31, delta: 1 } });
+
+      const second = await server.waitForConnection(base + 2);
+      await second.waitFor((m) => (m as { cmd?: string }).cmd === 'subscribe');
+      assert.strictEqual(client.stats.gaps, 1);
+      assert.strictEqual(client.bookCount, 0);
+
+      second.send({ type: 'orderbook_snapshot', sid: 1, seq: 1, msg: { market_ticker: 'KXC', yes: [[33, 4]], no: [] } });
+      await until(() => client.bookCount === 1);
+      const [yes] = client.drainQuotes();
+      assert.strictEqual(yes.bestBid, 0.33);
+    } finally {
+      client.stop();
+    }
+  });
+
+  it('reconnects after the connection drops', async () => {
+    const client = new KalshiWsClient({ url, reconnectMinMs: 20 });
+    client.setTickers(['KXD']);
+    const base = server.connections.length;
+    client.start();
+
+    try {
+      const first = await server.waitForConnection(base + 1);
+      await first.waitFor();
+      first.destroy();
+      const second = await server.waitForConnection(base + 2);
+      const sub = (await second.waitFor()) as { params: { market_tickers: string[] } };
+      assert.deepStrictEqual(sub.params.market_tickers, ['KXD']);
+      await until(() => client.stats.connects === 2);
+    } finally {
+      client.stop();
+    }
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Kalshi websocket market-data client (v3.2.0)
+ *
+ * Subscribes to orderbook_delta (snapshot + deltas) and ticker channels for
+ * a set of market tickers and keeps a KalshiOrderBook per ticker. Callers
+ * periodically drain quotes for books that changed since the last drain.
+ *
+ * Sequence gaps on a subscription mean the local book can't be trusted:
+ * the client drops the connection and resubscribes, which makes Kalshi
+ * send fresh snapshots.
+ */
+
+import { WebSocket, ProxyAgent, type MessageEvent } from 'undici';
+import type { QuoteDTO } from '@data-module/core';
+import { jwtCache } from '../utils/kalshi-auth.js';
+import type { KalshiAuthConfig } from './kalshi.adapter.js';
+import { KalshiOrderBook, type KalshiBookLevel, type KalshiBookSide } from './kalshi-book.js';
+
+export const KALSHI_WS_CHANNELS = ['orderbook_delta', 'ticker'];
+
+/** Kalshi accepts many tickers per command; keep frames reasonably small */
+const SUBSCRIBE_CHUNK = 200;
+
+export interface KalshiWsConfig {
+  url: string;
+  auth?: KalshiAuthConfig;
+  channels?: string[];
+  reconnectMinMs?: number;
+  reconnectMaxMs?: number;
+  proxyUrl?: string;
+}
+
+export interface KalshiWsStats {
+  connects: number;
+  messages: number;
+  snapshots: number;
+  deltas: number;
+  gaps: number;
+  errors: number;
+}
+
+interface KalshiWsMessage {
+  type: string;
+  id?: number;
+  sid?: number;
+  seq?: number;
+  msg?: {
+    market_ticker?: string;
+    yes?: KalshiBookLevel[];
+    no?: KalshiBookLevel[];
+    price?: number;
+    delta?: number;
+    side?: KalshiBookSide;
+    volume?: number;
+    code?: number;
+    msg?: string;
+  };
+}
+
+/**
+ * Derive the websocket endpoint from the REST base URL
+ * https://host/trade-api/v2 -> wss://host/trade-api/ws/v2
+ */
+export function kalshiWsUrl(baseUrl: string): string {
+  const url = new URL(baseUrl);
+  url.protocol = url.protocol === 'http:' ? 'ws:' : 'wss:';
+  url.pathname = url.pathname.replace(/\/trade-api\/v2\/?$/, '/trade-api/ws/v2');
+  return url.toString();
+}
+
+export class KalshiWsClient {
+  private readonly config: Required<Omit<KalshiWsConfig, 'auth' | 'proxyUrl'>> & Pick<KalshiWsConfig, 'auth' | 'proxyUrl'>;
+  private readonly books = new Map<string, KalshiOrderBook>();
+  private readonly dirty = new Set<string>();
+  private readonly lastSeq = new Map<number, number>();
+  private tickers = new Set<string>();
+  private socket: WebSocket | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectDelay: number;
+  private nextCommandId = 1;
+  private stopped = true;
+
+  readonly stats: KalshiWsStats = { connects: 0, messages: 0, snapshots: 0, deltas: 0, gaps: 0, errors: 0 };
+
+  constructor(config: KalshiWsConfig) {
+    this.config = {
+      channels: KALSHI_WS_CHANNELS,
+      reconnectMinMs: 1000,
+      reconnectMaxMs: 30000,
+      ...config,
+    };
+    this.reconnectDelay = this.config.reconnectMinMs;
+  }
+
+  get connected(): boolean {
+    return this.socket !== null && this.socket.readyState === WebSocket.OPEN;
+  }
+
+  get bookCount(): number {
+    return this.books.size;
+  }
+
+  start(): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+    this.connect();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  /**
+   * Replace the subscribed ticker set
+   * New tickers are subscribed on the live connection; removed tickers are
+   * dropped locally and picked up again only after a reconnect.
+   */
+  setTickers(tickers: string[]): void {
+    const next = new Set(tickers);
+    const added = tickers.filter((t) => !this.tickers.has(t));
+
+    for (const ticker of this.tickers) {
+      if (!next.has(ticker)) {
+        this.books.delete(ticker);
+        this.dirty.delete(ticker);
+      }
+    }
+    this.tickers = next;
+
+    if (this.connected && added.length > 0) {
+      this.subscribe(added);
+    }
+  }
+
+  /**
+   * Quotes for books that changed since the last call
+   */
+  drainQuotes(now: Date = new Date()): QuoteDTO[] {
+    const quotes: QuoteDTO[] = [];
+    for (const ticker of this.dirty) {
+      const book = this.books.get(ticker);
+      if (book) quotes.push(...book.toQuotes(now));
+    }
+    this.dirty.clear();
+    return quotes;
+  }
+
+  private connect(): void {
+    const headers: Record<string, string> = {};
+    if (this.config.auth) {
+      const token = jwtCache.get({
+        apiKeyId: this.config.auth.apiKeyId,
+        privateKeyPem: this.config.auth.privateKeyPem,
+        expiresIn: 300,
+      });
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+
+    const socket = new WebSocket(this.config.url, {
+      headers,
+      dispatcher: this.config.proxyUrl ? new ProxyAgent(this.config.proxyUrl) : undefined,
+    });
+    this.socket = socket;
+
+    socket.addEventListener('open', () => {
+      this.stats.connects++;
+      this.reconnectDelay = this.config.reconnectMinMs;
+      this.lastSeq.clear();
+      console.log(`[kalshi:ws] Connected, subscribing ${this.tickers.size} tickers`);
+      if (this.tickers.size > 0) {
+        this.subscribe([...this.tickers]);
+      }
+    });
+
+    socket.addEventListener('message', (event: MessageEvent) => {
+      this.stats.messages++;
+      try {
+        this.handleMessage(JSON.parse(String(event.data)) as KalshiWsMessage);
+      } catch (err) {
+        this.stats.errors++;
+        console.warn(`[kalshi:ws] Bad message: ${err instanceof Error ? err.message : err}`);
+      }
+    });
+
+    socket.addEventListener('error', () => {
+      this.stats.errors++;
+    });
+
+    socket.addEventListener('close', () => {
+      if (this.socket === socket) this.socket = null;
+      // Books are rebuilt from the snapshots sent after resubscribing
+      this.books.clear();
+      this.dirty.clear();
+      this.scheduleReconnect();
+    });
+  }
+
+  private scheduleReconnect(): void {
+    if (this.stopped || this.reconnectTimer) return;
+    const delay = this.reconnectDelay;
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, this.config.reconnectMaxMs);
+    console.warn(`[kalshi:ws] Disconnected, reconnecting in ${delay}ms`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.stopped) this.connect();
+    }, delay);
+  }
+
+  private subscribe(tickers: string[]): void {
+    for (let i = 0; i < tickers.length; i += SUBSCRIBE_CHUNK) {
+      this.socket?.send(JSON.stringify({
+        id: this.nextCommandId++,
+        cmd: 'subscribe',
+        params: {
+          channels: this.config.channels,
+          market_tickers: tickers.slice(i, i + SUBSCRIBE_CHUNK),
+        },
+      }));
+    }
+  }
+
+  private handleMessage(message: KalshiWsMessage): void {
+    if (message.type === 'error') {
+      this.stats.errors++;
+      console.warn(`[kalshi:ws] Error ${message.msg?.code}: ${message.msg?.msg}`);
+      return;
+    }
+
+    if (message.sid !== undefined && message.seq !== undefined) {
+      const last = this.lastSeq.get(message.sid);
+      this.lastSeq.set(message.sid, message.seq);
+      if (last !== undefined && message.seq !== last + 1) {
+        this.stats.gaps++;
+        console.warn(`[kalshi:ws] Sequence gap on sid ${message.sid} (${last} -> ${message.seq}), resubscribing`);
+        this.socket?.close();
+        return;
+      }
+    }
+
+    const ticker = message.msg?.market_ticker;
+    if (!ticker || !this.tickers.has(ticker)) return;
+
+    switch (message.type) {
+      case 'orderbook_snapshot': {
+        let book = this.books.get(ticker);
+        if (!book) {
+          book = new KalshiOrderBook(ticker);
+          this.books.set(ticker, book);
+        }
+        book.applySnapshot(message.msg!.yes, message.msg!.no);
+        this.stats.snapshots++;
+        this.dirty.add(ticker);
+        break;
+      }
+      case 'orderbook_delta': {
+        // Deltas before the snapshot have nothing to apply to
+        const book = this.books.get(ticker);
+        const { side, price, delta } = message.msg!;
+        if (!book || !side || price === undefined || delta === undefined) return;
+        book.applyDelta(side, price, delta);
+        this.stats.deltas++;
+        this.dirty.add(ticker);
+        break;
+      }
+      case 'ticker': {
+        const book = this.books.get(ticker);
+        if (book && message.msg!.volume !== undefined) {
+          book.volume = message.msg!.volume;
+        }
+        break;
+      }
+    }
+  }
+}
@@ -7,12 +7,16 @@ import {
   type MarketStatus,
   type OutcomeSide,
   withRetry,
+  batch,
   HttpError,
   parseRetryAfter,
 } from '@data-module/core';
 import { type VenueAdapter, type AdapterConfig, DEFAULT_ADAPTER_CONFIG } from './types.js';
+import { httpRetries } from '../metrics/instruments.js';
 import { type KalshiConfig, loadKalshiConfig, formatKalshiConfig, KALSHI_PROD_URL } from './kalshi.config.js';
 import { jwtCache } from '../utils/kalshi-auth.js';
+import { kalshiQuoteFromBook, type KalshiBookLevel } from './kalshi-book.js';
+import { kalshiResolution } from './resolution.js';
 import { ProxyAgent } from 'undici';
 
 interface KalshiMarket {
@@ -22,7 +26,7 @@ interface KalshiMarket {
   market_type: string;
   title: string;
   subtitle?: string;
-  status: 'unopened' | 'open' | 'paused' | 'closed' | 'settled';
+  status: 'unopened' | 'open' | 'paused' | 'closed' | 'determined' | 'settled' | 'finalized';
   yes_bid: number;
   yes_ask: number;
   no_bid: number;
@@ -34,6 +38,14 @@ interface KalshiMarket {
   open_time?: string;
   close_time?: string;
   category?: string;
+  // v3.2.0: Settlement fields
+  result?: string;
+  settlement_value?: number;
+  settlement_ts?: string;
+  expiration_time?: string;
+  // v3.2.0: Resolution rules text (shown in the review UI)
+  rules_primary?: string;
+  rules_secondary?: string;
   // v3.0.15: MVE truth fields from API
   mve_collection_ticker?: string | null;
   mve_selected_legs?: Array<{
@@ -78,8 +90,8 @@ interface KalshiEventsResponse {
 
 interface KalshiOrderbook {
   orderbook: {
-    yes: Array<[number, number]>;
-    no: Array<[number, number]>;
+    yes: KalshiBookLevel[];
+    no: KalshiBookLevel[];
   };
 }
 
@@ -390,6 +402,22 @@ export class KalshiAdapter implements VenueAdapter {
     return { items, nextCursor };
   }
 
+  async fetchMarketsByIds(externalIds: string[]): Promise<MarketDTO[]> {
+    const markets: MarketDTO[] = [];
+
+    // /markets accepts a comma-separated tickers filter; no status filter so settled markets are included
+    for (const tickers of batch(externalIds, 100)) {
+      const url = new URL(`${this.config.baseUrl}/markets`);
+      url.searchParams.set('tickers', tickers.join(','));
+      url.searchParams.set('limit', String(tickers.length));
+
+      const data = await this.fetchWithRetry<KalshiMarketsResponse>(url.toString());
+      markets.push(...data.markets.map(m => this.mapMarket(m)));
+    }
+
+    return markets;
+  }
+
   async fetchQuotes(markets: MarketDTO[]): Promise<QuoteDTO[]> {
     if (this.auth) {
       return this.fetchQuotesWithOrderbook(markets);
@@ -404,44 +432,14 @@ export class KalshiAdapter implements VenueAdapter {
     for (const market of markets) {
       try {
         const orderbook = await this.fetchOrderbook(market.externalId);
+        const yesLevels = orderbook.orderbook.yes ?? [];
+        const noLevels = orderbook.orderbook.no ?? [];
 
-        if (orderbook.orderbook.yes?.length > 0) {
-          const bestBid = orderbook.orderbook.yes[0];
-          const totalLiquidity = orderbook.orderbook.yes.reduce((sum, [, qty]) => sum + qty, 0);
-          const yesPrice = bestBid[0] / 100;
-
-          quotes.push({
-            marketExternalId: market.externalId,
-            outcomeName: 'Yes',
-            ts: now,
-            price: yesPrice,
-            impliedProb: yesPrice,
-            liquidity: totalLiquidity,
-            raw: {
-              orderbookDepth: orderbook.orderbook.yes.length,
-              levels: orderbook.orderbook.yes.slice(0, 5),
-            },
-          });
-        }
+        const yesQuote = kalshiQuoteFromBook(market.externalId, 'Yes', yesLevels, noLevels, now);
+        if (yesQuote) quotes.push(yesQuote);
 
-        if (orderbook.orderbook.no?.length > 0) {
-          const bestBid = orderbook.orderbook.no[0];
-          const totalLiquidity = orderbook.orderbook.no.reduce((sum, [, qty]) => sum + qty, 0);
-          const noPrice = bestBid[0] / 100;
-
-          quotes.push({
-            marketExternalId: market.externalId,
-            outcomeName: 'No',
-            ts: now,
-            price: noPrice,
-            impliedProb: noPrice,
-            liquidity: totalLiquidity,
-            raw: {
-              orderbookDepth: orderbook.orderbook.no.length,
-              levels: orderbook.orderbook.no.slice(0, 5),
-            },
-          });
-        }
+        const noQuote = kalshiQuoteFromBook(market.externalId, 'No', noLevels, yesLevels, now);
+        if (noQuote) quotes.push(noQuote);
       } catch (err) {
         console.warn(`[kalshi] Failed to fetch orderbook for ${market.externalId}: ${err}`);
         const metaQuotes = this.quotesFromMetadata(market, now);
@@ -492,6 +490,9 @@ export class KalshiAdapter implements VenueAdapter {
         price: yesPrice,
         impliedProb: yesPrice,
         volume: meta.volume,
+        bestBid: meta.yesBid / 100,
+        bestAsk: meta.yesAsk / 100,
+        spread: (meta.yesAsk - meta.yesBid) / 100,
         raw: { bid: meta.yesBid, ask: meta.yesAsk, lastPrice: meta.lastPrice },
       });
     }
@@ -506,6 +507,9 @@ export class KalshiAdapter implements VenueAdapter {
         price: noPrice,
         impliedProb: noPrice,
         volume: meta.volume,
+        bestBid: meta.noBid / 100,
+        bestAsk: meta.noAsk / 100,
+        spread: (meta.noAsk - meta.noBid) / 100,
         raw: { bid: meta.noBid, ask: meta.noAsk },
       });
     }
@@ -524,7 +528,9 @@ export class KalshiAdapter implements VenueAdapter {
       case 'closed':
         status = 'closed';
         break;
+      case 'determined':
       case 'settled':
+      case 'finalized':
         status = 'resolved';
         break;
       default:
@@ -549,8 +555,11 @@ export class KalshiAdapter implements VenueAdapter {
       title: m.title + (m.subtitle ? ` - ${m.subtitle}` : ''),
       category: m.category || m.event_ticker,
       status,
+      statusMeta: { venueStatus: m.status },
       closeTime: m.close_time ? new Date(m.close_time) : undefined,
       outcomes,
+      // v3.2.0: Winning outcome once closed
+      resolution: kalshiResolution(m),
       metadata: {
         marketTicker: m.ticker, // v2.6.2: Also store market ticker in metadata
         eventTicker: m.event_ticker,
@@ -564,6 +573,9 @@ export class KalshiAdapter implements VenueAdapter {
         volume: m.volume,
         volume24h: m.volume_24h,
         openInterest: m.open_interest,
+        // v3.2.0: Resolution rules text
+        ...(m.rules_primary && { rulesPrimary: m.rules_primary }),
+        ...(m.rules_secondary && { rulesSecondary: m.rules_secondary }),
         // v3.0.15: MVE truth fields from API
         mveCollectionTicker: m.mve_collection_ticker || null,
         mveSelectedLegs: m.mve_selected_legs || null,
@@ -590,6 +602,7 @@ export class KalshiAdapter implements VenueAdapter {
         baseDelayMs: 1000,
         onRetry: (err, attempt, delayMs) => {
           console.warn(`[kalshi] Retry ${attempt} in ${delayMs}ms: ${err.message}`);
+          httpRetries.inc({ venue: this.venue });
         },
       }
     );
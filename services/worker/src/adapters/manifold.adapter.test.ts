@@ -0,0 +1,101 @@
+/**
+ * Tests for the Manifold adapter against recorded API responses (v3.2.0)
+ *
+ * Run: npx tsx --test services/worker/src/adapters/manifold.adapter.test.ts
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { fileURLToPath } from 'node:url';
+import { classifyMarket, CanonicalTopic } from '@data-module/core';
+import { ManifoldAdapter } from './manifold.adapter.js';
+import { FixtureHttpServer } from '../test-utils/fixture-http-server.js';
+
+const FIXTURES = fileURLToPath(new URL('./fixtures/manifold', import.meta.url));
+
+describe('ManifoldAdapter', () => {
+  const server = new FixtureHttpServer(FIXTURES);
+  let adapter: ManifoldAdapter;
+
+  before(async () => {
+    server
+      .route('/v0/search-markets', (url) =>
+        url.searchParams.get('offset') === '0'
+          ? { file: 'search-markets-page1.json' }
+          : { file: 'search-markets-page2.json' }
+      )
+      .route('/v0/market/Rs8fT2uV9kLm', { file: 'market-resolved.json' })
+      .route('/v0/market-probs', [
+        { status: 503, body: { message: 'Service Unavailable' } },
+        { file: 'market-probs.json' },
+      ]);
+    adapter = new ManifoldAdapter({ baseUrl: await server.listen() });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it('pages open binary markets by offset', async () => {
+    const page1 = await adapter.fetchMarkets({ limit: 2 });
+    assert.deepStrictEqual(
+      page1.items.map((m) => m.externalId),
+      ['hT5rKq2wPzL0', 'Qm9dE3vLc1Aa']
+    );
+    assert.strictEqual(page1.nextCursor, '2');
+
+    const request = server.requestsFor('/v0/search-markets')[0];
+    assert.strictEqual(request.searchParams.get('filter'), 'open');
+    assert.strictEqual(request.searchParams.get('contractType'), 'BINARY');
+    assert.strictEqual(request.searchParams.get('limit'), '2');
+
+    // Non-binary markets are skipped; a short page ends pagination
+    const page2 = await adapter.fetchMarkets({ limit: 2, cursor: page1.nextCursor });
+    assert.strictEqual(page2.items.length, 0);
+    assert.strictEqual(page2.nextCursor, undefined);
+  });
+
+  it('maps market fields', async () => {
+    const { items } = await adapter.fetchMarkets({ limit: 2 });
+    const fed = items[0];
+
+    assert.strictEqual(fed.title, 'Will the Fed cut rates at the December 2026 FOMC meeting?');
+    assert.strictEqual(fed.status, 'active');
+    assert.strictEqual(fed.closeTime?.toISOString(), '2026-12-31T23:59:59.000Z');
+    assert.deepStrictEqual(fed.outcomes.map((o) => [o.name, o.side]), [['Yes', 'yes'], ['No', 'no']]);
+    assert.strictEqual(fed.outcomes[0].metadata?.price, 0.7312);
+    assert.strictEqual(fed.metadata?.slug, 'will-the-fed-cut-rates-at-the-decem-2026');
+    assert.strictEqual(fed.resolution, undefined);
+  });
+
+  it('fetches resolved markets by id with their resolution and groups', async () => {
+    const [eth] = await adapter.fetchMarketsByIds(['Rs8fT2uV9kLm', 'missing-id']);
+
+    assert.strictEqual(eth.status, 'resolved');
+    assert.strictEqual(eth.category, 'ethereum');
+    assert.strictEqual(eth.resolution?.status, 'resolved');
+    assert.strictEqual(eth.resolution?.winningOutcome, 'No');
+    assert.strictEqual(eth.resolution?.resolvedAt?.getTime(), 1790820000000);
+
+    const topic = classifyMarket({ venue: 'manifold', title: eth.title, category: eth.category, metadata: eth.metadata });
+    assert.strictEqual(topic.topic, CanonicalTopic.CRYPTO_DAILY);
+  });
+
+  it('quotes Yes/No from market probabilities, retrying 5xx', async () => {
+    const { items } = await adapter.fetchMarkets({ limit: 2 });
+    const quotes = await adapter.fetchQuotes(items);
+
+    assert.strictEqual(server.requestsFor('/v0/market-probs').length, 2);
+    assert.deepStrictEqual(server.requestsFor('/v0/market-probs')[1].searchParams.getAll('ids'), [
+      'hT5rKq2wPzL0',
+      'Qm9dE3vLc1Aa',
+    ]);
+    assert.strictEqual(quotes.length, 4);
+
+    const btcNo = quotes.find((q) => q.marketExternalId === 'Qm9dE3vLc1Aa' && q.outcomeName === 'No')!;
+    assert.ok(Math.abs(btcNo.price - 0.8796) < 1e-9);
+    assert.strictEqual(btcNo.impliedProb, btcNo.price);
+    assert.strictEqual(btcNo.liquidity, 2500);
+    assert.strictEqual(btcNo.volume, 40211.9);
+  });
+});
@@ -0,0 +1,247 @@
+import {
+  type Venue,
+  type MarketDTO,
+  type QuoteDTO,
+  type FetchMarketsResult,
+  type FetchMarketsParams,
+  type MarketStatus,
+  withRetry,
+  batch,
+  HttpError,
+  parseRetryAfter,
+} from '@data-module/core';
+import { type VenueAdapter, type AdapterConfig, DEFAULT_ADAPTER_CONFIG } from './types.js';
+import { httpRetries } from '../metrics/instruments.js';
+import { manifoldResolution } from './resolution.js';
+
+const MANIFOLD_API_BASE = 'https://api.manifold.markets';
+
+/** /v0/market-probs accepts at most 100 ids per call */
+const PROBS_BATCH_SIZE = 100;
+
+/**
+ * Manifold LiteMarket / FullMarket (only the fields we use)
+ * Times are epoch milliseconds; groupSlugs is only present on FullMarket.
+ */
+interface ManifoldMarket {
+  id: string;
+  question: string;
+  slug: string;
+  url: string;
+  outcomeType: string;
+  mechanism?: string;
+  creatorUsername?: string;
+  createdTime?: number;
+  closeTime?: number;
+  isResolved: boolean;
+  resolution?: string;
+  resolutionTime?: number;
+  resolutionProbability?: number;
+  probability?: number;
+  totalLiquidity?: number;
+  volume?: number;
+  volume24Hours?: number;
+  groupSlugs?: string[];
+}
+
+type ManifoldProbsResponse = Record<string, { prob: number }>;
+
+/**
+ * Manifold adapter (v3.2.0)
+ *
+ * Reference plug-in venue: binary play-money markets from the public
+ * Manifold API. Needs no credentials; prices are the AMM probability, so
+ * quotes carry no book.
+ */
+export class ManifoldAdapter implements VenueAdapter {
+  readonly venue: Venue = 'manifold';
+  private readonly config: Required<AdapterConfig>;
+
+  constructor(config: AdapterConfig = {}) {
+    this.config = {
+      ...DEFAULT_ADAPTER_CONFIG,
+      ...config,
+      baseUrl: config.baseUrl || MANIFOLD_API_BASE,
+    };
+  }
+
+  async fetchMarkets(params?: FetchMarketsParams): Promise<FetchMarketsResult> {
+    const limit = params?.limit ?? this.config.pageSize;
+    const offset = params?.cursor ? parseInt(params.cursor, 10) : 0;
+
+    const url = new URL('/v0/search-markets', this.config.baseUrl);
+    url.searchParams.set('term', '');
+    url.searchParams.set('filter', 'open');
+    url.searchParams.set('contractType', 'BINARY');
+    url.searchParams.set('sort', 'newest');
+    url.searchParams.set('limit', String(limit));
+    url.searchParams.set('offset', String(offset));
+
+    const data = await this.fetchJson<ManifoldMarket[]>(url, 'fetchMarkets');
+
+    const items: MarketDTO[] = data
+      .filter((m) => m.outcomeType === 'BINARY')
+      .map((m) => this.mapMarket(m));
+
+    // Determine if there are more results
+    const nextCursor = data.length === limit ? String(offset + limit) : undefined;
+
+    return { items, nextCursor };
+  }
+
+  async fetchMarketsByIds(externalIds: string[]): Promise<MarketDTO[]> {
+    const markets: MarketDTO[] = [];
+
+    // No batch lookup by id; /v0/market/{id} returns the FullMarket in any state
+    for (const id of externalIds) {
+      const url = new URL(`/v0/market/${encodeURIComponent(id)}`, this.config.baseUrl);
+      try {
+        const market = await this.fetchJson<ManifoldMarket>(url, 'fetchMarketsByIds');
+        markets.push(this.mapMarket(market));
+      } catch (err) {
+        if (err instanceof HttpError && err.statusCode === 404) {
+          console.warn(`[manifold] Market ${id} not found`);
+          continue;
+        }
+        throw err;
+      }
+    }
+
+    return markets;
+  }
+
+  async fetchQuotes(markets: MarketDTO[]): Promise<QuoteDTO[]> {
+    const quotes: QuoteDTO[] = [];
+    const now = new Date();
+    const byId = new Map(markets.map((m) => [m.externalId, m]));
+
+    for (const ids of batch([...byId.keys()], PROBS_BATCH_SIZE)) {
+      const url = new URL('/v0/market-probs', this.config.baseUrl);
+      for (const id of ids) url.searchParams.append('ids', id);
+
+      let probs: ManifoldProbsResponse;
+      try {
+        probs = await this.fetchJson<ManifoldProbsResponse>(url, 'fetchQuotes');
+      } catch (err) {
+        console.error(`[manifold] Error fetching probs batch: ${err}`);
+        continue;
+      }
+
+      for (const id of ids) {
+        const prob = probs[id]?.prob;
+        if (prob === undefined || !Number.isFinite(prob)) continue;
+
+        const market = byId.get(id)!;
+        const liquidity = market.metadata?.totalLiquidity as number | undefined;
+        const volume = market.metadata?.volume as number | undefined;
+
+        for (const [outcomeName, price] of [['Yes', prob], ['No', 1 - prob]] as const) {
+          quotes.push({
+            marketExternalId: id,
+            outcomeName,
+            ts: now,
+            price,
+            impliedProb: price,
+            liquidity,
+            volume,
+            raw: { prob },
+          });
+        }
+      }
+    }
+
+    return quotes;
+  }
+
+  private mapMarket(m: ManifoldMarket): MarketDTO {
+    const now = Date.now();
+
+    // Map status
+    let status: MarketStatus;
+    if (m.isResolved) {
+      status = 'resolved';
+    } else if (m.closeTime !== undefined && m.closeTime <= now) {
+      status = 'closed';
+    } else {
+      status = 'active';
+    }
+
+    const resolution = manifoldResolution({
+      isResolved: m.isResolved,
+      resolution: m.resolution,
+      resolutionTime: m.resolutionTime,
+      resolutionProbability: m.resolutionProbability,
+      closeTime: m.closeTime,
+    });
+
+    return {
+      externalId: m.id,
+      title: m.question,
+      category: m.groupSlugs?.[0],
+      status,
+      statusMeta: {
+        venueStatus: m.isResolved ? 'resolved' : status,
+        ...(m.resolution && { resolution: m.resolution }),
+      },
+      closeTime: m.closeTime !== undefined ? new Date(m.closeTime) : undefined,
+      outcomes: [
+        { name: 'Yes', side: 'yes', metadata: { price: m.probability } },
+        { name: 'No', side: 'no', metadata: { price: m.probability !== undefined ? 1 - m.probability : undefined } },
+      ],
+      resolution,
+      metadata: {
+        slug: m.slug,
+        url: m.url,
+        mechanism: m.mechanism,
+        creatorUsername: m.creatorUsername,
+        totalLiquidity: m.totalLiquidity,
+        volume: m.volume,
+        volume24Hours: m.volume24Hours,
+        // Read by the manifold taxonomy classifier
+        groupSlugs: m.groupSlugs,
+      },
+    };
+  }
+
+  private async fetchJson<T>(url: URL, op: string): Promise<T> {
+    return withRetry(
+      async () => {
+        const response = await this.fetchWithTimeout(url.toString());
+        if (!response.ok) {
+          const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+          throw new HttpError(
+            `Manifold API error: ${response.status} ${response.statusText}`,
+            response.status,
+            retryAfterMs ? retryAfterMs / 1000 : undefined
+          );
+        }
+        return response.json() as Promise<T>;
+      },
+      {
+        maxAttempts: 5,
+        baseDelayMs: 1000,
+        onRetry: (err, attempt, delayMs) => {
+          console.warn(`[manifold] ${op} retry ${attempt} in ${delayMs}ms: ${err.message}`);
+          httpRetries.inc({ venue: this.venue });
+        },
+      }
+    );
+  }
+
+  private async fetchWithTimeout(
+    url: string,
+    options: RequestInit = {}
+  ): Promise<Response> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.config.timeoutMs);
+
+    try {
+      return await fetch(url, {
+        ...options,
+        signal: controller.signal,
+      });
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Polymarket CLOB order book helpers (v3.2.0)
+ *
+ * Shared by the REST /books path and the market-channel websocket, which
+ * keeps a live PolymarketOrderBook per token (asset) id.
+ */
+
+import type { QuoteDTO } from '@data-module/core';
+
+export interface ClobLevel {
+  price: string;
+  size: string;
+}
+
+export interface PolymarketTokenMapping {
+  marketExternalId: string;
+  outcomeName: string;
+}
+
+interface TopLevel {
+  price: number;
+  size: number;
+}
+
+function bestLevel(levels: Iterable<[number, number]>, better: (a: number, b: number) => boolean): TopLevel | null {
+  let best: TopLevel | null = null;
+  for (const [price, size] of levels) {
+    if (!best || better(price, best.price)) best = { price, size };
+  }
+  return best;
+}
+
+/**
+ * Build a quote from bid/ask ladders (prices 0..1)
+ * Best levels are picked by price, independent of the order CLOB returns them in
+ */
+export function polymarketQuoteFromLevels(
+  mapping: PolymarketTokenMapping,
+  assetId: string,
+  bids: Iterable<[number, number]>,
+  asks: Iterable<[number, number]>,
+  now: Date
+): QuoteDTO | null {
+  const topBid = bestLevel(bids, (a, b) => a > b);
+  const topAsk = bestLevel(asks, (a, b) => a < b);
+  const bestBid = topBid?.price ?? null;
+  const bestAsk = topAsk?.price ?? null;
+
+  // Calculate mid price from best bid/ask
+  let price: number;
+  if (bestBid !== null && bestAsk !== null) {
+    price = (bestBid + bestAsk) / 2;
+  } else if (bestBid !== null) {
+    price = bestBid;
+  } else if (bestAsk !== null) {
+    price = bestAsk;
+  } else {
+    return null; // No price available
+  }
+
+  return {
+    marketExternalId: mapping.marketExternalId,
+    outcomeExternalId: assetId,
+    outcomeName: mapping.outcomeName,
+    ts: now,
+    price,
+    impliedProb: price, // For binary markets, price ≈ implied probability
+    bestBid: bestBid ?? undefined,
+    bestAsk: bestAsk ?? undefined,
+    bidSize: topBid?.size,
+    askSize: topAsk?.size,
+    spread: bestBid !== null && bestAsk !== null ? bestAsk - bestBid : undefined,
+    // Liquidity as sum of best bid/ask sizes
+    liquidity: (topBid?.size ?? 0) + (topAsk?.size ?? 0),
+  };
+}
+
+/**
+ * Parse CLOB string levels into [price, size] pairs
+ */
+export function parseClobLevels(levels: ClobLevel[] = []): Array<[number, number]> {
+  return levels.map((l) => [parseFloat(l.price), parseFloat(l.size)]);
+}
+
+/**
+ * In-memory CLOB book for one token, maintained from book snapshots + price_change
+ */
+export class PolymarketOrderBook {
+  private readonly bids = new Map<number, number>();
+  private readonly asks = new Map<number, number>();
+  /** Venue timestamp (ms) of the last applied message */
+  lastTimestamp = 0;
+
+  constructor(readonly assetId: string) {}
+
+  applySnapshot(bids: ClobLevel[], asks: ClobLevel[], timestamp: number): void {
+    this.bids.clear();
+    this.asks.clear();
+    for (const [price, size] of parseClobLevels(bids)) if (size > 0) this.bids.set(price, size);
+    for (const [price, size] of parseClobLevels(asks)) if (size > 0) this.asks.set(price, size);
+    this.lastTimestamp = timestamp;
+  }
+
+  /**
+   * Set the absolute size at a level (size 0 removes it)
+   * @param side - BUY updates bids, SELL updates asks
+   */
+  applyChange(side: 'BUY' | 'SELL', price: number, size: number, timestamp: number): void {
+    const levels = side === 'BUY' ? this.bids : this.asks;
+    if (size > 0) {
+      levels.set(price, size);
+    } else {
+      levels.delete(price);
+    }
+    this.lastTimestamp = Math.max(this.lastTimestamp, timestamp);
+  }
+
+  bestBid(): number | null {
+    return bestLevel(this.bids, (a, b) => a > b)?.price ?? null;
+  }
+
+  bestAsk(): number | null {
+    return bestLevel(this.asks, (a, b) => a < b)?.price ?? null;
+  }
+
+  toQuote(mapping: PolymarketTokenMapping, now: Date): QuoteDTO | null {
+    return polymarketQuoteFromLevels(mapping, this.assetId, this.bids, this.asks, now);
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * Tests for Polymarket CLOB websocket client and order book (v3.2.0)
+ *
+ * Runs against a local mock websocket server.
+ * Run: npx tsx --test services/worker/src/adapters/polymarket-ws.test.ts
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { PolymarketOrderBook } from './polymarket-book.js';
+import { PolymarketWsClient } from './polymarket-ws.js';
+import { MockWsServer } from '../test-utils/mock-ws-server.js';
+
+async function until(check: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise((r) => setTimeout(r, 10));
+  }
+}
+
+const YES = { tokenId: 'tok-yes', marketExternalId: 'pm-1', outcomeName: 'Yes' };
+
+function isSubscribe(msg: unknown): boolean {
+  return typeof msg === 'object' && msg !== null && (msg as { type?: string }).type === 'market';
+}
+
+describe('PolymarketOrderBook', () => {
+  it('derives top of book and applies absolute level sizes', () => {
+    const book = new PolymarketOrderBook('tok');
+    book.applySnapshot(
+      [{ price: '0.40', size: '100' }, { price: '0.45', size: '20' }],
+      [{ price: '0.55', size: '30' }, { price: '0.50', size: '5' }],
+      1000
+    );
+    book.applyChange('SELL', 0.5, 0, 1001);
+    book.applyChange('BUY', 0.46, 7, 1002);
+
+    const quote = book.toQuote({ marketExternalId: 'pm-1', outcomeName: 'Yes' }, new Date())!;
+    assert.strictEqual(quote.outcomeExternalId, 'tok');
+    assert.strictEqual(quote.bestBid, 0.46);
+    assert.strictEqual(quote.bestAsk, 0.55);
+    assert.strictEqual(quote.bidSize, 7);
+    assert.ok(Math.abs(quote.price - 0.505) < 1e-9);
+    assert.strictEqual(book.lastTimestamp, 1002);
+  });
+
+  it('returns no quote for an empty book', () => {
+    const book = new PolymarketOrderBook('tok');
+    book.applySnapshot([], [], 0);
+    assert.strictEqual(book.toQuote({ marketExternalId: 'pm-1', outcomeName: 'Yes' }, new Date()), null);
+  });
+});
+
+describe('PolymarketWsClient (mock server)', () => {
+  const server = new MockWsServer();
+  let url: string;
+
+  before(async () => {
+    url = await server.listen();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it('subscribes token ids and builds quotes from book + price_change', async () => {
+    const client = new PolymarketWsClient({ url, reconnectMinMs: 20 });
+    client.setTokens([YES, { tokenId: 'tok-no', marketExternalId: 'pm-1', outcomeName: 'No' }]);
+    const base = server.connections.length;
+    client.start();
+
+    try {
+      const conn = await server.waitForConnection(base + 1);
+      const sub = (await conn.waitFor(isSubscribe)) as { assets_ids: string[] };
+      assert.deepStrictEqual(sub.assets_ids, ['tok-yes', 'tok-no']);
+
+      conn.send([
+        {
+          event_type: 'book',
+          asset_id: 'tok-yes',
+          timestamp: '1000',
+          bids: [{ price: '0.40', size: '10' }],
+          asks: [{ price: '0.45', size: '8' }],
+        },
+      ]);
+      conn.send({
+        event_type: 'price_change',
+        market: '0xabc',
+        timestamp: '1001',
+        price_changes: [{ asset_id: 'tok-yes', price: '0.42', size: '3', side: 'BUY', best_bid: '0.42', best_ask: '0.45' }],
+      });
+      conn.send({ event_type: 'last_trade_price', asset_id: 'tok-yes', price: '0.43', timestamp: '1002' });
+      await until(() => client.stats.changes === 1 && client.stats.messages === 3);
+
+      const quotes = client.drainQuotes();
+      assert.strictEqual(quotes.length, 1);
+      assert.strictEqual(quotes[0].marketExternalId, 'pm-1');
+      assert.strictEqual(quotes[0].outcomeName, 'Yes');
+      assert.strictEqual(quotes[0].outcomeExternalId, 'tok-yes');
+      assert.strictEqual(quotes[0].bestBid, 0.42);
+      assert.strictEqual(quotes[0].bestAsk, 0.45);
+
+      // Nothing changed since the drain
+      assert.strictEqual(client.drainQuotes().length, 0);
+
+      // Tokens added later are subscribed on the live connection
+      client.setTokens([YES, { tokenId: 'tok-new', marketExternalId: 'pm-2', outcomeName: 'Yes' }]);
+      const added = (await conn.waitFor((m) => (m as { operation?: string }).operation === 'subscribe')) as {
+        assets_ids: string[];
+      };
+      assert.deepStrictEqual(added.assets_ids, ['tok-new']);
+    } finally {
+      client.stop();
+    }
+  });
+
+  it('resubscribes when the local book diverges from the venue top of book', async () => {
+    const client = new PolymarketWsClient({ url, reconnectMinMs: 20 });
+    client.setTokens([YES]);
+    const base = server.connections.length;
+    client.start();
+
+    try {
+      const first = await server.waitForConnection(base + 1);
+      await first.waitFor(isSubscribe);
+      first.send({ event_type: 'book', asset_id: 'tok-yes', timestamp: '1000', bids: [{ price: '0.30', size: '1' }], asks: [] });
+      // Venue says best bid is 0.35, so an update at 0.35 was missed
+      first.send({
+        event_type: 'price_change',
+        timestamp: '1002',
+        price_changes: [{ asset_id: 'tok-yes', price: '0.31', size: '2', side: 'BUY', best_bid: '0.35', best_ask: '1' }],
+      });
+
+      const second = await server.waitForConnection(base + 2);
+      await second.waitFor(isSubscribe);
+      assert.strictEqual(client.stats.gaps, 1);
+      assert.strictEqual(client.bookCount, 0);
+
+      second.send({ event_type: 'book', asset_id: 'tok-yes', timestamp: '1003', bids: [{ price: '0.35', size: '4' }], asks: [] });
+      await until(() => client.bookCount === 1);
+      const [quote] = client.drainQuotes();
+      assert.strictEqual(quote.bestBid, 0.35);
+    } finally {
+      client.stop();
+    }
+  });
+
+  it('ignores changes older than the current snapshot', async () => {
+    const client = new PolymarketWsClient({ url, reconnectMinMs: 20 });
+    client.setTokens([YES]);
+    const base = server.connections.length;
+    client.start();
+
+    try {
+      const conn = await server.waitForConnection(base + 1);
+      await conn.waitFor(isSubscribe);
+      conn.send({ event_type: 'book', asset_id: 'tok-yes', timestamp: '2000', bids: [{ price: '0.50', size: '1' }], asks: [] });
+      conn.send({
+        event_type: 'price_change',
+        asset_id: 'tok-yes',
+        timestamp: '1500',
+        changes: [{ price: '0.60', size: '9', side: 'BUY' }],
+      });
+      await until(() => client.stats.messages === 2);
+
+      assert.strictEqual(client.stats.changes, 0);
+      const [quote] = client.drainQuotes();
+      assert.strictEqual(quote.bestBid, 0.5);
+    } finally {
+      client.stop();
+    }
+  });
+
+  it('sends PING keepalives and reconnects when the feed goes silent', async () => {
+    const client = new PolymarketWsClient({ url, reconnectMinMs: 20, pingIntervalMs: 30, staleTimeoutMs: 120 });
+    client.setTokens([YES]);
+    const base = server.connections.length;
+    client.start();
+
+    try {
+      const first = await server.waitForConnection(base + 1);
+      await first.waitFor((m) => m === 'PING');
+      // The mock never answers PING, so the client must give up on it
+      const second = await server.waitForConnection(base + 2);
+      const sub = (await second.waitFor(isSubscribe)) as { assets_ids: string[] };
+      assert.deepStrictEqual(sub.assets_ids, ['tok-yes']);
+      assert.ok(client.stats.stale >= 1);
+    } finally {
+      client.stop();
+    }
+  });
+});
@@ -0,0 +1,321 @@
+/**
+ * Polymarket CLOB market-channel websocket client (v3.2.0)
+ *
+ * Subscribes to the public market channel for a set of CLOB token ids and
+ * keeps a PolymarketOrderBook per token, built from `book` snapshots and
+ * `price_change` level updates. Callers periodically drain quotes for books
+ * that changed since the last drain.
+ *
+ * The channel has no sequence numbers, so gaps are detected indirectly:
+ * - price_change events carry the venue's best bid/ask; if the local book
+ *   disagrees after applying the change, an update was missed
+ * - a socket that stays silent past staleTimeoutMs (despite PING keepalives)
+ *   is considered dead
+ * Either case drops the connection and resubscribes, which makes Polymarket
+ * send fresh book snapshots.
+ */
+
+import { WebSocket, ProxyAgent, type MessageEvent } from 'undici';
+import type { QuoteDTO } from '@data-module/core';
+import { PolymarketOrderBook, type ClobLevel, type PolymarketTokenMapping } from './polymarket-book.js';
+
+export const POLYMARKET_WS_URL = 'wss://ws-subscriptions-clob.polymarket.com/ws/market';
+
+/** Tolerance when comparing local top of book with the venue's best bid/ask */
+const PRICE_EPSILON = 1e-9;
+
+export interface PolymarketWsToken extends PolymarketTokenMapping {
+  tokenId: string;
+}
+
+export interface PolymarketWsConfig {
+  url: string;
+  reconnectMinMs?: number;
+  reconnectMaxMs?: number;
+  /** Interval between PING keepalives (default 10s) */
+  pingIntervalMs?: number;
+  /** Reconnect if nothing is received for this long (default 30s) */
+  staleTimeoutMs?: number;
+  proxyUrl?: string;
+}
+
+export interface PolymarketWsStats {
+  connects: number;
+  messages: number;
+  snapshots: number;
+  changes: number;
+  gaps: number;
+  stale: number;
+  errors: number;
+}
+
+interface PriceChange {
+  asset_id?: string;
+  price: string;
+  size: string;
+  side: 'BUY' | 'SELL';
+  best_bid?: string;
+  best_ask?: string;
+}
+
+interface PolymarketWsEvent {
+  event_type: string;
+  asset_id?: string;
+  market?: string;
+  timestamp?: string;
+  bids?: ClobLevel[];
+  asks?: ClobLevel[];
+  /** Legacy price_change shape (single asset) */
+  changes?: PriceChange[];
+  /** Current price_change shape (per-asset entries) */
+  price_changes?: PriceChange[];
+}
+
+export class PolymarketWsClient {
+  private readonly config: Required<Omit<PolymarketWsConfig, 'proxyUrl'>> & Pick<PolymarketWsConfig, 'proxyUrl'>;
+  private readonly books = new Map<string, PolymarketOrderBook>();
+  private readonly dirty = new Set<string>();
+  private tokens = new Map<string, PolymarketTokenMapping>();
+  private socket: WebSocket | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private pingTimer: NodeJS.Timeout | null = null;
+  private reconnectDelay: number;
+  private lastReceivedAt = 0;
+  private stopped = true;
+
+  readonly stats: PolymarketWsStats = {
+    connects: 0,
+    messages: 0,
+    snapshots: 0,
+    changes: 0,
+    gaps: 0,
+    stale: 0,
+    errors: 0,
+  };
+
+  constructor(config: PolymarketWsConfig) {
+    this.config = {
+      reconnectMinMs: 1000,
+      reconnectMaxMs: 30000,
+      pingIntervalMs: 10000,
+      staleTimeoutMs: 30000,
+      ...config,
+    };
+    this.reconnectDelay = this.config.reconnectMinMs;
+  }
+
+  get connected(): boolean {
+    return this.socket !== null && this.socket.readyState === WebSocket.OPEN;
+  }
+
+  get bookCount(): number {
+    return this.books.size;
+  }
+
+  start(): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+    this.connect();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.clearPing();
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  /**
+   * Replace the subscribed token set
+   * New tokens are subscribed on the live connection; removed tokens are
+   * dropped locally and picked up again only after a reconnect.
+   */
+  setTokens(tokens: PolymarketWsToken[]): void {
+    const next = new Map<string, PolymarketTokenMapping>();
+    for (const t of tokens) {
+      next.set(t.tokenId, { marketExternalId: t.marketExternalId, outcomeName: t.outcomeName });
+    }
+    const added = [...next.keys()].filter((id) => !this.tokens.has(id));
+
+    for (const tokenId of this.tokens.keys()) {
+      if (!next.has(tokenId)) {
+        this.books.delete(tokenId);
+        this.dirty.delete(tokenId);
+      }
+    }
+    this.tokens = next;
+
+    if (this.connected && added.length > 0) {
+      this.socket?.send(JSON.stringify({ assets_ids: added, operation: 'subscribe' }));
+    }
+  }
+
+  /**
+   * Quotes for books that changed since the last call
+   */
+  drainQuotes(now: Date = new Date()): QuoteDTO[] {
+    const quotes: QuoteDTO[] = [];
+    for (const tokenId of this.dirty) {
+      const book = this.books.get(tokenId);
+      const mapping = this.tokens.get(tokenId);
+      if (!book || !mapping) continue;
+      const quote = book.toQuote(mapping, now);
+      if (quote) quotes.push(quote);
+    }
+    this.dirty.clear();
+    return quotes;
+  }
+
+  private connect(): void {
+    const socket = new WebSocket(this.config.url, {
+      dispatcher: this.config.proxyUrl ? new ProxyAgent(this.config.proxyUrl) : undefined,
+    });
+    this.socket = socket;
+
+    socket.addEventListener('open', () => {
+      this.stats.connects++;
+      this.reconnectDelay = this.config.reconnectMinMs;
+      this.lastReceivedAt = Date.now();
+      console.log(`[polymarket:ws] Connected, subscribing ${this.tokens.size} tokens`);
+      socket.send(JSON.stringify({ assets_ids: [...this.tokens.keys()], type: 'market' }));
+      this.startPing(socket);
+    });
+
+    socket.addEventListener('message', (event: MessageEvent) => {
+      this.lastReceivedAt = Date.now();
+      const data = String(event.data);
+      if (data === 'PONG') return;
+
+      this.stats.messages++;
+      try {
+        const parsed = JSON.parse(data) as PolymarketWsEvent | PolymarketWsEvent[];
+        for (const msg of Array.isArray(parsed) ? parsed : [parsed]) {
+          if (this.handleEvent(msg) === 'gap') {
+            this.detach(socket);
+            return;
+          }
+        }
+      } catch (err) {
+        this.stats.errors++;
+        console.warn(`[polymarket:ws] Bad message: ${err instanceof Error ? err.message : err}`);
+      }
+    });
+
+    socket.addEventListener('error', () => {
+      this.stats.errors++;
+    });
+
+    socket.addEventListener('close', () => this.detach(socket));
+  }
+
+  /**
+   * Forget a socket and schedule a reconnect without waiting for its close
+   * handshake (which never completes on a dead connection)
+   */
+  private detach(socket: WebSocket): void {
+    if (this.socket !== socket) return;
+    this.socket = null;
+    this.clearPing();
+    // Books are rebuilt from the snapshots sent after resubscribing
+    this.books.clear();
+    this.dirty.clear();
+    this.scheduleReconnect();
+    socket.close();
+  }
+
+  private startPing(socket: WebSocket): void {
+    this.clearPing();
+    this.pingTimer = setInterval(() => {
+      if (Date.now() - this.lastReceivedAt > this.config.staleTimeoutMs) {
+        this.stats.stale++;
+        console.warn(`[polymarket:ws] No data for ${this.config.staleTimeoutMs}ms, reconnecting`);
+        this.detach(socket);
+        return;
+      }
+      if (socket.readyState === WebSocket.OPEN) socket.send('PING');
+    }, Math.min(this.config.pingIntervalMs, this.config.staleTimeoutMs));
+  }
+
+  private clearPing(): void {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.stopped || this.reconnectTimer) return;
+    const delay = this.reconnectDelay;
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, this.config.reconnectMaxMs);
+    console.warn(`[polymarket:ws] Disconnected, reconnecting in ${delay}ms`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.stopped) this.connect();
+    }, delay);
+  }
+
+  /**
+   * Apply one event; returns 'gap' when the local book diverged from the venue
+   */
+  private handleEvent(event: PolymarketWsEvent): 'ok' | 'gap' {
+    const timestamp = parseInt(event.timestamp || '0', 10);
+
+    switch (event.event_type) {
+      case 'book': {
+        const tokenId = event.asset_id;
+        if (!tokenId || !this.tokens.has(tokenId)) return 'ok';
+        let book = this.books.get(tokenId);
+        if (!book) {
+          book = new PolymarketOrderBook(tokenId);
+          this.books.set(tokenId, book);
+        }
+        book.applySnapshot(event.bids ?? [], event.asks ?? [], timestamp);
+        this.stats.snapshots++;
+        this.dirty.add(tokenId);
+        return 'ok';
+      }
+      case 'price_change': {
+        const changes = event.price_changes ?? event.changes ?? [];
+        for (const change of changes) {
+          const tokenId = change.asset_id ?? event.asset_id;
+          // Changes before the snapshot have nothing to apply to
+          const book = tokenId ? this.books.get(tokenId) : undefined;
+          if (!tokenId || !book) continue;
+          // Late delivery of an update already covered by a newer snapshot
+          if (timestamp < book.lastTimestamp) continue;
+
+          book.applyChange(change.side, parseFloat(change.price), parseFloat(change.size), timestamp);
+          this.stats.changes++;
+          this.dirty.add(tokenId);
+
+          if (!this.matchesVenueTop(book, change)) {
+            this.stats.gaps++;
+            console.warn(`[polymarket:ws] Book for ${tokenId} diverged from venue top of book, resubscribing`);
+            return 'gap';
+          }
+        }
+        return 'ok';
+      }
+      default:
+        // last_trade_price, tick_size_change: no book changes
+        return 'ok';
+    }
+  }
+
+  private matchesVenueTop(book: PolymarketOrderBook, change: PriceChange): boolean {
+    // Empty sides are reported as 0 (bid) and 1 (ask)
+    if (change.best_bid !== undefined) {
+      const local = book.bestBid() ?? 0;
+      if (Math.abs(local - parseFloat(change.best_bid)) > PRICE_EPSILON) return false;
+    }
+    if (change.best_ask !== undefined) {
+      const local = book.bestAsk() ?? 1;
+      if (Math.abs(local - parseFloat(change.best_ask)) > PRICE_EPSILON) return false;
+    }
+    return true;
+  }
+}
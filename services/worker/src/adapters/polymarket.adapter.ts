@@ -12,6 +12,9 @@ import {
   parseRetryAfter,
 } from '@data-module/core';
 import { type VenueAdapter, type AdapterConfig, DEFAULT_ADAPTER_CONFIG } from './types.js';
+import { httpRetries } from '../metrics/instruments.js';
+import { polymarketQuoteFromLevels, parseClobLevels, type ClobLevel } from './polymarket-book.js';
+import { polymarketResolution } from './resolution.js';
 
 const GAMMA_API_BASE = 'https://gamma-api.polymarket.com';
 const CLOB_API_BASE = 'https://clob.polymarket.com';
@@ -57,6 +60,15 @@ interface GammaMarket {
   // v3.0.2: Taxonomy fields from Gamma API
   categories?: GammaCategory[] | string; // Can be JSON string or array
   tags?: GammaTag[] | string; // Can be JSON string or array
+  // v3.2.0: Settlement fields
+  closedTime?: string;
+  umaResolutionStatus?: string;
+  resolutionSource?: string;
+  resolvedBy?: string;
+  // v3.2.0: Resolution rules text (shown in the review UI)
+  description?: string;
+  // v3.2.0: Part of a negative-risk event (outcomes mutually exclusive)
+  negRisk?: boolean;
 }
 
 /**
@@ -77,8 +89,8 @@ interface ClobBook {
   market: string;
   asset_id: string;
   timestamp: string;
-  bids: Array<{ price: string; size: string }>;
-  asks: Array<{ price: string; size: string }>;
+  bids: ClobLevel[];
+  asks: ClobLevel[];
 }
 
 /**
@@ -124,6 +136,7 @@ export class PolymarketAdapter implements VenueAdapter {
         baseDelayMs: 1000,
         onRetry: (err, attempt, delayMs) => {
           console.warn(`[polymarket] fetchMarkets retry ${attempt} in ${delayMs}ms: ${err.message}`);
+          httpRetries.inc({ venue: this.venue });
         },
       }
     );
@@ -136,6 +149,44 @@ export class PolymarketAdapter implements VenueAdapter {
     return { items, nextCursor };
   }
 
+  async fetchMarketsByIds(externalIds: string[]): Promise<MarketDTO[]> {
+    const markets: MarketDTO[] = [];
+
+    // Gamma accepts repeated id params; no active/closed filter so settled markets are included
+    for (const ids of batch(externalIds, 50)) {
+      const url = new URL('/markets', this.config.baseUrl);
+      url.searchParams.set('limit', String(ids.length));
+      for (const id of ids) url.searchParams.append('id', id);
+
+      const data = await withRetry(
+        async () => {
+          const response = await this.fetchWithTimeout(url.toString());
+          if (!response.ok) {
+            const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+            throw new HttpError(
+              `Gamma API error: ${response.status} ${response.statusText}`,
+              response.status,
+              retryAfterMs ? retryAfterMs / 1000 : undefined
+            );
+          }
+          return response.json() as Promise<GammaMarket[]>;
+        },
+        {
+          maxAttempts: 5,
+          baseDelayMs: 1000,
+          onRetry: (err, attempt, delayMs) => {
+            console.warn(`[polymarket] fetchMarketsByIds retry ${attempt} in ${delayMs}ms: ${err.message}`);
+            httpRetries.inc({ venue: this.venue });
+          },
+        }
+      );
+
+      markets.push(...data.map((m) => this.mapMarket(m)));
+    }
+
+    return markets;
+  }
+
   async fetchQuotes(markets: MarketDTO[]): Promise<QuoteDTO[]> {
     const quotes: QuoteDTO[] = [];
     const now = new Date();
@@ -168,34 +219,14 @@ export class PolymarketAdapter implements VenueAdapter {
           const mapping = tokenMap.get(book.asset_id);
           if (!mapping) continue;
 
-          // Calculate mid price from best bid/ask
-          const bestBid = book.bids[0]?.price ? parseFloat(book.bids[0].price) : null;
-          const bestAsk = book.asks[0]?.price ? parseFloat(book.asks[0].price) : null;
-
-          let price: number;
-          if (bestBid !== null && bestAsk !== null) {
-            price = (bestBid + bestAsk) / 2;
-          } else if (bestBid !== null) {
-            price = bestBid;
-          } else if (bestAsk !== null) {
-            price = bestAsk;
-          } else {
-            continue; // No price available
-          }
-
-          // Calculate liquidity as sum of best bid/ask sizes
-          const bidLiquidity = book.bids[0]?.size ? parseFloat(book.bids[0].size) : 0;
-          const askLiquidity = book.asks[0]?.size ? parseFloat(book.asks[0].size) : 0;
-
-          quotes.push({
-            marketExternalId: mapping.marketExternalId,
-            outcomeExternalId: book.asset_id,
-            outcomeName: mapping.outcomeName,
-            ts: now,
-            price,
-            impliedProb: price, // For binary markets, price ≈ implied probability
-            liquidity: bidLiquidity + askLiquidity,
-          });
+          const quote = polymarketQuoteFromLevels(
+            mapping,
+            book.asset_id,
+            parseClobLevels(book.bids),
+            parseClobLevels(book.asks),
+            now
+          );
+          if (quote) quotes.push(quote);
         }
       } catch (err) {
         console.error(`[polymarket] Error fetching books batch: ${err}`);
@@ -230,6 +261,9 @@ export class PolymarketAdapter implements VenueAdapter {
       {
         maxAttempts: 5,
         baseDelayMs: 1000,
+        onRetry: () => {
+          httpRetries.inc({ venue: this.venue });
+        },
       }
     );
   }
@@ -282,13 +316,30 @@ export class PolymarketAdapter implements VenueAdapter {
       };
     });
 
+    // v3.2.0: Winning outcome once closed
+    const resolution = polymarketResolution({
+      closed: m.closed,
+      outcomePrices,
+      outcomeNames,
+      umaResolutionStatus: m.umaResolutionStatus,
+      closedTime: m.closedTime,
+      endDate: m.endDate,
+      resolutionSource: m.resolutionSource,
+      resolvedBy: m.resolvedBy,
+    });
+
     return {
       externalId: String(m.id),
       title: m.question,
       category: m.category || m.groupItemTitle,
       status,
+      statusMeta: {
+        venueStatus: m.closed ? 'closed' : m.active ? 'active' : 'inactive',
+        ...(m.umaResolutionStatus && { umaResolutionStatus: m.umaResolutionStatus }),
+      },
       closeTime: m.endDate ? new Date(m.endDate) : undefined,
       outcomes,
+      resolution,
       metadata: {
         conditionId: m.conditionId,
         slug: m.slug,
@@ -296,6 +347,11 @@ export class PolymarketAdapter implements VenueAdapter {
         liquidity: m.liquidity,
         volume: m.volume,
         groupItemTitle: m.groupItemTitle,
+        // v3.2.0: Resolution rules text
+        ...(m.description && { description: m.description }),
+        ...(m.resolutionSource && { resolutionSource: m.resolutionSource }),
+        // v3.2.0: Gates event-level probability normalization
+        ...(m.negRisk !== undefined && { negRisk: m.negRisk }),
       },
       // v3.0.2: Polymarket taxonomy fields
       pmCategories: pmCategories.length > 0 ? pmCategories : undefined,
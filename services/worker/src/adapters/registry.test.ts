@@ -0,0 +1,47 @@
+/**
+ * Tests for the venue registry (v3.2.0)
+ *
+ * Run: npx tsx --test services/worker/src/adapters/registry.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { classifyMarket, CanonicalTopic, TopicSource } from '@data-module/core';
+import { createAdapter, getSupportedVenues } from './index.js';
+import { registerVenue, getVenueDefinition } from './registry.js';
+import { ManifoldAdapter } from './manifold.adapter.js';
+import type { VenueAdapter } from './types.js';
+
+describe('venue registry', () => {
+  it('registers the built-in venues', () => {
+    assert.deepStrictEqual(getSupportedVenues().slice(0, 3), ['polymarket', 'kalshi', 'manifold']);
+    assert.ok(createAdapter('manifold') instanceof ManifoldAdapter);
+    assert.throws(() => createAdapter('nowhere'), /Unknown venue: nowhere/);
+  });
+
+  it('creates plug-in venues and wires their taxonomy rules', () => {
+    const stub: VenueAdapter = {
+      venue: 'predictit',
+      fetchMarkets: async () => ({ items: [] }),
+      fetchQuotes: async () => [],
+      fetchMarketsByIds: async () => [],
+    };
+    registerVenue({
+      venue: 'predictit',
+      displayName: 'PredictIt',
+      create: () => stub,
+      classify: (market) =>
+        market.category === 'US Elections'
+          ? { topic: CanonicalTopic.ELECTIONS, confidence: 0.9, source: TopicSource.CATEGORY }
+          : { topic: CanonicalTopic.UNKNOWN, confidence: 0, source: TopicSource.FALLBACK },
+    });
+
+    assert.strictEqual(createAdapter('predictit'), stub);
+    assert.ok(getSupportedVenues().includes('predictit'));
+    assert.strictEqual(getVenueDefinition('predictit')?.displayName, 'PredictIt');
+    assert.strictEqual(
+      classifyMarket({ venue: 'predictit', title: 'Which party wins the House?', category: 'US Elections' }).topic,
+      CanonicalTopic.ELECTIONS
+    );
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Venue Registry (v3.2.0)
+ *
+ * Maps a venue id to its adapter factory and, optionally, its taxonomy
+ * rules. Adding a venue means implementing VenueAdapter and calling
+ * registerVenue(); ingestion, quotes and resolutions:sync go through
+ * createAdapter() and need no per-venue code. Venue is stored as text in
+ * the DB, so no migration is needed either.
+ */
+
+import { registerVenueClassifier, type Venue, type VenueClassifier } from '@data-module/core';
+import type { VenueAdapter, AdapterConfig } from './types.js';
+import { PolymarketAdapter } from './polymarket.adapter.js';
+import { KalshiAdapter, type KalshiAuthConfig } from './kalshi.adapter.js';
+import { ManifoldAdapter } from './manifold.adapter.js';
+
+export interface CreateAdapterOptions {
+  config?: AdapterConfig;
+  kalshiAuth?: KalshiAuthConfig;
+}
+
+/**
+ * A pluggable venue
+ */
+export interface VenueDefinition {
+  venue: Venue;
+  displayName: string;
+  create: (options: CreateAdapterOptions) => VenueAdapter;
+  /**
+   * Venue-specific taxonomy rules for classifyMarket.
+   * Venues without one are classified by title keywords only.
+   */
+  classify?: VenueClassifier;
+}
+
+const venues = new Map<Venue, VenueDefinition>();
+
+/**
+ * Register (or replace) a venue
+ */
+export function registerVenue(definition: VenueDefinition): void {
+  venues.set(definition.venue, definition);
+  if (definition.classify) {
+    registerVenueClassifier(definition.venue, definition.classify);
+  }
+}
+
+/**
+ * Get a registered venue, or undefined
+ */
+export function getVenueDefinition(venue: Venue): VenueDefinition | undefined {
+  return venues.get(venue);
+}
+
+/**
+ * All registered venues, in registration order
+ */
+export function getRegisteredVenues(): Venue[] {
+  return [...venues.keys()];
+}
+
+// Built-in venues (taxonomy rules for these live in core)
+registerVenue({
+  venue: 'polymarket',
+  displayName: 'Polymarket',
+  create: ({ config }) => new PolymarketAdapter(config),
+});
+registerVenue({
+  venue: 'kalshi',
+  displayName: 'Kalshi',
+  create: ({ config, kalshiAuth }) => new KalshiAdapter(config, kalshiAuth),
+});
+registerVenue({
+  venue: 'manifold',
+  displayName: 'Manifold',
+  create: ({ config }) => new ManifoldAdapter(config),
+});
@@ -0,0 +1,132 @@
+/**
+ * Tests for venue resolution mapping (v3.2.0)
+ *
+ * Run: npx tsx --test services/worker/src/adapters/resolution.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { kalshiResolution, polymarketResolution, manifoldResolution, parseGammaTime } from './resolution.js';
+
+describe('kalshiResolution', () => {
+  it('returns undefined while the market is trading', () => {
+    assert.strictEqual(kalshiResolution({ status: 'open', result: '' }), undefined);
+  });
+
+  it('maps a settled YES result', () => {
+    const r = kalshiResolution({
+      status: 'settled',
+      result: 'yes',
+      settlement_value: 100,
+      settlement_ts: '2026-10-01T12:00:00Z',
+      close_time: '2026-10-01T10:00:00Z',
+    })!;
+    assert.strictEqual(r.status, 'resolved');
+    assert.strictEqual(r.winningOutcome, 'Yes');
+    assert.strictEqual(r.winningSide, 'yes');
+    assert.strictEqual(r.settlementValue, 1);
+    assert.strictEqual(r.resolvedAt?.toISOString(), '2026-10-01T12:00:00.000Z');
+    assert.strictEqual(r.source, 'kalshi:result');
+  });
+
+  it('stores the NO payout for a settled NO result', () => {
+    const r = kalshiResolution({ status: 'settled', result: 'no', settlement_value: 0 })!;
+    assert.strictEqual(r.winningSide, 'no');
+    assert.strictEqual(r.settlementValue, 1);
+    assert.strictEqual(r.raw?.settlementValue, 0);
+    assert.strictEqual(kalshiResolution({ status: 'settled', result: 'no' })!.settlementValue, 1);
+  });
+
+  it('is pending when closed without a result', () => {
+    const r = kalshiResolution({ status: 'closed', result: '' })!;
+    assert.strictEqual(r.status, 'pending');
+    assert.strictEqual(r.winningOutcome, undefined);
+  });
+
+  it('maps void results', () => {
+    assert.strictEqual(kalshiResolution({ status: 'finalized', result: 'void' })?.status, 'void');
+  });
+});
+
+describe('polymarketResolution', () => {
+  const base = { closed: true, outcomeNames: ['Yes', 'No'] };
+
+  it('returns undefined for open markets', () => {
+    assert.strictEqual(polymarketResolution({ ...base, closed: false, outcomePrices: ['0.4', '0.6'] }), undefined);
+  });
+
+  it('picks the outcome pinned to 1 after UMA resolution', () => {
+    const r = polymarketResolution({
+      ...base,
+      outcomePrices: ['0', '1'],
+      umaResolutionStatus: 'resolved',
+      closedTime: '2026-10-02 08:30:00+00',
+    })!;
+    assert.strictEqual(r.status, 'resolved');
+    assert.strictEqual(r.winningOutcome, 'No');
+    assert.strictEqual(r.winningSide, 'no');
+    assert.strictEqual(r.source, 'polymarket:uma');
+    assert.strictEqual(r.resolvedAt?.toISOString(), '2026-10-02T08:30:00.000Z');
+  });
+
+  it('is pending while a UMA proposal can be disputed', () => {
+    const r = polymarketResolution({ ...base, outcomePrices: ['1', '0'], umaResolutionStatus: 'proposed' })!;
+    assert.strictEqual(r.status, 'pending');
+  });
+
+  it('treats a 50-50 settlement as void', () => {
+    const r = polymarketResolution({ ...base, outcomePrices: ['0.5', '0.5'], umaResolutionStatus: 'resolved' })!;
+    assert.strictEqual(r.status, 'void');
+    assert.strictEqual(r.settlementValue, 0.5);
+  });
+
+  it('falls back to prices when no UMA status is reported', () => {
+    const r = polymarketResolution({ closed: true, outcomeNames: ['Lakers', 'Celtics'], outcomePrices: ['1', '0'] })!;
+    assert.strictEqual(r.winningOutcome, 'Lakers');
+    assert.strictEqual(r.winningSide, 'other');
+    assert.strictEqual(r.source, 'polymarket:prices');
+  });
+
+  it('is pending when prices are not decisive', () => {
+    assert.strictEqual(polymarketResolution({ ...base, outcomePrices: ['0.93', '0.07'] })?.status, 'pending');
+  });
+});
+
+describe('manifoldResolution', () => {
+  const now = new Date('2026-10-10T00:00:00Z');
+  const closeTime = Date.parse('2026-10-01T00:00:00Z');
+
+  it('returns undefined before close', () => {
+    assert.strictEqual(manifoldResolution({ isResolved: false, closeTime: Date.parse('2026-11-01T00:00:00Z') }, now), undefined);
+  });
+
+  it('is pending when closed but not resolved', () => {
+    assert.strictEqual(manifoldResolution({ isResolved: false, closeTime }, now)?.status, 'pending');
+  });
+
+  it('maps YES / NO resolutions', () => {
+    const r = manifoldResolution({ isResolved: true, resolution: 'NO', resolutionTime: closeTime, closeTime }, now)!;
+    assert.strictEqual(r.status, 'resolved');
+    assert.strictEqual(r.winningOutcome, 'No');
+    assert.strictEqual(r.winningSide, 'no');
+    assert.strictEqual(r.resolvedAt?.toISOString(), '2026-10-01T00:00:00.000Z');
+    assert.strictEqual(r.source, 'manifold:resolution');
+  });
+
+  it('maps CANCEL to void and MKT to a partial payout', () => {
+    assert.strictEqual(manifoldResolution({ isResolved: true, resolution: 'CANCEL' }, now)?.status, 'void');
+    const mkt = manifoldResolution({ isResolved: true, resolution: 'MKT', resolutionProbability: 0.37 }, now)!;
+    assert.strictEqual(mkt.status, 'resolved');
+    assert.strictEqual(mkt.winningOutcome, undefined);
+    assert.strictEqual(mkt.settlementValue, 0.37);
+  });
+});
+
+describe('parseGammaTime', () => {
+  it('accepts ISO and Postgres text timestamps', () => {
+    assert.strictEqual(parseGammaTime('2026-10-02T08:30:00Z')?.toISOString(), '2026-10-02T08:30:00.000Z');
+    assert.strictEqual(parseGammaTime('2026-10-02 08:30:00+00')?.toISOString(), '2026-10-02T08:30:00.000Z');
+    assert.strictEqual(parseGammaTime('not a date'), undefined);
+    assert.strictEqual(parseGammaTime(undefined), undefined);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Venue settlement -> MarketResolutionDTO mapping (v3.2.0)
+ *
+ * Used by every adapter's mapMarket so that ingestion and resolutions:sync
+ * derive the winning outcome the same way.
+ */
+
+import type { MarketResolutionDTO } from '@data-module/core';
+
+/** Outcome prices at or above this are treated as paid out (Polymarket reports "1" / "0") */
+const WINNER_PRICE = 0.99;
+/** Polymarket settles unresolvable markets 50-50 */
+const VOID_PRICE = 0.5;
+const PRICE_EPSILON = 0.01;
+
+/**
+ * Kalshi market fields relevant to settlement
+ */
+export interface KalshiResolutionFields {
+  status: string;
+  result?: string;
+  settlement_value?: number;
+  settlement_ts?: string;
+  expiration_time?: string;
+  close_time?: string;
+}
+
+/**
+ * Gamma market fields relevant to settlement
+ */
+export interface GammaResolutionFields {
+  closed: boolean;
+  outcomePrices: string[];
+  outcomeNames: string[];
+  umaResolutionStatus?: string;
+  closedTime?: string;
+  endDate?: string;
+  resolutionSource?: string;
+  resolvedBy?: string;
+}
+
+/**
+ * Manifold market fields relevant to settlement (times are epoch ms)
+ */
+export interface ManifoldResolutionFields {
+  isResolved: boolean;
+  resolution?: string;
+  resolutionTime?: number;
+  resolutionProbability?: number;
+  closeTime?: number;
+}
+
+/**
+ * Parse Gamma timestamps, which come either as ISO strings or as
+ * "2024-11-06 04:38:56+00" (Postgres text format)
+ */
+export function parseGammaTime(value: string | undefined): Date | undefined {
+  if (!value) return undefined;
+  const normalized = value.includes('T')
+    ? value
+    : value.replace(' ', 'T').replace(/([+-]\d{2})$/, '$1:00');
+  const date = new Date(normalized);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Resolution for a Kalshi market, or undefined while it is still trading
+ *
+ * result is "yes"/"no" once determined, "" while pending; settlement_value
+ * is in cents per YES contract.
+ */
+export function kalshiResolution(m: KalshiResolutionFields): MarketResolutionDTO | undefined {
+  if (!['closed', 'determined', 'settled', 'finalized'].includes(m.status)) return undefined;
+
+  const result = (m.result || '').toLowerCase();
+  const resolvedAt = [m.settlement_ts, m.expiration_time, m.close_time]
+    .map((v) => (v ? new Date(v) : undefined))
+    .find((d) => d && !isNaN(d.getTime()));
+  const raw = { status: m.status, result: m.result ?? null, settlementValue: m.settlement_value ?? null };
+
+  if (result === 'yes' || result === 'no') {
+    // settlementValue is the winning side's payout; a NO contract pays what YES doesn't
+    const yesPayout = m.settlement_value !== undefined ? m.settlement_value / 100 : result === 'yes' ? 1 : 0;
+    return {
+      status: 'resolved',
+      winningOutcome: result === 'yes' ? 'Yes' : 'No',
+      winningSide: result,
+      settlementValue: result === 'yes' ? yesPayout : 1 - yesPayout,
+      resolvedAt,
+      source: 'kalshi:result',
+      raw,
+    };
+  }
+
+  if (result === 'void') {
+    return { status: 'void', resolvedAt, source: 'kalshi:result', raw };
+  }
+
+  if (result === 'scalar' && m.settlement_value !== undefined) {
+    // Scalar markets pay YES settlement_value cents; no single winner
+    return {
+      status: 'resolved',
+      settlementValue: m.settlement_value / 100,
+      resolvedAt,
+      source: 'kalshi:result',
+      raw,
+    };
+  }
+
+  return { status: 'pending', source: 'kalshi:result', raw };
+}
+
+/**
+ * Resolution for a Polymarket market, or undefined while it is still trading
+ *
+ * Gamma has no explicit winner field: after UMA resolution the winning
+ * outcome's price is pinned to 1 (or every outcome to 0.5 for a 50-50).
+ */
+export function polymarketResolution(m: GammaResolutionFields): MarketResolutionDTO | undefined {
+  if (!m.closed) return undefined;
+
+  const prices = m.outcomePrices.map((p) => parseFloat(p));
+  const umaStatus = m.umaResolutionStatus?.toLowerCase();
+  const source = umaStatus ? 'polymarket:uma' : 'polymarket:prices';
+  const raw = {
+    outcomePrices: m.outcomePrices,
+    umaResolutionStatus: m.umaResolutionStatus ?? null,
+    resolutionSource: m.resolutionSource ?? null,
+    resolvedBy: m.resolvedBy ?? null,
+  };
+
+  // A proposal can still be disputed; prices are not final
+  if (umaStatus && umaStatus !== 'resolved') {
+    return { status: 'pending', source, raw };
+  }
+
+  const resolvedAt = parseGammaTime(m.closedTime) ?? parseGammaTime(m.endDate);
+  const winners = prices
+    .map((price, i) => ({ price, i }))
+    .filter(({ price }) => price >= WINNER_PRICE);
+
+  if (winners.length === 1 && m.outcomeNames[winners[0].i] !== undefined) {
+    const name = m.outcomeNames[winners[0].i];
+    const lower = name.toLowerCase();
+    return {
+      status: 'resolved',
+      winningOutcome: name,
+      winningSide: lower === 'yes' ? 'yes' : lower === 'no' ? 'no' : 'other',
+      settlementValue: 1,
+      resolvedAt,
+      source,
+      raw,
+    };
+  }
+
+  if (prices.length > 0 && prices.every((price) => Math.abs(price - VOID_PRICE) < PRICE_EPSILON)) {
+    return { status: 'void', settlementValue: VOID_PRICE, resolvedAt, source, raw };
+  }
+
+  return { status: 'pending', source, raw };
+}
+
+/**
+ * Resolution for a Manifold binary market, or undefined while it is still trading
+ *
+ * resolution is YES / NO, CANCEL (N/A, mana refunded) or MKT, which pays
+ * YES at resolutionProbability.
+ */
+export function manifoldResolution(m: ManifoldResolutionFields, now: Date = new Date()): MarketResolutionDTO | undefined {
+  const closed = m.closeTime !== undefined && m.closeTime <= now.getTime();
+  if (!m.isResolved && !closed) return undefined;
+
+  const raw = {
+    isResolved: m.isResolved,
+    resolution: m.resolution ?? null,
+    resolutionProbability: m.resolutionProbability ?? null,
+  };
+  if (!m.isResolved) {
+    return { status: 'pending', source: 'manifold:resolution', raw };
+  }
+
+  const resolvedAt = m.resolutionTime !== undefined ? new Date(m.resolutionTime) : undefined;
+  const resolution = (m.resolution || '').toUpperCase();
+
+  if (resolution === 'YES' || resolution === 'NO') {
+    return {
+      status: 'resolved',
+      winningOutcome: resolution === 'YES' ? 'Yes' : 'No',
+      winningSide: resolution === 'YES' ? 'yes' : 'no',
+      settlementValue: 1,
+      resolvedAt,
+      source: 'manifold:resolution',
+      raw,
+    };
+  }
+
+  if (resolution === 'CANCEL') {
+    return { status: 'void', resolvedAt, source: 'manifold:resolution', raw };
+  }
+
+  if (resolution === 'MKT' && m.resolutionProbability !== undefined) {
+    // Partial payout; no single winner
+    return {
+      status: 'resolved',
+      settlementValue: m.resolutionProbability,
+      resolvedAt,
+      source: 'manifold:resolution',
+      raw,
+    };
+  }
+
+  return { status: 'pending', source: 'manifold:resolution', raw };
+}
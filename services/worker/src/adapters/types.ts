@@ -20,6 +20,12 @@ export interface VenueAdapter {
    * Fetch current quotes for given markets
    */
   fetchQuotes(markets: MarketDTO[]): Promise<QuoteDTO[]>;
+
+  /**
+   * Fetch specific markets by external id, regardless of status (v3.2.0)
+   * Used to refresh closed markets for resolution capture
+   */
+  fetchMarketsByIds(externalIds: string[]): Promise<MarketDTO[]>;
 }
 
 /**
@@ -0,0 +1,214 @@
+/**
+ * Tests for the alert engine (v3.2.0)
+ *
+ * Run: npx tsx --test services/worker/src/alerts/engine.test.ts
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import type { AlertEventInput, StaleWatchlistMarket } from '@data-module/db';
+import type { QuoteUpdate } from '../stream/index.js';
+import { HttpSinkServer } from '../test-utils/http-sink-server.js';
+import { AlertEngine, type AlertDataSource, type AlertRuleRow, type AlertStore } from './engine.js';
+import type { SuggestionSummary } from './rules.js';
+
+const T0 = new Date('2026-10-19T12:00:00Z').getTime();
+
+function makeUpdate(minute: number, prob: number, overrides: Partial<QuoteUpdate> = {}): QuoteUpdate {
+  const ts = new Date(T0 + minute * 60 * 1000);
+  return {
+    marketId: 1,
+    venue: 'kalshi',
+    derivedTopic: 'RATES',
+    outcomeId: 10,
+    outcomeName: 'Yes',
+    side: 'yes',
+    ts,
+    price: prob,
+    impliedProb: prob,
+    bestBid: null,
+    bestAsk: null,
+    bidSize: null,
+    askSize: null,
+    spread: null,
+    liquidity: null,
+    volume: null,
+    updatedAt: ts,
+    ...overrides,
+  };
+}
+
+class MemoryStore implements AlertStore {
+  readonly events: AlertEventInput[] = [];
+
+  async getLastFired(ruleId: number, dedupKeys: string[]): Promise<Map<string, Date>> {
+    const result = new Map<string, Date>();
+    for (const e of this.events) {
+      if (e.ruleId === ruleId && dedupKeys.includes(e.dedupKey)) result.set(e.dedupKey, e.firedAt!);
+    }
+    return result;
+  }
+
+  async recordEvent(input: AlertEventInput): Promise<unknown> {
+    this.events.push(input);
+    return input;
+  }
+}
+
+function makeSource(overrides: Partial<AlertDataSource> = {}): AlertDataSource {
+  return {
+    getLinksForMarkets: async () => [],
+    getStaleWatchlist: async () => [],
+    getSuggestionsSince: async () => [],
+    ...overrides,
+  };
+}
+
+describe('AlertEngine', () => {
+  const sinkServer = new HttpSinkServer();
+  let baseUrl = '';
+
+  before(async () => {
+    baseUrl = await sinkServer.listen();
+  });
+
+  after(async () => {
+    await sinkServer.close();
+  });
+
+  it('delivers price jumps to the webhook and honors the cooldown', async () => {
+    let now = T0;
+    const store = new MemoryStore();
+    const engine = new AlertEngine({ source: makeSource(), store, now: () => new Date(now) });
+    const rule: AlertRuleRow = {
+      id: 1,
+      name: 'fed-jumps',
+      type: 'price_jump',
+      params: { threshold: 0.1, windowMinutes: 15 },
+      sinks: [{ type: 'webhook', url: `${baseUrl}/jump` }],
+      cooldownSec: 600,
+    };
+    assert.deepStrictEqual(engine.setRules([rule]), []);
+
+    assert.strictEqual((await engine.onQuotes([makeUpdate(0, 0.4)])).length, 0);
+    now = T0 + 5 * 60 * 1000;
+    const fired = await engine.onQuotes([makeUpdate(5, 0.55)]);
+    assert.strictEqual(fired.length, 1);
+    assert.deepStrictEqual(fired[0].deliveries, [{ sink: `webhook:${new URL(baseUrl).host}`, ok: true }]);
+
+    const [body] = sinkServer.jsonBodies('/jump') as Array<{ rule: string; dedupKey: string }>;
+    assert.strictEqual(body.rule, 'fed-jumps');
+    assert.strictEqual(body.dedupKey, 'outcome:10');
+
+    // A repeat of the same write is ignored; a further jump is inside the cooldown
+    assert.strictEqual((await engine.onQuotes([makeUpdate(5, 0.55)])).length, 0);
+    now = T0 + 8 * 60 * 1000;
+    assert.strictEqual((await engine.onQuotes([makeUpdate(8, 0.75)])).length, 0);
+
+    now = T0 + 16 * 60 * 1000;
+    assert.strictEqual((await engine.onQuotes([makeUpdate(16, 0.4)])).length, 1);
+    assert.strictEqual(sinkServer.jsonBodies('/jump').length, 2);
+    assert.strictEqual(store.events.length, 2);
+  });
+
+  it('reads the cooldown from the store after a restart', async () => {
+    const store = new MemoryStore();
+    store.events.push({
+      ruleId: 2,
+      dedupKey: 'market:5',
+      title: 'x',
+      message: 'x',
+      deliveries: [],
+      firedAt: new Date(T0 - 60 * 1000),
+    });
+    const stale: StaleWatchlistMarket[] = [
+      { marketId: 5, venue: 'kalshi', priority: 1, title: 'A', lastQuoteAt: null },
+      { marketId: 6, venue: 'kalshi', priority: 1, title: 'B', lastQuoteAt: new Date(T0 - 3600 * 1000) },
+    ];
+    const engine = new AlertEngine({
+      source: makeSource({ getStaleWatchlist: async () => stale }),
+      store,
+      now: () => new Date(T0),
+    });
+    engine.setRules([
+      {
+        id: 2,
+        name: 'stale',
+        type: 'watchlist_stale',
+        params: { maxAgeMinutes: 30 },
+        sinks: [{ type: 'webhook', url: `${baseUrl}/stale` }],
+        cooldownSec: 3600,
+      },
+    ]);
+
+    const fired = await engine.runPeriodic();
+    assert.deepStrictEqual(fired.map((f) => f.candidate.dedupKey), ['market:6']);
+  });
+
+  it('alerts on each new suggestion once', async () => {
+    let now = T0;
+    const suggestion: SuggestionSummary = {
+      id: 42,
+      score: 0.97,
+      topic: 'RATES',
+      createdAt: new Date(T0 + 1000),
+      leftMarket: { id: 1, title: 'A' },
+      rightMarket: { id: 2, title: 'B' },
+    };
+    const engine = new AlertEngine({
+      source: makeSource({ getSuggestionsSince: async (_params, since) => (suggestion.createdAt >= since ? [suggestion] : []) }),
+      store: new MemoryStore(),
+      now: () => new Date(now),
+    });
+    engine.setRules([
+      {
+        id: 3,
+        name: 'suggestions',
+        type: 'new_suggestion',
+        params: { minScore: 0.95 },
+        sinks: [{ type: 'webhook', url: `${baseUrl}/suggest` }],
+        cooldownSec: 0,
+      },
+    ]);
+
+    now = T0 + 60 * 1000;
+    assert.strictEqual((await engine.runPeriodic()).length, 1);
+    now = T0 + 120 * 1000;
+    assert.strictEqual((await engine.runPeriodic()).length, 0);
+  });
+
+  it('records failed deliveries and skips invalid rules', async () => {
+    const store = new MemoryStore();
+    const engine = new AlertEngine({
+      source: makeSource({
+        getStaleWatchlist: async () => [{ marketId: 9, venue: 'kalshi', priority: 0, title: 'C', lastQuoteAt: null }],
+      }),
+      store,
+      now: () => new Date(T0),
+    });
+    const errors = engine.setRules([
+      { id: 4, name: 'bad', type: 'price_jump', params: {}, sinks: [{ type: 'webhook', url: baseUrl }], cooldownSec: 0 },
+      { id: 5, name: 'nosink', type: 'watchlist_stale', params: { maxAgeMinutes: 5 }, sinks: [{ type: 'pager' }], cooldownSec: 0 },
+      {
+        id: 6,
+        name: 'stale',
+        type: 'watchlist_stale',
+        params: { maxAgeMinutes: 5 },
+        sinks: [{ type: 'webhook', url: `${baseUrl}/ok` }],
+        cooldownSec: 0,
+      },
+    ]);
+    assert.strictEqual(errors.length, 2);
+    assert.strictEqual(engine.ruleCount, 1);
+
+    sinkServer.status = 503;
+    try {
+      const [fired] = await engine.runPeriodic();
+      assert.strictEqual(fired.deliveries[0].ok, false);
+      assert.match(fired.deliveries[0].error!, /HTTP 503/);
+      assert.strictEqual(store.events[0].deliveries[0].ok, false);
+    } finally {
+      sinkServer.status = 200;
+    }
+  });
+});
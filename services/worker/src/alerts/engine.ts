@@ -0,0 +1,270 @@
+/**
+ * Alert engine - evaluates rules and delivers what fires (v3.2.0)
+ *
+ * Quote-driven rules (price_jump, link_divergence) run on every batch of
+ * quote writes; watchlist_stale and new_suggestion run on a timer. Before
+ * delivery, candidates are deduped by (rule, dedupKey) and dropped while
+ * that key is inside the rule's cooldown - the last fire time is kept in
+ * memory and falls back to alert_events after a restart.
+ */
+
+import type { AlertEventInput, AlertDelivery, AlertRule, LinkWithQuotes, StaleWatchlistMarket } from '@data-module/db';
+import type { QuoteUpdate } from '../stream/index.js';
+import {
+  parseAlertRule,
+  PriceWindow,
+  evaluatePriceJump,
+  evaluateLinkDivergence,
+  evaluateWatchlistStale,
+  evaluateNewSuggestions,
+  type AlertCandidate,
+  type AlertRuleSpec,
+  type NewSuggestionParams,
+  type SuggestionSummary,
+  type WatchlistStaleParams,
+} from './rules.js';
+import { createAlertSink, type AlertMessage, type AlertSink } from './sinks.js';
+
+/**
+ * Reads the periodic and divergence rules need
+ */
+export interface AlertDataSource {
+  getLinksForMarkets(marketIds: number[]): Promise<LinkWithQuotes[]>;
+  getStaleWatchlist(params: WatchlistStaleParams, cutoff: Date): Promise<StaleWatchlistMarket[]>;
+  getSuggestionsSince(params: NewSuggestionParams, since: Date): Promise<SuggestionSummary[]>;
+}
+
+/**
+ * Fired alert log (AlertRepository)
+ */
+export interface AlertStore {
+  getLastFired(ruleId: number, dedupKeys: string[]): Promise<Map<string, Date>>;
+  recordEvent(input: AlertEventInput): Promise<unknown>;
+}
+
+export interface AlertEngineOptions {
+  source: AlertDataSource;
+  store: AlertStore;
+  sinkFactory?: typeof createAlertSink;
+  now?: () => Date;
+  /** Re-read window for new suggestions, so late commits aren't missed (default: 5 min) */
+  suggestionOverlapMs?: number;
+}
+
+export interface FiredAlert {
+  rule: AlertRuleSpec;
+  candidate: AlertCandidate;
+  deliveries: AlertDelivery[];
+}
+
+export type AlertRuleRow = Pick<AlertRule, 'id' | 'name' | 'type' | 'params' | 'sinks' | 'cooldownSec'>;
+
+interface LoadedRule {
+  spec: AlertRuleSpec;
+  sinks: AlertSink[];
+}
+
+export class AlertEngine {
+  private rules: LoadedRule[] = [];
+  private window = new PriceWindow(0);
+  private windowMs = 0;
+  private readonly lastSeen = new Map<number, number>();
+  private readonly lastFired = new Map<string, number>();
+  private readonly suggestionCursors = new Map<number, Date>();
+  private readonly seenSuggestions = new Map<number, Map<number, number>>();
+  private readonly source: AlertDataSource;
+  private readonly store: AlertStore;
+  private readonly sinkFactory: typeof createAlertSink;
+  private readonly now: () => Date;
+  private readonly suggestionOverlapMs: number;
+  private readonly startedAt: Date;
+
+  constructor(options: AlertEngineOptions) {
+    this.source = options.source;
+    this.store = options.store;
+    this.sinkFactory = options.sinkFactory ?? createAlertSink;
+    this.now = options.now ?? (() => new Date());
+    this.suggestionOverlapMs = options.suggestionOverlapMs ?? 5 * 60 * 1000;
+    this.startedAt = this.now();
+  }
+
+  get ruleCount(): number {
+    return this.rules.length;
+  }
+
+  /**
+   * Replace the active rules
+   * @returns One message per rule that failed validation and was skipped
+   */
+  setRules(rows: AlertRuleRow[]): string[] {
+    const errors: string[] = [];
+    const loaded: LoadedRule[] = [];
+    for (const row of rows) {
+      try {
+        const spec = parseAlertRule(row);
+        loaded.push({ spec, sinks: spec.sinks.map((s) => this.sinkFactory(s)) });
+      } catch (error) {
+        errors.push(`${row.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    this.rules = loaded;
+
+    // The price window must cover the longest price_jump window
+    const windowMs = Math.max(
+      0,
+      ...loaded.map((r) => (r.spec.type === 'price_jump' ? r.spec.params.windowMinutes * 60 * 1000 : 0))
+    );
+    if (windowMs > this.windowMs) {
+      this.window = new PriceWindow(windowMs);
+      this.windowMs = windowMs;
+    }
+    return errors;
+  }
+
+  /**
+   * Evaluate quote-driven rules against a batch of quote writes. Updates
+   * already seen (same outcome, same updatedAt) are ignored.
+   */
+  async onQuotes(updates: QuoteUpdate[]): Promise<FiredAlert[]> {
+    const fresh: QuoteUpdate[] = [];
+    for (const update of updates) {
+      const updatedAt = update.updatedAt.getTime();
+      const previous = this.lastSeen.get(update.outcomeId);
+      if (previous !== undefined && previous >= updatedAt) continue;
+      this.lastSeen.set(update.outcomeId, updatedAt);
+      fresh.push(update);
+      if (this.windowMs > 0) this.window.record(update.outcomeId, update.ts, update.impliedProb);
+    }
+    if (fresh.length === 0) return [];
+
+    const fired: FiredAlert[] = [];
+    const divergenceRules = this.rules.filter((r) => r.spec.type === 'link_divergence');
+    const links =
+      divergenceRules.length > 0 ? await this.source.getLinksForMarkets([...new Set(fresh.map((u) => u.marketId))]) : [];
+    const now = this.now();
+
+    for (const rule of this.rules) {
+      const { spec } = rule;
+      const candidates: AlertCandidate[] = [];
+      if (spec.type === 'price_jump') {
+        for (const update of fresh) {
+          const candidate = evaluatePriceJump(spec.params, update, this.window);
+          if (candidate) candidates.push(candidate);
+        }
+      } else if (spec.type === 'link_divergence') {
+        for (const link of links) {
+          const candidate = evaluateLinkDivergence(spec.params, link, now);
+          if (candidate) candidates.push(candidate);
+        }
+      }
+      if (candidates.length > 0) fired.push(...(await this.fire(rule, candidates)));
+    }
+    return fired;
+  }
+
+  /**
+   * Evaluate timer-driven rules (watchlist_stale, new_suggestion)
+   */
+  async runPeriodic(): Promise<FiredAlert[]> {
+    const fired: FiredAlert[] = [];
+    for (const rule of this.rules) {
+      const { spec } = rule;
+      let candidates: AlertCandidate[] = [];
+      if (spec.type === 'watchlist_stale') {
+        const cutoff = new Date(this.now().getTime() - spec.params.maxAgeMinutes * 60 * 1000);
+        candidates = evaluateWatchlistStale(spec.params, await this.source.getStaleWatchlist(spec.params, cutoff));
+      } else if (spec.type === 'new_suggestion') {
+        candidates = evaluateNewSuggestions(spec.params, await this.newSuggestions(spec.id, spec.params));
+      }
+      if (candidates.length > 0) fired.push(...(await this.fire(rule, candidates)));
+    }
+    return fired;
+  }
+
+  /**
+   * Drop repeat-detection marks older than the cutoff, and price history
+   * that has also fallen out of the longest price_jump window
+   */
+  prune(cutoff: Date): void {
+    this.window.prune(new Date(cutoff.getTime() - this.windowMs));
+    for (const [outcomeId, updatedAt] of this.lastSeen) {
+      if (updatedAt < cutoff.getTime()) this.lastSeen.delete(outcomeId);
+    }
+  }
+
+  /**
+   * Suggestions created since the rule last looked, each returned once
+   */
+  private async newSuggestions(ruleId: number, params: NewSuggestionParams): Promise<SuggestionSummary[]> {
+    const queriedAt = this.now();
+    const cursor = this.suggestionCursors.get(ruleId) ?? this.startedAt;
+    const seen = this.seenSuggestions.get(ruleId) ?? new Map<number, number>();
+
+    const since = new Date(Math.max(this.startedAt.getTime(), cursor.getTime() - this.suggestionOverlapMs));
+    const suggestions = (await this.source.getSuggestionsSince(params, since)).filter((s) => !seen.has(s.id));
+    for (const s of suggestions) seen.set(s.id, s.createdAt.getTime());
+
+    for (const [id, createdAt] of seen) {
+      if (createdAt < since.getTime()) seen.delete(id);
+    }
+    this.suggestionCursors.set(ruleId, queriedAt);
+    this.seenSuggestions.set(ruleId, seen);
+    return suggestions;
+  }
+
+  private async fire(rule: LoadedRule, candidates: AlertCandidate[]): Promise<FiredAlert[]> {
+    const { spec } = rule;
+    const now = this.now();
+    const cooldownMs = spec.cooldownSec * 1000;
+
+    // One alert per key per batch: keep the latest candidate
+    const byKey = new Map<string, AlertCandidate>();
+    for (const c of candidates) byKey.set(c.dedupKey, c);
+
+    const unknown = [...byKey.keys()].filter((key) => !this.lastFired.has(`${spec.id}|${key}`));
+    if (unknown.length > 0 && cooldownMs > 0) {
+      const stored = await this.store.getLastFired(spec.id, unknown);
+      for (const [key, firedAt] of stored) this.lastFired.set(`${spec.id}|${key}`, firedAt.getTime());
+    }
+
+    const fired: FiredAlert[] = [];
+    for (const candidate of byKey.values()) {
+      const last = this.lastFired.get(`${spec.id}|${candidate.dedupKey}`);
+      if (last !== undefined && now.getTime() - last < cooldownMs) continue;
+      this.lastFired.set(`${spec.id}|${candidate.dedupKey}`, now.getTime());
+
+      const message: AlertMessage = {
+        ruleId: spec.id,
+        rule: spec.name,
+        type: spec.type,
+        dedupKey: candidate.dedupKey,
+        title: candidate.title,
+        message: candidate.message,
+        firedAt: now,
+        data: candidate.data,
+      };
+      const results = await Promise.allSettled(rule.sinks.map((sink) => sink.send(message)));
+      const deliveries: AlertDelivery[] = results.map((result, i) =>
+        result.status === 'fulfilled'
+          ? { sink: rule.sinks[i].name, ok: true }
+          : {
+              sink: rule.sinks[i].name,
+              ok: false,
+              error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+            }
+      );
+
+      await this.store.recordEvent({
+        ruleId: spec.id,
+        dedupKey: candidate.dedupKey,
+        title: candidate.title,
+        message: candidate.message,
+        data: candidate.data,
+        deliveries,
+        firedAt: now,
+      });
+      fired.push({ rule: spec, candidate, deliveries });
+    }
+    return fired;
+  }
+}
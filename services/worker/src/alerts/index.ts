@@ -0,0 +1,5 @@
+export * from './rules.js';
+export * from './smtp.js';
+export * from './sinks.js';
+export * from './engine.js';
+export * from './runner.js';
@@ -0,0 +1,162 @@
+/**
+ * Tests for alert rule validation and evaluators (v3.2.0)
+ *
+ * Run: npx tsx --test services/worker/src/alerts/rules.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import type { LinkWithQuotes } from '@data-module/db';
+import type { QuoteUpdate } from '../stream/index.js';
+import {
+  parseAlertRule,
+  AlertRuleError,
+  PriceWindow,
+  evaluatePriceJump,
+  evaluateLinkDivergence,
+  evaluateNewSuggestions,
+  type SuggestionSummary,
+} from './rules.js';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const ago = (min: number) => new Date(NOW.getTime() - min * 60 * 1000);
+
+function row(type: string, params: unknown, sinks: unknown = [{ type: 'file', path: '/tmp/alerts.jsonl' }]) {
+  return { id: 1, name: 'r1', type, params: params as never, sinks: sinks as never, cooldownSec: 900 };
+}
+
+function makeUpdate(overrides: Partial<QuoteUpdate> = {}): QuoteUpdate {
+  return {
+    marketId: 1,
+    venue: 'kalshi',
+    derivedTopic: 'RATES',
+    outcomeId: 10,
+    outcomeName: 'Yes',
+    side: 'yes',
+    ts: NOW,
+    price: 0.5,
+    impliedProb: 0.5,
+    bestBid: null,
+    bestAsk: null,
+    bidSize: null,
+    askSize: null,
+    spread: null,
+    liquidity: null,
+    volume: null,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+function makeLink(leftYes: number, rightYes: number, opts: { rightTitle?: string; ageMin?: number } = {}): LinkWithQuotes {
+  const { rightTitle = 'Will the Fed cut rates in December?', ageMin = 0 } = opts;
+  const side = (id: number, title: string, prob: number) => ({
+    id,
+    title,
+    outcomes: [{ side: 'yes', latestQuote: { impliedProb: prob, ts: ago(ageMin) } }],
+  });
+  return {
+    id: 7,
+    topic: 'RATES',
+    leftVenue: 'polymarket',
+    rightVenue: 'kalshi',
+    leftMarketId: 1,
+    rightMarketId: 2,
+    leftMarket: side(1, 'Will the Fed cut rates in December?', leftYes),
+    rightMarket: side(2, rightTitle, rightYes),
+  } as unknown as LinkWithQuotes;
+}
+
+describe('parseAlertRule', () => {
+  it('types valid rules and applies defaults', () => {
+    const spec = parseAlertRule(row('price_jump', { threshold: 0.1, windowMinutes: 15 }));
+    assert.strictEqual(spec.type, 'price_jump');
+    assert.strictEqual(spec.type === 'price_jump' && spec.params.side, 'yes');
+    assert.strictEqual(spec.sinks[0].type, 'file');
+  });
+
+  it('rejects unknown types, bad params and missing sinks', () => {
+    assert.throws(() => parseAlertRule(row('volume_spike', {})), /unknown type/);
+    assert.throws(() => parseAlertRule(row('price_jump', { threshold: 2, windowMinutes: 15 })), AlertRuleError);
+    assert.throws(() => parseAlertRule(row('link_divergence', { threshold: 0.1, topic: '' })), /params.topic/);
+    assert.throws(() => parseAlertRule(row('new_suggestion', { minScore: 0.9 }, [])), /sinks/);
+  });
+});
+
+describe('PriceWindow', () => {
+  it('reports the largest move into the newest point within the window', () => {
+    const window = new PriceWindow(60 * 60 * 1000);
+    window.record(10, ago(30), 0.4);
+    window.record(10, ago(10), 0.5);
+    window.record(10, NOW, 0.55);
+
+    assert.ok(Math.abs(window.maxMove(10, 15 * 60 * 1000)!.move - 0.05) < 1e-9);
+    assert.ok(Math.abs(window.maxMove(10, 60 * 60 * 1000)!.move - 0.15) < 1e-9);
+    assert.strictEqual(window.maxMove(11, 60 * 60 * 1000), null);
+
+    window.prune(new Date(NOW.getTime() + 1));
+    assert.strictEqual(window.size, 0);
+  });
+});
+
+describe('evaluatePriceJump', () => {
+  const params = { threshold: 0.1, windowMinutes: 15, side: 'yes' as const };
+
+  it('fires on a move beyond the threshold inside the window', () => {
+    const window = new PriceWindow(15 * 60 * 1000);
+    window.record(10, ago(5), 0.4);
+    window.record(10, NOW, 0.55);
+
+    const candidate = evaluatePriceJump(params, makeUpdate({ impliedProb: 0.55 }), window);
+    assert.ok(candidate);
+    assert.strictEqual(candidate.dedupKey, 'outcome:10');
+    assert.match(candidate.title, /jump/);
+  });
+
+  it('ignores small moves and filtered updates', () => {
+    const window = new PriceWindow(15 * 60 * 1000);
+    window.record(10, ago(5), 0.5);
+    window.record(10, NOW, 0.55);
+    assert.strictEqual(evaluatePriceJump(params, makeUpdate(), window), null);
+
+    window.record(10, NOW, 0.8);
+    assert.strictEqual(evaluatePriceJump(params, makeUpdate({ side: 'no' }), window), null);
+    assert.strictEqual(evaluatePriceJump({ ...params, venue: 'polymarket' }, makeUpdate(), window), null);
+    assert.strictEqual(evaluatePriceJump({ ...params, topic: 'rates' }, makeUpdate(), window)?.dedupKey, 'outcome:10');
+  });
+});
+
+describe('evaluateLinkDivergence', () => {
+  it('fires when the two sides disagree beyond the threshold', () => {
+    const candidate = evaluateLinkDivergence({ threshold: 0.05 }, makeLink(0.6, 0.7), NOW);
+    assert.ok(candidate);
+    assert.strictEqual(candidate.dedupKey, 'link:7');
+    assert.ok(Math.abs((candidate.data.divergence as number) - 0.1) < 1e-9);
+    assert.strictEqual(evaluateLinkDivergence({ threshold: 0.15 }, makeLink(0.6, 0.7), NOW), null);
+  });
+
+  it('compares inverted pairs on the same side and skips stale quotes', () => {
+    const inverted = makeLink(0.7, 0.3, { rightTitle: 'Will the Fed not cut rates in December?' });
+    assert.strictEqual(evaluateLinkDivergence({ threshold: 0.05 }, inverted, NOW), null);
+    assert.strictEqual(evaluateLinkDivergence({ threshold: 0.05 }, makeLink(0.6, 0.7, { ageMin: 30 }), NOW), null);
+  });
+});
+
+describe('evaluateNewSuggestions', () => {
+  it('keeps suggestions at or above the score in the topic', () => {
+    const suggestion = (id: number, score: number, topic: string): SuggestionSummary => ({
+      id,
+      score,
+      topic,
+      createdAt: NOW,
+      leftMarket: { id: 1, title: 'A' },
+      rightMarket: { id: 2, title: 'B' },
+    });
+    const candidates = evaluateNewSuggestions({ minScore: 0.9, topic: 'RATES' }, [
+      suggestion(1, 0.95, 'RATES'),
+      suggestion(2, 0.85, 'RATES'),
+      suggestion(3, 0.99, 'CRYPTO_DAILY'),
+    ]);
+    assert.deepStrictEqual(candidates.map((c) => c.dedupKey), ['link:1']);
+  });
+});
@@ -0,0 +1,375 @@
+/**
+ * Alert rules - types, validation and evaluators (v3.2.0)
+ *
+ * Rule types:
+ *   price_jump       an outcome moved more than `threshold` within `windowMinutes`
+ *   link_divergence  the two sides of a confirmed link disagree by more than `threshold`
+ *   watchlist_stale  a watchlisted active market has no quote newer than `maxAgeMinutes`
+ *   new_suggestion   a link suggestion scored at least `minScore` was created
+ *
+ * Each evaluator turns its inputs into AlertCandidates keyed by what the
+ * alert is about (dedupKey); cooldown and delivery live in the engine.
+ */
+
+import type { StaleWatchlistMarket, LinkWithQuotes, MarketWithQuotes, AlertRule } from '@data-module/db';
+import type { QuoteUpdate } from '../stream/index.js';
+import { detectInvertedPair } from '../arb/index.js';
+
+export const ALERT_RULE_TYPES = ['price_jump', 'link_divergence', 'watchlist_stale', 'new_suggestion'] as const;
+export type AlertRuleType = (typeof ALERT_RULE_TYPES)[number];
+
+export interface PriceJumpParams {
+  /** Absolute price change (0..1) that triggers */
+  threshold: number;
+  windowMinutes: number;
+  /** Outcome side to watch (default: yes) */
+  side?: 'yes' | 'no' | 'any';
+  venue?: string;
+  topic?: string;
+  marketIds?: number[];
+}
+
+export interface LinkDivergenceParams {
+  /** Absolute Yes probability difference (0..1) that triggers */
+  threshold: number;
+  topic?: string;
+  /** Ignore sides whose quote is older than this (default: 900) */
+  maxQuoteAgeSec?: number;
+}
+
+export interface WatchlistStaleParams {
+  maxAgeMinutes: number;
+  venue?: string;
+  minPriority?: number;
+}
+
+export interface NewSuggestionParams {
+  minScore: number;
+  topic?: string;
+}
+
+/**
+ * Delivery target; `type` selects a registered sink, the rest is its config
+ */
+export interface AlertSinkSpec {
+  type: string;
+  [key: string]: unknown;
+}
+
+interface AlertRuleBase {
+  id: number;
+  name: string;
+  cooldownSec: number;
+  sinks: AlertSinkSpec[];
+}
+
+export type AlertRuleSpec = AlertRuleBase &
+  (
+    | { type: 'price_jump'; params: PriceJumpParams }
+    | { type: 'link_divergence'; params: LinkDivergenceParams }
+    | { type: 'watchlist_stale'; params: WatchlistStaleParams }
+    | { type: 'new_suggestion'; params: NewSuggestionParams }
+  );
+
+export interface AlertCandidate {
+  dedupKey: string;
+  title: string;
+  message: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Suggestion fields the new_suggestion rule reads
+ */
+export interface SuggestionSummary {
+  id: number;
+  score: number;
+  topic: string | null;
+  createdAt: Date;
+  leftMarket: { id: number; title: string };
+  rightMarket: { id: number; title: string };
+}
+
+export class AlertRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AlertRuleError';
+  }
+}
+
+function requireNumber(params: Record<string, unknown>, key: string, min: number, max = Infinity): number {
+  const value = params[key];
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    throw new AlertRuleError(`params.${key} must be a number in [${min}, ${max}]`);
+  }
+  return value;
+}
+
+function optionalString(params: Record<string, unknown>, key: string): string | undefined {
+  const value = params[key];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new AlertRuleError(`params.${key} must be a non-empty string`);
+  }
+  return value;
+}
+
+function optionalNumber(params: Record<string, unknown>, key: string, min: number): number | undefined {
+  return params[key] === undefined ? undefined : requireNumber(params, key, min);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate a stored rule row into a typed spec
+ * @throws AlertRuleError if the type, params or sinks are malformed
+ */
+export function parseAlertRule(row: Pick<AlertRule, 'id' | 'name' | 'type' | 'params' | 'sinks' | 'cooldownSec'>): AlertRuleSpec {
+  const params = row.params;
+  if (!isObject(params)) {
+    throw new AlertRuleError(`Rule "${row.name}": params must be an object`);
+  }
+  if (!Array.isArray(row.sinks) || row.sinks.length === 0 || !row.sinks.every((s) => isObject(s) && typeof s.type === 'string')) {
+    throw new AlertRuleError(`Rule "${row.name}": sinks must be a non-empty array of {type, ...}`);
+  }
+  const base: AlertRuleBase = {
+    id: row.id,
+    name: row.name,
+    cooldownSec: row.cooldownSec,
+    sinks: row.sinks as unknown as AlertSinkSpec[],
+  };
+
+  try {
+    switch (row.type) {
+      case 'price_jump': {
+        const side = params.side ?? 'yes';
+        if (side !== 'yes' && side !== 'no' && side !== 'any') {
+          throw new AlertRuleError('params.side must be yes, no or any');
+        }
+        const marketIds = params.marketIds;
+        if (marketIds !== undefined && (!Array.isArray(marketIds) || !marketIds.every((id) => Number.isInteger(id)))) {
+          throw new AlertRuleError('params.marketIds must be an array of integers');
+        }
+        return {
+          ...base,
+          type: 'price_jump',
+          params: {
+            threshold: requireNumber(params, 'threshold', 0, 1),
+            windowMinutes: requireNumber(params, 'windowMinutes', 1),
+            side,
+            venue: optionalString(params, 'venue'),
+            topic: optionalString(params, 'topic'),
+            marketIds: marketIds as number[] | undefined,
+          },
+        };
+      }
+      case 'link_divergence':
+        return {
+          ...base,
+          type: 'link_divergence',
+          params: {
+            threshold: requireNumber(params, 'threshold', 0, 1),
+            topic: optionalString(params, 'topic'),
+            maxQuoteAgeSec: optionalNumber(params, 'maxQuoteAgeSec', 1),
+          },
+        };
+      case 'watchlist_stale':
+        return {
+          ...base,
+          type: 'watchlist_stale',
+          params: {
+            maxAgeMinutes: requireNumber(params, 'maxAgeMinutes', 1),
+            venue: optionalString(params, 'venue'),
+            minPriority: optionalNumber(params, 'minPriority', 0),
+          },
+        };
+      case 'new_suggestion':
+        return {
+          ...base,
+          type: 'new_suggestion',
+          params: {
+            minScore: requireNumber(params, 'minScore', 0, 1),
+            topic: optionalString(params, 'topic'),
+          },
+        };
+      default:
+        throw new AlertRuleError(`unknown type "${row.type}" (expected one of ${ALERT_RULE_TYPES.join(', ')})`);
+    }
+  } catch (error) {
+    if (error instanceof AlertRuleError) {
+      throw new AlertRuleError(`Rule "${row.name}": ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Recent prices per outcome, fed from every quote write
+ */
+export class PriceWindow {
+  private readonly points = new Map<number, Array<{ ts: number; price: number }>>();
+
+  constructor(private readonly maxWindowMs: number) {}
+
+  get size(): number {
+    return this.points.size;
+  }
+
+  /**
+   * Record a price and drop points older than the window
+   */
+  record(outcomeId: number, ts: Date, price: number): void {
+    const cutoff = ts.getTime() - this.maxWindowMs;
+    const series = (this.points.get(outcomeId) ?? []).filter((p) => p.ts >= cutoff && p.ts <= ts.getTime());
+    series.push({ ts: ts.getTime(), price });
+    this.points.set(outcomeId, series);
+  }
+
+  /**
+   * Largest move from any earlier point within the window to the newest one
+   */
+  maxMove(outcomeId: number, windowMs: number): { move: number; from: number; to: number; fromTs: Date } | null {
+    const series = this.points.get(outcomeId);
+    if (!series || series.length < 2) return null;
+
+    const last = series[series.length - 1];
+    let best: { move: number; from: number; to: number; fromTs: Date } | null = null;
+    for (const p of series.slice(0, -1)) {
+      if (last.ts - p.ts > windowMs) continue;
+      const move = last.price - p.price;
+      if (!best || Math.abs(move) > Math.abs(best.move)) {
+        best = { move, from: p.price, to: last.price, fromTs: new Date(p.ts) };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Forget outcomes with no point newer than the cutoff
+   */
+  prune(cutoff: Date): void {
+    for (const [outcomeId, series] of this.points) {
+      if (series[series.length - 1].ts < cutoff.getTime()) this.points.delete(outcomeId);
+    }
+  }
+}
+
+function pct(p: number): string {
+  return `${(p * 100).toFixed(1)}%`;
+}
+
+/**
+ * price_jump: does this update (already recorded in the window) trigger?
+ */
+export function evaluatePriceJump(
+  params: PriceJumpParams,
+  update: QuoteUpdate,
+  window: PriceWindow
+): AlertCandidate | null {
+  const side = params.side ?? 'yes';
+  if (side !== 'any' && update.side !== side) return null;
+  if (params.venue && update.venue !== params.venue) return null;
+  if (params.topic && update.derivedTopic?.toUpperCase() !== params.topic.toUpperCase()) return null;
+  if (params.marketIds && !params.marketIds.includes(update.marketId)) return null;
+
+  const move = window.maxMove(update.outcomeId, params.windowMinutes * 60 * 1000);
+  if (!move || Math.abs(move.move) <= params.threshold) return null;
+
+  return {
+    dedupKey: `outcome:${update.outcomeId}`,
+    title: `Price ${move.move > 0 ? 'jump' : 'drop'} on ${update.venue} market ${update.marketId}`,
+    message:
+      `${update.outcomeName} moved ${pct(move.from)} -> ${pct(move.to)} ` +
+      `(${move.move > 0 ? '+' : ''}${(move.move * 100).toFixed(1)} pts) within ${params.windowMinutes}m`,
+    data: {
+      marketId: update.marketId,
+      outcomeId: update.outcomeId,
+      venue: update.venue,
+      from: move.from,
+      to: move.to,
+      fromTs: move.fromTs,
+      ts: update.ts,
+    },
+  };
+}
+
+/**
+ * Yes probability and quote time of one side of a link
+ */
+function yesSide(market: MarketWithQuotes): { prob: number; ts: Date } | null {
+  const yes = market.outcomes.find((o) => o.side === 'yes')?.latestQuote;
+  if (yes) return { prob: yes.impliedProb, ts: yes.ts };
+  const no = market.outcomes.find((o) => o.side === 'no')?.latestQuote;
+  return no ? { prob: 1 - no.impliedProb, ts: no.ts } : null;
+}
+
+/**
+ * link_divergence: do both sides of a confirmed link disagree?
+ */
+export function evaluateLinkDivergence(
+  params: LinkDivergenceParams,
+  link: LinkWithQuotes,
+  now: Date
+): AlertCandidate | null {
+  if (params.topic && link.topic !== params.topic) return null;
+
+  const left = yesSide(link.leftMarket);
+  const right = yesSide(link.rightMarket);
+  if (!left || !right) return null;
+
+  const maxAgeMs = (params.maxQuoteAgeSec ?? 900) * 1000;
+  if (now.getTime() - left.ts.getTime() > maxAgeMs || now.getTime() - right.ts.getTime() > maxAgeMs) {
+    return null;
+  }
+
+  const inverted = detectInvertedPair(link.leftMarket.title, link.rightMarket.title);
+  const rightProb = inverted ? 1 - right.prob : right.prob;
+  const divergence = Math.abs(left.prob - rightProb);
+  if (divergence <= params.threshold) return null;
+
+  return {
+    dedupKey: `link:${link.id}`,
+    title: `Link ${link.id} diverged by ${(divergence * 100).toFixed(1)} pts`,
+    message:
+      `${link.leftVenue}: ${pct(left.prob)} vs ${link.rightVenue}: ${pct(rightProb)}${inverted ? ' (inverted)' : ''}\n` +
+      `${link.leftMarket.title}`,
+    data: {
+      linkId: link.id,
+      topic: link.topic,
+      leftMarketId: link.leftMarketId,
+      rightMarketId: link.rightMarketId,
+      leftProb: left.prob,
+      rightProb,
+      inverted,
+      divergence,
+    },
+  };
+}
+
+/**
+ * watchlist_stale: one alert per stale market
+ */
+export function evaluateWatchlistStale(params: WatchlistStaleParams, markets: StaleWatchlistMarket[]): AlertCandidate[] {
+  return markets.map((m) => ({
+    dedupKey: `market:${m.marketId}`,
+    title: `Stale quotes on ${m.venue} market ${m.marketId}`,
+    message: `${m.title}\nLast quote: ${m.lastQuoteAt ? m.lastQuoteAt.toISOString() : 'never'} (limit ${params.maxAgeMinutes}m)`,
+    data: { marketId: m.marketId, venue: m.venue, priority: m.priority, lastQuoteAt: m.lastQuoteAt },
+  }));
+}
+
+/**
+ * new_suggestion: one alert per qualifying suggestion
+ */
+export function evaluateNewSuggestions(params: NewSuggestionParams, suggestions: SuggestionSummary[]): AlertCandidate[] {
+  return suggestions
+    .filter((s) => s.score >= params.minScore && (!params.topic || s.topic === params.topic))
+    .map((s) => ({
+      dedupKey: `link:${s.id}`,
+      title: `New ${s.topic ? `${s.topic} ` : ''}suggestion ${s.id} (score ${s.score.toFixed(3)})`,
+      message: `${s.leftMarket.title}\n<-> ${s.rightMarket.title}`,
+      data: { linkId: s.id, score: s.score, topic: s.topic, leftMarketId: s.leftMarket.id, rightMarketId: s.rightMarket.id },
+    }));
+}
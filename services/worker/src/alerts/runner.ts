@@ -0,0 +1,158 @@
+/**
+ * Alert runner - feeds the engine from the database (v3.2.0)
+ *
+ * Quote writers run in other processes, so like the live stream this polls
+ * latest_quotes.updated_at (with a short overlap window) and hands every
+ * new write to the engine. Timer-driven rules run every periodicMs and
+ * rules are re-read from alert_rules every rulesReloadMs.
+ */
+
+import {
+  getClient,
+  AlertRepository,
+  ArbOpportunityRepository,
+  MarketLinkRepository,
+  QuoteRepository,
+  WatchlistRepository,
+  type PrismaClient,
+} from '@data-module/db';
+import { toQuoteUpdate } from '../stream/index.js';
+import { AlertEngine, type AlertDataSource, type FiredAlert } from './engine.js';
+
+export interface AlertRunnerConfig {
+  pollMs: number;
+  overlapMs: number;
+  batchLimit: number;
+  periodicMs: number;
+  rulesReloadMs: number;
+}
+
+export const DEFAULT_ALERT_RUNNER_CONFIG: AlertRunnerConfig = {
+  pollMs: parseInt(process.env.ALERT_POLL_MS || '2000', 10),
+  overlapMs: parseInt(process.env.ALERT_POLL_OVERLAP_MS || '5000', 10),
+  batchLimit: parseInt(process.env.ALERT_POLL_BATCH || '5000', 10),
+  periodicMs: parseInt(process.env.ALERT_PERIODIC_MS || '60000', 10),
+  rulesReloadMs: parseInt(process.env.ALERT_RULES_RELOAD_MS || '60000', 10),
+};
+
+export interface AlertRunnerHandle {
+  engine: AlertEngine;
+  stop(): void;
+}
+
+/**
+ * Repository-backed data source for the engine
+ */
+export function createAlertDataSource(prisma: PrismaClient): AlertDataSource {
+  const arbRepo = new ArbOpportunityRepository(prisma);
+  const watchlistRepo = new WatchlistRepository(prisma);
+  const linkRepo = new MarketLinkRepository(prisma);
+
+  return {
+    getLinksForMarkets: (marketIds) => arbRepo.getConfirmedLinksWithQuotes({ marketIds }),
+    getStaleWatchlist: (params, cutoff) =>
+      watchlistRepo.getStaleMarkets({ cutoff, venue: params.venue, minPriority: params.minPriority }),
+    getSuggestionsSince: async (params, since) => {
+      const { items } = await linkRepo.searchLinks({
+        status: 'suggested',
+        topic: params.topic,
+        minScore: params.minScore,
+        createdSince: since,
+        limit: 500,
+      });
+      return items;
+    },
+  };
+}
+
+function logFired(fired: FiredAlert[]): void {
+  for (const { rule, candidate, deliveries } of fired) {
+    const failed = deliveries.filter((d) => !d.ok);
+    console.log(`[alerts] ${rule.name}: ${candidate.title}${failed.length > 0 ? ` (${failed.length} delivery failed)` : ''}`);
+    for (const d of failed) {
+      console.warn(`[alerts]   ${d.sink}: ${d.error}`);
+    }
+  }
+}
+
+/**
+ * Load rules and start polling; returns a handle to stop it
+ */
+export async function startAlertRunner(config: AlertRunnerConfig = DEFAULT_ALERT_RUNNER_CONFIG): Promise<AlertRunnerHandle> {
+  const prisma = getClient();
+  const alertRepo = new AlertRepository(prisma);
+  const quoteRepo = new QuoteRepository(prisma);
+  const engine = new AlertEngine({ source: createAlertDataSource(prisma), store: alertRepo });
+
+  const reloadRules = async (): Promise<void> => {
+    const errors = engine.setRules(await alertRepo.listRules({ enabledOnly: true }));
+    for (const error of errors) {
+      console.warn(`[alerts] Skipping invalid rule ${error}`);
+    }
+  };
+  await reloadRules();
+  console.log(`[alerts] Loaded ${engine.ruleCount} enabled rules`);
+
+  let cursor = Date.now();
+  let catchingUp = false;
+  let stopped = false;
+  let pollTimer: NodeJS.Timeout | null = null;
+
+  const poll = async (): Promise<void> => {
+    try {
+      const since = new Date(catchingUp ? cursor : cursor - config.overlapMs);
+      const rows = await quoteRepo.getLatestQuotesUpdatedSince(since, config.batchLimit);
+      if (rows.length > 0) {
+        logFired(await engine.onQuotes(rows.map(toQuoteUpdate)));
+        cursor = Math.max(cursor, rows[rows.length - 1].updatedAt.getTime());
+      }
+      catchingUp = rows.length >= config.batchLimit;
+      if (catchingUp) {
+        console.warn(`[alerts] Poll hit batch limit (${config.batchLimit}), catching up next cycle`);
+      }
+      engine.prune(new Date(cursor - config.overlapMs));
+    } catch (error) {
+      console.error('[alerts] Poll failed:', error instanceof Error ? error.message : error);
+    } finally {
+      if (!stopped) {
+        pollTimer = setTimeout(poll, config.pollMs);
+      }
+    }
+  };
+
+  let periodicRunning = false;
+  const periodic = async (): Promise<void> => {
+    if (periodicRunning) return;
+    periodicRunning = true;
+    try {
+      logFired(await engine.runPeriodic());
+    } catch (error) {
+      console.error('[alerts] Periodic check failed:', error instanceof Error ? error.message : error);
+    } finally {
+      periodicRunning = false;
+    }
+  };
+
+  const reload = async (): Promise<void> => {
+    try {
+      await reloadRules();
+    } catch (error) {
+      console.error('[alerts] Rule reload failed:', error instanceof Error ? error.message : error);
+    }
+  };
+
+  pollTimer = setTimeout(poll, config.pollMs);
+  const periodicTimer = setInterval(periodic, config.periodicMs);
+  const reloadTimer = setInterval(reload, config.rulesReloadMs);
+  void periodic();
+
+  return {
+    engine,
+    stop: () => {
+      stopped = true;
+      if (pollTimer) clearTimeout(pollTimer);
+      clearInterval(periodicTimer);
+      clearInterval(reloadTimer);
+    },
+  };
+}
@@ -0,0 +1,174 @@
+/**
+ * Tests for alert sinks and the SMTP client (v3.2.0)
+ *
+ * Run: npx tsx --test services/worker/src/alerts/sinks.test.ts
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { createServer, type Server, type AddressInfo } from 'node:net';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { HttpSinkServer } from '../test-utils/http-sink-server.js';
+import { createAlertSink, registerAlertSink, AlertSinkError, type AlertMessage } from './sinks.js';
+import { formatMessage, sendMail } from './smtp.js';
+
+const ALERT: AlertMessage = {
+  ruleId: 1,
+  rule: 'fed-jumps',
+  type: 'price_jump',
+  dedupKey: 'outcome:10',
+  title: 'Price jump on kalshi market 1',
+  message: 'Yes moved 40.0% -> 55.0%',
+  firedAt: new Date('2026-10-19T12:00:00Z'),
+  data: { marketId: 1 },
+};
+
+/**
+ * Scripted SMTP relay: records the commands and message it receives
+ */
+function startFakeSmtp(): Promise<{ server: Server; port: number; commands: string[]; data: string[] }> {
+  const commands: string[] = [];
+  const data: string[] = [];
+  const server = createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    socket.write('220 fake ESMTP\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end < 0) return;
+        data.push(buffer.slice(0, end));
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        socket.write('250 queued\r\n');
+      }
+      let idx: number;
+      while (!inData && (idx = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, idx);
+        buffer = buffer.slice(idx + 2);
+        commands.push(line);
+        const verb = line.split(' ')[0].toUpperCase();
+        if (verb === 'EHLO') socket.write('250-fake\r\n250 AUTH PLAIN\r\n');
+        else if (verb === 'AUTH') socket.write('235 ok\r\n');
+        else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (verb === 'QUIT') socket.end('221 bye\r\n');
+        else socket.write('250 ok\r\n');
+      }
+    });
+  });
+  return new Promise((resolve) =>
+    server.listen(0, '127.0.0.1', () => resolve({ server, port: (server.address() as AddressInfo).port, commands, data }))
+  );
+}
+
+describe('webhook and slack sinks', () => {
+  const sinkServer = new HttpSinkServer();
+  let baseUrl = '';
+
+  before(async () => {
+    baseUrl = await sinkServer.listen();
+  });
+
+  after(async () => {
+    await sinkServer.close();
+  });
+
+  it('posts the alert as JSON', async () => {
+    const sink = createAlertSink({ type: 'webhook', url: `${baseUrl}/hook`, headers: { 'X-Token': 'abc' } });
+    await sink.send(ALERT);
+
+    const [request] = sinkServer.requests.filter((r) => r.path === '/hook');
+    assert.strictEqual(request.method, 'POST');
+    assert.strictEqual(request.headers['x-token'], 'abc');
+    const body = JSON.parse(request.body);
+    assert.strictEqual(body.dedupKey, 'outcome:10');
+    assert.strictEqual(body.firedAt, '2026-10-19T12:00:00.000Z');
+  });
+
+  it('posts a Slack-compatible text message', async () => {
+    await createAlertSink({ type: 'slack', url: `${baseUrl}/slack`, channel: '#alerts' }).send(ALERT);
+    assert.deepStrictEqual(sinkServer.jsonBodies('/slack'), [
+      { text: '*Price jump on kalshi market 1*\nYes moved 40.0% -> 55.0%', channel: '#alerts' },
+    ]);
+  });
+
+  it('fails on a non-2xx response', async () => {
+    sinkServer.status = 500;
+    try {
+      await assert.rejects(createAlertSink({ type: 'webhook', url: `${baseUrl}/down` }).send(ALERT), /HTTP 500/);
+    } finally {
+      sinkServer.status = 200;
+    }
+  });
+});
+
+describe('file sink', () => {
+  it('appends one JSON line per alert, creating the directory', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'alerts-'));
+    try {
+      const path = join(dir, 'nested', 'alerts.jsonl');
+      const sink = createAlertSink({ type: 'file', path });
+      await sink.send(ALERT);
+      await sink.send({ ...ALERT, dedupKey: 'outcome:11' });
+
+      const lines = readFileSync(path, 'utf8').trim().split('\n').map((l) => JSON.parse(l));
+      assert.deepStrictEqual(lines.map((l) => l.dedupKey), ['outcome:10', 'outcome:11']);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('sink registry', () => {
+  it('rejects unknown types and bad config', () => {
+    assert.throws(() => createAlertSink({ type: 'pager' }), AlertSinkError);
+    assert.throws(() => createAlertSink({ type: 'webhook' }), /"url"/);
+    assert.throws(() => createAlertSink({ type: 'email', to: [] }), /"to"/);
+  });
+
+  it('accepts registered sink types', async () => {
+    const sent: string[] = [];
+    registerAlertSink('memory', () => ({ name: 'memory', send: async (alert) => void sent.push(alert.title) }));
+    await createAlertSink({ type: 'memory' }).send(ALERT);
+    assert.deepStrictEqual(sent, [ALERT.title]);
+  });
+});
+
+describe('email sink', () => {
+  it('formats a dot-stuffed message with an encoded subject', () => {
+    const text = formatMessage(
+      { from: 'a@x', to: ['b@x', 'c@x'], subject: 'Δ alert', text: 'line 1\n.line 2' },
+      new Date('2026-10-19T12:00:00Z')
+    );
+    assert.match(text, /^From: a@x\r\nTo: b@x, c@x\r\nSubject: =\?UTF-8\?B\?/);
+    assert.ok(text.endsWith('\r\n\r\nline 1\r\n..line 2'));
+  });
+
+  it('delivers through an SMTP relay with AUTH PLAIN', async () => {
+    const smtp = await startFakeSmtp();
+    try {
+      await sendMail(
+        { host: '127.0.0.1', port: smtp.port, secure: false, user: 'u', pass: 'p', timeoutMs: 5000 },
+        { from: 'alerts@x', to: ['ops@x'], subject: 'Jump', text: 'body' }
+      );
+      assert.deepStrictEqual(
+        smtp.commands.map((c) => c.split(' ')[0]),
+        ['EHLO', 'AUTH', 'MAIL', 'RCPT', 'DATA', 'QUIT']
+      );
+      assert.strictEqual(smtp.commands[2], 'MAIL FROM:<alerts@x>');
+      assert.match(smtp.data[0], /Subject: Jump\r\n/);
+      assert.ok(smtp.data[0].endsWith('\r\n\r\nbody'));
+
+      const sink = createAlertSink({ type: 'email', to: 'ops@x', from: 'alerts@x', host: '127.0.0.1', port: smtp.port, secure: false });
+      await sink.send(ALERT);
+      assert.match(smtp.data[1], /Subject: \[fed-jumps\] Price jump on kalshi market 1/);
+    } finally {
+      await new Promise<void>((resolve) => smtp.server.close(() => resolve()));
+    }
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Alert sinks - where fired alerts are delivered (v3.2.0)
+ *
+ * Built in:
+ *   webhook  POST the alert as JSON          { type, url, headers? }
+ *   slack    POST a Slack-compatible message  { type, url, channel? }
+ *   email    plain-text mail over SMTP        { type, to, from?, host?, port?, secure? }
+ *   file     append one JSON line per alert   { type, path }
+ *
+ * Other sinks plug in with registerAlertSink().
+ */
+
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { AlertSinkSpec } from './rules.js';
+import { loadSmtpConfig, sendMail, type SmtpConfig } from './smtp.js';
+
+/**
+ * One fired alert, as handed to every sink of its rule
+ */
+export interface AlertMessage {
+  /** alert_rules id; null for built-in notifiers such as the health watchdog */
+  ruleId: number | null;
+  rule: string;
+  type: string;
+  dedupKey: string;
+  title: string;
+  message: string;
+  firedAt: Date;
+  data: Record<string, unknown>;
+}
+
+export interface AlertSink {
+  /** Label recorded with the delivery result */
+  readonly name: string;
+  send(alert: AlertMessage): Promise<void>;
+}
+
+export type AlertSinkFactory = (spec: AlertSinkSpec) => AlertSink;
+
+export class AlertSinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AlertSinkError';
+  }
+}
+
+const SINK_TIMEOUT_MS = parseInt(process.env.ALERT_SINK_TIMEOUT_MS || '10000', 10);
+
+function requireString(spec: AlertSinkSpec, key: string): string {
+  const value = spec[key];
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new AlertSinkError(`${spec.type} sink: "${key}" must be a non-empty string`);
+  }
+  return value;
+}
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(SINK_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(`HTTP ${response.status}${text ? `: ${text.slice(0, 200)}` : ''}`);
+  }
+}
+
+function webhookSink(spec: AlertSinkSpec): AlertSink {
+  const url = requireString(spec, 'url');
+  const headers = (spec.headers ?? {}) as Record<string, string>;
+  return {
+    name: `webhook:${new URL(url).host}`,
+    send: (alert) => postJson(url, alert, headers),
+  };
+}
+
+function slackSink(spec: AlertSinkSpec): AlertSink {
+  const url = requireString(spec, 'url');
+  const channel = spec.channel === undefined ? undefined : requireString(spec, 'channel');
+  return {
+    name: `slack:${new URL(url).host}`,
+    send: (alert) =>
+      postJson(url, {
+        text: `*${alert.title}*\n${alert.message}`,
+        ...(channel && { channel }),
+      }),
+  };
+}
+
+function emailSink(spec: AlertSinkSpec): AlertSink {
+  const to = typeof spec.to === 'string' ? [spec.to] : spec.to;
+  if (!Array.isArray(to) || to.length === 0 || !to.every((r) => typeof r === 'string')) {
+    throw new AlertSinkError('email sink: "to" must be an address or a non-empty array of addresses');
+  }
+  const config: SmtpConfig = {
+    ...loadSmtpConfig(),
+    ...(typeof spec.host === 'string' && { host: spec.host }),
+    ...(typeof spec.port === 'number' && { port: spec.port }),
+    ...(typeof spec.secure === 'boolean' && { secure: spec.secure }),
+  };
+  const from = typeof spec.from === 'string' ? spec.from : process.env.ALERT_EMAIL_FROM || `alerts@${config.host}`;
+  return {
+    name: `email:${to.join(',')}`,
+    send: (alert) =>
+      sendMail(config, {
+        from,
+        to: to as string[],
+        subject: `[${alert.rule}] ${alert.title}`,
+        text: `${alert.message}\n\nRule: ${alert.rule} (${alert.type})\nFired: ${alert.firedAt.toISOString()}\n`,
+      }),
+  };
+}
+
+function fileSink(spec: AlertSinkSpec): AlertSink {
+  const path = requireString(spec, 'path');
+  return {
+    name: `file:${path}`,
+    send: async (alert) => {
+      await mkdir(dirname(path), { recursive: true });
+      await appendFile(path, `${JSON.stringify(alert)}\n`, 'utf8');
+    },
+  };
+}
+
+const registry = new Map<string, AlertSinkFactory>([
+  ['webhook', webhookSink],
+  ['slack', slackSink],
+  ['email', emailSink],
+  ['file', fileSink],
+]);
+
+/**
+ * Add (or replace) a sink type
+ */
+export function registerAlertSink(type: string, factory: AlertSinkFactory): void {
+  registry.set(type, factory);
+}
+
+/**
+ * Build a sink from its spec
+ * @throws AlertSinkError for unknown types or bad config
+ */
+export function createAlertSink(spec: AlertSinkSpec): AlertSink {
+  const factory = registry.get(spec.type);
+  if (!factory) {
+    throw new AlertSinkError(`Unknown sink type "${spec.type}" (registered: ${[...registry.keys()].join(', ')})`);
+  }
+  return factory(spec);
+}
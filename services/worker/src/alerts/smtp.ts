@@ -0,0 +1,232 @@
+/**
+ * Minimal SMTP client for the email alert sink (v3.2.0)
+ *
+ * Enough of RFC 5321 to hand a plain-text message to a relay: EHLO,
+ * STARTTLS when offered (or implicit TLS with `secure`), AUTH PLAIN,
+ * MAIL/RCPT/DATA. No pooling or retries - alerts are small and rare.
+ */
+
+import { connect as netConnect, type Socket } from 'node:net';
+import { connect as tlsConnect, type TLSSocket } from 'node:tls';
+import { hostname } from 'node:os';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** Implicit TLS (port 465); otherwise STARTTLS is used when the server offers it */
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  /** Reject relays with invalid certificates (default: true) */
+  rejectUnauthorized?: boolean;
+  timeoutMs?: number;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * SMTP settings from SMTP_* env
+ */
+export function loadSmtpConfig(): SmtpConfig {
+  const port = parseInt(process.env.SMTP_PORT || '587', 10);
+  return {
+    host: process.env.SMTP_HOST || 'localhost',
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    user: process.env.SMTP_USER,
+    pass: process.env.SMTP_PASS,
+    rejectUnauthorized: process.env.SMTP_TLS_REJECT_UNAUTHORIZED !== 'false',
+    timeoutMs: parseInt(process.env.SMTP_TIMEOUT_MS || '15000', 10),
+  };
+}
+
+/**
+ * Reads CRLF-terminated, possibly multi-line ("250-...") replies off a socket
+ */
+class SmtpConnection {
+  private buffer = '';
+  private lines: string[] = [];
+  private readonly replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: Socket | TLSSocket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: Socket | TLSSocket): void {
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => this.onData(chunk));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+    let idx: number;
+    while ((idx = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, idx);
+      this.buffer = this.buffer.slice(idx + 2);
+      this.lines.push(line.slice(4));
+      // "250-" continues a reply, "250 " ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.replies.push({ code: parseInt(line.slice(0, 3), 10), lines: this.lines });
+        this.lines = [];
+      }
+    }
+    this.flush();
+  }
+
+  private flush(): void {
+    if (this.waiting && this.replies.length > 0) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve(this.replies.shift()!);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(error);
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    if (this.replies.length > 0) return Promise.resolve(this.replies.shift()!);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  async expect(codes: number[], context: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP ${context} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  async command(line: string, codes: number[], context = line.split(' ')[0]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(codes, context);
+  }
+
+  /**
+   * Upgrade the plain socket after a successful STARTTLS
+   */
+  async startTls(config: SmtpConfig): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('close');
+    const secure = tlsConnect({
+      socket: plain,
+      servername: config.host,
+      rejectUnauthorized: config.rejectUnauthorized ?? true,
+    });
+    await new Promise<void>((resolve, reject) => {
+      secure.once('secureConnect', resolve);
+      secure.once('error', reject);
+    });
+    this.socket = secure;
+    this.attach(secure);
+  }
+
+  end(): void {
+    this.socket.end();
+  }
+
+  destroy(error: Error): void {
+    this.fail(error);
+    this.socket.destroy();
+  }
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * RFC 5322 message with dot-stuffed CRLF body
+ */
+export function formatMessage(mail: MailMessage, date: Date = new Date()): string {
+  const headers = [
+    `From: ${mail.from}`,
+    `To: ${mail.to.join(', ')}`,
+    `Subject: ${encodeHeader(mail.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+  const body = mail.text
+    .replace(/\r?\n/g, '\r\n')
+    .split('\r\n')
+    .map((line) => (line.startsWith('.') ? `.${line}` : line))
+    .join('\r\n');
+  return `${headers.join('\r\n')}\r\n\r\n${body}`;
+}
+
+function openSocket(config: SmtpConfig): Promise<Socket | TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tlsConnect({ host: config.host, port: config.port, servername: config.host, rejectUnauthorized: config.rejectUnauthorized ?? true })
+      : netConnect({ host: config.host, port: config.port });
+    socket.once(config.secure ? 'secureConnect' : 'connect', () => resolve(socket));
+    socket.once('error', reject);
+  });
+}
+
+/**
+ * Deliver one message
+ */
+export async function sendMail(config: SmtpConfig, mail: MailMessage): Promise<void> {
+  if (mail.to.length === 0) {
+    throw new Error('SMTP: no recipients');
+  }
+
+  const socket = await openSocket(config);
+  const conn = new SmtpConnection(socket);
+  const timeoutMs = config.timeoutMs ?? 15000;
+  socket.setTimeout(timeoutMs, () => conn.destroy(new Error(`SMTP timeout after ${timeoutMs}ms`)));
+
+  try {
+    const name = hostname() || 'localhost';
+    await conn.expect([220], 'greeting');
+    const ehlo = await conn.command(`EHLO ${name}`, [250]);
+
+    if (!config.secure && ehlo.lines.some((l) => l.toUpperCase() === 'STARTTLS')) {
+      await conn.command('STARTTLS', [220]);
+      await conn.startTls(config);
+      await conn.command(`EHLO ${name}`, [250]);
+    }
+
+    if (config.user) {
+      const token = Buffer.from(`\u0000${config.user}\u0000${config.pass ?? ''}`, 'utf8').toString('base64');
+      await conn.command(`AUTH PLAIN ${token}`, [235], 'AUTH');
+    }
+
+    await conn.command(`MAIL FROM:<${mail.from}>`, [250], 'MAIL FROM');
+    for (const rcpt of mail.to) {
+      await conn.command(`RCPT TO:<${rcpt}>`, [250, 251], 'RCPT TO');
+    }
+    await conn.command('DATA', [354]);
+    await conn.command(`${formatMessage(mail)}\r\n.`, [250], 'message');
+    await conn.command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    conn.end();
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Read API Server (v3.2.0)
+ *
+ * Serves the versioned read-only API (/v1/...) for downstream services.
+ * Runs separately from the review server so it can be exposed without
+ * the confirm/reject endpoints.
+ *
+ * v3.2.0: /v1/stream pushes latest-quote writes over SSE.
+ * v3.2.0: /healthz + /readyz probes; readiness here only requires the
+ *         database (HEALTH_API_READY_FAIL_ON adds ingestion states).
+ * v3.2.0: /metrics in Prometheus text format, with link totals by status.
+ */
+
+import express from 'express';
+import { getClient, QuoteRepository } from '@data-module/db';
+import { createV1Router } from './api/index.js';
+import { QuoteStreamHub, startQuotePoller, createStreamHandler } from './stream/index.js';
+import { HealthMonitor, collectHealth, createHealthRouter, type IngestionStatus } from './health/index.js';
+import { createMetricsHandler, registerLinkStatusCollector, registerMatchingRunCollector } from './metrics/index.js';
+
+const PORT = parseInt(process.env.API_PORT || '3001', 10);
+const HOST = process.env.API_HOST || '0.0.0.0';
+
+const app = express();
+app.disable('x-powered-by');
+
+const prisma = getClient();
+
+const streamHub = new QuoteStreamHub();
+const stopPoller = startQuotePoller(new QuoteRepository(prisma), streamHub);
+
+const healthMonitor = new HealthMonitor(
+  () => collectHealth(prisma),
+  parseInt(process.env.HEALTH_CACHE_MS || '10000', 10)
+);
+const readyFailOn = (process.env.HEALTH_API_READY_FAIL_ON || '')
+  .split(',')
+  .map((s) => s.trim().toUpperCase())
+  .filter(Boolean) as IngestionStatus[];
+
+registerLinkStatusCollector(prisma);
+registerMatchingRunCollector(prisma);
+
+app.use(createHealthRouter(healthMonitor, { failOn: readyFailOn }));
+app.get('/metrics', createMetricsHandler());
+app.get('/v1/stream', createStreamHandler(prisma, streamHub));
+app.use('/v1', createV1Router(prisma));
+
+app.use((_req, res) => {
+  res.status(404).json({ error: 'Not found' });
+});
+
+// Start server
+app.listen(PORT, HOST, () => {
+  console.log(`\n${'='.repeat(60)}`);
+  console.log(`[api:server] Read API (v3.2.0)`);
+  console.log(`${'='.repeat(60)}`);
+  console.log(`Listening on http://${HOST}:${PORT}`);
+  console.log(`  GET /v1/markets`);
+  console.log(`  GET /v1/markets/:id`);
+  console.log(`  GET /v1/events/:venue/:eventId/quotes`);
+  console.log(`  GET /v1/links`);
+  console.log(`  GET /v1/links/:id/history`);
+  console.log(`  GET /v1/links/:id/events`);
+  console.log(`  GET /v1/consensus`);
+  console.log(`  GET /v1/consensus/history`);
+  console.log(`  GET /v1/matching/runs`);
+  console.log(`  GET /v1/matching/runs/compare?base=&current=`);
+  console.log(`  GET /v1/matching/runs/:id`);
+  console.log(`  GET /v1/stream?markets=&links=&topics=  (SSE)`);
+  console.log(`  GET /healthz`);
+  console.log(`  GET /readyz`);
+  console.log(`  GET /metrics`);
+  console.log(`\nPress Ctrl+C to stop\n`);
+});
+
+process.on('SIGTERM', () => {
+  stopPoller();
+});
@@ -0,0 +1,2 @@
+export { createV1Router } from './v1.js';
+export * from './params.js';
@@ -0,0 +1,70 @@
+/**
+ * Tests for read API query parsing (v3.2.0)
+ *
+ * Run: npx tsx --test services/worker/src/api/params.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { HttpError } from '@data-module/core';
+import {
+  parsePagination,
+  parseIntParam,
+  parseFloatParam,
+  parseDateParam,
+  parseEnum,
+  parseId,
+  MAX_PAGE_LIMIT,
+  DEFAULT_PAGE_LIMIT,
+} from './params.js';
+
+function assert400(fn: () => unknown): void {
+  assert.throws(fn, (err: unknown) => err instanceof HttpError && err.statusCode === 400);
+}
+
+describe('parsePagination', () => {
+  it('applies defaults', () => {
+    assert.deepStrictEqual(parsePagination({}), { limit: DEFAULT_PAGE_LIMIT, offset: 0 });
+  });
+
+  it('caps limit', () => {
+    assert.strictEqual(parsePagination({ limit: '100000' }).limit, MAX_PAGE_LIMIT);
+  });
+
+  it('rejects negative offset and zero limit', () => {
+    assert400(() => parsePagination({ offset: '-1' }));
+    assert400(() => parsePagination({ limit: '0' }));
+  });
+});
+
+describe('scalar params', () => {
+  it('treats empty string as absent', () => {
+    assert.strictEqual(parseIntParam('n', ''), undefined);
+    assert.strictEqual(parseFloatParam('x', ''), undefined);
+  });
+
+  it('rejects non-numeric values', () => {
+    assert400(() => parseIntParam('n', '12abc'));
+    assert400(() => parseFloatParam('x', 'abc'));
+  });
+
+  it('rejects repeated query keys', () => {
+    assert400(() => parseFloatParam('x', ['0.1', '0.2']));
+  });
+
+  it('parses ISO dates', () => {
+    assert.strictEqual(parseDateParam('d', '2026-01-01T00:00:00Z')?.toISOString(), '2026-01-01T00:00:00.000Z');
+    assert400(() => parseDateParam('d', 'yesterday'));
+  });
+
+  it('validates enums', () => {
+    assert.strictEqual(parseEnum('venue', 'kalshi', ['kalshi', 'polymarket'] as const), 'kalshi');
+    assert400(() => parseEnum('venue', 'betfair', ['kalshi', 'polymarket'] as const));
+  });
+
+  it('requires positive ids', () => {
+    assert.strictEqual(parseId('42'), 42);
+    assert400(() => parseId('0'));
+    assert400(() => parseId(undefined));
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Query string parsing for the read API (v3.2.0)
+ *
+ * Invalid values throw HttpError(400) so handlers can surface them as-is.
+ */
+
+import { HttpError } from '@data-module/core';
+
+export const DEFAULT_PAGE_LIMIT = 50;
+export const MAX_PAGE_LIMIT = 500;
+
+type QueryValue = unknown;
+
+export interface Pagination {
+  limit: number;
+  offset: number;
+}
+
+function single(name: string, value: QueryValue): string | undefined {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string') {
+    throw new HttpError(`Invalid ${name}: expected a single value`, 400);
+  }
+  return value;
+}
+
+export function parseString(name: string, value: QueryValue): string | undefined {
+  return single(name, value);
+}
+
+export function parseIntParam(name: string, value: QueryValue, min = 0): number | undefined {
+  const raw = single(name, value);
+  if (raw === undefined) return undefined;
+  if (!/^-?\d+$/.test(raw)) {
+    throw new HttpError(`Invalid ${name}: "${raw}" is not an integer`, 400);
+  }
+  const n = parseInt(raw, 10);
+  if (n < min) {
+    throw new HttpError(`Invalid ${name}: must be >= ${min}`, 400);
+  }
+  return n;
+}
+
+export function parseFloatParam(name: string, value: QueryValue): number | undefined {
+  const raw = single(name, value);
+  if (raw === undefined) return undefined;
+  const n = Number(raw);
+  if (!Number.isFinite(n)) {
+    throw new HttpError(`Invalid ${name}: "${raw}" is not a number`, 400);
+  }
+  return n;
+}
+
+export function parseDateParam(name: string, value: QueryValue): Date | undefined {
+  const raw = single(name, value);
+  if (raw === undefined) return undefined;
+  const d = new Date(raw);
+  if (isNaN(d.getTime())) {
+    throw new HttpError(`Invalid ${name}: "${raw}" is not a valid date`, 400);
+  }
+  return d;
+}
+
+export function parseEnum<T extends string>(name: string, value: QueryValue, allowed: readonly T[]): T | undefined {
+  const raw = single(name, value);
+  if (raw === undefined) return undefined;
+  if (!(allowed as readonly string[]).includes(raw)) {
+    throw new HttpError(`Invalid ${name}: "${raw}" (expected one of ${allowed.join(', ')})`, 400);
+  }
+  return raw as T;
+}
+
+/**
+ * limit/offset with default and cap
+ */
+export function parsePagination(query: Record<string, QueryValue>): Pagination {
+  const limit = parseIntParam('limit', query.limit, 1) ?? DEFAULT_PAGE_LIMIT;
+  const offset = parseIntParam('offset', query.offset, 0) ?? 0;
+  return { limit: Math.min(limit, MAX_PAGE_LIMIT), offset };
+}
+
+/**
+ * Path id parameter (positive integer)
+ */
+export function parseId(value: QueryValue): number {
+  const id = parseIntParam('id', value, 1);
+  if (id === undefined) {
+    throw new HttpError('Missing id', 400);
+  }
+  return id;
+}
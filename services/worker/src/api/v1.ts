@@ -0,0 +1,537 @@
+/**
+ * Read API v1 (v3.2.0)
+ *
+ * Read-only, versioned endpoints for downstream services so they don't
+ * query Postgres directly:
+ *
+ *   GET /v1/markets               ?venue&derivedTopic&status&closeFrom&closeTo&q&limit&offset
+ *   GET /v1/markets/:id           outcomes + latest quotes  ?normalize=proportional|power|shin
+ *   GET /v1/events/:venue/:eventId/quotes  ?method - event book with overround removed (per-market books
+ *                                          when the event's outcomes are not mutually exclusive)
+ *   GET /v1/links                 ?status&topic&algoVersion&minScore&maxScore&limit&offset
+ *   GET /v1/links/:id/history     ?interval&from&to&side&fill - aligned OHLC bars for both sides
+ *   GET /v1/links/:id/events      ?actorType&source&since&limit&offset - status transitions, newest first
+ *   GET /v1/clusters              ?status&topic&venue&minVenues&marketId&limit&offset
+ *   GET /v1/clusters/:id          member markets + conflicts
+ *   GET /v1/markets/:id/cluster   the cluster containing a market
+ *   GET /v1/consensus             ?marketId&topic&diverged&limit - current consensus per link / cluster
+ *   GET /v1/consensus/history     ?subject&marketId&topic&diverged&from&to&limit - consensus time series
+ *   GET /v1/matching/runs         ?topic&fromVenue&toVenue&algoVersion&mode&incremental&since&limit&offset - Engine V3 run history
+ *   GET /v1/matching/runs/compare ?base&current - stage-by-stage comparison (base defaults to the previous run)
+ *   GET /v1/matching/runs/:id     one run with its stats and options
+ */
+
+import express, { type Request, type Response, type Router } from 'express';
+import {
+  MarketRepository,
+  KalshiEventRepository,
+  MarketLinkRepository,
+  QuoteRepository,
+  EventClusterRepository,
+  ConsensusRepository,
+  MatchingRunRepository,
+  MarketLinkEventRepository,
+  type PrismaClient,
+  type ConsensusQuote,
+  type MatchingRun,
+  type EventClusterWithMembers,
+  type ClusterStatus,
+  type MarketStatus,
+  type LinkStatus,
+  type LinkActorType,
+} from '@data-module/db';
+import { HttpError, parseInterval, NORMALIZATION_METHODS } from '@data-module/core';
+import {
+  parseString,
+  parseIntParam,
+  parseFloatParam,
+  parseDateParam,
+  parseEnum,
+  parsePagination,
+  parseId,
+} from './params.js';
+import { getSupportedVenues } from '../adapters/index.js';
+import {
+  normalizeForMarket,
+  normalizeEventBook,
+  normalizeMarketBook,
+  eventExclusivity,
+  outcomeProbabilities,
+  type NormalizedProbabilities,
+} from '../pricing/index.js';
+import { compareRuns, storedRunStages } from '../matching/run-history.js';
+
+const MARKET_STATUSES: readonly MarketStatus[] = ['active', 'closed', 'resolved', 'archived'];
+const LINK_STATUSES: readonly LinkStatus[] = ['suggested', 'confirmed', 'rejected'];
+const CLUSTER_STATUSES: readonly ClusterStatus[] = ['ok', 'conflict'];
+const LINK_ACTOR_TYPES: readonly LinkActorType[] = ['user', 'rule', 'llm', 'engine', 'system'];
+/** Venues whose markets carry an event reference (pmEventId / kalshiEventTicker) */
+const EVENT_VENUES = ['polymarket', 'kalshi'] as const;
+
+/** Default lookback for link history when `from` is omitted */
+const HISTORY_DEFAULT_HOURS = 24;
+const HISTORY_MAX_BARS = 5000;
+
+type Handler = (req: Request, res: Response) => Promise<unknown>;
+
+/**
+ * Wrap a handler so HttpError maps to its status and anything else to 500
+ */
+function handle(label: string, fn: Handler): Handler {
+  return async (req, res) => {
+    try {
+      return await fn(req, res);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error(`[api] ${label} failed:`, error);
+      return res.status(500).json({ error: `Failed to ${label}` });
+    }
+  };
+}
+
+/**
+ * Cluster response shape (list and detail)
+ */
+function toClusterJson(c: EventClusterWithMembers) {
+  return {
+    id: c.id,
+    key: c.key,
+    topic: c.topic,
+    title: c.title,
+    status: c.status,
+    memberCount: c.memberCount,
+    venueCount: c.venueCount,
+    linkCount: c.linkCount,
+    conflicts: c.conflicts ?? [],
+    builtAt: c.builtAt,
+    members: c.members.map((m) => ({ venue: m.venue, ...m.market })),
+  };
+}
+
+/**
+ * Consensus response shape (current and history)
+ */
+function toConsensusJson(c: ConsensusQuote) {
+  return {
+    subject: c.subjectKey,
+    topic: c.topic,
+    marketIds: c.marketIds,
+    ts: c.ts,
+    prob: c.prob,
+    lo: c.lo,
+    hi: c.hi,
+    divergence: c.divergence,
+    diverged: c.diverged,
+    sources: c.sources,
+  };
+}
+
+/**
+ * Matching run response shape (list, detail and compare)
+ */
+function toMatchingRunJson(r: MatchingRun) {
+  return {
+    id: r.id,
+    topic: r.topic,
+    algoVersion: r.algoVersion,
+    fromVenue: r.fromVenue,
+    toVenue: r.toVenue,
+    mode: r.mode,
+    incremental: r.incremental,
+    ok: r.ok,
+    leftCount: r.leftCount,
+    rightCount: r.rightCount,
+    suggestionsCreated: r.suggestionsCreated,
+    autoConfirmed: r.autoConfirmed,
+    autoRejected: r.autoRejected,
+    durationMs: r.durationMs,
+    stages: storedRunStages(r),
+    stats: r.stats,
+    options: r.options,
+    errors: r.errors,
+    startedAt: r.startedAt,
+  };
+}
+
+/**
+ * Book summary without the per-outcome rows
+ */
+function toNormalizationJson(book: NormalizedProbabilities) {
+  return {
+    scope: book.scope,
+    eventId: book.eventId,
+    method: book.method,
+    booksum: book.booksum,
+    overround: book.overround,
+    parameter: book.parameter,
+    unpricedIds: book.unpricedIds,
+    fallbackReason: book.fallbackReason,
+  };
+}
+
+/**
+ * Build the /v1 router
+ */
+export function createV1Router(prisma: PrismaClient): Router {
+  const router = express.Router();
+  const marketRepo = new MarketRepository(prisma);
+  const kalshiEventRepo = new KalshiEventRepository(prisma);
+  const linkRepo = new MarketLinkRepository(prisma);
+  const quoteRepo = new QuoteRepository(prisma);
+  const clusterRepo = new EventClusterRepository(prisma);
+  const consensusRepo = new ConsensusRepository(prisma);
+  const runRepo = new MatchingRunRepository(prisma);
+  const linkEventRepo = new MarketLinkEventRepository(prisma);
+
+  router.get('/markets', handle('list markets', async (req, res) => {
+    const { limit, offset } = parsePagination(req.query);
+    const { items, total } = await marketRepo.searchMarkets({
+      venue: parseEnum('venue', req.query.venue, getSupportedVenues()),
+      derivedTopic: parseString('derivedTopic', req.query.derivedTopic),
+      status: parseEnum('status', req.query.status, MARKET_STATUSES),
+      closeTimeFrom: parseDateParam('closeFrom', req.query.closeFrom),
+      closeTimeTo: parseDateParam('closeTo', req.query.closeTo),
+      q: parseString('q', req.query.q),
+      limit,
+      offset,
+    });
+
+    res.json({
+      data: items.map((m) => ({
+        id: m.id,
+        venue: m.venue,
+        externalId: m.externalId,
+        title: m.title,
+        category: m.category,
+        derivedTopic: m.derivedTopic,
+        status: m.status,
+        closeTime: m.closeTime,
+        updatedAt: m.updatedAt,
+      })),
+      pagination: { limit, offset, total },
+    });
+  }));
+
+  router.get('/markets/:id', handle('fetch market', async (req, res) => {
+    const id = parseId(req.params.id);
+    const normalize = parseEnum('normalize', req.query.normalize, NORMALIZATION_METHODS);
+    const market = await marketRepo.getByIdWithLatestQuotes(id);
+    if (!market) {
+      throw new HttpError(`Market ${id} not found`, 404);
+    }
+    const book = normalize ? await normalizeForMarket(marketRepo, kalshiEventRepo, market, normalize) : null;
+    const normalized = book ? outcomeProbabilities(market, book) : null;
+
+    res.json({
+      data: {
+        id: market.id,
+        venue: market.venue,
+        externalId: market.externalId,
+        title: market.title,
+        category: market.category,
+        derivedTopic: market.derivedTopic,
+        status: market.status,
+        statusMeta: market.statusMeta,
+        closeTime: market.closeTime,
+        createdAt: market.createdAt,
+        updatedAt: market.updatedAt,
+        outcomes: market.outcomes.map((o) => ({
+          id: o.id,
+          externalId: o.externalId,
+          name: o.name,
+          side: o.side,
+          latestQuote: o.latestQuote
+            ? {
+                ts: o.latestQuote.ts,
+                price: o.latestQuote.price,
+                impliedProb: o.latestQuote.impliedProb,
+                bestBid: o.latestQuote.bestBid,
+                bestAsk: o.latestQuote.bestAsk,
+                bidSize: o.latestQuote.bidSize,
+                askSize: o.latestQuote.askSize,
+                spread: o.latestQuote.spread,
+                liquidity: o.latestQuote.liquidity,
+                volume: o.latestQuote.volume,
+                ...(normalized && { normalizedProb: normalized.get(o.id) ?? null }),
+              }
+            : null,
+        })),
+        ...(book && { normalization: toNormalizationJson(book) }),
+      },
+    });
+  }));
+
+  router.get('/events/:venue/:eventId/quotes', handle('fetch event quotes', async (req, res) => {
+    const venue = parseEnum('venue', req.params.venue, EVENT_VENUES)!;
+    const eventId = parseString('eventId', req.params.eventId)!;
+    const method = parseEnum('method', req.query.method, NORMALIZATION_METHODS) ?? 'proportional';
+
+    const markets = await marketRepo.getEventMarketsWithLatestQuotes(
+      venue === 'polymarket' ? { pmEventId: eventId } : { kalshiEventTicker: eventId }
+    );
+    if (markets.length === 0) {
+      throw new HttpError(`No active ${venue} markets for event ${eventId}`, 404);
+    }
+
+    // v3.2.0: Threshold ladders and independent markets are not one book
+    const fallbackReason = markets.length < 2
+      ? null
+      : await eventExclusivity(kalshiEventRepo, venue, eventId, markets);
+    if (fallbackReason) {
+      res.json({
+        data: {
+          venue,
+          scope: 'market',
+          eventId,
+          method,
+          fallbackReason,
+          markets: markets.map((m) => {
+            const book = normalizeMarketBook(m, method, fallbackReason);
+            return { marketId: m.id, title: m.title, ...toNormalizationJson(book), outcomes: book.outcomes };
+          }),
+        },
+      });
+      return;
+    }
+
+    const book = normalizeEventBook(venue, eventId, markets, method);
+    res.json({
+      data: {
+        venue,
+        ...toNormalizationJson(book),
+        outcomes: book.outcomes,
+      },
+    });
+  }));
+
+  router.get('/links', handle('list links', async (req, res) => {
+    const { limit, offset } = parsePagination(req.query);
+    const { items, total } = await linkRepo.searchLinks({
+      status: parseEnum('status', req.query.status, LINK_STATUSES),
+      topic: parseString('topic', req.query.topic),
+      algoVersion: parseString('algoVersion', req.query.algoVersion),
+      minScore: parseFloatParam('minScore', req.query.minScore),
+      maxScore: parseFloatParam('maxScore', req.query.maxScore),
+      limit,
+      offset,
+    });
+
+    res.json({
+      data: items.map((l) => ({
+        id: l.id,
+        status: l.status,
+        score: l.score,
+        topic: l.topic,
+        algoVersion: l.algoVersion,
+        reason: l.reason,
+        left: { venue: l.leftVenue, ...l.leftMarket },
+        right: { venue: l.rightVenue, ...l.rightMarket },
+        createdAt: l.createdAt,
+        updatedAt: l.updatedAt,
+      })),
+      pagination: { limit, offset, total },
+    });
+  }));
+
+  router.get('/links/:id/history', handle('fetch link history', async (req, res) => {
+    const id = parseId(req.params.id);
+    const to = parseDateParam('to', req.query.to) ?? new Date();
+    const from = parseDateParam('from', req.query.from)
+      ?? new Date(to.getTime() - HISTORY_DEFAULT_HOURS * 60 * 60 * 1000);
+    if (from >= to) {
+      throw new HttpError('Invalid range: from must be before to', 400);
+    }
+    const interval = parseString('interval', req.query.interval) ?? '1h';
+    let intervalMs: number;
+    try {
+      intervalMs = parseInterval(interval);
+    } catch (error) {
+      throw new HttpError((error as Error).message, 400);
+    }
+    if ((to.getTime() - from.getTime()) / intervalMs > HISTORY_MAX_BARS) {
+      throw new HttpError(`Too many bars (max ${HISTORY_MAX_BARS}): use a larger interval or shorter range`, 400);
+    }
+    const side = parseEnum('side', req.query.side, ['yes', 'no'] as const);
+    const fill = parseEnum('fill', req.query.fill, ['true', 'false'] as const);
+
+    const series = await quoteRepo.getLinkQuoteBars(id, {
+      from,
+      to,
+      interval,
+      side,
+      forwardFill: fill !== 'false',
+    });
+    if (!series) {
+      throw new HttpError(`Link ${id} not found`, 404);
+    }
+
+    res.json({ data: series });
+  }));
+
+  router.get('/links/:id/events', handle('list link events', async (req, res) => {
+    const id = parseId(req.params.id);
+    const { limit, offset } = parsePagination(req.query);
+    const { items, total } = await linkEventRepo.list({
+      linkId: id,
+      actorType: parseEnum('actorType', req.query.actorType, LINK_ACTOR_TYPES),
+      source: parseString('source', req.query.source),
+      since: parseDateParam('since', req.query.since),
+      limit,
+      offset,
+    });
+
+    res.json({
+      data: items.map((e) => ({
+        id: e.id,
+        linkId: e.linkId,
+        from: e.fromStatus === null ? null : { status: e.fromStatus, reason: e.fromReason, score: e.fromScore },
+        to: { status: e.toStatus, reason: e.toReason, score: e.toScore },
+        algoVersion: e.algoVersion,
+        actor: { type: e.actorType, id: e.actorId },
+        source: e.source,
+        rollbackOfId: e.rollbackOfId,
+        createdAt: e.createdAt,
+      })),
+      pagination: { limit, offset, total },
+    });
+  }));
+
+  router.get('/clusters', handle('list clusters', async (req, res) => {
+    const { limit, offset } = parsePagination(req.query);
+    const { items, total } = await clusterRepo.searchClusters({
+      status: parseEnum('status', req.query.status, CLUSTER_STATUSES),
+      topic: parseString('topic', req.query.topic),
+      venue: parseEnum('venue', req.query.venue, getSupportedVenues()),
+      minVenues: parseIntParam('minVenues', req.query.minVenues, 1),
+      marketId: parseIntParam('marketId', req.query.marketId, 1),
+      limit,
+      offset,
+    });
+
+    res.json({
+      data: items.map(toClusterJson),
+      pagination: { limit, offset, total },
+    });
+  }));
+
+  router.get('/clusters/:id', handle('fetch cluster', async (req, res) => {
+    const id = parseId(req.params.id);
+    const cluster = await clusterRepo.getById(id);
+    if (!cluster) {
+      throw new HttpError(`Cluster ${id} not found`, 404);
+    }
+
+    res.json({ data: toClusterJson(cluster) });
+  }));
+
+  router.get('/markets/:id/cluster', handle('fetch market cluster', async (req, res) => {
+    const id = parseId(req.params.id);
+    const cluster = await clusterRepo.getByMarketId(id);
+    if (!cluster) {
+      throw new HttpError(`Market ${id} is not in a cluster`, 404);
+    }
+
+    res.json({ data: toClusterJson(cluster) });
+  }));
+
+  router.get('/consensus', handle('fetch consensus', async (req, res) => {
+    const { limit } = parsePagination(req.query);
+    const items = await consensusRepo.getLatest({
+      marketId: parseIntParam('marketId', req.query.marketId, 1),
+      topic: parseString('topic', req.query.topic),
+      divergedOnly: parseEnum('diverged', req.query.diverged, ['true', 'false'] as const) === 'true',
+      limit,
+    });
+
+    res.json({ data: items.map(toConsensusJson) });
+  }));
+
+  router.get('/consensus/history', handle('fetch consensus history', async (req, res) => {
+    const { limit } = parsePagination(req.query);
+    const subjectKey = parseString('subject', req.query.subject);
+    const marketId = parseIntParam('marketId', req.query.marketId, 1);
+    const topic = parseString('topic', req.query.topic);
+    if (!subjectKey && marketId === undefined && !topic) {
+      throw new HttpError('One of subject, marketId or topic is required', 400);
+    }
+    const from = parseDateParam('from', req.query.from);
+    const to = parseDateParam('to', req.query.to);
+    if (from && to && from >= to) {
+      throw new HttpError('Invalid range: from must be before to', 400);
+    }
+
+    const items = await consensusRepo.getSeries({
+      subjectKey,
+      marketId,
+      topic,
+      from,
+      to,
+      divergedOnly: parseEnum('diverged', req.query.diverged, ['true', 'false'] as const) === 'true',
+      limit,
+    });
+
+    res.json({ data: items.map(toConsensusJson) });
+  }));
+
+  router.get('/matching/runs', handle('list matching runs', async (req, res) => {
+    const { limit, offset } = parsePagination(req.query);
+    const incremental = parseEnum('incremental', req.query.incremental, ['true', 'false'] as const);
+    const { items, total } = await runRepo.list({
+      topic: parseString('topic', req.query.topic),
+      fromVenue: parseString('fromVenue', req.query.fromVenue),
+      toVenue: parseString('toVenue', req.query.toVenue),
+      algoVersion: parseString('algoVersion', req.query.algoVersion),
+      mode: parseEnum('mode', req.query.mode, ['suggest', 'dry-run'] as const),
+      incremental: incremental === undefined ? undefined : incremental === 'true',
+      since: parseDateParam('since', req.query.since),
+      limit,
+      offset,
+    });
+
+    res.json({
+      data: items.map(toMatchingRunJson),
+      pagination: { limit, offset, total },
+    });
+  }));
+
+  router.get('/matching/runs/compare', handle('compare matching runs', async (req, res) => {
+    const currentId = parseIntParam('current', req.query.current, 1);
+    if (currentId === undefined) {
+      throw new HttpError('current is required', 400);
+    }
+    const baseId = parseIntParam('base', req.query.base, 1);
+
+    const current = await runRepo.getById(currentId);
+    if (!current) {
+      throw new HttpError(`Run ${currentId} not found`, 404);
+    }
+    const base = baseId !== undefined ? await runRepo.getById(baseId) : await runRepo.getPrevious(current);
+    if (!base) {
+      throw new HttpError(baseId !== undefined ? `Run ${baseId} not found` : `Run ${currentId} has no previous run`, 404);
+    }
+
+    const comparison = compareRuns(base, current);
+    res.json({
+      data: {
+        base: toMatchingRunJson(base),
+        current: toMatchingRunJson(current),
+        stages: comparison.stages,
+        regressions: comparison.regressions,
+      },
+    });
+  }));
+
+  router.get('/matching/runs/:id', handle('fetch matching run', async (req, res) => {
+    const id = parseId(req.params.id);
+    const run = await runRepo.getById(id);
+    if (!run) {
+      throw new HttpError(`Run ${id} not found`, 404);
+    }
+
+    res.json({ data: toMatchingRunJson(run) });
+  }));
+
+  return router;
+}
@@ -0,0 +1,188 @@
+/**
+ * Tests for cross-venue arbitrage engine (v3.2.0)
+ *
+ * Run: npx tsx --test services/worker/src/arb/arbEngine.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  evaluateLink,
+  resolveLeg,
+  computeFee,
+  detectInvertedPair,
+  type ArbLinkInput,
+  type ArbMarketSide,
+  type ArbScanConfig,
+} from './arbEngine.js';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+const CONFIG: ArbScanConfig = {
+  minNetEdge: 0,
+  maxQuoteAgeSec: 600,
+  feeRates: { kalshi: 0.07, polymarket: 0 },
+};
+
+function side(
+  venue: 'kalshi' | 'polymarket',
+  title: string,
+  yes: number | null,
+  no: number | null,
+  opts: { ageSec?: number; liquidity?: number; idBase?: number } = {}
+): ArbMarketSide {
+  const ts = new Date(NOW.getTime() - (opts.ageSec ?? 10) * 1000);
+  const idBase = opts.idBase ?? 1;
+  return {
+    venue,
+    title,
+    outcomes: [
+      { outcomeId: idBase, side: 'yes', quote: yes === null ? null : { price: yes, ask: null, bid: null, liquidity: opts.liquidity ?? 100, bidSize: null, ts } },
+      { outcomeId: idBase + 1, side: 'no', quote: no === null ? null : { price: no, ask: null, bid: null, liquidity: opts.liquidity ?? 100, bidSize: null, ts } },
+    ],
+  };
+}
+
+describe('detectInvertedPair', () => {
+  it('detects above/below phrasing', () => {
+    assert.strictEqual(detectInvertedPair('Bitcoin above $100k on March 1?', 'Bitcoin below $100k on March 1?'), true);
+  });
+
+  it('detects negation in one title only', () => {
+    assert.strictEqual(detectInvertedPair('Will the Fed cut rates in March?', 'Fed will not cut rates in March'), true);
+  });
+
+  it('treats same phrasing as aligned', () => {
+    assert.strictEqual(detectInvertedPair('Bitcoin above $100k?', 'BTC at or above 100,000?'), false);
+  });
+
+  it('requires opposite comparators to share the threshold', () => {
+    assert.strictEqual(detectInvertedPair('Bitcoin above $100k on March 1?', 'Bitcoin below $90k on March 1?'), false);
+    assert.strictEqual(detectInvertedPair('Bitcoin above $100k?', 'Bitcoin below its all-time high?'), false);
+  });
+
+  it('ignores a negation word outside the shared predicate', () => {
+    assert.strictEqual(
+      detectInvertedPair('Will the Fed cut rates in March?', 'Will the Fed cut rates in March if inflation does not fall?'),
+      false
+    );
+    assert.strictEqual(detectInvertedPair('Will Sunak be PM on June 30?', 'Will Sunak no longer lead the Conservatives by June?'), false);
+    assert.strictEqual(detectInvertedPair("Fed won't cut rates in March", 'Will the Fed cut rates in March?'), true);
+  });
+});
+
+describe('computeFee', () => {
+  it('applies rate * p * (1 - p)', () => {
+    assert.ok(Math.abs(computeFee('kalshi', 0.5, CONFIG.feeRates) - 0.0175) < 1e-9);
+  });
+
+  it('is zero for fee-free venue', () => {
+    assert.strictEqual(computeFee('polymarket', 0.5, CONFIG.feeRates), 0);
+  });
+});
+
+describe('resolveLeg', () => {
+  it('prefers ask over mid price', () => {
+    const market = side('kalshi', 'X', 0.4, 0.6);
+    market.outcomes[0].quote!.ask = 0.42;
+    const leg = resolveLeg(market, 'yes', NOW);
+    assert.strictEqual(leg?.price, 0.42);
+    assert.strictEqual(leg?.derived, false);
+  });
+
+  it('derives missing side from complement', () => {
+    const leg = resolveLeg(side('polymarket', 'X', 0.3, null), 'no', NOW);
+    assert.ok(leg);
+    assert.ok(Math.abs(leg.price - 0.7) < 1e-9);
+    assert.strictEqual(leg.derived, true);
+    assert.strictEqual(leg.outcomeId, 2);
+  });
+
+  it('derives the missing ask from the opposite bid', () => {
+    const market = side('polymarket', 'X', 0.3, null);
+    market.outcomes[0].quote!.bid = 0.28;
+    market.outcomes[0].quote!.bidSize = 40;
+    const leg = resolveLeg(market, 'no', NOW);
+    assert.ok(leg);
+    assert.ok(Math.abs(leg.price - 0.72) < 1e-9);
+    assert.strictEqual(leg.liquidity, 40);
+  });
+});
+
+describe('evaluateLink', () => {
+  it('finds L_YES+R_NO when left is cheap', () => {
+    const link: ArbLinkInput = {
+      linkId: 7,
+      left: side('polymarket', 'Will X happen?', 0.40, 0.60),
+      right: side('kalshi', 'Will X happen?', 0.50, 0.50, { idBase: 10 }),
+    };
+    const result = evaluateLink(link, CONFIG, NOW);
+    assert.strictEqual(result.inverted, false);
+    assert.strictEqual(result.opportunities.length, 1);
+    const opp = result.opportunities[0];
+    assert.strictEqual(opp.strategy, 'L_YES+R_NO');
+    assert.ok(Math.abs(opp.grossEdge - 0.10) < 1e-9);
+    // Kalshi fee on 0.50 leg = 0.0175
+    assert.ok(Math.abs(opp.netEdge - 0.0825) < 1e-9);
+    assert.strictEqual(opp.rightOutcomeId, 11);
+  });
+
+  it('uses same-side legs for inverted pairs', () => {
+    const link: ArbLinkInput = {
+      linkId: 8,
+      left: side('polymarket', 'BTC above $100k?', 0.40, 0.60),
+      right: side('kalshi', 'BTC below $100k?', 0.45, 0.55, { idBase: 10 }),
+    };
+    const result = evaluateLink(link, CONFIG, NOW);
+    assert.strictEqual(result.inverted, true);
+    assert.strictEqual(result.opportunities[0].strategy, 'L_YES+R_YES');
+  });
+
+  it('reports nothing when prices are consistent', () => {
+    const link: ArbLinkInput = {
+      linkId: 9,
+      left: side('polymarket', 'Will X happen?', 0.50, 0.50),
+      right: side('kalshi', 'Will X happen?', 0.50, 0.50, { idBase: 10 }),
+    };
+    const result = evaluateLink(link, CONFIG, NOW);
+    assert.strictEqual(result.opportunities.length, 0);
+    assert.ok(result.bestNetEdge !== null && result.bestNetEdge < 0);
+  });
+
+  it('limits size by the thinner leg', () => {
+    const link: ArbLinkInput = {
+      linkId: 10,
+      left: side('polymarket', 'Will X happen?', 0.30, 0.70, { liquidity: 500 }),
+      right: side('kalshi', 'Will X happen?', 0.50, 0.50, { liquidity: 40, idBase: 10 }),
+    };
+    const result = evaluateLink(link, CONFIG, NOW);
+    assert.strictEqual(result.opportunities[0].size, 40);
+  });
+
+  it('skips stale quotes', () => {
+    const link: ArbLinkInput = {
+      linkId: 11,
+      left: side('polymarket', 'Will X happen?', 0.30, 0.70, { ageSec: 3600 }),
+      right: side('kalshi', 'Will X happen?', 0.50, 0.50, { idBase: 10 }),
+    };
+    const result = evaluateLink(link, CONFIG, NOW);
+    assert.strictEqual(result.opportunities.length, 0);
+    assert.strictEqual(result.skipReason, 'stale_quotes');
+  });
+
+  it('skips non-binary markets', () => {
+    const link: ArbLinkInput = {
+      linkId: 12,
+      left: {
+        venue: 'polymarket',
+        title: 'Lakers vs Celtics',
+        outcomes: [
+          { outcomeId: 1, side: 'other', quote: null },
+          { outcomeId: 2, side: 'other', quote: null },
+        ],
+      },
+      right: side('kalshi', 'Lakers win?', 0.5, 0.5, { idBase: 10 }),
+    };
+    assert.strictEqual(evaluateLink(link, CONFIG, NOW).skipReason, 'non_binary');
+  });
+});
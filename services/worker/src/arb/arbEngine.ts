@@ -0,0 +1,282 @@
+/**
+ * Cross-venue Arbitrage Engine (v3.2.0)
+ *
+ * Evaluates confirmed MarketLinks against each side's latest quotes.
+ *
+ * For a binary pair where left YES ≡ right YES, holding left YES + right NO
+ * (or left NO + right YES) pays exactly 1 in every state of the world, so
+ *   grossEdge = 1 - (cost of both legs)
+ *   netEdge   = grossEdge - fees on both legs
+ *
+ * When the right market is phrased as the negation of the left one
+ * ("above X" vs "below X" on the same X, or "X will happen" vs "X will not
+ * happen"), left YES ≡ right NO and the legs flip.
+ *
+ * Pure functions only - persistence lives in ArbOpportunityRepository.
+ */
+
+import type { Venue, ArbObservation } from '@data-module/db';
+import { extractComparator, extractNumbers, numbersCompatible } from '../ops/safe-rules.js';
+
+export type LegSide = 'yes' | 'no';
+
+export interface ArbQuote {
+  /** Mid / last price in 0..1 */
+  price: number;
+  /** Best ask in 0..1 if known (what we pay to buy) */
+  ask: number | null;
+  /** Best bid in 0..1 if known (what selling this outcome fetches) */
+  bid: number | null;
+  /** Size available at the ask (contracts) */
+  liquidity: number | null;
+  /** Size available at the bid (contracts) */
+  bidSize: number | null;
+  ts: Date;
+}
+
+export interface ArbOutcome {
+  outcomeId: number;
+  side: 'yes' | 'no' | 'other';
+  quote: ArbQuote | null;
+}
+
+export interface ArbMarketSide {
+  venue: Venue;
+  title: string;
+  outcomes: ArbOutcome[];
+}
+
+export interface ArbLinkInput {
+  linkId: number;
+  left: ArbMarketSide;
+  right: ArbMarketSide;
+}
+
+export interface ArbScanConfig {
+  /** Minimum net edge (after fees) to report, in probability points */
+  minNetEdge: number;
+  /** Quotes older than this are ignored */
+  maxQuoteAgeSec: number;
+  /** Per-venue taker fee rate, applied as rate * p * (1 - p) per contract; unlisted venues pay none */
+  feeRates: Partial<Record<Venue, number>>;
+}
+
+export const DEFAULT_ARB_CONFIG: ArbScanConfig = {
+  minNetEdge: parseFloat(process.env.ARB_MIN_NET_EDGE || '0'),
+  maxQuoteAgeSec: parseInt(process.env.ARB_MAX_QUOTE_AGE_SEC || '900', 10),
+  feeRates: {
+    kalshi: parseFloat(process.env.ARB_FEE_RATE_KALSHI || '0.07'),
+    polymarket: parseFloat(process.env.ARB_FEE_RATE_POLYMARKET || '0'),
+    manifold: parseFloat(process.env.ARB_FEE_RATE_MANIFOLD || '0'),
+  },
+};
+
+export interface ArbLeg {
+  outcomeId: number;
+  side: LegSide;
+  price: number;
+  liquidity: number | null;
+  ageSec: number;
+  /** true if price was derived from the complementary outcome */
+  derived: boolean;
+}
+
+export interface ArbOpportunity extends ArbObservation {
+  leftVenue: Venue;
+  rightVenue: Venue;
+  leftSide: LegSide;
+  rightSide: LegSide;
+  leftFee: number;
+  rightFee: number;
+}
+
+export interface ArbLinkEvaluation {
+  linkId: number;
+  inverted: boolean;
+  /** Opportunities passing minNetEdge, best first */
+  opportunities: ArbOpportunity[];
+  /** Best net edge among all evaluated strategies (even if below threshold) */
+  bestNetEdge: number | null;
+  skipReason?: string;
+}
+
+const NEGATION_PATTERN = /\b(?:not|won['’]t|will not|fails? to|no longer)\b/gi;
+
+/** Filler words that don't change what a title asserts */
+const PREDICATE_STOPWORDS = new Set(['will', 'the', 'a', 'an', 'be', 'is', 'does', 'do', 'in', 'on', 'by', 'of']);
+
+/** Comparator word followed by its threshold ("above $100k", "at most 3.5%") */
+const THRESHOLD_PATTERN = /(?:above|below|at least|at most|≥|≤|>=|<=)\s*(\$?\d[\d,]*(?:\.\d+)?[kmb%]?)/i;
+
+function comparatorThreshold(title: string): number | null {
+  const match = title.match(THRESHOLD_PATTERN);
+  const numbers = match ? extractNumbers(match[1]) : [];
+  return numbers.length > 0 ? numbers[0] : null;
+}
+
+function hasNegation(title: string): boolean {
+  return title.search(NEGATION_PATTERN) !== -1;
+}
+
+/**
+ * Content words of a title with negations and filler removed, sorted
+ */
+function predicateKey(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(NEGATION_PATTERN, ' ')
+    .split(/[^a-z0-9$.,%]+/)
+    .map((t) => t.replace(/[.,]+$/, ''))
+    .filter((t) => t && !PREDICATE_STOPWORDS.has(t))
+    .sort()
+    .join(' ');
+}
+
+/**
+ * Detect pairs where one market is phrased as the negation of the other.
+ * Requires structural evidence, not just a negation word somewhere:
+ * - opposite comparators on the same threshold ("BTC above $100k" vs "BTC below $100k")
+ * - the same predicate with a negation on one side only
+ *   ("Will the Fed cut rates?" vs "Fed will not cut rates")
+ */
+export function detectInvertedPair(leftTitle: string, rightTitle: string): boolean {
+  const leftComp = extractComparator(leftTitle);
+  const rightComp = extractComparator(rightTitle);
+  if ((leftComp === 'GE' && rightComp === 'LE') || (leftComp === 'LE' && rightComp === 'GE')) {
+    const leftThreshold = comparatorThreshold(leftTitle);
+    const rightThreshold = comparatorThreshold(rightTitle);
+    return leftThreshold !== null && rightThreshold !== null
+      && numbersCompatible([leftThreshold], [rightThreshold]).compatible;
+  }
+
+  if (hasNegation(leftTitle) === hasNegation(rightTitle)) return false;
+  return predicateKey(leftTitle) === predicateKey(rightTitle);
+}
+
+/**
+ * Venue fee per contract at a given price
+ */
+export function computeFee(venue: Venue, price: number, feeRates: Partial<Record<Venue, number>>): number {
+  const rate = feeRates[venue] ?? 0;
+  return rate * price * (1 - price);
+}
+
+/**
+ * Resolve the executable buy price for one side of a binary market.
+ * Falls back to the complement of the opposite outcome's bid if this side
+ * has no quote (buying Yes ≈ selling No).
+ */
+export function resolveLeg(market: ArbMarketSide, side: LegSide, now: Date): ArbLeg | null {
+  const outcome = market.outcomes.find((o) => o.side === side);
+  if (!outcome) return null;
+
+  if (outcome.quote) {
+    return {
+      outcomeId: outcome.outcomeId,
+      side,
+      price: outcome.quote.ask ?? outcome.quote.price,
+      liquidity: outcome.quote.liquidity,
+      ageSec: Math.max(0, Math.round((now.getTime() - outcome.quote.ts.getTime()) / 1000)),
+      derived: false,
+    };
+  }
+
+  const opposite = market.outcomes.find((o) => o.side === (side === 'yes' ? 'no' : 'yes'));
+  if (!opposite?.quote) return null;
+
+  return {
+    outcomeId: outcome.outcomeId,
+    side,
+    price: 1 - (opposite.quote.bid ?? opposite.quote.price),
+    liquidity: opposite.quote.bid !== null ? opposite.quote.bidSize : opposite.quote.liquidity,
+    ageSec: Math.max(0, Math.round((now.getTime() - opposite.quote.ts.getTime()) / 1000)),
+    derived: true,
+  };
+}
+
+function minKnown(a: number | null, b: number | null): number | null {
+  if (a === null) return b;
+  if (b === null) return a;
+  return Math.min(a, b);
+}
+
+/**
+ * Evaluate both hedged strategies for a confirmed link
+ */
+export function evaluateLink(
+  link: ArbLinkInput,
+  config: ArbScanConfig = DEFAULT_ARB_CONFIG,
+  now: Date = new Date()
+): ArbLinkEvaluation {
+  const inverted = detectInvertedPair(link.left.title, link.right.title);
+  const base = { linkId: link.linkId, inverted, opportunities: [], bestNetEdge: null };
+
+  const isBinary = (m: ArbMarketSide) =>
+    m.outcomes.some((o) => o.side === 'yes') && m.outcomes.some((o) => o.side === 'no');
+  if (!isBinary(link.left) || !isBinary(link.right)) {
+    return { ...base, skipReason: 'non_binary' };
+  }
+
+  // Pairs of (left side, right side) that together pay 1 in every state
+  const strategies: Array<[LegSide, LegSide]> = inverted
+    ? [['yes', 'yes'], ['no', 'no']]
+    : [['yes', 'no'], ['no', 'yes']];
+
+  const opportunities: ArbOpportunity[] = [];
+  let bestNetEdge: number | null = null;
+  let sawQuote = false;
+
+  for (const [leftSide, rightSide] of strategies) {
+    const leftLeg = resolveLeg(link.left, leftSide, now);
+    const rightLeg = resolveLeg(link.right, rightSide, now);
+    if (!leftLeg || !rightLeg) continue;
+    sawQuote = true;
+
+    if (leftLeg.ageSec > config.maxQuoteAgeSec || rightLeg.ageSec > config.maxQuoteAgeSec) {
+      continue;
+    }
+
+    const grossEdge = 1 - (leftLeg.price + rightLeg.price);
+    const leftFee = computeFee(link.left.venue, leftLeg.price, config.feeRates);
+    const rightFee = computeFee(link.right.venue, rightLeg.price, config.feeRates);
+    const netEdge = grossEdge - leftFee - rightFee;
+
+    if (bestNetEdge === null || netEdge > bestNetEdge) {
+      bestNetEdge = netEdge;
+    }
+
+    if (netEdge < config.minNetEdge) continue;
+
+    opportunities.push({
+      linkId: link.linkId,
+      strategy: `L_${leftSide.toUpperCase()}+R_${rightSide.toUpperCase()}`,
+      inverted,
+      leftOutcomeId: leftLeg.outcomeId,
+      rightOutcomeId: rightLeg.outcomeId,
+      leftPrice: leftLeg.price,
+      rightPrice: rightLeg.price,
+      grossEdge,
+      netEdge,
+      size: minKnown(leftLeg.liquidity, rightLeg.liquidity),
+      leftQuoteAgeSec: leftLeg.ageSec,
+      rightQuoteAgeSec: rightLeg.ageSec,
+      leftVenue: link.left.venue,
+      rightVenue: link.right.venue,
+      leftSide,
+      rightSide,
+      leftFee,
+      rightFee,
+    });
+  }
+
+  opportunities.sort((a, b) => b.netEdge - a.netEdge);
+
+  if (!sawQuote) {
+    return { ...base, skipReason: 'no_quotes' };
+  }
+  if (bestNetEdge === null) {
+    return { ...base, skipReason: 'stale_quotes' };
+  }
+
+  return { linkId: link.linkId, inverted, opportunities, bestNetEdge };
+}
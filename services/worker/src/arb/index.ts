@@ -0,0 +1,16 @@
+export {
+  evaluateLink,
+  resolveLeg,
+  computeFee,
+  detectInvertedPair,
+  DEFAULT_ARB_CONFIG,
+  type ArbQuote,
+  type ArbOutcome,
+  type ArbMarketSide,
+  type ArbLinkInput,
+  type ArbScanConfig,
+  type ArbLeg,
+  type ArbOpportunity,
+  type ArbLinkEvaluation,
+  type LegSide,
+} from './arbEngine.js';
@@ -233,6 +233,53 @@ program
     }
   });
 
+// health:watch - Ingestion health watchdog with /healthz + /readyz (v3.2.0)
+program
+  .command('health:watch')
+  .description('Re-run health checks on a schedule, notify on state changes and serve /healthz + /readyz (v3.2.0)')
+  .option('--interval-sec <seconds>', 'Evaluation interval', String(parseInt(process.env.HEALTH_WATCH_INTERVAL_MS || '60000', 10) / 1000))
+  .option('--sinks <json>', 'Alert sinks for state changes, e.g. \'[{"type":"slack","url":"..."}]\'', process.env.HEALTH_ALERT_SINKS)
+  .option('--port <port>', 'Probe server port (0 = no server)', process.env.HEALTH_PORT || '3002')
+  .option('--host <host>', 'Probe server bind address', '0.0.0.0')
+  .option('--max-stale <minutes>', 'Max age for quotes to be considered fresh', '5')
+  .option('--max-job-age <minutes>', 'Max age for last successful job run', '10')
+  .action(async (opts) => {
+    const { HealthMonitor, collectHealth, startHealthWatchdog, startHealthServer } = await import('./health/index.js');
+    const { getClient } = await import('@data-module/db');
+
+    let sinks: Array<{ type: string }> = [];
+    try {
+      sinks = opts.sinks ? JSON.parse(opts.sinks) : [];
+    } catch (error) {
+      console.error('Invalid JSON in --sinks / HEALTH_ALERT_SINKS:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+
+    const intervalMs = parseFloat(opts.intervalSec) * 1000;
+    const healthOptions = {
+      maxStaleMinutes: parseInt(opts.maxStale, 10),
+      maxLastSuccessMinutes: parseInt(opts.maxJobAge, 10),
+    };
+    // Probes between evaluations reuse the watchdog's latest result
+    const monitor = new HealthMonitor(() => collectHealth(getClient(), healthOptions), intervalMs);
+
+    console.log(`[health:watch] Evaluating every ${intervalMs / 1000}s, ${sinks.length} sink(s)`);
+    const handle = startHealthWatchdog(monitor, { intervalMs, sinks });
+
+    const port = parseInt(opts.port, 10);
+    const server = port > 0 ? startHealthServer(monitor, { port, host: opts.host }) : null;
+    if (server) {
+      console.log(`[health:watch] Probes on http://${opts.host}:${port}/healthz and /readyz`);
+    }
+
+    const stop = () => {
+      handle.stop();
+      server?.close();
+    };
+    process.on('SIGTERM', stop);
+    process.on('SIGINT', stop);
+  });
+
 // Reconcile command
 program
   .command('reconcile')
@@ -1511,18 +1558,20 @@ program
   .command('links:auto-reject')
   .description('Auto-reject low-quality suggested links (v2.6.8: topic-specific floors, min-age)')
   .option('--topic <topic>', 'Filter by topic (crypto_daily, crypto_intraday, macro, all)', 'all')
-  .option('--min-age-hours <hours>', 'Only reject links older than N hours', '24')
+  .option('--min-age-hours <hours>', 'Only reject links older than N hours (default: ruleset, 24)')
   .option('--limit <number>', 'Maximum links to process', '5000')
   .option('--apply', 'Actually reject (default: dry-run)', false)
   .option('--explain', 'Show detailed evaluation for each link', false)
+  .option('--rules <file>', 'Ruleset file (default: rules/link-rules.json)')
   .action(async (opts) => {
     try {
       await runLinksAutoReject({
         topic: opts.topic,
-        minAgeHours: parseInt(opts.minAgeHours, 10),
+        minAgeHours: opts.minAgeHours !== undefined ? parseInt(opts.minAgeHours, 10) : undefined,
         limit: parseInt(opts.limit, 10),
         apply: opts.apply,
         explain: opts.explain,
+        rules: opts.rules,
       });
     } catch (error) {
       console.error('Links auto-reject error:', error);
@@ -1541,6 +1590,7 @@ program
   .option('--limit <number>', 'Maximum links to process', '500')
   .option('--apply', 'Actually confirm (default: dry-run)', false)
   .option('--explain', 'Show detailed rule evaluation', false)
+  .option('--rules <file>', 'Ruleset file (default: rules/link-rules.json)')
   .action(async (opts) => {
     try {
       await runAutoConfirm({
@@ -1550,6 +1600,7 @@ program
         dryRun: !opts.apply,
         apply: opts.apply,
         explain: opts.explain,
+        rules: opts.rules,
       });
     } catch (error) {
       console.error('Links auto-confirm error:', error);
@@ -1559,6 +1610,46 @@ program
     }
   });
 
+// rules:test - Replay a link ruleset against historical links (v3.2.0)
+program
+  .command('rules:test')
+  .description('Show confirmations/rejections a ruleset would change on historical links (v3.2.0, read-only)')
+  .requiredOption('--rules <file>', 'Candidate ruleset file')
+  .option('--baseline <file>', 'Baseline ruleset file (default: rules/link-rules.json)')
+  .option('--topic <topic>', 'Only this topic')
+  .option('--status <list>', 'Link statuses to replay (comma-separated)', 'suggested,confirmed,rejected')
+  .option('--since-days <days>', 'Only links created in the last N days')
+  .option('--min-age-hours <hours>', 'Override reject.minAgeHours of both rulesets')
+  .option('--limit <number>', 'Most recent links to replay', '5000')
+  .option('--show <number>', 'Changed links listed per transition', '10')
+  .action(async (opts) => {
+    const { runRulesTest } = await import('./commands/index.js');
+
+    try {
+      const statuses = String(opts.status).split(',').map((s: string) => s.trim()).filter(Boolean);
+      const invalid = statuses.filter((s: string) => !['suggested', 'confirmed', 'rejected'].includes(s));
+      if (invalid.length > 0) {
+        throw new Error(`Unknown status: ${invalid.join(', ')}`);
+      }
+
+      await runRulesTest({
+        rules: opts.rules,
+        baseline: opts.baseline,
+        topic: opts.topic,
+        statuses: statuses as Array<'suggested' | 'confirmed' | 'rejected'>,
+        sinceDays: opts.sinceDays !== undefined ? parseFloat(opts.sinceDays) : undefined,
+        minAgeHours: opts.minAgeHours !== undefined ? parseFloat(opts.minAgeHours) : undefined,
+        limit: parseInt(opts.limit, 10),
+        show: parseInt(opts.show, 10),
+      });
+    } catch (error) {
+      console.error('Rules test error:', error);
+      process.exit(1);
+    } finally {
+      await disconnect();
+    }
+  });
+
 // v2.6.8: ops:run - Scheduled operations runner
 program
   .command('ops:run')
@@ -1573,6 +1664,7 @@ program
   .option('--match-limit <number>', 'Limit for suggest-matches', '500')
   .option('--confirm-limit <number>', 'Limit for auto-confirm', '500')
   .option('--reject-limit <number>', 'Limit for auto-reject', '2000')
+  .option('--rules <file>', 'Ruleset file for auto-confirm/auto-reject (default: rules/link-rules.json)')
   .action(async (opts) => {
     try {
       const result = await runOps({
@@ -1586,6 +1678,7 @@ program
         matchLimit: parseInt(opts.matchLimit, 10),
         confirmLimit: parseInt(opts.confirmLimit, 10),
         rejectLimit: parseInt(opts.rejectLimit, 10),
+        rules: opts.rules,
       });
 
       if (!result.success) {
@@ -1872,6 +1965,7 @@ program
   .option('--auto-reject', 'Auto-reject bad matches', false)
   .option('--debug-one <marketId>', 'Debug single market')
   .option('--use-v3-eligibility', 'Use V3 eligibility (MVE filtering, default for SPORTS)', false)
+  .option('--incremental', 'Only score markets created/updated since the last successful run (v3.2.0)', false)
   .action(async (opts) => {
     const { runV3SuggestMatches } = await import('./commands/index.js');
     const supportedVenues = getSupportedVenues();
@@ -1901,6 +1995,7 @@ program
         autoReject: opts.autoReject,
         debugMarketId: opts.debugOne ? parseInt(opts.debugOne, 10) : undefined,
         useV3Eligibility: opts.useV3Eligibility || undefined,  // Let command default for SPORTS
+        incremental: opts.incremental,
       });
 
       if (!result.ok) {
@@ -1928,6 +2023,7 @@ program
   .option('--dry-run', 'Preview without writing to DB', false)
   .option('--auto-confirm', 'Auto-confirm safe matches', false)
   .option('--auto-reject', 'Auto-reject bad matches', false)
+  .option('--incremental', 'Only score markets created/updated since each topic\'s last successful run (v3.2.0)', false)
   .action(async (opts) => {
     const { runV3SuggestAll } = await import('./commands/index.js');
     const supportedVenues = getSupportedVenues();
@@ -1953,6 +2049,7 @@ program
         dryRun: opts.dryRun,
         autoConfirm: opts.autoConfirm,
         autoReject: opts.autoReject,
+        incremental: opts.incremental,
       });
     } catch (error) {
       console.error('V3 suggest-all error:', error);
@@ -2005,30 +2102,193 @@ program
   });
 
 // Review server (v3.1.0: web UI for manual link review)
+// v3.2.0: Authenticated reviewers, per-reviewer queues, double-blind sample
 program
   .command('review:server')
-  .description('Start web server for manual link review (v3.1.0)')
+  .description('Start web server for manual link review (v3.2.0: multi-reviewer)')
   .option('--port <port>', 'Server port', '3000')
+  .option('--host <host>', 'Bind address (0.0.0.0 to listen on all interfaces)', process.env.REVIEW_HOST || '127.0.0.1')
   .option('--min-score <number>', 'Minimum score to review', '0.75')
   .option('--limit <number>', 'Batch limit', '500')
+  .option('--double-rate <number>', 'Share of links reviewed blind by two reviewers (0-1)', '0.1')
   .action(async (opts) => {
+    const doubleRate = parseFloat(opts.doubleRate);
+    if (!(doubleRate >= 0 && doubleRate <= 1)) {
+      console.error('Invalid --double-rate: expected a number between 0 and 1');
+      process.exit(1);
+    }
     process.env.REVIEW_PORT = opts.port;
+    process.env.REVIEW_HOST = opts.host;
     process.env.REVIEW_MIN_SCORE = opts.minScore;
     process.env.REVIEW_LIMIT = opts.limit;
+    process.env.REVIEW_DOUBLE_RATE = String(doubleRate);
 
     // Import and run directly (don't exit, keep server running)
     await import('./review-server.js');
   });
 
+// review:user:add - Create a review server account (v3.2.0)
+program
+  .command('review:user:add')
+  .description('Create a reviewer account for the review server (v3.2.0)')
+  .requiredOption('--name <name>', 'Login name')
+  .option('--role <role>', 'reviewer | lead (leads resolve escalations)', 'reviewer')
+  .option('--password <password>', 'Password (default: generated and printed once)')
+  .option('--topics <topics>', 'Link topics to review (comma-separated, default: all)')
+  .option('--token', 'Also issue an API token', false)
+  .action(async (opts) => {
+    const { runReviewUserAdd, REVIEWER_ROLES } = await import('./commands/index.js');
+    if (!REVIEWER_ROLES.includes(opts.role)) {
+      console.error(`Invalid --role: ${opts.role}. Supported: ${REVIEWER_ROLES.join(', ')}`);
+      process.exit(1);
+    }
+
+    try {
+      await runReviewUserAdd({
+        name: opts.name,
+        role: opts.role,
+        password: opts.password,
+        topics: opts.topics ? String(opts.topics).split(',').map((t: string) => t.trim()) : undefined,
+        token: opts.token,
+      });
+    } catch (error) {
+      console.error('Review user add error:', error);
+      process.exit(1);
+    } finally {
+      await disconnect();
+    }
+  });
+
+// review:user:set - Update a review server account (v3.2.0)
+program
+  .command('review:user:set')
+  .description('Change role, topics, password or enable/disable a reviewer (v3.2.0)')
+  .requiredOption('--name <name>', 'Login name')
+  .option('--role <role>', 'reviewer | lead')
+  .option('--topics <topics>', 'Link topics to review (comma-separated, "all" to clear)')
+  .option('--disable', 'Disable the account')
+  .option('--enable', 'Re-enable the account')
+  .option('--password <password>', 'New password')
+  .option('--reset-password', 'Generate a new password and print it once', false)
+  .action(async (opts) => {
+    const { runReviewUserSet, REVIEWER_ROLES } = await import('./commands/index.js');
+    if (opts.role && !REVIEWER_ROLES.includes(opts.role)) {
+      console.error(`Invalid --role: ${opts.role}. Supported: ${REVIEWER_ROLES.join(', ')}`);
+      process.exit(1);
+    }
+    if (opts.disable && opts.enable) {
+      console.error('Use either --disable or --enable');
+      process.exit(1);
+    }
+    const topics = opts.topics
+      ? opts.topics === 'all' ? [] : String(opts.topics).split(',').map((t: string) => t.trim())
+      : undefined;
+
+    try {
+      await runReviewUserSet({
+        name: opts.name,
+        role: opts.role,
+        topics,
+        active: opts.disable ? false : opts.enable ? true : undefined,
+        password: opts.password,
+        resetPassword: opts.resetPassword,
+      });
+    } catch (error) {
+      console.error('Review user set error:', error);
+      process.exit(1);
+    } finally {
+      await disconnect();
+    }
+  });
+
+// review:user:token - Issue an API token for a reviewer (v3.2.0)
+program
+  .command('review:user:token')
+  .description('Issue a new API token for a reviewer, replacing the old one (v3.2.0)')
+  .requiredOption('--name <name>', 'Login name')
+  .action(async (opts) => {
+    const { runReviewUserToken } = await import('./commands/index.js');
+
+    try {
+      await runReviewUserToken(opts.name);
+    } catch (error) {
+      console.error('Review user token error:', error);
+      process.exit(1);
+    } finally {
+      await disconnect();
+    }
+  });
+
+// review:users - List review server accounts (v3.2.0)
+program
+  .command('review:users')
+  .description('List reviewer accounts (v3.2.0)')
+  .action(async () => {
+    const { runReviewUsers } = await import('./commands/index.js');
+
+    try {
+      await runReviewUsers();
+    } catch (error) {
+      console.error('Review users error:', error);
+      process.exit(1);
+    } finally {
+      await disconnect();
+    }
+  });
+
+// review:agreement - Inter-rater agreement report (v3.2.0)
+program
+  .command('review:agreement')
+  .description("Cohen's kappa over double-blind reviews by reviewer, pair and topic (v3.2.0)")
+  .option('--since-days <number>', 'Only reviews from the last N days')
+  .action(async (opts) => {
+    const { runReviewAgreement } = await import('./commands/index.js');
+
+    try {
+      await runReviewAgreement({ sinceDays: opts.sinceDays ? parseFloat(opts.sinceDays) : undefined });
+    } catch (error) {
+      console.error('Review agreement error:', error);
+      process.exit(1);
+    } finally {
+      await disconnect();
+    }
+  });
+
+// Read API server (v3.2.0: versioned read-only API for downstream services)
+program
+  .command('api:server')
+  .description('Start read-only /v1 API server (v3.2.0)')
+  .option('--port <port>', 'Server port', '3001')
+  .option('--host <host>', 'Bind address', '0.0.0.0')
+  .action(async (opts) => {
+    process.env.API_PORT = opts.port;
+    process.env.API_HOST = opts.host;
+
+    // Import and run directly (don't exit, keep server running)
+    await import('./api-server.js');
+  });
+
 // Review rollback (v3.1.0: undo accidental confirmations)
+// v3.2.0: Reverts review-server events from the link audit log
 program
   .command('review:rollback')
-  .description('Rollback manual review confirmations (v3.1.0)')
-  .action(async () => {
+  .description('Rollback manual review confirmations and rejections (v3.2.0: from the link audit log)')
+  .option('--since-hours <number>', 'Only reviews from the last N hours')
+  .option('--reviewer <name>', 'Only reviews by this reviewer')
+  .option('--force', 'Revert even if links changed after the review', false)
+  .option('--dry-run', 'Show what would be reverted', false)
+  .option('--legacy', 'Match reason=manual_review@3.1.0:web_ui (pre-v3.2.0 reviews)', false)
+  .action(async (opts) => {
     const { runReviewRollback } = await import('./commands/index.js');
 
     try {
-      await runReviewRollback();
+      await runReviewRollback({
+        sinceHours: opts.sinceHours ? parseFloat(opts.sinceHours) : undefined,
+        reviewer: opts.reviewer,
+        force: opts.force,
+        dryRun: opts.dryRun,
+        legacy: opts.legacy,
+      });
     } catch (error) {
       console.error('Rollback error:', error);
       process.exit(1);
@@ -2037,6 +2297,83 @@ program
     }
   });
 
+// links:events - Link lifecycle audit log (v3.2.0)
+program
+  .command('links:events')
+  .description('List link status transitions with actor, before/after and reason (v3.2.0)')
+  .option('--link <id>', 'Only this link')
+  .option('--actor-type <type>', 'user | rule | llm | engine | system')
+  .option('--actor <id>', 'Actor id (user name, rule id, provider:model)')
+  .option('--source <source>', 'Source command (e.g. review-server, links:auto-confirm)')
+  .option('--since-hours <number>', 'Only events from the last N hours')
+  .option('--limit <number>', 'Max events', '50')
+  .action(async (opts) => {
+    const { runLinksEvents } = await import('./commands/index.js');
+
+    try {
+      await runLinksEvents({
+        linkId: opts.link ? parseInt(opts.link, 10) : undefined,
+        actorType: opts.actorType,
+        actorId: opts.actor,
+        source: opts.source,
+        since: opts.sinceHours ? new Date(Date.now() - parseFloat(opts.sinceHours) * 3600_000) : undefined,
+        limit: parseInt(opts.limit, 10),
+      });
+    } catch (error) {
+      console.error('Links events error:', error);
+      process.exit(1);
+    } finally {
+      await disconnect();
+    }
+  });
+
+// links:rollback - Revert a range of link events (v3.2.0)
+program
+  .command('links:rollback')
+  .description('Revert link transitions in an event range to their previous state (v3.2.0)')
+  .option('--from-event <id>', 'First event id (inclusive)')
+  .option('--to-event <id>', 'Last event id (inclusive)')
+  .option('--since <iso>', 'Events at or after this time')
+  .option('--until <iso>', 'Events at or before this time')
+  .option('--link <id>', 'Only this link')
+  .option('--actor-type <type>', 'user | rule | llm | engine | system')
+  .option('--actor <id>', 'Actor id (user name, rule id, provider:model)')
+  .option('--source <source>', 'Source command (e.g. review-server, links:auto-confirm)')
+  .option('--as <name>', 'Recorded as the actor of the reverts (default: $USER)')
+  .option('--force', 'Revert even if links changed after the range', false)
+  .option('--dry-run', 'Show what would be reverted', false)
+  .action(async (opts) => {
+    const { runLinksRollback } = await import('./commands/index.js');
+    const since = opts.since ? new Date(opts.since) : undefined;
+    const until = opts.until ? new Date(opts.until) : undefined;
+    if ((since && isNaN(since.getTime())) || (until && isNaN(until.getTime()))) {
+      console.error('Invalid --since/--until: expected an ISO date');
+      process.exit(1);
+    }
+
+    try {
+      const plan = await runLinksRollback({
+        fromId: opts.fromEvent ? parseInt(opts.fromEvent, 10) : undefined,
+        toId: opts.toEvent ? parseInt(opts.toEvent, 10) : undefined,
+        since,
+        until,
+        linkId: opts.link ? parseInt(opts.link, 10) : undefined,
+        actorType: opts.actorType,
+        actorId: opts.actor,
+        source: opts.source,
+        as: opts.as,
+        force: opts.force,
+        dryRun: opts.dryRun,
+      });
+      if (!plan) process.exit(1);
+    } catch (error) {
+      console.error('Links rollback error:', error);
+      process.exit(1);
+    } finally {
+      await disconnect();
+    }
+  });
+
 // Kalshi series sync (v3.0.1)
 program
   .command('kalshi:series:sync')
@@ -2399,6 +2736,118 @@ program
     }
   });
 
+// v3:runs - Engine V3 run history (v3.2.0)
+program
+  .command('v3:runs')
+  .description('List recorded Engine V3 runs or compare two runs stage by stage (v3.2.0)')
+  .option('--topic <topic>', 'Filter by topic')
+  .option('--from <venue>', 'Filter by source venue')
+  .option('--to <venue>', 'Filter by target venue')
+  .option('--algo <algoVersion>', 'Filter by algoVersion')
+  .option('--kind <kind>', 'Filter by run kind: full or incremental')
+  .option('--since-hours <hours>', 'Only runs started within the last N hours')
+  .option('--limit <number>', 'Max runs to list', '30')
+  .option('--compare <ids>', 'Compare runs: "<id>" against its previous run, or "<baseId>,<id>"')
+  .option('--drop-threshold <ratio>', 'Relative drop flagged as a regression (default MATCHING_RUN_DROP_THRESHOLD or 0.3)')
+  .action(async (opts) => {
+    const { runV3Runs, runV3RunsCompare } = await import('./commands/index.js');
+    const dropThreshold = opts.dropThreshold !== undefined ? parseFloat(opts.dropThreshold) : undefined;
+    if (opts.kind && !['full', 'incremental'].includes(opts.kind)) {
+      console.error(`Invalid --kind: ${opts.kind}. Expected full or incremental`);
+      process.exit(1);
+    }
+
+    try {
+      if (opts.compare) {
+        const ids = String(opts.compare).split(',').map((s: string) => parseInt(s.trim(), 10));
+        if (ids.length > 2 || ids.some((id: number) => !Number.isInteger(id) || id < 1)) {
+          console.error(`Invalid --compare: ${opts.compare}. Expected "<id>" or "<baseId>,<id>"`);
+          process.exit(1);
+        }
+        const result = await runV3RunsCompare({
+          currentId: ids[ids.length - 1],
+          baseId: ids.length === 2 ? ids[0] : undefined,
+          dropThreshold,
+        });
+        if (!result) process.exit(1);
+      } else {
+        await runV3Runs({
+          topic: opts.topic,
+          fromVenue: opts.from,
+          toVenue: opts.to,
+          algoVersion: opts.algo,
+          incremental: opts.kind ? opts.kind === 'incremental' : undefined,
+          sinceHours: opts.sinceHours ? parseFloat(opts.sinceHours) : undefined,
+          limit: parseInt(opts.limit, 10),
+          dropThreshold,
+        });
+      }
+    } catch (error) {
+      console.error('V3 runs error:', error);
+      process.exit(1);
+    } finally {
+      await disconnect();
+    }
+  });
+
+// signals:query - Markets by persisted index keys (v3.2.0)
+program
+  .command('signals:query')
+  .description('Find markets by the index keys stored in market_signals (v3.2.0)')
+  .requiredOption('--topic <topic>', 'Topic (RATES, ELECTIONS, FINANCE, GEOPOLITICS, ENTERTAINMENT, COMMODITIES, CLIMATE)')
+  .requiredOption('--key <keys>', 'Index key(s), comma-separated (e.g. "FED|2025-03")')
+  .option('--venue <venue>', 'Filter by venue')
+  .option('--algo <algoVersion>', 'Filter by extractor version')
+  .option('--limit <number>', 'Max markets', '100')
+  .action(async (opts) => {
+    const { runSignalsQuery } = await import('./commands/index.js');
+
+    try {
+      await runSignalsQuery({
+        topic: opts.topic,
+        keys: String(opts.key).split(',').map((k: string) => k.trim()).filter(Boolean),
+        venue: opts.venue,
+        extractorVersion: opts.algo,
+        limit: parseInt(opts.limit, 10),
+      });
+    } catch (error) {
+      console.error('Signals query error:', error);
+      process.exit(1);
+    } finally {
+      await disconnect();
+    }
+  });
+
+// signals:refresh - Bring the persisted signal store up to date (v3.2.0)
+program
+  .command('signals:refresh')
+  .description('Extract signals for new or updated markets into market_signals (v3.2.0)')
+  .option('--venues <venues>', 'Venues (comma-separated)', 'kalshi,polymarket')
+  .option('--topics <topics>', 'Topics (comma-separated, default: all with signal store support)')
+  .action(async (opts) => {
+    const { runSignalsRefresh } = await import('./commands/index.js');
+    const supportedVenues = getSupportedVenues();
+    const venues = String(opts.venues).split(',').map((v: string) => v.trim());
+    const invalid = venues.filter((v: string) => !supportedVenues.includes(v as Venue));
+    if (invalid.length > 0) {
+      console.error(`Invalid --venues: ${invalid.join(', ')}. Supported: ${supportedVenues.join(', ')}`);
+      process.exit(1);
+    }
+
+    try {
+      const results = await runSignalsRefresh({
+        venues,
+        topics: opts.topics ? String(opts.topics).split(',').map((t: string) => t.trim()) : undefined,
+      });
+      if (results.some((r) => r.error)) process.exit(1);
+    } catch (error) {
+      console.error('Signals refresh error:', error);
+      process.exit(1);
+    } finally {
+      await disconnect();
+    }
+  });
+
 // ops:run v3 - V3 Operations Runner (v3.0.10)
 program
   .command('ops:run:v3')
@@ -2683,6 +3132,496 @@ program
     }
   });
 
+// ============================================================
+// v3.2.0: Arbitrage
+// ============================================================
+
+// arb:scan - Cross-venue arbitrage scanner over confirmed links (v3.2.0)
+program
+  .command('arb:scan')
+  .description('Scan confirmed links for cross-venue spreads after fees (v3.2.0)')
+  .option('--topic <topic>', 'Filter by link topic')
+  .option('--min-edge <number>', 'Minimum net edge after fees (default: ARB_MIN_NET_EDGE or 0)')
+  .option('--max-age <seconds>', 'Ignore quotes older than this (default: ARB_MAX_QUOTE_AGE_SEC or 900)')
+  .option('--limit <number>', 'Max confirmed links to scan', '5000')
+  .option('--show <number>', 'Opportunities to print', '20')
+  .option('--dry-run', 'Do not persist to arb_opportunities', false)
+  .action(async (opts) => {
+    const { runArbScan } = await import('./commands/index.js');
+
+    try {
+      await runArbScan({
+        topic: opts.topic,
+        minNetEdge: opts.minEdge !== undefined ? parseFloat(opts.minEdge) : undefined,
+        maxQuoteAgeSec: opts.maxAge !== undefined ? parseInt(opts.maxAge, 10) : undefined,
+        limit: parseInt(opts.limit, 10),
+        show: parseInt(opts.show, 10),
+        dryRun: opts.dryRun,
+      });
+    } catch (error) {
+      console.error('Arb scan error:', error);
+      process.exit(1);
+    } finally {
+      await disconnect();
+    }
+  });
+
+// quotes:ohlc - Resampled quote history (v3.2.0)
+program
+  .command('quotes:ohlc')
+  .description('Print OHLC/VWAP bars for an outcome or an aligned link pair (v3.2.0)')
+  .option('--outcome <id>', 'Outcome ID')
+  .option('--link <id>', 'MarketLink ID (both sides aligned)')
+  .option('--interval <interval>', 'Bar interval: 1m, 5m, 1h, 1d', '1h')
+  .option('--hours <number>', 'Lookback window ending now', '24')
+  .option('--from <iso>', 'Range start (overrides --hours)')
+  .option('--to <iso>', 'Range end (default: now)')
+  .option('--side <side>', 'Outcome side for links: yes | no', 'yes')
+  .option('--no-fill', 'Do not forward-fill empty buckets')
+  .option('--format <format>', 'Output format: csv | json', 'csv')
+  .action(async (opts) => {
+    const { runQuotesOhlc } = await import('./commands/index.js');
+
+    try {
+      const to = opts.to ? new Date(opts.to) : new Date();
+      const from = opts.from
+        ? new Date(opts.from)
+        : new Date(to.getTime() - parseFloat(opts.hours) * 60 * 60 * 1000);
+      await runQuotesOhlc({
+        outcomeId: opts.outcome !== undefined ? parseInt(opts.outcome, 10) : undefined,
+        linkId: opts.link !== undefined ? parseInt(opts.link, 10) : undefined,
+        interval: opts.interval,
+        from,
+        to,
+        side: opts.side === 'no' ? 'no' : 'yes',
+        forwardFill: opts.fill,
+        format: opts.format === 'json' ? 'json' : 'csv',
+      });
+    } catch (error) {
+      console.error('Quotes OHLC error:', error);
+      process.exit(1);
+    } finally {
+      await disconnect();
+    }
+  });
+
+// kalshi:ws-quotes - Stream watchlist quotes over the Kalshi websocket (v3.2.0)
+program
+  .command('kalshi:ws-quotes')
+  .description('Stream Kalshi watchlist quotes over websocket instead of REST polling (v3.2.0)')
+  .option('--url <url>', 'Websocket URL (default: KALSHI_WS_URL or derived from KALSHI_BASE_URL)')
+  .option('--flush-ms <ms>', 'Flush interval for changed books', process.env.KALSHI_WS_FLUSH_MS || '2000')
+  .option('--limit <number>', 'Max watchlisted markets to subscribe', process.env.QUOTES_WATCHLIST_LIMIT || '2000')
+  .action(async (opts) => {
+    const { startKalshiWsQuotes } = await import('./pipeline/ws-quotes-runner.js');
+    const { startMetricsServerFromEnv } = await import('./metrics/index.js');
+    const venueConfig = loadVenueConfig('kalshi');
+
+    startMetricsServerFromEnv();
+    const handle = startKalshiWsQuotes({
+      kalshiAuth: loadKalshiAuth(),
+      dedupConfig: venueConfig.dedup,
+      url: opts.url,
+      flushIntervalMs: parseInt(opts.flushMs, 10),
+      watchlistLimit: parseInt(opts.limit, 10),
+    });
+
+    process.on('SIGTERM', () => handle.stop());
+    process.on('SIGINT', () => handle.stop());
+  });
+
+// polymarket:ws-quotes - Stream watchlist quotes over the Polymarket CLOB market channel (v3.2.0)
+program
+  .command('polymarket:ws-quotes')
+  .description('Stream Polymarket watchlist quotes over the CLOB websocket instead of REST polling (v3.2.0)')
+  .option('--url <url>', 'Websocket URL (default: POLYMARKET_WS_URL or the public market channel)')
+  .option('--flush-ms <ms>', 'Flush interval for changed books', process.env.POLYMARKET_WS_FLUSH_MS || '2000')
+  .option('--limit <number>', 'Max watchlisted markets to subscribe', process.env.QUOTES_WATCHLIST_LIMIT || '2000')
+  .action(async (opts) => {
+    const { startPolymarketWsQuotes } = await import('./pipeline/ws-quotes-runner.js');
+    const { startMetricsServerFromEnv } = await import('./metrics/index.js');
+    const venueConfig = loadVenueConfig('polymarket');
+
+    startMetricsServerFromEnv();
+    const handle = startPolymarketWsQuotes({
+      dedupConfig: venueConfig.dedup,
+      url: opts.url,
+      flushIntervalMs: parseInt(opts.flushMs, 10),
+      watchlistLimit: parseInt(opts.limit, 10),
+    });
+
+    process.on('SIGTERM', () => handle.stop());
+    process.on('SIGINT', () => handle.stop());
+  });
+
+// resolutions:sync - Backfill settlement outcomes for recently closed markets (v3.2.0)
+program
+  .command('resolutions:sync')
+  .description('Capture winning outcome, resolution time and source for recently closed markets (v3.2.0)')
+  .option('-v, --venue <venue>', 'Venue to sync (default: all)')
+  .option('--days <number>', 'Lookback window on close time in days', '7')
+  .option('--limit <number>', 'Max markets per venue', '2000')
+  .option('--dry-run', 'Fetch and report without writing')
+  .action(async (opts) => {
+    const { runResolutionsSync } = await import('./commands/index.js');
+
+    try {
+      if (opts.venue && !getSupportedVenues().includes(opts.venue)) {
+        console.error(`Invalid venue: ${opts.venue}. Supported: ${getSupportedVenues().join(', ')}`);
+        process.exit(1);
+      }
+      const result = await runResolutionsSync({
+        venues: opts.venue ? [opts.venue as Venue] : undefined,
+        days: parseFloat(opts.days),
+        limit: parseInt(opts.limit, 10),
+        dryRun: opts.dryRun ?? false,
+        kalshiAuth: loadKalshiAuth(),
+      });
+      if (result.venues.some((v) => v.error)) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error('Resolutions sync error:', error);
+      process.exit(1);
+    } finally {
+      await disconnect();
+    }
+  });
+
+// links:resolution-audit - Compare settlement of both sides of confirmed links (v3.2.0)
+program
+  .command('links:resolution-audit')
+  .description('Record AGREE/DISAGREE/PENDING/VOID verdicts for confirmed links from market resolutions (v3.2.0)')
+  .option('--topic <topic>', 'Only links for this topic')
+  .option('--algo-version <version>', 'Only links from this algoVersion')
+  .option('--recheck', 'Re-evaluate links that already have a final verdict')
+  .option('--limit <number>', 'Max links to evaluate', '5000')
+  .option('--dry-run', 'Compute verdicts without storing them')
+  .action(async (opts) => {
+    const { runLinksResolutionAudit } = await import('./commands/index.js');
+
+    try {
+      await runLinksResolutionAudit({
+        topic: opts.topic,
+        algoVersion: opts.algoVersion,
+        recheck: opts.recheck ?? false,
+        limit: parseInt(opts.limit, 10),
+        dryRun: opts.dryRun ?? false,
+      });
+    } catch (error) {
+      console.error('Links resolution audit error:', error);
+      process.exit(1);
+    } finally {
+      await disconnect();
+    }
+  });
+
+// eval:matching - Matcher precision/recall against labeled pairs (v3.2.0)
+program
+  .command('eval:matching')
+  .description('Evaluate V3 pipelines against ground-truth pairs and reviewed links (v3.2.0)')
+  .option('--csv <path>', 'Ground truth CSV (default: ground-truth-pairs.csv at repo root)')
+  .option('--no-db', 'Skip reviewed links from the DB')
+  .option('--db-limit <number>', 'Max reviewed links to load', '5000')
+  .option('--topics <topics>', 'Comma-separated topics (empty = all registered)')
+  .option('--min-score <number>', 'Override every pipeline\'s minScore')
+  .option('--similar-as <policy>', 'Count SIMILAR_EVENT as negative, positive or exclude', 'negative')
+  .option('--save <path>', 'Write the JSON report')
+  .option('--baseline <path>', 'Saved JSON report to diff against')
+  .option('--show-misses <number>', 'Misclassified pairs to print', '20')
+  .option('--fail-on-regression', 'Exit 1 when any pair regressed vs --baseline')
+  .action(async (opts) => {
+    const { runEvalMatching } = await import('./commands/index.js');
+
+    if (!['negative', 'positive', 'exclude'].includes(opts.similarAs)) {
+      console.error(`Invalid --similar-as: ${opts.similarAs}. Use negative, positive or exclude`);
+      process.exit(1);
+    }
+
+    try {
+      const result = await runEvalMatching({
+        csvPath: opts.csv,
+        fromDb: opts.db !== false,
+        dbLimit: parseInt(opts.dbLimit, 10),
+        topics: opts.topics ? opts.topics.split(',').map((t: string) => t.trim()) : undefined,
+        minScore: opts.minScore ? parseFloat(opts.minScore) : undefined,
+        similarAs: opts.similarAs,
+        savePath: opts.save,
+        baselinePath: opts.baseline,
+        showMisses: parseInt(opts.showMisses, 10),
+        failOnRegression: opts.failOnRegression ?? false,
+      });
+
+      if (!result.ok) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error('Eval matching error:', error);
+      process.exit(1);
+    } finally {
+      await disconnect();
+    }
+  });
+
+// clusters:rebuild - N-venue event clusters from reviewed links (v3.2.0)
+program
+  .command('clusters:rebuild')
+  .description('Rebuild event clusters (connected components of confirmed links) and flag conflicts (v3.2.0)')
+  .option('--dry-run', 'Derive and report clusters without storing them')
+  .option('--show-conflicts <number>', 'Conflicting clusters to print', '20')
+  .action(async (opts) => {
+    const { runClustersRebuild } = await import('./commands/index.js');
+
+    try {
+      await runClustersRebuild({
+        dryRun: opts.dryRun ?? false,
+        showConflicts: parseInt(opts.showConflicts, 10),
+      });
+    } catch (error) {
+      console.error('Clusters rebuild error:', error);
+      process.exit(1);
+    } finally {
+      await disconnect();
+    }
+  });
+
+// brackets:map - Synthetic equivalences between crypto price ladders (v3.2.0)
+program
+  .command('brackets:map')
+  .description('Find which leg combinations of one venue replicate the other venue\'s crypto brackets (v3.2.0)')
+  .option('--from <venue>', `Source venue (${getSupportedVenues().join(', ')})`, 'polymarket')
+  .option('--to <venue>', `Target venue (${getSupportedVenues().join(', ')})`, 'kalshi')
+  .option('--entities <entities>', 'Comma-separated crypto entities', 'BITCOIN,ETHEREUM')
+  .option('--lookback-hours <hours>', 'Lookback hours', '720')
+  .option('--limit <number>', 'Max markets per venue', '5000')
+  .option('--max-legs <number>', 'Longest leg combination to store', '8')
+  .option('--show <number>', 'Sample equivalences to print', '10')
+  .option('--dry-run', 'Report equivalences without storing them')
+  .action(async (opts) => {
+    const { runBracketsMap } = await import('./commands/index.js');
+    const supportedVenues = getSupportedVenues();
+
+    for (const venue of [opts.from, opts.to]) {
+      if (!supportedVenues.includes(venue)) {
+        console.error(`Invalid venue: ${venue}. Supported: ${supportedVenues.join(', ')}`);
+        process.exit(1);
+      }
+    }
+
+    try {
+      await runBracketsMap({
+        fromVenue: opts.from as Venue,
+        toVenue: opts.to as Venue,
+        entities: opts.entities.split(',').map((e: string) => e.trim().toUpperCase()),
+        lookbackHours: parseInt(opts.lookbackHours, 10),
+        limit: parseInt(opts.limit, 10),
+        maxLegs: parseInt(opts.maxLegs, 10),
+        show: parseInt(opts.show, 10),
+        dryRun: opts.dryRun ?? false,
+      });
+    } catch (error) {
+      console.error('Brackets map error:', error);
+      process.exit(1);
+    } finally {
+      await disconnect();
+    }
+  });
+
+// consensus:compute - Cross-venue consensus probabilities (v3.2.0)
+program
+  .command('consensus:compute')
+  .description('Blend linked markets\' latest quotes into a consensus probability series (v3.2.0)')
+  .option('--scope <scope>', 'Subjects: links | clusters | all', 'all')
+  .option('--topic <topic>', 'Filter by link / cluster topic')
+  .option('--half-life <seconds>', 'Freshness half-life (default: CONSENSUS_HALF_LIFE_SEC or 300)')
+  .option('--max-age <seconds>', 'Ignore quotes older than this (default: CONSENSUS_MAX_QUOTE_AGE_SEC or 3600)')
+  .option('--divergence <number>', 'Flag subjects whose sources differ by more than this (default: CONSENSUS_DIVERGENCE_THRESHOLD or 0.05)')
+  .option('--limit <number>', 'Max links / clusters to load', '5000')
+  .option('--show <number>', 'Diverged subjects to print', '10')
+  .option('--dry-run', 'Do not append to consensus_quotes', false)
+  .action(async (opts) => {
+    const { runConsensusCompute } = await import('./commands/index.js');
+
+    if (!['links', 'clusters', 'all'].includes(opts.scope)) {
+      console.error(`Invalid scope: ${opts.scope}. Use links, clusters or all`);
+      process.exit(1);
+    }
+
+    try {
+      await runConsensusCompute({
+        scope: opts.scope,
+        topic: opts.topic,
+        halfLifeSec: opts.halfLife !== undefined ? parseInt(opts.halfLife, 10) : undefined,
+        maxQuoteAgeSec: opts.maxAge !== undefined ? parseInt(opts.maxAge, 10) : undefined,
+        divergenceThreshold: opts.divergence !== undefined ? parseFloat(opts.divergence) : undefined,
+        limit: parseInt(opts.limit, 10),
+        show: parseInt(opts.show, 10),
+        dryRun: opts.dryRun,
+      });
+    } catch (error) {
+      console.error('Consensus compute error:', error);
+      process.exit(1);
+    } finally {
+      await disconnect();
+    }
+  });
+
+// alerts:run - Evaluate alert rules against live quote writes (v3.2.0)
+program
+  .command('alerts:run')
+  .description('Run the alert engine: price jumps, link divergence, stale watchlist, new suggestions (v3.2.0)')
+  .option('--poll-ms <ms>', 'Quote poll interval', process.env.ALERT_POLL_MS || '2000')
+  .option('--periodic-ms <ms>', 'Interval for watchlist_stale / new_suggestion rules', process.env.ALERT_PERIODIC_MS || '60000')
+  .action(async (opts) => {
+    const { startAlertRunner, DEFAULT_ALERT_RUNNER_CONFIG } = await import('./alerts/index.js');
+
+    console.log('[alerts:run] Starting alert engine (v3.2.0)');
+    const handle = await startAlertRunner({
+      ...DEFAULT_ALERT_RUNNER_CONFIG,
+      pollMs: parseInt(opts.pollMs, 10),
+      periodicMs: parseInt(opts.periodicMs, 10),
+    });
+
+    process.on('SIGTERM', () => handle.stop());
+    process.on('SIGINT', () => handle.stop());
+  });
+
+// alerts:rules - List alert rules (v3.2.0)
+program
+  .command('alerts:rules')
+  .description('List alert rules (v3.2.0)')
+  .option('--enabled', 'Only enabled rules', false)
+  .action(async (opts) => {
+    const { runAlertRulesList } = await import('./commands/index.js');
+
+    try {
+      await runAlertRulesList({ enabledOnly: opts.enabled });
+    } catch (error) {
+      console.error('Alert rules error:', error);
+      process.exit(1);
+    } finally {
+      await disconnect();
+    }
+  });
+
+// alerts:rules:add - Create an alert rule (v3.2.0)
+program
+  .command('alerts:rules:add')
+  .description('Create an alert rule (v3.2.0)')
+  .requiredOption('--name <name>', 'Unique rule name')
+  .requiredOption('--type <type>', 'price_jump | link_divergence | watchlist_stale | new_suggestion')
+  .requiredOption('--params <json>', 'Rule params, e.g. \'{"threshold":0.1,"windowMinutes":15}\'')
+  .requiredOption('--sinks <json>', 'Sinks, e.g. \'[{"type":"slack","url":"https://hooks.slack.com/..."}]\'')
+  .option('--cooldown <seconds>', 'Minimum time between alerts for the same subject', '900')
+  .option('--disabled', 'Create the rule disabled', false)
+  .action(async (opts) => {
+    const { runAlertRuleAdd } = await import('./commands/index.js');
+
+    let params: Record<string, unknown>;
+    let sinks: Array<Record<string, unknown>>;
+    try {
+      params = JSON.parse(opts.params);
+      sinks = JSON.parse(opts.sinks);
+    } catch (error) {
+      console.error('Invalid JSON in --params / --sinks:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+
+    try {
+      await runAlertRuleAdd({
+        name: opts.name,
+        type: opts.type,
+        params,
+        sinks,
+        cooldownSec: parseInt(opts.cooldown, 10),
+        enabled: !opts.disabled,
+      });
+    } catch (error) {
+      console.error('Alert rule add error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    } finally {
+      await disconnect();
+    }
+  });
+
+// alerts:rules:enable - Enable an alert rule (v3.2.0)
+program
+  .command('alerts:rules:enable')
+  .description('Enable an alert rule (v3.2.0)')
+  .requiredOption('--id <id>', 'Rule id')
+  .action(async (opts) => {
+    const { runAlertRuleSetEnabled } = await import('./commands/index.js');
+
+    try {
+      await runAlertRuleSetEnabled(parseInt(opts.id, 10), true);
+    } catch (error) {
+      console.error('Alert rule update error:', error);
+      process.exit(1);
+    } finally {
+      await disconnect();
+    }
+  });
+
+// alerts:rules:disable - Disable an alert rule (v3.2.0)
+program
+  .command('alerts:rules:disable')
+  .description('Disable an alert rule (v3.2.0)')
+  .requiredOption('--id <id>', 'Rule id')
+  .action(async (opts) => {
+    const { runAlertRuleSetEnabled } = await import('./commands/index.js');
+
+    try {
+      await runAlertRuleSetEnabled(parseInt(opts.id, 10), false);
+    } catch (error) {
+      console.error('Alert rule update error:', error);
+      process.exit(1);
+    } finally {
+      await disconnect();
+    }
+  });
+
+// alerts:rules:remove - Delete an alert rule and its events (v3.2.0)
+program
+  .command('alerts:rules:remove')
+  .description('Delete an alert rule and its fired events (v3.2.0)')
+  .requiredOption('--id <id>', 'Rule id')
+  .action(async (opts) => {
+    const { runAlertRuleRemove } = await import('./commands/index.js');
+
+    try {
+      await runAlertRuleRemove(parseInt(opts.id, 10));
+    } catch (error) {
+      console.error('Alert rule remove error:', error);
+      process.exit(1);
+    } finally {
+      await disconnect();
+    }
+  });
+
+// alerts:events - Recently fired alerts (v3.2.0)
+program
+  .command('alerts:events')
+  .description('List recently fired alerts with their delivery status (v3.2.0)')
+  .option('--rule <id>', 'Only this rule')
+  .option('--since-hours <hours>', 'Only alerts fired within this many hours')
+  .option('--limit <number>', 'Max events', '50')
+  .action(async (opts) => {
+    const { runAlertEvents } = await import('./commands/index.js');
+
+    try {
+      await runAlertEvents({
+        ruleId: opts.rule !== undefined ? parseInt(opts.rule, 10) : undefined,
+        sinceHours: opts.sinceHours !== undefined ? parseFloat(opts.sinceHours) : undefined,
+        limit: parseInt(opts.limit, 10),
+      });
+    } catch (error) {
+      console.error('Alert events error:', error);
+      process.exit(1);
+    } finally {
+      await disconnect();
+    }
+  });
+
 // Handle graceful shutdown
 process.on('SIGINT', async () => {
   console.log('\nShutting down...');
@@ -0,0 +1,108 @@
+/**
+ * alerts:* - Manage alert rules and inspect fired alerts (v3.2.0)
+ *
+ * Rules are validated against the engine's rule types and sink registry
+ * before they are stored, so alerts:run never loads a rule it can't use.
+ *
+ * Run: pnpm --filter @data-module/worker alerts:rules
+ */
+
+import { getClient, AlertRepository, type AlertRule, type AlertEvent, type AlertDelivery } from '@data-module/db';
+import { parseAlertRule, createAlertSink } from '../alerts/index.js';
+
+export interface AlertRulesListOptions {
+  enabledOnly?: boolean;
+}
+
+export interface AlertRuleAddOptions {
+  name: string;
+  type: string;
+  params: Record<string, unknown>;
+  sinks: Array<Record<string, unknown>>;
+  cooldownSec?: number;
+  enabled?: boolean;
+}
+
+export interface AlertEventsOptions {
+  ruleId?: number;
+  sinceHours?: number;
+  limit?: number;
+}
+
+function printRule(rule: AlertRule): void {
+  const sinks = (rule.sinks as Array<{ type?: string }>).map((s) => s.type).join(',');
+  console.log(
+    `  #${String(rule.id).padEnd(4)} ${rule.enabled ? 'on ' : 'off'} ${rule.name.padEnd(28)} ${rule.type.padEnd(16)} ` +
+      `cooldown=${rule.cooldownSec}s sinks=${sinks} params=${JSON.stringify(rule.params)}`
+  );
+}
+
+export async function runAlertRulesList(options: AlertRulesListOptions = {}): Promise<AlertRule[]> {
+  const rules = await new AlertRepository(getClient()).listRules({ enabledOnly: options.enabledOnly });
+
+  console.log(`\n${'='.repeat(60)}`);
+  console.log(`[alerts:rules] Alert rules (v3.2.0)`);
+  console.log(`${'='.repeat(60)}`);
+  if (rules.length === 0) {
+    console.log('  (none)');
+  }
+  for (const rule of rules) printRule(rule);
+
+  return rules;
+}
+
+/**
+ * Validate and store a new rule
+ * @throws AlertRuleError / AlertSinkError if the rule would not load
+ */
+export async function runAlertRuleAdd(options: AlertRuleAddOptions): Promise<AlertRule> {
+  const cooldownSec = options.cooldownSec ?? 900;
+  const spec = parseAlertRule({
+    id: 0,
+    name: options.name,
+    type: options.type,
+    params: options.params as AlertRule['params'],
+    sinks: options.sinks as AlertRule['sinks'],
+    cooldownSec,
+  });
+  for (const sink of spec.sinks) createAlertSink(sink);
+
+  const rule = await new AlertRepository(getClient()).createRule({ ...options, cooldownSec });
+  console.log(`[alerts:rules:add] Created rule #${rule.id} "${rule.name}" (${rule.type}${rule.enabled ? '' : ', disabled'})`);
+  return rule;
+}
+
+export async function runAlertRuleSetEnabled(id: number, enabled: boolean): Promise<AlertRule> {
+  const rule = await new AlertRepository(getClient()).setEnabled(id, enabled);
+  console.log(`[alerts:rules] Rule #${rule.id} "${rule.name}" ${enabled ? 'enabled' : 'disabled'}`);
+  return rule;
+}
+
+export async function runAlertRuleRemove(id: number): Promise<AlertRule> {
+  const rule = await new AlertRepository(getClient()).deleteRule(id);
+  console.log(`[alerts:rules:remove] Removed rule #${rule.id} "${rule.name}" and its events`);
+  return rule;
+}
+
+export async function runAlertEvents(options: AlertEventsOptions = {}): Promise<AlertEvent[]> {
+  const { ruleId, sinceHours, limit = 50 } = options;
+  const since = sinceHours !== undefined ? new Date(Date.now() - sinceHours * 60 * 60 * 1000) : undefined;
+  const events = await new AlertRepository(getClient()).listEvents({ ruleId, since, limit });
+
+  console.log(`\n${'='.repeat(60)}`);
+  console.log(`[alerts:events] Fired alerts (v3.2.0)`);
+  console.log(`${'='.repeat(60)}`);
+  if (events.length === 0) {
+    console.log('  (none)');
+  }
+  for (const event of events) {
+    const deliveries = event.deliveries as unknown as AlertDelivery[];
+    const failed = deliveries.filter((d) => !d.ok).length;
+    console.log(
+      `  ${event.firedAt.toISOString()} rule=#${event.ruleId} ${event.dedupKey.padEnd(16)} ${event.title}` +
+        ` [${deliveries.length - failed}/${deliveries.length} delivered]`
+    );
+  }
+
+  return events;
+}
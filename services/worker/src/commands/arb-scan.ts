@@ -0,0 +1,164 @@
+/**
+ * arb:scan - Cross-venue arbitrage scanner (v3.2.0)
+ *
+ * Joins confirmed MarketLinks to each side's LatestQuote, aligns outcome
+ * sides (including inverted-phrasing pairs), subtracts venue fees and
+ * records open spreads in arb_opportunities so we can track how long
+ * each one stays open.
+ *
+ * Run: pnpm --filter @data-module/worker arb:scan --min-edge 0.01
+ */
+
+import {
+  getClient,
+  ArbOpportunityRepository,
+  type LatestQuote,
+  type MarketWithQuotes,
+  type RecordScanResult,
+} from '@data-module/db';
+import {
+  evaluateLink,
+  DEFAULT_ARB_CONFIG,
+  type ArbMarketSide,
+  type ArbOpportunity,
+  type ArbQuote,
+  type ArbScanConfig,
+} from '../arb/index.js';
+
+export interface ArbScanOptions {
+  topic?: string;
+  /** Minimum net edge after fees (default from ARB_MIN_NET_EDGE) */
+  minNetEdge?: number;
+  /** Ignore quotes older than this (default from ARB_MAX_QUOTE_AGE_SEC) */
+  maxQuoteAgeSec?: number;
+  /** Max confirmed links to load */
+  limit?: number;
+  /** Opportunities to print */
+  show?: number;
+  /** Don't persist to arb_opportunities */
+  dryRun?: boolean;
+}
+
+export interface ArbScanResult {
+  linksScanned: number;
+  skipped: Record<string, number>;
+  opportunities: ArbOpportunity[];
+  persisted: RecordScanResult | null;
+}
+
+function toArbQuote(lq: LatestQuote | null): ArbQuote | null {
+  if (!lq) return null;
+  return {
+    price: lq.price,
+    ask: lq.bestAsk,
+    bid: lq.bestBid,
+    liquidity: lq.askSize ?? lq.liquidity,
+    bidSize: lq.bidSize ?? lq.liquidity,
+    ts: lq.ts,
+  };
+}
+
+function toArbSide(market: MarketWithQuotes): ArbMarketSide {
+  return {
+    venue: market.venue,
+    title: market.title,
+    outcomes: market.outcomes.map((o) => ({
+      outcomeId: o.id,
+      side: o.side,
+      quote: toArbQuote(o.latestQuote),
+    })),
+  };
+}
+
+export async function runArbScan(options: ArbScanOptions = {}): Promise<ArbScanResult> {
+  const { topic, limit = 5000, show = 20, dryRun = false } = options;
+  const config: ArbScanConfig = {
+    ...DEFAULT_ARB_CONFIG,
+    minNetEdge: options.minNetEdge ?? DEFAULT_ARB_CONFIG.minNetEdge,
+    maxQuoteAgeSec: options.maxQuoteAgeSec ?? DEFAULT_ARB_CONFIG.maxQuoteAgeSec,
+  };
+
+  const prisma = getClient();
+  const arbRepo = new ArbOpportunityRepository(prisma);
+  const now = new Date();
+
+  console.log(`\n${'='.repeat(60)}`);
+  console.log(`[arb:scan] Cross-venue Arbitrage Scanner (v3.2.0)`);
+  console.log(`${'='.repeat(60)}`);
+  console.log(`Topic: ${topic || 'all'}`);
+  console.log(`Min net edge: ${config.minNetEdge}, Max quote age: ${config.maxQuoteAgeSec}s`);
+  console.log(`Fee rates: ${Object.entries(config.feeRates).map(([v, r]) => `${v}=${r}`).join(', ')}`);
+  console.log(`Mode: ${dryRun ? 'DRY RUN' : 'PERSIST'}\n`);
+
+  const links = await arbRepo.getConfirmedLinksWithQuotes({ topic, limit });
+  console.log(`[arb:scan] Loaded ${links.length} confirmed links`);
+
+  const opportunities: ArbOpportunity[] = [];
+  const skipped: Record<string, number> = {};
+
+  for (const link of links) {
+    const evaluation = evaluateLink(
+      {
+        linkId: link.id,
+        left: toArbSide(link.leftMarket),
+        right: toArbSide(link.rightMarket),
+      },
+      config,
+      now
+    );
+
+    if (evaluation.skipReason) {
+      skipped[evaluation.skipReason] = (skipped[evaluation.skipReason] || 0) + 1;
+      continue;
+    }
+    opportunities.push(...evaluation.opportunities);
+  }
+
+  opportunities.sort((a, b) => b.netEdge - a.netEdge);
+
+  let persisted: RecordScanResult | null = null;
+  if (!dryRun) {
+    persisted = await arbRepo.recordScan(opportunities, links.map((l) => l.id), now);
+  }
+
+  // Output
+  console.log('\n[Summary]');
+  console.log(`  Links scanned:  ${links.length}`);
+  console.log(`  Opportunities:  ${opportunities.length}`);
+  for (const [reason, count] of Object.entries(skipped)) {
+    console.log(`  Skipped (${reason}): ${count}`);
+  }
+  if (persisted) {
+    console.log(`  Opened: ${persisted.opened}, Extended: ${persisted.extended}, Closed: ${persisted.closed}`);
+  }
+
+  if (opportunities.length > 0) {
+    const titleById = new Map(links.map((l) => [l.id, l.leftMarket.title]));
+    console.log(`\n[Top ${Math.min(show, opportunities.length)} Opportunities]`);
+    console.log(`  ${'Link'.padEnd(8)} ${'Strategy'.padEnd(12)} ${'Gross'.padStart(7)} ${'Net'.padStart(7)} ${'Size'.padStart(8)} ${'Age L/R'.padStart(10)}  Title`);
+    for (const o of opportunities.slice(0, show)) {
+      const size = o.size !== null ? o.size.toFixed(0) : '-';
+      const age = `${o.leftQuoteAgeSec}/${o.rightQuoteAgeSec}s`;
+      const title = (titleById.get(o.linkId) || '').slice(0, 50);
+      console.log(
+        `  ${String(o.linkId).padEnd(8)} ${o.strategy.padEnd(12)} ${o.grossEdge.toFixed(3).padStart(7)} ${o.netEdge.toFixed(3).padStart(7)} ${size.padStart(8)} ${age.padStart(10)}  ${title}${o.inverted ? ' [inv]' : ''}`
+      );
+    }
+  }
+
+  if (!dryRun) {
+    const stats = await arbRepo.getDurationStats(new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000));
+    if (stats.closedCount > 0) {
+      console.log('\n[Spread Lifetime (closed, last 7d)]');
+      console.log(`  Closed: ${stats.closedCount}, Still open: ${stats.openCount}`);
+      console.log(`  Avg: ${stats.avgOpenSeconds!.toFixed(0)}s, Median: ${stats.medianOpenSeconds!.toFixed(0)}s, Max: ${stats.maxOpenSeconds!.toFixed(0)}s`);
+    }
+  }
+
+  return {
+    linksScanned: links.length,
+    skipped,
+    opportunities,
+    persisted,
+  };
+}
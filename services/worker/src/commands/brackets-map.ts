@@ -0,0 +1,156 @@
+/**
+ * brackets:map - Synthetic equivalences between crypto price ladders (v3.2.0)
+ *
+ * Groups each venue's crypto markets into ladders (entity + settle date),
+ * reads every market as a price range, and finds which combination of the
+ * other venue's legs pays exactly like it: exact, union of brackets,
+ * threshold difference, or complement. Results are stored as
+ * SyntheticLinks next to the pairwise MarketLinks.
+ *
+ * Run: pnpm --filter @data-module/worker brackets:map --dry-run
+ */
+
+import { CanonicalTopic, type Venue } from '@data-module/core';
+import {
+  getClient,
+  MarketRepository,
+  SyntheticLinkRepository,
+  type SyntheticLinkInput,
+  type UpsertSyntheticLinksResult,
+} from '@data-module/db';
+import {
+  CRYPTO_ENTITIES_V1,
+  fetchEligibleCryptoMarkets,
+  buildCryptoLadders,
+  mapBracketLadders,
+  replicationLegsKey,
+  formatRange,
+  type BracketEquivalence,
+  type ReplicationKind,
+} from '../matching/index.js';
+
+export const BRACKETS_ALGO_VERSION = 'brackets@3.2.0';
+
+export interface BracketsMapOptions {
+  fromVenue?: Venue;
+  toVenue?: Venue;
+  entities?: readonly string[];
+  lookbackHours?: number;
+  limit?: number;
+  /** Longest leg combination to store (default: 8) */
+  maxLegs?: number;
+  dryRun?: boolean;
+  /** Sample equivalences to print (default: 10) */
+  show?: number;
+}
+
+export interface BracketsMapResult {
+  dryRun: boolean;
+  ladders: { from: number; to: number; shared: number };
+  byKind: Record<ReplicationKind, number>;
+  equivalences: BracketEquivalence[];
+  written: UpsertSyntheticLinksResult | null;
+}
+
+function toInput(eq: BracketEquivalence): SyntheticLinkInput {
+  return {
+    eventKey: eq.eventKey,
+    topic: CanonicalTopic.CRYPTO_DAILY,
+    targetVenue: eq.target.venue,
+    targetMarketId: eq.target.marketId,
+    targetLo: eq.target.range.lo,
+    targetHi: eq.target.range.hi,
+    legVenue: eq.legs[0].leg.venue,
+    kind: eq.kind,
+    constant: eq.constant,
+    legs: eq.legs.map(({ leg, weight }) => ({
+      marketId: leg.marketId,
+      weight,
+      lo: leg.range.lo,
+      hi: leg.range.hi,
+    })),
+    legsKey: replicationLegsKey(eq),
+    algoVersion: BRACKETS_ALGO_VERSION,
+  };
+}
+
+export async function runBracketsMap(options: BracketsMapOptions = {}): Promise<BracketsMapResult> {
+  const {
+    fromVenue = 'polymarket',
+    toVenue = 'kalshi',
+    entities = CRYPTO_ENTITIES_V1,
+    lookbackHours = 720,
+    limit = 5000,
+    maxLegs = 8,
+    dryRun = false,
+    show = 10,
+  } = options;
+
+  console.log(`\n${'='.repeat(60)}`);
+  console.log(`[brackets:map] Crypto ladder equivalences (v3.2.0)`);
+  console.log(`${'='.repeat(60)}`);
+  console.log(`${fromVenue} <-> ${toVenue} | Entities: ${entities.join(', ')} | Lookback: ${lookbackHours}h`);
+  console.log(`Mode: ${dryRun ? 'DRY RUN' : 'APPLY'}\n`);
+
+  const prisma = getClient();
+  const marketRepo = new MarketRepository(prisma);
+
+  const ladders = [];
+  for (const venue of [fromVenue, toVenue]) {
+    const { markets } = await fetchEligibleCryptoMarkets(marketRepo, {
+      venue,
+      lookbackHours,
+      limit,
+      entities,
+      excludeSports: true,
+      excludeIntraday: true,
+    });
+    const byEvent = buildCryptoLadders(markets);
+    console.log(`${venue}: ${markets.length} markets -> ${byEvent.size} ladders`);
+    ladders.push(byEvent);
+  }
+  const [fromLadders, toLadders] = ladders;
+
+  const equivalences: BracketEquivalence[] = [];
+  let shared = 0;
+  for (const [eventKey, left] of fromLadders) {
+    const right = toLadders.get(eventKey);
+    if (!right) continue;
+    shared++;
+    equivalences.push(...mapBracketLadders(eventKey, left, right, { maxLegs }));
+  }
+
+  const byKind: Record<ReplicationKind, number> = { exact: 0, union: 0, difference: 0, complement: 0 };
+  for (const eq of equivalences) byKind[eq.kind]++;
+
+  console.log(`\nShared events: ${shared}`);
+  console.log(
+    `Equivalences: ${equivalences.length} ` +
+      `(exact ${byKind.exact}, union ${byKind.union}, difference ${byKind.difference}, complement ${byKind.complement})`
+  );
+
+  const samples = equivalences.filter((eq) => eq.kind !== 'exact').slice(0, show);
+  for (const eq of samples) {
+    const legs = eq.legs
+      .map(({ leg, weight }) => `${weight > 0 ? '+' : '-'}${leg.venue}:${leg.marketId}[${formatRange(leg.range)}]`)
+      .join(' ');
+    console.log(`\n  [${eq.kind}] ${eq.eventKey} ${eq.target.venue}:${eq.target.marketId}[${formatRange(eq.target.range)}]`);
+    console.log(`    ${eq.target.title.slice(0, 90)}`);
+    console.log(`    = ${eq.constant ? '1 ' : ''}${legs}`);
+  }
+
+  let written: UpsertSyntheticLinksResult | null = null;
+  if (!dryRun && equivalences.length > 0) {
+    const syntheticRepo = new SyntheticLinkRepository(prisma);
+    written = await syntheticRepo.upsertMany(equivalences.map(toInput));
+    console.log(`\nStored: ${written.created} created, ${written.updated} updated`);
+  }
+
+  return {
+    dryRun,
+    ladders: { from: fromLadders.size, to: toLadders.size, shared },
+    byKind,
+    equivalences,
+    written,
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * clusters:rebuild - Derive N-venue event clusters from reviewed links (v3.2.0)
+ *
+ * Every connected component of confirmed MarketLinks becomes one
+ * EventCluster, so equivalence across three or more venues is stored once
+ * instead of as a pair per venue combination. Clusters where a rejected link
+ * joins two members, or where a venue appears twice, are marked `conflict`
+ * and listed for review.
+ *
+ * Run: pnpm --filter @data-module/worker clusters:rebuild --dry-run
+ */
+
+import { getClient, EventClusterRepository, type ReplaceClustersResult } from '@data-module/db';
+import {
+  buildEventClusters,
+  summarizeClusters,
+  type DerivedCluster,
+  type ClusterBuildSummary,
+} from '../matching/index.js';
+
+export interface ClustersRebuildOptions {
+  dryRun?: boolean;
+  /** Conflicting clusters to print (default: 20) */
+  showConflicts?: number;
+}
+
+export interface ClustersRebuildResult {
+  dryRun: boolean;
+  edges: { confirmed: number; rejected: number };
+  summary: ClusterBuildSummary;
+  conflicts: DerivedCluster[];
+  written: ReplaceClustersResult | null;
+}
+
+export async function runClustersRebuild(options: ClustersRebuildOptions = {}): Promise<ClustersRebuildResult> {
+  const { dryRun = false, showConflicts = 20 } = options;
+
+  console.log(`\n${'='.repeat(60)}`);
+  console.log(`[clusters:rebuild] Event clusters from reviewed links (v3.2.0)`);
+  console.log(`${'='.repeat(60)}`);
+  console.log(`Mode: ${dryRun ? 'DRY RUN' : 'APPLY'}\n`);
+
+  const clusterRepo = new EventClusterRepository(getClient());
+  const edges = await clusterRepo.listLinkEdges();
+  const confirmed = edges.filter((e) => e.status === 'confirmed').length;
+  console.log(`Links: ${confirmed} confirmed, ${edges.length - confirmed} rejected`);
+
+  const clusters = buildEventClusters(edges);
+  const summary = summarizeClusters(clusters);
+  const conflicts = clusters.filter((c) => c.conflicts.length > 0);
+
+  console.log(`Clusters: ${summary.clusters} (${summary.members} markets)`);
+  for (const [venues, count] of Object.entries(summary.byVenueCount).sort(([a], [b]) => Number(a) - Number(b))) {
+    console.log(`  ${venues} venue(s): ${count}`);
+  }
+  console.log(`Conflicts: ${summary.conflicts}`);
+
+  for (const cluster of conflicts.slice(0, showConflicts)) {
+    console.log(`\n  [${cluster.key}] ${cluster.title.slice(0, 80)}`);
+    console.log(`    members: ${cluster.members.map((m) => `${m.venue}:${m.marketId}`).join(', ')}`);
+    for (const conflict of cluster.conflicts) {
+      if (conflict.type === 'rejected_pair') {
+        console.log(
+          `    rejected link #${conflict.linkId} (${conflict.marketIds.join(' !~ ')}) ` +
+            `joined via confirmed links ${conflict.path.map((id) => `#${id}`).join(' -> ')}`
+        );
+      } else {
+        console.log(`    ${conflict.marketIds.length} markets on ${conflict.venue}: ${conflict.marketIds.join(', ')}`);
+      }
+    }
+  }
+  if (conflicts.length > showConflicts) {
+    console.log(`\n  ... ${conflicts.length - showConflicts} more`);
+  }
+
+  let written: ReplaceClustersResult | null = null;
+  if (!dryRun) {
+    written = await clusterRepo.replaceClusters(clusters);
+    console.log(`\nStored: ${written.created} created, ${written.updated} updated, ${written.deleted} deleted`);
+  }
+
+  return {
+    dryRun,
+    edges: { confirmed, rejected: edges.length - confirmed },
+    summary,
+    conflicts,
+    written,
+  };
+}
@@ -0,0 +1,170 @@
+/**
+ * consensus:compute - Cross-venue consensus probabilities (v3.2.0)
+ *
+ * For every confirmed link and event cluster, blends the members' latest
+ * quotes (liquidity- and freshness-weighted) into one probability with a
+ * confidence band and a divergence flag, and appends it to consensus_quotes
+ * when a source quote has changed since the subject's last row.
+ *
+ * Run: pnpm --filter @data-module/worker consensus:compute --dry-run
+ */
+
+import {
+  getClient,
+  ArbOpportunityRepository,
+  ConsensusRepository,
+  type ConsensusQuoteInput,
+  type LatestQuote,
+  type MarketWithQuotes,
+} from '@data-module/db';
+import {
+  evaluateConsensus,
+  DEFAULT_CONSENSUS_CONFIG,
+  type ConsensusConfig,
+  type ConsensusMarket,
+  type ConsensusSubject,
+  type SourceQuote,
+} from '../pricing/index.js';
+
+export type ConsensusScope = 'links' | 'clusters' | 'all';
+
+export interface ConsensusComputeOptions {
+  scope?: ConsensusScope;
+  topic?: string;
+  /** Max links / clusters to load (each) */
+  limit?: number;
+  /** Defaults from CONSENSUS_* env */
+  halfLifeSec?: number;
+  maxQuoteAgeSec?: number;
+  divergenceThreshold?: number;
+  /** Subjects to print */
+  show?: number;
+  dryRun?: boolean;
+}
+
+export interface ConsensusComputeResult {
+  subjects: number;
+  skipped: Record<string, number>;
+  computed: ConsensusQuoteInput[];
+  /** Rows appended (0 in dry run) */
+  written: number;
+  unchanged: number;
+}
+
+function toSourceQuote(lq: LatestQuote | null): SourceQuote | null {
+  if (!lq) return null;
+  return {
+    impliedProb: lq.impliedProb,
+    liquidity: lq.liquidity,
+    spread: lq.spread,
+    ts: lq.ts,
+  };
+}
+
+function toConsensusMarket(market: MarketWithQuotes): ConsensusMarket {
+  return {
+    marketId: market.id,
+    venue: market.venue,
+    title: market.title,
+    outcomes: market.outcomes.map((o) => ({ side: o.side, quote: toSourceQuote(o.latestQuote) })),
+  };
+}
+
+export async function runConsensusCompute(options: ConsensusComputeOptions = {}): Promise<ConsensusComputeResult> {
+  const { scope = 'all', topic, limit = 5000, show = 10, dryRun = false } = options;
+  const config: ConsensusConfig = {
+    ...DEFAULT_CONSENSUS_CONFIG,
+    halfLifeSec: options.halfLifeSec ?? DEFAULT_CONSENSUS_CONFIG.halfLifeSec,
+    maxQuoteAgeSec: options.maxQuoteAgeSec ?? DEFAULT_CONSENSUS_CONFIG.maxQuoteAgeSec,
+    divergenceThreshold: options.divergenceThreshold ?? DEFAULT_CONSENSUS_CONFIG.divergenceThreshold,
+  };
+
+  const prisma = getClient();
+  const consensusRepo = new ConsensusRepository(prisma);
+  const now = new Date();
+
+  console.log(`\n${'='.repeat(60)}`);
+  console.log(`[consensus:compute] Cross-venue consensus (v3.2.0)`);
+  console.log(`${'='.repeat(60)}`);
+  console.log(`Scope: ${scope} | Topic: ${topic || 'all'}`);
+  console.log(`Half-life: ${config.halfLifeSec}s, Max quote age: ${config.maxQuoteAgeSec}s, Divergence: ${config.divergenceThreshold}`);
+  console.log(`Mode: ${dryRun ? 'DRY RUN' : 'APPLY'}\n`);
+
+  const subjects: ConsensusSubject[] = [];
+  if (scope !== 'clusters') {
+    const links = await new ArbOpportunityRepository(prisma).getConfirmedLinksWithQuotes({ topic, limit });
+    console.log(`[consensus:compute] Loaded ${links.length} confirmed links`);
+    for (const link of links) {
+      subjects.push({
+        subjectKey: `link:${link.id}`,
+        topic: link.topic,
+        markets: [toConsensusMarket(link.leftMarket), toConsensusMarket(link.rightMarket)],
+      });
+    }
+  }
+  if (scope !== 'links') {
+    const clusters = await consensusRepo.getClustersWithQuotes({ topic, limit });
+    console.log(`[consensus:compute] Loaded ${clusters.length} event clusters`);
+    for (const cluster of clusters) {
+      subjects.push({
+        subjectKey: `cluster:${cluster.key}`,
+        topic: cluster.topic,
+        markets: cluster.members.map((m) => toConsensusMarket(m.market)),
+      });
+    }
+  }
+
+  const computed: ConsensusQuoteInput[] = [];
+  const skipped: Record<string, number> = {};
+  for (const subject of subjects) {
+    const evaluation = evaluateConsensus(subject, config, now);
+    if (!evaluation.result) {
+      const reason = evaluation.skipReason!;
+      skipped[reason] = (skipped[reason] || 0) + 1;
+      continue;
+    }
+    computed.push(evaluation.result);
+  }
+
+  // Only append when a source quote is newer than the subject's last row
+  const latest = await consensusRepo.getLatestBySubjects(computed.map((c) => c.subjectKey));
+  const changed = computed.filter((c) => {
+    const last = latest.get(c.subjectKey);
+    return !last || c.ts.getTime() > last.ts.getTime();
+  });
+  const unchanged = computed.length - changed.length;
+
+  let written = 0;
+  if (!dryRun) {
+    written = await consensusRepo.insertMany(changed);
+  }
+
+  const diverged = computed.filter((c) => c.diverged);
+  console.log('\n[Summary]');
+  console.log(`  Subjects:   ${subjects.length}`);
+  console.log(`  Computed:   ${computed.length} (${diverged.length} diverged)`);
+  for (const [reason, count] of Object.entries(skipped)) {
+    console.log(`  Skipped (${reason}): ${count}`);
+  }
+  console.log(`  Unchanged:  ${unchanged}`);
+  console.log(`  ${dryRun ? 'Would write' : 'Written'}: ${dryRun ? changed.length : written}`);
+
+  if (diverged.length > 0) {
+    const top = [...diverged].sort((a, b) => b.divergence - a.divergence).slice(0, show);
+    console.log(`\n[Top ${top.length} Diverged]`);
+    for (const c of top) {
+      const venues = c.sources.map((s) => `${s.venue}:${s.prob.toFixed(3)}${s.inverted ? '*' : ''}`).join(' ');
+      console.log(
+        `  ${c.subjectKey.padEnd(16)} p=${c.prob.toFixed(3)} [${c.lo.toFixed(3)}, ${c.hi.toFixed(3)}] div=${c.divergence.toFixed(3)}  ${venues}`
+      );
+    }
+  }
+
+  return {
+    subjects: subjects.length,
+    skipped,
+    computed,
+    written,
+    unchanged,
+  };
+}
@@ -8,6 +8,7 @@
 import { type Venue } from '@data-module/core';
 import {
   getClient,
+  MarketLinkRepository,
   type Venue as DBVenue,
 } from '@data-module/db';
 
@@ -70,6 +71,7 @@ export async function runIntradayBest(options: IntradayBestOptions): Promise<Int
   console.log(`${'='.repeat(80)}\n`);
 
   const prisma = getClient();
+  const linkRepo = new MarketLinkRepository(prisma);
 
   // Query market_links for intraday suggestions
   const links = await prisma.marketLink.findMany({
@@ -181,9 +183,10 @@ export async function runIntradayBest(options: IntradayBestOptions): Promise<Int
       let confirmed = 0;
       for (const m of toConfirm) {
         try {
-          await prisma.marketLink.update({
-            where: { id: m.id },
-            data: { status: 'confirmed' },
+          await linkRepo.confirm(m.id, {
+            type: 'rule',
+            id: `intraday_best:score>=${applyMinScore}`,
+            source: 'crypto:intraday:best',
           });
           confirmed++;
           console.log(`  ✓ Confirmed link #${m.id} (score=${m.score.toFixed(3)})`);
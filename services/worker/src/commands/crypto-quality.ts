@@ -271,7 +271,8 @@ export async function runCryptoQuality(options: CryptoQualityOptions): Promise<C
             toVenue as DBVenue,
             m.rightId,
             m.score,
-            m.reason
+            m.reason,
+            { type: 'rule', id: 'SAFE_RULES', source: `crypto:${mode}` }
           );
 
           if (result.wasAlreadyConfirmed) {
@@ -0,0 +1,213 @@
+/**
+ * eval:matching - Precision / recall of the V3 matchers against labeled pairs (v3.2.0)
+ *
+ * Labels: ground-truth-pairs.csv plus reviewed links from the DB (confirmed =
+ * same event, rejected = different). Every registered TopicPipeline replays
+ * the pairs offline; the report breaks results down per topic and score
+ * bucket. Save a report before changing a scorer and pass it as --baseline
+ * afterwards to get the per-algoVersion diff and the pairs that flipped.
+ *
+ * Run: pnpm --filter @data-module/worker eval:matching --save eval-baseline.json
+ */
+
+import * as fs from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { getClient, MarketLinkRepository, type LabeledLinkMarket } from '@data-module/db';
+import {
+  registerAllPipelines,
+  getPipeline,
+  getRegisteredTopics,
+  parseTopicString,
+  parseGroundTruthCsv,
+  evaluatePairs,
+  computeEvalReport,
+  diffEvalReports,
+  type TopicPipeline,
+  type LabeledPair,
+  type EvalMarket,
+  type SimilarEventPolicy,
+  type MatchingEvalReport,
+  type MatchingEvalDiff,
+  type MetricDelta,
+} from '../matching/index.js';
+
+export const DEFAULT_GROUND_TRUTH_CSV = fileURLToPath(new URL('../../../../ground-truth-pairs.csv', import.meta.url));
+
+export interface EvalMatchingOptions {
+  /** Ground truth CSV (default: ground-truth-pairs.csv at the repo root) */
+  csvPath?: string;
+  /** Add reviewed links from the DB as labels (default: true) */
+  fromDb?: boolean;
+  /** Max reviewed links to load (default: 5000) */
+  dbLimit?: number;
+  /** Restrict to these topics (pipelines and labels) */
+  topics?: string[];
+  /** Override every pipeline's minScore */
+  minScore?: number;
+  similarAs?: SimilarEventPolicy;
+  /** Write the JSON report here */
+  savePath?: string;
+  /** Previously saved JSON report to diff against */
+  baselinePath?: string;
+  /** Misclassified pairs to print (default: 20) */
+  showMisses?: number;
+  /** Mark the run failed when any pair regressed vs the baseline */
+  failOnRegression?: boolean;
+}
+
+export interface EvalMatchingResult {
+  ok: boolean;
+  report: MatchingEvalReport;
+  diff: MatchingEvalDiff | null;
+}
+
+function toEvalMarket(market: LabeledLinkMarket): EvalMarket {
+  return {
+    ...market,
+    metadata: market.metadata as Record<string, unknown> | null,
+  };
+}
+
+function pct(value: number | null): string {
+  return value === null ? '-' : `${(value * 100).toFixed(1)}%`;
+}
+
+function signedPct(d: MetricDelta): string {
+  if (d.delta === null) return `${pct(d.baseline)} -> ${pct(d.current)}`;
+  const sign = d.delta > 0 ? '+' : '';
+  return `${pct(d.baseline)} -> ${pct(d.current)} (${sign}${(d.delta * 100).toFixed(1)})`;
+}
+
+export async function runEvalMatching(options: EvalMatchingOptions = {}): Promise<EvalMatchingResult> {
+  const {
+    csvPath = DEFAULT_GROUND_TRUTH_CSV,
+    fromDb = true,
+    dbLimit = 5000,
+    minScore,
+    similarAs = 'negative',
+    savePath,
+    baselinePath,
+    showMisses = 20,
+    failOnRegression = false,
+  } = options;
+
+  console.log(`\n${'='.repeat(60)}`);
+  console.log(`[eval:matching] Matcher evaluation against labeled pairs (v3.2.0)`);
+  console.log(`${'='.repeat(60)}`);
+
+  registerAllPipelines();
+  const topics = options.topics?.length
+    ? options.topics.map((t) => {
+        const topic = parseTopicString(t);
+        if (!topic) throw new Error(`Unknown topic: ${t}`);
+        return topic;
+      })
+    : getRegisteredTopics();
+  const pipelines = topics
+    .map((topic) => getPipeline(topic))
+    .filter((p): p is TopicPipeline<any, any, any> => p !== undefined);
+
+  // Labels
+  let pairs: LabeledPair[] = [];
+  if (csvPath) {
+    const csvPairs = parseGroundTruthCsv(fs.readFileSync(csvPath, 'utf-8'), parseTopicString);
+    console.log(`CSV labels: ${csvPairs.length} from ${csvPath}`);
+    pairs.push(...csvPairs);
+  }
+  if (fromDb) {
+    const linkRepo = new MarketLinkRepository(getClient());
+    const links = await linkRepo.getLabeledPairs({ limit: dbLimit });
+    console.log(`DB labels: ${links.length} reviewed links`);
+    for (const link of links) {
+      pairs.push({
+        key: `link:${link.id}`,
+        source: 'db',
+        matchType: link.status === 'confirmed' ? 'SAME_EVENT' : 'DIFFERENT',
+        labelTopic: link.topic,
+        left: toEvalMarket(link.leftMarket),
+        right: toEvalMarket(link.rightMarket),
+      });
+    }
+  }
+  if (options.topics?.length) {
+    pairs = pairs.filter((p) => p.labelTopic !== null && (topics as string[]).includes(p.labelTopic));
+  }
+  console.log(`Pipelines: ${pipelines.map((p) => p.algoVersion).join(', ')}`);
+  console.log(`SIMILAR_EVENT counted as: ${similarAs}, minScore: ${minScore ?? 'per-topic default'}\n`);
+
+  const results = await evaluatePairs(pipelines, pairs, { minScore });
+  const report = computeEvalReport(results, similarAs);
+
+  // Per-topic table
+  const { labels, overall } = report;
+  console.log(`\nLabels: ${labels.positives} positive, ${labels.negatives} negative, ${labels.excluded} excluded`);
+  console.log(`\nBy topic (pairs the pipeline claimed):`);
+  console.log(
+    `  ${'topic'.padEnd(16)} ${'algoVersion'.padEnd(28)} ${'claim'.padStart(5)} ${'tp'.padStart(4)} ${'fp'.padStart(4)} ` +
+      `${'fn'.padStart(4)} ${'prec'.padStart(7)} ${'recall'.padStart(7)} ${'f1'.padStart(7)}`
+  );
+  for (const t of report.topics) {
+    if (t.claimed === 0) continue;
+    console.log(
+      `  ${t.topic.padEnd(16)} ${t.algoVersion.padEnd(28)} ${String(t.claimed).padStart(5)} ${String(t.tp).padStart(4)} ` +
+        `${String(t.fp).padStart(4)} ${String(t.fn).padStart(4)} ${pct(t.precision).padStart(7)} ` +
+        `${pct(t.recall).padStart(7)} ${pct(t.f1).padStart(7)}`
+    );
+  }
+
+  console.log(`\nBy score bucket (share of true matches):`);
+  for (const t of report.topics) {
+    if (t.claimed === 0) continue;
+    const cells = t.buckets.map((b) => `${b.bucket}: ${b.positives}/${b.positives + b.negatives}`);
+    console.log(`  ${t.topic.padEnd(16)} ${cells.join('  ')}`);
+  }
+
+  console.log(
+    `\nOverall: precision ${pct(overall.precision)}, recall ${pct(overall.recall)}, F1 ${pct(overall.f1)} ` +
+      `(tp=${overall.tp} fp=${overall.fp} fn=${overall.fn} tn=${overall.tn}, ${overall.unclaimedPositives} positives no pipeline claimed)`
+  );
+
+  const misses = report.pairs.filter((p) => p.label !== p.predicted);
+  if (misses.length > 0 && showMisses > 0) {
+    console.log(`\nMisclassified (${misses.length}):`);
+    for (const m of misses.slice(0, showMisses)) {
+      const kind = m.label ? 'FN' : 'FP';
+      const best = m.bestTopic ? `${m.bestTopic} ${m.bestScore!.toFixed(3)}` : 'no score';
+      console.log(`  ${kind} ${m.key} [${m.matchType}, ${best}]`);
+      console.log(`    L: ${m.leftTitle.slice(0, 90)}`);
+      console.log(`    R: ${m.rightTitle.slice(0, 90)}`);
+    }
+  }
+
+  let diff: MatchingEvalDiff | null = null;
+  if (baselinePath) {
+    const baseline = JSON.parse(fs.readFileSync(baselinePath, 'utf-8')) as MatchingEvalReport;
+    diff = diffEvalReports(baseline, report);
+
+    console.log(`\nDiff vs baseline ${baselinePath} (${baseline.generatedAt}):`);
+    for (const t of diff.topics) {
+      if (t.f1.baseline === null && t.f1.current === null) continue;
+      const versions =
+        t.baselineAlgoVersion === t.currentAlgoVersion
+          ? t.currentAlgoVersion ?? '-'
+          : `${t.baselineAlgoVersion ?? '-'} -> ${t.currentAlgoVersion ?? '-'}`;
+      console.log(`  ${t.topic.padEnd(16)} ${versions}`);
+      console.log(`    precision ${signedPct(t.precision)}, recall ${signedPct(t.recall)}, F1 ${signedPct(t.f1)}`);
+    }
+    console.log(`  Overall F1 ${signedPct(diff.overall.f1)}`);
+    console.log(`  Fixed: ${diff.fixed.length}, regressed: ${diff.regressed.length}`);
+    for (const r of diff.regressed) {
+      console.log(`    REGRESSED ${r.key} (${r.label ? 'now missed' : 'now false match'})`);
+      console.log(`      L: ${r.leftTitle.slice(0, 90)}`);
+      console.log(`      R: ${r.rightTitle.slice(0, 90)}`);
+    }
+  }
+
+  if (savePath) {
+    fs.writeFileSync(savePath, JSON.stringify(report, null, 2));
+    console.log(`\nReport written to: ${savePath}`);
+  }
+
+  const ok = !(failOnRegression && diff && diff.regressed.length > 0);
+  return { ok, report, diff };
+}
@@ -109,7 +109,7 @@ export { runV3SuggestAll, type V3SuggestAllOptions } from './v3-suggest-all.js';
 export { runLLMValidate, type LLMValidateOptions } from './llm-validate.js';
 
 // v3.1.0: Review rollback
-export { runReviewRollback } from './review-rollback.js';
+export { runReviewRollback, type ReviewRollbackOptions } from './review-rollback.js';
 
 // v3.0.1: Taxonomy truth-audit and series sync
 export { runKalshiSeriesSync, type KalshiSeriesSyncOptions } from './kalshi-series-sync.js';
@@ -186,3 +186,61 @@ export { runKalshiSportsBreakdown, type SportsBreakdownOptions, type SportsBreak
 
 // v3.0.15: MVE truth field audit
 export { runKalshiMveAudit, type MveAuditOptions, type MveAuditResult } from './kalshi-mve-audit.js';
+
+// v3.2.0: Cross-venue arbitrage scanner
+export { runArbScan, type ArbScanOptions, type ArbScanResult } from './arb-scan.js';
+
+// v3.2.0: Quote time-series (OHLC/VWAP)
+export { runQuotesOhlc, type QuotesOhlcOptions, type QuotesOhlcResult } from './quotes-ohlc.js';
+
+// v3.2.0: Market resolution capture
+export { runResolutionsSync, type ResolutionsSyncOptions, type ResolutionsSyncResult, type ResolutionsSyncVenueResult } from './resolutions-sync.js';
+export { runLinksResolutionAudit, type LinksResolutionAuditOptions, type LinksResolutionAuditResult, type ResolutionAuditGroup, type ResolutionAuditDisagreement } from './links-resolution-audit.js';
+
+// v3.2.0: Matcher evaluation harness
+export { runEvalMatching, DEFAULT_GROUND_TRUTH_CSV, type EvalMatchingOptions, type EvalMatchingResult } from './eval-matching.js';
+
+// v3.2.0: N-venue event clusters
+export { runClustersRebuild, type ClustersRebuildOptions, type ClustersRebuildResult } from './clusters-rebuild.js';
+
+// v3.2.0: Bracket / ladder equivalence
+export { runBracketsMap, BRACKETS_ALGO_VERSION, type BracketsMapOptions, type BracketsMapResult } from './brackets-map.js';
+
+// v3.2.0: Cross-venue consensus probability
+export { runConsensusCompute, type ConsensusComputeOptions, type ConsensusComputeResult, type ConsensusScope } from './consensus-compute.js';
+
+// v3.2.0: Alert rules and events
+export {
+  runAlertRulesList,
+  runAlertRuleAdd,
+  runAlertRuleSetEnabled,
+  runAlertRuleRemove,
+  runAlertEvents,
+  type AlertRulesListOptions,
+  type AlertRuleAddOptions,
+  type AlertEventsOptions,
+} from './alerts.js';
+
+// v3.2.0: Engine V3 run history
+export { runV3Runs, runV3RunsCompare, type V3RunsOptions, type V3RunsCompareOptions, type V3RunsCompareResult } from './v3-runs.js';
+
+// v3.2.0: Persisted matching signals
+export { runSignalsQuery, runSignalsRefresh, type SignalsQueryOptions, type SignalsRefreshOptions } from './signals.js';
+
+// v3.2.0: Link lifecycle audit log
+export { runLinksEvents, runLinksRollback, type LinksEventsOptions, type LinksRollbackOptions } from './links-events.js';
+
+// v3.2.0: Multi-reviewer review server accounts and agreement
+export {
+  runReviewUserAdd,
+  runReviewUserSet,
+  runReviewUserToken,
+  runReviewUsers,
+  REVIEWER_ROLES,
+  type ReviewUserAddOptions,
+  type ReviewUserSetOptions,
+} from './review-users.js';
+export { runReviewAgreement, type ReviewAgreementOptions } from './review-agreement.js';
+
+// v3.2.0: Declarative link rules
+export { runRulesTest, type RulesTestOptions, type RulesTestResult } from './rules-test.js';
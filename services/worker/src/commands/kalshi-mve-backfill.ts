@@ -142,14 +142,14 @@ export async function runKalshiMveBackfill(options: MveBackfillOptions): Promise
       if (mveIds.length > 0) {
         await prisma.market.updateMany({
           where: { id: { in: mveIds } },
-          data: { isMve: true },
+          data: { isMve: true, contentChangedAt: new Date() }, // v3.2.0: invalidates stored signals
         });
       }
 
       if (nonMveIds.length > 0) {
         await prisma.market.updateMany({
           where: { id: { in: nonMveIds } },
-          data: { isMve: false },
+          data: { isMve: false, contentChangedAt: new Date() },
         });
       }
     }
@@ -2,18 +2,21 @@
  * links:auto-confirm - Automatically confirm high-quality links (v2.6.8)
  *
  * Uses SAFE_RULES to ensure only valid matches are confirmed.
+ * v3.2.0: Rules come from a ruleset file (--rules, default rules/link-rules.json).
  *
  * Run: pnpm --filter @data-module/worker links:auto-confirm --topic crypto_daily --dry-run
  * Run: pnpm --filter @data-module/worker links:auto-confirm --topic all --apply
+ * Run: pnpm --filter @data-module/worker links:auto-confirm --rules ./candidate-rules.json
  */
 
-import { getClient, type LinkStatus } from '@data-module/db';
+import { getClient, MarketLinkRepository, type LinkStatus } from '@data-module/db';
 import {
   evaluateSafeRules,
   formatEvaluation,
   DEFAULT_MIN_SCORES,
   type Topic,
 } from '../ops/safe-rules.js';
+import { resolveRuleset } from '../ops/ruleset.js';
 
 export interface AutoConfirmOptions {
   topic: Topic | 'all';
@@ -22,10 +25,14 @@ export interface AutoConfirmOptions {
   dryRun?: boolean;
   apply?: boolean;
   explain?: boolean;
+  /** v3.2.0: Ruleset file (default: the shipped rules/link-rules.json) */
+  rules?: string;
 }
 
 export interface AutoConfirmResult {
   topic: Topic | 'all';
+  /** v3.2.0: Version of the ruleset applied */
+  rulesVersion: string;
   dryRun: boolean;
   candidates: number;
   confirmed: number;
@@ -64,13 +71,16 @@ export async function runAutoConfirm(
 
   // --apply overrides --dry-run
   const effectiveDryRun = apply ? false : dryRun;
+  const ruleset = resolveRuleset(options.rules);
 
   const prisma = getClient();
+  const linkRepo = new MarketLinkRepository(prisma);
 
   console.log(`\n${'='.repeat(60)}`);
   console.log(`[links:auto-confirm] Auto-Confirm Links (v2.6.8)`);
   console.log(`${'='.repeat(60)}`);
   console.log(`Topic: ${topic}`);
+  console.log(`Rules: ${ruleset.version} (${ruleset.source})`);
   console.log(`Min Score: ${minScore ?? 'default per topic'}`);
   console.log(`Limit: ${limit}`);
   console.log(`Mode: ${effectiveDryRun ? 'DRY RUN' : '⚠️  APPLY (will confirm)'}`);
@@ -90,7 +100,7 @@ export async function runAutoConfirm(
   for (const currentTopic of topicsToProcess) {
     console.log(`[${currentTopic}] Processing...`);
 
-    const effectiveMinScore = minScore ?? DEFAULT_MIN_SCORES[currentTopic];
+    const effectiveMinScore = minScore ?? ruleset.confirm[currentTopic]?.minScore ?? DEFAULT_MIN_SCORES[currentTopic];
 
     // Fetch suggested links for this topic
     const links = await prisma.marketLink.findMany({
@@ -118,7 +128,7 @@ export async function runAutoConfirm(
       scoreSum += link.score;
 
       // Evaluate safe rules
-      const evaluation = evaluateSafeRules(link, currentTopic, effectiveMinScore);
+      const evaluation = evaluateSafeRules(link, currentTopic, effectiveMinScore, ruleset);
 
       if (explain) {
         console.log();
@@ -133,14 +143,12 @@ export async function runAutoConfirm(
         totalConfirmed++;
 
         if (!effectiveDryRun) {
-          const confirmReason = `auto_confirm@2.6.8:${currentTopic}:SAFE_RULES`;
-          await prisma.marketLink.update({
-            where: { id: link.id },
-            data: {
-              status: 'confirmed',
-              reason: confirmReason,
-            },
-          });
+          const confirmReason = `auto_confirm@2.6.8:${currentTopic}:SAFE_RULES:${ruleset.version}`;
+          await linkRepo.confirm(
+            link.id,
+            { type: 'rule', id: evaluation.passedRules.join('+') || 'SAFE_RULES', source: 'links:auto-confirm' },
+            confirmReason
+          );
         }
 
         // Track which rules were evaluated
@@ -194,6 +202,7 @@ export async function runAutoConfirm(
 
   return {
     topic,
+    rulesVersion: ruleset.version,
     dryRun: effectiveDryRun,
     candidates: totalCandidates,
     confirmed: totalConfirmed,
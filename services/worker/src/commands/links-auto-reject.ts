@@ -8,25 +8,27 @@
  * - Large settle date mismatch
  * - Text sanity below floor
  *
+ * v3.2.0: Rules come from a ruleset file (--rules, default rules/link-rules.json).
+ *
  * CAUTION: Default is dry-run mode. Use --apply to actually reject.
  *
  * Run: pnpm --filter @data-module/worker links:auto-reject --dry-run
  *      pnpm --filter @data-module/worker links:auto-reject --topic crypto_daily --min-age-hours 24 --apply
  */
 
-import { getClient, type LinkStatus } from '@data-module/db';
+import { getClient, MarketLinkRepository, type LinkStatus } from '@data-module/db';
 import {
   evaluateRejectRules,
   formatRejectEvaluation,
-  HARD_FLOOR_SCORES,
   type Topic,
   type RejectEvaluation,
 } from '../ops/reject-rules.js';
+import { resolveRuleset, rejectVars } from '../ops/ruleset.js';
 
 export interface LinksAutoRejectOptions {
   /** Filter by topic (default: all) */
   topic?: Topic | 'all';
-  /** Minimum age in hours before rejecting (default: 24) */
+  /** Minimum age in hours before rejecting (default: ruleset reject.minAgeHours) */
   minAgeHours?: number;
   /** Override hard floor score for rejection */
   maxScore?: number;
@@ -36,10 +38,14 @@ export interface LinksAutoRejectOptions {
   apply?: boolean;
   /** Show detailed evaluation for each link */
   explain?: boolean;
+  /** v3.2.0: Ruleset file (default: the shipped rules/link-rules.json) */
+  rules?: string;
 }
 
 export interface LinksAutoRejectResult {
   dryRun: boolean;
+  /** v3.2.0: Version of the ruleset applied */
+  rulesVersion: string;
   candidates: number;
   rejected: number;
   kept: number;
@@ -59,9 +65,10 @@ export interface LinksAutoRejectResult {
 export async function runLinksAutoReject(
   options: LinksAutoRejectOptions = {}
 ): Promise<LinksAutoRejectResult> {
+  const ruleset = resolveRuleset(options.rules);
   const {
     topic = 'all',
-    minAgeHours = 24,
+    minAgeHours = ruleset.reject.minAgeHours,
     maxScore,
     limit = 5000,
     apply = false,
@@ -70,12 +77,14 @@ export async function runLinksAutoReject(
 
   const dryRun = !apply;
   const prisma = getClient();
+  const linkRepo = new MarketLinkRepository(prisma);
 
   console.log(`\n${'='.repeat(60)}`);
   console.log(`[links:auto-reject] Auto-Reject Low-Quality Links (v2.6.8)`);
   console.log(`${'='.repeat(60)}`);
   console.log(`Options:`);
   console.log(`  topic: ${topic}`);
+  console.log(`  rules: ${ruleset.version} (${ruleset.source})`);
   console.log(`  minAgeHours: ${minAgeHours}`);
   console.log(`  maxScore: ${maxScore ?? 'default per topic'}`);
   console.log(`  limit: ${limit}`);
@@ -83,9 +92,11 @@ export async function runLinksAutoReject(
   if (explain) console.log(`  explain: enabled`);
   console.log();
 
+  // v3.2.0: Floors are ruleset variables (reject.vars.floor, overridden per topic)
   console.log('[Hard Floor Scores by Topic]');
-  for (const [t, score] of Object.entries(HARD_FLOOR_SCORES)) {
-    console.log(`  ${t}: ${score}`);
+  console.log(`  all: ${rejectVars(ruleset, 'all').floor ?? 'n/a'}`);
+  for (const t of Object.keys(ruleset.reject.topics)) {
+    console.log(`  ${t}: ${rejectVars(ruleset, t).floor ?? 'n/a'}`);
   }
   console.log();
 
@@ -138,7 +149,7 @@ export async function runLinksAutoReject(
     }
 
     // Evaluate reject rules
-    const evaluation = evaluateRejectRules(link, effectiveTopic, minAgeHours);
+    const evaluation = evaluateRejectRules(link, effectiveTopic, minAgeHours, ruleset);
 
     if (explain && toReject.length < 10) {
       console.log(`[Link ${link.id}] score=${link.score.toFixed(3)} topic=${effectiveTopic}`);
@@ -232,14 +243,12 @@ export async function runLinksAutoReject(
       const batch = toReject.slice(i, i + batchSize);
 
       for (const item of batch) {
-        const rejectReason = `auto_reject@2.6.8:${item.rejectReasons.join('+')}`;
-        await prisma.marketLink.update({
-          where: { id: item.id },
-          data: {
-            status: 'rejected',
-            reason: rejectReason,
-          },
-        });
+        const rejectReason = `auto_reject@2.6.8:${item.rejectReasons.join('+')}:${ruleset.version}`;
+        await linkRepo.reject(
+          item.id,
+          { type: 'rule', id: item.rejectReasons.join('+'), source: 'links:auto-reject' },
+          rejectReason
+        );
         rejected++;
       }
 
@@ -253,6 +262,7 @@ export async function runLinksAutoReject(
 
   return {
     dryRun,
+    rulesVersion: ruleset.version,
     candidates: links.length,
     rejected: dryRun ? 0 : toReject.length,
     kept: kept.length,
@@ -0,0 +1,125 @@
+/**
+ * links:events / links:rollback - Link lifecycle audit log (v3.2.0)
+ *
+ * links:events lists market_link_events newest first; links:rollback
+ * reverts an event range (by id, time, link, actor or source) and logs the
+ * reverts as new events.
+ *
+ * Run: pnpm --filter @data-module/worker links:rollback -- --from-event 1200 --to-event 1450 --dry-run
+ */
+
+import {
+  getClient,
+  MarketLinkRepository,
+  MarketLinkEventRepository,
+  type MarketLinkEvent,
+  type MarketLinkEventFilter,
+} from '@data-module/db';
+import { planRollback, applyRollback, type RollbackPlan, type LinkState } from '../matching/link-rollback.js';
+
+export interface LinksEventsOptions extends MarketLinkEventFilter {
+  limit?: number;
+}
+
+export interface LinksRollbackOptions extends MarketLinkEventFilter {
+  /** Revert even when a later change outside the range would be overwritten */
+  force?: boolean;
+  dryRun?: boolean;
+  /** Recorded as the actor of the revert events */
+  as?: string;
+  /** Recorded as the source of the revert events (`source` filters the range) */
+  revertSource?: string;
+}
+
+function formatEvent(e: MarketLinkEvent): string {
+  const transition = `${e.fromStatus ?? '(new)'} -> ${e.toStatus}`;
+  return (
+    `  #${String(e.id).padEnd(8)} ${e.createdAt.toISOString().slice(0, 19)}  link #${String(e.linkId).padEnd(8)} ` +
+    `${transition.padEnd(24)} ${`${e.actorType}:${e.actorId}`.slice(0, 40).padEnd(40)} ${e.source ?? ''}` +
+    (e.rollbackOfId ? `  (rollback of #${e.rollbackOfId})` : '')
+  );
+}
+
+export async function runLinksEvents(options: LinksEventsOptions = {}): Promise<MarketLinkEvent[]> {
+  const { items, total } = await new MarketLinkEventRepository(getClient()).list({ ...options, limit: options.limit ?? 50 });
+
+  console.log(`\n${'='.repeat(60)}`);
+  console.log(`[links:events] Link lifecycle audit log (v3.2.0)`);
+  console.log(`${'='.repeat(60)}`);
+  console.log(`Showing ${items.length} of ${total} events`);
+  if (items.length === 0) {
+    console.log('  (none)');
+  }
+  for (const e of items) {
+    console.log(formatEvent(e));
+    if (e.fromReason !== e.toReason && e.toReason) {
+      console.log(`  ${''.padEnd(9)} reason: ${e.toReason.slice(0, 100)}`);
+    }
+  }
+  return items;
+}
+
+export async function runLinksRollback(options: LinksRollbackOptions): Promise<RollbackPlan | null> {
+  const {
+    force = false,
+    dryRun = false,
+    as = process.env.USER || 'cli',
+    revertSource = 'links:rollback',
+    ...filter
+  } = options;
+  const prisma = getClient();
+  const eventRepo = new MarketLinkEventRepository(prisma);
+
+  console.log(`\n${'='.repeat(60)}`);
+  console.log(`[links:rollback] Revert link events (v3.2.0)${dryRun ? ' [DRY RUN]' : ''}`);
+  console.log(`${'='.repeat(60)}`);
+
+  if (Object.values(filter).every((v) => v === undefined)) {
+    console.error('Refusing to roll back the whole log: give an event range, time range, link, actor or source');
+    return null;
+  }
+
+  const selected = await eventRepo.findRange(filter);
+  console.log(`Events in range: ${selected.length}`);
+  if (selected.length === 0) {
+    return { actions: [], skipped: [] };
+  }
+
+  const linkIds = [...new Set(selected.map((e) => e.linkId))];
+  const [linkEvents, links] = await Promise.all([
+    eventRepo.findForLinks(linkIds, selected[0].id),
+    prisma.marketLink.findMany({
+      where: { id: { in: linkIds } },
+      select: { id: true, status: true, reason: true, score: true },
+    }),
+  ]);
+  const plan = planRollback(selected, linkEvents, new Map<number, LinkState>(links.map((l) => [l.id, l])), force);
+
+  console.log(`Links to revert: ${plan.actions.length}, skipped: ${plan.skipped.length}`);
+  for (const a of plan.actions.slice(0, 50)) {
+    console.log(
+      `  link #${String(a.linkId).padEnd(8)} ${a.fromStatus.padEnd(10)} -> ${a.toStatus.padEnd(10)} ` +
+        `(reverts ${a.eventCount} event(s) from #${a.revertsEventId})`
+    );
+  }
+  if (plan.actions.length > 50) {
+    console.log(`  ... and ${plan.actions.length - 50} more`);
+  }
+  for (const s of plan.skipped.slice(0, 20)) {
+    console.log(`  skip link #${String(s.linkId).padEnd(8)} ${s.reason}`);
+  }
+  if (plan.skipped.some((s) => s.reason.startsWith('changed outside') || s.reason.startsWith('status is'))) {
+    console.log('  (use --force to overwrite later changes)');
+  }
+
+  if (dryRun || plan.actions.length === 0) {
+    return plan;
+  }
+
+  const result = await applyRollback(new MarketLinkRepository(prisma), plan, { type: 'user', id: as, source: revertSource });
+  console.log(`\nReverted: ${result.applied}/${plan.actions.length}`);
+  for (const f of result.failed) {
+    console.error(`  link #${f.linkId}: ${f.error}`);
+  }
+  return plan;
+}
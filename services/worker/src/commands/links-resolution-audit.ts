@@ -0,0 +1,186 @@
+/**
+ * links:resolution-audit - Did both sides of confirmed links settle the same way? (v3.2.0)
+ *
+ * For every confirmed link without a final verdict, compares the stored
+ * MarketResolution of both markets and records AGREE / DISAGREE / PENDING /
+ * VOID on the link. Disagreements are reported against the algoVersion and
+ * topic that produced the link - resolution is the real ground truth for
+ * grading matchers.
+ *
+ * Requires resolutions to be captured first (ingestion or resolutions:sync).
+ *
+ * Run: pnpm --filter @data-module/worker links:resolution-audit --dry-run
+ */
+
+import { getClient, ResolutionRepository, type ResolutionVerdict, type MarketResolution, type LinkVerdictUpdate } from '@data-module/db';
+import { compareResolutions, type SideResolution } from '../ops/resolution-verdict.js';
+import { detectInvertedPair } from '../arb/arbEngine.js';
+
+export interface LinksResolutionAuditOptions {
+  topic?: string;
+  algoVersion?: string;
+  /** Re-evaluate links that already have a final verdict */
+  recheck?: boolean;
+  limit?: number;
+  dryRun?: boolean;
+}
+
+export interface ResolutionAuditGroup {
+  algoVersion: string | null;
+  topic: string | null;
+  agree: number;
+  disagree: number;
+  void: number;
+  pending: number;
+  unchecked: number;
+  /** disagree / (agree + disagree), null when nothing settled */
+  disagreementRate: number | null;
+}
+
+export interface ResolutionAuditDisagreement {
+  linkId: number;
+  algoVersion: string | null;
+  topic: string | null;
+  reason: string;
+  leftTitle: string;
+  rightTitle: string;
+}
+
+export interface LinksResolutionAuditResult {
+  dryRun: boolean;
+  evaluated: number;
+  verdicts: Record<ResolutionVerdict, number>;
+  /** Links whose verdict changed in this run */
+  changed: number;
+  disagreements: ResolutionAuditDisagreement[];
+  groups: ResolutionAuditGroup[];
+}
+
+function toSide(resolution: MarketResolution | null): SideResolution | null {
+  if (!resolution) return null;
+  return {
+    status: resolution.status,
+    winningOutcome: resolution.winningOutcome,
+    winningSide: resolution.winningSide,
+  };
+}
+
+export async function runLinksResolutionAudit(
+  options: LinksResolutionAuditOptions = {}
+): Promise<LinksResolutionAuditResult> {
+  const { topic, algoVersion, recheck = false, limit = 5000, dryRun = false } = options;
+
+  console.log(`\n${'='.repeat(60)}`);
+  console.log(`[links:resolution-audit] Resolution agreement of confirmed links (v3.2.0)`);
+  console.log(`${'='.repeat(60)}`);
+  console.log(`Topic: ${topic ?? 'all'}, algoVersion: ${algoVersion ?? 'all'}, recheck: ${recheck}`);
+  console.log(`Mode: ${dryRun ? 'DRY RUN' : 'APPLY'}\n`);
+
+  const prisma = getClient();
+  const resolutionRepo = new ResolutionRepository(prisma);
+
+  const links = await resolutionRepo.getConfirmedLinksForAudit({ topic, algoVersion, recheck, limit });
+  const result: LinksResolutionAuditResult = {
+    dryRun,
+    evaluated: links.length,
+    verdicts: { AGREE: 0, DISAGREE: 0, PENDING: 0, VOID: 0 },
+    changed: 0,
+    disagreements: [],
+    groups: [],
+  };
+
+  const updates: LinkVerdictUpdate[] = [];
+  for (const link of links) {
+    const inverted = detectInvertedPair(link.leftMarket.title, link.rightMarket.title);
+    const left = link.leftMarket.resolution;
+    const right = link.rightMarket.resolution;
+    const { verdict, reason } = compareResolutions(toSide(left), toSide(right), inverted);
+
+    result.verdicts[verdict]++;
+    if (verdict !== link.resolutionVerdict) result.changed++;
+    if (verdict === 'DISAGREE') {
+      result.disagreements.push({
+        linkId: link.id,
+        algoVersion: link.algoVersion,
+        topic: link.topic,
+        reason,
+        leftTitle: link.leftMarket.title,
+        rightTitle: link.rightMarket.title,
+      });
+    }
+
+    updates.push({
+      linkId: link.id,
+      verdict,
+      details: {
+        reason,
+        inverted,
+        left: left ? { status: left.status, winningOutcome: left.winningOutcome, source: left.source } : null,
+        right: right ? { status: right.status, winningOutcome: right.winningOutcome, source: right.source } : null,
+      },
+    });
+  }
+
+  if (!dryRun && updates.length > 0) {
+    await resolutionRepo.setLinkVerdicts(updates);
+  }
+
+  console.log(`Evaluated ${links.length} links (${result.changed} changed)`);
+  for (const [verdict, count] of Object.entries(result.verdicts)) {
+    console.log(`  ${verdict.padEnd(9)} ${count}`);
+  }
+
+  if (result.disagreements.length > 0) {
+    console.log(`\nDISAGREE (${result.disagreements.length}):`);
+    for (const d of result.disagreements.slice(0, 50)) {
+      console.log(`  #${d.linkId} [${d.algoVersion ?? '-'} / ${d.topic ?? '-'}] ${d.reason}`);
+      console.log(`    L: ${d.leftTitle.slice(0, 90)}`);
+      console.log(`    R: ${d.rightTitle.slice(0, 90)}`);
+    }
+  }
+
+  // Stored verdicts (this run's included unless dry run) by originating matcher
+  const breakdown = await resolutionRepo.getVerdictBreakdown({ topic, algoVersion });
+  const groups = new Map<string, ResolutionAuditGroup>();
+  for (const row of breakdown) {
+    const key = `${row.algoVersion ?? ''}|${row.topic ?? ''}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        algoVersion: row.algoVersion,
+        topic: row.topic,
+        agree: 0,
+        disagree: 0,
+        void: 0,
+        pending: 0,
+        unchecked: 0,
+        disagreementRate: null,
+      };
+      groups.set(key, group);
+    }
+    switch (row.verdict) {
+      case 'AGREE': group.agree += row.count; break;
+      case 'DISAGREE': group.disagree += row.count; break;
+      case 'VOID': group.void += row.count; break;
+      case 'PENDING': group.pending += row.count; break;
+      default: group.unchecked += row.count;
+    }
+  }
+  for (const group of groups.values()) {
+    const settled = group.agree + group.disagree;
+    group.disagreementRate = settled > 0 ? group.disagree / settled : null;
+  }
+  result.groups = [...groups.values()].sort((a, b) => b.disagree - a.disagree || b.agree - a.agree);
+
+  console.log(`\nBy algoVersion / topic (stored verdicts):`);
+  console.log(`  ${'algoVersion'.padEnd(28)} ${'topic'.padEnd(18)} ${'agree'.padStart(6)} ${'disagr'.padStart(6)} ${'void'.padStart(5)} ${'pend'.padStart(5)} ${'rate'.padStart(6)}`);
+  for (const g of result.groups) {
+    const rate = g.disagreementRate === null ? '-' : `${(g.disagreementRate * 100).toFixed(1)}%`;
+    console.log(
+      `  ${(g.algoVersion ?? '-').padEnd(28)} ${(g.topic ?? '-').padEnd(18)} ${String(g.agree).padStart(6)} ` +
+        `${String(g.disagree).padStart(6)} ${String(g.void).padStart(5)} ${String(g.pending + g.unchecked).padStart(5)} ${rate.padStart(6)}`
+    );
+  }
+
+  return result;
+}
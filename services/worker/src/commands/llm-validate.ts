@@ -5,7 +5,7 @@
  * Confirms links where LLM says YES and score is high enough.
  */
 
-import { getClient, type LinkStatus } from '@data-module/db';
+import { getClient, MarketLinkRepository, type LinkStatus } from '@data-module/db';
 import { ProxyAgent } from 'undici';
 
 export interface LLMValidateOptions {
@@ -307,6 +307,7 @@ export async function runLLMValidate(options: LLMValidateOptions): Promise<LLMVa
   }
 
   const prisma = getClient();
+  const linkRepo = new MarketLinkRepository(prisma);
 
   // Fetch suggested links
   const whereClause: any = {
@@ -405,13 +406,11 @@ export async function runLLMValidate(options: LLMValidateOptions): Promise<LLMVa
         confirmed++;
 
         if (!effectiveDryRun) {
-          await prisma.marketLink.update({
-            where: { id: decision.linkId },
-            data: {
-              status: 'confirmed',
-              reason: `llm_validate@3.1.0:${provider}:${finalModel}:${decision.confidence.toFixed(2)}`,
-            },
-          });
+          await linkRepo.confirm(
+            decision.linkId,
+            { type: 'llm', id: `${provider}:${finalModel}`, source: 'llm:validate' },
+            `llm_validate@3.1.0:${provider}:${finalModel}:${decision.confidence.toFixed(2)}`
+          );
         }
       } else if (decision.decision === 'NO') {
         rejected++;
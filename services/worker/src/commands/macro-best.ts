@@ -159,7 +159,11 @@ export async function runMacroBest(options: MacroBestOptions = {}): Promise<Macr
     console.log(`\nConfirming ${links.length} matches...`);
     for (const link of links) {
       try {
-        await linkRepo.confirm(link.id);
+        await linkRepo.confirm(link.id, {
+          type: 'rule',
+          id: `macro_best:score>=${minScore}${onlyStrong ? ':STRONG' : ''}`,
+          source: 'macro:best',
+        });
         confirmed++;
         console.log(`  Confirmed #${link.id}`);
       } catch (err) {
@@ -256,7 +256,7 @@ export async function runConfirmMatch(id: number): Promise<void> {
     return;
   }
 
-  const updated = await linkRepo.confirm(id);
+  const updated = await linkRepo.confirm(id, { type: 'user', id: process.env.USER || 'cli', source: 'confirm-match' });
   console.log(`Link #${id} confirmed`);
   console.log(`  Left: ${truncate(link.leftMarket.title, 50)} (${link.leftVenue})`);
   console.log(`  Right: ${truncate(link.rightMarket.title, 50)} (${link.rightVenue})`);
@@ -286,7 +286,7 @@ export async function runRejectMatch(id: number): Promise<void> {
     console.log(`Warning: Link #${id} was confirmed, now rejecting`);
   }
 
-  await linkRepo.reject(id);
+  await linkRepo.reject(id, { type: 'user', id: process.env.USER || 'cli', source: 'reject-match' });
   console.log(`Link #${id} rejected`);
   console.log(`  Left: ${truncate(link.leftMarket.title, 50)} (${link.leftVenue})`);
   console.log(`  Right: ${truncate(link.rightMarket.title, 50)} (${link.rightVenue})`);
@@ -40,6 +40,8 @@ export interface OpsRunOptions {
   confirmLimit?: number;
   /** Limit for auto-reject */
   rejectLimit?: number;
+  /** v3.2.0: Ruleset file for auto-confirm/auto-reject (default: rules/link-rules.json) */
+  rules?: string;
 }
 
 interface StepResult {
@@ -77,6 +79,7 @@ export async function runOps(options: OpsRunOptions = {}): Promise<OpsRunResult>
     matchLimit = 500,
     confirmLimit = 500,
     rejectLimit = 2000,
+    rules,
   } = options;
 
   const dryRun = !apply;
@@ -180,6 +183,7 @@ export async function runOps(options: OpsRunOptions = {}): Promise<OpsRunResult>
         limit: confirmLimit,
         dryRun,
         apply: !dryRun,
+        rules,
       });
 
       summary.confirmed = result.confirmed;
@@ -212,9 +216,9 @@ export async function runOps(options: OpsRunOptions = {}): Promise<OpsRunResult>
     try {
       const result = await runLinksAutoReject({
         topic: 'all',
-        minAgeHours: 24,
         limit: rejectLimit,
         apply: !dryRun,
+        rules,
       });
 
       summary.rejected = result.rejected;
@@ -0,0 +1,95 @@
+/**
+ * quotes:ohlc - Resampled quote history (v3.2.0)
+ *
+ * Prints OHLC/VWAP bars for one outcome, or both sides of a MarketLink
+ * aligned on the same time grid, as CSV or JSON.
+ *
+ * Run: pnpm --filter @data-module/worker quotes:ohlc --link 42 --interval 5m --hours 24
+ */
+
+import { getClient, QuoteRepository, type LinkBarSeries } from '@data-module/db';
+import type { OhlcBar } from '@data-module/core';
+
+export interface QuotesOhlcOptions {
+  outcomeId?: number;
+  linkId?: number;
+  /** Interval string: 1m, 5m, 1h, 1d */
+  interval?: string;
+  from?: Date;
+  to?: Date;
+  /** Outcome side used for links (default: yes) */
+  side?: 'yes' | 'no';
+  forwardFill?: boolean;
+  format?: 'csv' | 'json';
+}
+
+export interface QuotesOhlcResult {
+  bars?: OhlcBar[];
+  link?: LinkBarSeries;
+}
+
+function fmt(n: number | null | undefined): string {
+  return n === null || n === undefined ? '' : n.toFixed(4);
+}
+
+function barColumns(bar: OhlcBar | null): string[] {
+  if (!bar) return ['', '', '', '', '', '', ''];
+  return [fmt(bar.open), fmt(bar.high), fmt(bar.low), fmt(bar.close), fmt(bar.vwap), fmt(bar.twap), String(bar.volume)];
+}
+
+const BAR_HEADER = ['open', 'high', 'low', 'close', 'vwap', 'twap', 'volume'];
+
+export async function runQuotesOhlc(options: QuotesOhlcOptions): Promise<QuotesOhlcResult> {
+  const {
+    outcomeId,
+    linkId,
+    interval = '1h',
+    to = new Date(),
+    from = new Date(to.getTime() - 24 * 60 * 60 * 1000),
+    side = 'yes',
+    forwardFill = true,
+    format = 'csv',
+  } = options;
+
+  if ((outcomeId === undefined) === (linkId === undefined)) {
+    throw new Error('Specify exactly one of --outcome or --link');
+  }
+
+  const prisma = getClient();
+  const quoteRepo = new QuoteRepository(prisma);
+
+  if (outcomeId !== undefined) {
+    const bars = await quoteRepo.getQuoteBars(outcomeId, { from, to, interval, forwardFill });
+
+    if (format === 'json') {
+      console.log(JSON.stringify({ outcomeId, interval, from, to, bars }, null, 2));
+    } else {
+      console.log(['ts', ...BAR_HEADER, 'count', 'filled'].join(','));
+      for (const bar of bars) {
+        console.log([bar.ts.toISOString(), ...barColumns(bar), bar.count, bar.filled].join(','));
+      }
+    }
+    return { bars };
+  }
+
+  const link = await quoteRepo.getLinkQuoteBars(linkId!, { from, to, interval, forwardFill, side });
+  if (!link) {
+    throw new Error(`Link ${linkId} not found or has no outcomes`);
+  }
+
+  if (format === 'json') {
+    console.log(JSON.stringify(link, null, 2));
+  } else {
+    console.log([
+      'ts',
+      ...BAR_HEADER.map((c) => `left_${c}`),
+      ...BAR_HEADER.map((c) => `right_${c}`),
+      'diff',
+    ].join(','));
+    for (const row of link.aligned) {
+      const diff = row.left && row.right ? fmt(row.left.close - row.right.close) : '';
+      console.log([row.ts.toISOString(), ...barColumns(row.left), ...barColumns(row.right), diff].join(','));
+    }
+  }
+  return { link };
+}
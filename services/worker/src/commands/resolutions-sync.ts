@@ -0,0 +1,121 @@
+/**
+ * resolutions:sync - Backfill settlement outcomes for recently closed markets (v3.2.0)
+ *
+ * Regular ingestion only sees markets the venue still lists (Polymarket's
+ * feed excludes closed markets), so this refetches markets whose closeTime
+ * passed within the lookback window and that have no final resolution yet,
+ * then stores the winning outcome, resolution time and source.
+ *
+ * Run: pnpm --filter @data-module/worker resolutions:sync --days 7 --dry-run
+ */
+
+import type { Venue, MarketResolutionDTO } from '@data-module/core';
+import { getClient, ResolutionRepository, type UpsertResolutionsResult } from '@data-module/db';
+import { createAdapter, getSupportedVenues, type KalshiAuthConfig } from '../adapters/index.js';
+
+export interface ResolutionsSyncOptions {
+  /** Venues to sync (default: all) */
+  venues?: Venue[];
+  /** Lookback window on closeTime in days (default: 7) */
+  days?: number;
+  /** Max markets per venue (default: 2000) */
+  limit?: number;
+  dryRun?: boolean;
+  kalshiAuth?: KalshiAuthConfig;
+}
+
+export interface ResolutionsSyncVenueResult {
+  venue: Venue;
+  candidates: number;
+  fetched: number;
+  /** Candidates the venue did not return */
+  notReturned: number;
+  byStatus: Record<MarketResolutionDTO['status'], number>;
+  /** Fetched markets that are still trading (no resolution yet) */
+  stillOpen: number;
+  written: UpsertResolutionsResult | null;
+  error?: string;
+}
+
+export interface ResolutionsSyncResult {
+  dryRun: boolean;
+  venues: ResolutionsSyncVenueResult[];
+}
+
+export async function runResolutionsSync(options: ResolutionsSyncOptions = {}): Promise<ResolutionsSyncResult> {
+  const { venues = getSupportedVenues(), days = 7, limit = 2000, dryRun = false, kalshiAuth } = options;
+
+  const prisma = getClient();
+  const resolutionRepo = new ResolutionRepository(prisma);
+  const closedSince = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  console.log(`\n=== Resolutions Sync (v3.2.0) ===`);
+  console.log(`Venues: ${venues.join(', ')}`);
+  console.log(`Closed since: ${closedSince.toISOString()} (${days}d), limit ${limit}/venue`);
+  console.log(`Mode: ${dryRun ? 'DRY RUN' : 'APPLY'}\n`);
+
+  const result: ResolutionsSyncResult = { dryRun, venues: [] };
+
+  for (const venue of venues) {
+    const venueResult: ResolutionsSyncVenueResult = {
+      venue,
+      candidates: 0,
+      fetched: 0,
+      notReturned: 0,
+      byStatus: { pending: 0, resolved: 0, void: 0 },
+      stillOpen: 0,
+      written: null,
+    };
+    result.venues.push(venueResult);
+
+    try {
+      const candidates = await resolutionRepo.getSyncCandidates({ venue, closedSince, limit });
+      venueResult.candidates = candidates.length;
+      console.log(`[${venue}] ${candidates.length} closed markets without a final resolution`);
+      if (candidates.length === 0) continue;
+
+      const adapter = createAdapter(venue, { kalshiAuth: venue === 'kalshi' ? kalshiAuth : undefined });
+      const markets = await adapter.fetchMarketsByIds(candidates.map((c) => c.externalId));
+      venueResult.fetched = markets.length;
+      venueResult.notReturned = Math.max(0, candidates.length - markets.length);
+
+      for (const market of markets) {
+        if (market.resolution) {
+          venueResult.byStatus[market.resolution.status]++;
+        } else {
+          venueResult.stillOpen++;
+        }
+      }
+
+      if (!dryRun) {
+        venueResult.written = await resolutionRepo.upsertResolutions(venue, markets);
+      }
+
+      const { resolved, void: voided, pending } = venueResult.byStatus;
+      console.log(
+        `[${venue}] fetched=${markets.length} resolved=${resolved} void=${voided} pending=${pending} ` +
+          `stillOpen=${venueResult.stillOpen} notReturned=${venueResult.notReturned}`
+      );
+      if (venueResult.written) {
+        const w = venueResult.written;
+        console.log(
+          `[${venue}] written: created=${w.created} updated=${w.updated} unchanged=${w.unchanged} ` +
+            `unmatchedOutcomes=${w.unmatchedOutcomes}`
+        );
+      }
+    } catch (error) {
+      venueResult.error = error instanceof Error ? error.message : String(error);
+      console.error(`[${venue}] Resolution sync failed: ${venueResult.error}`);
+    }
+  }
+
+  if (!dryRun) {
+    const stats = await resolutionRepo.getStats();
+    console.log(`\nStored resolutions: ${stats.total}`);
+    for (const [venue, counts] of Object.entries(stats.byVenue)) {
+      console.log(`  ${venue}: ${Object.entries(counts).map(([s, n]) => `${s}=${n}`).join(' ')}`);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,75 @@
+/**
+ * review:agreement - Inter-rater agreement report (v3.2.0)
+ *
+ * Cohen's kappa over double-blind reviews, overall and per reviewer pair,
+ * reviewer and topic, plus escalation counts and decision volume.
+ *
+ * Run: pnpm --filter @data-module/worker review:agreement -- --since-days 30
+ */
+
+import { getClient, ReviewRepository } from '@data-module/db';
+import { buildAgreementReport, type AgreementReport, type KappaResult } from '../review/index.js';
+
+export interface ReviewAgreementOptions {
+  sinceDays?: number;
+}
+
+function formatKappa(k: KappaResult): string {
+  const pct = k.observed === null ? '-' : `${(k.observed * 100).toFixed(1)}%`;
+  const kappa = k.kappa === null ? '-' : k.kappa.toFixed(3);
+  return `n=${String(k.n).padStart(5)}  agree ${pct.padStart(6)}  kappa ${kappa.padStart(6)}`;
+}
+
+export async function runReviewAgreement(options: ReviewAgreementOptions = {}): Promise<AgreementReport> {
+  const since = options.sinceDays !== undefined ? new Date(Date.now() - options.sinceDays * 24 * 60 * 60 * 1000) : undefined;
+  const repo = new ReviewRepository(getClient());
+  const [links, reviewers, counts] = await Promise.all([
+    repo.listDoubleReviewed(since),
+    repo.listReviewers(),
+    repo.countDecisionsByReviewer(since),
+  ]);
+  const report = buildAgreementReport(links);
+
+  console.log(`\n${'='.repeat(60)}`);
+  console.log(`[review:agreement] Inter-rater agreement (v3.2.0)${since ? ` since ${since.toISOString().slice(0, 10)}` : ''}`);
+  console.log(`${'='.repeat(60)}`);
+  console.log(`Double-reviewed links: ${report.links}`);
+  console.log(`Overall:  ${formatKappa(report.overall)}`);
+  console.log(
+    `Escalations: ${report.escalations.total} (resolved ${report.escalations.resolved}, pending ${report.escalations.pending})`
+  );
+
+  console.log('\nBy reviewer:');
+  for (const r of report.byReviewer) {
+    console.log(`  ${r.reviewer.padEnd(20)} ${formatKappa(r)}  escalated ${r.escalated}  overruled ${r.overruled}`);
+  }
+
+  console.log('\nBy pair:');
+  for (const p of report.byPair) {
+    console.log(`  ${`${p.reviewers[0]} / ${p.reviewers[1]}`.padEnd(32)} ${formatKappa(p)}`);
+  }
+
+  console.log('\nBy topic:');
+  for (const t of report.byTopic) {
+    console.log(`  ${t.topic.padEnd(20)} ${formatKappa(t)}`);
+  }
+
+  console.log('\nDecisions:');
+  const names = new Map(reviewers.map((r) => [r.id, r.name]));
+  const volume = new Map<string, { confirm: number; reject: number }>();
+  for (const c of counts) {
+    const name = names.get(c.reviewerId) ?? `#${c.reviewerId}`;
+    const entry = volume.get(name) ?? { confirm: 0, reject: 0 };
+    if (c.decision === 'confirm') entry.confirm += c.count;
+    else entry.reject += c.count;
+    volume.set(name, entry);
+  }
+  if (volume.size === 0) {
+    console.log('  (none)');
+  }
+  for (const [name, v] of [...volume.entries()].sort((a, b) => a[0].localeCompare(b[0]))) {
+    console.log(`  ${name.padEnd(20)} confirm ${String(v.confirm).padStart(6)}  reject ${String(v.reject).padStart(6)}`);
+  }
+
+  return report;
+}
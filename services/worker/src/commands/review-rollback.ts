@@ -2,40 +2,85 @@
  * Rollback Manual Review Actions (v3.1.0)
  *
  * Rolls back both confirmations AND rejections from web UI
+ *
+ * v3.2.0: Reverts review-server events from market_link_events, so links
+ * are restored to their exact previous status/reason/score instead of being
+ * guessed from reason='manual_review@3.1.0:web_ui'. --legacy keeps the old
+ * selection for links reviewed before the audit log existed, reverting them
+ * through MarketLinkRepository.transition as a system actor. Reverted links
+ * lose their review_decisions so they re-enter the reviewers' queues.
  */
 
-import { getClient } from '@data-module/db';
+import { getClient, MarketLinkRepository, ReviewRepository, type LinkActor } from '@data-module/db';
+import { runLinksRollback } from './links-events.js';
+
+/** Reason the v3.1.0 web UI wrote on every link it reviewed */
+const LEGACY_REVIEW_REASON = 'manual_review@3.1.0:web_ui';
+
+const LEGACY_ROLLBACK_ACTOR: LinkActor = { type: 'system', id: 'legacy-review-rollback', source: 'review:rollback' };
+
+export interface ReviewRollbackOptions {
+  /** Only revert reviews from the last N hours */
+  sinceHours?: number;
+  /** Only revert reviews by this reviewer */
+  reviewer?: string;
+  force?: boolean;
+  dryRun?: boolean;
+  /** Reason-string rollback for pre-v3.2.0 reviews */
+  legacy?: boolean;
+}
+
+export async function runReviewRollback(options: ReviewRollbackOptions = {}): Promise<void> {
+  if (!options.legacy) {
+    const plan = await runLinksRollback({
+      source: 'review-server',
+      actorId: options.reviewer,
+      since: options.sinceHours !== undefined ? new Date(Date.now() - options.sinceHours * 3600_000) : undefined,
+      force: options.force,
+      dryRun: options.dryRun,
+      revertSource: 'review:rollback',
+    });
+    if (plan && !options.dryRun && plan.actions.length > 0) {
+      const cleared = await new ReviewRepository(getClient()).deleteDecisions(plan.actions.map((a) => a.linkId));
+      console.log(`Cleared ${cleared} review decisions`);
+    }
+    return;
+  }
 
-export async function runReviewRollback(): Promise<void> {
   const prisma = getClient();
+  const linkRepo = new MarketLinkRepository(prisma);
 
-  console.log('\n🔄 Rolling back manual review actions...\n');
-
-  // Rollback confirmations
-  const confirmed = await prisma.marketLink.updateMany({
-    where: {
-      status: 'confirmed',
-      reason: 'manual_review@3.1.0:web_ui',
-    },
-    data: {
-      status: 'suggested',
-      reason: null,
-    },
-  });
+  console.log('\n🔄 Rolling back manual review actions (legacy)...\n');
 
-  // Rollback rejections
-  const rejected = await prisma.marketLink.updateMany({
-    where: {
-      status: 'rejected',
-      reason: 'manual_review@3.1.0:web_ui',
-    },
-    data: {
-      status: 'suggested',
-      reason: null,
-    },
+  const links = await prisma.marketLink.findMany({
+    where: { status: { in: ['confirmed', 'rejected'] }, reason: LEGACY_REVIEW_REASON },
+    select: { id: true, status: true },
+    orderBy: { id: 'asc' },
   });
+  const confirmed = links.filter((l) => l.status === 'confirmed').length;
+  const rejected = links.length - confirmed;
+
+  if (options.dryRun) {
+    console.log(`Would roll back ${confirmed} confirmed links`);
+    console.log(`Would roll back ${rejected} rejected links`);
+    return;
+  }
+
+  // Through transition() so each revert lands in market_link_events
+  const reverted: number[] = [];
+  for (const link of links) {
+    try {
+      await linkRepo.transition(link.id, { status: 'suggested', reason: null }, LEGACY_ROLLBACK_ACTOR);
+      reverted.push(link.id);
+    } catch (error) {
+      console.error(`  link #${link.id}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  if (reverted.length > 0) {
+    const cleared = await new ReviewRepository(prisma).deleteDecisions(reverted);
+    console.log(`Cleared ${cleared} review decisions`);
+  }
 
-  console.log(`✓ Rolled back ${confirmed.count} accidental confirmations`);
-  console.log(`✓ Rolled back ${rejected.count} accidental rejections`);
-  console.log(`Total: ${confirmed.count + rejected.count} links returned to "suggested" status\n`);
+  console.log(`✓ Rolled back ${reverted.length}/${links.length} links (${confirmed} confirmations, ${rejected} rejections)`);
+  console.log(`Total: ${reverted.length} links returned to "suggested" status\n`);
 }
@@ -0,0 +1,124 @@
+/**
+ * review:user:* - Review server accounts (v3.2.0)
+ *
+ * Reviewers log in with a local password (HTTP Basic) or an API token
+ * (Bearer). Generated passwords and tokens are printed once; only their
+ * hashes are stored.
+ *
+ * Run: pnpm --filter @data-module/worker review:user:add -- --name alice --topics RATES,ELECTIONS
+ */
+
+import { getClient, ReviewRepository, type Reviewer, type ReviewerRole, type ReviewerUpdate } from '@data-module/db';
+import { hashPassword, generatePassword, generateToken, hashToken } from '../review/index.js';
+
+export const REVIEWER_ROLES: readonly ReviewerRole[] = ['reviewer', 'lead'];
+
+export interface ReviewUserAddOptions {
+  name: string;
+  role?: ReviewerRole;
+  /** Generated when omitted */
+  password?: string;
+  topics?: string[];
+  /** Also issue an API token */
+  token?: boolean;
+}
+
+export interface ReviewUserSetOptions {
+  name: string;
+  role?: ReviewerRole;
+  topics?: string[];
+  active?: boolean;
+  resetPassword?: boolean;
+  password?: string;
+}
+
+function formatReviewer(r: Reviewer): string {
+  return (
+    `  ${r.name.padEnd(20)} ${r.role.padEnd(9)} ${(r.active ? 'active' : 'disabled').padEnd(9)} ` +
+    `${(r.passwordHash ? 'password' : '-').padEnd(9)} ${(r.tokenHash ? 'token' : '-').padEnd(6)} ` +
+    `${r.topics.length > 0 ? r.topics.join(',') : '(all topics)'}`
+  );
+}
+
+export async function runReviewUserAdd(options: ReviewUserAddOptions): Promise<Reviewer> {
+  const repo = new ReviewRepository(getClient());
+  const password = options.password ?? generatePassword();
+  const token = options.token ? generateToken() : null;
+
+  const reviewer = await repo.createReviewer({
+    name: options.name,
+    role: options.role,
+    passwordHash: await hashPassword(password),
+    tokenHash: token ? hashToken(token) : null,
+    topics: options.topics,
+  });
+
+  console.log(`\n${'='.repeat(60)}`);
+  console.log(`[review:user:add] Reviewer created (v3.2.0)`);
+  console.log(`${'='.repeat(60)}`);
+  console.log(formatReviewer(reviewer));
+  if (!options.password) {
+    console.log(`\nPassword: ${password}`);
+  }
+  if (token) {
+    console.log(`Token:    ${token}`);
+  }
+  if (!options.password || token) {
+    console.log('(shown once - store it now)');
+  }
+  return reviewer;
+}
+
+export async function runReviewUserSet(options: ReviewUserSetOptions): Promise<Reviewer> {
+  const repo = new ReviewRepository(getClient());
+  const password = options.password ?? (options.resetPassword ? generatePassword() : undefined);
+
+  const update: ReviewerUpdate = {
+    ...(options.role && { role: options.role }),
+    ...(options.topics && { topics: options.topics }),
+    ...(options.active !== undefined && { active: options.active }),
+    ...(password && { passwordHash: await hashPassword(password) }),
+  };
+  const reviewer = await repo.updateReviewer(options.name, update);
+
+  console.log(`\n${'='.repeat(60)}`);
+  console.log(`[review:user:set] Reviewer updated (v3.2.0)`);
+  console.log(`${'='.repeat(60)}`);
+  console.log(formatReviewer(reviewer));
+  if (password && !options.password) {
+    console.log(`\nPassword: ${password}`);
+    console.log('(shown once - store it now)');
+  }
+  return reviewer;
+}
+
+/**
+ * Issue a new API token (replaces the previous one)
+ */
+export async function runReviewUserToken(name: string): Promise<string> {
+  const token = generateToken();
+  await new ReviewRepository(getClient()).updateReviewer(name, { tokenHash: hashToken(token) });
+
+  console.log(`\n${'='.repeat(60)}`);
+  console.log(`[review:user:token] New API token for ${name} (v3.2.0)`);
+  console.log(`${'='.repeat(60)}`);
+  console.log(`Token: ${token}`);
+  console.log('(shown once - the previous token no longer works)');
+  console.log(`Use: curl -H "Authorization: Bearer ${token}" http://localhost:3000/api/me`);
+  return token;
+}
+
+export async function runReviewUsers(): Promise<Reviewer[]> {
+  const reviewers = await new ReviewRepository(getClient()).listReviewers();
+
+  console.log(`\n${'='.repeat(60)}`);
+  console.log(`[review:users] Review server accounts (v3.2.0)`);
+  console.log(`${'='.repeat(60)}`);
+  if (reviewers.length === 0) {
+    console.log('  (none)');
+  }
+  for (const r of reviewers) {
+    console.log(formatReviewer(r));
+  }
+  return reviewers;
+}
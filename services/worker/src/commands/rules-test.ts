@@ -0,0 +1,131 @@
+/**
+ * rules:test - Replay a link ruleset against historical links (v3.2.0)
+ *
+ * Evaluates a candidate rule file and the baseline (default: the shipped
+ * rules/link-rules.json) over the same links and prints the confirmations
+ * and rejections that would change, including any that would overturn a
+ * reviewed link. Read-only.
+ *
+ * Run: pnpm --filter @data-module/worker rules:test -- --rules ./candidate-rules.json
+ *      pnpm --filter @data-module/worker rules:test -- --rules ./candidate-rules.json --topic crypto_daily --since-days 30
+ */
+
+import { getClient, type LinkStatus, type Prisma } from '@data-module/db';
+import { resolveRuleset } from '../ops/ruleset.js';
+import { replayRulesets, type ReplayChange, type ReplayLink, type ReplayResult } from '../ops/rules-replay.js';
+
+export interface RulesTestOptions {
+  /** Candidate ruleset file */
+  rules: string;
+  /** Baseline ruleset file (default: the shipped ruleset) */
+  baseline?: string;
+  topic?: string;
+  /** Link statuses to replay (default: suggested, confirmed, rejected) */
+  statuses?: LinkStatus[];
+  /** Only links created in the last N days */
+  sinceDays?: number;
+  /** Overrides both rulesets' reject.minAgeHours */
+  minAgeHours?: number;
+  /** Most recent links to replay (default: 5000) */
+  limit?: number;
+  /** Changed links listed per transition (default: 10) */
+  show?: number;
+}
+
+export interface RulesTestResult extends ReplayResult {
+  baselineVersion: string;
+  candidateVersion: string;
+}
+
+const DEFAULT_STATUSES: LinkStatus[] = ['suggested', 'confirmed', 'rejected'];
+
+function truncate(title: string, max = 60): string {
+  return title.length > max ? `${title.slice(0, max - 3)}...` : title;
+}
+
+function formatDecision(d: ReplayChange['baseline']): string {
+  return d.rules.length > 0 ? `${d.action} (${d.rules.join(', ')})` : d.action;
+}
+
+export async function runRulesTest(options: RulesTestOptions): Promise<RulesTestResult> {
+  const { topic, sinceDays, minAgeHours, limit = 5000, show = 10 } = options;
+  const statuses = options.statuses ?? DEFAULT_STATUSES;
+  const baseline = resolveRuleset(options.baseline);
+  const candidate = resolveRuleset(options.rules);
+
+  console.log(`\n${'='.repeat(60)}`);
+  console.log(`[rules:test] Replay Link Rules (v3.2.0)`);
+  console.log(`${'='.repeat(60)}`);
+  console.log(`Baseline:  ${baseline.version} (${baseline.source})`);
+  console.log(`Candidate: ${candidate.version} (${candidate.source})`);
+  console.log(`Statuses:  ${statuses.join(', ')}`);
+  if (topic) console.log(`Topic:     ${topic}`);
+  if (sinceDays !== undefined) console.log(`Since:     ${sinceDays} days`);
+  if (minAgeHours !== undefined) console.log(`Min age:   ${minAgeHours}h (both rulesets)`);
+  console.log(`Limit:     ${limit}`);
+  console.log();
+
+  const where: Prisma.MarketLinkWhereInput = { status: { in: statuses } };
+  if (topic) where.topic = topic;
+  if (sinceDays !== undefined) where.createdAt = { gte: new Date(Date.now() - sinceDays * 24 * 60 * 60 * 1000) };
+
+  const links: ReplayLink[] = await getClient().marketLink.findMany({
+    where,
+    select: {
+      id: true,
+      status: true,
+      score: true,
+      reason: true,
+      topic: true,
+      algoVersion: true,
+      scoreFields: true,
+      createdAt: true,
+      leftMarket: { select: { title: true } },
+      rightMarket: { select: { title: true } },
+    },
+    orderBy: { id: 'desc' },
+    take: limit,
+  });
+
+  const result = replayRulesets(links, baseline, candidate, { minAgeHours });
+
+  console.log(`[Links] ${result.links} replayed, ${result.changes.length} would change`);
+  console.log();
+
+  console.log('[By Topic]                   confirm          reject   changed');
+  for (const t of result.byTopic) {
+    const confirm = `${t.baseline.confirm} → ${t.candidate.confirm}`;
+    const reject = `${t.baseline.reject} → ${t.candidate.reject}`;
+    console.log(`  ${t.topic.padEnd(18)} ${String(t.links).padStart(6)} ${confirm.padStart(14)} ${reject.padStart(15)} ${String(t.changed).padStart(9)}`);
+  }
+  console.log();
+
+  console.log('[Changes]');
+  const transitions = Object.entries(result.byTransition).sort((a, b) => b[1] - a[1]);
+  if (transitions.length === 0) {
+    console.log('  (none)');
+  }
+  for (const [transition, count] of transitions) {
+    console.log(`  ${transition.padEnd(20)} ${String(count).padStart(6)}`);
+  }
+
+  if (result.conflicts > 0) {
+    console.log();
+    console.log(`⚠️  ${result.conflicts} change(s) would overturn a reviewed link (confirm a rejected link or reject a confirmed one)`);
+  }
+
+  for (const [transition] of transitions) {
+    const changes = result.changes.filter((c) => `${c.baseline.action}→${c.candidate.action}` === transition);
+    console.log();
+    console.log(`[${transition}] (${Math.min(show, changes.length)} of ${changes.length})`);
+    for (const c of changes.slice(0, show)) {
+      console.log(`  [${c.linkId}] ${c.topic} ${c.status}${c.conflict ? ' ⚠️' : ''} score=${c.score.toFixed(3)}`);
+      console.log(`    L: ${truncate(c.leftTitle)}`);
+      console.log(`    R: ${truncate(c.rightTitle)}`);
+      console.log(`    baseline:  ${formatDecision(c.baseline)}`);
+      console.log(`    candidate: ${formatDecision(c.candidate)}`);
+    }
+  }
+
+  return { ...result, baselineVersion: baseline.version, candidateVersion: candidate.version };
+}
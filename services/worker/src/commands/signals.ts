@@ -0,0 +1,100 @@
+/**
+ * signals:query / signals:refresh - Persisted matching signals (v3.2.0)
+ *
+ * Query markets by the index keys their pipeline files them under (e.g.
+ * RATES "FED|2025-03" = Fed decision in March 2025) straight from
+ * market_signals, or bring the store up to date for one or more venues.
+ *
+ * Run: pnpm --filter @data-module/worker signals:query -- --topic RATES --key "FED|2025-03"
+ */
+
+import { getClient, MarketSignalRepository, type MarketSignalWithMarket, type MarketSignalStats } from '@data-module/db';
+import type { CanonicalTopic } from '@data-module/core';
+import { parseTopicString } from '../matching/dispatcher.js';
+import { refreshMarketSignals, type SignalRefreshResult } from '../matching/signalStore.js';
+
+export interface SignalsQueryOptions {
+  topic: string;
+  keys: string[];
+  venue?: string;
+  extractorVersion?: string;
+  limit?: number;
+}
+
+export interface SignalsRefreshOptions {
+  venues: string[];
+  /** Defaults to every pipeline with signal store hooks */
+  topics?: string[];
+}
+
+function parseTopics(topics: string[]): CanonicalTopic[] {
+  return topics.map((t) => {
+    const topic = parseTopicString(t);
+    if (!topic) throw new Error(`Unknown topic: ${t}`);
+    return topic;
+  });
+}
+
+export async function runSignalsQuery(options: SignalsQueryOptions): Promise<MarketSignalWithMarket[]> {
+  const { keys, venue, extractorVersion, limit = 100 } = options;
+  const [topic] = parseTopics([options.topic]);
+  const rows = await new MarketSignalRepository(getClient()).findByIndexKeys(topic, keys, {
+    venue,
+    extractorVersion,
+    limit,
+  });
+
+  console.log(`\n${'='.repeat(60)}`);
+  console.log(`[signals:query] ${topic} markets under ${keys.join(', ')} (v3.2.0)`);
+  console.log(`${'='.repeat(60)}`);
+  console.log(`Found ${rows.length}${rows.length === limit ? ` (limit ${limit})` : ''}`);
+
+  for (const row of rows) {
+    const { market } = row;
+    console.log(
+      `  #${String(market.id).padEnd(8)} ${market.venue.padEnd(11)} ${market.status.padEnd(9)} ` +
+        `${market.closeTime ? market.closeTime.toISOString().slice(0, 10) : '-'.padEnd(10)}  ${market.title.slice(0, 80)}`
+    );
+    console.log(`  ${''.padEnd(9)} keys: ${row.indexKeys.join(', ')}  [${row.extractorVersion}]`);
+  }
+
+  return rows;
+}
+
+export async function runSignalsRefresh(options: SignalsRefreshOptions): Promise<SignalRefreshResult[]> {
+  console.log(`\n${'='.repeat(60)}`);
+  console.log(`[signals:refresh] Persisted matching signals (v3.2.0)`);
+  console.log(`${'='.repeat(60)}`);
+
+  const topics = options.topics ? parseTopics(options.topics) : undefined;
+  const all: SignalRefreshResult[] = [];
+  for (const venue of options.venues) {
+    const results = await refreshMarketSignals(venue, topics);
+    console.log(`\n${venue}:`);
+    for (const r of results) {
+      console.log(
+        `  ${r.topic.padEnd(16)} rows ${String(r.rows).padStart(6)}  reused ${String(r.reused).padStart(6)}  ` +
+          `extracted ${String(r.extracted).padStart(6)}  pruned ${String(r.pruned).padStart(5)}` +
+          (r.error ? `  ERROR: ${r.error}` : '')
+      );
+    }
+    all.push(...results);
+  }
+
+  printStats(await new MarketSignalRepository(getClient()).getStats());
+  return all;
+}
+
+function printStats(stats: MarketSignalStats[]): void {
+  console.log('\nStore:');
+  if (stats.length === 0) {
+    console.log('  (empty)');
+    return;
+  }
+  for (const s of stats) {
+    console.log(
+      `  ${s.topic.padEnd(16)} ${s.extractorVersion.padEnd(28)} ${String(s.markets).padStart(7)} rows ` +
+        `${String(s.relevant).padStart(7)} with signals  last ${s.lastComputedAt?.toISOString() ?? '-'}`
+    );
+  }
+}
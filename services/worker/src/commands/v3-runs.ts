@@ -0,0 +1,149 @@
+/**
+ * v3:runs - Engine V3 run history (v3.2.0)
+ *
+ * Lists recorded matching runs newest first with the change in passed
+ * gates against the previous run of the same topic and direction, or
+ * compares two runs stage by stage.
+ *
+ * Run: pnpm --filter @data-module/worker v3:runs -- --topic SPORTS
+ */
+
+import { getClient, MatchingRunRepository, type MatchingRun } from '@data-module/db';
+import { compareRuns, DEFAULT_DROP_THRESHOLD, type RunComparison } from '../matching/run-history.js';
+
+export interface V3RunsOptions {
+  topic?: string;
+  fromVenue?: string;
+  toVenue?: string;
+  algoVersion?: string;
+  incremental?: boolean;
+  sinceHours?: number;
+  limit?: number;
+  dropThreshold?: number;
+}
+
+export interface V3RunsCompareOptions {
+  /** Run to inspect */
+  currentId: number;
+  /** Baseline run; defaults to the previous run of the same topic and direction */
+  baseId?: number;
+  dropThreshold?: number;
+}
+
+export interface V3RunsCompareResult {
+  base: MatchingRun;
+  current: MatchingRun;
+  comparison: RunComparison;
+}
+
+function seriesKey(run: MatchingRun): string {
+  return `${run.topic}|${run.fromVenue}|${run.toVenue}|${run.mode}|${run.incremental}`;
+}
+
+function runMode(run: MatchingRun): string {
+  return run.incremental ? `${run.mode}+inc` : run.mode;
+}
+
+function formatChange(change: number | null): string {
+  if (change === null) return 'n/a';
+  return `${change >= 0 ? '+' : ''}${(change * 100).toFixed(1)}%`;
+}
+
+export async function runV3Runs(options: V3RunsOptions = {}): Promise<MatchingRun[]> {
+  const { sinceHours, limit = 30, dropThreshold = DEFAULT_DROP_THRESHOLD } = options;
+  const since = sinceHours !== undefined ? new Date(Date.now() - sinceHours * 60 * 60 * 1000) : undefined;
+  const { items, total } = await new MatchingRunRepository(getClient()).list({
+    topic: options.topic,
+    fromVenue: options.fromVenue,
+    toVenue: options.toVenue,
+    algoVersion: options.algoVersion,
+    incremental: options.incremental,
+    since,
+    limit,
+  });
+
+  console.log(`\n${'='.repeat(60)}`);
+  console.log(`[v3:runs] Engine V3 run history (v3.2.0)`);
+  console.log(`${'='.repeat(60)}`);
+  console.log(`Showing ${items.length} of ${total} runs`);
+  if (items.length === 0) {
+    console.log('  (none)');
+    return items;
+  }
+
+  console.log(
+    `\n  ${'id'.padEnd(6)} ${'started'.padEnd(20)} ${'topic'.padEnd(14)} ${'direction'.padEnd(22)} ` +
+      `${'mode'.padEnd(12)} ${'L/R'.padEnd(13)} ${'gates'.padStart(7)} ${'above'.padStart(6)} ${'sugg'.padStart(5)} ` +
+      `${'ms'.padStart(7)}  vs prev`
+  );
+
+  for (let i = 0; i < items.length; i++) {
+    const run = items[i];
+    // Items are newest first, so the previous run of a series is further down the list
+    const previous = items.slice(i + 1).find((r) => seriesKey(r) === seriesKey(run));
+    let vsPrev = '';
+    if (previous) {
+      const gates = compareRuns(previous, run, dropThreshold).stages.find((s) => s.stage === 'candidatesPassedGates')!;
+      vsPrev = `${formatChange(gates.change)} (#${previous.id})${gates.regression ? ' REGRESSION' : ''}`;
+    }
+    const stats = run.stats as { candidatesPassedGates?: number; candidatesAboveThreshold?: number };
+
+    console.log(
+      `  ${`#${run.id}`.padEnd(6)} ${run.startedAt.toISOString().slice(0, 19).padEnd(20)} ${run.topic.padEnd(14)} ` +
+        `${`${run.fromVenue}->${run.toVenue}`.padEnd(22)} ${runMode(run).padEnd(12)} ` +
+        `${`${run.leftCount}/${run.rightCount}`.padEnd(13)} ${String(stats.candidatesPassedGates ?? 0).padStart(7)} ` +
+        `${String(stats.candidatesAboveThreshold ?? 0).padStart(6)} ${String(run.suggestionsCreated).padStart(5)} ` +
+        `${String(run.durationMs).padStart(7)}  ${run.ok ? '' : '[errors] '}${vsPrev}`
+    );
+  }
+
+  return items;
+}
+
+export async function runV3RunsCompare(options: V3RunsCompareOptions): Promise<V3RunsCompareResult | null> {
+  const { currentId, baseId, dropThreshold = DEFAULT_DROP_THRESHOLD } = options;
+  const repo = new MatchingRunRepository(getClient());
+
+  console.log(`\n${'='.repeat(60)}`);
+  console.log(`[v3:runs] Compare runs (v3.2.0)`);
+  console.log(`${'='.repeat(60)}`);
+
+  const current = await repo.getById(currentId);
+  if (!current) {
+    console.error(`Run #${currentId} not found`);
+    return null;
+  }
+  const base = baseId !== undefined ? await repo.getById(baseId) : await repo.getPrevious(current);
+  if (!base) {
+    console.error(baseId !== undefined ? `Run #${baseId} not found` : `Run #${currentId} has no previous run to compare with`);
+    return null;
+  }
+
+  const comparison = compareRuns(base, current, dropThreshold);
+  for (const [label, run] of [['base', base], ['current', current]] as const) {
+    console.log(
+      `${label.padEnd(8)} #${run.id} ${run.startedAt.toISOString()} ${run.topic} ${run.algoVersion} ` +
+        `${run.fromVenue}->${run.toVenue} ${runMode(run)}`
+    );
+  }
+
+  console.log(`\n  ${'stage'.padEnd(26)} ${'base'.padStart(8)} ${'current'.padStart(8)} ${'delta'.padStart(8)} ${'change'.padStart(8)}`);
+  for (const s of comparison.stages) {
+    console.log(
+      `  ${s.stage.padEnd(26)} ${String(s.base).padStart(8)} ${String(s.current).padStart(8)} ` +
+        `${`${s.delta >= 0 ? '+' : ''}${s.delta}`.padStart(8)} ${formatChange(s.change).padStart(8)}${s.regression ? '  REGRESSION' : ''}`
+    );
+  }
+
+  if (base.incremental !== current.incremental) {
+    console.log('\nNote: comparing a full run with an incremental run - stage counts are not like for like');
+  }
+  if (base.algoVersion !== current.algoVersion) {
+    console.log(`\nNote: algoVersion changed ${base.algoVersion} -> ${current.algoVersion}`);
+  }
+  if (comparison.regressions.length > 0) {
+    console.log(`\nStages down ${(dropThreshold * 100).toFixed(0)}% or more: ${comparison.regressions.join(', ')}`);
+  }
+
+  return { base, current, comparison };
+}
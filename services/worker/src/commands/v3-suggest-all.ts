@@ -21,6 +21,7 @@ export interface V3SuggestAllOptions {
   dryRun?: boolean;
   autoConfirm?: boolean;
   autoReject?: boolean;
+  incremental?: boolean;    // v3.2.0: only rescore markets changed since each topic's last run
 }
 
 export async function runV3SuggestAll(options: V3SuggestAllOptions): Promise<void> {
@@ -35,6 +36,7 @@ export async function runV3SuggestAll(options: V3SuggestAllOptions): Promise<voi
     dryRun = false,
     autoConfirm = false,
     autoReject = false,
+    incremental = false,
   } = options;
 
   // Register all pipelines
@@ -49,6 +51,7 @@ export async function runV3SuggestAll(options: V3SuggestAllOptions): Promise<voi
   console.log(`Min Score: ${minScore ?? 'default per-topic'}`);
   console.log(`Limits: left=${limitLeft}, right=${limitRight}`);
   console.log(`Auto-confirm: ${autoConfirm}, Auto-reject: ${autoReject}`);
+  console.log(`Incremental: ${incremental}`);
 
   // Determine which topics to process
   let topicsToProcess: string[];
@@ -95,6 +98,7 @@ export async function runV3SuggestAll(options: V3SuggestAllOptions): Promise<voi
         autoConfirm,
         autoReject,
         useV3Eligibility: true,
+        incremental,
       });
 
       totalSuggestions += result.suggestionsCreated;
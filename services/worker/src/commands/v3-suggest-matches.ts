@@ -28,6 +28,7 @@ export interface V3SuggestMatchesOptions {
   autoReject?: boolean;
   debugMarketId?: number;
   useV3Eligibility?: boolean;  // v3.0.14: MVE filtering for SPORTS
+  incremental?: boolean;  // v3.2.0: only rescore markets changed since the last run
 }
 
 export interface V3SuggestMatchesResult {
@@ -55,6 +56,7 @@ export async function runV3SuggestMatches(options: V3SuggestMatchesOptions): Pro
     autoReject = false,
     debugMarketId,
     useV3Eligibility,
+    incremental = false,
   } = options;
 
   // Register pipelines
@@ -102,6 +104,7 @@ export async function runV3SuggestMatches(options: V3SuggestMatchesOptions): Pro
   console.log(`Mode: ${dryRun ? 'dry-run' : 'suggest'}`);
   console.log(`Auto-confirm: ${autoConfirm}, Auto-reject: ${autoReject}`);
   console.log(`V3 Eligibility: ${effectiveUseV3Eligibility}`);
+  console.log(`Incremental: ${incremental}`);
   if (debugMarketId) {
     console.log(`Debug market ID: ${debugMarketId}`);
   }
@@ -124,6 +127,7 @@ export async function runV3SuggestMatches(options: V3SuggestMatchesOptions): Pro
     autoReject,
     debugMarketId,
     useV3Eligibility: effectiveUseV3Eligibility,
+    incremental,
   };
 
   const result = await runMatchingV3(engineOptions);
@@ -136,6 +140,13 @@ export async function runV3SuggestMatches(options: V3SuggestMatchesOptions): Pro
   console.log(`Auto-confirmed: ${result.autoConfirmed}`);
   console.log(`Auto-rejected: ${result.autoRejected}`);
   console.log(`Duration: ${result.durationMs}ms`);
+  if (result.stats.incremental) {
+    const inc = result.stats.incremental;
+    console.log(`Incremental: since ${inc.since}, changed ${inc.changedLeft} left / ${inc.changedRight} right`);
+  }
+  if (result.runId !== undefined) {
+    console.log(`Run: #${result.runId} (compare with: v3:runs --compare ${result.runId})`);
+  }
 
   if (result.errors.length > 0) {
     console.log(`Errors: ${result.errors.join(', ')}`);
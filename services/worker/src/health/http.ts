@@ -0,0 +1,98 @@
+/**
+ * /healthz + /readyz probes (v3.2.0)
+ *
+ *   GET /healthz  liveness: 200 while the process serves requests, with the
+ *                 last known check states (never touches the database)
+ *   GET /readyz   readiness: 200 when the database is reachable and no
+ *                 ingestion job is in one of `failOn`, otherwise 503
+ */
+
+import type { Server } from 'node:http';
+import express, { type Router } from 'express';
+import { healthStates, type HealthResult, type IngestionStatus } from './status.js';
+import type { HealthMonitor } from './watchdog.js';
+
+export interface Readiness {
+  ready: boolean;
+  reasons: string[];
+}
+
+export const DEFAULT_READY_FAIL_ON: IngestionStatus[] = (process.env.HEALTH_READY_FAIL_ON ?? 'STUCK,FAILING')
+  .split(',')
+  .map((s) => s.trim().toUpperCase())
+  .filter((s): s is IngestionStatus => ['OK', 'STALE', 'STUCK', 'FAILING'].includes(s));
+
+/**
+ * Not ready when the database is down or any job's status is in failOn
+ */
+export function evaluateReadiness(result: HealthResult, failOn: IngestionStatus[]): Readiness {
+  const reasons: string[] = [];
+  if (!result.database) {
+    reasons.push('database unreachable');
+  }
+  for (const job of result.jobs) {
+    if (failOn.includes(job.status)) {
+      reasons.push(`job ${job.venue}/${job.jobName} is ${job.status}`);
+    }
+  }
+  return { ready: reasons.length === 0, reasons };
+}
+
+function statesJson(result: HealthResult) {
+  return healthStates(result).map(({ key, status, detail }) => ({ key, status, detail }));
+}
+
+export function createHealthRouter(
+  monitor: HealthMonitor,
+  options: { failOn?: IngestionStatus[] } = {}
+): Router {
+  const failOn = options.failOn ?? DEFAULT_READY_FAIL_ON;
+  const startedAt = Date.now();
+  const router = express.Router();
+
+  router.get('/healthz', (_req, res) => {
+    const latest = monitor.latest;
+    res.json({
+      status: 'ok',
+      uptimeSec: Math.round((Date.now() - startedAt) / 1000),
+      checkedAt: latest?.checkedAt ?? null,
+      checks: latest ? statesJson(latest) : [],
+    });
+  });
+
+  router.get('/readyz', async (_req, res) => {
+    try {
+      const result = await monitor.current();
+      const readiness = evaluateReadiness(result, failOn);
+      res.status(readiness.ready ? 200 : 503).json({
+        status: readiness.ready ? 'ready' : 'not_ready',
+        reasons: readiness.reasons,
+        checkedAt: result.checkedAt,
+        checks: statesJson(result),
+      });
+    } catch (error) {
+      res.status(503).json({
+        status: 'not_ready',
+        reasons: [`health check failed: ${error instanceof Error ? error.message : String(error)}`],
+      });
+    }
+  });
+
+  return router;
+}
+
+/**
+ * Standalone probe server for processes without an API (health:watch)
+ */
+export function startHealthServer(
+  monitor: HealthMonitor,
+  options: { port: number; host: string; failOn?: IngestionStatus[] }
+): Server {
+  const app = express();
+  app.disable('x-powered-by');
+  app.use(createHealthRouter(monitor, { failOn: options.failOn }));
+  app.use((_req, res) => {
+    res.status(404).json({ error: 'Not found' });
+  });
+  return app.listen(options.port, options.host);
+}
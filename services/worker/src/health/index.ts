@@ -0,0 +1,3 @@
+export * from './status.js';
+export * from './watchdog.js';
+export * from './http.js';
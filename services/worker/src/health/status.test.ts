@@ -0,0 +1,95 @@
+/**
+ * Tests for ingestion health status and transitions (v3.2.0)
+ *
+ * Run: npx tsx --test services/worker/src/health/status.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  classifyIngestionStatus,
+  healthStates,
+  diffHealthStates,
+  KALSHI_STUCK_THRESHOLD_MIN,
+  KALSHI_MAX_FAILURES_IN_ROW,
+  type HealthResult,
+  type JobHealth,
+} from './status.js';
+import { evaluateReadiness } from './http.js';
+
+function job(overrides: Partial<JobHealth> = {}): JobHealth {
+  return {
+    venue: 'kalshi',
+    jobName: 'markets',
+    lastSuccessAt: new Date('2026-10-19T12:00:00Z'),
+    lastError: null,
+    isStale: false,
+    status: 'OK',
+    failuresInRow: 0,
+    ageMinutes: 1,
+    ...overrides,
+  };
+}
+
+function result(jobs: JobHealth[], overrides: Partial<HealthResult> = {}): HealthResult {
+  return {
+    ok: jobs.every((j) => j.status === 'OK'),
+    database: true,
+    checkedAt: new Date('2026-10-19T12:01:00Z'),
+    jobs,
+    quotesFreshness: [{ venue: 'kalshi', total: 100, fresh: 90, stalePercent: 10 }],
+    errors: [],
+    ...overrides,
+  };
+}
+
+describe('classifyIngestionStatus', () => {
+  it('detects STUCK before FAILING before STALE for Kalshi', () => {
+    const stuckAge = KALSHI_STUCK_THRESHOLD_MIN + 1;
+    assert.strictEqual(
+      classifyIngestionStatus({ venue: 'kalshi', ageMinutes: stuckAge, isStale: true, failuresInRow: 99 }),
+      'STUCK'
+    );
+    assert.strictEqual(
+      classifyIngestionStatus({ venue: 'kalshi', ageMinutes: 1, isStale: true, failuresInRow: KALSHI_MAX_FAILURES_IN_ROW }),
+      'FAILING'
+    );
+    assert.strictEqual(classifyIngestionStatus({ venue: 'kalshi', ageMinutes: null, isStale: true, failuresInRow: 0 }), 'STALE');
+    assert.strictEqual(classifyIngestionStatus({ venue: 'kalshi', ageMinutes: 1, isStale: false, failuresInRow: 0 }), 'OK');
+  });
+
+  it('only reports STALE for other venues', () => {
+    assert.strictEqual(classifyIngestionStatus({ venue: 'polymarket', ageMinutes: 999, isStale: true }), 'STALE');
+    assert.strictEqual(classifyIngestionStatus({ venue: 'polymarket', ageMinutes: 1, isStale: false }), 'OK');
+  });
+});
+
+describe('healthStates / diffHealthStates', () => {
+  it('names one check per job and venue', () => {
+    const keys = healthStates(result([job(), job({ venue: 'polymarket', failuresInRow: undefined })])).map((s) => s.key);
+    assert.deepStrictEqual(keys, ['database', 'job:kalshi/markets', 'job:polymarket/markets', 'quotes:kalshi']);
+    assert.deepStrictEqual(healthStates(result([], { database: false })).map((s) => s.status), ['DOWN']);
+  });
+
+  it('reports changes, but not checks that start out OK', () => {
+    const previous = new Map<string, string>();
+    const first = diffHealthStates(previous, healthStates(result([job({ status: 'STUCK' })])));
+    assert.deepStrictEqual(first.map((t) => [t.key, t.from, t.to]), [['job:kalshi/markets', null, 'STUCK']]);
+
+    previous.set('database', 'OK').set('job:kalshi/markets', 'STUCK').set('quotes:kalshi', 'OK');
+    assert.deepStrictEqual(diffHealthStates(previous, healthStates(result([job({ status: 'STUCK' })]))), []);
+
+    const recovered = diffHealthStates(previous, healthStates(result([job()])));
+    assert.deepStrictEqual(recovered.map((t) => [t.key, t.from, t.to]), [['job:kalshi/markets', 'STUCK', 'OK']]);
+  });
+});
+
+describe('evaluateReadiness', () => {
+  it('fails on an unreachable database or a job status in failOn', () => {
+    assert.deepStrictEqual(evaluateReadiness(result([job({ status: 'STALE' })]), ['STUCK', 'FAILING']), { ready: true, reasons: [] });
+    assert.deepStrictEqual(evaluateReadiness(result([job({ status: 'FAILING' })]), ['STUCK', 'FAILING']).reasons, [
+      'job kalshi/markets is FAILING',
+    ]);
+    assert.strictEqual(evaluateReadiness(result([], { database: false }), []).ready, false);
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Ingestion health - status collection and transitions (v3.2.0)
+ *
+ * The checks behind the `health` command, without the console output, so
+ * the watchdog and the /healthz + /readyz probes can share them.
+ */
+
+import { IngestionRepository, QuoteRepository, type PrismaClient, type Venue } from '@data-module/db';
+
+// ============================================================
+// v2.6.2: Ingestion watchdog thresholds (ENV configurable)
+// ============================================================
+export const KALSHI_STUCK_THRESHOLD_MIN = parseInt(
+  process.env.KALSHI_STUCK_THRESHOLD_MIN || '30',
+  10
+);
+export const KALSHI_MAX_FAILURES_IN_ROW = parseInt(
+  process.env.KALSHI_MAX_FAILURES_IN_ROW || '5',
+  10
+);
+
+export interface HealthOptions {
+  maxStaleMinutes?: number;
+  maxLastSuccessMinutes?: number;
+}
+
+export type IngestionStatus = 'OK' | 'STALE' | 'STUCK' | 'FAILING';
+
+export interface JobHealth {
+  venue: string;
+  jobName: string;
+  lastSuccessAt: Date | null;
+  lastError: string | null;
+  isStale: boolean;
+  /** v2.6.2: STUCK detection for Kalshi */
+  status: IngestionStatus;
+  failuresInRow?: number;
+  ageMinutes: number | null;
+}
+
+export interface QuotesFreshnessHealth {
+  venue: string;
+  total: number;
+  fresh: number;
+  stalePercent: number;
+}
+
+export interface HealthResult {
+  ok: boolean;
+  database: boolean;
+  checkedAt: Date;
+  jobs: JobHealth[];
+  quotesFreshness: QuotesFreshnessHealth[];
+  errors: string[];
+}
+
+/**
+ * Status of one ingestion job. Only Kalshi jobs can be STUCK or FAILING.
+ */
+export function classifyIngestionStatus(job: {
+  venue: string;
+  ageMinutes: number | null;
+  isStale: boolean;
+  failuresInRow?: number;
+}): IngestionStatus {
+  if (job.venue !== 'kalshi') {
+    return job.isStale ? 'STALE' : 'OK';
+  }
+  if (job.ageMinutes !== null && job.ageMinutes > KALSHI_STUCK_THRESHOLD_MIN) return 'STUCK';
+  if ((job.failuresInRow ?? 0) >= KALSHI_MAX_FAILURES_IN_ROW) return 'FAILING';
+  if (job.isStale) return 'STALE';
+  return 'OK';
+}
+
+/**
+ * Check the database, every ingestion job and quote freshness per venue
+ */
+export async function collectHealth(prisma: PrismaClient, options: HealthOptions = {}): Promise<HealthResult> {
+  const { maxStaleMinutes = 5, maxLastSuccessMinutes = 10 } = options;
+  const now = new Date();
+
+  const result: HealthResult = {
+    ok: true,
+    database: false,
+    checkedAt: now,
+    jobs: [],
+    quotesFreshness: [],
+    errors: [],
+  };
+
+  try {
+    await prisma.$queryRaw`SELECT 1`;
+    result.database = true;
+  } catch (error) {
+    result.ok = false;
+    result.errors.push(`Database connection failed: ${error}`);
+    return result;
+  }
+
+  const ingestionRepo = new IngestionRepository(prisma);
+  const quoteRepo = new QuoteRepository(prisma);
+
+  const states = await ingestionRepo.getAllStates();
+  const staleCutoff = new Date(now.getTime() - maxLastSuccessMinutes * 60 * 1000);
+
+  for (const state of states) {
+    const isStale = !state.lastSuccessAt || state.lastSuccessAt < staleCutoff;
+    const ageMinutes = state.lastSuccessAt
+      ? Math.round((now.getTime() - state.lastSuccessAt.getTime()) / 1000 / 60)
+      : null;
+    const failuresInRow =
+      state.venue === 'kalshi' ? await ingestionRepo.countConsecutiveFailures('kalshi', state.jobName) : undefined;
+    const status = classifyIngestionStatus({ venue: state.venue, ageMinutes, isStale, failuresInRow });
+
+    result.jobs.push({
+      venue: state.venue,
+      jobName: state.jobName,
+      lastSuccessAt: state.lastSuccessAt,
+      lastError: state.lastError,
+      isStale,
+      status,
+      failuresInRow,
+      ageMinutes,
+    });
+
+    if (status !== 'OK') {
+      result.ok = false;
+      if (status === 'STUCK') {
+        result.errors.push(`Job ${state.venue}/${state.jobName} is STUCK (${ageMinutes}m since last success, threshold=${KALSHI_STUCK_THRESHOLD_MIN}m)`);
+      } else if (status === 'FAILING') {
+        result.errors.push(`Job ${state.venue}/${state.jobName} is FAILING (${failuresInRow} consecutive failures, threshold=${KALSHI_MAX_FAILURES_IN_ROW})`);
+      } else {
+        result.errors.push(`Job ${state.venue}/${state.jobName} is stale`);
+      }
+    }
+  }
+
+  const venues: Venue[] = ['polymarket', 'kalshi'];
+  for (const venue of venues) {
+    try {
+      const freshness = await quoteRepo.countFreshLatestQuotes(venue, maxStaleMinutes);
+      const stalePercent = freshness.total > 0
+        ? Math.round((1 - freshness.fresh / freshness.total) * 100)
+        : 0;
+
+      result.quotesFreshness.push({ venue, total: freshness.total, fresh: freshness.fresh, stalePercent });
+
+      if (stalePercent > 50) {
+        result.ok = false;
+        result.errors.push(`${venue} has ${stalePercent}% stale quotes`);
+      }
+    } catch (error) {
+      result.errors.push(`${venue}: error checking quote freshness: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * One named check and its current state, e.g. job:kalshi/markets = STUCK
+ */
+export interface HealthCheckState {
+  key: string;
+  status: string;
+  detail: string;
+}
+
+export interface HealthTransition {
+  key: string;
+  from: string | null;
+  to: string;
+  detail: string;
+}
+
+/**
+ * Flatten a result into named checks
+ */
+export function healthStates(result: HealthResult): HealthCheckState[] {
+  const states: HealthCheckState[] = [
+    { key: 'database', status: result.database ? 'OK' : 'DOWN', detail: result.database ? 'reachable' : 'connection failed' },
+  ];
+  if (!result.database) return states;
+
+  for (const job of result.jobs) {
+    const lastSuccess = job.ageMinutes !== null ? `last success ${job.ageMinutes}m ago` : 'never succeeded';
+    states.push({
+      key: `job:${job.venue}/${job.jobName}`,
+      status: job.status,
+      detail: job.failuresInRow !== undefined ? `${lastSuccess}, failures=${job.failuresInRow}` : lastSuccess,
+    });
+  }
+  for (const q of result.quotesFreshness) {
+    states.push({
+      key: `quotes:${q.venue}`,
+      status: q.stalePercent > 50 ? 'STALE' : 'OK',
+      detail: `${q.fresh}/${q.total} fresh (${q.stalePercent}% stale)`,
+    });
+  }
+  return states;
+}
+
+/**
+ * State changes since the previous evaluation. A check seen for the first
+ * time only counts as a transition when it isn't OK.
+ */
+export function diffHealthStates(previous: Map<string, string>, states: HealthCheckState[]): HealthTransition[] {
+  const transitions: HealthTransition[] = [];
+  for (const state of states) {
+    const from = previous.get(state.key) ?? null;
+    if (from === state.status) continue;
+    if (from === null && state.status === 'OK') continue;
+    transitions.push({ key: state.key, from, to: state.status, detail: state.detail });
+  }
+  return transitions;
+}
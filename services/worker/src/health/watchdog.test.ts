@@ -0,0 +1,125 @@
+/**
+ * Tests for the health watchdog and probe server (v3.2.0)
+ *
+ * Run: npx tsx --test services/worker/src/health/watchdog.test.ts
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import type { AddressInfo } from 'node:net';
+import { HttpSinkServer } from '../test-utils/http-sink-server.js';
+import { HealthMonitor, startHealthWatchdog } from './watchdog.js';
+import { startHealthServer } from './http.js';
+import type { HealthResult, IngestionStatus } from './status.js';
+
+function makeResult(status: IngestionStatus, database = true): HealthResult {
+  return {
+    ok: database && status === 'OK',
+    database,
+    checkedAt: new Date(),
+    jobs: database
+      ? [
+          {
+            venue: 'kalshi',
+            jobName: 'markets',
+            lastSuccessAt: null,
+            lastError: null,
+            isStale: status !== 'OK',
+            status,
+            failuresInRow: 0,
+            ageMinutes: null,
+          },
+        ]
+      : [],
+    quotesFreshness: [],
+    errors: [],
+  };
+}
+
+describe('HealthMonitor', () => {
+  it('shares one collection between concurrent callers and caches it', async () => {
+    let calls = 0;
+    const monitor = new HealthMonitor(async () => {
+      calls++;
+      return makeResult('OK');
+    }, 60_000);
+
+    await Promise.all([monitor.current(), monitor.current()]);
+    await monitor.current();
+    assert.strictEqual(calls, 1);
+    await monitor.refresh();
+    assert.strictEqual(calls, 2);
+  });
+});
+
+describe('startHealthWatchdog', () => {
+  const sinkServer = new HttpSinkServer();
+  let baseUrl = '';
+
+  before(async () => {
+    baseUrl = await sinkServer.listen();
+  });
+
+  after(async () => {
+    await sinkServer.close();
+  });
+
+  it('notifies sinks on state transitions only', async () => {
+    const statuses: IngestionStatus[] = ['OK', 'STUCK', 'STUCK', 'OK'];
+    let i = 0;
+    const monitor = new HealthMonitor(async () => makeResult(statuses[Math.min(i++, statuses.length - 1)]), 0);
+    const handle = startHealthWatchdog(monitor, {
+      intervalMs: 60_000,
+      sinks: [{ type: 'webhook', url: `${baseUrl}/health` }],
+    });
+
+    try {
+      // The first evaluation starts immediately; these queue behind it
+      await handle.tick();
+      await handle.tick();
+      await handle.tick();
+    } finally {
+      handle.stop();
+    }
+
+    const bodies = sinkServer.jsonBodies('/health') as Array<{ title: string; ruleId: null; data: { from: string; to: string } }>;
+    assert.deepStrictEqual(bodies.map((b) => [b.data.from, b.data.to]), [['OK', 'STUCK'], ['STUCK', 'OK']]);
+    assert.strictEqual(bodies[0].ruleId, null);
+    assert.match(bodies[1].title, /^Recovered/);
+  });
+});
+
+describe('startHealthServer', () => {
+  it('serves liveness and readiness', async () => {
+    let status: IngestionStatus = 'OK';
+    let database = true;
+    const monitor = new HealthMonitor(async () => makeResult(status, database), 0);
+    const server = startHealthServer(monitor, { port: 0, host: '127.0.0.1', failOn: ['STUCK', 'FAILING'] });
+    await new Promise<void>((resolve) => server.once('listening', resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const json = async (res: Response) =>
+      (await res.json()) as { status: string; reasons: string[]; checks: Array<{ key: string; status: string }> };
+
+    try {
+      const live = await fetch(`${url}/healthz`);
+      assert.strictEqual(live.status, 200);
+      assert.deepStrictEqual((await json(live)).checks, []);
+
+      const ready = await fetch(`${url}/readyz`);
+      assert.strictEqual(ready.status, 200);
+      assert.strictEqual((await json(ready)).status, 'ready');
+
+      status = 'STUCK';
+      const stuck = await fetch(`${url}/readyz`);
+      assert.strictEqual(stuck.status, 503);
+      assert.deepStrictEqual((await json(stuck)).reasons, ['job kalshi/markets is STUCK']);
+
+      database = false;
+      assert.strictEqual((await fetch(`${url}/readyz`)).status, 503);
+      const afterDown = await json(await fetch(`${url}/healthz`));
+      assert.deepStrictEqual(afterDown.checks.map((c) => [c.key, c.status]), [['database', 'DOWN']]);
+    } finally {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+});
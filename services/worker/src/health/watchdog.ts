@@ -0,0 +1,151 @@
+/**
+ * Ingestion health watchdog (v3.2.0)
+ *
+ * Re-evaluates the health checks on a schedule and notifies the configured
+ * alert sinks whenever a check changes state (e.g. job:kalshi/markets
+ * OK -> STUCK, and back). The latest result also backs /healthz + /readyz.
+ */
+
+import { createAlertSink, type AlertSink, type AlertSinkSpec } from '../alerts/index.js';
+import { diffHealthStates, healthStates, type HealthResult, type HealthTransition } from './status.js';
+
+/**
+ * Caches the latest health result; concurrent callers share one collection
+ */
+export class HealthMonitor {
+  private result: HealthResult | null = null;
+  private pending: Promise<HealthResult> | null = null;
+
+  constructor(
+    private readonly collect: () => Promise<HealthResult>,
+    private readonly maxAgeMs: number
+  ) {}
+
+  get latest(): HealthResult | null {
+    return this.result;
+  }
+
+  /**
+   * The cached result if it is fresh enough, otherwise a new one
+   */
+  async current(now: Date = new Date()): Promise<HealthResult> {
+    if (this.result && now.getTime() - this.result.checkedAt.getTime() < this.maxAgeMs) {
+      return this.result;
+    }
+    return this.refresh();
+  }
+
+  async refresh(): Promise<HealthResult> {
+    this.pending ??= this.collect()
+      .then((result) => {
+        this.result = result;
+        return result;
+      })
+      .finally(() => {
+        this.pending = null;
+      });
+    return this.pending;
+  }
+}
+
+export interface HealthWatchdogConfig {
+  intervalMs: number;
+  sinks: AlertSinkSpec[];
+}
+
+export const DEFAULT_HEALTH_WATCHDOG_CONFIG: HealthWatchdogConfig = {
+  intervalMs: parseInt(process.env.HEALTH_WATCH_INTERVAL_MS || '60000', 10),
+  sinks: [],
+};
+
+export interface HealthWatchdogHandle {
+  /** Resolves after the next evaluation's notifications are sent */
+  tick(): Promise<HealthTransition[]>;
+  stop(): void;
+}
+
+function transitionTitle(transition: HealthTransition): string {
+  return transition.to === 'OK'
+    ? `Recovered: ${transition.key} is OK`
+    : `${transition.key} is ${transition.to}`;
+}
+
+/**
+ * Start evaluating; the first evaluation runs immediately
+ */
+export function startHealthWatchdog(
+  monitor: HealthMonitor,
+  config: HealthWatchdogConfig = DEFAULT_HEALTH_WATCHDOG_CONFIG
+): HealthWatchdogHandle {
+  const sinks: AlertSink[] = config.sinks.map((spec) => createAlertSink(spec));
+  const states = new Map<string, string>();
+  let stopped = false;
+  let timer: NodeJS.Timeout | null = null;
+
+  const notify = async (transition: HealthTransition, firedAt: Date): Promise<void> => {
+    const title = transitionTitle(transition);
+    console.log(`[health:watch] ${title} (${transition.from ?? 'new'} -> ${transition.to}: ${transition.detail})`);
+
+    const results = await Promise.allSettled(
+      sinks.map((sink) =>
+        sink.send({
+          ruleId: null,
+          rule: 'health-watchdog',
+          type: 'health_transition',
+          dedupKey: transition.key,
+          title,
+          message: `${transition.key}: ${transition.from ?? 'unknown'} -> ${transition.to}\n${transition.detail}`,
+          firedAt,
+          data: { ...transition },
+        })
+      )
+    );
+    results.forEach((result, i) => {
+      if (result.status === 'rejected') {
+        const reason = result.reason instanceof Error ? result.reason.message : result.reason;
+        console.warn(`[health:watch] ${sinks[i].name} delivery failed: ${reason}`);
+      }
+    });
+  };
+
+  const evaluate = async (): Promise<HealthTransition[]> => {
+    let transitions: HealthTransition[] = [];
+    try {
+      const result = await monitor.refresh();
+      const current = healthStates(result);
+      transitions = diffHealthStates(states, current);
+      for (const state of current) states.set(state.key, state.status);
+
+      for (const transition of transitions) {
+        await notify(transition, result.checkedAt);
+      }
+    } catch (error) {
+      console.error('[health:watch] Evaluation failed:', error instanceof Error ? error.message : error);
+    }
+    return transitions;
+  };
+
+  // Evaluations never overlap, so each diff sees the previous one's states
+  let queue: Promise<unknown> = Promise.resolve();
+  const tick = (): Promise<HealthTransition[]> => {
+    const next = queue.then(evaluate);
+    queue = next;
+    return next;
+  };
+
+  const loop = async (): Promise<void> => {
+    await tick();
+    if (!stopped) {
+      timer = setTimeout(loop, config.intervalMs);
+    }
+  };
+  void loop();
+
+  return {
+    tick,
+    stop: () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    },
+  };
+}
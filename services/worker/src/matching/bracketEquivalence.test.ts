@@ -0,0 +1,137 @@
+/**
+ * Tests for bracket / ladder equivalence (v3.2.0)
+ *
+ * Run: npx tsx --test services/worker/src/matching/bracketEquivalence.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  parseBracketLabel,
+  normalizeUpperBound,
+  findReplication,
+  replicationPayout,
+  mapBracketLadders,
+  replicationLegsKey,
+  buildCryptoLadders,
+  type BracketLeg,
+  type Replication,
+  type ValueRange,
+} from './bracketEquivalence.js';
+import { extractCryptoSignals } from './cryptoPipeline.js';
+import type { EligibleMarket } from '@data-module/db';
+
+let nextId = 1;
+function leg(venue: 'polymarket' | 'kalshi', lo: number | null, hi: number | null): BracketLeg {
+  return { marketId: nextId++, venue, title: `${venue} ${lo}-${hi}`, range: { lo, hi } };
+}
+
+/** A replication is correct if it pays like the target everywhere */
+function assertReplicates(replication: Replication | null, target: ValueRange, probes: number[]): void {
+  assert.ok(replication, 'expected a replication');
+  for (const v of probes) {
+    const expected = (target.lo === null || v >= target.lo) && (target.hi === null || v < target.hi) ? 1 : 0;
+    assert.strictEqual(replicationPayout(replication, v), expected, `payout at ${v}`);
+  }
+}
+
+const PROBES = [90_000, 99_999, 100_000, 100_100, 100_250, 101_000, 101_999, 102_000, 103_000, 110_000];
+
+// Kalshi ladder: $250 between-legs from 100,000 to 102,000 plus thresholds
+const kalshiBetween = Array.from({ length: 8 }, (_, i) => leg('kalshi', 100_000 + i * 250, 100_250 + i * 250));
+const kalshiAbove100 = leg('kalshi', 100_000, null);
+const kalshiAbove102 = leg('kalshi', 102_000, null);
+const kalshiLadder = [...kalshiBetween, kalshiAbove100, kalshiAbove102];
+
+describe('parseBracketLabel', () => {
+  it('parses Polymarket groupItemTitle formats', () => {
+    assert.deepStrictEqual(parseBracketLabel('100,000-102,000'), { lo: 100_000, hi: 102_000 });
+    assert.deepStrictEqual(parseBracketLabel('$98k – $100k'), { lo: 98_000, hi: 100_000 });
+    assert.deepStrictEqual(parseBracketLabel('↑ 110,000'), { lo: 110_000, hi: null });
+    assert.deepStrictEqual(parseBracketLabel('120,000+'), { lo: 120_000, hi: null });
+    assert.deepStrictEqual(parseBracketLabel('<90,000'), { lo: null, hi: 90_000 });
+    assert.strictEqual(parseBracketLabel('Yes'), null);
+  });
+
+  it('snaps cent-style upper bounds', () => {
+    assert.strictEqual(normalizeUpperBound(100_249.99), 100_250);
+    assert.strictEqual(normalizeUpperBound(100_249.5), 100_249.5);
+    assert.deepStrictEqual(parseBracketLabel('$99,750 to $99,999.99'), { lo: 99_750, hi: 100_000 });
+  });
+});
+
+describe('findReplication', () => {
+  it('tiles a wide bracket with narrower legs', () => {
+    const target = { lo: 100_000, hi: 102_000 };
+    const r = findReplication(target, kalshiBetween)!;
+    assert.strictEqual(r.kind, 'union');
+    assert.strictEqual(r.legs.length, 8);
+    assertReplicates(r, target, PROBES);
+  });
+
+  it('prefers a threshold difference over a long union', () => {
+    const target = { lo: 100_000, hi: 102_000 };
+    const r = findReplication(target, kalshiLadder, { maxLegs: 4 })!;
+    assert.strictEqual(r.kind, 'difference');
+    assert.deepStrictEqual(r.legs.map((l) => [l.leg.marketId, l.weight]), [
+      [kalshiAbove100.marketId, 1],
+      [kalshiAbove102.marketId, -1],
+    ]);
+    assertReplicates(r, target, PROBES);
+  });
+
+  it('uses the complement for a below-threshold target', () => {
+    const target = { lo: null, hi: 102_000 };
+    const r = findReplication(target, kalshiLadder)!;
+    assert.strictEqual(r.kind, 'complement');
+    assert.strictEqual(r.constant, 1);
+    assertReplicates(r, target, PROBES);
+  });
+
+  it('returns exact matches and null when cut points do not line up', () => {
+    assert.strictEqual(findReplication({ lo: 102_000, hi: null }, kalshiLadder)?.kind, 'exact');
+    assert.strictEqual(findReplication({ lo: 100_100, hi: 101_000 }, kalshiLadder), null);
+  });
+});
+
+describe('mapBracketLadders', () => {
+  it('maps both directions and reports exact pairs once', () => {
+    const pmBracket = leg('polymarket', 100_000, 102_000);
+    const pmAbove = leg('polymarket', 102_000, null);
+    const eqs = mapBracketLadders('BITCOIN|2026-12-31', [pmBracket, pmAbove], kalshiLadder, { maxLegs: 4 });
+
+    const forward = eqs.filter((e) => e.target.venue === 'polymarket');
+    assert.deepStrictEqual(forward.map((e) => e.kind).sort(), ['difference', 'exact']);
+
+    // Kalshi's above-100k = PM bracket + PM above-102k; above-102k is already an exact pair
+    const reverse = eqs.filter((e) => e.target.venue === 'kalshi');
+    const above100 = reverse.find((e) => e.target.marketId === kalshiAbove100.marketId)!;
+    assert.strictEqual(above100.kind, 'union');
+    assert.strictEqual(replicationLegsKey(above100), `+${pmBracket.marketId},+${pmAbove.marketId}`);
+    assert.ok(!reverse.some((e) => e.target.marketId === kalshiAbove102.marketId));
+  });
+});
+
+describe('buildCryptoLadders', () => {
+  function market(id: number, venue: 'polymarket' | 'kalshi', title: string, metadata: Record<string, unknown> | null = null): EligibleMarket {
+    return { id, venue, title, category: null, status: 'active', closeTime: new Date('2026-12-31T22:00:00Z'), metadata };
+  }
+
+  it('groups by entity and settle date using labels and titles', () => {
+    const markets = [
+      market(1, 'polymarket', 'Will the price of Bitcoin be between $100,000 and $102,000 on December 31, 2026?', {
+        groupItemTitle: '100,000-102,000',
+      }),
+      market(2, 'kalshi', 'Will Bitcoin be above $102,000 on December 31, 2026?'),
+      market(3, 'kalshi', 'Will Bitcoin be above $102,000 on Dec 31, 2026 at 5pm EST?'),
+    ].map((m) => ({ market: m, signals: extractCryptoSignals(m) }));
+
+    const ladders = buildCryptoLadders(markets);
+    const ladder = ladders.get('BITCOIN|2026-12-31')!;
+    assert.ok(ladder);
+    assert.deepStrictEqual(ladder.map((l) => [l.marketId, l.range]), [
+      [1, { lo: 100_000, hi: 102_000 }],
+      [2, { lo: 102_000, hi: null }],
+    ]);
+  });
+});
@@ -0,0 +1,347 @@
+/**
+ * Bracket Equivalence (v3.2.0)
+ *
+ * Price-ladder events are listed as sets of range markets with different
+ * cut points per venue: Polymarket brackets ("100,000-102,000", "↑ 110,000")
+ * and Kalshi ladders ($250 "between" legs plus "above" thresholds). Titles
+ * rarely match one to one, but the ranges compose: a $2,000 Polymarket
+ * bracket is eight Kalshi $250 legs, or "above 100k" minus "above 102k".
+ *
+ * Each market is a leg paying 1 when the settlement value falls in its
+ * half-open range [lo, hi). A replication of a target leg is
+ *
+ *   payout(v) = constant + sum(weight_i * leg_i(v))  ==  target(v)  for every v
+ *
+ * with weights +1 (buy YES) / -1 (sell YES, i.e. buy NO) and constant 0 or 1.
+ */
+
+import type { Venue } from '@data-module/core';
+import type { CryptoMarket } from './cryptoPipeline.js';
+
+/**
+ * Half-open value range [lo, hi); null means unbounded
+ */
+export interface ValueRange {
+  lo: number | null;
+  hi: number | null;
+}
+
+export interface BracketLeg {
+  marketId: number;
+  venue: Venue;
+  title: string;
+  range: ValueRange;
+}
+
+export type ReplicationKind = 'exact' | 'union' | 'difference' | 'complement';
+
+export interface Replication {
+  kind: ReplicationKind;
+  constant: 0 | 1;
+  legs: Array<{ leg: BracketLeg; weight: 1 | -1 }>;
+}
+
+export interface BracketEquivalence extends Replication {
+  eventKey: string;
+  target: BracketLeg;
+}
+
+export interface BracketMappingOptions {
+  /** Longest leg combination to report (default: 8) */
+  maxLegs?: number;
+}
+
+/** Boundaries closer than this are the same cut point */
+const BOUND_EPSILON = 1e-6;
+
+/** Kalshi writes upper bounds as "$99,999.99"; snap them to 100,000 */
+const CENT_SNAP = 0.011;
+
+const KIND_ORDER: ReplicationKind[] = ['exact', 'union', 'difference', 'complement'];
+
+// ============================================================
+// Ranges
+// ============================================================
+
+/**
+ * Snap an inclusive cent-style upper bound (x.99) to the next integer
+ */
+export function normalizeUpperBound(hi: number): number {
+  const ceil = Math.ceil(hi);
+  return ceil - hi > 0 && ceil - hi < CENT_SNAP ? ceil : hi;
+}
+
+function sameBound(a: number | null, b: number | null): boolean {
+  if (a === null || b === null) return a === b;
+  return Math.abs(a - b) <= BOUND_EPSILON * Math.max(1, Math.abs(a));
+}
+
+/** a <= b where null is -inf for lower bounds */
+function loLe(a: number | null, b: number | null): boolean {
+  return a === null || (b !== null && (a <= b || sameBound(a, b)));
+}
+
+/** a <= b where null is +inf for upper bounds */
+function hiLe(a: number | null, b: number | null): boolean {
+  return b === null || (a !== null && (a <= b || sameBound(a, b)));
+}
+
+export function rangesEqual(a: ValueRange, b: ValueRange): boolean {
+  return sameBound(a.lo, b.lo) && sameBound(a.hi, b.hi);
+}
+
+export function formatRange(r: ValueRange): string {
+  const fmt = (n: number) => n.toLocaleString('en-US', { maximumFractionDigits: 2 });
+  if (r.lo === null && r.hi === null) return 'any';
+  if (r.lo === null) return `<${fmt(r.hi!)}`;
+  if (r.hi === null) return `>=${fmt(r.lo)}`;
+  return `${fmt(r.lo)}-${fmt(r.hi)}`;
+}
+
+function parseAmount(raw: string): number | null {
+  const m = raw.trim().match(/^\$?([\d,]+(?:\.\d+)?)\s*([kmb])?$/i);
+  if (!m) return null;
+  const scale = { k: 1_000, m: 1_000_000, b: 1_000_000_000 }[m[2]?.toLowerCase() as 'k' | 'm' | 'b'] ?? 1;
+  return parseFloat(m[1].replace(/,/g, '')) * scale;
+}
+
+/**
+ * Parse a bracket label such as Polymarket's groupItemTitle
+ * ("100,000-102,000", "$98k–$100k", "↑ 110,000", "<90,000", "120,000+")
+ */
+export function parseBracketLabel(label: string): ValueRange | null {
+  const text = label.trim();
+  const amount = String.raw`\$?[\d,]+(?:\.\d+)?\s*[kmb]?`;
+
+  const between = text.match(new RegExp(`^(${amount})\\s*(?:-|–|—|to)\\s*(${amount})$`, 'i'));
+  if (between) {
+    const lo = parseAmount(between[1]);
+    const hi = parseAmount(between[2]);
+    return lo !== null && hi !== null && lo < hi ? { lo, hi: normalizeUpperBound(hi) } : null;
+  }
+
+  const above = text.match(new RegExp(`^(?:↑|>=?|≥|above|over)\\s*(${amount})$|^(${amount})\\s*(?:\\+|or (?:more|above|higher))$`, 'i'));
+  if (above) {
+    const lo = parseAmount(above[1] ?? above[2]);
+    return lo !== null ? { lo, hi: null } : null;
+  }
+
+  const below = text.match(new RegExp(`^(?:↓|<=?|≤|below|under)\\s*(${amount})$|^(${amount})\\s*or (?:less|below|lower)$`, 'i'));
+  if (below) {
+    const hi = parseAmount(below[1] ?? below[2]);
+    return hi !== null ? { lo: null, hi } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Range of a crypto market: Polymarket groupItemTitle first, then the
+ * comparator and numbers extracted from the title
+ */
+export function cryptoBracketRange(cm: CryptoMarket): ValueRange | null {
+  const groupItemTitle = cm.market.metadata?.groupItemTitle;
+  if (typeof groupItemTitle === 'string') {
+    const fromLabel = parseBracketLabel(groupItemTitle);
+    if (fromLabel) return fromLabel;
+  }
+
+  const { comparator, numbers } = cm.signals;
+  if (comparator === 'BETWEEN' && numbers.length >= 2) {
+    return { lo: numbers[0], hi: normalizeUpperBound(numbers[numbers.length - 1]) };
+  }
+  if (numbers.length !== 1) return null;
+  if (comparator === 'GE' || comparator === 'GT') return { lo: numbers[0], hi: null };
+  if (comparator === 'LE' || comparator === 'LT') return { lo: null, hi: numbers[0] };
+  return null;
+}
+
+/**
+ * Event key for a crypto ladder: entity + settle date (comparator excluded,
+ * so "above" thresholds and "between" brackets land in one ladder)
+ */
+export function cryptoEventKey(cm: CryptoMarket): string | null {
+  const { entity, settleDate } = cm.signals;
+  return entity && settleDate ? `${entity}|${settleDate}` : null;
+}
+
+/**
+ * Group crypto markets into ladders of legs by event key
+ * Duplicate ranges within a ladder keep the lowest market id.
+ */
+export function buildCryptoLadders(markets: CryptoMarket[]): Map<string, BracketLeg[]> {
+  const ladders = new Map<string, BracketLeg[]>();
+  const sorted = [...markets].sort((a, b) => a.market.id - b.market.id);
+
+  for (const cm of sorted) {
+    const key = cryptoEventKey(cm);
+    const range = cryptoBracketRange(cm);
+    if (!key || !range) continue;
+
+    const legs = ladders.get(key) ?? [];
+    if (legs.some((l) => rangesEqual(l.range, range))) continue;
+    legs.push({ marketId: cm.market.id, venue: cm.market.venue, title: cm.market.title, range });
+    ladders.set(key, legs);
+  }
+
+  return ladders;
+}
+
+// ============================================================
+// Replication
+// ============================================================
+
+/**
+ * Fewest disjoint legs whose union is exactly [lo, hi), or null
+ * (shortest path over cut points, walking up from lo)
+ */
+function coverExactly(lo: number | null, hi: number | null, legs: BracketLeg[], maxLegs: number): BracketLeg[] | null {
+  const inside = legs.filter((l) => loLe(lo, l.range.lo) && hiLe(l.range.hi, hi));
+  const queue: Array<{ at: number | null; path: BracketLeg[] }> = [{ at: lo, path: [] }];
+  const visited: Array<number | null> = [lo];
+
+  while (queue.length > 0) {
+    const { at, path } = queue.shift()!;
+    if (path.length >= maxLegs) continue;
+
+    for (const leg of inside) {
+      if (!sameBound(leg.range.lo, at)) continue;
+      // An unbounded upper leg can only finish a cover that is itself unbounded
+      if (leg.range.hi === null && hi !== null) continue;
+      const next = [...path, leg];
+      if (sameBound(leg.range.hi, hi)) return next;
+      if (leg.range.hi === null || visited.some((v) => sameBound(v, leg.range.hi))) continue;
+      visited.push(leg.range.hi);
+      queue.push({ at: leg.range.hi, path: next });
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Cover several disjoint pieces; null if any piece cannot be covered
+ */
+function coverPieces(pieces: ValueRange[], legs: BracketLeg[], maxLegs: number): BracketLeg[] | null {
+  const result: BracketLeg[] = [];
+  for (const piece of pieces) {
+    const cover = coverExactly(piece.lo, piece.hi, legs, maxLegs - result.length);
+    if (!cover) return null;
+    result.push(...cover);
+  }
+  return result;
+}
+
+/**
+ * Simplest combination of legs that pays exactly like the target range
+ *
+ * Tried in order of preference (fewest legs within a kind wins):
+ * - exact:      one leg with the same range
+ * - union:      disjoint legs tiling the range
+ * - difference: a wider leg minus legs tiling the excess
+ * - complement: 1 minus legs tiling everything outside the range
+ */
+export function findReplication(
+  target: ValueRange,
+  legs: BracketLeg[],
+  options: BracketMappingOptions = {}
+): Replication | null {
+  const { maxLegs = 8 } = options;
+  const candidates: Replication[] = [];
+
+  const union = coverExactly(target.lo, target.hi, legs, maxLegs);
+  if (union) {
+    candidates.push({
+      kind: union.length === 1 ? 'exact' : 'union',
+      constant: 0,
+      legs: union.map((leg) => ({ leg, weight: 1 })),
+    });
+  }
+
+  for (const outer of legs) {
+    const { lo, hi } = outer.range;
+    if (!loLe(lo, target.lo) || !hiLe(target.hi, hi) || rangesEqual(outer.range, target)) continue;
+
+    const excess: ValueRange[] = [];
+    if (!sameBound(lo, target.lo)) excess.push({ lo, hi: target.lo });
+    if (!sameBound(hi, target.hi)) excess.push({ lo: target.hi, hi });
+
+    const others = legs.filter((l) => l !== outer);
+    const cover = coverPieces(excess, others, maxLegs - 1);
+    if (cover) {
+      candidates.push({
+        kind: 'difference',
+        constant: 0,
+        legs: [{ leg: outer, weight: 1 }, ...cover.map((leg) => ({ leg, weight: -1 as const }))],
+      });
+    }
+  }
+
+  const outside: ValueRange[] = [];
+  if (target.lo !== null) outside.push({ lo: null, hi: target.lo });
+  if (target.hi !== null) outside.push({ lo: target.hi, hi: null });
+  if (outside.length > 0) {
+    const cover = coverPieces(outside, legs, maxLegs);
+    if (cover) {
+      candidates.push({ kind: 'complement', constant: 1, legs: cover.map((leg) => ({ leg, weight: -1 })) });
+    }
+  }
+
+  if (candidates.length === 0) return null;
+  return candidates.sort(
+    (a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) || a.legs.length - b.legs.length
+  )[0];
+}
+
+/**
+ * Payout of a replication when the event settles at value
+ */
+export function replicationPayout(replication: Replication, value: number): number {
+  let payout: number = replication.constant;
+  for (const { leg, weight } of replication.legs) {
+    if (loLe(leg.range.lo, value) && (leg.range.hi === null || value < leg.range.hi)) {
+      payout += weight;
+    }
+  }
+  return payout;
+}
+
+/**
+ * All synthetic equivalences between two venues' ladders for one event,
+ * in both directions. An exact pair is reported once (left as target).
+ */
+export function mapBracketLadders(
+  eventKey: string,
+  left: BracketLeg[],
+  right: BracketLeg[],
+  options: BracketMappingOptions = {}
+): BracketEquivalence[] {
+  const result: BracketEquivalence[] = [];
+  const exactRight = new Set<number>();
+
+  for (const target of left) {
+    const replication = findReplication(target.range, right, options);
+    if (!replication) continue;
+    if (replication.kind === 'exact') exactRight.add(replication.legs[0].leg.marketId);
+    result.push({ eventKey, target, ...replication });
+  }
+
+  for (const target of right) {
+    if (exactRight.has(target.marketId)) continue;
+    const replication = findReplication(target.range, left, options);
+    if (replication) result.push({ eventKey, target, ...replication });
+  }
+
+  return result;
+}
+
+/**
+ * Canonical key for a leg combination ("+12,-15"), unique per target
+ */
+export function replicationLegsKey(replication: Replication): string {
+  return replication.legs
+    .map(({ leg, weight }) => ({ id: leg.marketId, weight }))
+    .sort((a, b) => a.id - b.id)
+    .map(({ id, weight }) => `${weight > 0 ? '+' : '-'}${id}`)
+    .join(',');
+}
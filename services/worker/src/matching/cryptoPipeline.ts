@@ -1108,6 +1108,37 @@ export async function fetchEligibleCryptoMarkets(
   marketRepo: MarketRepository,
   options: FetchCryptoMarketsOptions
 ): Promise<{ markets: CryptoMarket[]; stats: FetchCryptoMarketsStats }> {
+  const { markets, stats } = await fetchCryptoMarketRows(marketRepo, options);
+
+  // Step 5: Extract signals and filter by entity + marketType
+  const result: CryptoMarket[] = [];
+
+  for (const market of markets) {
+    const signals = eligibleCryptoSignals(market, options);
+    if (!signals) {
+      continue;
+    }
+
+    stats.withCryptoEntity++;
+
+    if (signals.settleDate) {
+      stats.withSettleDate++;
+    }
+
+    result.push({ market, signals });
+  }
+
+  return { markets: result, stats };
+}
+
+/**
+ * Crypto rows before signal extraction (v3.2.0): steps 1-4 of
+ * fetchEligibleCryptoMarkets (ticker search, sports and intraday ticker filters)
+ */
+export async function fetchCryptoMarketRows(
+  marketRepo: MarketRepository,
+  options: FetchCryptoMarketsOptions
+): Promise<{ markets: EligibleMarket[]; stats: FetchCryptoMarketsStats }> {
   const {
     venue,
     lookbackHours,
@@ -1168,34 +1199,32 @@ export async function fetchEligibleCryptoMarkets(
   }
   stats.afterIntradayFilter = markets.length;
 
-  // Step 5: Extract signals and filter by entity + marketType
-  const result: CryptoMarket[] = [];
-  const entitySet = new Set(entities);
-
-  for (const market of markets) {
-    const signals = extractCryptoSignals(market);
-
-    // Must have a recognized crypto entity
-    if (!signals.entity || !entitySet.has(signals.entity)) {
-      continue;
-    }
-
-    // v2.6.2: If excludeIntraday, also filter by detected marketType
-    // (catches cases where ticker doesn't match but title indicates intraday)
-    if (excludeIntraday && signals.marketType === CryptoMarketType.INTRADAY_UPDOWN) {
-      continue;
-    }
-
-    stats.withCryptoEntity++;
+  return { markets, stats };
+}
 
-    if (signals.settleDate) {
-      stats.withSettleDate++;
-    }
+/**
+ * Crypto signals for one row, or null when it has no tracked entity
+ * (or, with excludeIntraday, is classified INTRADAY_UPDOWN) (v3.2.0)
+ */
+export function eligibleCryptoSignals(
+  market: EligibleMarket,
+  options: Pick<FetchCryptoMarketsOptions, 'entities' | 'excludeIntraday'> = {}
+): CryptoSignals | null {
+  const { entities = CRYPTO_ENTITIES_V1, excludeIntraday = false } = options;
+  const signals = extractCryptoSignals(market);
+
+  // Must have a recognized crypto entity
+  if (!signals.entity || !entities.includes(signals.entity)) {
+    return null;
+  }
 
-    result.push({ market, signals });
+  // v2.6.2: If excludeIntraday, also filter by detected marketType
+  // (catches cases where ticker doesn't match but title indicates intraday)
+  if (excludeIntraday && signals.marketType === CryptoMarketType.INTRADAY_UPDOWN) {
+    return null;
   }
 
-  return { markets: result, stats };
+  return signals;
 }
 
 // ============================================================
@@ -1589,62 +1618,15 @@ export async function fetchIntradayCryptoMarkets(
   marketRepo: MarketRepository,
   options: FetchCryptoMarketsOptions & { slotSize?: IntradaySlotSize }
 ): Promise<{ markets: IntradayMarket[]; stats: FetchCryptoMarketsStats }> {
-  const {
-    venue,
-    lookbackHours,
-    limit,
-    entities = CRYPTO_ENTITIES_V1,
-    excludeSports = true,
-    slotSize = '1h',
-  } = options;
-
-  const stats: FetchCryptoMarketsStats = {
-    total: 0,
-    afterKeywordFilter: 0,
-    afterSportsFilter: 0,
-    afterIntradayFilter: 0,
-    withCryptoEntity: 0,
-    withSettleDate: 0,
-  };
-
-  // Use same DB patterns as regular crypto fetch
-  const { fullNameKeywords, tickerPatterns } = getCryptoDBPatterns(entities);
-
-  // Fetch from DB
-  let markets = await marketRepo.listEligibleMarketsCrypto(venue as Venue, {
-    lookbackHours,
-    limit,
-    fullNameKeywords,
-    tickerPatterns,
-    orderBy: 'closeTime',
-  });
-  stats.total = markets.length;
-  stats.afterKeywordFilter = markets.length;
-
-  // Apply sports filtering
-  if (excludeSports) {
-    markets = markets.filter(m => {
-      if (venue === 'kalshi' && isKalshiSportsMarket(m.metadata)) return false;
-      if (hasSportsTitleKeyword(m.title)) return false;
-      return true;
-    });
-  }
-  stats.afterSportsFilter = markets.length;
+  // Same DB patterns and sports filter as regular crypto fetch
+  const { markets, stats } = await fetchCryptoMarketRows(marketRepo, { ...options, excludeIntraday: false });
 
   // Extract signals and filter for INTRADAY_UPDOWN only
   const result: IntradayMarket[] = [];
-  const entitySet = new Set(entities);
 
   for (const market of markets) {
-    const signals = extractIntradaySignals(market, slotSize);
-
-    // Must have entity
-    if (!signals.entity || !entitySet.has(signals.entity)) {
-      continue;
-    }
-
-    // ONLY include INTRADAY_UPDOWN markets
-    if (signals.marketType !== CryptoMarketType.INTRADAY_UPDOWN) {
+    const signals = eligibleIntradaySignals(market, options);
+    if (!signals) {
       continue;
     }
 
@@ -1662,6 +1644,30 @@ export async function fetchIntradayCryptoMarkets(
   return { markets: result, stats };
 }
 
+/**
+ * Intraday signals for one row, or null unless it is an INTRADAY_UPDOWN
+ * market of a tracked entity (v3.2.0)
+ */
+export function eligibleIntradaySignals(
+  market: EligibleMarket,
+  options: Pick<FetchCryptoMarketsOptions, 'entities'> & { slotSize?: IntradaySlotSize } = {}
+): IntradaySignals | null {
+  const { entities = CRYPTO_ENTITIES_V1, slotSize = '1h' } = options;
+  const signals = extractIntradaySignals(market, slotSize);
+
+  // Must have entity
+  if (!signals.entity || !entities.includes(signals.entity)) {
+    return null;
+  }
+
+  // ONLY include INTRADAY_UPDOWN markets
+  if (signals.marketType !== CryptoMarketType.INTRADAY_UPDOWN) {
+    return null;
+  }
+
+  return signals;
+}
+
 /**
  * Build intraday index (v2.6.2)
  * Key: entity + timeBucket (e.g., "BITCOIN|2026-01-21T14:00:00.000Z")
@@ -1709,6 +1715,9 @@ export interface IntradayScoreResult {
   textScore: number;
   directionMatch: boolean;
   timeBucket: string | null;
+  /** v3.2.0: Per-side direction (null = none), for link rules */
+  directionL: string | null;
+  directionR: string | null;
 }
 
 /**
@@ -1770,5 +1779,7 @@ export function intradayMatchScore(left: IntradayMarket, right: IntradayMarket):
     textScore,
     directionMatch,
     timeBucket: lSig.timeBucket,
+    directionL: lSig.direction,
+    directionR: rSig.direction,
   };
 }
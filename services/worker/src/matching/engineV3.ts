@@ -11,6 +11,9 @@ import {
   MarketRepository,
   MarketLinkRepository,
   KalshiEventRepository,
+  MatchingRunRepository,
+  MarketSignalRepository,
+  type LinkActor,
 } from '@data-module/db';
 import {
   getPipeline,
@@ -23,12 +26,22 @@ import type {
   EngineV3Stats,
   ScoredCandidate,
   SuggestionToWrite,
+  ScoreFields,
+  BaseScoreResult,
 } from './engineV3.types.js';
 import {
   DEFAULT_LIMITS,
   DEFAULT_MIN_SCORES,
   DEFAULT_LOOKBACK_HOURS,
 } from './engineV3.types.js';
+import { recordMatchingRun } from '../metrics/instruments.js';
+import { recordRunHistory } from './run-history.js';
+import { splitByChanged, seedCandidates, watermarkMismatch, changedSinceWatermark } from './incremental.js';
+import {
+  SIGNAL_STORE_ENABLED,
+  fetchPipelineMarkets,
+  buildIndexFromKeys,
+} from './signalStore.js';
 
 /**
  * Initialize empty stats
@@ -66,10 +79,43 @@ function updateScoreDistribution(
   else distribution['<0.6']++;
 }
 
+/**
+ * Scalar fields of a score result (v3.2.0)
+ *
+ * Everything but score and reason that is a number, string, boolean or a
+ * list of numbers/strings; nested objects are left out.
+ */
+function scoreFieldsOf(result: BaseScoreResult): ScoreFields {
+  const fields: ScoreFields = {};
+  for (const [key, value] of Object.entries(result)) {
+    if (key === 'score' || key === 'reason') continue;
+    if (typeof value === 'number') {
+      fields[key] = Number.isFinite(value) ? value : null;
+    } else if (typeof value === 'string' || typeof value === 'boolean' || value === null) {
+      fields[key] = value;
+    } else if (Array.isArray(value) && value.every((v) => typeof v === 'string' || Number.isFinite(v))) {
+      fields[key] = value;
+    }
+  }
+  return fields;
+}
+
 /**
  * Run matching for a specific topic using V3 engine
+ * v3.2.0: Records run, stage and link metrics, and persists the run to matching_runs
  */
 export async function runMatchingV3(options: EngineV3Options): Promise<EngineV3Result> {
+  const result = await executeMatchingV3(options);
+  recordMatchingRun(result, options.mode ?? 'suggest');
+
+  if (options.recordRun !== false && options.debugMarketId === undefined) {
+    const run = await recordRunHistory(new MatchingRunRepository(getClient()), options, result);
+    if (run) result.runId = run.id;
+  }
+  return result;
+}
+
+async function executeMatchingV3(options: EngineV3Options): Promise<EngineV3Result> {
   const startTime = Date.now();
   const errors: string[] = [];
   const stats = initStats();
@@ -86,6 +132,7 @@ export async function runMatchingV3(options: EngineV3Options): Promise<EngineV3R
     autoReject = false,
     debugMarketId,
     useV3Eligibility = false,
+    incremental = false,
   } = options;
 
   // Get pipeline for topic
@@ -115,6 +162,9 @@ export async function runMatchingV3(options: EngineV3Options): Promise<EngineV3R
   const client = getClient();
   const marketRepo = new MarketRepository(client);
   const linkRepo = new MarketLinkRepository(client);
+  const runRepo = new MatchingRunRepository(client);
+  // v3.2.0: Persisted signals and index keys (pipelines with fetchRows + extractSignals)
+  const signalRepo = SIGNAL_STORE_ENABLED ? new MarketSignalRepository(client) : null;
   // v3.0.14: Event repo for SPORTS enrichment
   const eventRepo = canonicalTopic === CanonicalTopic.SPORTS
     ? new KalshiEventRepository(client)
@@ -129,8 +179,8 @@ export async function runMatchingV3(options: EngineV3Options): Promise<EngineV3R
     // v3.0.14: excludeSports should be false for SPORTS topic
     const excludeSports = canonicalTopic !== CanonicalTopic.SPORTS;
 
-    const [leftMarkets, rightMarkets] = await Promise.all([
-      pipeline.fetchMarkets(marketRepo, {
+    const [leftFetch, rightFetch] = await Promise.all([
+      fetchPipelineMarkets(pipeline, marketRepo, signalRepo, {
         venue: fromVenue,
         lookbackHours,
         limit: limits.maxLeft || 2000,
@@ -138,7 +188,7 @@ export async function runMatchingV3(options: EngineV3Options): Promise<EngineV3R
         useV3Eligibility,
         eventRepo,  // v3.0.14: Pass event repo for SPORTS enrichment
       }),
-      pipeline.fetchMarkets(marketRepo, {
+      fetchPipelineMarkets(pipeline, marketRepo, signalRepo, {
         venue: toVenue,
         lookbackHours,
         limit: limits.maxRight || 20000,
@@ -147,6 +197,16 @@ export async function runMatchingV3(options: EngineV3Options): Promise<EngineV3R
         eventRepo,  // v3.0.14: Pass event repo for SPORTS enrichment
       }),
     ]);
+    const leftMarkets = leftFetch.markets;
+    const rightMarkets = rightFetch.markets;
+
+    if (rightFetch.indexKeys) {
+      stats.signalStore = {
+        reused: leftFetch.reused + rightFetch.reused,
+        extracted: leftFetch.extracted + rightFetch.extracted,
+      };
+      console.log(`[engineV3] Signal store: ${stats.signalStore.reused} reused, ${stats.signalStore.extracted} extracted`);
+    }
 
     stats.marketsFetched.left = leftMarkets.length;
     stats.marketsFetched.right = rightMarkets.length;
@@ -170,13 +230,61 @@ export async function runMatchingV3(options: EngineV3Options): Promise<EngineV3R
       };
     }
 
+    // v3.2.0: Incremental mode - which markets changed since the watermark
+    let watermark = incremental && !debugMarketId
+      ? await runRepo.getWatermark(canonicalTopic, fromVenue, toVenue)
+      : null;
+    if (incremental && !watermark) {
+      console.log('[engineV3] Incremental: no watermark yet, running full');
+    }
+    const mismatch = watermark && watermarkMismatch(watermark, algoVersion, minScore);
+    if (mismatch) {
+      console.log(`[engineV3] Incremental: ${mismatch}, running full`);
+      watermark = null;
+    }
+
+    // Debug single market if specified
+    const marketsToProcess = debugMarketId
+      ? leftMarkets.filter((m) => m.market.id === debugMarketId)
+      : leftMarkets;
+
+    // Each pass probes its left markets against an index of its right markets
+    let passes: Array<{ left: typeof leftMarkets; right: typeof rightMarkets }>;
+    let changedIds: Set<number> | null = null;
+    if (watermark) {
+      const ids = [...leftMarkets, ...rightMarkets].map((m) => m.market.id);
+      const contentChanged = await marketRepo.filterChangedSince(ids, watermark.watermarkTs);
+      changedIds = changedSinceWatermark(ids, contentChanged, watermark.marketIds);
+      const split = splitByChanged(leftMarkets, rightMarkets, changedIds);
+      stats.incremental = {
+        since: watermark.watermarkTs.toISOString(),
+        changedLeft: split.changedLeft.length,
+        changedRight: split.changedRight.length,
+      };
+      console.log(
+        `[engineV3] Incremental since ${watermark.watermarkTs.toISOString()}: ` +
+          `${split.changedLeft.length} left, ${split.changedRight.length} right changed`
+      );
+      passes = [
+        { left: split.changedLeft, right: rightMarkets },
+        { left: split.unchangedLeft, right: split.changedRight },
+      ];
+    } else {
+      passes = [{ left: marketsToProcess, right: rightMarkets }];
+    }
+
     // ================================================================
     // Step 2: Build index from right (target) markets
     // ================================================================
     console.log('[engineV3] Step 2: Building index...');
-    const index = pipeline.buildIndex(rightMarkets);
-    stats.indexSize = index.size;
-    console.log(`[engineV3] Index size: ${index.size} keys`);
+    const indexedPasses = passes
+      .filter((p) => p.left.length > 0 && p.right.length > 0)
+      .map((p) => ({
+        left: p.left,
+        index: rightFetch.indexKeys ? buildIndexFromKeys(p.right, rightFetch.indexKeys) : pipeline.buildIndex(p.right),
+      }));
+    stats.indexSize = indexedPasses.reduce((sum, p) => sum + p.index.size, 0);
+    console.log(`[engineV3] Index size: ${stats.indexSize} keys`);
 
     // ================================================================
     // Step 3: Find and score candidates
@@ -184,47 +292,44 @@ export async function runMatchingV3(options: EngineV3Options): Promise<EngineV3R
     console.log('[engineV3] Step 3: Finding and scoring candidates...');
     const allCandidates: ScoredCandidate<any, any>[] = [];
 
-    // Debug single market if specified
-    const marketsToProcess = debugMarketId
-      ? leftMarkets.filter((m) => m.market.id === debugMarketId)
-      : leftMarkets;
-
-    for (const leftMarket of marketsToProcess) {
-      // Find candidates
-      const candidates = pipeline.findCandidates(leftMarket, index);
-
-      for (const rightMarket of candidates) {
-        stats.candidatesEvaluated++;
+    for (const { left, index } of indexedPasses) {
+      for (const leftMarket of left) {
+        // Find candidates
+        const candidates = pipeline.findCandidates(leftMarket, index);
 
-        // Skip self-match
-        if (leftMarket.market.id === rightMarket.market.id) {
-          continue;
-        }
+        for (const rightMarket of candidates) {
+          stats.candidatesEvaluated++;
 
-        // Check hard gates
-        const gateResult = pipeline.checkHardGates(leftMarket, rightMarket);
-        if (!gateResult.passed) {
-          continue;
-        }
-        stats.candidatesPassedGates++;
+          // Skip self-match
+          if (leftMarket.market.id === rightMarket.market.id) {
+            continue;
+          }
 
-        // Score
-        const scoreResult = pipeline.score(leftMarket, rightMarket);
-        if (!scoreResult) {
-          continue;
-        }
+          // Check hard gates
+          const gateResult = pipeline.checkHardGates(leftMarket, rightMarket);
+          if (!gateResult.passed) {
+            continue;
+          }
+          stats.candidatesPassedGates++;
 
-        // Update distribution
-        updateScoreDistribution(stats.scoreDistribution, scoreResult.score);
+          // Score
+          const scoreResult = pipeline.score(leftMarket, rightMarket);
+          if (!scoreResult) {
+            continue;
+          }
 
-        // Check min score
-        if (scoreResult.score >= minScore) {
-          stats.candidatesAboveThreshold++;
-          allCandidates.push({
-            left: leftMarket,
-            right: rightMarket,
-            score: scoreResult,
-          });
+          // Update distribution
+          updateScoreDistribution(stats.scoreDistribution, scoreResult.score);
+
+          // Check min score
+          if (scoreResult.score >= minScore) {
+            stats.candidatesAboveThreshold++;
+            allCandidates.push({
+              left: leftMarket,
+              right: rightMarket,
+              score: scoreResult,
+            });
+          }
         }
       }
     }
@@ -235,10 +340,24 @@ export async function runMatchingV3(options: EngineV3Options): Promise<EngineV3R
     // Step 4: Apply deduplication
     // ================================================================
     console.log('[engineV3] Step 4: Applying dedup...');
-    const dedupedCandidates = pipeline.applyDedup(allCandidates, {
+    // v3.2.0: Incremental runs only rescored pairs with a changed side; the stored links
+    // of the candidates' markets stand in for their unchanged matches so caps decide as in a full run
+    let seeds = new Set<ScoredCandidate<any, any>>();
+    if (changedIds && allCandidates.length > 0) {
+      const stored = await linkRepo.getPairScores({
+        leftVenue: fromVenue,
+        rightVenue: toVenue,
+        algoVersion,
+        leftMarketIds: [...new Set(allCandidates.map((c) => c.left.market.id))],
+        rightMarketIds: [...new Set(allCandidates.map((c) => c.right.market.id))],
+        minScore,
+      });
+      seeds = new Set(seedCandidates(stored, leftMarkets, rightMarkets, changedIds));
+    }
+    const dedupedCandidates = pipeline.applyDedup([...allCandidates, ...seeds], {
       maxPerLeft: limits.maxPerLeft,
       maxPerRight: limits.maxPerRight,
-    });
+    }).filter((c) => !seeds.has(c));
     stats.finalSuggestions = dedupedCandidates.length;
     console.log(`[engineV3] After dedup: ${dedupedCandidates.length} suggestions`);
 
@@ -262,10 +381,13 @@ export async function runMatchingV3(options: EngineV3Options): Promise<EngineV3R
           reason: candidate.score.reason,
           algoVersion,
           topic: canonicalTopic,
+          scoreFields: scoreFieldsOf(candidate.score),
         };
 
         // Check auto-confirm
         let status: 'suggested' | 'confirmed' | 'rejected' = 'suggested';
+        // v3.2.0: Audit actor - the auto rule that decided, else the engine
+        let actor: LinkActor = { type: 'engine', id: algoVersion, source: 'engine:v3' };
 
         if (autoConfirm && pipeline.supportsAutoConfirm && pipeline.shouldAutoConfirm) {
           const confirmResult = pipeline.shouldAutoConfirm(
@@ -275,6 +397,7 @@ export async function runMatchingV3(options: EngineV3Options): Promise<EngineV3R
           );
           if (confirmResult.shouldConfirm) {
             status = 'confirmed';
+            actor = { type: 'rule', id: confirmResult.rule ?? `${algoVersion}:auto_confirm`, source: 'engine:v3' };
             autoConfirmedCount++;
           }
         }
@@ -288,6 +411,7 @@ export async function runMatchingV3(options: EngineV3Options): Promise<EngineV3R
           );
           if (rejectResult.shouldReject) {
             status = 'rejected';
+            actor = { type: 'rule', id: rejectResult.rule ?? `${algoVersion}:auto_reject`, source: 'engine:v3' };
             autoRejectedCount++;
           }
         }
@@ -303,7 +427,9 @@ export async function runMatchingV3(options: EngineV3Options): Promise<EngineV3R
             reason: suggestion.reason,
             algoVersion: suggestion.algoVersion,
             topic: suggestion.topic,
+            scoreFields: suggestion.scoreFields,
             status,
+            actor,
           });
           suggestionsCreated++;
         } catch (err) {
@@ -344,6 +470,20 @@ export async function runMatchingV3(options: EngineV3Options): Promise<EngineV3R
       }
     }
 
+    // v3.2.0: A clean suggest run covered every pair changed before it started
+    if (mode === 'suggest' && errors.length === 0 && !debugMarketId) {
+      try {
+        await runRepo.setWatermark(canonicalTopic, fromVenue, toVenue, {
+          watermarkTs: new Date(startTime),
+          algoVersion,
+          minScore,
+          marketIds: [...new Set([...leftMarkets, ...rightMarkets].map((m) => m.market.id))],
+        });
+      } catch (err) {
+        console.warn(`[engineV3] Failed to update watermark: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+
     // ================================================================
     // Return result
     // ================================================================
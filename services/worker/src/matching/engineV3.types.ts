@@ -111,6 +111,10 @@ export interface EngineV3Options {
   debugMarketId?: number;
   /** v3.0.14: Use V3 eligibility rules (MVE filtering for SPORTS) */
   useV3Eligibility?: boolean;
+  /** v3.2.0: Persist the run to matching_runs (default true, skipped for debug runs) */
+  recordRun?: boolean;
+  /** v3.2.0: Only score pairs where a market changed since the topic's watermark */
+  incremental?: boolean;
 }
 
 /**
@@ -137,6 +141,8 @@ export interface EngineV3Result {
   errors: string[];
   /** Detailed stats per stage */
   stats: EngineV3Stats;
+  /** v3.2.0: matching_runs row id, when the run was recorded */
+  runId?: number;
 }
 
 /**
@@ -171,6 +177,17 @@ export interface EngineV3Stats {
     '0.6-0.7': number;
     '<0.6': number;
   };
+  /** v3.2.0: Set on incremental runs that had a watermark */
+  incremental?: {
+    since: string;
+    changedLeft: number;
+    changedRight: number;
+  };
+  /** v3.2.0: Set when markets came from the persisted signal store */
+  signalStore?: {
+    reused: number;
+    extracted: number;
+  };
 }
 
 /**
@@ -209,8 +226,15 @@ export interface SuggestionToWrite {
   reason: string;
   algoVersion: string;
   topic: string;
+  /** v3.2.0: Scorer fields besides score/reason, read by link rules */
+  scoreFields: ScoreFields;
 }
 
+/**
+ * Scalar scorer output stored on a link (v3.2.0), read back by ops/rule-fields
+ */
+export type ScoreFields = Record<string, string | number | boolean | null | Array<string | number>>;
+
 /**
  * Market with signals (generic wrapper)
  */
@@ -0,0 +1,90 @@
+/**
+ * Tests for event cluster derivation (v3.2.0)
+ *
+ * Run: npx tsx --test services/worker/src/matching/eventClusters.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { buildEventClusters, summarizeClusters, type ClusterEdge, type ClusterMarket } from './eventClusters.js';
+
+const PM = (id: number): ClusterMarket => ({ id, venue: 'polymarket', title: `pm ${id}` });
+const KX = (id: number): ClusterMarket => ({ id, venue: 'kalshi', title: `kalshi ${id}` });
+const MF = (id: number): ClusterMarket => ({ id, venue: 'manifold', title: `manifold ${id}` });
+
+function edge(
+  linkId: number,
+  left: ClusterMarket,
+  right: ClusterMarket,
+  status: ClusterEdge['status'] = 'confirmed',
+  topic: string | null = 'RATES'
+): ClusterEdge {
+  return { linkId, status, topic, left, right };
+}
+
+describe('buildEventClusters', () => {
+  it('joins markets transitively across venues', () => {
+    const clusters = buildEventClusters([
+      edge(1, PM(10), KX(20)),
+      edge(2, KX(20), MF(30)),
+      edge(3, PM(11), KX(21), 'confirmed', 'ELECTIONS'),
+    ]);
+
+    assert.strictEqual(clusters.length, 2);
+    const [rates, elections] = clusters;
+    assert.strictEqual(rates.key, 'm10');
+    assert.deepStrictEqual(rates.members.map((m) => m.marketId), [10, 20, 30]);
+    assert.deepStrictEqual(rates.venues, ['kalshi', 'manifold', 'polymarket']);
+    assert.deepStrictEqual(rates.linkIds, [1, 2]);
+    assert.strictEqual(rates.topic, 'RATES');
+    // Kalshi market has two links: it names the cluster
+    assert.strictEqual(rates.title, 'kalshi 20');
+    assert.deepStrictEqual(rates.conflicts, []);
+    assert.strictEqual(elections.topic, 'ELECTIONS');
+  });
+
+  it('flags a rejected link inside a cluster with the confirmed path', () => {
+    const [cluster] = buildEventClusters([
+      edge(1, PM(10), KX(20)),
+      edge(2, KX(20), MF(30)),
+      edge(3, PM(10), MF(30), 'rejected'),
+      // Rejected links between different clusters are not conflicts
+      edge(4, PM(10), KX(99), 'rejected'),
+    ]);
+
+    assert.deepStrictEqual(cluster.conflicts, [
+      { type: 'rejected_pair', linkId: 3, marketIds: [10, 30], path: [1, 2] },
+    ]);
+  });
+
+  it('flags two markets from one venue', () => {
+    const [cluster] = buildEventClusters([edge(1, PM(10), KX(20)), edge(2, PM(12), KX(20))]);
+
+    assert.deepStrictEqual(cluster.conflicts, [{ type: 'same_venue', venue: 'polymarket', marketIds: [10, 12] }]);
+  });
+
+  it('ignores self links and markets with only rejected links', () => {
+    assert.deepStrictEqual(buildEventClusters([edge(1, PM(10), PM(10)), edge(2, PM(1), KX(2), 'rejected')]), []);
+  });
+});
+
+describe('summarizeClusters', () => {
+  it('counts clusters by venue count and conflicts', () => {
+    const summary = summarizeClusters(
+      buildEventClusters([
+        edge(1, PM(10), KX(20)),
+        edge(2, KX(20), MF(30)),
+        edge(3, PM(11), KX(21)),
+        edge(4, PM(12), KX(21)),
+      ])
+    );
+
+    assert.deepStrictEqual(summary, {
+      clusters: 2,
+      members: 6,
+      conflicts: 1,
+      multiVenue: 1,
+      byVenueCount: { 2: 1, 3: 1 },
+    });
+  });
+});
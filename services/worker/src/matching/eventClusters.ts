@@ -0,0 +1,215 @@
+/**
+ * Event Clusters (v3.2.0)
+ *
+ * Groups equivalent markets across any number of venues. Confirmed
+ * MarketLinks are edges; each connected component is one cluster, so
+ * A~B and B~C put A, B and C together without an explicit A~C link.
+ *
+ * Transitivity can be wrong, so a cluster is flagged as a conflict when:
+ * - rejected_pair: a rejected link joins two of its members (A~B, B~C, A!~C)
+ * - same_venue:    it holds more than one market from one venue
+ */
+
+import type { Venue } from '@data-module/core';
+
+/**
+ * A reviewed link between two markets
+ */
+export interface ClusterEdge {
+  linkId: number;
+  status: 'confirmed' | 'rejected';
+  topic: string | null;
+  left: ClusterMarket;
+  right: ClusterMarket;
+}
+
+export interface ClusterMarket {
+  id: number;
+  venue: Venue;
+  title: string;
+}
+
+export type ClusterConflict =
+  | {
+      type: 'rejected_pair';
+      /** The rejected link */
+      linkId: number;
+      marketIds: [number, number];
+      /** Confirmed links that join the pair inside the cluster */
+      path: number[];
+    }
+  | {
+      type: 'same_venue';
+      venue: Venue;
+      marketIds: number[];
+    };
+
+export interface DerivedCluster {
+  /** "m<lowest member market id>" */
+  key: string;
+  topic: string | null;
+  title: string;
+  members: Array<{ marketId: number; venue: Venue }>;
+  venues: Venue[];
+  /** Confirmed links inside the cluster */
+  linkIds: number[];
+  conflicts: ClusterConflict[];
+}
+
+export interface ClusterBuildSummary {
+  clusters: number;
+  members: number;
+  conflicts: number;
+  /** Clusters spanning 3+ venues */
+  multiVenue: number;
+  byVenueCount: Record<number, number>;
+}
+
+/**
+ * Build clusters from reviewed links
+ * Suggested links must be filtered out by the caller.
+ */
+export function buildEventClusters(edges: ClusterEdge[]): DerivedCluster[] {
+  const markets = new Map<number, ClusterMarket>();
+  const adjacency = new Map<number, Array<{ marketId: number; linkId: number }>>();
+  const confirmed = edges.filter((e) => e.status === 'confirmed' && e.left.id !== e.right.id);
+
+  for (const edge of confirmed) {
+    markets.set(edge.left.id, edge.left);
+    markets.set(edge.right.id, edge.right);
+    adjacency.set(edge.left.id, [...(adjacency.get(edge.left.id) ?? []), { marketId: edge.right.id, linkId: edge.linkId }]);
+    adjacency.set(edge.right.id, [...(adjacency.get(edge.right.id) ?? []), { marketId: edge.left.id, linkId: edge.linkId }]);
+  }
+
+  // Connected components
+  const componentOf = new Map<number, number>();
+  const components: number[][] = [];
+  for (const start of [...markets.keys()].sort((a, b) => a - b)) {
+    if (componentOf.has(start)) continue;
+    const index = components.length;
+    const members: number[] = [];
+    const stack = [start];
+    componentOf.set(start, index);
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      members.push(id);
+      for (const next of adjacency.get(id) ?? []) {
+        if (!componentOf.has(next.marketId)) {
+          componentOf.set(next.marketId, index);
+          stack.push(next.marketId);
+        }
+      }
+    }
+    components.push(members.sort((a, b) => a - b));
+  }
+
+  const linksByComponent = components.map(() => [] as ClusterEdge[]);
+  for (const edge of confirmed) {
+    linksByComponent[componentOf.get(edge.left.id)!].push(edge);
+  }
+
+  const rejectedByComponent = components.map(() => [] as ClusterEdge[]);
+  for (const edge of edges) {
+    if (edge.status !== 'rejected') continue;
+    const left = componentOf.get(edge.left.id);
+    if (left !== undefined && left === componentOf.get(edge.right.id)) {
+      rejectedByComponent[left].push(edge);
+    }
+  }
+
+  return components.map((memberIds, i) => {
+    const links = linksByComponent[i];
+    const conflicts: ClusterConflict[] = [];
+
+    for (const rejected of rejectedByComponent[i]) {
+      conflicts.push({
+        type: 'rejected_pair',
+        linkId: rejected.linkId,
+        marketIds: [rejected.left.id, rejected.right.id],
+        path: findLinkPath(adjacency, rejected.left.id, rejected.right.id),
+      });
+    }
+
+    const byVenue = new Map<Venue, number[]>();
+    for (const id of memberIds) {
+      const venue = markets.get(id)!.venue;
+      byVenue.set(venue, [...(byVenue.get(venue) ?? []), id]);
+    }
+    for (const [venue, ids] of byVenue) {
+      if (ids.length > 1) conflicts.push({ type: 'same_venue', venue, marketIds: ids });
+    }
+
+    return {
+      key: `m${memberIds[0]}`,
+      topic: mostCommon(links.map((l) => l.topic)),
+      title: markets.get(hub(memberIds, adjacency))!.title,
+      members: memberIds.map((id) => ({ marketId: id, venue: markets.get(id)!.venue })),
+      venues: [...byVenue.keys()].sort(),
+      linkIds: links.map((l) => l.linkId).sort((a, b) => a - b),
+      conflicts,
+    };
+  });
+}
+
+/**
+ * Confirmed link ids on a shortest path between two markets (BFS)
+ */
+function findLinkPath(
+  adjacency: Map<number, Array<{ marketId: number; linkId: number }>>,
+  from: number,
+  to: number
+): number[] {
+  const via = new Map<number, { prev: number; linkId: number }>();
+  const queue = [from];
+  const seen = new Set([from]);
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (id === to) break;
+    for (const next of adjacency.get(id) ?? []) {
+      if (seen.has(next.marketId)) continue;
+      seen.add(next.marketId);
+      via.set(next.marketId, { prev: id, linkId: next.linkId });
+      queue.push(next.marketId);
+    }
+  }
+
+  const path: number[] = [];
+  for (let id = to; via.has(id); id = via.get(id)!.prev) {
+    path.unshift(via.get(id)!.linkId);
+  }
+  return path;
+}
+
+/** Member with the most confirmed links (lowest id on ties) */
+function hub(memberIds: number[], adjacency: Map<number, unknown[]>): number {
+  return memberIds.reduce((best, id) =>
+    (adjacency.get(id)?.length ?? 0) > (adjacency.get(best)?.length ?? 0) ? id : best
+  );
+}
+
+function mostCommon(values: Array<string | null>): string | null {
+  const counts = new Map<string, number>();
+  for (const v of values) {
+    if (v) counts.set(v, (counts.get(v) ?? 0) + 1);
+  }
+  let best: string | null = null;
+  for (const [value, count] of counts) {
+    if (best === null || count > counts.get(best)!) best = value;
+  }
+  return best;
+}
+
+/**
+ * Totals for logging
+ */
+export function summarizeClusters(clusters: DerivedCluster[]): ClusterBuildSummary {
+  const summary: ClusterBuildSummary = { clusters: clusters.length, members: 0, conflicts: 0, multiVenue: 0, byVenueCount: {} };
+  for (const c of clusters) {
+    summary.members += c.members.length;
+    if (c.conflicts.length > 0) summary.conflicts++;
+    if (c.venues.length >= 3) summary.multiVenue++;
+    summary.byVenueCount[c.venues.length] = (summary.byVenueCount[c.venues.length] ?? 0) + 1;
+  }
+  return summary;
+}
@@ -0,0 +1,85 @@
+/**
+ * Tests for incremental matching (v3.2.0)
+ *
+ * Run: npx tsx --test services/worker/src/matching/incremental.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { splitByChanged, seedCandidates, watermarkMismatch, changedSinceWatermark } from './incremental.js';
+
+const m = (id: number) => ({ market: { id } });
+
+describe('splitByChanged', () => {
+  it('splits left markets and keeps only changed right markets', () => {
+    const split = splitByChanged([m(1), m(2), m(3)], [m(10), m(11)], new Set([2, 11]));
+    assert.deepStrictEqual(split.changedLeft.map((x) => x.market.id), [2]);
+    assert.deepStrictEqual(split.unchangedLeft.map((x) => x.market.id), [1, 3]);
+    assert.deepStrictEqual(split.changedRight.map((x) => x.market.id), [11]);
+  });
+
+  it('covers each pair with a changed side exactly once', () => {
+    const left = [m(1), m(2), m(3)];
+    const right = [m(10), m(11), m(12)];
+    const changed = new Set([1, 12]);
+    const split = splitByChanged(left, right, changed);
+
+    // Same passes the engine builds: changed left x all right, unchanged left x changed right
+    const pairs: string[] = [];
+    for (const l of split.changedLeft) for (const r of right) pairs.push(`${l.market.id}-${r.market.id}`);
+    for (const l of split.unchangedLeft) for (const r of split.changedRight) pairs.push(`${l.market.id}-${r.market.id}`);
+
+    const expected: string[] = [];
+    for (const l of left) {
+      for (const r of right) {
+        if (changed.has(l.market.id) || changed.has(r.market.id)) expected.push(`${l.market.id}-${r.market.id}`);
+      }
+    }
+    assert.deepStrictEqual(pairs.sort(), expected.sort());
+    assert.strictEqual(new Set(pairs).size, pairs.length);
+  });
+});
+
+describe('seedCandidates', () => {
+  it('keeps stored pairs with no changed side whose markets are in the run', () => {
+    const stored = [
+      { leftMarketId: 1, rightMarketId: 10, score: 0.95, reason: 'stored' },
+      { leftMarketId: 2, rightMarketId: 10, score: 0.9, reason: null }, // left changed: rescored this run
+      { leftMarketId: 3, rightMarketId: 99, score: 0.9, reason: null }, // right no longer fetched
+    ];
+    const seeds = seedCandidates(stored, [m(1), m(2), m(3)], [m(10), m(11)], new Set([2]));
+    assert.deepStrictEqual(seeds.map((s) => [s.left.market.id, s.right.market.id, s.score.score]), [[1, 10, 0.95]]);
+  });
+
+  it("lets an unchanged market's better match win the per-side cap", () => {
+    // Right market 10 is unchanged and already matched to left 1 (0.95); left 2 changed and scores 0.9
+    const changed = new Set([2]);
+    const rescored = [{ left: m(2), right: m(10), score: { score: 0.9, reason: '', tier: 'WEAK' as const } }];
+    const seeds = seedCandidates([{ leftMarketId: 1, rightMarketId: 10, score: 0.95, reason: null }], [m(1), m(2)], [m(10)], changed);
+
+    const capped = [...rescored, ...seeds]
+      .sort((a, b) => b.score.score - a.score.score)
+      .filter((c, i, all) => all.findIndex((x) => x.right.market.id === c.right.market.id) === i);
+    const written = capped.filter((c) => !seeds.includes(c));
+    assert.deepStrictEqual(written, []);
+  });
+});
+
+describe('watermarkMismatch', () => {
+  it('ignores watermarks set with another algoVersion or minScore', () => {
+    const watermark = { algoVersion: 'crypto_daily@3.0.0', minScore: 0.6 };
+    assert.strictEqual(watermarkMismatch(watermark, 'crypto_daily@3.0.0', 0.6), null);
+    assert.match(watermarkMismatch(watermark, 'crypto_daily@3.1.0', 0.6)!, /algoVersion/);
+    assert.match(watermarkMismatch(watermark, 'crypto_daily@3.0.0', 0.5)!, /minScore/);
+    // Rows from before the watermark recorded its scope
+    assert.match(watermarkMismatch({ algoVersion: null, minScore: null }, 'crypto_daily@3.0.0', 0.6)!, /algoVersion/);
+  });
+});
+
+describe('changedSinceWatermark', () => {
+  it('counts markets the last run did not cover as changed', () => {
+    // 1: content changed; 4: new to the candidate set (reclassified, or inside the lookback/limit now)
+    const changed = changedSinceWatermark([1, 2, 3, 4], new Set([1]), [1, 2, 3, 9]);
+    assert.deepStrictEqual([...changed], [1, 4]);
+  });
+});
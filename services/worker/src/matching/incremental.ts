@@ -0,0 +1,114 @@
+/**
+ * Incremental matching (v3.2.0)
+ *
+ * With a watermark from the last successful run, only pairs where at least
+ * one side was created or updated since then are rescored:
+ *
+ *   changed left   x  index of all right markets
+ *   unchanged left x  index of changed right markets
+ *
+ * Every other pair scored the same last time, so its link is left alone.
+ * "Changed" is by content (markets.content_changed_at, which only moves
+ * when a field matching reads changes), not by updated_at, which every
+ * markets sync rewrites.
+ *
+ * Markets the watermark's run did not cover (reclassified into the topic,
+ * newly inside the lookback window or fetch limit) also count as changed.
+ * A watermark set with another algoVersion or minScore is ignored, so the
+ * run is full.
+ *
+ * Dedup caps compare a market's candidates with each other, so the stored
+ * links of pairs with no changed side are fed to dedup alongside the
+ * rescored pairs (see seedCandidates).
+ */
+
+import type { MatchingWatermarkState } from '@data-module/db';
+import type { ScoredCandidate } from './engineV3.types.js';
+
+/**
+ * Why a stored watermark can't be used for this run, or null when it can
+ */
+export function watermarkMismatch(
+  watermark: Pick<MatchingWatermarkState, 'algoVersion' | 'minScore'>,
+  algoVersion: string,
+  minScore: number
+): string | null {
+  if (watermark.algoVersion !== algoVersion) {
+    return `watermark algoVersion ${watermark.algoVersion ?? '(none)'} != ${algoVersion}`;
+  }
+  if (watermark.minScore === null || Math.abs(watermark.minScore - minScore) > 1e-9) {
+    return `watermark minScore ${watermark.minScore ?? '(none)'} != ${minScore}`;
+  }
+  return null;
+}
+
+/**
+ * Markets to rescore: content changed since the watermark, or not covered by its run
+ */
+export function changedSinceWatermark(
+  ids: number[],
+  contentChanged: ReadonlySet<number>,
+  coveredIds: readonly number[]
+): Set<number> {
+  const covered = new Set(coveredIds);
+  return new Set(ids.filter((id) => contentChanged.has(id) || !covered.has(id)));
+}
+
+export interface IncrementalSplit<T> {
+  changedLeft: T[];
+  unchangedLeft: T[];
+  changedRight: T[];
+}
+
+export function splitByChanged<T extends { market: { id: number } }>(
+  left: T[],
+  right: T[],
+  changedIds: Set<number>
+): IncrementalSplit<T> {
+  const changedLeft: T[] = [];
+  const unchangedLeft: T[] = [];
+  for (const m of left) {
+    (changedIds.has(m.market.id) ? changedLeft : unchangedLeft).push(m);
+  }
+  return {
+    changedLeft,
+    unchangedLeft,
+    changedRight: right.filter((m) => changedIds.has(m.market.id)),
+  };
+}
+
+/**
+ * Stored score of a matched pair (MarketLinkRepository.getPairScores)
+ */
+export interface StoredPairScore {
+  leftMarketId: number;
+  rightMarketId: number;
+  score: number;
+  reason: string | null;
+}
+
+/**
+ * Stand-in candidates for stored links whose pair was not rescored (neither
+ * side changed) and whose markets are still in this run. They only compete
+ * in dedup; the engine drops them from its output since their links are
+ * already current. Only the score is meaningful (dedup reads nothing else).
+ */
+export function seedCandidates<T extends { market: { id: number } }>(
+  stored: StoredPairScore[],
+  left: T[],
+  right: T[],
+  changedIds: Set<number>
+): ScoredCandidate<T>[] {
+  const leftById = new Map(left.map((m): [number, T] => [m.market.id, m]));
+  const rightById = new Map(right.map((m): [number, T] => [m.market.id, m]));
+
+  const seeds: ScoredCandidate<T>[] = [];
+  for (const pair of stored) {
+    if (changedIds.has(pair.leftMarketId) || changedIds.has(pair.rightMarketId)) continue;
+    const l = leftById.get(pair.leftMarketId);
+    const r = rightById.get(pair.rightMarketId);
+    if (!l || !r) continue;
+    seeds.push({ left: l, right: r, score: { score: pair.score, reason: pair.reason ?? '', tier: 'WEAK' } });
+  }
+  return seeds;
+}
@@ -310,3 +310,57 @@ export {
   type FinanceMarket,
   type FinanceScoreResult,
 } from './pipelines/index.js';
+
+// Matching evaluation harness (v3.2.0)
+export {
+  parseGroundTruthCsv,
+  labelFor,
+  createInMemoryMarketRepo,
+  evaluatePairs,
+  computeEvalReport,
+  diffEvalReports,
+  scoreBucket,
+  SCORE_BUCKETS,
+  type GroundTruthMatchType,
+  type SimilarEventPolicy,
+  type EvalMarket,
+  type LabeledPair,
+  type PipelineVerdict,
+  type PairEvalResult,
+  type MatchingEvalReport,
+  type MatchingEvalDiff,
+  type MetricDelta,
+  type TopicEvalMetrics,
+} from './matchingEval.js';
+
+// Event clusters (v3.2.0)
+export {
+  buildEventClusters,
+  summarizeClusters,
+  type ClusterEdge,
+  type ClusterMarket,
+  type ClusterConflict,
+  type DerivedCluster,
+  type ClusterBuildSummary,
+} from './eventClusters.js';
+
+// Bracket / ladder equivalence (v3.2.0)
+export {
+  parseBracketLabel,
+  normalizeUpperBound,
+  rangesEqual,
+  formatRange,
+  cryptoBracketRange,
+  cryptoEventKey,
+  buildCryptoLadders,
+  findReplication,
+  replicationPayout,
+  mapBracketLadders,
+  replicationLegsKey,
+  type ValueRange,
+  type BracketLeg,
+  type ReplicationKind,
+  type Replication,
+  type BracketEquivalence,
+  type BracketMappingOptions,
+} from './bracketEquivalence.js';
@@ -0,0 +1,102 @@
+/**
+ * Tests for link rollback planning (v3.2.0)
+ *
+ * Run: npx tsx --test services/worker/src/matching/link-rollback.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import type { LinkStatus, MarketLinkEvent } from '@data-module/db';
+import { planRollback, type LinkState } from './link-rollback.js';
+
+function event(
+  id: number,
+  linkId: number,
+  fromStatus: LinkStatus | null,
+  toStatus: LinkStatus,
+  extra: Partial<MarketLinkEvent> = {}
+): MarketLinkEvent {
+  return {
+    id,
+    linkId,
+    fromStatus,
+    toStatus,
+    fromReason: fromStatus ? `reason-before-${id}` : null,
+    toReason: `reason-after-${id}`,
+    fromScore: fromStatus ? 0.8 : null,
+    toScore: 0.9,
+    algoVersion: 'v3@3.2.0',
+    actorType: 'user',
+    actorId: 'alice',
+    source: 'review-server',
+    rollbackOfId: null,
+    createdAt: new Date(0),
+    ...extra,
+  };
+}
+
+function state(id: number, status: LinkStatus): [number, LinkState] {
+  return [id, { id, status, reason: null, score: 0.9 }];
+}
+
+describe('planRollback', () => {
+  it('restores status, reason and score from before the first event in range', () => {
+    const selected = [event(10, 1, 'suggested', 'confirmed'), event(12, 1, 'confirmed', 'rejected')];
+    const plan = planRollback(selected, selected, new Map([state(1, 'rejected')]));
+
+    assert.strictEqual(plan.skipped.length, 0);
+    assert.deepStrictEqual(plan.actions, [
+      {
+        linkId: 1,
+        fromStatus: 'rejected',
+        toStatus: 'suggested',
+        reason: 'reason-before-10',
+        score: 0.8,
+        revertsEventId: 10,
+        eventCount: 2,
+      },
+    ]);
+  });
+
+  it('sends links created in the range back to suggested', () => {
+    const selected = [event(5, 2, null, 'confirmed', { actorType: 'rule', actorId: 'SAFE_RULES' })];
+    const plan = planRollback(selected, selected, new Map([state(2, 'confirmed')]));
+
+    assert.strictEqual(plan.actions[0].toStatus, 'suggested');
+    assert.strictEqual(plan.actions[0].reason, 'reason-after-5');
+    assert.strictEqual(plan.actions[0].score, 0.9);
+  });
+
+  it('skips links changed outside the range unless forced', () => {
+    const selected = [event(10, 1, 'suggested', 'confirmed')];
+    const later = event(20, 1, 'confirmed', 'rejected', { actorId: 'bob' });
+    const links = new Map([state(1, 'rejected')]);
+
+    const plan = planRollback(selected, [...selected, later], links);
+    assert.strictEqual(plan.actions.length, 0);
+    assert.match(plan.skipped[0].reason, /event #20 \(user:bob\)/);
+
+    const forced = planRollback(selected, [...selected, later], links, true);
+    assert.strictEqual(forced.actions[0].toStatus, 'suggested');
+  });
+
+  it('skips links whose status no longer matches the log, deleted links and no-ops', () => {
+    const selected = [
+      event(1, 1, 'suggested', 'confirmed'),
+      event(2, 2, 'suggested', 'confirmed'),
+      event(3, 3, 'suggested', 'confirmed'),
+      event(4, 3, 'confirmed', 'suggested'),
+    ];
+    const plan = planRollback(selected, selected, new Map([state(1, 'rejected'), state(3, 'suggested')]));
+
+    assert.strictEqual(plan.actions.length, 0);
+    assert.deepStrictEqual(
+      plan.skipped.map((s) => [s.linkId, s.reason]),
+      [
+        [1, 'status is rejected, log says confirmed'],
+        [2, 'link no longer exists'],
+        [3, 'already suggested'],
+      ]
+    );
+  });
+});
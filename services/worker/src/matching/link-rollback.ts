@@ -0,0 +1,127 @@
+/**
+ * Link rollback (v3.2.0)
+ *
+ * Reverts a range of market_link_events: every affected link goes back to
+ * its state before its first event in the range. A link is skipped when
+ * something outside the range changed it afterwards (a later review, another
+ * auto-confirm run) or its current status no longer matches the log, unless
+ * forced. Reverts go through MarketLinkRepository.transition, so they are
+ * logged as events themselves and can be rolled back in turn.
+ */
+
+import type { LinkActor, LinkStatus, MarketLink, MarketLinkEvent, MarketLinkRepository } from '@data-module/db';
+
+export type LinkState = Pick<MarketLink, 'id' | 'status' | 'reason' | 'score'>;
+
+export interface RollbackAction {
+  linkId: number;
+  fromStatus: LinkStatus;
+  toStatus: LinkStatus;
+  reason: string | null;
+  score: number;
+  /** First event of the range for this link */
+  revertsEventId: number;
+  /** Events of the range for this link */
+  eventCount: number;
+}
+
+export interface RollbackSkip {
+  linkId: number;
+  reason: string;
+}
+
+export interface RollbackPlan {
+  actions: RollbackAction[];
+  skipped: RollbackSkip[];
+}
+
+/**
+ * Decide what to revert
+ *
+ * @param selected - Events in the range, oldest first
+ * @param linkEvents - All events of the affected links from the first selected event on
+ * @param links - Current state of the affected links (deleted links are absent)
+ * @param force - Revert even when later changes would be overwritten
+ */
+export function planRollback(
+  selected: MarketLinkEvent[],
+  linkEvents: MarketLinkEvent[],
+  links: Map<number, LinkState>,
+  force = false
+): RollbackPlan {
+  const selectedIds = new Set(selected.map((e) => e.id));
+  const byLink = new Map<number, MarketLinkEvent[]>();
+  for (const e of selected) {
+    if (!byLink.has(e.linkId)) byLink.set(e.linkId, []);
+    byLink.get(e.linkId)!.push(e);
+  }
+
+  const plan: RollbackPlan = { actions: [], skipped: [] };
+  for (const [linkId, events] of byLink) {
+    const first = events[0];
+    const last = events[events.length - 1];
+    const link = links.get(linkId);
+    if (!link) {
+      plan.skipped.push({ linkId, reason: 'link no longer exists' });
+      continue;
+    }
+
+    if (!force) {
+      const outside = linkEvents.find((e) => e.linkId === linkId && e.id > first.id && !selectedIds.has(e.id));
+      if (outside) {
+        plan.skipped.push({ linkId, reason: `changed outside the range by event #${outside.id} (${outside.actorType}:${outside.actorId})` });
+        continue;
+      }
+      if (link.status !== last.toStatus) {
+        plan.skipped.push({ linkId, reason: `status is ${link.status}, log says ${last.toStatus}` });
+        continue;
+      }
+    }
+
+    // A link created in the range goes back to review rather than being deleted
+    const created = first.fromStatus === null;
+    const toStatus = first.fromStatus ?? 'suggested';
+    if (link.status === toStatus) {
+      plan.skipped.push({ linkId, reason: `already ${toStatus}` });
+      continue;
+    }
+
+    plan.actions.push({
+      linkId,
+      fromStatus: link.status,
+      toStatus,
+      reason: created ? first.toReason : first.fromReason,
+      score: first.fromScore ?? first.toScore,
+      revertsEventId: first.id,
+      eventCount: events.length,
+    });
+  }
+
+  return plan;
+}
+
+export interface RollbackResult {
+  applied: number;
+  failed: Array<{ linkId: number; error: string }>;
+}
+
+export async function applyRollback(
+  linkRepo: MarketLinkRepository,
+  plan: RollbackPlan,
+  actor: LinkActor
+): Promise<RollbackResult> {
+  const result: RollbackResult = { applied: 0, failed: [] };
+  for (const action of plan.actions) {
+    try {
+      await linkRepo.transition(
+        action.linkId,
+        { status: action.toStatus, reason: action.reason, score: action.score, rollbackOfId: action.revertsEventId },
+        actor
+      );
+      result.applied++;
+    } catch (err) {
+      result.failed.push({ linkId: action.linkId, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  return result;
+}
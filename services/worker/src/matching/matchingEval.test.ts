@@ -0,0 +1,195 @@
+/**
+ * Tests for the matching evaluation harness (v3.2.0)
+ *
+ * Run: npx tsx --test services/worker/src/matching/matchingEval.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { CanonicalTopic } from '@data-module/core';
+import {
+  parseGroundTruthCsv,
+  evaluatePairs,
+  computeEvalReport,
+  diffEvalReports,
+  scoreBucket,
+  type LabeledPair,
+  type PairEvalResult,
+  type PipelineVerdict,
+  type EvalMarket,
+} from './matchingEval.js';
+import { BasePipeline } from './pipelines/basePipeline.js';
+import type { MarketRepository } from '@data-module/db';
+import type { BaseSignals, BaseScoreResult, FetchOptions, HardGateResult, MarketWithSignals } from './engineV3.types.js';
+
+interface WordSignals extends BaseSignals {
+  words: Set<string>;
+}
+
+type WordMarket = MarketWithSignals<WordSignals>;
+
+/** Jaccard over title words; only claims titles mentioning "bitcoin" */
+class WordPipeline extends BasePipeline<WordMarket, WordSignals, BaseScoreResult> {
+  readonly topic = CanonicalTopic.CRYPTO_DAILY;
+  readonly algoVersion = 'words@1.0.0';
+  readonly description = 'test';
+  readonly supportsAutoConfirm = false;
+  readonly supportsAutoReject = false;
+
+  async fetchMarkets(repo: MarketRepository, options: FetchOptions): Promise<WordMarket[]> {
+    const markets = await repo.listEligibleMarkets(options.venue, { titleKeywords: ['bitcoin'] });
+    return markets.map((market) => ({
+      market,
+      signals: { words: new Set(market.title.toLowerCase().split(/\W+/).filter(Boolean)) },
+    }));
+  }
+
+  buildIndex(markets: WordMarket[]): Map<string, WordMarket[]> {
+    return new Map([['all', markets]]);
+  }
+
+  findCandidates(_market: WordMarket, index: Map<string, WordMarket[]>): WordMarket[] {
+    return index.get('all') ?? [];
+  }
+
+  checkHardGates(left: WordMarket, right: WordMarket): HardGateResult {
+    const passed = left.signals.words.has('2026') === right.signals.words.has('2026');
+    return { passed, failReason: passed ? null : 'year mismatch' };
+  }
+
+  score(left: WordMarket, right: WordMarket): BaseScoreResult {
+    const shared = [...left.signals.words].filter((w) => right.signals.words.has(w)).length;
+    const score = shared / new Set([...left.signals.words, ...right.signals.words]).size;
+    return { score, reason: `shared=${shared}`, tier: 'WEAK' };
+  }
+}
+
+function market(id: number, venue: 'polymarket' | 'kalshi', title: string): EvalMarket {
+  return { id, title, category: null, status: 'active', closeTime: null, venue };
+}
+
+function pair(key: string, matchType: LabeledPair['matchType'], left: string, right: string, id: number): LabeledPair {
+  return {
+    key,
+    source: 'db',
+    matchType,
+    labelTopic: null,
+    left: market(id, 'polymarket', left),
+    right: market(id + 1, 'kalshi', right),
+  };
+}
+
+function verdict(predicted: boolean, score: number | null, outcome: PipelineVerdict['outcome'] = 'scored'): PipelineVerdict {
+  return { topic: 'RATES', algoVersion: 'rates@1', outcome, score, minScore: 0.6, predicted, reason: null };
+}
+
+describe('parseGroundTruthCsv', () => {
+  it('parses rows, quoted fields and resolves topics', () => {
+    const csv = [
+      'category,subcategory,polymarket_title,kalshi_title,match_type,notes',
+      'Crypto,BTC,"Bitcoin above $100,000?",BTC above 100k,SAME_EVENT,"say ""yes"""',
+      '',
+      'Crypto,BTC,Bitcoin up or down?,BTC 15 minutes,similar_event,',
+    ].join('\n');
+    const pairs = parseGroundTruthCsv(csv, (c) => (c === 'Crypto' ? 'CRYPTO_DAILY' : null));
+
+    assert.strictEqual(pairs.length, 2);
+    assert.strictEqual(pairs[0].key, 'csv:2');
+    assert.strictEqual(pairs[0].left.title, 'Bitcoin above $100,000?');
+    assert.strictEqual(pairs[0].left.venue, 'polymarket');
+    assert.strictEqual(pairs[0].right.venue, 'kalshi');
+    assert.strictEqual(pairs[0].notes, 'say "yes"');
+    assert.strictEqual(pairs[0].labelTopic, 'CRYPTO_DAILY');
+    assert.ok(pairs[0].left.id < 0 && pairs[0].left.id !== pairs[0].right.id);
+    assert.strictEqual(pairs[1].key, 'csv:4');
+    assert.strictEqual(pairs[1].matchType, 'SIMILAR_EVENT');
+  });
+
+  it('rejects unknown match types and missing columns', () => {
+    assert.throws(
+      () => parseGroundTruthCsv('category,polymarket_title,kalshi_title,match_type\nX,a,b,MAYBE'),
+      /line 2: unknown match_type "MAYBE"/
+    );
+    assert.throws(() => parseGroundTruthCsv('category,polymarket_title,match_type\n'), /kalshi_title/);
+  });
+});
+
+describe('evaluatePairs', () => {
+  it('replays fetch filter, gates, score and minScore per pipeline', async () => {
+    const pairs = [
+      pair('a', 'SAME_EVENT', 'Bitcoin above 100k on Friday', 'Bitcoin above 100k Friday', 10),
+      pair('b', 'DIFFERENT', 'Bitcoin above 100k in 2026', 'Bitcoin above 100k', 20),
+      pair('c', 'DIFFERENT', 'Bitcoin above 100k', 'Ethereum above 5k', 30),
+      pair('d', 'SAME_EVENT', 'Bitcoin price Friday', 'Bitcoin ends week higher', 40),
+    ];
+    const [a, b, c, d] = await evaluatePairs([new WordPipeline()], pairs);
+
+    assert.deepStrictEqual([a.verdicts[0].outcome, a.verdicts[0].predicted], ['scored', true]);
+    assert.deepStrictEqual([b.verdicts[0].outcome, b.verdicts[0].reason], ['gated', 'year mismatch']);
+    assert.strictEqual(c.verdicts[0].outcome, 'unclaimed');
+    assert.strictEqual(d.verdicts[0].outcome, 'scored');
+    assert.strictEqual(d.verdicts[0].predicted, false);
+    assert.strictEqual(d.verdicts[0].minScore, 0.6);
+
+    const lowered = await evaluatePairs([new WordPipeline()], pairs, { minScore: 0.1 });
+    assert.strictEqual(lowered[3].verdicts[0].predicted, true);
+  });
+});
+
+describe('computeEvalReport', () => {
+  const results: PairEvalResult[] = [
+    { pair: pair('tp', 'SAME_EVENT', 'l', 'r', 1), verdicts: [verdict(true, 0.95)] },
+    { pair: pair('fp', 'DIFFERENT', 'l', 'r', 3), verdicts: [verdict(true, 0.65)] },
+    { pair: pair('fn', 'SAME_EVENT', 'l', 'r', 5), verdicts: [verdict(false, 0.4)] },
+    { pair: pair('tn', 'DIFFERENT', 'l', 'r', 7), verdicts: [verdict(false, null, 'gated')] },
+    { pair: pair('miss', 'SAME_EVENT', 'l', 'r', 9), verdicts: [verdict(false, null, 'unclaimed')] },
+    { pair: pair('sim', 'SIMILAR_EVENT', 'l', 'r', 11), verdicts: [verdict(true, 0.85)] },
+  ];
+
+  it('computes per-topic and overall precision / recall / F1', () => {
+    const report = computeEvalReport(results);
+    const rates = report.topics[0];
+
+    assert.deepStrictEqual([rates.claimed, rates.tp, rates.fp, rates.fn, rates.tn], [5, 1, 2, 1, 1]);
+    assert.strictEqual(rates.precision, 1 / 3);
+    assert.strictEqual(rates.recall, 0.5);
+    assert.ok(Math.abs(rates.f1! - 0.4) < 1e-9);
+
+    // Unclaimed positive is still a miss overall
+    assert.deepStrictEqual([report.overall.tp, report.overall.fn, report.overall.unclaimedPositives], [1, 2, 1]);
+    assert.strictEqual(report.overall.recall, 1 / 3);
+    assert.deepStrictEqual(report.labels, { csv: 0, db: 6, positives: 3, negatives: 3, excluded: 0 });
+  });
+
+  it('buckets scores and honours the SIMILAR_EVENT policy', () => {
+    const report = computeEvalReport(results, 'exclude');
+    assert.strictEqual(report.labels.excluded, 1);
+    assert.deepStrictEqual(
+      report.topics[0].buckets.map((b) => [b.bucket, b.positives, b.negatives]),
+      [['0.9+', 1, 0], ['0.6-0.7', 0, 1], ['<0.6', 1, 0], ['gated', 0, 1]]
+    );
+
+    assert.strictEqual(computeEvalReport(results, 'positive').topics[0].tp, 2);
+    assert.strictEqual(scoreBucket(0.8), '0.8-0.9');
+  });
+});
+
+describe('diffEvalReports', () => {
+  it('reports metric deltas and flipped pairs', () => {
+    const base: PairEvalResult[] = [
+      { pair: pair('x', 'SAME_EVENT', 'l', 'r', 1), verdicts: [verdict(false, 0.5)] },
+      { pair: pair('y', 'DIFFERENT', 'l', 'r', 3), verdicts: [verdict(false, 0.5)] },
+    ];
+    const next: PairEvalResult[] = [
+      { pair: base[0].pair, verdicts: [{ ...verdict(true, 0.7), algoVersion: 'rates@2' }] },
+      { pair: base[1].pair, verdicts: [{ ...verdict(true, 0.7), algoVersion: 'rates@2' }] },
+    ];
+    const diff = diffEvalReports(computeEvalReport(base), computeEvalReport(next));
+
+    assert.strictEqual(diff.topics[0].baselineAlgoVersion, 'rates@1');
+    assert.strictEqual(diff.topics[0].currentAlgoVersion, 'rates@2');
+    assert.deepStrictEqual(diff.topics[0].recall, { baseline: 0, current: 1, delta: 1 });
+    assert.deepStrictEqual(diff.fixed.map((f) => f.key), ['x']);
+    assert.deepStrictEqual(diff.regressed.map((f) => f.key), ['y']);
+  });
+});
@@ -0,0 +1,565 @@
+/**
+ * Matching Evaluation Harness (v3.2.0)
+ *
+ * Replays labeled market pairs through registered TopicPipelines without a
+ * database and scores the outcome against the labels:
+ * - Labels come from ground-truth-pairs.csv (SAME_EVENT / SIMILAR_EVENT /
+ *   DIFFERENT) and from reviewed links (confirmed = same, rejected = different)
+ * - Each pipeline sees the pair exactly as engineV3 would: its own
+ *   fetchMarkets filter, findCandidates, hard gates, score and minScore
+ * - Reports precision / recall / F1 per topic and per score bucket, and diffs
+ *   two saved reports so scorer changes ship with a regression report
+ */
+
+import { CanonicalTopic } from '@data-module/core';
+import type { MarketRepository, EligibleMarket, Venue } from '@data-module/db';
+import type { TopicPipeline } from './pipelines/basePipeline.js';
+import { DEFAULT_MIN_SCORES } from './engineV3.types.js';
+
+export type GroundTruthMatchType = 'SAME_EVENT' | 'SIMILAR_EVENT' | 'DIFFERENT';
+
+/** How SIMILAR_EVENT labels count: related but not the same event by default */
+export type SimilarEventPolicy = 'negative' | 'positive' | 'exclude';
+
+/**
+ * Market as seen by the harness (derivedTopic feeds listMarketsByDerivedTopic)
+ */
+export interface EvalMarket extends EligibleMarket {
+  derivedTopic?: string | null;
+}
+
+export interface LabeledPair {
+  /** Stable key across runs (csv:<line> or link:<id>) */
+  key: string;
+  source: 'csv' | 'db';
+  matchType: GroundTruthMatchType;
+  /** Topic the label was filed under (CSV category or link topic) */
+  labelTopic: string | null;
+  left: EvalMarket;
+  right: EvalMarket;
+  notes?: string;
+}
+
+export type PipelineOutcome = 'unclaimed' | 'no-candidate' | 'gated' | 'unscored' | 'scored';
+
+/**
+ * What one pipeline decided for one pair
+ */
+export interface PipelineVerdict {
+  topic: string;
+  algoVersion: string;
+  /** unclaimed = the pipeline's fetch filter dropped either market */
+  outcome: PipelineOutcome;
+  score: number | null;
+  minScore: number;
+  predicted: boolean;
+  reason: string | null;
+}
+
+export interface PairEvalResult {
+  pair: LabeledPair;
+  verdicts: PipelineVerdict[];
+}
+
+export interface EvaluatePairsOptions {
+  /** Override the per-topic minScore (default: DEFAULT_MIN_SCORES, 0.60 fallback like engineV3) */
+  minScore?: number;
+}
+
+export const SCORE_BUCKETS = ['0.9+', '0.8-0.9', '0.7-0.8', '0.6-0.7', '<0.6', 'gated'] as const;
+export type ScoreBucket = (typeof SCORE_BUCKETS)[number];
+
+export interface ConfusionCounts {
+  tp: number;
+  fp: number;
+  fn: number;
+  tn: number;
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+}
+
+export interface BucketEvalMetrics {
+  bucket: ScoreBucket;
+  positives: number;
+  negatives: number;
+  /** Share of labeled pairs in the bucket that are true matches */
+  precision: number | null;
+}
+
+export interface TopicEvalMetrics extends ConfusionCounts {
+  topic: string;
+  algoVersion: string;
+  /** Labeled pairs where the pipeline accepted both markets */
+  claimed: number;
+  buckets: BucketEvalMetrics[];
+}
+
+export interface PairEvalSummary {
+  key: string;
+  source: LabeledPair['source'];
+  matchType: GroundTruthMatchType;
+  label: boolean;
+  /** Any pipeline would suggest the pair */
+  predicted: boolean;
+  bestTopic: string | null;
+  bestScore: number | null;
+  leftTitle: string;
+  rightTitle: string;
+}
+
+export interface MatchingEvalReport {
+  generatedAt: string;
+  similarAs: SimilarEventPolicy;
+  labels: { csv: number; db: number; positives: number; negatives: number; excluded: number };
+  topics: TopicEvalMetrics[];
+  /** Pair-level result across all pipelines; unclaimed positives count as misses */
+  overall: ConfusionCounts & { unclaimedPositives: number };
+  pairs: PairEvalSummary[];
+}
+
+export interface MetricDelta {
+  baseline: number | null;
+  current: number | null;
+  delta: number | null;
+}
+
+export interface TopicEvalDiff {
+  topic: string;
+  baselineAlgoVersion: string | null;
+  currentAlgoVersion: string | null;
+  precision: MetricDelta;
+  recall: MetricDelta;
+  f1: MetricDelta;
+}
+
+export interface PairFlip {
+  key: string;
+  label: boolean;
+  baselinePredicted: boolean;
+  currentPredicted: boolean;
+  leftTitle: string;
+  rightTitle: string;
+}
+
+export interface MatchingEvalDiff {
+  topics: TopicEvalDiff[];
+  overall: { precision: MetricDelta; recall: MetricDelta; f1: MetricDelta };
+  /** Pairs the current run now gets right */
+  fixed: PairFlip[];
+  /** Pairs the current run now gets wrong */
+  regressed: PairFlip[];
+}
+
+// ============================================================
+// Ground truth CSV
+// ============================================================
+
+const MATCH_TYPES: GroundTruthMatchType[] = ['SAME_EVENT', 'SIMILAR_EVENT', 'DIFFERENT'];
+
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      fields.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current);
+  return fields.map((f) => f.trim());
+}
+
+/**
+ * Parse ground-truth-pairs.csv
+ * Columns: category,subcategory,polymarket_title,kalshi_title,match_type,notes
+ *
+ * Titles become synthetic markets with negative ids (never collide with DB
+ * rows); the category doubles as label topic and Kalshi derivedTopic.
+ *
+ * @param resolveTopic - maps the CSV category to a canonical topic (e.g. parseTopicString)
+ */
+export function parseGroundTruthCsv(
+  text: string,
+  resolveTopic: (category: string) => string | null = () => null
+): LabeledPair[] {
+  const lines = text.split(/\r?\n/);
+  const header = splitCsvLine(lines[0] ?? '').map((h) => h.toLowerCase());
+  const col = (name: string): number => {
+    const idx = header.indexOf(name);
+    if (idx === -1) throw new Error(`ground truth CSV is missing column "${name}"`);
+    return idx;
+  };
+  const categoryCol = col('category');
+  const leftCol = col('polymarket_title');
+  const rightCol = col('kalshi_title');
+  const typeCol = col('match_type');
+  const notesCol = header.indexOf('notes');
+
+  const pairs: LabeledPair[] = [];
+  for (let i = 1; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    const fields = splitCsvLine(lines[i]);
+    const lineNo = i + 1;
+    const matchType = fields[typeCol]?.toUpperCase() as GroundTruthMatchType;
+    if (!MATCH_TYPES.includes(matchType)) {
+      throw new Error(`ground truth CSV line ${lineNo}: unknown match_type "${fields[typeCol] ?? ''}"`);
+    }
+
+    const category = fields[categoryCol] || null;
+    const topic = category ? resolveTopic(category) : null;
+    const market = (id: number, venue: Venue, title: string): EvalMarket => ({
+      id,
+      title,
+      category,
+      status: 'active',
+      closeTime: null,
+      venue,
+      metadata: null,
+      derivedTopic: topic,
+    });
+
+    pairs.push({
+      key: `csv:${lineNo}`,
+      source: 'csv',
+      matchType,
+      labelTopic: topic,
+      left: market(-(2 * lineNo), 'polymarket', fields[leftCol] ?? ''),
+      right: market(-(2 * lineNo + 1), 'kalshi', fields[rightCol] ?? ''),
+      notes: notesCol >= 0 ? fields[notesCol] || undefined : undefined,
+    });
+  }
+  return pairs;
+}
+
+export function labelFor(matchType: GroundTruthMatchType, similarAs: SimilarEventPolicy): boolean | null {
+  if (matchType === 'SAME_EVENT') return true;
+  if (matchType === 'DIFFERENT') return false;
+  if (similarAs === 'exclude') return null;
+  return similarAs === 'positive';
+}
+
+// ============================================================
+// Offline pipeline replay
+// ============================================================
+
+/**
+ * In-memory stand-in for the MarketRepository queries pipelines use.
+ * Keyword / regex / derivedTopic / MVE filters mirror the SQL; lookback and
+ * status are ignored because labeled pairs are often long closed.
+ */
+export function createInMemoryMarketRepo(markets: EvalMarket[]): MarketRepository {
+  const repo = {
+    async listEligibleMarkets(
+      venue: Venue,
+      options: { limit?: number; titleKeywords?: string[] } = {}
+    ): Promise<EligibleMarket[]> {
+      const keywords = options.titleKeywords?.map((kw) => kw.toLowerCase());
+      return markets
+        .filter((m) => m.venue === venue)
+        .filter((m) => !keywords?.length || keywords.some((kw) => m.title.toLowerCase().includes(kw)))
+        .slice(0, options.limit ?? markets.length);
+    },
+    async listEligibleMarketsCrypto(
+      venue: Venue,
+      options: { limit?: number; fullNameKeywords?: string[]; tickerPatterns?: string[] } = {}
+    ): Promise<EligibleMarket[]> {
+      const keywords = (options.fullNameKeywords ?? []).map((kw) => kw.toLowerCase());
+      const patterns = (options.tickerPatterns ?? []).map((p) => new RegExp(p, 'i'));
+      return markets
+        .filter((m) => m.venue === venue)
+        .filter(
+          (m) =>
+            keywords.some((kw) => m.title.toLowerCase().includes(kw)) ||
+            patterns.some((re) => re.test(m.title))
+        )
+        .slice(0, options.limit ?? markets.length);
+    },
+    async listMarketsByDerivedTopic(
+      topic: string,
+      options: { venue: Venue; limit?: number; excludeMve?: boolean }
+    ): Promise<EligibleMarket[]> {
+      return markets
+        .filter((m) => m.venue === options.venue && m.derivedTopic === topic)
+        .filter((m) => !options.excludeMve || !m.isMve)
+        .slice(0, options.limit ?? markets.length);
+    },
+  };
+  return repo as unknown as MarketRepository;
+}
+
+function uniqueMarkets(pairs: LabeledPair[]): EvalMarket[] {
+  const byId = new Map<number, EvalMarket>();
+  for (const pair of pairs) {
+    byId.set(pair.left.id, pair.left);
+    byId.set(pair.right.id, pair.right);
+  }
+  return [...byId.values()];
+}
+
+/**
+ * Run every pipeline over every labeled pair
+ */
+export async function evaluatePairs(
+  pipelines: TopicPipeline<any, any, any>[],
+  pairs: LabeledPair[],
+  options: EvaluatePairsOptions = {}
+): Promise<PairEvalResult[]> {
+  const markets = uniqueMarkets(pairs);
+  const repo = createInMemoryMarketRepo(markets);
+  const venues = [...new Set(markets.map((m) => m.venue))];
+  const results: PairEvalResult[] = pairs.map((pair) => ({ pair, verdicts: [] }));
+
+  for (const pipeline of pipelines) {
+    const minScore = options.minScore ?? (DEFAULT_MIN_SCORES[pipeline.topic] || 0.60);
+
+    // Markets the pipeline accepts, keyed by id
+    const accepted = new Map<number, any>();
+    for (const venue of venues) {
+      const fetched = await pipeline.fetchMarkets(repo, {
+        venue,
+        lookbackHours: 24 * 365 * 10,
+        limit: markets.length,
+        excludeSports: pipeline.topic !== CanonicalTopic.SPORTS,
+      });
+      for (const m of fetched) accepted.set(m.market.id, m);
+    }
+
+    for (const result of results) {
+      const { pair } = result;
+      const verdict: PipelineVerdict = {
+        topic: pipeline.topic,
+        algoVersion: pipeline.algoVersion,
+        outcome: 'unclaimed',
+        score: null,
+        minScore,
+        predicted: false,
+        reason: null,
+      };
+      result.verdicts.push(verdict);
+
+      const left = accepted.get(pair.left.id);
+      const right = accepted.get(pair.right.id);
+      if (!left || !right) continue;
+
+      const index = pipeline.buildIndex([right]);
+      if (!pipeline.findCandidates(left, index).includes(right)) {
+        verdict.outcome = 'no-candidate';
+        continue;
+      }
+
+      const gate = pipeline.checkHardGates(left, right);
+      if (!gate.passed) {
+        verdict.outcome = 'gated';
+        verdict.reason = gate.failReason;
+        continue;
+      }
+
+      const score = pipeline.score(left, right);
+      if (!score) {
+        verdict.outcome = 'unscored';
+        continue;
+      }
+
+      verdict.outcome = 'scored';
+      verdict.score = score.score;
+      verdict.reason = score.reason;
+      verdict.predicted = score.score >= minScore;
+    }
+  }
+
+  return results;
+}
+
+// ============================================================
+// Metrics
+// ============================================================
+
+export function scoreBucket(score: number | null): ScoreBucket {
+  if (score === null) return 'gated';
+  if (score >= 0.9) return '0.9+';
+  if (score >= 0.8) return '0.8-0.9';
+  if (score >= 0.7) return '0.7-0.8';
+  if (score >= 0.6) return '0.6-0.7';
+  return '<0.6';
+}
+
+function ratio(num: number, den: number): number | null {
+  return den > 0 ? num / den : null;
+}
+
+function finishCounts(tp: number, fp: number, fn: number, tn: number): ConfusionCounts {
+  const precision = ratio(tp, tp + fp);
+  const recall = ratio(tp, tp + fn);
+  const f1 =
+    precision === null || recall === null
+      ? null
+      : precision + recall === 0
+        ? 0
+        : (2 * precision * recall) / (precision + recall);
+  return { tp, fp, fn, tn, precision, recall, f1 };
+}
+
+function tally(counts: { tp: number; fp: number; fn: number; tn: number }, label: boolean, predicted: boolean): void {
+  if (label && predicted) counts.tp++;
+  else if (!label && predicted) counts.fp++;
+  else if (label) counts.fn++;
+  else counts.tn++;
+}
+
+/**
+ * Aggregate pipeline verdicts into a report
+ */
+export function computeEvalReport(
+  results: PairEvalResult[],
+  similarAs: SimilarEventPolicy = 'negative',
+  now: Date = new Date()
+): MatchingEvalReport {
+  const labels = { csv: 0, db: 0, positives: 0, negatives: 0, excluded: 0 };
+  const topics = new Map<
+    string,
+    { algoVersion: string; claimed: number; tp: number; fp: number; fn: number; tn: number; buckets: Map<ScoreBucket, { positives: number; negatives: number }> }
+  >();
+  const overall = { tp: 0, fp: 0, fn: 0, tn: 0 };
+  let unclaimedPositives = 0;
+  const pairs: PairEvalSummary[] = [];
+
+  for (const { pair, verdicts } of results) {
+    labels[pair.source]++;
+    const label = labelFor(pair.matchType, similarAs);
+    if (label === null) {
+      labels.excluded++;
+      continue;
+    }
+    if (label) labels.positives++;
+    else labels.negatives++;
+
+    for (const v of verdicts) {
+      let topic = topics.get(v.topic);
+      if (!topic) {
+        topic = { algoVersion: v.algoVersion, claimed: 0, tp: 0, fp: 0, fn: 0, tn: 0, buckets: new Map() };
+        topics.set(v.topic, topic);
+      }
+      if (v.outcome === 'unclaimed') continue;
+
+      topic.claimed++;
+      tally(topic, label, v.predicted);
+      const bucketKey = scoreBucket(v.score);
+      const bucket = topic.buckets.get(bucketKey) ?? { positives: 0, negatives: 0 };
+      if (label) bucket.positives++;
+      else bucket.negatives++;
+      topic.buckets.set(bucketKey, bucket);
+    }
+
+    const predicted = verdicts.some((v) => v.predicted);
+    tally(overall, label, predicted);
+    if (label && verdicts.every((v) => v.outcome === 'unclaimed')) unclaimedPositives++;
+
+    const best = verdicts
+      .filter((v) => v.score !== null)
+      .sort((a, b) => (b.score as number) - (a.score as number))[0];
+    pairs.push({
+      key: pair.key,
+      source: pair.source,
+      matchType: pair.matchType,
+      label,
+      predicted,
+      bestTopic: best?.topic ?? null,
+      bestScore: best?.score ?? null,
+      leftTitle: pair.left.title,
+      rightTitle: pair.right.title,
+    });
+  }
+
+  return {
+    generatedAt: now.toISOString(),
+    similarAs,
+    labels,
+    topics: [...topics.entries()]
+      .map(([topic, t]) => ({
+        topic,
+        algoVersion: t.algoVersion,
+        claimed: t.claimed,
+        ...finishCounts(t.tp, t.fp, t.fn, t.tn),
+        buckets: SCORE_BUCKETS.filter((b) => t.buckets.has(b)).map((b) => {
+          const { positives, negatives } = t.buckets.get(b)!;
+          return { bucket: b, positives, negatives, precision: ratio(positives, positives + negatives) };
+        }),
+      }))
+      .sort((a, b) => b.claimed - a.claimed || a.topic.localeCompare(b.topic)),
+    overall: { ...finishCounts(overall.tp, overall.fp, overall.fn, overall.tn), unclaimedPositives },
+    pairs,
+  };
+}
+
+function delta(baseline: number | null | undefined, current: number | null | undefined): MetricDelta {
+  const b = baseline ?? null;
+  const c = current ?? null;
+  return { baseline: b, current: c, delta: b !== null && c !== null ? c - b : null };
+}
+
+/**
+ * Compare a saved baseline report (e.g. previous algoVersion) with the current one
+ */
+export function diffEvalReports(baseline: MatchingEvalReport, current: MatchingEvalReport): MatchingEvalDiff {
+  const baseTopics = new Map(baseline.topics.map((t) => [t.topic, t]));
+  const currTopics = new Map(current.topics.map((t) => [t.topic, t]));
+  const topicNames = [...new Set([...baseTopics.keys(), ...currTopics.keys()])].sort();
+
+  const topics = topicNames.map((topic) => {
+    const b = baseTopics.get(topic);
+    const c = currTopics.get(topic);
+    return {
+      topic,
+      baselineAlgoVersion: b?.algoVersion ?? null,
+      currentAlgoVersion: c?.algoVersion ?? null,
+      precision: delta(b?.precision, c?.precision),
+      recall: delta(b?.recall, c?.recall),
+      f1: delta(b?.f1, c?.f1),
+    };
+  });
+
+  const basePairs = new Map(baseline.pairs.map((p) => [p.key, p]));
+  const fixed: PairFlip[] = [];
+  const regressed: PairFlip[] = [];
+  for (const pair of current.pairs) {
+    const before = basePairs.get(pair.key);
+    if (!before || before.predicted === pair.predicted || before.label !== pair.label) continue;
+    const flip: PairFlip = {
+      key: pair.key,
+      label: pair.label,
+      baselinePredicted: before.predicted,
+      currentPredicted: pair.predicted,
+      leftTitle: pair.leftTitle,
+      rightTitle: pair.rightTitle,
+    };
+    (pair.predicted === pair.label ? fixed : regressed).push(flip);
+  }
+
+  return {
+    topics,
+    overall: {
+      precision: delta(baseline.overall.precision, current.overall.precision),
+      recall: delta(baseline.overall.recall, current.overall.recall),
+      f1: delta(baseline.overall.f1, current.overall.f1),
+    },
+    fixed,
+    regressed,
+  };
+}
@@ -68,6 +68,29 @@ export interface TopicPipeline<
     options: FetchOptions
   ): Promise<TMarket[]>;
 
+  /**
+   * v3.2.0: Signal store hooks - fetchMarkets split into the row query and a
+   * per-market extraction. Pipelines that implement both (and whose markets
+   * are plain { market, signals }) are served from market_signals, so only
+   * new or updated markets are extracted again.
+   *
+   * @param repo - Market repository
+   * @param options - Fetch options
+   * @returns Candidate rows, before signal extraction
+   */
+  fetchRows?(
+    repo: MarketRepository,
+    options: FetchOptions
+  ): Promise<EligibleMarket[]>;
+
+  /**
+   * v3.2.0: Extract signals for one market
+   *
+   * @param market - Row from fetchRows
+   * @returns Signals, or null if the market is not useful for this topic
+   */
+  extractSignals?(market: EligibleMarket): TSignals | null;
+
   /**
    * Build an index for efficient candidate lookup
    * Index key is typically entity + date/period
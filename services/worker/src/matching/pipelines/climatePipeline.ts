@@ -16,7 +16,7 @@
  */
 
 import { CanonicalTopic, jaccard } from '@data-module/core';
-import type { MarketRepository } from '@data-module/db';
+import type { MarketRepository, EligibleMarket } from '@data-module/db';
 import {
   extractClimateSignals,
   isClimateMarket,
@@ -113,6 +113,35 @@ function buildIndexKeys(market: ClimateMarket): string[] {
   return keys;
 }
 
+/**
+ * Climate keyword markets from a venue (v3.2.0: split out of fetchMarkets)
+ */
+async function fetchClimateRows(
+  repo: MarketRepository,
+  options: FetchOptions
+): Promise<EligibleMarket[]> {
+  const { venue, lookbackHours = 720, limit = 5000 } = options;
+
+  // Fetch markets with climate keywords
+  const markets = await repo.listEligibleMarkets(venue, {
+    lookbackHours,
+    limit,
+    titleKeywords: CLIMATE_KEYWORDS,
+    orderBy: 'closeTime',
+  });
+
+  // Double-check it's a climate market
+  return markets.filter((market) => isClimateMarket(market.title));
+}
+
+/**
+ * Climate signals for one market, null if kind is OTHER with low confidence
+ */
+function extractClimateMarketSignals(market: EligibleMarket): ClimateSignals | null {
+  const signals = extractClimateSignals(market);
+  return signals.kind === ClimateKind.OTHER && signals.confidence < 0.3 ? null : signals;
+}
+
 // ============================================================================
 // CLIMATE PIPELINE
 // ============================================================================
@@ -131,38 +160,22 @@ export const climatePipeline: TopicPipeline<ClimateMarket, ClimateSignals, Clima
     repo: MarketRepository,
     options: FetchOptions
   ): Promise<ClimateMarket[]> {
-    const { venue, lookbackHours = 720, limit = 5000 } = options;
-
-    // Fetch markets with climate keywords
-    const markets = await repo.listEligibleMarkets(venue, {
-      lookbackHours,
-      limit,
-      titleKeywords: CLIMATE_KEYWORDS,
-      orderBy: 'closeTime',
-    });
-
-    // Extract signals
     const climateMarkets: ClimateMarket[] = [];
 
-    for (const market of markets) {
-      // Double-check it's a climate market
-      if (!isClimateMarket(market.title)) {
-        continue;
+    for (const market of await fetchClimateRows(repo, options)) {
+      const signals = extractClimateMarketSignals(market);
+      if (signals) {
+        climateMarkets.push({ market, signals });
       }
-
-      const signals = extractClimateSignals(market);
-
-      // Skip if kind is OTHER with low confidence
-      if (signals.kind === ClimateKind.OTHER && signals.confidence < 0.3) {
-        continue;
-      }
-
-      climateMarkets.push({ market, signals });
     }
 
     return climateMarkets;
   },
 
+  // v3.2.0: Signal store hooks
+  fetchRows: fetchClimateRows,
+  extractSignals: extractClimateMarketSignals,
+
   /**
    * Build index for fast candidate lookup
    */
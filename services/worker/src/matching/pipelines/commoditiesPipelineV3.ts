@@ -104,37 +104,52 @@ export class CommoditiesPipelineV3 extends BasePipeline<CommoditiesMarketV3, Com
     repo: MarketRepository,
     options: FetchOptions
   ): Promise<CommoditiesMarketV3[]> {
+    const result: CommoditiesMarketV3[] = [];
+
+    for (const market of await this.fetchRows(repo, options)) {
+      const signals = this.extractSignals(market);
+      if (signals) {
+        result.push({ market, signals });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * v3.2.0: Commodities keyword markets, before signal extraction
+   */
+  async fetchRows(
+    repo: MarketRepository,
+    options: FetchOptions
+  ): Promise<EligibleMarket[]> {
     const { venue, lookbackHours, limit } = options;
 
     // Fetch markets with commodities keywords
-    const markets = await repo.listEligibleMarkets(venue, {
+    return repo.listEligibleMarkets(venue, {
       lookbackHours,
       limit,
       titleKeywords: COMMODITIES_KEYWORDS,
       orderBy: 'closeTime',
     });
+  }
 
-    // Filter and extract signals
-    const result: CommoditiesMarketV3[] = [];
-
-    for (const market of markets) {
-      const baseSignals = extractCommoditiesSignals(market.title);
-
-      // Skip if not a commodities market (no underlying detected)
-      if (!isCommoditiesMarket(baseSignals)) {
-        continue;
-      }
-
-      // Map underlying to entity for BaseSignals compliance
-      const signals: CommoditiesSignals = {
-        ...baseSignals,
-        entity: baseSignals.underlying,
-      };
+  /**
+   * v3.2.0: Commodities signals for one market
+   */
+  extractSignals(market: EligibleMarket): CommoditiesSignals | null {
+    const baseSignals = extractCommoditiesSignals(market.title);
 
-      result.push({ market, signals });
+    // Skip if not a commodities market (no underlying detected)
+    if (!isCommoditiesMarket(baseSignals)) {
+      return null;
     }
 
-    return result;
+    // Map underlying to entity for BaseSignals compliance
+    return {
+      ...baseSignals,
+      entity: baseSignals.underlying,
+    };
   }
 
   /**
@@ -28,7 +28,8 @@ import type {
   MarketWithSignals,
 } from '../engineV3.types.js';
 import {
-  fetchEligibleCryptoMarkets,
+  fetchCryptoMarketRows,
+  eligibleCryptoSignals,
   cryptoMatchScore,
   areDateTypesCompatible,
   areMarketTypesCompatible,
@@ -62,20 +63,42 @@ export class CryptoDailyPipeline extends BasePipeline<CryptoDailyMarket, CryptoS
     repo: MarketRepository,
     options: FetchOptions
   ): Promise<CryptoDailyMarket[]> {
+    const result: CryptoDailyMarket[] = [];
+
+    for (const market of await this.fetchRows(repo, options)) {
+      const signals = this.extractSignals(market);
+      if (signals) {
+        result.push({ market, signals });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * v3.2.0: Crypto ticker markets without intraday tickers, before signal extraction
+   */
+  async fetchRows(
+    repo: MarketRepository,
+    options: FetchOptions
+  ): Promise<EligibleMarket[]> {
     const { venue, lookbackHours, limit, excludeSports = true } = options;
 
-    const { markets } = await fetchEligibleCryptoMarkets(repo, {
+    const { markets } = await fetchCryptoMarketRows(repo, {
       venue,
       lookbackHours,
       limit,
       excludeSports,
       excludeIntraday: true, // Key difference from intraday pipeline
     });
+    return markets;
+  }
 
-    return markets.map(m => ({
-      market: m.market,
-      signals: m.signals,
-    }));
+  /**
+   * v3.2.0: Crypto signals for one market (tracked entity, not intraday)
+   */
+  extractSignals(market: EligibleMarket): CryptoSignals | null {
+    return eligibleCryptoSignals(market, { excludeIntraday: true });
   }
 
   /**
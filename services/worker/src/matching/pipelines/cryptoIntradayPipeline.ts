@@ -25,7 +25,8 @@ import type {
   MarketWithSignals,
 } from '../engineV3.types.js';
 import {
-  fetchIntradayCryptoMarkets,
+  fetchCryptoMarketRows,
+  eligibleIntradaySignals,
   intradayMatchScore,
   type IntradaySignals,
   type IntradayScoreResult as BaseIntradayScoreResult,
@@ -63,20 +64,41 @@ export class CryptoIntradayPipeline extends BasePipeline<CryptoIntradayMarket, I
     repo: MarketRepository,
     options: FetchOptions
   ): Promise<CryptoIntradayMarket[]> {
+    const result: CryptoIntradayMarket[] = [];
+
+    for (const market of await this.fetchRows(repo, options)) {
+      const signals = this.extractSignals(market);
+      if (signals) {
+        result.push({ market, signals });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * v3.2.0: Crypto ticker markets, before signal extraction
+   */
+  async fetchRows(
+    repo: MarketRepository,
+    options: FetchOptions
+  ): Promise<EligibleMarket[]> {
     const { venue, lookbackHours, limit, excludeSports = true } = options;
 
-    const { markets } = await fetchIntradayCryptoMarkets(repo, {
+    const { markets } = await fetchCryptoMarketRows(repo, {
       venue,
       lookbackHours,
       limit,
       excludeSports,
-      slotSize: '1h', // Default 1 hour slots
     });
+    return markets;
+  }
 
-    return markets.map(m => ({
-      market: m.market,
-      signals: m.signals,
-    }));
+  /**
+   * v3.2.0: Intraday signals for one market (INTRADAY_UPDOWN only)
+   */
+  extractSignals(market: EligibleMarket): IntradaySignals | null {
+    return eligibleIntradaySignals(market, { slotSize: '1h' }); // Default 1 hour slots
   }
 
   /**
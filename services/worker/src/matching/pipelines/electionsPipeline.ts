@@ -131,6 +131,25 @@ export class ElectionsPipeline extends BasePipeline<ElectionsMarket, ElectionsSi
     repo: MarketRepository,
     options: FetchOptions
   ): Promise<ElectionsMarket[]> {
+    const result: ElectionsMarket[] = [];
+
+    for (const market of await this.fetchRows(repo, options)) {
+      const signals = this.extractSignals(market);
+      if (signals) {
+        result.push({ market, signals });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * v3.2.0: Elections keyword markets, before signal extraction
+   */
+  async fetchRows(
+    repo: MarketRepository,
+    options: FetchOptions
+  ): Promise<EligibleMarket[]> {
     const { venue, lookbackHours, limit, excludeSports = true } = options;
 
     // Fetch markets with elections keywords
@@ -141,31 +160,29 @@ export class ElectionsPipeline extends BasePipeline<ElectionsMarket, ElectionsSi
       orderBy: 'closeTime',
     });
 
-    // Filter and extract signals
-    const result: ElectionsMarket[] = [];
-
-    for (const market of markets) {
+    return markets.filter((market) => {
       // Skip sports markets
       if (excludeSports && this.isSportsMarket(market)) {
-        continue;
+        return false;
       }
 
       // Skip if not an elections market
-      if (!isElectionsMarket(market.title)) {
-        continue;
-      }
-
-      const signals = extractElectionsSignals(market);
+      return isElectionsMarket(market.title);
+    });
+  }
 
-      // Must have country or office to be useful
-      if (signals.country === ElectionCountry.UNKNOWN && signals.office === ElectionOffice.UNKNOWN) {
-        continue;
-      }
+  /**
+   * v3.2.0: Elections signals for one market
+   */
+  extractSignals(market: EligibleMarket): ElectionsSignals | null {
+    const signals = extractElectionsSignals(market);
 
-      result.push({ market, signals });
+    // Must have country or office to be useful
+    if (signals.country === ElectionCountry.UNKNOWN && signals.office === ElectionOffice.UNKNOWN) {
+      return null;
     }
 
-    return result;
+    return signals;
   }
 
   /**
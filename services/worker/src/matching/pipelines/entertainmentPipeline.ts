@@ -143,6 +143,25 @@ export class EntertainmentPipeline extends BasePipeline<EntertainmentMarket, Ent
     repo: MarketRepository,
     options: FetchOptions
   ): Promise<EntertainmentMarket[]> {
+    const result: EntertainmentMarket[] = [];
+
+    for (const market of await this.fetchRows(repo, options)) {
+      const signals = this.extractSignals(market);
+      if (signals) {
+        result.push({ market, signals });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * v3.2.0: Entertainment keyword markets, before signal extraction
+   */
+  async fetchRows(
+    repo: MarketRepository,
+    options: FetchOptions
+  ): Promise<EligibleMarket[]> {
     const { venue, lookbackHours, limit, excludeSports = true } = options;
 
     // Fetch markets with entertainment keywords
@@ -153,31 +172,29 @@ export class EntertainmentPipeline extends BasePipeline<EntertainmentMarket, Ent
       orderBy: 'closeTime',
     });
 
-    // Filter and extract signals
-    const result: EntertainmentMarket[] = [];
-
-    for (const market of markets) {
+    return markets.filter((market) => {
       // Skip sports markets
       if (excludeSports && this.isSportsMarket(market)) {
-        continue;
+        return false;
       }
 
       // Skip if not an entertainment market
-      if (!isEntertainmentMarket(market.title)) {
-        continue;
-      }
-
-      const signals = extractEntertainmentSignals(market);
+      return isEntertainmentMarket(market.title);
+    });
+  }
 
-      // Must have award show or media type to be useful
-      if (signals.awardShow === AwardShow.UNKNOWN && signals.mediaType === MediaType.UNKNOWN) {
-        continue;
-      }
+  /**
+   * v3.2.0: Entertainment signals for one market
+   */
+  extractSignals(market: EligibleMarket): EntertainmentSignals | null {
+    const signals = extractEntertainmentSignals(market);
 
-      result.push({ market, signals });
+    // Must have award show or media type to be useful
+    if (signals.awardShow === AwardShow.UNKNOWN && signals.mediaType === MediaType.UNKNOWN) {
+      return null;
     }
 
-    return result;
+    return signals;
   }
 
   /**
@@ -196,6 +196,25 @@ export class FinancePipeline extends BasePipeline<FinanceMarket, FinanceSignals,
     repo: MarketRepository,
     options: FetchOptions
   ): Promise<FinanceMarket[]> {
+    const result: FinanceMarket[] = [];
+
+    for (const market of await this.fetchRows(repo, options)) {
+      const signals = this.extractSignals(market);
+      if (signals) {
+        result.push({ market, signals });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * v3.2.0: Finance keyword markets, before signal extraction
+   */
+  async fetchRows(
+    repo: MarketRepository,
+    options: FetchOptions
+  ): Promise<EligibleMarket[]> {
     const { venue, lookbackHours, limit, excludeSports = true } = options;
 
     // Fetch markets with finance keywords
@@ -206,31 +225,29 @@ export class FinancePipeline extends BasePipeline<FinanceMarket, FinanceSignals,
       orderBy: 'closeTime',
     });
 
-    // Filter and extract signals
-    const result: FinanceMarket[] = [];
-
-    for (const market of markets) {
+    return markets.filter((market) => {
       // Skip sports markets
       if (excludeSports && this.isSportsMarket(market)) {
-        continue;
+        return false;
       }
 
       // Skip if not a finance market
-      if (!isFinanceMarket(market.title)) {
-        continue;
-      }
-
-      const signals = extractFinanceSignals(market);
+      return isFinanceMarket(market.title);
+    });
+  }
 
-      // Must have asset class and instrument to be useful
-      if (signals.assetClass === FinanceAssetClass.UNKNOWN || signals.instrument === null) {
-        continue;
-      }
+  /**
+   * v3.2.0: Finance signals for one market
+   */
+  extractSignals(market: EligibleMarket): FinanceSignals | null {
+    const signals = extractFinanceSignals(market);
 
-      result.push({ market, signals });
+    // Must have asset class and instrument to be useful
+    if (signals.assetClass === FinanceAssetClass.UNKNOWN || signals.instrument === null) {
+      return null;
     }
 
-    return result;
+    return signals;
   }
 
   /**
@@ -170,6 +170,25 @@ export class GeopoliticsPipeline extends BasePipeline<GeopoliticsMarket, Geopoli
     repo: MarketRepository,
     options: FetchOptions
   ): Promise<GeopoliticsMarket[]> {
+    const result: GeopoliticsMarket[] = [];
+
+    for (const market of await this.fetchRows(repo, options)) {
+      const signals = this.extractSignals(market);
+      if (signals) {
+        result.push({ market, signals });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * v3.2.0: Geopolitics keyword markets, before signal extraction
+   */
+  async fetchRows(
+    repo: MarketRepository,
+    options: FetchOptions
+  ): Promise<EligibleMarket[]> {
     const { venue, lookbackHours, limit, excludeSports = true } = options;
 
     // Fetch markets with geopolitics keywords
@@ -180,31 +199,29 @@ export class GeopoliticsPipeline extends BasePipeline<GeopoliticsMarket, Geopoli
       orderBy: 'closeTime',
     });
 
-    // Filter and extract signals
-    const result: GeopoliticsMarket[] = [];
-
-    for (const market of markets) {
+    return markets.filter((market) => {
       // Skip sports markets
       if (excludeSports && this.isSportsMarket(market)) {
-        continue;
+        return false;
       }
 
       // Skip if not a geopolitics market
-      if (!isGeopoliticsMarket(market.title)) {
-        continue;
-      }
-
-      const signals = extractGeopoliticsSignals(market);
+      return isGeopoliticsMarket(market.title);
+    });
+  }
 
-      // Must have region or countries to be useful
-      if (signals.region === GeopoliticsRegion.UNKNOWN && signals.countries.length === 0) {
-        continue;
-      }
+  /**
+   * v3.2.0: Geopolitics signals for one market
+   */
+  extractSignals(market: EligibleMarket): GeopoliticsSignals | null {
+    const signals = extractGeopoliticsSignals(market);
 
-      result.push({ market, signals });
+    // Must have region or countries to be useful
+    if (signals.region === GeopoliticsRegion.UNKNOWN && signals.countries.length === 0) {
+      return null;
     }
 
-    return result;
+    return signals;
   }
 
   /**
@@ -130,6 +130,25 @@ export class RatesPipeline extends BasePipeline<RatesMarket, RatesSignals, Rates
     repo: MarketRepository,
     options: FetchOptions
   ): Promise<RatesMarket[]> {
+    const result: RatesMarket[] = [];
+
+    for (const market of await this.fetchRows(repo, options)) {
+      const signals = this.extractSignals(market);
+      if (signals) {
+        result.push({ market, signals });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * v3.2.0: Rates keyword markets, before signal extraction
+   */
+  async fetchRows(
+    repo: MarketRepository,
+    options: FetchOptions
+  ): Promise<EligibleMarket[]> {
     const { venue, lookbackHours, limit, excludeSports = true } = options;
 
     // Fetch markets with rates keywords
@@ -140,31 +159,29 @@ export class RatesPipeline extends BasePipeline<RatesMarket, RatesSignals, Rates
       orderBy: 'closeTime',
     });
 
-    // Filter and extract signals
-    const result: RatesMarket[] = [];
-
-    for (const market of markets) {
+    return markets.filter((market) => {
       // Skip sports markets
       if (excludeSports && this.isSportsMarket(market)) {
-        continue;
+        return false;
       }
 
       // Skip if not a rates market
-      if (!isRatesMarket(market.title)) {
-        continue;
-      }
-
-      const signals = extractRatesSignals(market);
+      return isRatesMarket(market.title);
+    });
+  }
 
-      // Must have a central bank to be useful
-      if (signals.centralBank === CentralBank.UNKNOWN) {
-        continue;
-      }
+  /**
+   * v3.2.0: Rates signals for one market
+   */
+  extractSignals(market: EligibleMarket): RatesSignals | null {
+    const signals = extractRatesSignals(market);
 
-      result.push({ market, signals });
+    // Must have a central bank to be useful
+    if (signals.centralBank === CentralBank.UNKNOWN) {
+      return null;
     }
 
-    return result;
+    return signals;
   }
 
   /**
@@ -12,7 +12,7 @@
  */
 
 import { CanonicalTopic } from '@data-module/core';
-import type { MarketRepository, Venue } from '@data-module/db';
+import type { MarketRepository, Venue, EligibleMarket } from '@data-module/db';
 import type {
   BaseSignals,
   FetchOptions,
@@ -97,29 +97,42 @@ export class UniversalPipeline extends BasePipeline<
     repo: MarketRepository,
     options: FetchOptions
   ): Promise<UniversalMarket[]> {
+    // Extract entities for each market
+    return (await this.fetchRows(repo, options)).map((market) => ({
+      market: market as EligibleMarketWithTopic,
+      signals: this.extractSignals(market),
+    }));
+  }
+
+  /**
+   * v3.2.0: Eligible markets of the venue, before entity extraction
+   */
+  async fetchRows(
+    repo: MarketRepository,
+    options: FetchOptions
+  ): Promise<EligibleMarket[]> {
     const { venue, lookbackHours, limit } = options;
 
     // Use the repository's listEligibleMarkets method
-    const markets = await repo.listEligibleMarkets(venue as Venue, {
+    return repo.listEligibleMarkets(venue as Venue, {
       lookbackHours,
       limit,
       orderBy: 'closeTime',
     });
+  }
 
-    // Extract entities for each market
-    return markets.map((market) => {
-      const withEntities = extractMarketEntities(market);
-      return {
-        market: market as EligibleMarketWithTopic,
-        signals: {
-          extractedEntities: withEntities.entities,
-          gameType: withEntities.entities.gameType,
-          marketType: withEntities.entities.marketType,
-          entity: withEntities.entities.organizations[0] || null,
-          titleTokens: withEntities.entities.tokens,
-        },
-      };
-    });
+  /**
+   * v3.2.0: Universal entities for one market
+   */
+  extractSignals(market: EligibleMarket): UniversalSignals {
+    const withEntities = extractMarketEntities(market);
+    return {
+      extractedEntities: withEntities.entities,
+      gameType: withEntities.entities.gameType,
+      marketType: withEntities.entities.marketType,
+      entity: withEntities.entities.organizations[0] || null,
+      titleTokens: withEntities.entities.tokens,
+    };
   }
 
   // --------------------------------------------------------------------------
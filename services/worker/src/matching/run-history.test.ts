@@ -0,0 +1,91 @@
+/**
+ * Tests for Engine V3 run history (v3.2.0)
+ *
+ * Run: npx tsx --test services/worker/src/matching/run-history.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { CanonicalTopic } from '@data-module/core';
+import type { MatchingRun, MatchingRunInput, MatchingRunRepository } from '@data-module/db';
+import type { EngineV3Result, EngineV3Stats } from './engineV3.types.js';
+import { compareRuns, storedRunStages, recordRunHistory } from './run-history.js';
+
+function stats(passedGates: number): EngineV3Stats {
+  return {
+    marketsFetched: { left: 100, right: 400 },
+    marketsAfterFilter: { left: 80, right: 300 },
+    indexSize: 300,
+    candidatesEvaluated: 2000,
+    candidatesPassedGates: passedGates,
+    candidatesAboveThreshold: 20,
+    finalSuggestions: 12,
+    scoreDistribution: { '0.9+': 5, '0.8-0.9': 5, '0.7-0.8': 5, '0.6-0.7': 5, '<0.6': 0 },
+  };
+}
+
+describe('compareRuns', () => {
+  it('flags stages that dropped by the threshold or more', () => {
+    const base = { id: 1, stats: stats(200) as unknown as MatchingRun['stats'] };
+    const current = { id: 2, stats: stats(90) as unknown as MatchingRun['stats'] };
+
+    const comparison = compareRuns(base, current, 0.3);
+    const gates = comparison.stages.find((s) => s.stage === 'candidatesPassedGates')!;
+    assert.deepStrictEqual(
+      { base: gates.base, current: gates.current, delta: gates.delta, change: gates.change },
+      { base: 200, current: 90, delta: -110, change: -0.55 }
+    );
+    assert.deepStrictEqual(comparison.regressions, ['candidatesPassedGates']);
+    assert.strictEqual(compareRuns(base, current, 0.6).regressions.length, 0);
+  });
+
+  it('treats missing stats as zero and never flags a zero baseline', () => {
+    assert.strictEqual(storedRunStages({ stats: {} }).candidatesEvaluated, 0);
+    const comparison = compareRuns({ id: 1, stats: {} }, { id: 2, stats: stats(10) as unknown as MatchingRun['stats'] });
+    assert.ok(comparison.stages.every((s) => s.change === null && !s.regression));
+  });
+});
+
+describe('recordRunHistory', () => {
+  const result: EngineV3Result = {
+    topic: CanonicalTopic.SPORTS,
+    algoVersion: 'sports@3.0.0',
+    leftCount: 100,
+    rightCount: 400,
+    suggestionsCreated: 12,
+    autoConfirmed: 2,
+    autoRejected: 1,
+    durationMs: 5000,
+    errors: [],
+    stats: stats(200),
+  };
+  const options = { fromVenue: 'polymarket', toVenue: 'kalshi', canonicalTopic: CanonicalTopic.SPORTS, minScore: 0.7 };
+
+  it('stores the run with its direction, mode and options', async () => {
+    let stored: MatchingRunInput | undefined;
+    const repo = {
+      record: async (input: MatchingRunInput) => {
+        stored = input;
+        return { id: 7 } as MatchingRun;
+      },
+    } as unknown as MatchingRunRepository;
+
+    const run = await recordRunHistory(repo, options, result);
+    assert.strictEqual(run?.id, 7);
+    assert.strictEqual(stored?.topic, 'SPORTS');
+    assert.strictEqual(stored?.mode, 'suggest');
+    assert.strictEqual(stored?.fromVenue, 'polymarket');
+    assert.strictEqual((stored?.options as { minScore: number }).minScore, 0.7);
+    assert.ok(Date.now() - stored!.startedAt.getTime() >= 5000);
+  });
+
+  it('returns null instead of throwing when the write fails', async () => {
+    const repo = {
+      record: async () => {
+        throw new Error('relation "matching_runs" does not exist');
+      },
+    } as unknown as MatchingRunRepository;
+
+    assert.strictEqual(await recordRunHistory(repo, options, result), null);
+  });
+});
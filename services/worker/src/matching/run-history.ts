@@ -0,0 +1,150 @@
+/**
+ * Engine V3 run history (v3.2.0)
+ *
+ * Flattens EngineV3Stats into named stage counts, persists each run to
+ * matching_runs, and compares two runs stage by stage so drops like
+ * "candidatesPassedGates halved after a taxonomy change" stand out.
+ */
+
+import type { MatchingRun, MatchingRunRepository } from '@data-module/db';
+import type { EngineV3Options, EngineV3Result, EngineV3Stats } from './engineV3.types.js';
+
+/** Stage counts in pipeline order */
+export const RUN_STAGES = [
+  'marketsFetchedLeft',
+  'marketsFetchedRight',
+  'marketsAfterFilterLeft',
+  'marketsAfterFilterRight',
+  'indexSize',
+  'candidatesEvaluated',
+  'candidatesPassedGates',
+  'candidatesAboveThreshold',
+  'finalSuggestions',
+] as const;
+
+export type RunStage = (typeof RUN_STAGES)[number];
+
+/** Relative drop that marks a stage as a regression */
+export const DEFAULT_DROP_THRESHOLD = parseFloat(process.env.MATCHING_RUN_DROP_THRESHOLD || '0.3');
+
+export interface StageDelta {
+  stage: RunStage;
+  base: number;
+  current: number;
+  delta: number;
+  /** delta / base, null when base is 0 */
+  change: number | null;
+  /** Dropped by at least the threshold */
+  regression: boolean;
+}
+
+export interface RunComparison {
+  baseId: number;
+  currentId: number;
+  stages: StageDelta[];
+  regressions: RunStage[];
+}
+
+export function flattenRunStats(stats: EngineV3Stats): Record<RunStage, number> {
+  return {
+    marketsFetchedLeft: stats.marketsFetched.left,
+    marketsFetchedRight: stats.marketsFetched.right,
+    marketsAfterFilterLeft: stats.marketsAfterFilter.left,
+    marketsAfterFilterRight: stats.marketsAfterFilter.right,
+    indexSize: stats.indexSize,
+    candidatesEvaluated: stats.candidatesEvaluated,
+    candidatesPassedGates: stats.candidatesPassedGates,
+    candidatesAboveThreshold: stats.candidatesAboveThreshold,
+    finalSuggestions: stats.finalSuggestions,
+  };
+}
+
+/**
+ * Stage counts from a stored run; stages missing from older rows read as 0
+ */
+export function storedRunStages(run: Pick<MatchingRun, 'stats'>): Record<RunStage, number> {
+  const stats = (run.stats ?? {}) as Partial<EngineV3Stats>;
+  return flattenRunStats({
+    marketsFetched: { left: stats.marketsFetched?.left ?? 0, right: stats.marketsFetched?.right ?? 0 },
+    marketsAfterFilter: { left: stats.marketsAfterFilter?.left ?? 0, right: stats.marketsAfterFilter?.right ?? 0 },
+    indexSize: stats.indexSize ?? 0,
+    candidatesEvaluated: stats.candidatesEvaluated ?? 0,
+    candidatesPassedGates: stats.candidatesPassedGates ?? 0,
+    candidatesAboveThreshold: stats.candidatesAboveThreshold ?? 0,
+    finalSuggestions: stats.finalSuggestions ?? 0,
+    scoreDistribution: { '0.9+': 0, '0.8-0.9': 0, '0.7-0.8': 0, '0.6-0.7': 0, '<0.6': 0 },
+  });
+}
+
+/**
+ * Stage-by-stage change from `base` to `current`
+ */
+export function compareRuns(
+  base: Pick<MatchingRun, 'id' | 'stats'>,
+  current: Pick<MatchingRun, 'id' | 'stats'>,
+  dropThreshold = DEFAULT_DROP_THRESHOLD
+): RunComparison {
+  const before = storedRunStages(base);
+  const after = storedRunStages(current);
+
+  const stages = RUN_STAGES.map((stage): StageDelta => {
+    const delta = after[stage] - before[stage];
+    const change = before[stage] > 0 ? delta / before[stage] : null;
+    return {
+      stage,
+      base: before[stage],
+      current: after[stage],
+      delta,
+      change,
+      regression: change !== null && change <= -dropThreshold,
+    };
+  });
+
+  return {
+    baseId: base.id,
+    currentId: current.id,
+    stages,
+    regressions: stages.filter((s) => s.regression).map((s) => s.stage),
+  };
+}
+
+/**
+ * Persist one run; errors are logged, never thrown, so history can't fail a match
+ */
+export async function recordRunHistory(
+  repo: MatchingRunRepository,
+  options: EngineV3Options,
+  result: EngineV3Result
+): Promise<MatchingRun | null> {
+  try {
+    return await repo.record({
+      topic: String(result.topic),
+      algoVersion: result.algoVersion,
+      fromVenue: options.fromVenue,
+      toVenue: options.toVenue,
+      mode: options.mode ?? 'suggest',
+      // Requested incremental runs without a watermark ran full
+      incremental: result.stats.incremental !== undefined,
+      leftCount: result.leftCount,
+      rightCount: result.rightCount,
+      suggestionsCreated: result.suggestionsCreated,
+      autoConfirmed: result.autoConfirmed,
+      autoRejected: result.autoRejected,
+      durationMs: result.durationMs,
+      stats: result.stats as unknown as Record<string, unknown>,
+      options: {
+        lookbackHours: options.lookbackHours ?? null,
+        minScore: options.minScore ?? null,
+        limits: options.limits ?? null,
+        autoConfirm: options.autoConfirm ?? false,
+        autoReject: options.autoReject ?? false,
+        useV3Eligibility: options.useV3Eligibility ?? false,
+      },
+      errors: result.errors,
+      startedAt: new Date(Date.now() - result.durationMs),
+    });
+  } catch (err) {
+    console.warn(`[engineV3] Failed to record run history: ${err instanceof Error ? err.message : String(err)}`);
+    return null;
+  }
+}
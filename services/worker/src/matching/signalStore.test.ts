@@ -0,0 +1,128 @@
+/**
+ * Tests for the persisted signal store (v3.2.0)
+ *
+ * Run: npx tsx --test services/worker/src/matching/signalStore.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import type { EligibleMarket, MarketRepository, MarketSignalInput, MarketSignalRepository, StoredMarketSignal } from '@data-module/db';
+import { RatesPipeline } from './pipelines/ratesPipeline.js';
+import {
+  encodeSignals,
+  decodeSignals,
+  fetchWithSignalStore,
+  buildIndexFromKeys,
+  indexKeysOf,
+  usesSignalStore,
+} from './signalStore.js';
+
+function market(id: number, title: string): EligibleMarket {
+  return {
+    id,
+    title,
+    category: null,
+    status: 'active',
+    closeTime: new Date('2025-03-19T18:00:00Z'),
+    venue: 'kalshi',
+    externalId: `M-${id}`,
+    metadata: null,
+    derivedTopic: 'RATES',
+    outcomes: [],
+  } as unknown as EligibleMarket;
+}
+
+const rows = [
+  market(1, 'Will the Fed cut rates in March 2025?'),
+  market(2, 'Fed decision March 2025: hold?'),
+  market(3, 'Will it rain in London tomorrow?'),
+];
+
+describe('signal codec', () => {
+  it('round-trips Dates, Sets and Maps through JSON', () => {
+    const signals = {
+      entity: 'FED',
+      at: new Date('2025-03-19T18:00:00Z'),
+      entities: new Set(['FED', 'ECB']),
+      bounds: new Map([['low', 4.25]]),
+      nested: [{ at: new Date(0) }],
+    };
+    const stored = JSON.parse(JSON.stringify(encodeSignals({ ...signals, missing: undefined })));
+
+    assert.deepStrictEqual(decodeSignals(stored), signals);
+  });
+});
+
+class FixedRatesPipeline extends RatesPipeline {
+  async fetchRows(): Promise<EligibleMarket[]> {
+    return rows;
+  }
+}
+
+describe('fetchWithSignalStore', () => {
+  const pipeline = new FixedRatesPipeline();
+  const marketRepo = {} as MarketRepository;
+  const options = { venue: 'kalshi', lookbackHours: 720, limit: 100 };
+
+  function memoryRepo(initial: Map<number, StoredMarketSignal> = new Map()) {
+    const written: MarketSignalInput[] = [];
+    const repo = {
+      loadFresh: async () => initial,
+      upsertMany: async (_t: string, _v: string, input: MarketSignalInput[]) => {
+        written.push(...input);
+        return input.length;
+      },
+    } as unknown as MarketSignalRepository;
+    return { repo, written };
+  }
+
+  it('extracts misses, stores non-topic markets as null and returns stored keys', async () => {
+    assert.ok(usesSignalStore(pipeline));
+    const { repo, written } = memoryRepo();
+    const result = await fetchWithSignalStore<{ market: EligibleMarket }>(pipeline, marketRepo, repo, options);
+
+    const inMemory = await pipeline.fetchMarkets(marketRepo, options);
+    assert.ok(inMemory.length > 0);
+    assert.deepStrictEqual(result.markets.map((m) => m.market.id), inMemory.map((m) => m.market.id));
+    assert.strictEqual(result.extracted, written.length);
+    assert.strictEqual(result.reused, 0);
+    assert.ok(written.every((w) => (w.signals === null) === (w.indexKeys.length === 0)));
+
+    // Index from stored keys matches buildIndex
+    const fromKeys = buildIndexFromKeys(inMemory, result.indexKeys!);
+    const built = pipeline.buildIndex(inMemory);
+    assert.deepStrictEqual(
+      [...fromKeys].map(([k, v]) => [k, v.map((m) => m.market.id)]).sort(),
+      [...built].map(([k, v]) => [k, v.map((m) => m.market.id)]).sort()
+    );
+  });
+
+  it('reuses fresh rows without extracting them again', async () => {
+    const first = memoryRepo();
+    await fetchWithSignalStore(pipeline, marketRepo, first.repo, options);
+    const stored = new Map<number, StoredMarketSignal>(
+      first.written.map((w) => [w.marketId, { marketId: w.marketId, signals: w.signals as StoredMarketSignal['signals'], indexKeys: w.indexKeys }])
+    );
+
+    const second = memoryRepo(stored);
+    const result = await fetchWithSignalStore<{ market: EligibleMarket; signals: unknown }>(
+      pipeline,
+      marketRepo,
+      second.repo,
+      options
+    );
+    assert.strictEqual(second.written.length, 0);
+    assert.strictEqual(result.reused, rows.length);
+    for (const m of result.markets) {
+      assert.deepStrictEqual(m.signals, pipeline.extractSignals(m.market));
+      assert.deepStrictEqual(result.indexKeys!.get(m.market.id), indexKeysOf(pipeline, m));
+    }
+  });
+
+  it('only reads and extracts the given markets', async () => {
+    const { repo, written } = memoryRepo();
+    const result = await fetchWithSignalStore(pipeline, marketRepo, repo, options, new Set([2]));
+    assert.deepStrictEqual(written.map((w) => w.marketId), [2]);
+    assert.strictEqual(result.extracted, 1);
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * Persisted signal store (v3.2.0)
+ *
+ * Pipelines that expose fetchRows + extractSignals keep their extracted
+ * signals and buildIndex keys in market_signals, keyed by market, topic and
+ * extractor version (the pipeline's algoVersion). A run reads the candidate
+ * rows, reuses every stored row that is still fresh and extracts only new or
+ * updated markets; the index is then built from the stored keys.
+ *
+ * Ingestion refreshes the store for the markets each upsert created or
+ * changed (by content hash, not updated_at), so matching runs normally find
+ * it warm. Any store failure falls back to the pipeline's own fetchMarkets /
+ * buildIndex.
+ *
+ * Two pipelines stay on fetchMarkets, because their signals are not a
+ * function of the market alone:
+ * - macroPipelineV3 filters by a window around the current year and widens
+ *   the lookback when the result contains rare indicators (GDP, unemployment),
+ *   so what it keeps depends on the clock and on the other markets.
+ * - sportsPipeline enriches Kalshi markets with event data from eventRepo,
+ *   which changes independently of the market row and its content hash.
+ */
+
+import type { CanonicalTopic } from '@data-module/core';
+import {
+  getClient,
+  MarketRepository,
+  MarketSignalRepository,
+  type Prisma,
+  type MarketSignalInput,
+  type EligibleMarket,
+  type Venue,
+} from '@data-module/db';
+import type { TopicPipeline } from './pipelines/basePipeline.js';
+import type { FetchOptions, MarketWithSignals } from './engineV3.types.js';
+import { DEFAULT_LIMITS, DEFAULT_LOOKBACK_HOURS } from './engineV3.types.js';
+import { getPipeline, getRegisteredTopics } from './dispatcher.js';
+import { registerAllPipelines } from './registerPipelines.js';
+
+/** MATCHING_SIGNAL_STORE=false turns the store off for matching runs and ingestion refreshes */
+export const SIGNAL_STORE_ENABLED = process.env.MATCHING_SIGNAL_STORE !== 'false';
+
+type AnyPipeline = TopicPipeline<any, any, any>;
+
+export type SignalStorePipeline = AnyPipeline & Required<Pick<AnyPipeline, 'fetchRows' | 'extractSignals'>>;
+
+export function usesSignalStore(pipeline: AnyPipeline): pipeline is SignalStorePipeline {
+  return typeof pipeline.fetchRows === 'function' && typeof pipeline.extractSignals === 'function';
+}
+
+// ============================================================================
+// CODEC - signals hold Dates, Sets and Maps that plain JSON would flatten
+// ============================================================================
+
+export function encodeSignals(value: unknown): Prisma.InputJsonValue {
+  return encodeValue(value) as Prisma.InputJsonValue;
+}
+
+function encodeValue(value: unknown): unknown {
+  if (value instanceof Date) return { $date: value.toISOString() };
+  if (value instanceof Set) return { $set: [...value].map(encodeValue) };
+  if (value instanceof Map) return { $map: [...value].map(([k, v]) => [encodeValue(k), encodeValue(v)]) };
+  if (Array.isArray(value)) return value.map(encodeValue);
+  if (value !== null && typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) {
+      if (v !== undefined) out[k] = encodeValue(v);
+    }
+    return out;
+  }
+  return value;
+}
+
+export function decodeSignals<T>(json: unknown): T {
+  return decodeValue(json) as T;
+}
+
+function decodeValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(decodeValue);
+  if (value !== null && typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    const keys = Object.keys(obj);
+    if (keys.length === 1) {
+      if (keys[0] === '$date') return new Date(obj.$date as string);
+      if (keys[0] === '$set') return new Set((obj.$set as unknown[]).map(decodeValue));
+      if (keys[0] === '$map') {
+        return new Map((obj.$map as [unknown, unknown][]).map(([k, v]) => [decodeValue(k), decodeValue(v)]));
+      }
+    }
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(obj)) out[k] = decodeValue(v);
+    return out;
+  }
+  return value;
+}
+
+// ============================================================================
+// INDEX KEYS
+// ============================================================================
+
+/**
+ * Keys buildIndex files one market under (every pipeline indexes markets independently)
+ */
+export function indexKeysOf(pipeline: AnyPipeline, market: { market: EligibleMarket }): string[] {
+  return [...pipeline.buildIndex([market]).keys()];
+}
+
+/**
+ * Same map buildIndex returns, from stored keys
+ */
+export function buildIndexFromKeys<T extends { market: { id: number } }>(
+  markets: T[],
+  indexKeys: Map<number, string[]>
+): Map<string, T[]> {
+  const index = new Map<string, T[]>();
+  for (const m of markets) {
+    for (const key of indexKeys.get(m.market.id) ?? []) {
+      if (!index.has(key)) {
+        index.set(key, []);
+      }
+      index.get(key)!.push(m);
+    }
+  }
+  return index;
+}
+
+// ============================================================================
+// FETCH
+// ============================================================================
+
+export interface SignalStoreFetch<TMarket> {
+  markets: TMarket[];
+  /** Index keys by market id; null when the store wasn't used */
+  indexKeys: Map<number, string[]> | null;
+  /** Markets served from stored rows */
+  reused: number;
+  /** Markets extracted this call (and written back) */
+  extracted: number;
+}
+
+/**
+ * fetchRows, then stored signals for fresh markets and extractSignals for the rest.
+ * With onlyIds, rows outside it are dropped before the store is read.
+ */
+export async function fetchWithSignalStore<TMarket>(
+  pipeline: SignalStorePipeline,
+  marketRepo: MarketRepository,
+  signalRepo: MarketSignalRepository,
+  options: FetchOptions,
+  onlyIds?: ReadonlySet<number>
+): Promise<SignalStoreFetch<TMarket>> {
+  const topic = String(pipeline.topic);
+  const version = pipeline.algoVersion;
+  // Taken before the read: a market written after this is stale on the next load
+  const computedAt = new Date();
+
+  let rows = await pipeline.fetchRows(marketRepo, options);
+  if (onlyIds) rows = rows.filter((r) => onlyIds.has(r.id));
+  const stored = await signalRepo.loadFresh(topic, version, rows.map((r) => r.id));
+
+  const markets: TMarket[] = [];
+  const indexKeys = new Map<number, string[]>();
+  const writes: MarketSignalInput[] = [];
+
+  for (const market of rows) {
+    const hit = stored.get(market.id);
+    if (hit) {
+      if (hit.signals !== null) {
+        markets.push({ market, signals: decodeSignals(hit.signals) } as TMarket);
+        indexKeys.set(market.id, hit.indexKeys);
+      }
+      continue;
+    }
+
+    const signals = pipeline.extractSignals(market);
+    if (signals === null) {
+      writes.push({ marketId: market.id, signals: null, indexKeys: [] });
+      continue;
+    }
+    const withSignals = { market, signals };
+    const keys = indexKeysOf(pipeline, withSignals);
+    markets.push(withSignals as TMarket);
+    indexKeys.set(market.id, keys);
+    writes.push({ marketId: market.id, signals: encodeSignals(signals), indexKeys: keys });
+  }
+
+  if (writes.length > 0) {
+    await signalRepo.upsertMany(topic, version, writes, computedAt);
+  }
+
+  return { markets, indexKeys, reused: rows.length - writes.length, extracted: writes.length };
+}
+
+/**
+ * Engine entry point: the store when the pipeline supports it, else fetchMarkets
+ */
+export async function fetchPipelineMarkets<TMarket extends MarketWithSignals<any>>(
+  pipeline: TopicPipeline<TMarket, any, any>,
+  marketRepo: MarketRepository,
+  signalRepo: MarketSignalRepository | null,
+  options: FetchOptions
+): Promise<SignalStoreFetch<TMarket>> {
+  if (signalRepo && usesSignalStore(pipeline)) {
+    try {
+      return await fetchWithSignalStore<TMarket>(pipeline, marketRepo, signalRepo, options);
+    } catch (err) {
+      console.warn(
+        `[signalStore] ${pipeline.topic}: falling back to in-memory extraction: ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
+  }
+  const markets = await pipeline.fetchMarkets(marketRepo, options);
+  return { markets, indexKeys: null, reused: 0, extracted: markets.length };
+}
+
+// ============================================================================
+// REFRESH
+// ============================================================================
+
+export interface SignalRefreshResult {
+  topic: string;
+  rows: number;
+  reused: number;
+  extracted: number;
+  /** Rows of older extractor versions removed */
+  pruned: number;
+  error?: string;
+}
+
+/**
+ * Bring the store up to date for one venue (after a markets upsert, or from
+ * signals:refresh). Uses the right-side lookback and limit of each topic so
+ * the rows match what a matching run reads; marketIds limits the refresh to
+ * those markets (an upsert's changedIds). Errors are reported per topic,
+ * never thrown.
+ */
+export async function refreshMarketSignals(
+  venue: string,
+  topics?: CanonicalTopic[],
+  marketIds?: number[]
+): Promise<SignalRefreshResult[]> {
+  if (marketIds?.length === 0) return [];
+  const onlyIds = marketIds ? new Set(marketIds) : undefined;
+  registerAllPipelines();
+  const client = getClient();
+  const marketRepo = new MarketRepository(client);
+  const signalRepo = new MarketSignalRepository(client);
+
+  const results: SignalRefreshResult[] = [];
+  for (const topic of topics ?? getRegisteredTopics()) {
+    const pipeline = getPipeline(topic);
+    if (!pipeline || !usesSignalStore(pipeline)) continue;
+
+    const result: SignalRefreshResult = { topic: String(topic), rows: 0, reused: 0, extracted: 0, pruned: 0 };
+    try {
+      const fetched = await fetchWithSignalStore(pipeline, marketRepo, signalRepo, {
+        venue: venue as Venue,
+        lookbackHours: DEFAULT_LOOKBACK_HOURS[topic] || 720,
+        limit: DEFAULT_LIMITS[topic]?.maxRight || 20000,
+        excludeSports: true,
+      }, onlyIds);
+      result.rows = fetched.reused + fetched.extracted;
+      result.reused = fetched.reused;
+      result.extracted = fetched.extracted;
+      result.pruned = await signalRepo.deleteOtherVersions(result.topic, pipeline.algoVersion);
+    } catch (err) {
+      result.error = err instanceof Error ? err.message : String(err);
+    }
+    results.push(result);
+  }
+  return results;
+}
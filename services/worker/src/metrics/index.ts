@@ -0,0 +1,6 @@
+/**
+ * Prometheus metrics (v3.2.0)
+ */
+
+export * from './instruments.js';
+export * from './server.js';
@@ -0,0 +1,162 @@
+/**
+ * Worker metrics - ingestion, adapters and matching (v3.2.0)
+ *
+ * Definitions live on the shared registry from @data-module/core (quote
+ * dedup metrics are recorded by QuoteRepository itself); these helpers
+ * keep label sets consistent across the code paths that record them.
+ */
+
+import { metrics } from '@data-module/core';
+import type { EngineV3Result } from '../matching/engineV3.types.js';
+import { flattenRunStats, type RunStage } from '../matching/run-history.js';
+
+const DURATION_BUCKETS = [1, 5, 15, 30, 60, 120, 300, 600, 1800, 3600];
+
+export const ingestionRuns = metrics.counter({
+  name: 'ingestion_runs_total',
+  help: 'Ingestion cycles by venue, job (full, markets, quotes) and result',
+  labelNames: ['venue', 'job', 'result'],
+});
+
+export const ingestionDuration = metrics.histogram({
+  name: 'ingestion_run_duration_seconds',
+  help: 'Ingestion cycle duration',
+  labelNames: ['venue', 'job'],
+  buckets: DURATION_BUCKETS,
+});
+
+export const ingestionLastSuccess = metrics.gauge({
+  name: 'ingestion_last_success_timestamp_seconds',
+  help: 'Unix time of the last successful ingestion cycle',
+  labelNames: ['venue', 'job'],
+});
+
+export const marketsFetched = metrics.counter({
+  name: 'ingestion_markets_fetched_total',
+  help: 'Markets fetched from venue APIs',
+  labelNames: ['venue'],
+});
+
+export const marketsWritten = metrics.counter({
+  name: 'ingestion_markets_written_total',
+  help: 'Markets created or updated',
+  labelNames: ['venue'],
+});
+
+export const quotesFetched = metrics.counter({
+  name: 'ingestion_quotes_fetched_total',
+  help: 'Quotes fetched from venue APIs',
+  labelNames: ['venue'],
+});
+
+export const quotesWritten = metrics.counter({
+  name: 'ingestion_quotes_written_total',
+  help: 'Quotes written after dedup',
+  labelNames: ['venue'],
+});
+
+export const httpRetries = metrics.counter({
+  name: 'adapter_http_retries_total',
+  help: 'HTTP retries in venue adapter requests',
+  labelNames: ['venue'],
+});
+
+export const matchingRuns = metrics.counter({
+  name: 'matching_runs_total',
+  help: 'Engine V3 runs by topic, mode and result',
+  labelNames: ['topic', 'mode', 'result'],
+});
+
+export const matchingDuration = metrics.histogram({
+  name: 'matching_run_duration_seconds',
+  help: 'Engine V3 run duration',
+  labelNames: ['topic'],
+  buckets: DURATION_BUCKETS,
+});
+
+export const matchingStageItems = metrics.counter({
+  name: 'matching_stage_items_total',
+  help: 'Items reaching each Engine V3 stage (EngineV3Stats)',
+  labelNames: ['topic', 'stage'],
+});
+
+export const matchingScores = metrics.counter({
+  name: 'matching_candidate_scores_total',
+  help: 'Engine V3 candidate score distribution',
+  labelNames: ['topic', 'range'],
+});
+
+export const matchingLinksWritten = metrics.counter({
+  name: 'matching_links_written_total',
+  help: 'Links written by Engine V3, by resulting status',
+  labelNames: ['topic', 'status'],
+});
+
+export interface IngestionCycleCounts {
+  marketsFetched?: number;
+  marketsWritten?: number;
+  quotesFetched?: number;
+  quotesWritten?: number;
+}
+
+/**
+ * Record one ingestion cycle (runIngestion, or a split-runner markets/quotes sync)
+ */
+export function recordIngestionCycle(
+  venue: string,
+  job: 'full' | 'markets' | 'quotes',
+  ok: boolean,
+  durationMs: number,
+  counts: IngestionCycleCounts = {}
+): void {
+  ingestionRuns.inc({ venue, job, result: ok ? 'ok' : 'error' });
+  ingestionDuration.observe({ venue, job }, durationMs / 1000);
+  if (ok) ingestionLastSuccess.set({ venue, job }, Math.floor(Date.now() / 1000));
+
+  if (counts.marketsFetched) marketsFetched.inc({ venue }, counts.marketsFetched);
+  if (counts.marketsWritten) marketsWritten.inc({ venue }, counts.marketsWritten);
+  if (counts.quotesFetched) quotesFetched.inc({ venue }, counts.quotesFetched);
+  if (counts.quotesWritten) quotesWritten.inc({ venue }, counts.quotesWritten);
+}
+
+/** matching_stage_items_total stage label for each run-history stage that has one */
+const STAGE_LABELS: Partial<Record<RunStage, string>> = {
+  marketsFetchedLeft: 'fetched_left',
+  marketsFetchedRight: 'fetched_right',
+  marketsAfterFilterLeft: 'filtered_left',
+  marketsAfterFilterRight: 'filtered_right',
+  candidatesEvaluated: 'candidates_evaluated',
+  candidatesPassedGates: 'passed_gates',
+  candidatesAboveThreshold: 'above_threshold',
+  finalSuggestions: 'final_suggestions',
+};
+
+/**
+ * matching_stage_items_total stage labels with their counts, in pipeline order
+ */
+export function stageItemCounts(stages: Record<RunStage, number>): Array<[string, number]> {
+  return (Object.entries(STAGE_LABELS) as Array<[RunStage, string]>).map(([stage, label]) => [label, stages[stage]]);
+}
+
+/**
+ * Record one runMatchingV3 result with its stage counts
+ */
+export function recordMatchingRun(result: EngineV3Result, mode: string): void {
+  const topic = String(result.topic);
+  matchingRuns.inc({ topic, mode, result: result.errors.length > 0 ? 'error' : 'ok' });
+  matchingDuration.observe({ topic }, result.durationMs / 1000);
+
+  for (const [stage, count] of stageItemCounts(flattenRunStats(result.stats))) {
+    matchingStageItems.inc({ topic, stage }, count);
+  }
+  for (const [range, count] of Object.entries(result.stats.scoreDistribution)) {
+    matchingScores.inc({ topic, range }, count);
+  }
+
+  if (mode !== 'dry-run') {
+    const suggested = result.suggestionsCreated - result.autoConfirmed - result.autoRejected;
+    matchingLinksWritten.inc({ topic, status: 'suggested' }, Math.max(0, suggested));
+    matchingLinksWritten.inc({ topic, status: 'confirmed' }, result.autoConfirmed);
+    matchingLinksWritten.inc({ topic, status: 'rejected' }, result.autoRejected);
+  }
+}
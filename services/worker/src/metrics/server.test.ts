@@ -0,0 +1,125 @@
+/**
+ * Tests for worker metrics and the /metrics server (v3.2.0)
+ *
+ * Run: npx tsx --test services/worker/src/metrics/server.test.ts
+ */
+
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import type { AddressInfo } from 'node:net';
+import { CanonicalTopic, metrics, PROMETHEUS_CONTENT_TYPE } from '@data-module/core';
+import type { PrismaClient } from '@data-module/db';
+import type { EngineV3Result } from '../matching/engineV3.types.js';
+import { recordIngestionCycle, recordMatchingRun, ingestionRuns, matchingStageItems, matchingLinksWritten } from './instruments.js';
+import { startMetricsServer, registerMatchingRunCollector } from './server.js';
+
+function engineResult(overrides: Partial<EngineV3Result> = {}): EngineV3Result {
+  return {
+    topic: CanonicalTopic.CRYPTO_DAILY,
+    algoVersion: 'crypto_daily@3.0.0',
+    leftCount: 10,
+    rightCount: 20,
+    suggestionsCreated: 4,
+    autoConfirmed: 1,
+    autoRejected: 1,
+    durationMs: 2500,
+    errors: [],
+    stats: {
+      marketsFetched: { left: 10, right: 20 },
+      marketsAfterFilter: { left: 8, right: 15 },
+      indexSize: 15,
+      candidatesEvaluated: 120,
+      candidatesPassedGates: 30,
+      candidatesAboveThreshold: 6,
+      finalSuggestions: 4,
+      scoreDistribution: { '0.9+': 1, '0.8-0.9': 2, '0.7-0.8': 1, '0.6-0.7': 2, '<0.6': 24 },
+    },
+    ...overrides,
+  };
+}
+
+describe('worker instruments', () => {
+  beforeEach(() => {
+    metrics.resetValues();
+  });
+
+  it('records ingestion cycles per venue and job', () => {
+    recordIngestionCycle('kalshi', 'markets', true, 1500, { marketsFetched: 100, marketsWritten: 40 });
+    recordIngestionCycle('kalshi', 'markets', false, 300);
+
+    assert.strictEqual(ingestionRuns.get({ venue: 'kalshi', job: 'markets', result: 'ok' }), 1);
+    assert.strictEqual(ingestionRuns.get({ venue: 'kalshi', job: 'markets', result: 'error' }), 1);
+    assert.strictEqual(metrics.get('ingestion_markets_written_total')?.get({ venue: 'kalshi' }), 40);
+  });
+
+  it('records engine stage counts and written links', () => {
+    const topic = CanonicalTopic.CRYPTO_DAILY;
+    recordMatchingRun(engineResult(), 'suggest');
+    recordMatchingRun(engineResult(), 'dry-run');
+
+    assert.strictEqual(matchingStageItems.get({ topic, stage: 'candidates_evaluated' }), 240);
+    assert.strictEqual(matchingLinksWritten.get({ topic, status: 'suggested' }), 2);
+    assert.strictEqual(matchingLinksWritten.get({ topic, status: 'confirmed' }), 1);
+  });
+});
+
+describe('startMetricsServer', () => {
+  it('serves the registry in Prometheus text format', async () => {
+    metrics.resetValues();
+    recordIngestionCycle('polymarket', 'quotes', true, 800, { quotesFetched: 50, quotesWritten: 12 });
+
+    const server = startMetricsServer({ port: 0, host: '127.0.0.1' });
+    await new Promise<void>((resolve) => server.once('listening', resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    try {
+      const res = await fetch(`${url}/metrics`);
+      assert.strictEqual(res.status, 200);
+      assert.strictEqual(res.headers.get('content-type'), PROMETHEUS_CONTENT_TYPE);
+      const text = await res.text();
+      assert.ok(text.includes('ingestion_quotes_written_total{venue="polymarket"} 12\n'));
+      assert.ok(text.includes('ingestion_run_duration_seconds_count{venue="polymarket",job="quotes"} 1\n'));
+      assert.ok(text.includes('# TYPE process_resident_memory_bytes gauge\n'));
+
+      assert.strictEqual((await fetch(`${url}/other`)).status, 404);
+    } finally {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+});
+
+describe('registerMatchingRunCollector', () => {
+  it('exposes the newest recorded run of each topic', async () => {
+    metrics.resetValues();
+    const run = {
+      id: 7,
+      topic: 'CRYPTO_DAILY',
+      fromVenue: 'polymarket',
+      toVenue: 'kalshi',
+      mode: 'suggest',
+      ok: true,
+      suggestionsCreated: 4,
+      autoConfirmed: 1,
+      autoRejected: 1,
+      durationMs: 2500,
+      startedAt: new Date('2026-10-19T12:00:00Z'),
+      stats: engineResult().stats,
+    };
+    const prisma = {
+      $queryRaw: async () => [{ id: run.id }],
+      matchingRun: {
+        findMany: async () => [run],
+        groupBy: async () => [{ topic: run.topic, mode: run.mode, ok: true, _count: { _all: 3 } }],
+      },
+    } as unknown as PrismaClient;
+
+    registerMatchingRunCollector(prisma);
+    const text = await metrics.render();
+
+    const labels = 'topic="CRYPTO_DAILY",from_venue="polymarket",to_venue="kalshi",mode="suggest"';
+    assert.ok(text.includes('matching_runs_recorded{topic="CRYPTO_DAILY",mode="suggest",result="ok"} 3\n'));
+    assert.ok(text.includes(`matching_last_run_timestamp_seconds{${labels}} 1792411200\n`));
+    assert.ok(text.includes(`matching_last_run_stage_items{${labels},stage="candidates_evaluated"} 120\n`));
+    assert.ok(text.includes(`matching_last_run_links_written{${labels},status="suggested"} 2\n`));
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * /metrics endpoint (v3.2.0)
+ *
+ * The API server mounts createMetricsHandler(); long-running ingestion
+ * loops have no API, so they start a standalone server when METRICS_PORT
+ * is set. Each process exposes its own registry - scrape them separately.
+ */
+
+import type { Server } from 'node:http';
+import express, { type RequestHandler } from 'express';
+import { metrics, PROMETHEUS_CONTENT_TYPE } from '@data-module/core';
+import { MarketLinkRepository, MatchingRunRepository, type PrismaClient } from '@data-module/db';
+import { storedRunStages } from '../matching/run-history.js';
+import { stageItemCounts } from './instruments.js';
+
+const processStart = Math.floor(Date.now() / 1000);
+let processCollectorRegistered = false;
+
+/**
+ * Resident memory, heap and start time, refreshed on every scrape
+ */
+export function registerProcessCollector(): void {
+  if (processCollectorRegistered) return;
+  processCollectorRegistered = true;
+
+  const rss = metrics.gauge({ name: 'process_resident_memory_bytes', help: 'Resident memory size in bytes' });
+  const heap = metrics.gauge({ name: 'nodejs_heap_used_bytes', help: 'V8 heap used in bytes' });
+  const start = metrics.gauge({ name: 'process_start_time_seconds', help: 'Process start time since the Unix epoch' });
+  metrics.addCollector(() => {
+    const usage = process.memoryUsage();
+    rss.set(undefined, usage.rss);
+    heap.set(undefined, usage.heapUsed);
+    start.set(undefined, processStart);
+  });
+}
+
+/**
+ * market_links{status} totals, read from the database at scrape time
+ */
+export function registerLinkStatusCollector(prisma: PrismaClient): void {
+  const linkRepo = new MarketLinkRepository(prisma);
+  const links = metrics.gauge({ name: 'market_links', help: 'Market links by status', labelNames: ['status'] });
+  metrics.addCollector(async () => {
+    const counts = await linkRepo.countByStatus();
+    for (const [status, count] of Object.entries(counts)) {
+      links.set({ status }, count);
+    }
+  });
+}
+
+/**
+ * Engine V3 runs from matching_runs, read at scrape time. Matching runs in
+ * short-lived CLI processes whose own counters are never scraped; the
+ * long-lived API server exposes the recorded history instead.
+ */
+export function registerMatchingRunCollector(prisma: PrismaClient): void {
+  const runRepo = new MatchingRunRepository(prisma);
+  const direction = ['topic', 'from_venue', 'to_venue', 'mode'];
+  const recorded = metrics.gauge({
+    name: 'matching_runs_recorded',
+    help: 'Engine V3 runs in matching_runs by topic, mode and result',
+    labelNames: ['topic', 'mode', 'result'],
+  });
+  const lastRun = metrics.gauge({
+    name: 'matching_last_run_timestamp_seconds',
+    help: 'Unix start time of the newest Engine V3 run',
+    labelNames: direction,
+  });
+  const lastOk = metrics.gauge({
+    name: 'matching_last_run_ok',
+    help: 'Whether the newest Engine V3 run finished without errors',
+    labelNames: direction,
+  });
+  const lastDuration = metrics.gauge({
+    name: 'matching_last_run_duration_seconds',
+    help: 'Duration of the newest Engine V3 run',
+    labelNames: direction,
+  });
+  const lastStages = metrics.gauge({
+    name: 'matching_last_run_stage_items',
+    help: 'Items reaching each stage in the newest Engine V3 run (EngineV3Stats)',
+    labelNames: [...direction, 'stage'],
+  });
+  const lastLinks = metrics.gauge({
+    name: 'matching_last_run_links_written',
+    help: 'Links written by the newest Engine V3 run, by resulting status',
+    labelNames: [...direction, 'status'],
+  });
+
+  metrics.addCollector(async () => {
+    const [counts, latest] = await Promise.all([runRepo.countByTopic(), runRepo.getLatestPerTopic()]);
+    for (const c of counts) {
+      recorded.set({ topic: c.topic, mode: c.mode, result: c.ok ? 'ok' : 'error' }, c.count);
+    }
+    for (const run of latest) {
+      const labels = { topic: run.topic, from_venue: run.fromVenue, to_venue: run.toVenue, mode: run.mode };
+      lastRun.set(labels, Math.floor(run.startedAt.getTime() / 1000));
+      lastOk.set(labels, run.ok ? 1 : 0);
+      lastDuration.set(labels, run.durationMs / 1000);
+      for (const [stage, count] of stageItemCounts(storedRunStages(run))) {
+        lastStages.set({ ...labels, stage }, count);
+      }
+      if (run.mode !== 'dry-run') {
+        const suggested = run.suggestionsCreated - run.autoConfirmed - run.autoRejected;
+        lastLinks.set({ ...labels, status: 'suggested' }, Math.max(0, suggested));
+        lastLinks.set({ ...labels, status: 'confirmed' }, run.autoConfirmed);
+        lastLinks.set({ ...labels, status: 'rejected' }, run.autoRejected);
+      }
+    }
+  });
+}
+
+export function createMetricsHandler(): RequestHandler {
+  registerProcessCollector();
+  return async (_req, res) => {
+    try {
+      const body = await metrics.render();
+      res.setHeader('Content-Type', PROMETHEUS_CONTENT_TYPE);
+      res.end(body);
+    } catch (error) {
+      res.status(500).type('text/plain').send(error instanceof Error ? error.message : String(error));
+    }
+  };
+}
+
+/**
+ * Standalone /metrics server; unref'd so it never keeps a finished process alive
+ */
+export function startMetricsServer(options: { port: number; host?: string }): Server {
+  const app = express();
+  app.disable('x-powered-by');
+  app.get('/metrics', createMetricsHandler());
+  app.use((_req, res) => {
+    res.status(404).type('text/plain').send('Not found');
+  });
+
+  const server = app.listen(options.port, options.host ?? '0.0.0.0');
+  server.on('error', (error) => {
+    console.error(`[metrics] Server error on port ${options.port}: ${error.message}`);
+  });
+  server.on('listening', () => {
+    console.log(`[metrics] Serving /metrics on port ${options.port}`);
+  });
+  server.unref();
+  return server;
+}
+
+/**
+ * Start the metrics server when METRICS_PORT is set
+ */
+export function startMetricsServerFromEnv(): Server | null {
+  const port = parseInt(process.env.METRICS_PORT || '0', 10);
+  if (!port) return null;
+  return startMetricsServer({ port, host: process.env.METRICS_HOST });
+}
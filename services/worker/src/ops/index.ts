@@ -29,6 +29,47 @@ export {
   type RejectEvaluation,
 } from './reject-rules.js';
 
+// v3.2.0: Declarative link rules
+export {
+  parseRuleExpression,
+  evaluateRuleExpression,
+  RuleExpressionError,
+  type RuleExpression,
+  type RuleValue,
+} from './rule-expr.js';
+
+export {
+  legacyScoreFields,
+  linkScoreFields,
+  buildRuleScope,
+  RULE_CHECKS,
+  type ScoreFields,
+  type RuleCheck,
+  type RuleLinkInput,
+} from './rule-fields.js';
+
+export {
+  parseRuleset,
+  loadRuleset,
+  getDefaultRuleset,
+  resolveRuleset,
+  evaluateConfirmRuleset,
+  evaluateRejectRuleset,
+  rejectVars,
+  RulesetError,
+  DEFAULT_RULESET_PATH,
+  type LinkRuleset,
+  type LinkRule,
+} from './ruleset.js';
+
+export {
+  replayRulesets,
+  decideLink,
+  type ReplayAction,
+  type ReplayChange,
+  type ReplayResult,
+} from './rules-replay.js';
+
 export {
   applyWatchlistPolicy,
   formatPolicyResult,
@@ -37,3 +78,9 @@ export {
   type WatchlistCandidate,
   type PolicyResult,
 } from './watchlist-policy.js';
+
+export {
+  compareResolutions,
+  type SideResolution,
+  type VerdictResult,
+} from './resolution-verdict.js';
@@ -29,6 +29,10 @@ describe('evaluateRejectRules', () => {
     reason,
     algoVersion: 'test',
     topic: 'crypto_daily',
+    scoreFields: null,
+    resolutionVerdict: null,
+    resolutionCheckedAt: null,
+    resolutionDetails: null,
     createdAt,
     updatedAt: new Date(),
     leftMarket: {
@@ -58,6 +62,8 @@ describe('evaluateRejectRules', () => {
       isMve: null,
       kalshiMveCollectionTicker: null,
       kalshiMveSelectedLegs: null,
+      contentHash: null,
+      contentChangedAt: null,
       outcomes: [],
     },
     rightMarket: {
@@ -87,6 +93,8 @@ describe('evaluateRejectRules', () => {
       isMve: null,
       kalshiMveCollectionTicker: null,
       kalshiMveSelectedLegs: null,
+      contentHash: null,
+      contentChangedAt: null,
       outcomes: [],
     },
   });
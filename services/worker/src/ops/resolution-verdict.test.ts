@@ -0,0 +1,54 @@
+/**
+ * Tests for link resolution verdicts (v3.2.0)
+ *
+ * Run: npx tsx --test services/worker/src/ops/resolution-verdict.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { compareResolutions, type SideResolution } from './resolution-verdict.js';
+
+const YES: SideResolution = { status: 'resolved', winningOutcome: 'Yes', winningSide: 'yes' };
+const NO: SideResolution = { status: 'resolved', winningOutcome: 'No', winningSide: 'no' };
+const PENDING: SideResolution = { status: 'pending', winningOutcome: null, winningSide: null };
+const VOID: SideResolution = { status: 'void', winningOutcome: null, winningSide: null };
+
+describe('compareResolutions', () => {
+  it('agrees when both sides resolved the same way', () => {
+    assert.strictEqual(compareResolutions(YES, YES).verdict, 'AGREE');
+    assert.strictEqual(compareResolutions(NO, NO).verdict, 'AGREE');
+  });
+
+  it('disagrees when winners differ', () => {
+    const result = compareResolutions(YES, NO);
+    assert.strictEqual(result.verdict, 'DISAGREE');
+    assert.match(result.reason, /left yes, right no/);
+  });
+
+  it('flips the expected side for inverted pairs', () => {
+    assert.strictEqual(compareResolutions(YES, NO, true).verdict, 'AGREE');
+    assert.strictEqual(compareResolutions(YES, YES, true).verdict, 'DISAGREE');
+  });
+
+  it('is pending until both sides are final', () => {
+    assert.strictEqual(compareResolutions(YES, null).verdict, 'PENDING');
+    assert.strictEqual(compareResolutions(PENDING, NO).verdict, 'PENDING');
+  });
+
+  it('reports VOID when either side voided, even if the other is pending', () => {
+    assert.strictEqual(compareResolutions(VOID, YES).verdict, 'VOID');
+    assert.strictEqual(compareResolutions(PENDING, VOID).verdict, 'VOID');
+  });
+
+  it('compares named outcomes by name', () => {
+    const lakers: SideResolution = { status: 'resolved', winningOutcome: 'Lakers', winningSide: 'other' };
+    const celtics: SideResolution = { status: 'resolved', winningOutcome: 'Celtics', winningSide: 'other' };
+    assert.strictEqual(compareResolutions(lakers, { ...lakers, winningOutcome: 'lakers ' }).verdict, 'AGREE');
+    assert.strictEqual(compareResolutions(lakers, celtics).verdict, 'DISAGREE');
+  });
+
+  it('stays pending for settlements that cannot be compared', () => {
+    const scalar: SideResolution = { status: 'resolved', winningOutcome: null, winningSide: null };
+    assert.strictEqual(compareResolutions(YES, scalar).verdict, 'PENDING');
+  });
+});
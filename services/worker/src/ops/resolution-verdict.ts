@@ -0,0 +1,69 @@
+/**
+ * Resolution Verdict for Linked Markets (v3.2.0)
+ *
+ * Compares how both sides of a MarketLink settled:
+ * - AGREE: same winner (after accounting for inverted phrasing)
+ * - DISAGREE: different winners - the link was not truly equivalent
+ * - VOID: either side was voided / refunded
+ * - PENDING: either side has not settled yet, or settlements can't be compared
+ */
+
+import type { ResolutionVerdict } from '@data-module/db';
+
+export interface SideResolution {
+  status: 'pending' | 'resolved' | 'void';
+  winningOutcome: string | null;
+  winningSide: 'yes' | 'no' | 'other' | null;
+}
+
+export interface VerdictResult {
+  verdict: ResolutionVerdict;
+  reason: string;
+}
+
+function flip(side: 'yes' | 'no'): 'yes' | 'no' {
+  return side === 'yes' ? 'no' : 'yes';
+}
+
+/**
+ * Decide the verdict for one link
+ * @param inverted - right market is phrased as the negation of left (YES on one = NO on the other)
+ */
+export function compareResolutions(
+  left: SideResolution | null,
+  right: SideResolution | null,
+  inverted = false
+): VerdictResult {
+  if (!left || !right) {
+    return { verdict: 'PENDING', reason: `${!left ? 'left' : 'right'} side has no resolution` };
+  }
+  if (left.status === 'void' || right.status === 'void') {
+    return { verdict: 'VOID', reason: `${left.status === 'void' ? 'left' : 'right'} side voided` };
+  }
+  if (left.status === 'pending' || right.status === 'pending') {
+    return { verdict: 'PENDING', reason: `${left.status === 'pending' ? 'left' : 'right'} side not final` };
+  }
+
+  const leftBinary = left.winningSide === 'yes' || left.winningSide === 'no';
+  const rightBinary = right.winningSide === 'yes' || right.winningSide === 'no';
+
+  if (leftBinary && rightBinary) {
+    const expected = inverted ? flip(left.winningSide as 'yes' | 'no') : left.winningSide;
+    return right.winningSide === expected
+      ? { verdict: 'AGREE', reason: `both ${left.winningSide}${inverted ? ' (inverted)' : ''}` }
+      : {
+          verdict: 'DISAGREE',
+          reason: `left ${left.winningSide}, right ${right.winningSide}${inverted ? ' (inverted)' : ''}`,
+        };
+  }
+
+  // Named outcomes (e.g. team names) compare by name
+  if (left.winningOutcome && right.winningOutcome && !leftBinary && !rightBinary) {
+    const same = left.winningOutcome.trim().toLowerCase() === right.winningOutcome.trim().toLowerCase();
+    return same
+      ? { verdict: 'AGREE', reason: `both "${left.winningOutcome}"` }
+      : { verdict: 'DISAGREE', reason: `left "${left.winningOutcome}", right "${right.winningOutcome}"` };
+  }
+
+  return { verdict: 'PENDING', reason: 'settlements not comparable (scalar or mixed outcome types)' };
+}
@@ -0,0 +1,59 @@
+/**
+ * Tests for rule expressions (v3.2.0)
+ *
+ * Run: npx tsx --test services/worker/src/ops/rule-expr.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { parseRuleExpression, evaluateRuleExpression, referencedPaths, RuleExpressionError } from './rule-expr.js';
+
+const scope = {
+  score: 0.91,
+  fields: { textScore: 0.08, dayDiff: -2, periodKind: 'exact', tier: 'STRONG', entities: ['FED', 'CPI'] },
+  checks: { numbersCompatible: false },
+};
+
+function run(source: string) {
+  return evaluateRuleExpression(parseRuleExpression(source), scope);
+}
+
+describe('rule expressions', () => {
+  it('compares paths with literals, lists and functions', () => {
+    assert.strictEqual(run('fields.textScore >= 0.12'), false);
+    assert.strictEqual(run('score >= 0.9 and fields.tier == "STRONG"'), true);
+    assert.strictEqual(run("fields.periodKind in ['exact', 'month_in_quarter']"), true);
+    assert.strictEqual(run('"CPI" in fields.entities'), true);
+    assert.strictEqual(run('abs(fields.dayDiff) > 1'), true);
+    assert.strictEqual(run('fields.dayDiff == -2'), true);
+    assert.strictEqual(run('coalesce(fields.missing, fields.textScore) < 0.1'), true);
+  });
+
+  it('gives not/and/or the usual precedence', () => {
+    assert.strictEqual(run('not checks.numbersCompatible and score > 0.5'), true);
+    assert.strictEqual(run('score < 0.5 or fields.tier == "STRONG" and fields.dayDiff == 0'), false);
+    assert.strictEqual(run('(score < 0.5 or fields.tier == "STRONG") and not (fields.dayDiff == 0)'), true);
+  });
+
+  it('treats missing fields as null that never pass a threshold', () => {
+    assert.strictEqual(run('fields.missing'), null);
+    assert.strictEqual(run('fields.missing >= 0'), false);
+    assert.strictEqual(run('fields.missing < 1'), false);
+    assert.strictEqual(run('fields.missing == null'), true);
+    assert.strictEqual(run('fields.textScore.deeper == null'), true);
+  });
+
+  it('lists the paths an expression reads', () => {
+    assert.deepStrictEqual(referencedPaths(parseRuleExpression('abs(fields.dayDiff) > 1 or score < vars.floor')), [
+      'fields.dayDiff',
+      'score',
+      'vars.floor',
+    ]);
+  });
+
+  it('rejects malformed expressions', () => {
+    for (const source of ['score >=', 'score > 0.5)', 'fields.', 'toString(score)', 'score = 1', '"open', 'and score']) {
+      assert.throws(() => parseRuleExpression(source), RuleExpressionError, source);
+    }
+  });
+});
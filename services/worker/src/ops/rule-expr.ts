@@ -0,0 +1,367 @@
+/**
+ * Rule Expressions (v3.2.0)
+ *
+ * The small condition language of rule files. An expression reads values
+ * from a scope by dotted path and compares them:
+ *
+ *   fields.textScore >= 0.12 and fields.dayDiff == 0
+ *   fields.periodKind in ["exact", "month_in_quarter"]
+ *   abs(fields.dayDiff) > 1 or not checks.numbersCompatible
+ *
+ * Grammar (lowest precedence first):
+ *   or       := and ("or" and)*
+ *   and      := not ("and" not)*
+ *   not      := "not" not | compare
+ *   compare  := value (("==" | "!=" | "<" | "<=" | ">" | ">=" | "in") value)?
+ *   value    := number | string | true | false | null | list | call | path | "(" or ")"
+ *
+ * A path that does not resolve is null. Ordering comparisons are false
+ * unless both sides are numbers, so a missing score never passes a
+ * threshold; `x == null` tests for absence. `and`/`or`/`not` treat null,
+ * false, 0 and "" as false.
+ */
+
+export type RuleValue = string | number | boolean | null | RuleValue[];
+
+/** Values expressions read by path (nested plain objects) */
+export type RuleScope = object;
+
+type CompareOp = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in';
+
+export type RuleExpression =
+  | { kind: 'literal'; value: RuleValue }
+  | { kind: 'path'; path: string[] }
+  | { kind: 'list'; items: RuleExpression[] }
+  | { kind: 'call'; fn: RuleFunction; args: RuleExpression[] }
+  | { kind: 'not'; operand: RuleExpression }
+  | { kind: 'and' | 'or'; operands: RuleExpression[] }
+  | { kind: 'compare'; op: CompareOp; left: RuleExpression; right: RuleExpression };
+
+const FUNCTIONS = {
+  /** Absolute value; null unless the argument is a number */
+  abs: (args: RuleValue[]) => (typeof args[0] === 'number' ? Math.abs(args[0]) : null),
+  /** First argument that is not null */
+  coalesce: (args: RuleValue[]) => args.find((a) => a !== null) ?? null,
+} satisfies Record<string, (args: RuleValue[]) => RuleValue>;
+
+export type RuleFunction = keyof typeof FUNCTIONS;
+
+export class RuleExpressionError extends Error {
+  constructor(message: string, public readonly source: string) {
+    super(`${message} in "${source}"`);
+    this.name = 'RuleExpressionError';
+  }
+}
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+type Token =
+  | { type: 'number'; value: number; pos: number }
+  | { type: 'string'; value: string; pos: number }
+  | { type: 'ident'; value: string; pos: number }
+  | { type: 'op'; value: string; pos: number }
+  | { type: 'end'; pos: number };
+
+const OPERATORS = ['==', '!=', '<=', '>=', '<', '>', '(', ')', '[', ']', ',', '.'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const number = /^-?\d+(?:\.\d+)?/.exec(source.slice(i));
+    // A leading minus is a sign only where a value may start
+    if (number && (ch !== '-' || !tokens.length || isValueStart(tokens[tokens.length - 1]))) {
+      tokens.push({ type: 'number', value: parseFloat(number[0]), pos: i });
+      i += number[0].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const end = source.indexOf(ch, i + 1);
+      if (end === -1) throw new RuleExpressionError(`unterminated string at ${i}`, source);
+      tokens.push({ type: 'string', value: source.slice(i + 1, end), pos: i });
+      i = end + 1;
+      continue;
+    }
+
+    const ident = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+    if (ident) {
+      tokens.push({ type: 'ident', value: ident[0], pos: i });
+      i += ident[0].length;
+      continue;
+    }
+
+    const op = OPERATORS.find((o) => source.startsWith(o, i));
+    if (!op) throw new RuleExpressionError(`unexpected "${ch}" at ${i}`, source);
+    tokens.push({ type: 'op', value: op, pos: i });
+    i += op.length;
+  }
+
+  tokens.push({ type: 'end', pos: source.length });
+  return tokens;
+}
+
+/** Token after which a value (not a binary operator) is expected */
+function isValueStart(prev: Token): boolean {
+  if (prev.type === 'op') return prev.value !== ')' && prev.value !== ']';
+  return prev.type === 'ident' && ['and', 'or', 'not', 'in'].includes(prev.value);
+}
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+const COMPARE_OPS: CompareOp[] = ['==', '!=', '<', '<=', '>', '>='];
+const KEYWORDS = new Set(['and', 'or', 'not', 'in', 'true', 'false', 'null']);
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[], private readonly source: string) {}
+
+  parse(): RuleExpression {
+    const expr = this.parseOr();
+    const next = this.peek();
+    if (next.type !== 'end') this.fail(next, 'unexpected trailing input');
+    return expr;
+  }
+
+  private parseOr(): RuleExpression {
+    const operands = [this.parseAnd()];
+    while (this.acceptKeyword('or')) operands.push(this.parseAnd());
+    return operands.length === 1 ? operands[0] : { kind: 'or', operands };
+  }
+
+  private parseAnd(): RuleExpression {
+    const operands = [this.parseNot()];
+    while (this.acceptKeyword('and')) operands.push(this.parseNot());
+    return operands.length === 1 ? operands[0] : { kind: 'and', operands };
+  }
+
+  private parseNot(): RuleExpression {
+    if (this.acceptKeyword('not')) return { kind: 'not', operand: this.parseNot() };
+    return this.parseCompare();
+  }
+
+  private parseCompare(): RuleExpression {
+    const left = this.parseValue();
+    const next = this.peek();
+    if (next.type === 'op' && (COMPARE_OPS as string[]).includes(next.value)) {
+      this.index++;
+      return { kind: 'compare', op: next.value as CompareOp, left, right: this.parseValue() };
+    }
+    if (this.acceptKeyword('in')) {
+      return { kind: 'compare', op: 'in', left, right: this.parseValue() };
+    }
+    return left;
+  }
+
+  private parseValue(): RuleExpression {
+    const token = this.next();
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'op':
+        if (token.value === '(') {
+          const inner = this.parseOr();
+          this.expectOp(')');
+          return inner;
+        }
+        if (token.value === '[') {
+          return { kind: 'list', items: this.parseArgs(']') };
+        }
+        return this.fail(token, `unexpected "${token.value}"`);
+      case 'ident': {
+        if (token.value === 'true' || token.value === 'false') return { kind: 'literal', value: token.value === 'true' };
+        if (token.value === 'null') return { kind: 'literal', value: null };
+        if (KEYWORDS.has(token.value)) return this.fail(token, `unexpected "${token.value}"`);
+
+        if (this.acceptOp('(')) {
+          if (!Object.hasOwn(FUNCTIONS, token.value)) this.fail(token, `unknown function "${token.value}"`);
+          return { kind: 'call', fn: token.value as RuleFunction, args: this.parseArgs(')') };
+        }
+
+        const path = [token.value];
+        while (this.acceptOp('.')) {
+          const part = this.next();
+          if (part.type !== 'ident') this.fail(part, 'expected a field name after "."');
+          path.push((part as { value: string }).value);
+        }
+        return { kind: 'path', path };
+      }
+      default:
+        return this.fail(token, 'unexpected end of expression');
+    }
+  }
+
+  private parseArgs(close: ')' | ']'): RuleExpression[] {
+    const items: RuleExpression[] = [];
+    if (this.acceptOp(close)) return items;
+    do {
+      items.push(this.parseOr());
+    } while (this.acceptOp(','));
+    this.expectOp(close);
+    return items;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'end') this.index++;
+    return token;
+  }
+
+  private acceptKeyword(word: string): boolean {
+    const token = this.peek();
+    if (token.type === 'ident' && token.value === word) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private acceptOp(op: string): boolean {
+    const token = this.peek();
+    if (token.type === 'op' && token.value === op) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectOp(op: string): void {
+    if (!this.acceptOp(op)) this.fail(this.peek(), `expected "${op}"`);
+  }
+
+  private fail(token: Token, message: string): never {
+    throw new RuleExpressionError(`${message} at ${token.pos}`, this.source);
+  }
+}
+
+/**
+ * Parse an expression; throws RuleExpressionError on syntax errors
+ */
+export function parseRuleExpression(source: string): RuleExpression {
+  return new Parser(tokenize(source), source).parse();
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+function toRuleValue(value: unknown): RuleValue {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' || typeof value === 'boolean') return value;
+  if (Array.isArray(value)) return value.map(toRuleValue);
+  return null;
+}
+
+export function resolvePath(scope: RuleScope, path: string[]): RuleValue {
+  let current: unknown = scope;
+  for (const key of path) {
+    if (current === null || typeof current !== 'object' || Array.isArray(current)) return null;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return toRuleValue(current);
+}
+
+export function isTruthy(value: RuleValue): boolean {
+  return value !== null && value !== false && value !== 0 && value !== '';
+}
+
+function equals(a: RuleValue, b: RuleValue): boolean {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((v, i) => equals(v, b[i]));
+  }
+  return a === b;
+}
+
+function compare(op: CompareOp, a: RuleValue, b: RuleValue): boolean {
+  switch (op) {
+    case '==':
+      return equals(a, b);
+    case '!=':
+      return !equals(a, b);
+    case 'in':
+      return Array.isArray(b) && b.some((v) => equals(a, v));
+  }
+  if (typeof a !== 'number' || typeof b !== 'number') return false;
+  switch (op) {
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+  }
+}
+
+export function evaluateRuleExpression(expr: RuleExpression, scope: RuleScope): RuleValue {
+  switch (expr.kind) {
+    case 'literal':
+      return expr.value;
+    case 'path':
+      return resolvePath(scope, expr.path);
+    case 'list':
+      return expr.items.map((item) => evaluateRuleExpression(item, scope));
+    case 'call':
+      return FUNCTIONS[expr.fn](expr.args.map((arg) => evaluateRuleExpression(arg, scope)));
+    case 'not':
+      return !isTruthy(evaluateRuleExpression(expr.operand, scope));
+    case 'and':
+      return expr.operands.every((o) => isTruthy(evaluateRuleExpression(o, scope)));
+    case 'or':
+      return expr.operands.some((o) => isTruthy(evaluateRuleExpression(o, scope)));
+    case 'compare':
+      return compare(expr.op, evaluateRuleExpression(expr.left, scope), evaluateRuleExpression(expr.right, scope));
+  }
+}
+
+/**
+ * Dotted paths an expression reads, in order of first use
+ */
+export function referencedPaths(expr: RuleExpression): string[] {
+  const paths = new Set<string>();
+  const walk = (e: RuleExpression): void => {
+    switch (e.kind) {
+      case 'path':
+        paths.add(e.path.join('.'));
+        break;
+      case 'list':
+        e.items.forEach(walk);
+        break;
+      case 'call':
+        e.args.forEach(walk);
+        break;
+      case 'not':
+        walk(e.operand);
+        break;
+      case 'and':
+      case 'or':
+        e.operands.forEach(walk);
+        break;
+      case 'compare':
+        walk(e.left);
+        walk(e.right);
+        break;
+    }
+  };
+  walk(expr);
+  return [...paths];
+}
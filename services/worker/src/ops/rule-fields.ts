@@ -0,0 +1,421 @@
+/**
+ * Rule Fields (v3.2.0)
+ *
+ * The values rule expressions read for one link:
+ *
+ *   score, topic, ageHours, algoVersion   link columns
+ *   fields.*                              structured scorer output
+ *   checks.*                              title and gate checks (booleans)
+ *   vars.*                                ruleset variables for the topic
+ *
+ * Engine V3 stores the scorer's fields on the link (score_fields). Links
+ * written before that, or by the v2 suggest-matches scorers, only have the
+ * free-text reason; legacyScoreFields() turns the three reason formats into
+ * the same field names, so rules never parse reason text themselves.
+ */
+
+import type { MarketLink, Market } from '@data-module/db';
+
+export type ScoreFieldValue = string | number | boolean | null | Array<string | number>;
+export type ScoreFields = Record<string, ScoreFieldValue>;
+
+export const RULE_CHECKS = [
+  'comparatorsCompatible',
+  'numbersCompatible',
+  'marketTypeMismatch',
+  'entityMismatch',
+  'textGateFail',
+  'dateGateIncompatible',
+] as const;
+export type RuleCheck = (typeof RULE_CHECKS)[number];
+
+export interface RuleLinkInput extends Pick<MarketLink, 'score' | 'reason' | 'topic' | 'algoVersion' | 'createdAt'> {
+  scoreFields?: unknown;
+  leftMarket: Pick<Market, 'title'>;
+  rightMarket: Pick<Market, 'title'>;
+}
+
+export interface RuleScopeBase {
+  score: number;
+  topic: string;
+  ageHours: number;
+  algoVersion: string | null;
+  fields: ScoreFields;
+  checks: Record<RuleCheck, boolean>;
+}
+
+// ============================================================================
+// REASON PARSING (legacy links)
+// ============================================================================
+
+/**
+ * Parse reason string into key=value pairs
+ * Handles formats like: "entity=BITCOIN dateType=DAY_EXACT date=1.00(0d) num=0.90[price] text=0.45"
+ */
+export function parseReasonString(reason: string | null): Record<string, string> {
+  if (!reason) return {};
+
+  const result: Record<string, string> = {};
+
+  // Handle MACRO format: "MACRO: tier=STRONG me=0.50 per=0.24[month_in_quarter](2025-Q1/2025-Q1) num=0.05 txt=0.05"
+  if (reason.startsWith('MACRO:')) {
+    result._type = 'MACRO';
+    const content = reason.slice(6).trim();
+
+    // Extract tier
+    const tierMatch = content.match(/tier=(\w+)/);
+    if (tierMatch) result.tier = tierMatch[1];
+
+    // Extract me (macro entity score)
+    const meMatch = content.match(/me=([\d.]+)/);
+    if (meMatch) result.me = meMatch[1];
+
+    // Extract per (period score) with kind and periods
+    const perMatch = content.match(/per=([\d.]+)\[([^\]]+)\]\(([^)]+)\)/);
+    if (perMatch) {
+      result.per = perMatch[1];
+      result.perKind = perMatch[2];
+      result.perPeriods = perMatch[3];
+    }
+
+    // Extract num
+    const numMatch = content.match(/num=([\d.]+)/);
+    if (numMatch) result.num = numMatch[1];
+
+    // Extract txt
+    const txtMatch = content.match(/txt=([\d.]+)/);
+    if (txtMatch) result.txt = txtMatch[1];
+
+    return result;
+  }
+
+  // Handle Intraday format FIRST (has bucket=): "entity=BITCOIN bucket=2026-01-21T14:00:00.000Z dir=up/up text=0.45"
+  // Check bucket before entity since intraday can have both
+  const bucketMatch = reason.match(/bucket=([^\s]+)/);
+  if (bucketMatch) {
+    result._type = 'INTRADAY';
+
+    const entityMatch = reason.match(/entity=(\w+)/);
+    if (entityMatch) result.entity = entityMatch[1];
+
+    result.bucket = bucketMatch[1];
+
+    const dirMatch = reason.match(/dir=([^/]+)\/([^\s]+)/);
+    if (dirMatch) {
+      result.dirL = dirMatch[1];
+      result.dirR = dirMatch[2];
+    }
+
+    const textMatch = reason.match(/text=([\d.]+)/);
+    if (textMatch) result.text = textMatch[1];
+
+    return result;
+  }
+
+  // Handle Crypto daily format: "entity=BITCOIN dateType=DAY_EXACT date=1.00(0d) num=0.90[price] text=0.45"
+  const entityMatch = reason.match(/entity=(\w+)/);
+  if (entityMatch) {
+    result._type = 'CRYPTO';
+    result.entity = entityMatch[1];
+
+    // Extract dateType
+    const dateTypeMatch = reason.match(/dateType=(\w+)/);
+    if (dateTypeMatch) result.dateType = dateTypeMatch[1];
+
+    // Extract date score and day diff
+    const dateMatch = reason.match(/date=([\d.]+)\(([^)]+)\)/);
+    if (dateMatch) {
+      result.date = dateMatch[1];
+      result.dateDiff = dateMatch[2];
+    }
+
+    // Extract num score and context
+    const numMatch = reason.match(/num=([\d.]+)(?:\[([^\]]+)\])?/);
+    if (numMatch) {
+      result.num = numMatch[1];
+      if (numMatch[2]) result.numContext = numMatch[2];
+    }
+
+    // Extract text score
+    const textMatch = reason.match(/text=([\d.]+)/);
+    if (textMatch) result.text = textMatch[1];
+
+    return result;
+  }
+
+  // Fallback: try to extract any key=value pairs
+  const kvPattern = /(\w+)=([\d.]+|\w+)/g;
+  let match;
+  while ((match = kvPattern.exec(reason)) !== null) {
+    result[match[1]] = match[2];
+  }
+
+  return result;
+}
+
+function toNumber(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Structured fields for a link that only has a reason string, named like
+ * the scorer results they came from (CryptoScoreResult,
+ * IntradayScoreResult, suggest-matches macro scoring)
+ */
+export function legacyScoreFields(reason: string | null): ScoreFields {
+  const parsed = parseReasonString(reason);
+
+  switch (parsed._type) {
+    case 'CRYPTO': {
+      // The daily scorer only writes a reason after the entity gate (entityScore = 1)
+      const dayDiff = parsed.dateDiff?.match(/^([+-]?\d+)d$/);
+      return {
+        entity: parsed.entity,
+        entityScore: 1,
+        dateTypeL: parsed.dateType ?? null,
+        dateScore: toNumber(parsed.date),
+        dayDiff: dayDiff ? parseInt(dayDiff[1], 10) : null,
+        numberScore: toNumber(parsed.num),
+        numberContextL: parsed.numContext ?? null,
+        textScore: toNumber(parsed.text),
+      };
+    }
+    case 'INTRADAY':
+      return {
+        entity: parsed.entity ?? null,
+        entityScore: parsed.entity ? 1 : 0,
+        timeBucket: parsed.bucket,
+        directionL: parsed.dirL && parsed.dirL !== 'any' ? parsed.dirL : null,
+        directionR: parsed.dirR && parsed.dirR !== 'any' ? parsed.dirR : null,
+        textScore: toNumber(parsed.text),
+      };
+    case 'MACRO':
+      return {
+        tier: parsed.tier ?? null,
+        macroEntityScore: toNumber(parsed.me),
+        periodScore: toNumber(parsed.per),
+        periodKind: parsed.perKind ?? null,
+        numberBonus: toNumber(parsed.num),
+        textBonus: toNumber(parsed.txt),
+      };
+    default: {
+      const fields: ScoreFields = {};
+      for (const [key, value] of Object.entries(parsed)) {
+        fields[key] = toNumber(value) ?? value;
+      }
+      return fields;
+    }
+  }
+}
+
+function isScoreFields(value: unknown): value is ScoreFields {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Stored scorer fields, else the ones recoverable from the reason
+ */
+export function linkScoreFields(link: Pick<RuleLinkInput, 'reason' | 'scoreFields'>): ScoreFields {
+  return isScoreFields(link.scoreFields) ? link.scoreFields : legacyScoreFields(link.reason);
+}
+
+// ============================================================================
+// TITLE CHECKS
+// ============================================================================
+
+/**
+ * Extract numbers from market title for comparison
+ */
+export function extractNumbers(title: string): number[] {
+  const numbers: number[] = [];
+
+  // Match currency amounts like $100,000 or $100k
+  const currencyPattern = /\$[\d,]+(?:\.\d+)?[kmb]?/gi;
+  const currencyMatches = title.match(currencyPattern) || [];
+  for (const m of currencyMatches) {
+    const cleaned = m.replace(/[$,]/g, '').toLowerCase();
+    let val = parseFloat(cleaned);
+    if (cleaned.endsWith('k')) val *= 1000;
+    else if (cleaned.endsWith('m')) val *= 1000000;
+    else if (cleaned.endsWith('b')) val *= 1000000000;
+    if (!isNaN(val)) numbers.push(val);
+  }
+
+  // Match percentages like 5.5%
+  const percentPattern = /[\d.]+%/g;
+  const percentMatches = title.match(percentPattern) || [];
+  for (const m of percentMatches) {
+    const val = parseFloat(m.replace('%', ''));
+    if (!isNaN(val)) numbers.push(val);
+  }
+
+  // Match plain numbers (but not years or dates)
+  const plainPattern = /(?<![/-])\b(\d{1,3}(?:,\d{3})*(?:\.\d+)?)\b(?![/-])/g;
+  let plainMatch;
+  while ((plainMatch = plainPattern.exec(title)) !== null) {
+    const val = parseFloat(plainMatch[1].replace(/,/g, ''));
+    // Skip likely years (1900-2100) and very small numbers
+    if (!isNaN(val) && (val < 1900 || val > 2100) && val >= 0.01) {
+      numbers.push(val);
+    }
+  }
+
+  return [...new Set(numbers)]; // dedupe
+}
+
+/**
+ * Check if two number sets are compatible
+ */
+export function numbersCompatible(nums1: number[], nums2: number[]): { compatible: boolean; reason: string } {
+  if (nums1.length === 0 && nums2.length === 0) {
+    return { compatible: true, reason: 'no_numbers' };
+  }
+
+  if (nums1.length === 0 || nums2.length === 0) {
+    return { compatible: false, reason: 'missing_numbers' };
+  }
+
+  // Check if any number pair is compatible
+  for (const n1 of nums1) {
+    for (const n2 of nums2) {
+      const absDiff = Math.abs(n1 - n2);
+      const relDiff = Math.abs(n1 - n2) / Math.max(n1, n2);
+
+      if (absDiff <= 1 || relDiff <= 0.001) {
+        return { compatible: true, reason: `match:${n1}≈${n2}` };
+      }
+    }
+  }
+
+  return { compatible: false, reason: `no_match:${nums1.join(',')}vs${nums2.join(',')}` };
+}
+
+/**
+ * Extract comparator from market title (GE, LE, BETWEEN, RANGE, etc.)
+ */
+export function extractComparator(title: string): string | null {
+  const lower = title.toLowerCase();
+
+  if (lower.includes('above') || lower.includes('at or above') || lower.includes('at least') || lower.includes('≥') || lower.includes('>=')) {
+    return 'GE';
+  }
+  if (lower.includes('below') || lower.includes('at or below') || lower.includes('at most') || lower.includes('≤') || lower.includes('<=')) {
+    return 'LE';
+  }
+  if (lower.includes('between') || lower.includes('range')) {
+    return 'BETWEEN';
+  }
+  if (lower.includes('exactly') || lower.includes('equal to')) {
+    return 'EQ';
+  }
+
+  return null;
+}
+
+/**
+ * Check if comparators are compatible
+ */
+export function comparatorsCompatible(comp1: string | null, comp2: string | null): boolean {
+  if (!comp1 || !comp2) return true; // If either is missing, assume compatible
+  return comp1 === comp2;
+}
+
+/**
+ * Detect if markets are different types (daily vs intraday)
+ */
+function detectIncompatibleMarketType(leftTitle: string, rightTitle: string): boolean {
+  // Intraday indicators
+  const intradayPatterns = [
+    /in (the )?next \d+ ?min/i,
+    /in (the )?next hour/i,
+    /\d{1,2}:\d{2}/,
+    /\d+ ?minute/i,
+    /hourly/i,
+    /intraday/i,
+  ];
+
+  // Daily indicators
+  const dailyPatterns = [
+    /on [a-z]+ \d+/i,
+    /by end of day/i,
+    /daily/i,
+    /close price/i,
+    /settle/i,
+    /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)\b.*\d{1,2}/i,
+  ];
+
+  const typeOf = (title: string) =>
+    intradayPatterns.some(p => p.test(title)) ? 'intraday' : dailyPatterns.some(p => p.test(title)) ? 'daily' : 'unknown';
+  const leftType = typeOf(leftTitle);
+  const rightType = typeOf(rightTitle);
+
+  // Only flag as incompatible if we're confident about both types
+  return (
+    (leftType === 'intraday' && rightType === 'daily') ||
+    (leftType === 'daily' && rightType === 'intraday')
+  );
+}
+
+// ============================================================================
+// GATE MARKERS (legacy reasons)
+// ============================================================================
+
+/**
+ * Patterns that indicate entity mismatch in reason string
+ */
+const ENTITY_MISMATCH_PATTERNS = [
+  /entity mismatch/i,
+  /different entit/i,
+  /wrong entity/i,
+  /asset mismatch/i,
+  /ENTITY_GATE_FAIL/i,
+  /MACRO_GATE_FAIL.*entities missing/i,
+];
+
+/**
+ * Patterns that indicate date/period mismatch
+ */
+const DATE_MISMATCH_PATTERNS = [
+  /date mismatch/i,
+  /settle mismatch/i,
+  /different date/i,
+  /incompatible period/i,
+  /period mismatch/i,
+  /DATE_GATE_FAIL/i,
+  /PERIOD_GATE_FAIL.*incompatible/i,
+];
+
+function matchesAny(reason: string | null, patterns: RegExp[]): boolean {
+  return reason !== null && patterns.some(p => p.test(reason));
+}
+
+// ============================================================================
+// SCOPE
+// ============================================================================
+
+/**
+ * Everything but ruleset variables, evaluated once per link
+ */
+export function buildRuleScope(link: RuleLinkInput, topic: string, now: Date = new Date()): RuleScopeBase {
+  const leftTitle = link.leftMarket.title;
+  const rightTitle = link.rightMarket.title;
+  const reason = link.reason;
+
+  return {
+    score: link.score,
+    topic,
+    ageHours: (now.getTime() - new Date(link.createdAt).getTime()) / (1000 * 60 * 60),
+    algoVersion: link.algoVersion,
+    fields: linkScoreFields(link),
+    checks: {
+      comparatorsCompatible: comparatorsCompatible(extractComparator(leftTitle), extractComparator(rightTitle)),
+      numbersCompatible: numbersCompatible(extractNumbers(leftTitle), extractNumbers(rightTitle)).compatible,
+      marketTypeMismatch: detectIncompatibleMarketType(leftTitle, rightTitle),
+      entityMismatch: matchesAny(reason, ENTITY_MISMATCH_PATTERNS),
+      textGateFail: matchesAny(reason, [/TEXT_GATE_FAIL/i]),
+      dateGateIncompatible: matchesAny(reason, DATE_MISMATCH_PATTERNS) && reason!.includes('incompatible'),
+    },
+  };
+}
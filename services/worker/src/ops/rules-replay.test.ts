@@ -0,0 +1,86 @@
+/**
+ * Tests for ruleset replay (v3.2.0)
+ *
+ * Run: npx tsx --test services/worker/src/ops/rules-replay.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { parseRuleset } from './ruleset.js';
+import { replayRulesets, type ReplayLink } from './rules-replay.js';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+function link(id: number, status: string, score: number, textScore: number): ReplayLink {
+  return {
+    id,
+    status,
+    score,
+    reason: null,
+    topic: 'crypto_daily',
+    algoVersion: 'crypto_daily@3.0.0',
+    createdAt: new Date(NOW.getTime() - 72 * 60 * 60 * 1000),
+    scoreFields: { entityScore: 1, dayDiff: 0, textScore },
+    leftMarket: { title: `Left ${id}` },
+    rightMarket: { title: `Right ${id}` },
+  };
+}
+
+function ruleset(version: string, minText: number, floor: number) {
+  return parseRuleset({
+    version,
+    confirm: {
+      crypto_daily: {
+        minScore: 0.9,
+        rules: [
+          { id: 'CD_DATE_EXACT', when: 'fields.dayDiff == 0' },
+          { id: 'CD_TEXT_SANITY', when: `fields.textScore >= ${minText}` },
+        ],
+      },
+    },
+    reject: { minAgeHours: 24, vars: { floor }, rules: [{ id: 'SCORE_BELOW_FLOOR', when: 'score < vars.floor' }] },
+  });
+}
+
+describe('replayRulesets', () => {
+  it('lists links whose outcome changes and flags overturned reviews', () => {
+    const links = [
+      link(1, 'suggested', 0.95, 0.1), // keep → confirm (text threshold lowered)
+      link(2, 'rejected', 0.93, 0.1), // keep → confirm, overturns a rejection
+      link(3, 'suggested', 0.95, 0.5), // confirm in both
+      link(4, 'confirmed', 0.58, 0.5), // keep → reject (floor raised), overturns a confirmation
+      link(5, 'suggested', 0.4, 0.5), // reject in both
+    ];
+
+    const result = replayRulesets(links, ruleset('a', 0.12, 0.5), ruleset('b', 0.08, 0.6), { now: NOW });
+
+    assert.strictEqual(result.links, 5);
+    assert.deepStrictEqual(result.changes.map((c) => [c.linkId, c.baseline.action, c.candidate.action, c.conflict]), [
+      [1, 'keep', 'confirm', false],
+      [2, 'keep', 'confirm', true],
+      [4, 'keep', 'reject', true],
+    ]);
+    assert.deepStrictEqual(result.byTransition, { 'keep→confirm': 2, 'keep→reject': 1 });
+    assert.strictEqual(result.conflicts, 2);
+    assert.deepStrictEqual(result.changes[0].baseline.rules, ['CD_TEXT_SANITY']);
+    assert.deepStrictEqual(result.changes[2].candidate.rules, ['SCORE_BELOW_FLOOR']);
+    assert.deepStrictEqual(result.byTopic, [
+      {
+        topic: 'crypto_daily',
+        links: 5,
+        baseline: { confirm: 1, reject: 1, keep: 3 },
+        candidate: { confirm: 3, reject: 2, keep: 0 },
+        changed: 3,
+      },
+    ]);
+  });
+
+  it('applies the minimum age override to both rulesets', () => {
+    const fresh = { ...link(1, 'suggested', 0.58, 0.5), createdAt: NOW };
+    const stale = replayRulesets([fresh], ruleset('a', 0.12, 0.5), ruleset('b', 0.12, 0.6), { now: NOW });
+    assert.strictEqual(stale.changes.length, 0);
+
+    const forced = replayRulesets([fresh], ruleset('a', 0.12, 0.5), ruleset('b', 0.12, 0.6), { now: NOW, minAgeHours: 0 });
+    assert.deepStrictEqual(forced.byTransition, { 'keep→reject': 1 });
+  });
+});
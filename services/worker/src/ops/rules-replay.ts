@@ -0,0 +1,149 @@
+/**
+ * Ruleset Replay (v3.2.0)
+ *
+ * Runs two rulesets over the same links and lists the links whose outcome
+ * differs, so a rule change can be reviewed before it is deployed. Each
+ * ruleset decides per link as the ops loop would: confirm when the topic's
+ * confirm rules pass, else reject when a reject rule fires, else keep.
+ * Links are replayed whatever their current status, so a change that
+ * would confirm a reviewer-rejected link (or reject a confirmed one) shows
+ * up as a conflict.
+ */
+
+import { evaluateConfirmRuleset, evaluateRejectRuleset, type LinkRuleset } from './ruleset.js';
+import { buildRuleScope, type RuleLinkInput, type RuleScopeBase } from './rule-fields.js';
+import type { Topic } from './safe-rules.js';
+
+export type ReplayAction = 'confirm' | 'reject' | 'keep';
+
+export interface ReplayLink extends RuleLinkInput {
+  id: number;
+  status: string;
+}
+
+export interface ReplayDecision {
+  action: ReplayAction;
+  /** Confirm: rules passed; reject: rules fired; keep: confirm rules failed */
+  rules: string[];
+}
+
+export interface ReplayChange {
+  linkId: number;
+  topic: string;
+  status: string;
+  score: number;
+  leftTitle: string;
+  rightTitle: string;
+  baseline: ReplayDecision;
+  candidate: ReplayDecision;
+  /** Candidate overturns a reviewed outcome (confirms a rejected link or rejects a confirmed one) */
+  conflict: boolean;
+}
+
+export interface ReplayTopicSummary {
+  topic: string;
+  links: number;
+  baseline: Record<ReplayAction, number>;
+  candidate: Record<ReplayAction, number>;
+  changed: number;
+}
+
+export interface ReplayResult {
+  links: number;
+  changes: ReplayChange[];
+  /** Change counts keyed "baseline→candidate" (e.g. "keep→confirm") */
+  byTransition: Record<string, number>;
+  byTopic: ReplayTopicSummary[];
+  conflicts: number;
+}
+
+export interface ReplayOptions {
+  /** Overrides both rulesets' reject.minAgeHours */
+  minAgeHours?: number;
+  /** Reference time for link age (default: now) */
+  now?: Date;
+}
+
+/**
+ * Outcome of one ruleset for one link
+ */
+export function decideLink(
+  ruleset: LinkRuleset,
+  link: RuleLinkInput,
+  topic: string,
+  scope: RuleScopeBase,
+  minAgeHours?: number
+): ReplayDecision {
+  let failed: string[] = [];
+  if (ruleset.confirm[topic]) {
+    const confirm = evaluateConfirmRuleset(ruleset, link, topic as Topic, undefined, scope);
+    if (confirm.pass) return { action: 'confirm', rules: confirm.passedRules };
+    failed = confirm.failedRules;
+  }
+
+  const reject = evaluateRejectRuleset(ruleset, link, topic, minAgeHours, scope);
+  if (reject.reject) return { action: 'reject', rules: reject.rejectionReasons };
+  return { action: 'keep', rules: failed };
+}
+
+function emptyCounts(): Record<ReplayAction, number> {
+  return { confirm: 0, reject: 0, keep: 0 };
+}
+
+/**
+ * Replay baseline and candidate rulesets over links
+ */
+export function replayRulesets(
+  links: ReplayLink[],
+  baseline: LinkRuleset,
+  candidate: LinkRuleset,
+  options: ReplayOptions = {}
+): ReplayResult {
+  const now = options.now ?? new Date();
+  const changes: ReplayChange[] = [];
+  const byTransition: Record<string, number> = {};
+  const byTopic = new Map<string, ReplayTopicSummary>();
+
+  for (const link of links) {
+    const topic = link.topic || 'all';
+    const scope = buildRuleScope(link, topic, now);
+    const before = decideLink(baseline, link, topic, scope, options.minAgeHours);
+    const after = decideLink(candidate, link, topic, scope, options.minAgeHours);
+
+    let summary = byTopic.get(topic);
+    if (!summary) {
+      summary = { topic, links: 0, baseline: emptyCounts(), candidate: emptyCounts(), changed: 0 };
+      byTopic.set(topic, summary);
+    }
+    summary.links++;
+    summary.baseline[before.action]++;
+    summary.candidate[after.action]++;
+
+    if (before.action === after.action) continue;
+
+    summary.changed++;
+    const transition = `${before.action}→${after.action}`;
+    byTransition[transition] = (byTransition[transition] || 0) + 1;
+    changes.push({
+      linkId: link.id,
+      topic,
+      status: link.status,
+      score: link.score,
+      leftTitle: link.leftMarket.title,
+      rightTitle: link.rightMarket.title,
+      baseline: before,
+      candidate: after,
+      conflict:
+        (after.action === 'confirm' && link.status === 'rejected') ||
+        (after.action === 'reject' && link.status === 'confirmed'),
+    });
+  }
+
+  return {
+    links: links.length,
+    changes,
+    byTransition,
+    byTopic: [...byTopic.values()].sort((a, b) => b.links - a.links),
+    conflicts: changes.filter((c) => c.conflict).length,
+  };
+}
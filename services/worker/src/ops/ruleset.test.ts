@@ -0,0 +1,148 @@
+/**
+ * Tests for link rulesets (v3.2.0)
+ *
+ * Run: npx tsx --test services/worker/src/ops/ruleset.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  parseRuleset,
+  getDefaultRuleset,
+  evaluateConfirmRuleset,
+  evaluateRejectRuleset,
+  rejectVars,
+  RulesetError,
+} from './ruleset.js';
+import { legacyScoreFields, type RuleLinkInput } from './rule-fields.js';
+
+const HOUR = 60 * 60 * 1000;
+
+function link(partial: Partial<RuleLinkInput>): RuleLinkInput {
+  return {
+    score: 0.92,
+    reason: null,
+    topic: 'crypto_daily',
+    algoVersion: 'crypto_daily@3.0.0',
+    createdAt: new Date(Date.now() - 48 * HOUR),
+    scoreFields: null,
+    leftMarket: { title: 'Bitcoin above $100,000 on Jan 1?' },
+    rightMarket: { title: 'Bitcoin above $100,000 on Jan 1' },
+    ...partial,
+  };
+}
+
+const CRYPTO_FIELDS = {
+  entityScore: 1,
+  dateScore: 1,
+  numberScore: 0.9,
+  textScore: 0.45,
+  dayDiff: 0,
+  dateTypeL: 'DAY_EXACT',
+  dateTypeR: 'DAY_EXACT',
+  tier: 'STRONG',
+};
+
+describe('legacyScoreFields', () => {
+  it('maps each reason format to scorer field names', () => {
+    assert.deepStrictEqual(legacyScoreFields('entity=BITCOIN dateType=DAY_EXACT date=0.60(+2d) num=0.90[price] text=0.45'), {
+      entity: 'BITCOIN',
+      entityScore: 1,
+      dateTypeL: 'DAY_EXACT',
+      dateScore: 0.6,
+      dayDiff: 2,
+      numberScore: 0.9,
+      numberContextL: 'price',
+      textScore: 0.45,
+    });
+    assert.deepStrictEqual(legacyScoreFields('entity=BITCOIN bucket=2026-01-21T14:00:00.000Z dir=up/any text=0.20'), {
+      entity: 'BITCOIN',
+      entityScore: 1,
+      timeBucket: '2026-01-21T14:00:00.000Z',
+      directionL: 'up',
+      directionR: null,
+      textScore: 0.2,
+    });
+    assert.deepStrictEqual(legacyScoreFields('MACRO: tier=WEAK me=0.50 per=0.18[month_in_year](2025-01/2025) num=0.05 txt=0.02'), {
+      tier: 'WEAK',
+      macroEntityScore: 0.5,
+      periodScore: 0.18,
+      periodKind: 'month_in_year',
+      numberBonus: 0.05,
+      textBonus: 0.02,
+    });
+    assert.deepStrictEqual(legacyScoreFields('ent=0.80 dt=1.00 jc=0.03'), { ent: 0.8, dt: 1, jc: 0.03 });
+  });
+});
+
+describe('default ruleset', () => {
+  const ruleset = getDefaultRuleset();
+
+  it('confirms from stored score fields without a reason', () => {
+    const evaluation = evaluateConfirmRuleset(ruleset, link({ scoreFields: CRYPTO_FIELDS }), 'crypto_daily');
+    assert.strictEqual(evaluation.pass, true, `Failed rules: ${evaluation.failedRules.join(', ')}`);
+
+    const offByOne = evaluateConfirmRuleset(ruleset, link({ scoreFields: { ...CRYPTO_FIELDS, dayDiff: 1 } }), 'crypto_daily');
+    assert.deepStrictEqual(offByOne.failedRules, ['CD_DATE_EXACT']);
+    assert.match(offByOne.results.find((r) => r.ruleId === 'CD_DATE_EXACT')!.reason, /fields\.dayDiff=1/);
+  });
+
+  it('prefers stored fields over the reason', () => {
+    const evaluation = evaluateConfirmRuleset(
+      ruleset,
+      link({ scoreFields: CRYPTO_FIELDS, reason: 'entity=BITCOIN dateType=DAY_EXACT date=1.00(0d) num=0.90[price] text=0.05' }),
+      'crypto_daily'
+    );
+    assert.strictEqual(evaluation.pass, true);
+  });
+
+  it('never confirms topics without confirm rules', () => {
+    const evaluation = evaluateConfirmRuleset(ruleset, link({ topic: 'rates', scoreFields: CRYPTO_FIELDS }), 'rates');
+    assert.deepStrictEqual(evaluation.failedRules, ['UNKNOWN_TOPIC']);
+  });
+
+  it('applies per-topic reject floors and the minimum age', () => {
+    assert.strictEqual(rejectVars(ruleset, 'crypto_daily').floor, 0.55);
+    assert.strictEqual(rejectVars(ruleset, 'sports').floor, 0.5);
+
+    const low = link({ score: 0.52, scoreFields: CRYPTO_FIELDS });
+    assert.deepStrictEqual(evaluateRejectRuleset(ruleset, low, 'crypto_daily').rejectionReasons, ['SCORE_BELOW_FLOOR']);
+    assert.strictEqual(evaluateRejectRuleset(ruleset, low, 'sports').reject, false);
+
+    const fresh = link({ score: 0.3, createdAt: new Date(Date.now() - HOUR) });
+    assert.strictEqual(evaluateRejectRuleset(ruleset, fresh, 'crypto_daily').reject, false);
+    assert.strictEqual(evaluateRejectRuleset(ruleset, fresh, 'crypto_daily', 0).reject, true);
+  });
+});
+
+describe('parseRuleset', () => {
+  const rule = (when: string) => ({ version: '1', reject: { rules: [{ id: 'R', when }] } });
+
+  it('fills reject defaults', () => {
+    const ruleset = parseRuleset({ version: ' 2 ' });
+    assert.strictEqual(ruleset.version, '2');
+    assert.deepStrictEqual(ruleset.confirm, {});
+    assert.strictEqual(ruleset.reject.minAgeHours, 24);
+    assert.deepStrictEqual(ruleset.reject.rules, []);
+  });
+
+  it('rejects invalid files with the offending location', () => {
+    const cases: Array<[unknown, RegExp]> = [
+      [{}, /version/],
+      [rule('score >'), /reject\.rules\.R/],
+      [rule('link.score < 0.5'), /unknown field "link\.score"/],
+      [rule('checks.sameVenue'), /unknown check/],
+      [{ version: '1', confirm: { macro: { minScore: 1.5, rules: [] } } }, /confirm\.macro\.minScore/],
+      [{ version: '1', reject: { rules: [{ id: 'R', when: 'score < 0.5' }, { id: 'R', when: 'score < 0.4' }] } }, /duplicate rule id R/],
+      [{ version: '1', reject: { rules: [{ id: 'lower', when: 'score < 0.5' }] } }, /id must match/],
+    ];
+    for (const [data, message] of cases) {
+      assert.throws(() => parseRuleset(data, 'test.json'), (error: unknown) => {
+        assert.ok(error instanceof RulesetError);
+        assert.match(error.message, /^test\.json: /);
+        assert.match(error.message, message);
+        return true;
+      });
+    }
+  });
+});
@@ -0,0 +1,349 @@
+/**
+ * Link Rulesets (v3.2.0)
+ *
+ * Auto-confirm and auto-reject rules live in a versioned JSON file
+ * (rules/link-rules.json by default) instead of code:
+ *
+ *   {
+ *     "version": "2026.10.19-1",
+ *     "confirm": {
+ *       "<topic>": { "minScore": 0.88, "rules": [{ "id": "CD_DATE_EXACT", "when": "fields.dayDiff == 0" }] }
+ *     },
+ *     "reject": {
+ *       "minAgeHours": 24,
+ *       "vars": { "floor": 0.5 },
+ *       "topics": { "<topic>": { "floor": 0.55 } },
+ *       "rules": [{ "id": "SCORE_BELOW_FLOOR", "when": "score < vars.floor" }]
+ *     }
+ *   }
+ *
+ * A link is confirmed when it meets its topic's minScore and every confirm
+ * rule holds; topics without confirm rules are never auto-confirmed. A link
+ * old enough is rejected when any reject rule holds. `when` expressions use
+ * the rule-expr language over the scope built in rule-fields.
+ */
+
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import {
+  parseRuleExpression,
+  evaluateRuleExpression,
+  referencedPaths,
+  resolvePath,
+  isTruthy,
+  RuleExpressionError,
+  type RuleExpression,
+  type RuleScope,
+} from './rule-expr.js';
+import { buildRuleScope, RULE_CHECKS, type RuleLinkInput, type RuleScopeBase } from './rule-fields.js';
+import type { SafeEvaluation, SafeRuleResult, Topic } from './safe-rules.js';
+import type { RejectEvaluation, RejectRuleResult } from './reject-rules.js';
+
+/** Ruleset shipped with the worker */
+export const DEFAULT_RULESET_PATH = fileURLToPath(new URL('../../rules/link-rules.json', import.meta.url));
+
+export interface LinkRule {
+  id: string;
+  when: string;
+  description?: string;
+  expression: RuleExpression;
+}
+
+export interface ConfirmTopicRules {
+  minScore: number;
+  rules: LinkRule[];
+}
+
+export interface RejectRules {
+  minAgeHours: number;
+  vars: Record<string, number | string>;
+  /** Per-topic overrides of vars */
+  topics: Record<string, Record<string, number | string>>;
+  rules: LinkRule[];
+}
+
+export interface LinkRuleset {
+  version: string;
+  description?: string;
+  /** File the ruleset was loaded from */
+  source: string;
+  confirm: Record<string, ConfirmTopicRules>;
+  reject: RejectRules;
+}
+
+export class RulesetError extends Error {
+  constructor(message: string, public readonly source: string) {
+    super(`${source}: ${message}`);
+    this.name = 'RulesetError';
+  }
+}
+
+const SCOPE_ROOTS = new Set(['score', 'topic', 'ageHours', 'algoVersion', 'fields', 'checks', 'vars']);
+const RULE_ID_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function parseVars(value: unknown, where: string, source: string): Record<string, number | string> {
+  if (value === undefined) return {};
+  if (!isObject(value)) throw new RulesetError(`${where} must be an object`, source);
+  for (const [key, v] of Object.entries(value)) {
+    if (typeof v !== 'number' && typeof v !== 'string') {
+      throw new RulesetError(`${where}.${key} must be a number or string`, source);
+    }
+  }
+  return value as Record<string, number | string>;
+}
+
+function parseRules(value: unknown, where: string, source: string): LinkRule[] {
+  if (!Array.isArray(value)) throw new RulesetError(`${where} must be an array`, source);
+
+  const seen = new Set<string>();
+  return value.map((raw, i) => {
+    if (!isObject(raw)) throw new RulesetError(`${where}[${i}] must be an object`, source);
+    const { id, when, description } = raw;
+    if (typeof id !== 'string' || !RULE_ID_PATTERN.test(id)) {
+      throw new RulesetError(`${where}[${i}].id must match ${RULE_ID_PATTERN}`, source);
+    }
+    if (seen.has(id)) throw new RulesetError(`${where}: duplicate rule id ${id}`, source);
+    seen.add(id);
+    if (typeof when !== 'string' || !when.trim()) {
+      throw new RulesetError(`${where}.${id}.when must be a non-empty string`, source);
+    }
+    if (description !== undefined && typeof description !== 'string') {
+      throw new RulesetError(`${where}.${id}.description must be a string`, source);
+    }
+
+    let expression: RuleExpression;
+    try {
+      expression = parseRuleExpression(when);
+    } catch (error) {
+      if (error instanceof RuleExpressionError) throw new RulesetError(`${where}.${id}: ${error.message}`, source);
+      throw error;
+    }
+    for (const path of referencedPaths(expression)) {
+      const [root, key] = path.split('.');
+      if (!SCOPE_ROOTS.has(root)) {
+        throw new RulesetError(`${where}.${id}: unknown field "${path}" (expected one of ${[...SCOPE_ROOTS].join(', ')})`, source);
+      }
+      if (root === 'checks' && !(RULE_CHECKS as readonly string[]).includes(key)) {
+        throw new RulesetError(`${where}.${id}: unknown check "${path}"`, source);
+      }
+    }
+
+    return { id, when, ...(description !== undefined && { description }), expression };
+  });
+}
+
+/**
+ * Validate a parsed rule file
+ */
+export function parseRuleset(data: unknown, source = '<inline>'): LinkRuleset {
+  if (!isObject(data)) throw new RulesetError('ruleset must be a JSON object', source);
+  const { version, description, confirm, reject } = data;
+
+  if (typeof version !== 'string' || !version.trim()) {
+    throw new RulesetError('version must be a non-empty string', source);
+  }
+  if (description !== undefined && typeof description !== 'string') {
+    throw new RulesetError('description must be a string', source);
+  }
+
+  const confirmRules: Record<string, ConfirmTopicRules> = {};
+  if (confirm !== undefined) {
+    if (!isObject(confirm)) throw new RulesetError('confirm must be an object keyed by topic', source);
+    for (const [topic, spec] of Object.entries(confirm)) {
+      if (!isObject(spec)) throw new RulesetError(`confirm.${topic} must be an object`, source);
+      if (typeof spec.minScore !== 'number' || spec.minScore < 0 || spec.minScore > 1) {
+        throw new RulesetError(`confirm.${topic}.minScore must be a number in [0, 1]`, source);
+      }
+      confirmRules[topic] = { minScore: spec.minScore, rules: parseRules(spec.rules, `confirm.${topic}.rules`, source) };
+    }
+  }
+
+  const rejectSpec = reject ?? {};
+  if (!isObject(rejectSpec)) throw new RulesetError('reject must be an object', source);
+  const minAgeHours = rejectSpec.minAgeHours ?? 24;
+  if (typeof minAgeHours !== 'number' || minAgeHours < 0) {
+    throw new RulesetError('reject.minAgeHours must be a non-negative number', source);
+  }
+  const topics: Record<string, Record<string, number | string>> = {};
+  if (rejectSpec.topics !== undefined) {
+    if (!isObject(rejectSpec.topics)) throw new RulesetError('reject.topics must be an object keyed by topic', source);
+    for (const [topic, vars] of Object.entries(rejectSpec.topics)) {
+      topics[topic] = parseVars(vars, `reject.topics.${topic}`, source);
+    }
+  }
+
+  return {
+    version: version.trim(),
+    ...(description !== undefined && { description }),
+    source,
+    confirm: confirmRules,
+    reject: {
+      minAgeHours,
+      vars: parseVars(rejectSpec.vars, 'reject.vars', source),
+      topics,
+      rules: rejectSpec.rules === undefined ? [] : parseRules(rejectSpec.rules, 'reject.rules', source),
+    },
+  };
+}
+
+/**
+ * Read and validate a rule file
+ */
+export function loadRuleset(path: string): LinkRuleset {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new RulesetError(`cannot read rule file (${(error as Error).message})`, path);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new RulesetError(`invalid JSON (${(error as Error).message})`, path);
+  }
+  return parseRuleset(data, path);
+}
+
+let defaultRuleset: LinkRuleset | null = null;
+
+/**
+ * The shipped ruleset (read once)
+ */
+export function getDefaultRuleset(): LinkRuleset {
+  defaultRuleset ??= loadRuleset(DEFAULT_RULESET_PATH);
+  return defaultRuleset;
+}
+
+/**
+ * A --rules path, else the shipped ruleset
+ */
+export function resolveRuleset(path?: string): LinkRuleset {
+  return path ? loadRuleset(path) : getDefaultRuleset();
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/** Referenced values, for explaining a rule outcome (e.g. "fields.textScore=0.08") */
+function describeValues(rule: LinkRule, scope: RuleScope): string {
+  return referencedPaths(rule.expression)
+    .map((path) => {
+      const value = resolvePath(scope, path.split('.'));
+      return `${path}=${typeof value === 'number' ? Number(value.toFixed(3)) : JSON.stringify(value)}`;
+    })
+    .join(' ');
+}
+
+function holds(rule: LinkRule, scope: RuleScope): boolean {
+  return isTruthy(evaluateRuleExpression(rule.expression, scope));
+}
+
+/**
+ * Evaluate a topic's confirm rules; a scope may be passed to share one
+ * between rulesets
+ */
+export function evaluateConfirmRuleset(
+  ruleset: LinkRuleset,
+  link: RuleLinkInput,
+  topic: Topic,
+  minScore?: number,
+  base: RuleScopeBase = buildRuleScope(link, topic)
+): SafeEvaluation {
+  const spec = ruleset.confirm[topic];
+  const effectiveMinScore = minScore ?? spec?.minScore;
+
+  // Pre-check: score must meet minimum
+  if (effectiveMinScore !== undefined && link.score < effectiveMinScore) {
+    return {
+      pass: false,
+      topic,
+      score: link.score,
+      results: [{ pass: false, ruleId: 'SCORE_MINIMUM', reason: `score=${link.score.toFixed(3)} < ${effectiveMinScore}` }],
+      failedRules: ['SCORE_MINIMUM'],
+      passedRules: [],
+    };
+  }
+
+  const scope = { ...base, vars: {} };
+  const results: SafeRuleResult[] = spec
+    ? spec.rules.map((rule) => {
+        const pass = holds(rule, scope);
+        return { pass, ruleId: rule.id, reason: `${rule.when} (${describeValues(rule, scope)})` };
+      })
+    : [{ pass: false, ruleId: 'UNKNOWN_TOPIC', reason: `no confirm rules for topic ${topic} in ${ruleset.version}` }];
+
+  const failedRules = results.filter(r => !r.pass).map(r => r.ruleId);
+  const passedRules = results.filter(r => r.pass).map(r => r.ruleId);
+
+  return {
+    pass: failedRules.length === 0,
+    topic,
+    score: link.score,
+    results,
+    failedRules,
+    passedRules,
+  };
+}
+
+/**
+ * Reject variables for a topic: reject.vars overlaid with reject.topics[topic]
+ */
+export function rejectVars(ruleset: LinkRuleset, topic: string): Record<string, number | string> {
+  return { ...ruleset.reject.vars, ...ruleset.reject.topics[topic] };
+}
+
+/**
+ * Evaluate reject rules; links younger than minAgeHours are kept
+ */
+export function evaluateRejectRuleset(
+  ruleset: LinkRuleset,
+  link: RuleLinkInput,
+  topic: string,
+  minAgeHours: number = ruleset.reject.minAgeHours,
+  base: RuleScopeBase = buildRuleScope(link, topic)
+): RejectEvaluation {
+  const { ageHours } = base;
+
+  // Age check (don't reject fresh links)
+  if (ageHours < minAgeHours) {
+    return {
+      reject: false,
+      topic,
+      score: link.score,
+      ageHours,
+      results: [{ reject: false, ruleId: 'AGE_TOO_FRESH', reason: `age=${ageHours.toFixed(1)}h < ${minAgeHours}h minimum` }],
+      rejectionReasons: [],
+    };
+  }
+
+  const scope = { ...base, vars: rejectVars(ruleset, topic) };
+  const results: RejectRuleResult[] = [
+    { reject: false, ruleId: 'AGE_CHECK', reason: `age=${ageHours.toFixed(1)}h >= ${minAgeHours}h` },
+  ];
+  for (const rule of ruleset.reject.rules) {
+    if (holds(rule, scope)) {
+      results.push({ reject: true, ruleId: rule.id, reason: `${rule.when} (${describeValues(rule, scope)})` });
+    }
+  }
+
+  const rejectionReasons = results.filter(r => r.reject).map(r => r.ruleId);
+  return {
+    reject: rejectionReasons.length > 0,
+    topic,
+    score: link.score,
+    ageHours,
+    results,
+    rejectionReasons,
+  };
+}
@@ -199,6 +199,10 @@ describe('evaluateSafeRules', () => {
     reason,
     algoVersion: 'test',
     topic: 'crypto_daily',
+    scoreFields: null,
+    resolutionVerdict: null,
+    resolutionCheckedAt: null,
+    resolutionDetails: null,
     createdAt: new Date(),
     updatedAt: new Date(),
     leftMarket: {
@@ -228,6 +232,8 @@ describe('evaluateSafeRules', () => {
       isMve: null,
       kalshiMveCollectionTicker: null,
       kalshiMveSelectedLegs: null,
+      contentHash: null,
+      contentChangedAt: null,
       outcomes: [],
     },
     rightMarket: {
@@ -257,6 +263,8 @@ describe('evaluateSafeRules', () => {
       isMve: null,
       kalshiMveCollectionTicker: null,
       kalshiMveSelectedLegs: null,
+      contentHash: null,
+      contentChangedAt: null,
       outcomes: [],
     },
   });
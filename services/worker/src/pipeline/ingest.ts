@@ -5,9 +5,12 @@ import {
   MarketRepository,
   QuoteRepository,
   IngestionRepository,
+  ResolutionRepository,
   type Venue as DbVenue,
 } from '@data-module/db';
 import { createAdapter, type VenueAdapter, type KalshiAuthConfig, KalshiAdapter } from '../adapters/index.js';
+import { recordIngestionCycle, startMetricsServerFromEnv } from '../metrics/index.js';
+import { SIGNAL_STORE_ENABLED, refreshMarketSignals } from '../matching/signalStore.js';
 
 export interface IngestOptions {
   venue: Venue;
@@ -35,6 +38,7 @@ export async function runIngestion(options: IngestOptions): Promise<IngestResult
   const marketRepo = new MarketRepository(prisma);
   const quoteRepo = new QuoteRepository(prisma, dedupConfig);
   const ingestionRepo = new IngestionRepository(prisma);
+  const resolutionRepo = new ResolutionRepository(prisma);
 
   // Start run tracking
   const { runId } = await ingestionRepo.startRun(venue as DbVenue);
@@ -111,6 +115,20 @@ export async function runIngestion(options: IngestOptions): Promise<IngestResult
 
     console.log(`[${venue}] Markets: ${upsertResult.created} created, ${upsertResult.updated} updated`);
 
+    // v3.2.0: Capture settlement outcomes reported with the markets
+    await resolutionRepo.upsertResolutions(venue as DbVenue, allMarkets);
+
+    // v3.2.0: Re-extract matching signals for the markets this upsert created or changed
+    if (SIGNAL_STORE_ENABLED) {
+      for (const r of await refreshMarketSignals(venue, undefined, upsertResult.changedIds)) {
+        if (r.error) {
+          console.warn(`[${venue}] Signals ${r.topic}: ${r.error}`);
+        } else if (r.extracted > 0) {
+          console.log(`[${venue}] Signals ${r.topic}: ${r.extracted} extracted, ${r.reused} reused`);
+        }
+      }
+    }
+
     // Fetch quotes for active markets
     // v2.6.5: Limit quotes processing to prevent OOM on large datasets (default 5000)
     const quotesMaxMarkets = parseInt(process.env.QUOTES_MAX_MARKETS || '5000', 10);
@@ -177,6 +195,11 @@ export async function runIngestion(options: IngestOptions): Promise<IngestResult
           impliedProb: q.impliedProb,
           liquidity: q.liquidity,
           volume: q.volume,
+          bestBid: q.bestBid,
+          bestAsk: q.bestAsk,
+          bidSize: q.bidSize,
+          askSize: q.askSize,
+          spread: q.spread,
         };
       })
       .filter((q): q is NonNullable<typeof q> => q !== null);
@@ -205,6 +228,7 @@ export async function runIngestion(options: IngestOptions): Promise<IngestResult
     );
 
     console.log(`[${venue}] Ingestion completed in ${formatDuration(stats.durationMs)}`);
+    recordIngestionCycle(venue, 'full', true, stats.durationMs, stats);
 
     return { ok: true, stats };
   } catch (error) {
@@ -220,6 +244,7 @@ export async function runIngestion(options: IngestOptions): Promise<IngestResult
     );
 
     console.error(`[${venue}] Ingestion failed: ${errorMsg}`);
+    recordIngestionCycle(venue, 'full', false, stats.durationMs, stats);
 
     return { ok: false, stats, error: errorMsg };
   }
@@ -234,6 +259,8 @@ export async function runIngestionLoop(
   const { intervalSeconds, ...ingestOptions } = options;
 
   console.log(`Starting ingestion loop for ${options.venue} every ${intervalSeconds}s`);
+  // v3.2.0: Prometheus /metrics for this process when METRICS_PORT is set
+  startMetricsServerFromEnv();
 
   while (true) {
     await runIngestion(ingestOptions);
@@ -6,13 +6,21 @@ import {
   QuoteRepository,
   IngestionRepository,
   WatchlistRepository,
+  ResolutionRepository,
   type Venue as DbVenue,
 } from '@data-module/db';
 import { createAdapter, type VenueAdapter, type KalshiAuthConfig, KalshiAdapter } from '../adapters/index.js';
+import { startKalshiWsQuotes, startPolymarketWsQuotes } from './ws-quotes-runner.js';
+import { recordIngestionCycle, startMetricsServerFromEnv, type IngestionCycleCounts } from '../metrics/index.js';
+import { SIGNAL_STORE_ENABLED, refreshMarketSignals } from '../matching/signalStore.js';
 
 // v2.6.7: Quotes mode from environment
 const QUOTES_MODE = process.env.QUOTES_MODE || 'global';
 const QUOTES_WATCHLIST_LIMIT = parseInt(process.env.QUOTES_WATCHLIST_LIMIT || '2000', 10);
+// v3.2.0: Kalshi quotes transport - 'rest' (orderbook polling) or 'ws' (websocket stream)
+const KALSHI_QUOTES_TRANSPORT = process.env.KALSHI_QUOTES_TRANSPORT || 'rest';
+// v3.2.0: Polymarket quotes transport - 'rest' (CLOB /books polling) or 'ws' (market channel stream)
+const POLYMARKET_QUOTES_TRANSPORT = process.env.POLYMARKET_QUOTES_TRANSPORT || 'rest';
 
 export interface SplitRunnerConfig {
   venue: Venue;
@@ -30,6 +38,7 @@ interface SyncResult {
   ok: boolean;
   durationMs: number;
   error?: string;
+  counts?: IngestionCycleCounts;
 }
 
 // v2.6.6: Track consecutive zero-fetch cycles for cursor reset protection
@@ -43,6 +52,7 @@ async function syncMarkets(
   adapter: VenueAdapter,
   marketRepo: MarketRepository,
   ingestionRepo: IngestionRepository,
+  resolutionRepo: ResolutionRepository,
   venue: DbVenue,
   maxMarkets: number,
   pageSize: number
@@ -110,6 +120,23 @@ async function syncMarkets(
     const upsertResult = await marketRepo.upsertMarkets(venue, allMarkets);
     console.log(`[${venue}:markets] Created: ${upsertResult.created}, Updated: ${upsertResult.updated}`);
 
+    // v3.2.0: Capture settlement outcomes reported with the markets
+    const resolutionResult = await resolutionRepo.upsertResolutions(venue, allMarkets);
+    if (resolutionResult.created + resolutionResult.updated > 0) {
+      console.log(`[${venue}:markets] Resolutions: ${resolutionResult.created} new, ${resolutionResult.updated} updated`);
+    }
+
+    // v3.2.0: Re-extract matching signals for the markets this upsert created or changed
+    if (SIGNAL_STORE_ENABLED) {
+      for (const r of await refreshMarketSignals(venue, undefined, upsertResult.changedIds)) {
+        if (r.error) {
+          console.warn(`[${venue}:markets] Signals ${r.topic}: ${r.error}`);
+        } else if (r.extracted > 0) {
+          console.log(`[${venue}:markets] Signals ${r.topic}: ${r.extracted} extracted, ${r.reused} reused`);
+        }
+      }
+    }
+
     await ingestionRepo.updateWatermark(venue, 'markets', new Date());
     await ingestionRepo.markSuccess(venue, 'markets', {
       marketsFetched: allMarkets.length,
@@ -122,7 +149,11 @@ async function syncMarkets(
       durationMs: Date.now() - startTime,
     });
 
-    return { ok: true, durationMs: Date.now() - startTime };
+    return {
+      ok: true,
+      durationMs: Date.now() - startTime,
+      counts: { marketsFetched: allMarkets.length, marketsWritten: upsertResult.created + upsertResult.updated },
+    };
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : String(error);
     await ingestionRepo.markError(venue, 'markets', errorMsg);
@@ -273,6 +304,11 @@ async function syncQuotes(
           impliedProb: q.impliedProb,
           liquidity: q.liquidity,
           volume: q.volume,
+          bestBid: q.bestBid,
+          bestAsk: q.bestAsk,
+          bidSize: q.bidSize,
+          askSize: q.askSize,
+          spread: q.spread,
           raw: q.raw,
         };
       })
@@ -300,7 +336,11 @@ async function syncQuotes(
       durationMs: Date.now() - startTime,
     });
 
-    return { ok: true, durationMs: Date.now() - startTime };
+    return {
+      ok: true,
+      durationMs: Date.now() - startTime,
+      counts: { quotesFetched: quotes.length, quotesWritten: insertResult.inserted },
+    };
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : String(error);
     await ingestionRepo.markError(venue, 'quotes', errorMsg);
@@ -329,6 +369,7 @@ export async function runSplitIngestionLoop(config: SplitRunnerConfig): Promise<
   const quoteRepo = new QuoteRepository(prisma, dedupConfig);
   const ingestionRepo = new IngestionRepository(prisma);
   const watchlistRepo = new WatchlistRepository(prisma);
+  const resolutionRepo = new ResolutionRepository(prisma);
 
   const adapter = createAdapter(venue, {
     config: { pageSize },
@@ -340,6 +381,26 @@ export async function runSplitIngestionLoop(config: SplitRunnerConfig): Promise<
   console.log(`[${venue}] Quotes closed lookback: ${quotesClosedLookbackHours}h, Max markets/cycle: ${quotesMaxMarketsPerCycle}`);
   console.log(`[${venue}] Quotes mode: ${QUOTES_MODE} (limit: ${QUOTES_WATCHLIST_LIMIT})`);
 
+  // v3.2.0: Prometheus /metrics for this process when METRICS_PORT is set
+  startMetricsServerFromEnv();
+
+  // v3.2.0: Websocket transport replaces the REST quotes cycle for Kalshi/Polymarket
+  const streamQuotes =
+    (venue === 'kalshi' && KALSHI_QUOTES_TRANSPORT === 'ws') ||
+    (venue === 'polymarket' && POLYMARKET_QUOTES_TRANSPORT === 'ws');
+  if (streamQuotes) {
+    console.log(`[${venue}] Quotes transport: ws (REST quotes sync disabled)`);
+    if (venue === 'kalshi') {
+      startKalshiWsQuotes({
+        kalshiAuth: config.kalshiAuth,
+        dedupConfig,
+        watchlistLimit: QUOTES_WATCHLIST_LIMIT,
+      });
+    } else {
+      startPolymarketWsQuotes({ dedupConfig, watchlistLimit: QUOTES_WATCHLIST_LIMIT });
+    }
+  }
+
   let lastMarketsSync = 0;
   let lastQuotesSync = 0;
 
@@ -353,16 +414,18 @@ export async function runSplitIngestionLoop(config: SplitRunnerConfig): Promise<
         adapter,
         marketRepo,
         ingestionRepo,
+        resolutionRepo,
         venue as DbVenue,
         maxMarkets,
         pageSize
       );
       console.log(`[${venue}:markets] Completed in ${formatDuration(result.durationMs)}`);
+      recordIngestionCycle(venue, 'markets', result.ok, result.durationMs, result.counts);
       lastMarketsSync = Date.now();
     }
 
     // Check if quotes sync is due
-    if (now - lastQuotesSync >= quotesRefreshSeconds * 1000) {
+    if (!streamQuotes && now - lastQuotesSync >= quotesRefreshSeconds * 1000) {
       console.log(`[${venue}:quotes] Starting sync...`);
       const result = await syncQuotes(
         adapter,
@@ -375,14 +438,17 @@ export async function runSplitIngestionLoop(config: SplitRunnerConfig): Promise<
         watchlistRepo
       );
       console.log(`[${venue}:quotes] Completed in ${formatDuration(result.durationMs)}`);
+      recordIngestionCycle(venue, 'quotes', result.ok, result.durationMs, result.counts);
       lastQuotesSync = Date.now();
     }
 
     // Sleep for the shorter interval
-    const nextCheck = Math.min(
-      lastMarketsSync + marketsRefreshSeconds * 1000,
-      lastQuotesSync + quotesRefreshSeconds * 1000
-    );
+    const nextCheck = streamQuotes
+      ? lastMarketsSync + marketsRefreshSeconds * 1000
+      : Math.min(
+          lastMarketsSync + marketsRefreshSeconds * 1000,
+          lastQuotesSync + quotesRefreshSeconds * 1000
+        );
     const sleepMs = Math.max(1000, nextCheck - Date.now());
     await new Promise((r) => setTimeout(r, sleepMs));
   }
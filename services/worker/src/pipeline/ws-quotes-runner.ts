@@ -0,0 +1,257 @@
+/**
+ * Websocket quotes runners (v3.2.0)
+ *
+ * Streaming alternative to the REST quotes loop in split-runner: keeps a
+ * venue websocket client subscribed to the quote watchlist and periodically
+ * flushes changed books through QuoteRepository (which applies the usual dedup).
+ */
+
+import type { DedupConfig, QuoteDTO } from '@data-module/core';
+import { DEFAULT_DEDUP_CONFIG } from '@data-module/core';
+import {
+  getClient,
+  QuoteRepository,
+  IngestionRepository,
+  WatchlistRepository,
+  type QuoteInput,
+  type Venue,
+} from '@data-module/db';
+import { KalshiWsClient, kalshiWsUrl } from '../adapters/kalshi-ws.js';
+import { PolymarketWsClient, POLYMARKET_WS_URL } from '../adapters/polymarket-ws.js';
+import { loadKalshiConfig } from '../adapters/kalshi.config.js';
+import type { KalshiAuthConfig } from '../adapters/kalshi.adapter.js';
+import { recordIngestionCycle } from '../metrics/index.js';
+
+/**
+ * What the runner needs from a venue websocket client
+ */
+export interface QuoteStreamClient {
+  readonly connected: boolean;
+  readonly bookCount: number;
+  readonly stats: object;
+  start(): void;
+  stop(): void;
+  drainQuotes(now?: Date): QuoteDTO[];
+}
+
+export interface WatchlistStreamMarket {
+  externalId: string;
+  outcomes: Array<{ id: number; name: string; externalId: string | null }>;
+}
+
+interface WsQuotesRunnerOptions {
+  venue: Venue;
+  client: QuoteStreamClient;
+  /** Push the current watchlist to the client; returns the number of subscribed keys */
+  subscribe(markets: WatchlistStreamMarket[]): number;
+  url: string;
+  dedupConfig?: DedupConfig;
+  flushIntervalMs: number;
+  watchlistRefreshSeconds: number;
+  watchlistLimit: number;
+}
+
+export interface WsQuotesRunnerConfig {
+  dedupConfig?: DedupConfig;
+  /** Websocket URL (default: <VENUE>_WS_URL or the venue's public endpoint) */
+  url?: string;
+  /** How often changed books are written (default: <VENUE>_WS_FLUSH_MS or 2000) */
+  flushIntervalMs?: number;
+  /** How often the watchlist is reloaded (default: <VENUE>_WS_WATCHLIST_REFRESH_SECONDS or 300) */
+  watchlistRefreshSeconds?: number;
+  /** Max watchlisted markets to subscribe (default: QUOTES_WATCHLIST_LIMIT or 2000) */
+  watchlistLimit?: number;
+}
+
+export interface KalshiWsRunnerConfig extends WsQuotesRunnerConfig {
+  kalshiAuth?: KalshiAuthConfig;
+}
+
+export interface WsQuotesRunnerHandle<C extends QuoteStreamClient = QuoteStreamClient> {
+  client: C;
+  stop(): void;
+}
+
+function formatStats(stats: object): string {
+  return Object.entries(stats)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(' ');
+}
+
+function runWsQuotes(options: WsQuotesRunnerOptions): () => void {
+  const { venue, client, url, flushIntervalMs, watchlistRefreshSeconds, watchlistLimit } = options;
+  const tag = `[${venue}:ws]`;
+
+  const prisma = getClient();
+  const quoteRepo = new QuoteRepository(prisma, options.dedupConfig ?? DEFAULT_DEDUP_CONFIG);
+  const ingestionRepo = new IngestionRepository(prisma);
+  const watchlistRepo = new WatchlistRepository(prisma);
+
+  // marketExternalId:outcomeName -> outcomeId
+  let outcomeMap = new Map<string, number>();
+  let lastWatchlistLoad = 0;
+  let flushing = false;
+  let stateReady = false;
+  let totals = { written: 0, skipped: 0 };
+
+  const loadWatchlist = async (): Promise<void> => {
+    const items = await watchlistRepo.getMarketIdsForQuotes(venue, watchlistLimit);
+    const markets = await prisma.market.findMany({
+      where: { venue, id: { in: items.map((i) => i.marketId) } },
+      select: { externalId: true, outcomes: { select: { id: true, name: true, externalId: true } } },
+    });
+
+    const next = new Map<string, number>();
+    for (const market of markets) {
+      for (const outcome of market.outcomes) {
+        next.set(`${market.externalId}:${outcome.name}`, outcome.id);
+      }
+    }
+    outcomeMap = next;
+    const keys = options.subscribe(markets);
+    lastWatchlistLoad = Date.now();
+    console.log(`${tag} Watchlist loaded: ${markets.length} markets (${keys} subscriptions)`);
+  };
+
+  const flush = async (): Promise<void> => {
+    if (flushing) return;
+    flushing = true;
+    const startTime = Date.now();
+
+    try {
+      // The (venue, 'quotes') row only exists once a REST quotes loop has run
+      if (!stateReady) {
+        await ingestionRepo.getOrCreateState(venue, 'quotes');
+        stateReady = true;
+      }
+
+      if (Date.now() - lastWatchlistLoad >= watchlistRefreshSeconds * 1000) {
+        await loadWatchlist();
+      }
+
+      const quotes = client.drainQuotes(new Date());
+      if (quotes.length === 0) return;
+
+      const inputs: QuoteInput[] = [];
+      for (const q of quotes) {
+        const outcomeId = outcomeMap.get(`${q.marketExternalId}:${q.outcomeName}`);
+        if (!outcomeId) continue;
+        inputs.push({
+          outcomeId,
+          ts: q.ts,
+          price: q.price,
+          impliedProb: q.impliedProb,
+          liquidity: q.liquidity,
+          volume: q.volume,
+          bestBid: q.bestBid,
+          bestAsk: q.bestAsk,
+          bidSize: q.bidSize,
+          askSize: q.askSize,
+          spread: q.spread,
+          raw: q.raw,
+        });
+      }
+
+      const result = await quoteRepo.insertQuotesWithDedup(inputs);
+      totals = { written: totals.written + result.inserted, skipped: totals.skipped + result.skipped + result.skippedInCycle };
+
+      await ingestionRepo.updateWatermark(venue, 'quotes', new Date());
+      await ingestionRepo.markSuccess(venue, 'quotes', {
+        marketsFetched: 0,
+        marketsWritten: 0,
+        outcomesFetched: 0,
+        outcomesWritten: 0,
+        quotesFetched: quotes.length,
+        quotesWritten: result.inserted,
+        quotesSkippedDedup: result.skipped + result.skippedInCycle,
+        durationMs: Date.now() - startTime,
+      });
+      recordIngestionCycle(venue, 'quotes', true, Date.now() - startTime, {
+        quotesFetched: quotes.length,
+        quotesWritten: result.inserted,
+      });
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      console.error(`${tag} Flush failed: ${errorMsg}`);
+      recordIngestionCycle(venue, 'quotes', false, Date.now() - startTime);
+      await ingestionRepo.markError(venue, 'quotes', errorMsg).catch(() => undefined);
+    } finally {
+      flushing = false;
+    }
+  };
+
+  const flushTimer = setInterval(() => void flush(), flushIntervalMs);
+  const statsTimer = setInterval(() => {
+    console.log(
+      `${tag} connected=${client.connected} books=${client.bookCount} ${formatStats(client.stats)} ` +
+        `written=${totals.written} skipped=${totals.skipped}`
+    );
+  }, 60000);
+
+  console.log(`${tag} Streaming quotes from ${url} (flush every ${flushIntervalMs}ms)`);
+  void loadWatchlist()
+    .catch((error) => console.error(`${tag} Initial watchlist load failed:`, error))
+    .finally(() => client.start());
+
+  return () => {
+    clearInterval(flushTimer);
+    clearInterval(statsTimer);
+    client.stop();
+  };
+}
+
+/**
+ * Start streaming quotes for watchlisted Kalshi markets
+ */
+export function startKalshiWsQuotes(config: KalshiWsRunnerConfig = {}): WsQuotesRunnerHandle<KalshiWsClient> {
+  const url = config.url || process.env.KALSHI_WS_URL || kalshiWsUrl(loadKalshiConfig().baseUrl);
+  const client = new KalshiWsClient({ url, auth: config.kalshiAuth, proxyUrl: process.env.KALSHI_PROXY_URL });
+
+  const stop = runWsQuotes({
+    venue: 'kalshi',
+    client,
+    url,
+    dedupConfig: config.dedupConfig,
+    flushIntervalMs: config.flushIntervalMs ?? parseInt(process.env.KALSHI_WS_FLUSH_MS || '2000', 10),
+    watchlistRefreshSeconds:
+      config.watchlistRefreshSeconds ?? parseInt(process.env.KALSHI_WS_WATCHLIST_REFRESH_SECONDS || '300', 10),
+    watchlistLimit: config.watchlistLimit ?? parseInt(process.env.QUOTES_WATCHLIST_LIMIT || '2000', 10),
+    subscribe: (markets) => {
+      client.setTickers(markets.map((m) => m.externalId));
+      return markets.length;
+    },
+  });
+
+  return { client, stop };
+}
+
+/**
+ * Start streaming quotes for watchlisted Polymarket markets
+ * Subscribes the CLOB token ids stored as outcome externalIds
+ */
+export function startPolymarketWsQuotes(config: WsQuotesRunnerConfig = {}): WsQuotesRunnerHandle<PolymarketWsClient> {
+  const url = config.url || process.env.POLYMARKET_WS_URL || POLYMARKET_WS_URL;
+  const client = new PolymarketWsClient({ url });
+
+  const stop = runWsQuotes({
+    venue: 'polymarket',
+    client,
+    url,
+    dedupConfig: config.dedupConfig,
+    flushIntervalMs: config.flushIntervalMs ?? parseInt(process.env.POLYMARKET_WS_FLUSH_MS || '2000', 10),
+    watchlistRefreshSeconds:
+      config.watchlistRefreshSeconds ?? parseInt(process.env.POLYMARKET_WS_WATCHLIST_REFRESH_SECONDS || '300', 10),
+    watchlistLimit: config.watchlistLimit ?? parseInt(process.env.QUOTES_WATCHLIST_LIMIT || '2000', 10),
+    subscribe: (markets) => {
+      const tokens = markets.flatMap((m) =>
+        m.outcomes
+          .filter((o) => o.externalId)
+          .map((o) => ({ tokenId: o.externalId!, marketExternalId: m.externalId, outcomeName: o.name }))
+      );
+      client.setTokens(tokens);
+      return tokens.length;
+    },
+  });
+
+  return { client, stop };
+}
@@ -0,0 +1,139 @@
+/**
+ * Tests for cross-venue consensus probability (v3.2.0)
+ *
+ * Run: npx tsx --test services/worker/src/pricing/consensus.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  evaluateConsensus,
+  sourceWeight,
+  yesProbability,
+  DEFAULT_CONSENSUS_CONFIG,
+  type ConsensusMarket,
+  type ConsensusSubject,
+} from './consensus.js';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const ago = (sec: number) => new Date(NOW.getTime() - sec * 1000);
+
+function market(
+  marketId: number,
+  venue: string,
+  yes: number | null,
+  opts: { title?: string; liquidity?: number | null; spread?: number | null; ageSec?: number } = {}
+): ConsensusMarket {
+  const { title = 'Will the Fed cut rates in December?', liquidity = null, spread = null, ageSec = 0 } = opts;
+  return {
+    marketId,
+    venue,
+    title,
+    outcomes: [
+      { side: 'yes', quote: yes === null ? null : { impliedProb: yes, liquidity, spread, ts: ago(ageSec) } },
+      { side: 'no', quote: null },
+    ],
+  };
+}
+
+function subject(...markets: ConsensusMarket[]): ConsensusSubject {
+  return { subjectKey: 'link:1', topic: 'RATES', markets };
+}
+
+const close = (actual: number, expected: number, eps = 1e-9) =>
+  assert.ok(Math.abs(actual - expected) < eps, `expected ${expected}, got ${actual}`);
+
+describe('sourceWeight', () => {
+  it('grows with liquidity and halves every half-life', () => {
+    assert.strictEqual(sourceWeight(null, 0, 300), 1);
+    assert.ok(sourceWeight(10_000, 0, 300) > sourceWeight(100, 0, 300));
+    close(sourceWeight(null, 300, 300), 0.5);
+    close(sourceWeight(null, 600, 300), 0.25);
+  });
+});
+
+describe('yesProbability', () => {
+  it('falls back to the complement of the No quote', () => {
+    const m: ConsensusMarket = {
+      marketId: 1,
+      venue: 'kalshi',
+      title: 'x',
+      outcomes: [
+        { side: 'yes', quote: null },
+        { side: 'no', quote: { impliedProb: 0.3, liquidity: null, spread: null, ts: NOW } },
+      ],
+    };
+    close(yesProbability(m)!.impliedProb, 0.7);
+  });
+});
+
+describe('evaluateConsensus', () => {
+  it('averages equally weighted venues', () => {
+    const { result } = evaluateConsensus(subject(market(1, 'polymarket', 0.6), market(2, 'kalshi', 0.64)), DEFAULT_CONSENSUS_CONFIG, NOW);
+    assert.ok(result);
+    close(result.prob, 0.62);
+    close(result.divergence, 0.04);
+    assert.strictEqual(result.diverged, false);
+    close(result.lo, 0.6);
+    close(result.hi, 0.64);
+    assert.deepStrictEqual(result.marketIds, [1, 2]);
+  });
+
+  it('leans toward the more liquid and fresher source', () => {
+    const liquid = evaluateConsensus(
+      subject(market(1, 'polymarket', 0.6, { liquidity: 50_000 }), market(2, 'kalshi', 0.7)),
+      DEFAULT_CONSENSUS_CONFIG,
+      NOW
+    ).result!;
+    assert.ok(liquid.prob < 0.65);
+
+    const stale = evaluateConsensus(
+      subject(market(1, 'polymarket', 0.6, { ageSec: 900 }), market(2, 'kalshi', 0.7)),
+      DEFAULT_CONSENSUS_CONFIG,
+      NOW
+    ).result!;
+    assert.ok(stale.prob > 0.65);
+    assert.strictEqual(stale.ts.getTime(), NOW.getTime());
+  });
+
+  it('widens the band with the spread and flags divergence', () => {
+    const tight = evaluateConsensus(subject(market(1, 'polymarket', 0.5), market(2, 'kalshi', 0.5)), DEFAULT_CONSENSUS_CONFIG, NOW).result!;
+    assert.strictEqual(tight.hi - tight.lo, 0);
+
+    const wide = evaluateConsensus(
+      subject(market(1, 'polymarket', 0.5, { spread: 0.04 }), market(2, 'kalshi', 0.5, { spread: 0.04 })),
+      DEFAULT_CONSENSUS_CONFIG,
+      NOW
+    ).result!;
+    close(wide.hi - wide.lo, 0.04);
+
+    const apart = evaluateConsensus(subject(market(1, 'polymarket', 0.4), market(2, 'kalshi', 0.6)), DEFAULT_CONSENSUS_CONFIG, NOW).result!;
+    assert.strictEqual(apart.diverged, true);
+  });
+
+  it('flips markets phrased as the negation of the first', () => {
+    const { result } = evaluateConsensus(
+      subject(
+        market(1, 'polymarket', 0.7, { title: 'Will Bitcoin be above $100,000 on Dec 31?' }),
+        market(2, 'kalshi', 0.3, { title: 'Will Bitcoin be below $100,000 on Dec 31?' })
+      ),
+      DEFAULT_CONSENSUS_CONFIG,
+      NOW
+    );
+    close(result!.prob, 0.7);
+    assert.strictEqual(result!.sources[1].inverted, true);
+  });
+
+  it('skips subjects without fresh quotes from two venues', () => {
+    const config = DEFAULT_CONSENSUS_CONFIG;
+    assert.strictEqual(evaluateConsensus(subject(market(1, 'polymarket', null), market(2, 'kalshi', null)), config, NOW).skipReason, 'no_quotes');
+    assert.strictEqual(
+      evaluateConsensus(subject(market(1, 'polymarket', 0.5, { ageSec: 7200 }), market(2, 'kalshi', 0.5, { ageSec: 7200 })), config, NOW).skipReason,
+      'stale_quotes'
+    );
+    assert.strictEqual(
+      evaluateConsensus(subject(market(1, 'polymarket', 0.5), market(2, 'kalshi', 0.5, { ageSec: 7200 })), config, NOW).skipReason,
+      'single_venue'
+    );
+  });
+});
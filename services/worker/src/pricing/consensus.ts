@@ -0,0 +1,158 @@
+/**
+ * Cross-venue consensus probability (v3.2.0)
+ *
+ * Blends the Yes probability of every market in a confirmed link or event
+ * cluster into one number. Each source is weighted by
+ *
+ *   liquidity  1 + ln(1 + liquidity)       (unknown liquidity counts as 1)
+ *   freshness  0.5 ^ (ageSec / halfLifeSec)
+ *
+ * The band is the weighted standard deviation of the sources combined with
+ * their weighted half-spread, so one wide book or two disagreeing venues
+ * both widen it. Markets phrased as the negation of the subject's first
+ * market contribute 1 - p.
+ *
+ * Pure functions only - persistence lives in ConsensusRepository.
+ */
+
+import type { Venue } from '@data-module/core';
+import type { ConsensusQuoteInput, ConsensusSourceRecord } from '@data-module/db';
+import { detectInvertedPair } from '../arb/index.js';
+
+export interface SourceQuote {
+  impliedProb: number;
+  liquidity: number | null;
+  spread: number | null;
+  ts: Date;
+}
+
+export interface ConsensusMarket {
+  marketId: number;
+  venue: Venue;
+  title: string;
+  outcomes: Array<{ side: 'yes' | 'no' | 'other'; quote: SourceQuote | null }>;
+}
+
+export interface ConsensusSubject {
+  /** "link:<id>" or "cluster:<key>" */
+  subjectKey: string;
+  topic: string | null;
+  markets: ConsensusMarket[];
+}
+
+export interface ConsensusConfig {
+  /** Age at which a quote's weight halves */
+  halfLifeSec: number;
+  /** Quotes older than this are ignored */
+  maxQuoteAgeSec: number;
+  /** Max - min source probability above which the subject is flagged */
+  divergenceThreshold: number;
+  /** Distinct venues needed among fresh sources */
+  minVenues: number;
+}
+
+export const DEFAULT_CONSENSUS_CONFIG: ConsensusConfig = {
+  halfLifeSec: parseInt(process.env.CONSENSUS_HALF_LIFE_SEC || '300', 10),
+  maxQuoteAgeSec: parseInt(process.env.CONSENSUS_MAX_QUOTE_AGE_SEC || '3600', 10),
+  divergenceThreshold: parseFloat(process.env.CONSENSUS_DIVERGENCE_THRESHOLD || '0.05'),
+  minVenues: 2,
+};
+
+export type ConsensusSkipReason = 'no_quotes' | 'stale_quotes' | 'single_venue';
+
+export interface ConsensusEvaluation {
+  subjectKey: string;
+  result: ConsensusQuoteInput | null;
+  skipReason?: ConsensusSkipReason;
+}
+
+/**
+ * Yes probability of a binary market, from the No quote if Yes is unquoted
+ */
+export function yesProbability(market: ConsensusMarket): SourceQuote | null {
+  const yes = market.outcomes.find((o) => o.side === 'yes')?.quote;
+  if (yes) return yes;
+
+  const no = market.outcomes.find((o) => o.side === 'no')?.quote;
+  return no ? { ...no, impliedProb: 1 - no.impliedProb } : null;
+}
+
+/**
+ * Weight of one source
+ */
+export function sourceWeight(liquidity: number | null, ageSec: number, halfLifeSec: number): number {
+  const liquidityWeight = 1 + Math.log1p(Math.max(0, liquidity ?? 0));
+  const freshness = halfLifeSec > 0 ? Math.pow(0.5, ageSec / halfLifeSec) : 1;
+  return liquidityWeight * freshness;
+}
+
+/**
+ * Blend a subject's markets into one consensus row
+ */
+export function evaluateConsensus(
+  subject: ConsensusSubject,
+  config: ConsensusConfig = DEFAULT_CONSENSUS_CONFIG,
+  now: Date = new Date()
+): ConsensusEvaluation {
+  const reference = subject.markets[0];
+  const sources: ConsensusSourceRecord[] = [];
+  let sawQuote = false;
+  let newest = 0;
+
+  for (const market of subject.markets) {
+    const quote = yesProbability(market);
+    if (!quote) continue;
+    sawQuote = true;
+
+    const ageSec = Math.max(0, Math.round((now.getTime() - quote.ts.getTime()) / 1000));
+    if (ageSec > config.maxQuoteAgeSec) continue;
+
+    const inverted = market !== reference && detectInvertedPair(reference.title, market.title);
+    sources.push({
+      marketId: market.marketId,
+      venue: market.venue,
+      prob: inverted ? 1 - quote.impliedProb : quote.impliedProb,
+      weight: sourceWeight(quote.liquidity, ageSec, config.halfLifeSec),
+      ageSec,
+      liquidity: quote.liquidity,
+      spread: quote.spread,
+      inverted,
+    });
+    newest = Math.max(newest, quote.ts.getTime());
+  }
+
+  if (!sawQuote) {
+    return { subjectKey: subject.subjectKey, result: null, skipReason: 'no_quotes' };
+  }
+  if (sources.length === 0) {
+    return { subjectKey: subject.subjectKey, result: null, skipReason: 'stale_quotes' };
+  }
+  if (new Set(sources.map((s) => s.venue)).size < config.minVenues) {
+    return { subjectKey: subject.subjectKey, result: null, skipReason: 'single_venue' };
+  }
+
+  const totalWeight = sources.reduce((acc, s) => acc + s.weight, 0);
+  const prob = sources.reduce((acc, s) => acc + s.weight * s.prob, 0) / totalWeight;
+  const variance = sources.reduce((acc, s) => acc + s.weight * (s.prob - prob) ** 2, 0) / totalWeight;
+  const halfSpread = sources.reduce((acc, s) => acc + s.weight * ((s.spread ?? 0) / 2) ** 2, 0) / totalWeight;
+  const band = Math.sqrt(variance + halfSpread);
+
+  const probs = sources.map((s) => s.prob);
+  const divergence = Math.max(...probs) - Math.min(...probs);
+
+  return {
+    subjectKey: subject.subjectKey,
+    result: {
+      subjectKey: subject.subjectKey,
+      topic: subject.topic,
+      marketIds: subject.markets.map((m) => m.marketId),
+      ts: new Date(newest),
+      prob,
+      lo: Math.max(0, prob - band),
+      hi: Math.min(1, prob + band),
+      divergence,
+      diverged: divergence > config.divergenceThreshold,
+      sources,
+    },
+  };
+}
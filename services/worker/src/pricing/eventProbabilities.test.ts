@@ -0,0 +1,162 @@
+/**
+ * Tests for event-level probability normalization (v3.2.0)
+ *
+ * Run: npx tsx --test services/worker/src/pricing/eventProbabilities.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import type { MarketRepository, KalshiEventRepository, MarketWithLatestQuotes, MarketEventRef } from '@data-module/db';
+import {
+  marketEventRef,
+  normalizeEventBook,
+  normalizeMarketBook,
+  outcomeProbabilities,
+  normalizeForMarket,
+  eventExclusivity,
+} from './eventProbabilities.js';
+
+const TS = new Date('2026-10-19T12:00:00Z');
+
+function market(
+  id: number,
+  yes: number | null,
+  extra: Partial<MarketWithLatestQuotes> = {},
+  no: number | null = yes === null ? null : 1 - yes
+): MarketWithLatestQuotes {
+  const quote = (outcomeId: number, p: number | null) =>
+    p === null ? null : { outcomeId, ts: TS, price: p, impliedProb: p };
+  return {
+    id,
+    venue: 'kalshi',
+    title: `Market ${id}`,
+    pmEventId: null,
+    kalshiEventTicker: 'KXFED-26DEC',
+    ...extra,
+    outcomes: [
+      { id: id * 10 + 1, marketId: id, name: 'Yes', side: 'yes', latestQuote: quote(id * 10 + 1, yes) },
+      { id: id * 10 + 2, marketId: id, name: 'No', side: 'no', latestQuote: quote(id * 10 + 2, no) },
+    ],
+  } as unknown as MarketWithLatestQuotes;
+}
+
+const close = (actual: number | null | undefined, expected: number) =>
+  assert.ok(actual != null && Math.abs(actual - expected) < 1e-9, `expected ${expected}, got ${actual}`);
+
+describe('marketEventRef', () => {
+  it('uses the venue-specific event column', () => {
+    assert.deepStrictEqual(marketEventRef(market(1, 0.5)), { kalshiEventTicker: 'KXFED-26DEC' });
+    assert.deepStrictEqual(
+      marketEventRef(market(1, 0.5, { venue: 'polymarket', pmEventId: '123', kalshiEventTicker: null })),
+      { pmEventId: '123' }
+    );
+    assert.strictEqual(marketEventRef(market(1, 0.5, { kalshiEventTicker: null })), null);
+  });
+});
+
+describe('normalizeEventBook', () => {
+  const markets = [market(1, 0.5), market(2, 0.35), market(3, 0.2), market(4, null)];
+
+  it('normalizes the Yes legs and reports unpriced markets', () => {
+    const book = normalizeEventBook('kalshi', 'KXFED-26DEC', markets, 'proportional');
+    assert.strictEqual(book.scope, 'event');
+    close(book.booksum, 1.05);
+    assert.deepStrictEqual(book.unpricedIds, [4]);
+    assert.deepStrictEqual(book.outcomes.map((o) => o.outcomeId), [11, 21, 31]);
+    close(book.outcomes[0].normalizedProb, 0.5 / 1.05);
+  });
+
+  it('maps the event book back onto a market as Yes and its complement', () => {
+    const book = normalizeEventBook('kalshi', 'KXFED-26DEC', markets, 'shin');
+    const probs = outcomeProbabilities(markets[1], book);
+    const yes = probs.get(21)!;
+    close(yes, book.outcomes[1].normalizedProb);
+    close(probs.get(22), 1 - yes);
+    assert.strictEqual(outcomeProbabilities(markets[3], book).get(41), null);
+  });
+});
+
+describe('normalizeMarketBook', () => {
+  it('normalizes a market across its own outcomes', () => {
+    const m = market(5, 0.55, {}, 0.5);
+    const book = normalizeMarketBook(m, 'power');
+    assert.strictEqual(book.scope, 'market');
+    assert.strictEqual(book.eventId, null);
+    close(book.overround, 0.05);
+    const probs = outcomeProbabilities(m, book);
+    close(probs.get(51)! + probs.get(52)!, 1);
+  });
+});
+
+function kalshiEvents(mutuallyExclusive: boolean | null) {
+  return {
+    getByTicker: async (eventTicker: string) =>
+      mutuallyExclusive === null ? null : { eventTicker, mutuallyExclusive },
+  } as unknown as Pick<KalshiEventRepository, 'getByTicker'>;
+}
+
+describe('eventExclusivity', () => {
+  it('trusts the Kalshi mutually_exclusive flag', async () => {
+    const markets = [market(1, 0.6), market(2, 0.5)];
+    assert.strictEqual(await eventExclusivity(kalshiEvents(true), 'kalshi', 'KXFED-26DEC', markets), null);
+    assert.strictEqual(
+      await eventExclusivity(kalshiEvents(false), 'kalshi', 'KXFED-26DEC', markets),
+      'not_mutually_exclusive'
+    );
+    assert.strictEqual(await eventExclusivity(kalshiEvents(null), 'kalshi', 'KXFED-26DEC', markets), 'event_not_synced');
+  });
+
+  it('requires every Polymarket market to be negRisk', async () => {
+    const pm = (id: number, negRisk?: boolean) =>
+      market(id, 0.5, { venue: 'polymarket', pmEventId: '123', kalshiEventTicker: null, metadata: { negRisk } });
+    assert.strictEqual(await eventExclusivity(kalshiEvents(null), 'polymarket', '123', [pm(1, true), pm(2, true)]), null);
+    assert.strictEqual(
+      await eventExclusivity(kalshiEvents(null), 'polymarket', '123', [pm(1, true), pm(2)]),
+      'not_neg_risk'
+    );
+  });
+});
+
+describe('normalizeForMarket', () => {
+  function repo(markets: MarketWithLatestQuotes[]) {
+    const calls: MarketEventRef[] = [];
+    const stub = {
+      getEventMarketsWithLatestQuotes: async (ref: MarketEventRef) => {
+        calls.push(ref);
+        return markets;
+      },
+    } as unknown as MarketRepository;
+    return { stub, calls };
+  }
+
+  it('uses the event book when the event has several active markets', async () => {
+    const markets = [market(1, 0.6), market(2, 0.5)];
+    const { stub, calls } = repo(markets);
+    const book = await normalizeForMarket(stub, kalshiEvents(true), markets[0], 'proportional');
+    assert.deepStrictEqual(calls, [{ kalshiEventTicker: 'KXFED-26DEC' }]);
+    assert.strictEqual(book.scope, 'event');
+    assert.strictEqual(book.eventId, 'KXFED-26DEC');
+    assert.strictEqual(book.fallbackReason, null);
+  });
+
+  it('normalizes each rung of a threshold ladder on its own', async () => {
+    // KXBTCD-style "above $X" ladder: cumulative, Yes prices sum well above 1
+    const ladder = [95000, 100000, 105000].map((strike, i) =>
+      market(i + 1, [0.9, 0.6, 0.25][i], { title: `Bitcoin above $${strike}?`, kalshiEventTicker: 'KXBTCD-26OCT1917' })
+    );
+    const { stub } = repo(ladder);
+    const book = await normalizeForMarket(stub, kalshiEvents(false), ladder[1], 'proportional');
+    assert.strictEqual(book.scope, 'market');
+    assert.strictEqual(book.fallbackReason, 'not_mutually_exclusive');
+    assert.deepStrictEqual(book.outcomes.map((o) => o.outcomeId), [21, 22]);
+    close(book.outcomes[0].normalizedProb, 0.6);
+  });
+
+  it('falls back to the market book for single-market events', async () => {
+    const m = market(1, 0.6);
+    const { stub } = repo([m]);
+    const book = await normalizeForMarket(stub, kalshiEvents(true), m, 'proportional');
+    assert.strictEqual(book.scope, 'market');
+    assert.strictEqual(book.fallbackReason, 'single_market');
+  });
+});
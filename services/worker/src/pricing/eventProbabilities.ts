@@ -0,0 +1,220 @@
+/**
+ * Event-level implied probability normalization (v3.2.0)
+ *
+ * A Polymarket event (pmEventId) or Kalshi event (kalshiEventTicker) is a
+ * set of binary markets, one per outcome; their Yes prices are the event's
+ * book. Removing the overround from that book gives probabilities that are
+ * comparable across venues with different margins. That only holds when
+ * exactly one of the markets can resolve Yes: Kalshi flags this per event
+ * (mutually_exclusive) and Polymarket per market (negRisk). Threshold
+ * ladders ("above $X" at several strikes) and other cumulative or
+ * independent events are normalized per market instead, with the reason
+ * reported. Markets that are not part of a multi-market event are
+ * normalized across their own outcomes.
+ */
+
+import {
+  normalizeProbabilities,
+  type NormalizationMethod,
+  type Venue,
+} from '@data-module/core';
+import type {
+  MarketRepository,
+  KalshiEventRepository,
+  MarketWithLatestQuotes,
+  MarketEventRef,
+} from '@data-module/db';
+
+export interface OutcomeProbability {
+  marketId: number;
+  outcomeId: number;
+  /** Market title for event books, outcome name for market books */
+  label: string;
+  ts: Date;
+  impliedProb: number;
+  normalizedProb: number;
+}
+
+/**
+ * Why a market in a venue event was normalized on its own
+ *
+ * - single_market: the event has one active market
+ * - not_mutually_exclusive: Kalshi event without the mutually_exclusive flag
+ * - not_neg_risk: Polymarket event whose markets are not all negRisk
+ * - event_not_synced: Kalshi event missing from kalshi_events (run kalshi:events:sync)
+ */
+export type EventFallbackReason = 'single_market' | 'not_mutually_exclusive' | 'not_neg_risk' | 'event_not_synced';
+
+export interface NormalizedProbabilities {
+  /** event: one Yes leg per market of the event; market: the market's own outcomes */
+  scope: 'event' | 'market';
+  venue: Venue;
+  /** pmEventId / kalshiEventTicker, null for market scope */
+  eventId: string | null;
+  method: NormalizationMethod;
+  booksum: number;
+  overround: number;
+  /** Power exponent k or Shin z (see normalizeProbabilities) */
+  parameter: number | null;
+  outcomes: OutcomeProbability[];
+  /** Markets (event) or outcomes (market) without a latest quote, left out of the book */
+  unpricedIds: number[];
+  /** Set when the market belongs to a venue event but was not normalized as part of it */
+  fallbackReason: EventFallbackReason | null;
+}
+
+type MarketOutcome = MarketWithLatestQuotes['outcomes'][number];
+type PricedOutcome = MarketOutcome & { latestQuote: NonNullable<MarketOutcome['latestQuote']> };
+
+/**
+ * The venue event a market belongs to, if any
+ */
+export function marketEventRef(
+  market: Pick<MarketWithLatestQuotes, 'venue' | 'pmEventId' | 'kalshiEventTicker'>
+): MarketEventRef | null {
+  if (market.venue === 'polymarket' && market.pmEventId) return { pmEventId: market.pmEventId };
+  if (market.venue === 'kalshi' && market.kalshiEventTicker) return { kalshiEventTicker: market.kalshiEventTicker };
+  return null;
+}
+
+function isPriced(outcome: MarketOutcome): outcome is PricedOutcome {
+  return outcome.latestQuote !== null;
+}
+
+function buildBook(
+  base: Pick<NormalizedProbabilities, 'scope' | 'venue' | 'eventId' | 'unpricedIds' | 'fallbackReason'>,
+  legs: Array<{ marketId: number; label: string; outcome: PricedOutcome }>,
+  method: NormalizationMethod
+): NormalizedProbabilities {
+  const book = normalizeProbabilities(legs.map((l) => l.outcome.latestQuote.impliedProb), method);
+  return {
+    ...base,
+    method,
+    booksum: book.booksum,
+    overround: book.overround,
+    parameter: book.parameter,
+    outcomes: legs.map((l, i) => ({
+      marketId: l.marketId,
+      outcomeId: l.outcome.id,
+      label: l.label,
+      ts: l.outcome.latestQuote.ts,
+      impliedProb: l.outcome.latestQuote.impliedProb,
+      normalizedProb: book.probabilities[i],
+    })),
+  };
+}
+
+/**
+ * Normalize the Yes prices of an event's markets as one book
+ */
+export function normalizeEventBook(
+  venue: Venue,
+  eventId: string,
+  markets: MarketWithLatestQuotes[],
+  method: NormalizationMethod
+): NormalizedProbabilities {
+  const legs: Array<{ marketId: number; label: string; outcome: PricedOutcome }> = [];
+  const unpricedIds: number[] = [];
+
+  for (const market of markets) {
+    const yes = market.outcomes.find((o) => o.side === 'yes');
+    if (yes && isPriced(yes)) {
+      legs.push({ marketId: market.id, label: market.title, outcome: yes });
+    } else {
+      unpricedIds.push(market.id);
+    }
+  }
+
+  return buildBook({ scope: 'event', venue, eventId, unpricedIds, fallbackReason: null }, legs, method);
+}
+
+function isNegRisk(market: MarketWithLatestQuotes): boolean {
+  const metadata = market.metadata as Record<string, unknown> | null;
+  return metadata?.negRisk === true;
+}
+
+/**
+ * Whether an event's markets form one book of mutually exclusive outcomes.
+ * Returns null when they do, otherwise the reason they don't.
+ */
+export async function eventExclusivity(
+  kalshiEventRepo: Pick<KalshiEventRepository, 'getByTicker'>,
+  venue: Venue,
+  eventId: string,
+  markets: MarketWithLatestQuotes[]
+): Promise<EventFallbackReason | null> {
+  if (venue === 'polymarket') {
+    return markets.length > 0 && markets.every(isNegRisk) ? null : 'not_neg_risk';
+  }
+  const event = await kalshiEventRepo.getByTicker(eventId);
+  if (!event) return 'event_not_synced';
+  return event.mutuallyExclusive ? null : 'not_mutually_exclusive';
+}
+
+/**
+ * Normalize a single market across its own outcomes (e.g. Yes + No)
+ */
+export function normalizeMarketBook(
+  market: MarketWithLatestQuotes,
+  method: NormalizationMethod,
+  fallbackReason: EventFallbackReason | null = null
+): NormalizedProbabilities {
+  const priced = market.outcomes.filter(isPriced);
+  const unpricedIds = market.outcomes.filter((o) => !isPriced(o)).map((o) => o.id);
+
+  return buildBook(
+    { scope: 'market', venue: market.venue, eventId: null, unpricedIds, fallbackReason },
+    priced.map((o) => ({ marketId: market.id, label: o.name, outcome: o })),
+    method
+  );
+}
+
+/**
+ * Normalized probability for each of a market's outcomes (by outcome id).
+ *
+ * In an event book only the Yes leg is priced, so No is its complement;
+ * any other outcome of an event market is left null.
+ */
+export function outcomeProbabilities(
+  market: MarketWithLatestQuotes,
+  book: NormalizedProbabilities
+): Map<number, number | null> {
+  const byOutcome = new Map(book.outcomes.map((o): [number, number] => [o.outcomeId, o.normalizedProb]));
+  if (book.scope === 'market') {
+    return new Map(market.outcomes.map((o): [number, number | null] => [o.id, byOutcome.get(o.id) ?? null]));
+  }
+
+  const yes = market.outcomes.find((o) => o.side === 'yes');
+  const yesProb = yes ? byOutcome.get(yes.id) ?? null : null;
+  return new Map(
+    market.outcomes.map((o): [number, number | null] => {
+      if (o.side === 'yes') return [o.id, yesProb];
+      if (o.side === 'no') return [o.id, yesProb === null ? null : 1 - yesProb];
+      return [o.id, null];
+    })
+  );
+}
+
+/**
+ * Normalize a market within its event when it has one with at least two
+ * active, mutually exclusive markets, otherwise across its own outcomes
+ */
+export async function normalizeForMarket(
+  marketRepo: MarketRepository,
+  kalshiEventRepo: Pick<KalshiEventRepository, 'getByTicker'>,
+  market: MarketWithLatestQuotes,
+  method: NormalizationMethod
+): Promise<NormalizedProbabilities> {
+  const ref = marketEventRef(market);
+  if (!ref) return normalizeMarketBook(market, method);
+
+  const markets = await marketRepo.getEventMarketsWithLatestQuotes(ref);
+  if (markets.length < 2 || !markets.some((m) => m.id === market.id)) {
+    return normalizeMarketBook(market, method, 'single_market');
+  }
+
+  const eventId = 'pmEventId' in ref ? ref.pmEventId : ref.kalshiEventTicker;
+  const fallbackReason = await eventExclusivity(kalshiEventRepo, market.venue, eventId, markets);
+  if (fallbackReason) return normalizeMarketBook(market, method, fallbackReason);
+  return normalizeEventBook(market.venue, eventId, markets, method);
+}
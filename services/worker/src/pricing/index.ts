@@ -0,0 +1,2 @@
+export * from './eventProbabilities.js';
+export * from './consensus.js';
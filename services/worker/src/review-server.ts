@@ -3,19 +3,179 @@
  *
  * Simple web UI for reviewing and confirming/rejecting market links.
  * Keyboard shortcuts: Y = confirm, N = reject, Space = next
+ *
+ * v3.2.0: Multi-reviewer. Every request is authenticated (Basic with a local
+ * password, or a Bearer token; accounts via review:user:add). Each reviewer
+ * gets their own queue filtered by topic, a sample of links is reviewed
+ * blind by two reviewers, disagreements go to an escalation queue for leads,
+ * and every decision is attributed to its reviewer in review_decisions and
+ * market_link_events.
+ *
+ * v3.2.0: Review card shows the parsed signals of both sides with
+ * mismatches highlighted, latest prices, resolution rules and venue links;
+ * the queue can be filtered/searched, and the rest of a link's bracket
+ * group can be confirmed in one go. Keyboard: B = confirm selected group.
  */
 
 import express from 'express';
-import { getClient } from '@data-module/db';
+import {
+  getClient,
+  MarketLinkRepository,
+  ReviewRepository,
+  type LinkActor,
+  type Reviewer,
+  type ReviewQueue,
+  type ReviewQueueOptions,
+  type ReviewVerdict,
+  type ReviewLink,
+} from '@data-module/db';
+import {
+  parseAuthorization,
+  hashToken,
+  verifyPassword,
+  LoginThrottle,
+  planDecision,
+  buildAgreementReport,
+  ReviewClaims,
+  extractReviewSignals,
+  compareReviewSignals,
+  marketUrl,
+  resolutionRules,
+  latestPrices,
+} from './review/index.js';
 
 const PORT = parseInt(process.env.REVIEW_PORT || '3000', 10);
+const HOST = process.env.REVIEW_HOST || '127.0.0.1';
 const MIN_SCORE = parseFloat(process.env.REVIEW_MIN_SCORE || '0.75');
 const LIMIT = parseInt(process.env.REVIEW_LIMIT || '500', 10);
+// v3.2.0: Share of links reviewed blind by two reviewers
+const DOUBLE_REVIEW_RATE = parseFloat(process.env.REVIEW_DOUBLE_RATE || '0.1');
+const AUTH_CACHE_MS = 60 * 1000;
+const BULK_CONFIRM_MAX = 100;
 
 const app = express();
 app.use(express.json());
 
 const prisma = getClient();
+const linkRepo = new MarketLinkRepository(prisma);
+const reviewRepo = new ReviewRepository(prisma);
+const claims = new ReviewClaims();
+const loginThrottle = new LoginThrottle(
+  parseInt(process.env.REVIEW_LOGIN_MAX_FAILURES || '5', 10),
+  parseInt(process.env.REVIEW_LOGIN_WINDOW_SECONDS || '900', 10) * 1000
+);
+
+// v3.2.0: Verified Authorization headers, so Basic auth does not run scrypt
+// on every request; a disabled account is locked out within AUTH_CACHE_MS
+const authCache = new Map<string, { reviewer: Reviewer; expiresAt: number }>();
+
+// Password logins are throttled per client address (see LoginThrottle)
+async function authenticate(
+  header: string | undefined,
+  client: string
+): Promise<{ reviewer: Reviewer | null; retryAfterMs?: number }> {
+  const credentials = parseAuthorization(header);
+  if (!header || !credentials) return { reviewer: null };
+
+  const cacheKey = hashToken(header);
+  const cached = authCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return { reviewer: cached.reviewer };
+  }
+
+  let reviewer: Reviewer | null;
+  if (credentials.type === 'bearer') {
+    reviewer = await reviewRepo.findReviewerByTokenHash(hashToken(credentials.token));
+  } else {
+    const retryAfterMs = loginThrottle.lockedFor(client);
+    if (retryAfterMs > 0) {
+      return { reviewer: null, retryAfterMs };
+    }
+    reviewer = await reviewRepo.findReviewerByName(credentials.name);
+    const valid = reviewer?.passwordHash ? await verifyPassword(credentials.password, reviewer.passwordHash) : false;
+    if (valid) {
+      loginThrottle.reset(client);
+    } else {
+      loginThrottle.recordFailure(client);
+      reviewer = null;
+    }
+  }
+  if (!reviewer?.active) {
+    return { reviewer: null };
+  }
+
+  authCache.set(cacheKey, { reviewer, expiresAt: Date.now() + AUTH_CACHE_MS });
+  return { reviewer };
+}
+
+function reviewActor(reviewer: Reviewer): LinkActor {
+  return { type: 'user', id: reviewer.name, source: 'review-server' };
+}
+
+function parseQueue(value: unknown): ReviewQueue {
+  return value === 'escalation' ? 'escalation' : 'review';
+}
+
+// v3.2.0: Queue filters from the UI (?q&topic&minScore)
+function parseQueueOptions(query: express.Request['query']): ReviewQueueOptions {
+  const minScore = parseFloat(String(query.minScore ?? ''));
+  return {
+    minScore: Number.isFinite(minScore) ? Math.max(minScore, MIN_SCORE) : MIN_SCORE,
+    search: typeof query.q === 'string' && query.q.trim() ? query.q.trim().slice(0, 200) : undefined,
+    topic: typeof query.topic === 'string' && query.topic.trim() ? query.topic.trim() : undefined,
+  };
+}
+
+function toMarketCard(market: ReviewLink['leftMarket']) {
+  return {
+    id: market.id,
+    venue: market.venue,
+    title: market.title,
+    status: market.status,
+    closeTime: market.closeTime,
+    outcomesCount: market.outcomes.length,
+    url: marketUrl(market),
+    rules: resolutionRules(market),
+    prices: latestPrices(market),
+  };
+}
+
+function toLinkCard(link: ReviewLink) {
+  const left = extractReviewSignals(link.leftMarket.title, link.leftMarket.closeTime);
+  const right = extractReviewSignals(link.rightMarket.title, link.rightMarket.closeTime);
+  return {
+    id: link.id,
+    score: link.score,
+    topic: link.topic,
+    algoVersion: link.algoVersion,
+    reason: link.reason,
+    leftMarket: toMarketCard(link.leftMarket),
+    rightMarket: toMarketCard(link.rightMarket),
+    signals: compareReviewSignals(left, right),
+  };
+}
+
+// Authenticate every request (the browser shows its login prompt on 401)
+app.use(async (req, res, next) => {
+  try {
+    const { reviewer, retryAfterMs } = await authenticate(req.headers.authorization, req.ip ?? 'unknown');
+    if (retryAfterMs) {
+      res.set('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+      res.status(429).json({ error: 'Too many failed logins, try again later' });
+      return;
+    }
+    if (!reviewer) {
+      res.set('WWW-Authenticate', 'Basic realm="Market Link Review", charset="UTF-8"');
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+    res.locals.reviewer = reviewer;
+    next();
+  } catch (error) {
+    console.error('Failed to authenticate:', error);
+    res.status(500).json({ error: 'Failed to authenticate' });
+  }
+});
 
 // Serve static HTML
 app.get('/', (_req, res) => {
@@ -139,6 +299,74 @@ app.get('/', (_req, res) => {
       font-size: 18px;
       color: #888;
     }
+    .whoami { color: #888; font-size: 13px; margin-top: 6px; }
+    .queues { display: flex; gap: 8px; margin-top: 10px; }
+    .queues button { padding: 6px 14px; font-size: 13px; background: #3a3a3a; color: #e0e0e0; }
+    .queues button.active { background: #4caf50; color: white; }
+    .decisions {
+      margin: 20px 0;
+      padding: 15px;
+      background: #3a2d1a;
+      border-radius: 6px;
+      font-size: 14px;
+    }
+    .decision-row { display: flex; gap: 12px; padding: 4px 0; }
+    .decision-confirm { color: #4caf50; font-weight: bold; }
+    .decision-reject { color: #f44336; font-weight: bold; }
+    .note-input {
+      width: 100%;
+      margin-top: 20px;
+      padding: 10px;
+      background: #3a3a3a;
+      border: 1px solid #555;
+      border-radius: 6px;
+      color: #e0e0e0;
+      font-size: 14px;
+    }
+    .error { color: #f44336; text-align: center; margin-top: 10px; min-height: 18px; }
+    .filters {
+      display: flex;
+      gap: 10px;
+      margin-bottom: 20px;
+      align-items: center;
+    }
+    .filters input {
+      padding: 8px 12px;
+      background: #2d2d2d;
+      border: 1px solid #555;
+      border-radius: 6px;
+      color: #e0e0e0;
+      font-size: 14px;
+    }
+    .filters input#filter-q { flex: 1; }
+    .filters button { padding: 8px 18px; font-size: 14px; background: #3a3a3a; color: #e0e0e0; }
+    .market-venue a { color: #64b5f6; text-decoration: none; margin-left: 8px; text-transform: none; }
+    .prices { width: 100%; margin-top: 12px; font-size: 13px; border-collapse: collapse; }
+    .prices th { color: #888; font-weight: normal; text-align: left; padding: 2px 6px; }
+    .prices td { padding: 2px 6px; }
+    .rules { margin-top: 12px; font-size: 13px; color: #bbb; }
+    .rules summary { cursor: pointer; color: #888; }
+    .rules pre { white-space: pre-wrap; font-family: inherit; margin-top: 6px; max-height: 240px; overflow-y: auto; }
+    .signals { width: 100%; border-collapse: collapse; font-size: 14px; margin: 10px 0 20px; }
+    .signals th { color: #888; font-weight: normal; text-align: left; padding: 6px 10px; border-bottom: 1px solid #444; }
+    .signals td { padding: 6px 10px; border-bottom: 1px solid #333; }
+    .signal-match td:last-child { color: #4caf50; }
+    .signal-partial { background: #3a351a; }
+    .signal-partial td:last-child { color: #ffc107; }
+    .signal-mismatch { background: #3a1f1f; }
+    .signal-mismatch td:last-child { color: #f44336; font-weight: bold; }
+    .signal-missing td:last-child { color: #888; }
+    .group {
+      margin: 20px 0;
+      padding: 15px;
+      background: #252525;
+      border-radius: 6px;
+      font-size: 14px;
+    }
+    .group-row { display: flex; gap: 12px; padding: 4px 0; align-items: center; }
+    .group-row .score { font-size: 14px; }
+    .group-mismatch { color: #f44336; font-size: 12px; }
+    .group button { margin-top: 10px; padding: 8px 18px; font-size: 14px; }
     .empty {
       text-align: center;
       padding: 50px;
@@ -152,7 +380,14 @@ app.get('/', (_req, res) => {
 <body>
   <div class="container">
     <div class="header">
-      <h1>🔗 Market Link Review</h1>
+      <div>
+        <h1>🔗 Market Link Review</h1>
+        <div class="whoami" id="whoami"></div>
+        <div class="queues" id="queues" style="display: none;">
+          <button id="tab-review" class="active" onclick="switchQueue('review')">Review</button>
+          <button id="tab-escalation" onclick="switchQueue('escalation')">Escalations (<span id="stat-escalations">0</span>)</button>
+        </div>
+      </div>
       <div class="stats">
         <div class="stat">
           <div class="stat-label">Reviewed</div>
@@ -173,6 +408,13 @@ app.get('/', (_req, res) => {
       </div>
     </div>
 
+    <form class="filters" onsubmit="applyFilters(event)">
+      <input id="filter-q" placeholder="Search titles or link id">
+      <input id="filter-topic" placeholder="Topic" size="14">
+      <input id="filter-min-score" placeholder="Min score" size="9">
+      <button type="submit">Filter</button>
+    </form>
+
     <div id="review-content">
       <div class="loading">Loading...</div>
     </div>
@@ -180,22 +422,64 @@ app.get('/', (_req, res) => {
 
   <script>
     let currentLink = null;
+    let currentGroup = [];
+    let queue = 'review';
+    let filters = new URLSearchParams();
     let reviewedCount = 0;
     let confirmedCount = 0;
     let rejectedCount = 0;
 
+    function escapeHtml(value) {
+      return String(value ?? '').replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]);
+    }
+
+    async function loadMe() {
+      const res = await fetch('/api/me');
+      const me = await res.json();
+      const topics = me.topics.length > 0 ? me.topics.join(', ') : 'all topics';
+      document.getElementById('whoami').textContent = \`\${me.name} (\${me.role}) · \${topics}\`;
+      if (me.role === 'lead') {
+        document.getElementById('queues').style.display = 'flex';
+      }
+    }
+
     async function loadStats() {
-      const res = await fetch('/api/stats');
+      const res = await fetch(\`/api/stats?queue=\${queue}&\${filters}\`);
       const stats = await res.json();
       document.getElementById('stat-remaining').textContent = stats.remaining;
+      if (stats.escalations !== null) {
+        document.getElementById('stat-escalations').textContent = stats.escalations;
+      }
+    }
+
+    function applyFilters(event) {
+      event.preventDefault();
+      filters = new URLSearchParams();
+      const q = document.getElementById('filter-q').value.trim();
+      const topic = document.getElementById('filter-topic').value.trim();
+      const minScore = document.getElementById('filter-min-score').value.trim();
+      if (q) filters.set('q', q);
+      if (topic) filters.set('topic', topic);
+      if (minScore) filters.set('minScore', minScore);
+      document.activeElement.blur();
+      loadNext();
+    }
+
+    function switchQueue(next) {
+      queue = next;
+      document.getElementById('tab-review').classList.toggle('active', queue === 'review');
+      document.getElementById('tab-escalation').classList.toggle('active', queue === 'escalation');
+      loadNext();
     }
 
     async function loadNext() {
       try {
-        const res = await fetch('/api/links');
+        const res = await fetch(\`/api/links?queue=\${queue}&\${filters}\`);
         const link = await res.json();
 
         if (!link.id) {
+          currentLink = null;
+          await loadStats();
           document.getElementById('review-content').innerHTML = \`
             <div class="empty">
               <h2>🎉 All done!</h2>
@@ -206,13 +490,122 @@ app.get('/', (_req, res) => {
         }
 
         currentLink = link;
+        currentGroup = [];
         renderLink(link);
-        await loadStats();
+        await Promise.all([loadStats(), queue === 'review' ? loadGroup(link.id) : null]);
       } catch (error) {
         console.error('Failed to load link:', error);
       }
     }
 
+    function renderDecisions(decisions) {
+      if (!decisions) return '';
+      const rows = decisions.map((d) => \`
+        <div class="decision-row">
+          <span>Round \${d.round}</span>
+          <span>\${escapeHtml(d.reviewer)}</span>
+          <span class="decision-\${d.decision}">\${d.decision}</span>
+          <span>\${escapeHtml(d.note)}</span>
+        </div>
+      \`).join('');
+      return \`<div class="decisions"><strong>Reviewers disagreed</strong>\${rows}</div>\`;
+    }
+
+    function formatPrice(value) {
+      return value === null ? '-' : value.toFixed(3);
+    }
+
+    function renderMarket(market) {
+      const link = market.url ? \`<a href="\${escapeHtml(market.url)}" target="_blank" rel="noopener">open ↗</a>\` : '';
+      const prices = market.prices.map((p) => \`
+        <tr>
+          <td>\${escapeHtml(p.name)}</td>
+          <td>\${formatPrice(p.price)}</td>
+          <td>\${formatPrice(p.bestBid)} / \${formatPrice(p.bestAsk)}</td>
+          <td>\${p.ts ? new Date(p.ts).toLocaleString() : '-'}</td>
+        </tr>
+      \`).join('');
+      return \`
+        <div class="market">
+          <div class="market-venue">\${escapeHtml(market.venue)}\${link}</div>
+          <div class="market-title">\${escapeHtml(market.title)}</div>
+          <div class="market-meta">
+            <div class="meta-item">
+              <span>Status:</span>
+              <span>\${market.status}</span>
+            </div>
+            <div class="meta-item">
+              <span>Closes:</span>
+              <span>\${market.closeTime ? new Date(market.closeTime).toLocaleString() : '-'}</span>
+            </div>
+            <div class="meta-item">
+              <span>Outcomes:</span>
+              <span>\${market.outcomesCount}</span>
+            </div>
+          </div>
+          <table class="prices">
+            <tr><th>Outcome</th><th>Price</th><th>Bid / Ask</th><th>Updated</th></tr>
+            \${prices}
+          </table>
+          <details class="rules">
+            <summary>Resolution rules</summary>
+            <pre>\${market.rules ? escapeHtml(market.rules) : 'No rules text stored for this market.'}</pre>
+          </details>
+        </div>
+      \`;
+    }
+
+    function renderSignals(signals) {
+      if (signals.length === 0) return '';
+      const rows = signals.map((s) => \`
+        <tr class="signal-\${s.match}">
+          <td>\${s.label}</td>
+          <td>\${escapeHtml(s.left.join(', ')) || '-'}</td>
+          <td>\${escapeHtml(s.right.join(', ')) || '-'}</td>
+          <td>\${s.match}</td>
+        </tr>
+      \`).join('');
+      return \`
+        <table class="signals">
+          <tr><th>Signal</th><th>\${escapeHtml(currentLink.leftMarket.venue)}</th><th>\${escapeHtml(currentLink.rightMarket.venue)}</th><th></th></tr>
+          \${rows}
+        </table>
+      \`;
+    }
+
+    function renderGroup() {
+      const el = document.getElementById('group');
+      if (!el) return;
+      if (currentGroup.length === 0) {
+        el.style.display = 'none';
+        return;
+      }
+      const rows = currentGroup.map((l) => {
+        const mismatches = l.signals.filter((s) => s.match === 'mismatch').map((s) => s.label);
+        return \`
+          <label class="group-row">
+            <input type="checkbox" class="group-pick" value="\${l.id}" \${mismatches.length === 0 ? 'checked' : ''}>
+            <span class="score">\${l.score.toFixed(3)}</span>
+            <span>\${escapeHtml(l.leftMarket.title)} ⇄ \${escapeHtml(l.rightMarket.title)}</span>
+            \${mismatches.length > 0 ? \`<span class="group-mismatch">mismatch: \${mismatches.join(', ')}</span>\` : ''}
+          </label>
+        \`;
+      }).join('');
+      el.style.display = 'block';
+      el.innerHTML = \`
+        <strong>Bracket group: \${currentGroup.length} more link(s) between the same two events</strong>
+        \${rows}
+        <button class="btn-confirm" onclick="confirmGroup()">✓ Confirm this + selected (B)</button>
+      \`;
+    }
+
+    async function loadGroup(linkId) {
+      const res = await fetch(\`/api/links/\${linkId}/group?\${filters}\`);
+      if (!res.ok || !currentLink || currentLink.id !== linkId) return;
+      currentGroup = (await res.json()).links;
+      renderGroup();
+    }
+
     function renderLink(link) {
       const html = \`
         <div class="review-card">
@@ -236,42 +629,23 @@ app.get('/', (_req, res) => {
           </div>
 
           <div class="markets">
-            <div class="market">
-              <div class="market-venue">📊 Polymarket</div>
-              <div class="market-title">\${link.leftMarket.title}</div>
-              <div class="market-meta">
-                <div class="meta-item">
-                  <span>Status:</span>
-                  <span>\${link.leftMarket.status}</span>
-                </div>
-                <div class="meta-item">
-                  <span>Outcomes:</span>
-                  <span>\${link.leftMarket.outcomesCount}</span>
-                </div>
-              </div>
-            </div>
-
-            <div class="market">
-              <div class="market-venue">🎯 Kalshi</div>
-              <div class="market-title">\${link.rightMarket.title}</div>
-              <div class="market-meta">
-                <div class="meta-item">
-                  <span>Status:</span>
-                  <span>\${link.rightMarket.status}</span>
-                </div>
-                <div class="meta-item">
-                  <span>Outcomes:</span>
-                  <span>\${link.rightMarket.outcomesCount}</span>
-                </div>
-              </div>
-            </div>
+            \${renderMarket(link.leftMarket)}
+            \${renderMarket(link.rightMarket)}
           </div>
 
+          \${renderSignals(link.signals)}
+
+          <div class="group" id="group" style="display: none;"></div>
+
+          \${renderDecisions(link.decisions)}
+
+          <input class="note-input" id="note" placeholder="Note (optional)" maxlength="1000">
+
           <div class="actions">
             <button class="btn-confirm" onclick="confirm()">
               ✓ Confirm (Y)
             </button>
-            <button class="btn-skip" onclick="loadNext()">
+            <button class="btn-skip" onclick="skip()">
               → Skip (Space)
             </button>
             <button class="btn-reject" onclick="reject()">
@@ -279,8 +653,10 @@ app.get('/', (_req, res) => {
             </button>
           </div>
 
+          <div class="error" id="error"></div>
+
           <div class="shortcuts">
-            Keyboard: Y = Confirm | N = Reject | Space = Skip
+            Keyboard: Y = Confirm | N = Reject | Space = Skip | B = Confirm bracket group
           </div>
         </div>
       \`;
@@ -288,34 +664,78 @@ app.get('/', (_req, res) => {
       document.getElementById('review-content').innerHTML = html;
     }
 
-    async function confirm() {
+    // v3.2.0: Decisions carry an optional note; errors (e.g. someone else
+    // reviewed the link first) are shown instead of silently moving on
+    async function decide(verdict) {
       if (!currentLink) return;
 
       try {
-        await fetch(\`/api/links/\${currentLink.id}/confirm\`, { method: 'POST' });
+        const res = await fetch(\`/api/links/\${currentLink.id}/\${verdict}\`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ note: document.getElementById('note').value }),
+        });
+        if (!res.ok) {
+          const body = await res.json().catch(() => ({}));
+          document.getElementById('error').textContent = body.error || \`Failed to \${verdict}\`;
+          if (res.status === 409) setTimeout(loadNext, 1500);
+          return;
+        }
         reviewedCount++;
-        confirmedCount++;
+        if (verdict === 'confirm') confirmedCount++;
+        else rejectedCount++;
         updateStats();
         await loadNext();
       } catch (error) {
-        console.error('Failed to confirm:', error);
+        console.error(\`Failed to \${verdict}:\`, error);
       }
     }
 
+    async function confirm() {
+      await decide('confirm');
+    }
+
     async function reject() {
+      await decide('reject');
+    }
+
+    async function confirmGroup() {
       if (!currentLink) return;
+      const picked = [...document.querySelectorAll('.group-pick:checked')].map((el) => parseInt(el.value, 10));
+      const ids = [currentLink.id, ...picked];
 
       try {
-        await fetch(\`/api/links/\${currentLink.id}/reject\`, { method: 'POST' });
-        reviewedCount++;
-        rejectedCount++;
+        const res = await fetch('/api/links/bulk-confirm', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ids, note: document.getElementById('note').value }),
+        });
+        const body = await res.json();
+        if (!res.ok) {
+          document.getElementById('error').textContent = body.error || 'Failed to confirm group';
+          return;
+        }
+        const done = body.results.filter((r) => r.ok).length;
+        reviewedCount += done;
+        confirmedCount += done;
         updateStats();
+        const failed = body.results.filter((r) => !r.ok);
+        if (failed.length > 0) {
+          alert(\`Confirmed \${done}/\${ids.length}. Failed: \${failed.map((r) => \`#\${r.id} (\${r.error})\`).join(', ')}\`);
+        }
         await loadNext();
       } catch (error) {
-        console.error('Failed to reject:', error);
+        console.error('Failed to confirm group:', error);
       }
     }
 
+    async function skip() {
+      if (currentLink) {
+        await fetch(\`/api/links/\${currentLink.id}/skip\`, { method: 'POST' });
+      }
+      await loadNext();
+    }
+
     function updateStats() {
       document.getElementById('stat-reviewed').textContent = reviewedCount;
       document.getElementById('stat-confirmed').textContent = confirmedCount;
@@ -324,17 +744,21 @@ app.get('/', (_req, res) => {
 
     // Keyboard shortcuts
     document.addEventListener('keydown', (e) => {
+      if (e.target instanceof HTMLInputElement) return;
       if (e.key === 'y' || e.key === 'Y') {
         confirm();
       } else if (e.key === 'n' || e.key === 'N') {
         reject();
+      } else if ((e.key === 'b' || e.key === 'B') && currentGroup.length > 0) {
+        confirmGroup();
       } else if (e.key === ' ') {
         e.preventDefault();
-        loadNext();
+        skip();
       }
     });
 
     // Load first link
+    loadMe();
     loadNext();
   </script>
 </body>
@@ -342,53 +766,47 @@ app.get('/', (_req, res) => {
   `);
 });
 
+// Current reviewer
+app.get('/api/me', (_req, res) => {
+  const reviewer = res.locals.reviewer as Reviewer;
+  res.json({ name: reviewer.name, role: reviewer.role, topics: reviewer.topics });
+});
+
 // Get next link for review
-app.get('/api/links', async (_req, res) => {
+// v3.2.0: From the reviewer's own queue (?queue=review|escalation); the
+// link is leased to them so nobody else is shown it meanwhile
+app.get('/api/links', async (req, res) => {
   try {
-    const link = await prisma.marketLink.findFirst({
-      where: {
-        status: 'suggested',
-        score: { gte: MIN_SCORE },
-        topic: { not: 'all' },
-      },
-      orderBy: { score: 'desc' },
-      take: 1,
-      include: {
-        leftMarket: {
-          include: {
-            outcomes: true,
-          },
-        },
-        rightMarket: {
-          include: {
-            outcomes: true,
-          },
-        },
-      },
+    const reviewer = res.locals.reviewer as Reviewer;
+    const queue = parseQueue(req.query.queue);
+    if (queue === 'escalation' && reviewer.role !== 'lead') {
+      return res.status(403).json({ error: 'Only leads can resolve escalations' });
+    }
+
+    const link = await reviewRepo.nextLink(reviewer, queue, {
+      ...parseQueueOptions(req.query),
+      excludeLinkIds: claims.excludedFor(reviewer.id),
     });
 
     if (!link) {
       return res.json({});
     }
+    claims.claim(link.id, reviewer.id);
+
+    // Blind review: earlier decisions are only shown when resolving an escalation
+    const decisions = queue === 'escalation' ? await reviewRepo.getDecisions(link.id) : [];
 
     return res.json({
-      id: link.id,
-      score: link.score,
-      topic: link.topic,
-      algoVersion: link.algoVersion,
-      reason: link.reason,
-      leftMarket: {
-        id: link.leftMarket.id,
-        title: link.leftMarket.title,
-        status: link.leftMarket.status,
-        outcomesCount: link.leftMarket.outcomes.length,
-      },
-      rightMarket: {
-        id: link.rightMarket.id,
-        title: link.rightMarket.title,
-        status: link.rightMarket.status,
-        outcomesCount: link.rightMarket.outcomes.length,
-      },
+      ...toLinkCard(link),
+      ...(queue === 'escalation' && {
+        decisions: decisions.map((d) => ({
+          round: d.round,
+          reviewer: d.reviewer.name,
+          decision: d.decision,
+          note: d.note,
+          createdAt: d.createdAt,
+        })),
+      }),
     });
   } catch (error) {
     console.error('Failed to fetch link:', error);
@@ -397,37 +815,96 @@ app.get('/api/links', async (_req, res) => {
 });
 
 // Get stats
-app.get('/api/stats', async (_req, res) => {
+app.get('/api/stats', async (req, res) => {
   try {
-    const remaining = await prisma.marketLink.count({
-      where: {
-        status: 'suggested',
-        score: { gte: MIN_SCORE },
-        topic: { not: 'all' },
-      },
-    });
-
-    res.json({ remaining });
+    const reviewer = res.locals.reviewer as Reviewer;
+    const options = parseQueueOptions(req.query);
+    const [remaining, escalations] = await Promise.all([
+      reviewRepo.countQueue(reviewer, parseQueue(req.query.queue), options),
+      reviewer.role === 'lead' ? reviewRepo.countQueue(reviewer, 'escalation', options) : Promise.resolve(null),
+    ]);
+
+    res.json({ remaining, escalations });
   } catch (error) {
     console.error('Failed to fetch stats:', error);
     res.status(500).json({ error: 'Failed to fetch stats' });
   }
 });
 
+// v3.2.0: Record a decision; the link changes status once the review is
+// complete (single review, two agreeing reviews, or a lead's escalation call).
+// The outcome is withheld from the response so a blind round stays blind.
+async function submitDecision(
+  reviewer: Reviewer,
+  linkId: number,
+  verdict: ReviewVerdict,
+  note: string | null
+): Promise<{ status: number; error?: string }> {
+  const link = await prisma.marketLink.findUnique({ where: { id: linkId }, select: { status: true, topic: true } });
+  if (!link) {
+    return { status: 404, error: `Link ${linkId} not found` };
+  }
+  if (link.status !== 'suggested') {
+    claims.release(linkId);
+    return { status: 409, error: `Link is already ${link.status}` };
+  }
+  if (reviewer.topics.length > 0 && (!link.topic || !reviewer.topics.includes(link.topic))) {
+    return { status: 403, error: `Link topic ${link.topic ?? '(none)'} is outside your topics` };
+  }
+  // Same predicate as the queues the UI serves, so a decision can't skip a review round
+  const options = { minScore: MIN_SCORE };
+  const queued =
+    (await reviewRepo.isQueued(reviewer, 'review', linkId, options)) ||
+    (reviewer.role === 'lead' && (await reviewRepo.isQueued(reviewer, 'escalation', linkId, options)));
+  if (!queued) {
+    return { status: 409, error: 'Link is not in your review queue' };
+  }
+
+  const plan = planDecision(linkId, await reviewRepo.getDecisions(linkId), reviewer, verdict, DOUBLE_REVIEW_RATE);
+  if (!plan.ok) {
+    return { status: plan.status, error: plan.error };
+  }
+
+  const saved = await reviewRepo.recordDecision({
+    linkId,
+    reviewerId: reviewer.id,
+    round: plan.round,
+    decision: verdict,
+    sampled: plan.sampled,
+    note,
+  });
+  claims.release(linkId);
+  if (!saved) {
+    return { status: 409, error: 'Someone else reviewed this link first' };
+  }
+
+  if (plan.outcome === 'confirm') {
+    await linkRepo.confirm(linkId, reviewActor(reviewer), plan.reason ?? undefined);
+  } else if (plan.outcome === 'reject') {
+    await linkRepo.reject(linkId, reviewActor(reviewer), plan.reason ?? undefined);
+  }
+  return { status: 200 };
+}
+
+function parseNote(body: unknown): string | null {
+  const note = (body as { note?: unknown } | undefined)?.note;
+  return typeof note === 'string' && note.trim() ? note.trim().slice(0, 1000) : null;
+}
+
+async function decide(req: express.Request, res: express.Response, verdict: ReviewVerdict) {
+  const result = await submitDecision(
+    res.locals.reviewer as Reviewer,
+    parseInt(String(req.params.id), 10),
+    verdict,
+    parseNote(req.body)
+  );
+  return result.error ? res.status(result.status).json({ error: result.error }) : res.json({ ok: true });
+}
+
 // Confirm link
 app.post('/api/links/:id/confirm', async (req, res) => {
   try {
-    const linkId = parseInt(req.params.id, 10);
-
-    await prisma.marketLink.update({
-      where: { id: linkId },
-      data: {
-        status: 'confirmed',
-        reason: 'manual_review@3.1.0:web_ui',
-      },
-    });
-
-    res.json({ ok: true });
+    await decide(req, res, 'confirm');
   } catch (error) {
     console.error('Failed to confirm link:', error);
     res.status(500).json({ error: 'Failed to confirm link' });
@@ -437,34 +914,104 @@ app.post('/api/links/:id/confirm', async (req, res) => {
 // Reject link
 app.post('/api/links/:id/reject', async (req, res) => {
   try {
-    const linkId = parseInt(req.params.id, 10);
+    await decide(req, res, 'reject');
+  } catch (error) {
+    console.error('Failed to reject link:', error);
+    res.status(500).json({ error: 'Failed to reject link' });
+  }
+});
 
-    await prisma.marketLink.update({
+// v3.2.0: Other queued links between the same two venue events
+app.get('/api/links/:id/group', async (req, res) => {
+  try {
+    const reviewer = res.locals.reviewer as Reviewer;
+    const linkId = parseInt(String(req.params.id), 10);
+    const link = await prisma.marketLink.findUnique({
       where: { id: linkId },
-      data: {
-        status: 'rejected',
-        reason: 'manual_review@3.1.0:web_ui',
-      },
+      include: { leftMarket: true, rightMarket: true },
     });
+    if (!link) {
+      return res.status(404).json({ error: `Link ${linkId} not found` });
+    }
 
-    res.json({ ok: true });
+    const group = await reviewRepo.findBracketGroup(link, reviewer, {
+      ...parseQueueOptions(req.query),
+      excludeLinkIds: claims.excludedFor(reviewer.id),
+    });
+    return res.json({ links: group.map(toLinkCard) });
   } catch (error) {
-    console.error('Failed to reject link:', error);
-    res.status(500).json({ error: 'Failed to reject link' });
+    console.error('Failed to fetch bracket group:', error);
+    return res.status(500).json({ error: 'Failed to fetch bracket group' });
+  }
+});
+
+// v3.2.0: Confirm several links (a bracket group) with one note; each one
+// goes through the normal decision flow, so sampled links still get their
+// blind second review
+app.post('/api/links/bulk-confirm', async (req, res) => {
+  try {
+    const reviewer = res.locals.reviewer as Reviewer;
+    const ids: unknown = req.body?.ids;
+    if (!Array.isArray(ids) || ids.length === 0 || ids.length > BULK_CONFIRM_MAX || !ids.every(Number.isInteger)) {
+      return res.status(400).json({ error: `ids must be 1-${BULK_CONFIRM_MAX} link ids` });
+    }
+
+    const note = parseNote(req.body);
+    const results: Array<{ id: number; ok: boolean; error?: string }> = [];
+    for (const id of ids as number[]) {
+      const result = await submitDecision(reviewer, id, 'confirm', note);
+      results.push({ id, ok: !result.error, ...(result.error && { error: result.error }) });
+    }
+    return res.json({ results });
+  } catch (error) {
+    console.error('Failed to bulk confirm:', error);
+    return res.status(500).json({ error: 'Failed to bulk confirm' });
+  }
+});
+
+// v3.2.0: Skip link (out of this reviewer's queue until restart)
+app.post('/api/links/:id/skip', (req, res) => {
+  const reviewer = res.locals.reviewer as Reviewer;
+  claims.skip(parseInt(String(req.params.id), 10), reviewer.id);
+  res.json({ ok: true });
+});
+
+// v3.2.0: Inter-rater agreement (leads only)
+app.get('/api/agreement', async (req, res) => {
+  try {
+    const reviewer = res.locals.reviewer as Reviewer;
+    if (reviewer.role !== 'lead') {
+      return res.status(403).json({ error: 'Only leads can view agreement reports' });
+    }
+    const sinceDays = parseFloat(String(req.query.sinceDays ?? ''));
+    const since = Number.isFinite(sinceDays) ? new Date(Date.now() - sinceDays * 24 * 60 * 60 * 1000) : undefined;
+
+    return res.json(buildAgreementReport(await reviewRepo.listDoubleReviewed(since)));
+  } catch (error) {
+    console.error('Failed to build agreement report:', error);
+    return res.status(500).json({ error: 'Failed to build agreement report' });
   }
 });
 
 // Start server
-app.listen(PORT, '0.0.0.0', () => {
-  console.log(`\n=======================================================`);
-  console.log(`🔗 Market Link Review Server (v3.1.0)`);
-  console.log(`=======================================================`);
-  console.log(`\nOpen in browser: http://192.168.1.250:${PORT}`);
-  console.log(`Min Score: ${MIN_SCORE}`);
-  console.log(`Batch Limit: ${LIMIT}`);
-  console.log(`\nKeyboard shortcuts:`);
-  console.log(`  Y = Confirm`);
-  console.log(`  N = Reject`);
-  console.log(`  Space = Skip`);
-  console.log(`\nPress Ctrl+C to stop\n`);
+reviewRepo.countActiveReviewers().then((reviewers) => {
+  app.listen(PORT, HOST, () => {
+    console.log(`\n=======================================================`);
+    console.log(`🔗 Market Link Review Server (v3.2.0)`);
+    console.log(`=======================================================`);
+    console.log(`\nOpen in browser: http://${HOST === '0.0.0.0' ? 'localhost' : HOST}:${PORT}`);
+    console.log(`Min Score: ${MIN_SCORE}`);
+    console.log(`Batch Limit: ${LIMIT}`);
+    console.log(`Double-blind sample: ${(DOUBLE_REVIEW_RATE * 100).toFixed(0)}%`);
+    console.log(`Reviewers: ${reviewers}`);
+    if (reviewers === 0) {
+      console.log(`  (none yet - add one with: pnpm --filter @data-module/worker review:user:add -- --name <name>)`);
+    }
+    console.log(`\nKeyboard shortcuts:`);
+    console.log(`  Y = Confirm`);
+    console.log(`  N = Reject`);
+    console.log(`  Space = Skip`);
+    console.log(`  B = Confirm bracket group`);
+    console.log(`\nPress Ctrl+C to stop\n`);
+  });
 });
@@ -0,0 +1,72 @@
+/**
+ * Tests for inter-rater agreement (v3.2.0)
+ *
+ * Run: npx tsx --test services/worker/src/review/agreement.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import type { DoubleReviewedLink } from '@data-module/db';
+import { cohensKappa, buildAgreementReport, type RatingPair } from './agreement.js';
+
+function pairs(spec: Array<[string, string, number]>): RatingPair[] {
+  return spec.flatMap(([a, b, n]) => Array.from({ length: n }, () => ({ a, b })));
+}
+
+describe('cohensKappa', () => {
+  it('matches the textbook example', () => {
+    // 20 yes/yes, 5 yes/no, 10 no/yes, 15 no/no: po = 0.7, pe = 0.5, kappa = 0.4
+    const k = cohensKappa(pairs([['confirm', 'confirm', 20], ['confirm', 'reject', 5], ['reject', 'confirm', 10], ['reject', 'reject', 15]]));
+    assert.strictEqual(k.n, 50);
+    assert.ok(Math.abs(k.observed! - 0.7) < 1e-9);
+    assert.ok(Math.abs(k.expected! - 0.5) < 1e-9);
+    assert.ok(Math.abs(k.kappa! - 0.4) < 1e-9);
+  });
+
+  it('is undefined without pairs or variation', () => {
+    assert.strictEqual(cohensKappa([]).kappa, null);
+    assert.strictEqual(cohensKappa(pairs([['confirm', 'confirm', 3]])).kappa, null);
+  });
+});
+
+function link(linkId: number, topic: string, decisions: Array<[number, string, string]>): DoubleReviewedLink {
+  return {
+    linkId,
+    topic,
+    decisions: decisions.map(([round, name, decision], i) => ({
+      id: linkId * 10 + i,
+      linkId,
+      reviewerId: name.length,
+      round,
+      decision,
+      sampled: round === 1,
+      note: null,
+      createdAt: new Date(0),
+      reviewer: { id: name.length, name },
+    })),
+  };
+}
+
+describe('buildAgreementReport', () => {
+  it('groups by pair, reviewer and topic and counts escalations', () => {
+    const report = buildAgreementReport([
+      link(1, 'RATES', [[1, 'alice', 'confirm'], [2, 'bob', 'confirm']]),
+      link(2, 'RATES', [[1, 'bob', 'reject'], [2, 'alice', 'reject']]),
+      link(3, 'ELECTIONS', [[1, 'alice', 'confirm'], [2, 'bob', 'reject'], [3, 'carol', 'reject']]),
+      link(4, 'ELECTIONS', [[1, 'carol', 'confirm'], [2, 'bob', 'reject']]),
+    ]);
+
+    assert.strictEqual(report.links, 4);
+    assert.strictEqual(report.overall.observed, 0.5);
+    assert.deepStrictEqual(report.escalations, { total: 2, resolved: 1, pending: 1 });
+    assert.deepStrictEqual(
+      report.byPair.map((p) => [p.reviewers, p.n]),
+      [[['alice', 'bob'], 3], [['bob', 'carol'], 1]]
+    );
+    const alice = report.byReviewer.find((r) => r.reviewer === 'alice')!;
+    assert.deepStrictEqual([alice.n, alice.escalated, alice.overruled], [3, 1, 1]);
+    const bob = report.byReviewer.find((r) => r.reviewer === 'bob')!;
+    assert.deepStrictEqual([bob.n, bob.escalated, bob.overruled], [4, 2, 0]);
+    assert.deepStrictEqual(report.byTopic.map((t) => [t.topic, t.observed]), [['RATES', 1], ['ELECTIONS', 0]]);
+  });
+});
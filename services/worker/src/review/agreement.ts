@@ -0,0 +1,127 @@
+/**
+ * Inter-rater agreement for double-blind reviews (v3.2.0)
+ *
+ * Cohen's kappa over the round-1/round-2 decision pairs of sampled links:
+ * overall, per reviewer pair, per reviewer (against whoever they were
+ * paired with) and per topic. Kappa corrects the raw agreement rate for
+ * agreement expected by chance, so a team that confirms 95% of links does
+ * not look reliable just by agreeing on the easy ones.
+ */
+
+import type { DoubleReviewedLink } from '@data-module/db';
+
+export interface RatingPair {
+  a: string;
+  b: string;
+}
+
+export interface KappaResult {
+  n: number;
+  /** Share of pairs that agree */
+  observed: number | null;
+  /** Agreement expected by chance from each side's marginals */
+  expected: number | null;
+  /** null when undefined (no pairs, or both sides always gave the same single verdict) */
+  kappa: number | null;
+}
+
+export interface ReviewerAgreement extends KappaResult {
+  reviewer: string;
+  /** Disagreements sent to escalation */
+  escalated: number;
+  /** Escalations the lead decided against this reviewer */
+  overruled: number;
+}
+
+export interface AgreementReport {
+  links: number;
+  overall: KappaResult;
+  byPair: Array<KappaResult & { reviewers: [string, string] }>;
+  byReviewer: ReviewerAgreement[];
+  byTopic: Array<KappaResult & { topic: string }>;
+  escalations: { total: number; resolved: number; pending: number };
+}
+
+export function cohensKappa(pairs: RatingPair[]): KappaResult {
+  const n = pairs.length;
+  if (n === 0) {
+    return { n, observed: null, expected: null, kappa: null };
+  }
+
+  const categories = new Set(pairs.flatMap((p) => [p.a, p.b]));
+  const observed = pairs.filter((p) => p.a === p.b).length / n;
+  let expected = 0;
+  for (const c of categories) {
+    const pa = pairs.filter((p) => p.a === c).length / n;
+    const pb = pairs.filter((p) => p.b === c).length / n;
+    expected += pa * pb;
+  }
+  const kappa = expected >= 1 ? null : (observed - expected) / (1 - expected);
+  return { n, observed, expected, kappa };
+}
+
+export function buildAgreementReport(links: DoubleReviewedLink[]): AgreementReport {
+  const all: RatingPair[] = [];
+  const byPair = new Map<string, { reviewers: [string, string]; pairs: RatingPair[] }>();
+  const byReviewer = new Map<string, { pairs: RatingPair[]; escalated: number; overruled: number }>();
+  const byTopic = new Map<string, RatingPair[]>();
+  const escalations = { total: 0, resolved: 0, pending: 0 };
+
+  const reviewerEntry = (name: string) => {
+    let entry = byReviewer.get(name);
+    if (!entry) {
+      entry = { pairs: [], escalated: 0, overruled: 0 };
+      byReviewer.set(name, entry);
+    }
+    return entry;
+  };
+
+  for (const link of links) {
+    const first = link.decisions.find((d) => d.round === 1);
+    const second = link.decisions.find((d) => d.round === 2);
+    if (!first || !second) continue;
+    const third = link.decisions.find((d) => d.round === 3);
+
+    all.push({ a: first.decision, b: second.decision });
+
+    // Order the pair by name so alice/bob and bob/alice share a row
+    const [x, y] = first.reviewer.name <= second.reviewer.name ? [first, second] : [second, first];
+    const pairKey = `${x.reviewer.name}\u0000${y.reviewer.name}`;
+    if (!byPair.has(pairKey)) byPair.set(pairKey, { reviewers: [x.reviewer.name, y.reviewer.name], pairs: [] });
+    byPair.get(pairKey)!.pairs.push({ a: x.decision, b: y.decision });
+
+    const topic = link.topic ?? '(none)';
+    if (!byTopic.has(topic)) byTopic.set(topic, []);
+    byTopic.get(topic)!.push({ a: first.decision, b: second.decision });
+
+    for (const [self, other] of [[first, second], [second, first]] as const) {
+      const entry = reviewerEntry(self.reviewer.name);
+      entry.pairs.push({ a: self.decision, b: other.decision });
+      if (first.decision !== second.decision) {
+        entry.escalated++;
+        if (third && third.decision !== self.decision) entry.overruled++;
+      }
+    }
+
+    if (first.decision !== second.decision) {
+      escalations.total++;
+      if (third) escalations.resolved++;
+      else escalations.pending++;
+    }
+  }
+
+  return {
+    links: all.length,
+    overall: cohensKappa(all),
+    byPair: [...byPair.values()]
+      .map(({ reviewers, pairs }) => ({ reviewers, ...cohensKappa(pairs) }))
+      .sort((p, q) => q.n - p.n),
+    byReviewer: [...byReviewer.entries()]
+      .map(([reviewer, e]) => ({ reviewer, ...cohensKappa(e.pairs), escalated: e.escalated, overruled: e.overruled }))
+      .sort((p, q) => p.reviewer.localeCompare(q.reviewer)),
+    byTopic: [...byTopic.entries()]
+      .map(([topic, pairs]) => ({ topic, ...cohensKappa(pairs) }))
+      .sort((p, q) => q.n - p.n),
+    escalations,
+  };
+}
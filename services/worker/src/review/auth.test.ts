@@ -0,0 +1,42 @@
+/**
+ * Tests for review server authentication (v3.2.0)
+ *
+ * Run: npx tsx --test services/worker/src/review/auth.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { parseAuthorization, LoginThrottle } from './auth.js';
+
+describe('parseAuthorization', () => {
+  it('parses Basic and Bearer headers', () => {
+    const basic = `Basic ${Buffer.from('alice:pa:ss').toString('base64')}`;
+    assert.deepStrictEqual(parseAuthorization(basic), { type: 'basic', name: 'alice', password: 'pa:ss' });
+    assert.deepStrictEqual(parseAuthorization('Bearer rvw_abc'), { type: 'bearer', token: 'rvw_abc' });
+    assert.strictEqual(parseAuthorization(`Basic ${Buffer.from(':x').toString('base64')}`), null);
+    assert.strictEqual(parseAuthorization('Digest x'), null);
+  });
+});
+
+describe('LoginThrottle', () => {
+  it('locks a client after repeated failures until the window ends', () => {
+    const throttle = new LoginThrottle(3, 60_000);
+    const now = 1_000_000;
+    throttle.recordFailure('10.0.0.1', now);
+    throttle.recordFailure('10.0.0.1', now + 1000);
+    assert.strictEqual(throttle.lockedFor('10.0.0.1', now + 2000), 0);
+
+    throttle.recordFailure('10.0.0.1', now + 2000);
+    assert.strictEqual(throttle.lockedFor('10.0.0.1', now + 2000), 58_000);
+    assert.strictEqual(throttle.lockedFor('10.0.0.2', now + 2000), 0);
+    assert.strictEqual(throttle.lockedFor('10.0.0.1', now + 60_000), 0);
+  });
+
+  it('clears failures after a successful login', () => {
+    const throttle = new LoginThrottle(2, 60_000);
+    throttle.recordFailure('10.0.0.1', 0);
+    throttle.reset('10.0.0.1');
+    throttle.recordFailure('10.0.0.1', 0);
+    assert.strictEqual(throttle.lockedFor('10.0.0.1', 0), 0);
+  });
+});
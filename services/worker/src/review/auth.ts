@@ -0,0 +1,109 @@
+/**
+ * Review server authentication (v3.2.0)
+ *
+ * Reviewers log in with HTTP Basic (name + local password, so the browser's
+ * own prompt works) or a Bearer API token for scripts. Passwords are stored
+ * as scrypt hashes, tokens as SHA-256 hashes; neither is kept in clear.
+ */
+
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+export type ReviewCredentials =
+  | { type: 'basic'; name: string; password: string }
+  | { type: 'bearer'; token: string };
+
+/**
+ * scrypt$<salt hex>$<key hex>
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${key.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltHex, keyHex] = stored.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !keyHex) return false;
+  const expected = Buffer.from(keyHex, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+export function generateToken(): string {
+  return `rvw_${randomBytes(24).toString('base64url')}`;
+}
+
+export function generatePassword(): string {
+  return randomBytes(12).toString('base64url');
+}
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Parse an Authorization header (Basic or Bearer)
+ */
+export function parseAuthorization(header: string | undefined): ReviewCredentials | null {
+  if (!header) return null;
+  const [scheme, value] = header.trim().split(/\s+/, 2);
+  if (!value) return null;
+
+  switch (scheme.toLowerCase()) {
+    case 'bearer':
+      return { type: 'bearer', token: value };
+    case 'basic': {
+      const decoded = Buffer.from(value, 'base64').toString('utf8');
+      const sep = decoded.indexOf(':');
+      if (sep <= 0) return null;
+      return { type: 'basic', name: decoded.slice(0, sep), password: decoded.slice(sep + 1) };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Failed password logins per client. After maxFailures within windowMs the
+ * client is refused until the window ends, so passwords cannot be guessed
+ * as fast as scrypt verifies them.
+ */
+export class LoginThrottle {
+  private readonly failures = new Map<string, { count: number; resetAt: number }>();
+
+  constructor(
+    private readonly maxFailures = 5,
+    private readonly windowMs = 15 * 60 * 1000
+  ) {}
+
+  /**
+   * Milliseconds until `client` may try again (0 = not locked)
+   */
+  lockedFor(client: string, now = Date.now()): number {
+    const entry = this.failures.get(client);
+    if (!entry) return 0;
+    if (entry.resetAt <= now) {
+      this.failures.delete(client);
+      return 0;
+    }
+    return entry.count >= this.maxFailures ? entry.resetAt - now : 0;
+  }
+
+  recordFailure(client: string, now = Date.now()): void {
+    const entry = this.failures.get(client);
+    if (!entry || entry.resetAt <= now) {
+      this.failures.set(client, { count: 1, resetAt: now + this.windowMs });
+    } else {
+      entry.count++;
+    }
+  }
+
+  reset(client: string): void {
+    this.failures.delete(client);
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Tests for review decisions and assignment (v3.2.0)
+ *
+ * Run: npx tsx --test services/worker/src/review/decisions.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { isSampledForDoubleReview, planDecision, ReviewClaims, REVIEW_REASONS, type DecisionRecord } from './decisions.js';
+
+const alice = { id: 1, role: 'reviewer' };
+const bob = { id: 2, role: 'reviewer' };
+const lead = { id: 3, role: 'lead' };
+
+describe('isSampledForDoubleReview', () => {
+  it('is stable per link and close to the requested rate', () => {
+    const sampled = Array.from({ length: 10000 }, (_, i) => isSampledForDoubleReview(i + 1, 0.1)).filter(Boolean).length;
+    assert.ok(sampled > 900 && sampled < 1100, `sampled ${sampled}`);
+    assert.strictEqual(isSampledForDoubleReview(42, 0.1), isSampledForDoubleReview(42, 0.1));
+    assert.strictEqual(isSampledForDoubleReview(42, 0), false);
+    assert.strictEqual(isSampledForDoubleReview(42, 1), true);
+  });
+});
+
+describe('planDecision', () => {
+  it('applies a single review of an unsampled link', () => {
+    const plan = planDecision(7, [], alice, 'confirm', 0);
+    assert.deepStrictEqual(plan, { ok: true, round: 1, sampled: false, outcome: 'confirm', reason: REVIEW_REASONS.single });
+  });
+
+  it('holds a sampled link for a second review and applies it when both agree', () => {
+    const first = planDecision(7, [], alice, 'reject', 1);
+    assert.ok(first.ok && first.outcome === 'pending' && first.sampled);
+
+    const decisions: DecisionRecord[] = [{ round: 1, reviewerId: alice.id, decision: 'reject', sampled: true }];
+    assert.deepStrictEqual(planDecision(7, decisions, bob, 'reject', 1), {
+      ok: true,
+      round: 2,
+      sampled: false,
+      outcome: 'reject',
+      reason: REVIEW_REASONS.agreed,
+    });
+    assert.deepStrictEqual(planDecision(7, decisions, alice, 'reject', 1), {
+      ok: false,
+      status: 409,
+      error: 'You already reviewed this link',
+    });
+  });
+
+  it('escalates disagreements to leads only', () => {
+    const decisions: DecisionRecord[] = [{ round: 1, reviewerId: alice.id, decision: 'confirm', sampled: true }];
+    const second = planDecision(7, decisions, bob, 'reject', 1);
+    assert.ok(second.ok && second.outcome === 'escalate');
+
+    decisions.push({ round: 2, reviewerId: bob.id, decision: 'reject', sampled: false });
+    assert.deepStrictEqual(planDecision(7, decisions, { id: 4, role: 'reviewer' }, 'confirm', 1), {
+      ok: false,
+      status: 403,
+      error: 'Only leads can resolve escalations',
+    });
+    const third = planDecision(7, decisions, lead, 'confirm', 1);
+    assert.ok(third.ok && third.round === 3 && third.outcome === 'confirm' && third.reason === REVIEW_REASONS.escalation);
+
+    decisions.push({ round: 3, reviewerId: lead.id, decision: 'confirm', sampled: false });
+    assert.strictEqual(planDecision(7, decisions, { id: 5, role: 'lead' }, 'confirm', 1).ok, false);
+  });
+
+  it('refuses a second review of an unsampled link', () => {
+    const decisions: DecisionRecord[] = [{ round: 1, reviewerId: alice.id, decision: 'confirm', sampled: false }];
+    assert.strictEqual(planDecision(7, decisions, bob, 'confirm', 1).ok, false);
+  });
+});
+
+describe('ReviewClaims', () => {
+  it('hides links leased to others and skipped ones, and expires leases', () => {
+    const claims = new ReviewClaims(1000);
+    claims.claim(10, alice.id, 0);
+    claims.claim(11, alice.id, 0); // one link at a time: releases 10
+    claims.claim(12, bob.id, 0);
+    claims.skip(13, bob.id);
+
+    assert.deepStrictEqual(claims.excludedFor(bob.id, 500).sort(), [11, 13]);
+    assert.deepStrictEqual(claims.excludedFor(alice.id, 500), [12]);
+    assert.deepStrictEqual(claims.excludedFor(alice.id, 1500), []);
+  });
+});
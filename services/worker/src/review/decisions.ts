@@ -0,0 +1,136 @@
+/**
+ * Review decisions and assignment (v3.2.0)
+ *
+ * Every link gets a first review. A deterministic sample (by link id, so it
+ * does not change between requests) also gets a blind second review by
+ * someone else before the link is confirmed/rejected; when the two disagree
+ * the link goes to the escalation queue and a lead's round-3 decision is
+ * final.
+ */
+
+import type { ReviewVerdict } from '@data-module/db';
+
+/** Link reasons written by the review server */
+export const REVIEW_REASONS = {
+  single: 'manual_review@3.2.0:single',
+  agreed: 'manual_review@3.2.0:double_agree',
+  escalation: 'manual_review@3.2.0:escalation',
+} as const;
+
+export interface DecisionRecord {
+  round: number;
+  reviewerId: number;
+  decision: string;
+  sampled: boolean;
+}
+
+export interface DecidingReviewer {
+  id: number;
+  role: string;
+}
+
+export type DecisionPlan =
+  | {
+      ok: true;
+      round: 1 | 2 | 3;
+      sampled: boolean;
+      /** What happens to the link: apply a verdict, wait for round 2, or escalate */
+      outcome: ReviewVerdict | 'pending' | 'escalate';
+      reason: string | null;
+    }
+  | { ok: false; status: 403 | 409; error: string };
+
+/**
+ * Whether a link is picked for double-blind review (stable per link id)
+ */
+export function isSampledForDoubleReview(linkId: number, rate: number): boolean {
+  if (rate <= 0) return false;
+  if (rate >= 1) return true;
+  // Knuth multiplicative hash spreads consecutive ids evenly over [0, 1)
+  return (Math.imul(linkId, 2654435761) >>> 0) / 2 ** 32 < rate;
+}
+
+/**
+ * Work out which round a new decision fills and what it does to the link
+ */
+export function planDecision(
+  linkId: number,
+  decisions: DecisionRecord[],
+  reviewer: DecidingReviewer,
+  verdict: ReviewVerdict,
+  sampleRate: number
+): DecisionPlan {
+  if (decisions.some((d) => d.reviewerId === reviewer.id)) {
+    return { ok: false, status: 409, error: 'You already reviewed this link' };
+  }
+  const first = decisions.find((d) => d.round === 1);
+  const second = decisions.find((d) => d.round === 2);
+
+  if (!first) {
+    const sampled = isSampledForDoubleReview(linkId, sampleRate);
+    return sampled
+      ? { ok: true, round: 1, sampled, outcome: 'pending', reason: null }
+      : { ok: true, round: 1, sampled, outcome: verdict, reason: REVIEW_REASONS.single };
+  }
+
+  if (!second) {
+    if (!first.sampled) {
+      return { ok: false, status: 409, error: 'Link was already reviewed' };
+    }
+    return verdict === first.decision
+      ? { ok: true, round: 2, sampled: false, outcome: verdict, reason: REVIEW_REASONS.agreed }
+      : { ok: true, round: 2, sampled: false, outcome: 'escalate', reason: null };
+  }
+
+  if (first.decision === second.decision || decisions.some((d) => d.round === 3)) {
+    return { ok: false, status: 409, error: 'Link was already reviewed' };
+  }
+  if (reviewer.role !== 'lead') {
+    return { ok: false, status: 403, error: 'Only leads can resolve escalations' };
+  }
+  return { ok: true, round: 3, sampled: false, outcome: verdict, reason: REVIEW_REASONS.escalation };
+}
+
+/**
+ * In-memory leases so two reviewers are not shown the same link at once.
+ * A reviewer holds one link at a time; leases expire after ttlMs. Skipped
+ * links stay out of that reviewer's queue until the server restarts.
+ */
+export class ReviewClaims {
+  private readonly claims = new Map<number, { reviewerId: number; expiresAt: number }>();
+  private readonly skipped = new Map<number, Set<number>>();
+
+  constructor(private readonly ttlMs = 10 * 60 * 1000) {}
+
+  claim(linkId: number, reviewerId: number, now = Date.now()): void {
+    for (const [id, c] of this.claims) {
+      if (c.reviewerId === reviewerId) this.claims.delete(id);
+    }
+    this.claims.set(linkId, { reviewerId, expiresAt: now + this.ttlMs });
+  }
+
+  release(linkId: number): void {
+    this.claims.delete(linkId);
+  }
+
+  skip(linkId: number, reviewerId: number): void {
+    this.release(linkId);
+    if (!this.skipped.has(reviewerId)) this.skipped.set(reviewerId, new Set());
+    this.skipped.get(reviewerId)!.add(linkId);
+  }
+
+  /**
+   * Links leased to other reviewers or skipped by this one
+   */
+  excludedFor(reviewerId: number, now = Date.now()): number[] {
+    const excluded = [...(this.skipped.get(reviewerId) ?? [])];
+    for (const [id, c] of this.claims) {
+      if (c.expiresAt <= now) {
+        this.claims.delete(id);
+      } else if (c.reviewerId !== reviewerId) {
+        excluded.push(id);
+      }
+    }
+    return excluded;
+  }
+}
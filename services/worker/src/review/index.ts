@@ -0,0 +1,4 @@
+export * from './auth.js';
+export * from './decisions.js';
+export * from './agreement.js';
+export * from './linkDetails.js';
@@ -0,0 +1,105 @@
+/**
+ * Tests for review card details (v3.2.0)
+ *
+ * Run: npx tsx --test services/worker/src/review/linkDetails.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  extractReviewSignals,
+  compareReviewSignals,
+  marketUrl,
+  resolutionRules,
+  latestPrices,
+  type ReviewSignals,
+  type ReviewMarketInput,
+} from './linkDetails.js';
+
+function signals(partial: Partial<ReviewSignals>): ReviewSignals {
+  return {
+    entities: [],
+    dates: [],
+    numbers: [],
+    comparator: [],
+    climateKind: [],
+    centralBank: [],
+    teams: [],
+    league: [],
+    ...partial,
+  };
+}
+
+describe('extractReviewSignals', () => {
+  it('parses topic-specific signals', () => {
+    const rates = extractReviewSignals('Fed decision March 19, 2025: cut 25bps?');
+    assert.deepStrictEqual(rates.centralBank, ['FED']);
+    assert.deepStrictEqual(rates.dates, ['2025-03-19']);
+    assert.deepStrictEqual(rates.numbers, ['25 bps']);
+
+    const sports = extractReviewSignals('Lakers vs Celtics - NBA');
+    assert.deepStrictEqual(sports.teams, ['los angeles lakers', 'boston celtics']);
+    assert.deepStrictEqual(sports.league, ['NBA']);
+
+    assert.deepStrictEqual(extractReviewSignals('Hurricane to make landfall in Florida by September 2025?').climateKind, [
+      'HURRICANE',
+    ]);
+    assert.deepStrictEqual(extractReviewSignals('Bitcoin above $100,000 on March 20?').comparator, ['ABOVE']);
+  });
+});
+
+describe('compareReviewSignals', () => {
+  it('classifies each field and skips fields empty on both sides', () => {
+    const result = compareReviewSignals(
+      signals({ centralBank: ['FED'], dates: ['2025-03'], numbers: ['25 bps'], comparator: ['ABOVE'] }),
+      signals({ centralBank: ['FED'], dates: ['2025-03-19'], numbers: ['50 bps'] })
+    );
+    assert.deepStrictEqual(
+      result.map((c) => [c.field, c.match]),
+      [
+        ['dates', 'partial'],
+        ['numbers', 'mismatch'],
+        ['comparator', 'missing'],
+        ['centralBank', 'match'],
+      ]
+    );
+  });
+});
+
+describe('market links, rules and prices', () => {
+  const kalshi: ReviewMarketInput = {
+    venue: 'kalshi',
+    externalId: 'KXFEDDECISION-25MAR-C25',
+    metadata: { seriesTicker: 'KXFEDDECISION', rulesPrimary: 'Resolves Yes if the Fed cuts.' },
+    outcomes: [
+      { name: 'Yes', side: 'yes', latestQuote: { price: 0.62, bestBid: 0.61, bestAsk: 0.63, ts: new Date(0) } },
+      { name: 'No', side: 'no', latestQuote: null },
+    ],
+  };
+  const polymarket: ReviewMarketInput = {
+    venue: 'polymarket',
+    externalId: '123',
+    metadata: { slug: 'fed-cut-march', description: 'This market resolves to Yes if...' },
+    pmEventSlug: 'fed-decision-in-march',
+    outcomes: [],
+  };
+
+  it('builds venue URLs', () => {
+    assert.strictEqual(marketUrl(kalshi), 'https://kalshi.com/markets/kxfeddecision');
+    assert.strictEqual(marketUrl(polymarket), 'https://polymarket.com/event/fed-decision-in-march');
+    assert.strictEqual(marketUrl({ ...polymarket, pmEventSlug: null }), 'https://polymarket.com/market/fed-cut-march');
+    assert.strictEqual(marketUrl({ ...kalshi, venue: 'manifold' }), null);
+  });
+
+  it('reads rules text and latest prices', () => {
+    assert.strictEqual(resolutionRules(kalshi), 'Resolves Yes if the Fed cuts.');
+    assert.strictEqual(resolutionRules({ ...kalshi, metadata: null }), null);
+    assert.deepStrictEqual(
+      latestPrices(kalshi).map((p) => [p.name, p.price, p.bestAsk]),
+      [
+        ['Yes', 0.62, 0.63],
+        ['No', null, null],
+      ]
+    );
+  });
+});
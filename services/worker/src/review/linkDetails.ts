@@ -0,0 +1,192 @@
+/**
+ * Review card details (v3.2.0)
+ *
+ * What a reviewer needs to judge a pair without opening both venues: the
+ * signals the scorer works from, parsed from each title and compared field
+ * by field, the latest prices, each venue's resolution rules and a link to
+ * the market page.
+ */
+
+import {
+  extractUniversalEntities,
+  extractTeams,
+  detectLeague,
+  SportsLeague,
+  UniversalComparator,
+  type ExtractedDateUniversal,
+} from '@data-module/core';
+import { extractClimateKind, ClimateKind } from '../matching/signals/climateSignals.js';
+import { extractCentralBank, CentralBank } from '../matching/signals/ratesSignals.js';
+
+export interface ReviewSignals {
+  entities: string[];
+  dates: string[];
+  numbers: string[];
+  comparator: string[];
+  climateKind: string[];
+  centralBank: string[];
+  teams: string[];
+  league: string[];
+}
+
+export type SignalMatch = 'match' | 'partial' | 'mismatch' | 'missing';
+
+export interface SignalComparison {
+  field: keyof ReviewSignals;
+  label: string;
+  left: string[];
+  right: string[];
+  match: SignalMatch;
+}
+
+export interface ReviewMarketInput {
+  venue: string;
+  externalId: string;
+  metadata: unknown;
+  pmEventSlug?: string | null;
+  outcomes: Array<{
+    name: string;
+    side: string;
+    latestQuote?: { price: number; bestBid: number | null; bestAsk: number | null; ts: Date } | null;
+  }>;
+}
+
+export interface OutcomePrice {
+  name: string;
+  side: string;
+  price: number | null;
+  bestBid: number | null;
+  bestAsk: number | null;
+  ts: Date | null;
+}
+
+const SIGNAL_LABELS: Record<keyof ReviewSignals, string> = {
+  entities: 'Entities',
+  dates: 'Dates',
+  numbers: 'Numbers',
+  comparator: 'Comparator',
+  climateKind: 'Climate kind',
+  centralBank: 'Central bank',
+  teams: 'Teams',
+  league: 'League',
+};
+
+function formatDate(d: ExtractedDateUniversal): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  if (d.precision === 'QUARTER' && d.year && d.month) {
+    return `${d.year}-Q${Math.ceil(d.month / 3)}`;
+  }
+  if (d.year && d.month && d.day && d.precision === 'DAY') return `${d.year}-${pad(d.month)}-${pad(d.day)}`;
+  if (d.year && d.month) return `${d.year}-${pad(d.month)}`;
+  return d.year ? String(d.year) : d.raw;
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+/**
+ * Signals parsed from a market title
+ */
+export function extractReviewSignals(title: string, closeTime?: Date | null): ReviewSignals {
+  const entities = extractUniversalEntities(title, closeTime);
+  const { teamA, teamB } = extractTeams(title);
+  const league = detectLeague(title);
+  const climateKind = extractClimateKind(title);
+  const centralBank = extractCentralBank(title);
+
+  return {
+    entities: unique([...entities.people, ...entities.organizations, ...entities.teams]),
+    dates: unique(entities.dates.map(formatDate)),
+    numbers: unique(entities.numbers.map((n) => (n.unit ? `${n.value} ${n.unit}` : String(n.value)))),
+    comparator: entities.comparator === UniversalComparator.UNKNOWN ? [] : [entities.comparator],
+    climateKind: climateKind === ClimateKind.OTHER ? [] : [climateKind],
+    centralBank: centralBank === CentralBank.UNKNOWN ? [] : [centralBank],
+    teams: [teamA, teamB].filter((t): t is string => t !== null),
+    league: league === SportsLeague.UNKNOWN ? [] : [league],
+  };
+}
+
+/** Same value, or one date is a refinement of the other (2025-03 vs 2025-03-19) */
+function overlaps(a: string, b: string): boolean {
+  return a === b || a.startsWith(`${b}-`) || b.startsWith(`${a}-`);
+}
+
+/**
+ * Compare both sides field by field; fields empty on both sides are left out
+ */
+export function compareReviewSignals(left: ReviewSignals, right: ReviewSignals): SignalComparison[] {
+  const comparisons: SignalComparison[] = [];
+  for (const field of Object.keys(SIGNAL_LABELS) as Array<keyof ReviewSignals>) {
+    const l = left[field];
+    const r = right[field];
+    if (l.length === 0 && r.length === 0) continue;
+
+    let match: SignalMatch;
+    if (l.length === 0 || r.length === 0) {
+      match = 'missing';
+    } else if (l.length === r.length && l.every((v) => r.includes(v))) {
+      match = 'match';
+    } else if (l.some((a) => r.some((b) => overlaps(a, b)))) {
+      match = 'partial';
+    } else {
+      match = 'mismatch';
+    }
+    comparisons.push({ field, label: SIGNAL_LABELS[field], left: l, right: r, match });
+  }
+  return comparisons;
+}
+
+function metadataOf(market: ReviewMarketInput): Record<string, unknown> {
+  return market.metadata && typeof market.metadata === 'object' ? (market.metadata as Record<string, unknown>) : {};
+}
+
+function stringField(metadata: Record<string, unknown>, key: string): string | null {
+  const value = metadata[key];
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Market page on the venue's site
+ */
+export function marketUrl(market: ReviewMarketInput): string | null {
+  const metadata = metadataOf(market);
+  switch (market.venue) {
+    case 'polymarket': {
+      if (market.pmEventSlug) return `https://polymarket.com/event/${market.pmEventSlug}`;
+      const slug = stringField(metadata, 'slug');
+      return slug ? `https://polymarket.com/market/${slug}` : null;
+    }
+    case 'kalshi': {
+      const series = stringField(metadata, 'seriesTicker') ?? stringField(metadata, 'eventTicker') ?? market.externalId.split('-')[0];
+      return `https://kalshi.com/markets/${series.toLowerCase()}`;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Resolution rules text stored at ingestion (Kalshi rules, Polymarket description)
+ */
+export function resolutionRules(market: ReviewMarketInput): string | null {
+  const metadata = metadataOf(market);
+  const parts = [
+    stringField(metadata, 'rulesPrimary'),
+    stringField(metadata, 'rulesSecondary'),
+    stringField(metadata, 'description'),
+    stringField(metadata, 'resolutionSource') && `Resolution source: ${stringField(metadata, 'resolutionSource')}`,
+  ].filter((p): p is string => Boolean(p));
+  return parts.length > 0 ? parts.join('\n\n') : null;
+}
+
+export function latestPrices(market: ReviewMarketInput): OutcomePrice[] {
+  return market.outcomes.map((o) => ({
+    name: o.name,
+    side: o.side,
+    price: o.latestQuote?.price ?? null,
+    bestBid: o.latestQuote?.bestBid ?? null,
+    bestAsk: o.latestQuote?.bestAsk ?? null,
+    ts: o.latestQuote?.ts ?? null,
+  }));
+}
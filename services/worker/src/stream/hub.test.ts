@@ -0,0 +1,73 @@
+/**
+ * Tests for live quote stream fan-out (v3.2.0)
+ *
+ * Run: npx tsx --test services/worker/src/stream/hub.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { QuoteStreamHub } from './hub.js';
+import { buildSubscription, type QuoteUpdate } from './subscription.js';
+
+function makeUpdate(overrides: Partial<QuoteUpdate> = {}): QuoteUpdate {
+  return {
+    marketId: 1,
+    venue: 'kalshi',
+    derivedTopic: 'CRYPTO_DAILY',
+    outcomeId: 10,
+    outcomeName: 'Yes',
+    side: 'yes',
+    ts: new Date('2026-03-01T12:00:00Z'),
+    price: 0.5,
+    impliedProb: 0.5,
+    bestBid: 0.49,
+    bestAsk: 0.51,
+    bidSize: null,
+    askSize: null,
+    spread: 0.02,
+    liquidity: null,
+    volume: null,
+    updatedAt: new Date('2026-03-01T12:00:00Z'),
+    ...overrides,
+  };
+}
+
+function collect(): { events: unknown[]; send: (event: string, data: unknown) => void } {
+  const events: unknown[] = [];
+  return { events, send: (_event, data) => events.push(data) };
+}
+
+describe('QuoteStreamHub', () => {
+  it('delivers only to matching clients', () => {
+    const hub = new QuoteStreamHub();
+    const a = collect();
+    const b = collect();
+    hub.add(buildSubscription({ marketIds: [1], linkIds: [], topics: [] }, []), a.send);
+    hub.add(buildSubscription({ marketIds: [2], linkIds: [], topics: [] }, []), b.send);
+
+    hub.publish([makeUpdate({ marketId: 1 })]);
+    assert.strictEqual(a.events.length, 1);
+    assert.strictEqual(b.events.length, 0);
+  });
+
+  it('drops repeats from the poll overlap window', () => {
+    const hub = new QuoteStreamHub();
+    const a = collect();
+    hub.add(buildSubscription({ marketIds: [1], linkIds: [], topics: [] }, []), a.send);
+
+    const update = makeUpdate();
+    assert.strictEqual(hub.publish([update]), 1);
+    assert.strictEqual(hub.publish([update]), 0);
+    assert.strictEqual(hub.publish([makeUpdate({ updatedAt: new Date('2026-03-01T12:00:01Z'), price: 0.6 })]), 1);
+    assert.strictEqual(a.events.length, 2);
+  });
+
+  it('removes clients whose send throws', () => {
+    const hub = new QuoteStreamHub();
+    hub.add(buildSubscription({ marketIds: [1], linkIds: [], topics: [] }, []), () => {
+      throw new Error('socket closed');
+    });
+    hub.publish([makeUpdate()]);
+    assert.strictEqual(hub.size, 0);
+  });
+});
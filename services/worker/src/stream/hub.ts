@@ -0,0 +1,78 @@
+/**
+ * Live quote stream - client registry and fan-out (v3.2.0)
+ */
+
+import { matchUpdate, type QuoteUpdate, type StreamSubscription } from './subscription.js';
+
+export interface StreamClient {
+  id: number;
+  subscription: StreamSubscription;
+  send(event: string, data: unknown): void;
+}
+
+/**
+ * Fans out quote updates to subscribed clients
+ *
+ * The poller re-reads a small overlap window each cycle, so the hub
+ * remembers the last updatedAt it delivered per outcome and drops repeats.
+ */
+export class QuoteStreamHub {
+  private readonly clients = new Map<number, StreamClient>();
+  private readonly lastSent = new Map<number, number>();
+  private nextId = 1;
+
+  get size(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * Register a client; returns its id
+   */
+  add(subscription: StreamSubscription, send: StreamClient['send']): number {
+    const id = this.nextId++;
+    this.clients.set(id, { id, subscription, send });
+    return id;
+  }
+
+  remove(id: number): void {
+    this.clients.delete(id);
+  }
+
+  /**
+   * Deliver new updates to matching clients
+   * @returns Number of updates that were new (not already delivered)
+   */
+  publish(updates: QuoteUpdate[]): number {
+    let fresh = 0;
+
+    for (const update of updates) {
+      const updatedAt = update.updatedAt.getTime();
+      const previous = this.lastSent.get(update.outcomeId);
+      if (previous !== undefined && previous >= updatedAt) continue;
+      this.lastSent.set(update.outcomeId, updatedAt);
+      fresh++;
+
+      for (const client of this.clients.values()) {
+        const linkIds = matchUpdate(client.subscription, update);
+        if (linkIds === null) continue;
+        try {
+          client.send('quote', { ...update, linkIds });
+        } catch (error) {
+          console.error(`[stream] Dropping client ${client.id}:`, error);
+          this.clients.delete(client.id);
+        }
+      }
+    }
+
+    return fresh;
+  }
+
+  /**
+   * Forget delivery marks older than the poll overlap window
+   */
+  prune(beforeMs: number): void {
+    for (const [outcomeId, updatedAt] of this.lastSent) {
+      if (updatedAt < beforeMs) this.lastSent.delete(outcomeId);
+    }
+  }
+}
@@ -0,0 +1,4 @@
+export * from './subscription.js';
+export * from './hub.js';
+export * from './poller.js';
+export * from './sse.js';
@@ -0,0 +1,74 @@
+/**
+ * Live quote stream - latest_quotes poller (v3.2.0)
+ *
+ * split-runner runs in its own process, so the stream picks up its writes
+ * from latest_quotes.updated_at rather than an in-process event. Each
+ * cycle re-reads a short overlap window to catch upserts that committed
+ * after a later timestamp was already seen; the hub drops the repeats.
+ */
+
+import type { QuoteRepository } from '@data-module/db';
+import type { QuoteStreamHub } from './hub.js';
+import { toQuoteUpdate } from './subscription.js';
+
+export interface QuotePollerConfig {
+  intervalMs: number;
+  overlapMs: number;
+  batchLimit: number;
+}
+
+export const DEFAULT_POLLER_CONFIG: QuotePollerConfig = {
+  intervalMs: parseInt(process.env.STREAM_POLL_MS || '1000', 10),
+  overlapMs: parseInt(process.env.STREAM_POLL_OVERLAP_MS || '5000', 10),
+  batchLimit: parseInt(process.env.STREAM_POLL_BATCH || '5000', 10),
+};
+
+/**
+ * Start polling; returns a stop function
+ */
+export function startQuotePoller(
+  quoteRepo: QuoteRepository,
+  hub: QuoteStreamHub,
+  config: QuotePollerConfig = DEFAULT_POLLER_CONFIG
+): () => void {
+  let cursor = Date.now();
+  let catchingUp = false;
+  let stopped = false;
+  let timer: NodeJS.Timeout | null = null;
+
+  const tick = async (): Promise<void> => {
+    try {
+      if (hub.size === 0) {
+        // Nobody listening: don't replay the backlog to the next client
+        cursor = Date.now();
+        return;
+      }
+
+      // After a full batch, resume exactly at the cursor so the overlap can't starve progress
+      const since = new Date(catchingUp ? cursor : cursor - config.overlapMs);
+      const rows = await quoteRepo.getLatestQuotesUpdatedSince(since, config.batchLimit);
+      if (rows.length > 0) {
+        hub.publish(rows.map(toQuoteUpdate));
+        cursor = Math.max(cursor, rows[rows.length - 1].updatedAt.getTime());
+      }
+      catchingUp = rows.length >= config.batchLimit;
+      if (catchingUp) {
+        console.warn(`[stream] Poll hit batch limit (${config.batchLimit}), catching up next cycle`);
+      }
+      hub.prune(cursor - config.overlapMs);
+    } catch (error) {
+      console.error('[stream] Poll failed:', error instanceof Error ? error.message : error);
+    } finally {
+      if (!stopped) {
+        timer = setTimeout(tick, config.intervalMs);
+      }
+    }
+  };
+
+  timer = setTimeout(tick, config.intervalMs);
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+  };
+}
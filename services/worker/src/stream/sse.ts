@@ -0,0 +1,123 @@
+/**
+ * Live quote stream - Server-Sent Events endpoint (v3.2.0)
+ *
+ *   GET /v1/stream?markets=1,2&links=3&topics=CRYPTO_DAILY
+ *
+ * Events:
+ *   snapshot  - array of current latest quotes for the subscription (sent once on connect)
+ *   quote     - one latest-quote write, with linkIds it belongs to
+ */
+
+import type { Request, Response } from 'express';
+import { MarketLinkRepository, QuoteRepository, type PrismaClient } from '@data-module/db';
+import { HttpError } from '@data-module/core';
+import type { QuoteStreamHub } from './hub.js';
+import {
+  parseStreamQuery,
+  buildSubscription,
+  matchUpdate,
+  toQuoteUpdate,
+  type QuoteUpdate,
+} from './subscription.js';
+
+const MAX_CLIENTS = parseInt(process.env.STREAM_MAX_CLIENTS || '200', 10);
+const HEARTBEAT_MS = parseInt(process.env.STREAM_HEARTBEAT_MS || '15000', 10);
+/** Topic snapshots only include quotes refreshed within this window */
+const TOPIC_SNAPSHOT_HOURS = 24;
+const TOPIC_SNAPSHOT_LIMIT = 1000;
+
+function writeEvent(res: Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Build the SSE handler bound to a hub
+ */
+export function createStreamHandler(prisma: PrismaClient, hub: QuoteStreamHub) {
+  const linkRepo = new MarketLinkRepository(prisma);
+  const quoteRepo = new QuoteRepository(prisma);
+
+  return async (req: Request, res: Response): Promise<void> => {
+    let query;
+    try {
+      query = parseStreamQuery(req.query);
+      if (hub.size >= MAX_CLIENTS) {
+        throw new HttpError(`Too many stream clients (max ${MAX_CLIENTS})`, 503);
+      }
+    } catch (error) {
+      const status = error instanceof HttpError ? error.statusCode : 400;
+      res.status(status).json({ error: (error as Error).message });
+      return;
+    }
+
+    let clientId: number | null = null;
+    let heartbeat: NodeJS.Timeout | null = null;
+    let closed = false;
+    req.on('close', () => {
+      closed = true;
+      if (clientId !== null) hub.remove(clientId);
+      if (heartbeat) clearInterval(heartbeat);
+    });
+
+    try {
+      const links = await linkRepo.getLinkMarketIds(query.linkIds);
+      const missing = query.linkIds.filter((id) => !links.some((l) => l.id === id));
+      const subscription = buildSubscription(query, links);
+
+      res.status(200);
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('Connection', 'keep-alive');
+      res.setHeader('X-Accel-Buffering', 'no');
+      res.flushHeaders();
+
+      // Register before loading the snapshot so nothing written in between is lost;
+      // live events are held back until the snapshot has been sent.
+      let pending: Array<[string, unknown]> | null = [];
+      clientId = hub.add(subscription, (event, data) => {
+        if (pending) {
+          pending.push([event, data]);
+        } else {
+          writeEvent(res, event, data);
+        }
+      });
+
+      const marketIds = [...new Set([...subscription.marketIds, ...subscription.linksByMarket.keys()])];
+      const topicSince = new Date(Date.now() - TOPIC_SNAPSHOT_HOURS * 60 * 60 * 1000);
+      const rows = [
+        ...(await quoteRepo.getLatestQuotesForMarkets(marketIds)),
+        ...(await Promise.all(
+          [...subscription.topics].map((t) => quoteRepo.getLatestQuotesForTopic(t, topicSince, TOPIC_SNAPSHOT_LIMIT))
+        )).flat(),
+      ];
+
+      const seen = new Set<number>();
+      const snapshot: Array<QuoteUpdate & { linkIds: number[] }> = [];
+      for (const row of rows) {
+        if (seen.has(row.outcomeId)) continue;
+        seen.add(row.outcomeId);
+        const update = toQuoteUpdate(row);
+        const linkIds = matchUpdate(subscription, update);
+        if (linkIds !== null) snapshot.push({ ...update, linkIds });
+      }
+
+      if (closed) {
+        hub.remove(clientId);
+        return;
+      }
+      writeEvent(res, 'snapshot', { quotes: snapshot, missingLinkIds: missing });
+      for (const [event, data] of pending) writeEvent(res, event, data);
+      pending = null;
+
+      heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+    } catch (error) {
+      console.error('[stream] Failed to open stream:', error);
+      if (clientId !== null) hub.remove(clientId);
+      if (!res.headersSent) {
+        res.status(500).json({ error: 'Failed to open stream' });
+      } else {
+        res.end();
+      }
+    }
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * Tests for live quote stream subscriptions (v3.2.0)
+ *
+ * Run: npx tsx --test services/worker/src/stream/subscription.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { HttpError } from '@data-module/core';
+import { parseStreamQuery, buildSubscription, matchUpdate, type QuoteUpdate } from './subscription.js';
+
+function makeUpdate(overrides: Partial<QuoteUpdate> = {}): QuoteUpdate {
+  return {
+    marketId: 1,
+    venue: 'kalshi',
+    derivedTopic: 'CRYPTO_DAILY',
+    outcomeId: 10,
+    outcomeName: 'Yes',
+    side: 'yes',
+    ts: new Date('2026-03-01T12:00:00Z'),
+    price: 0.5,
+    impliedProb: 0.5,
+    bestBid: 0.49,
+    bestAsk: 0.51,
+    bidSize: null,
+    askSize: null,
+    spread: 0.02,
+    liquidity: null,
+    volume: null,
+    updatedAt: new Date('2026-03-01T12:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('parseStreamQuery', () => {
+  it('parses comma lists and dedupes', () => {
+    const q = parseStreamQuery({ markets: '1,2,2', links: '7', topics: 'crypto_daily, MACRO' });
+    assert.deepStrictEqual(q.marketIds, [1, 2]);
+    assert.deepStrictEqual(q.linkIds, [7]);
+    assert.deepStrictEqual(q.topics, ['crypto_daily', 'MACRO']);
+  });
+
+  it('accepts repeated keys', () => {
+    assert.deepStrictEqual(parseStreamQuery({ markets: ['1', '2,3'] }).marketIds, [1, 2, 3]);
+  });
+
+  it('rejects empty subscriptions and bad ids', () => {
+    assert.throws(() => parseStreamQuery({}), (e: unknown) => e instanceof HttpError && e.statusCode === 400);
+    assert.throws(() => parseStreamQuery({ markets: 'abc' }), HttpError);
+  });
+});
+
+describe('matchUpdate', () => {
+  const sub = buildSubscription(
+    { marketIds: [1], linkIds: [7], topics: ['macro'] },
+    [{ id: 7, leftMarketId: 2, rightMarketId: 3 }]
+  );
+
+  it('matches by market id', () => {
+    assert.deepStrictEqual(matchUpdate(sub, makeUpdate({ marketId: 1 })), []);
+  });
+
+  it('matches link sides and reports the link id', () => {
+    assert.deepStrictEqual(matchUpdate(sub, makeUpdate({ marketId: 3, derivedTopic: null })), [7]);
+  });
+
+  it('matches topic case-insensitively', () => {
+    assert.deepStrictEqual(matchUpdate(sub, makeUpdate({ marketId: 99, derivedTopic: 'MACRO' })), []);
+  });
+
+  it('ignores unrelated updates', () => {
+    assert.strictEqual(matchUpdate(sub, makeUpdate({ marketId: 99 })), null);
+  });
+});
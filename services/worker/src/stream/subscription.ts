@@ -0,0 +1,151 @@
+/**
+ * Live quote stream - subscriptions and update routing (v3.2.0)
+ *
+ * Clients subscribe by market id, link id or topic (Market.derivedTopic).
+ * Link ids are resolved to their two market ids when the client connects,
+ * so routing an update is a set lookup on marketId / derivedTopic.
+ */
+
+import { HttpError } from '@data-module/core';
+import type { LatestQuoteWithMarket } from '@data-module/db';
+
+/** Max ids/topics a single client may subscribe to */
+export const MAX_STREAM_KEYS = parseInt(process.env.STREAM_MAX_KEYS || '500', 10);
+
+/**
+ * One latest-quote write, as pushed to clients
+ */
+export interface QuoteUpdate {
+  marketId: number;
+  venue: string;
+  derivedTopic: string | null;
+  outcomeId: number;
+  outcomeName: string;
+  side: string;
+  ts: Date;
+  price: number;
+  impliedProb: number;
+  bestBid: number | null;
+  bestAsk: number | null;
+  bidSize: number | null;
+  askSize: number | null;
+  spread: number | null;
+  liquidity: number | null;
+  volume: number | null;
+  updatedAt: Date;
+}
+
+export interface StreamQuery {
+  marketIds: number[];
+  linkIds: number[];
+  topics: string[];
+}
+
+export interface StreamSubscription {
+  marketIds: Set<number>;
+  /** Upper-cased derivedTopic values */
+  topics: Set<string>;
+  /** marketId -> subscribed link ids that include it */
+  linksByMarket: Map<number, number[]>;
+}
+
+function parseList(name: string, value: unknown): string[] {
+  if (value === undefined || value === '') return [];
+  const parts = (Array.isArray(value) ? value : [value]).flatMap((v) => {
+    if (typeof v !== 'string') {
+      throw new HttpError(`Invalid ${name}: expected comma-separated values`, 400);
+    }
+    return v.split(',');
+  });
+  return [...new Set(parts.map((p) => p.trim()).filter((p) => p.length > 0))];
+}
+
+function parseIdList(name: string, value: unknown): number[] {
+  return parseList(name, value).map((raw) => {
+    if (!/^\d+$/.test(raw) || parseInt(raw, 10) <= 0) {
+      throw new HttpError(`Invalid ${name}: "${raw}" is not a positive integer`, 400);
+    }
+    return parseInt(raw, 10);
+  });
+}
+
+/**
+ * Parse ?markets=1,2&links=3&topics=CRYPTO_DAILY
+ */
+export function parseStreamQuery(query: Record<string, unknown>): StreamQuery {
+  const marketIds = parseIdList('markets', query.markets);
+  const linkIds = parseIdList('links', query.links);
+  const topics = parseList('topics', query.topics);
+
+  const keyCount = marketIds.length + linkIds.length + topics.length;
+  if (keyCount === 0) {
+    throw new HttpError('Subscribe to at least one of markets, links or topics', 400);
+  }
+  if (keyCount > MAX_STREAM_KEYS) {
+    throw new HttpError(`Too many subscriptions: ${keyCount} > ${MAX_STREAM_KEYS}`, 400);
+  }
+
+  return { marketIds, linkIds, topics };
+}
+
+/**
+ * Build a subscription from parsed query and resolved link markets
+ */
+export function buildSubscription(
+  query: StreamQuery,
+  links: Array<{ id: number; leftMarketId: number; rightMarketId: number }>
+): StreamSubscription {
+  const linksByMarket = new Map<number, number[]>();
+  for (const link of links) {
+    for (const marketId of [link.leftMarketId, link.rightMarketId]) {
+      const ids = linksByMarket.get(marketId) ?? [];
+      ids.push(link.id);
+      linksByMarket.set(marketId, ids);
+    }
+  }
+
+  return {
+    marketIds: new Set(query.marketIds),
+    topics: new Set(query.topics.map((t) => t.toUpperCase())),
+    linksByMarket,
+  };
+}
+
+/**
+ * Route an update against a subscription
+ *
+ * @returns Link ids the update belongs to (empty if matched by market/topic only),
+ *   or null if the subscription does not cover it
+ */
+export function matchUpdate(sub: StreamSubscription, update: QuoteUpdate): number[] | null {
+  const linkIds = sub.linksByMarket.get(update.marketId);
+  if (linkIds) return linkIds;
+  if (sub.marketIds.has(update.marketId)) return [];
+  if (update.derivedTopic && sub.topics.has(update.derivedTopic.toUpperCase())) return [];
+  return null;
+}
+
+/**
+ * Flatten a LatestQuote row into the wire format
+ */
+export function toQuoteUpdate(row: LatestQuoteWithMarket): QuoteUpdate {
+  return {
+    marketId: row.outcome.marketId,
+    venue: row.outcome.market.venue,
+    derivedTopic: row.outcome.market.derivedTopic,
+    outcomeId: row.outcomeId,
+    outcomeName: row.outcome.name,
+    side: row.outcome.side,
+    ts: row.ts,
+    price: row.price,
+    impliedProb: row.impliedProb,
+    bestBid: row.bestBid,
+    bestAsk: row.bestAsk,
+    bidSize: row.bidSize,
+    askSize: row.askSize,
+    spread: row.spread,
+    liquidity: row.liquidity,
+    volume: row.volume,
+    updatedAt: row.updatedAt,
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * Recorded-response HTTP server for adapter tests (v3.2.0)
+ *
+ * Serves JSON fixture files by request path so REST adapters can be
+ * exercised end to end (URL building, retries, pagination, mapping) by
+ * pointing their baseUrl at a local socket.
+ */
+
+import { createServer, type Server } from 'node:http';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { AddressInfo } from 'node:net';
+
+/**
+ * A canned response: a fixture file (relative to the fixture dir), an
+ * inline body, or a status with no body
+ */
+export interface FixtureResponse {
+  file?: string;
+  body?: unknown;
+  status?: number;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Route handler: given the request URL, pick a response (undefined = 404)
+ */
+export type FixtureRoute = FixtureResponse | FixtureResponse[] | ((url: URL) => FixtureResponse | undefined);
+
+export class FixtureHttpServer {
+  /** Every request URL received, in order */
+  readonly requests: URL[] = [];
+  private readonly server: Server;
+  private readonly routes = new Map<string, FixtureRoute>();
+  private readonly hits = new Map<string, number>();
+  private baseUrl = '';
+
+  constructor(private readonly fixtureDir: string) {
+    this.server = createServer((req, res) => {
+      const url = new URL(req.url ?? '/', this.baseUrl);
+      this.requests.push(url);
+
+      const response = this.resolve(url);
+      if (!response) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ message: `No fixture for ${url.pathname}` }));
+        return;
+      }
+
+      const body =
+        response.file !== undefined
+          ? readFileSync(join(this.fixtureDir, response.file), 'utf-8')
+          : response.body !== undefined
+            ? JSON.stringify(response.body)
+            : '';
+      res.writeHead(response.status ?? 200, { 'Content-Type': 'application/json', ...response.headers });
+      res.end(body);
+    });
+  }
+
+  /**
+   * Serve a path. An array route answers successive requests in turn
+   * and then repeats its last entry.
+   */
+  route(pathname: string, route: FixtureRoute): this {
+    this.routes.set(pathname, route);
+    return this;
+  }
+
+  /**
+   * Requests received for a path
+   */
+  requestsFor(pathname: string): URL[] {
+    return this.requests.filter((url) => url.pathname === pathname);
+  }
+
+  async listen(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    this.baseUrl = `http://127.0.0.1:${port}`;
+    return this.baseUrl;
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  private resolve(url: URL): FixtureResponse | undefined {
+    const route = this.routes.get(url.pathname);
+    if (route === undefined) return undefined;
+    if (typeof route === 'function') return route(url);
+    if (Array.isArray(route)) {
+      const hit = this.hits.get(url.pathname) ?? 0;
+      this.hits.set(url.pathname, hit + 1);
+      return route[Math.min(hit, route.length - 1)];
+    }
+    return route;
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Recording HTTP sink for outbound-delivery tests (v3.2.0)
+ *
+ * Accepts any request, records method, path, headers and body, and answers
+ * with a configurable status - a local stand-in for webhook receivers.
+ */
+
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface ReceivedRequest {
+  method: string;
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+export class HttpSinkServer {
+  /** Every request received, in order */
+  readonly requests: ReceivedRequest[] = [];
+  /** Status returned to the next requests */
+  status = 200;
+  private readonly server: Server;
+
+  constructor() {
+    this.server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        this.requests.push({
+          method: req.method ?? 'GET',
+          path: req.url ?? '/',
+          headers: req.headers,
+          body: Buffer.concat(chunks).toString('utf8'),
+        });
+        res.writeHead(this.status, { 'Content-Type': 'text/plain' });
+        res.end(this.status < 400 ? 'ok' : 'error');
+      });
+    });
+  }
+
+  /**
+   * Parsed JSON bodies of the requests to a path
+   */
+  jsonBodies(path: string): unknown[] {
+    return this.requests.filter((r) => r.path === path).map((r) => JSON.parse(r.body));
+  }
+
+  async listen(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Minimal websocket server for adapter tests (v3.2.0)
+ *
+ * Implements just enough of RFC 6455 (handshake, unfragmented text frames,
+ * ping/close) to exercise venue websocket clients against a local socket.
+ */
+
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import { createHash } from 'node:crypto';
+import type { AddressInfo, Socket } from 'node:net';
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+export class MockWsConnection {
+  readonly received: unknown[] = [];
+  private readonly waiters: Array<{ predicate: (msg: unknown) => boolean; resolve: (msg: unknown) => void }> = [];
+  private buffer = Buffer.alloc(0);
+  closed = false;
+
+  constructor(
+    readonly request: IncomingMessage,
+    private readonly socket: Socket
+  ) {
+    socket.on('data', (chunk: Buffer) => this.onData(chunk));
+    socket.on('close', () => {
+      this.closed = true;
+    });
+    socket.on('error', () => {
+      this.closed = true;
+    });
+  }
+
+  /**
+   * Send a JSON text frame
+   */
+  send(data: unknown): void {
+    this.writeFrame(0x1, Buffer.from(JSON.stringify(data)));
+  }
+
+  /**
+   * Close the connection from the server side
+   */
+  close(): void {
+    if (this.closed) return;
+    this.writeFrame(0x8, Buffer.from([0x03, 0xe8]));
+    this.socket.end();
+    this.closed = true;
+  }
+
+  /**
+   * Drop the TCP connection without a close frame (simulates a network failure)
+   */
+  destroy(): void {
+    this.closed = true;
+    this.socket.destroy();
+  }
+
+  /**
+   * Resolve with the first received (or future) message matching predicate
+   */
+  waitFor(predicate: (msg: unknown) => boolean = () => true): Promise<unknown> {
+    const existing = this.received.find(predicate);
+    if (existing !== undefined) return Promise.resolve(existing);
+    return new Promise((resolve) => this.waiters.push({ predicate, resolve }));
+  }
+
+  private writeFrame(opcode: number, payload: Buffer): void {
+    if (this.closed) return;
+    let header: Buffer;
+    if (payload.length < 126) {
+      header = Buffer.from([0x80 | opcode, payload.length]);
+    } else if (payload.length < 65536) {
+      header = Buffer.alloc(4);
+      header[0] = 0x80 | opcode;
+      header[1] = 126;
+      header.writeUInt16BE(payload.length, 2);
+    } else {
+      header = Buffer.alloc(10);
+      header[0] = 0x80 | opcode;
+      header[1] = 127;
+      header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+    this.socket.write(Buffer.concat([header, payload]));
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    while (this.buffer.length >= 2) {
+      const opcode = this.buffer[0] & 0x0f;
+      const masked = (this.buffer[1] & 0x80) !== 0;
+      let length = this.buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return;
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      const maskOffset = offset;
+      if (masked) offset += 4;
+      if (this.buffer.length < offset + length) return;
+
+      const payload = Buffer.from(this.buffer.subarray(offset, offset + length));
+      if (masked) {
+        for (let i = 0; i < payload.length; i++) {
+          payload[i] ^= this.buffer[maskOffset + (i % 4)];
+        }
+      }
+      this.buffer = this.buffer.subarray(offset + length);
+
+      if (opcode === 0x1) {
+        // Non-JSON text (e.g. PING keepalives) is recorded as a raw string
+        const text = payload.toString('utf8');
+        let msg: unknown;
+        try {
+          msg = JSON.parse(text);
+        } catch {
+          msg = text;
+        }
+        this.received.push(msg);
+        for (let i = this.waiters.length - 1; i >= 0; i--) {
+          if (this.waiters[i].predicate(msg)) {
+            this.waiters[i].resolve(msg);
+            this.waiters.splice(i, 1);
+          }
+        }
+      } else if (opcode === 0x8) {
+        this.close();
+      } else if (opcode === 0x9) {
+        this.writeFrame(0xa, payload);
+      }
+    }
+  }
+}
+
+export class MockWsServer {
+  readonly connections: MockWsConnection[] = [];
+  private readonly server: Server;
+  private readonly connectionWaiters: Array<{ n: number; resolve: (conn: MockWsConnection) => void }> = [];
+
+  constructor() {
+    this.server = createServer((_req, res) => {
+      res.writeHead(426);
+      res.end();
+    });
+
+    this.server.on('upgrade', (req: IncomingMessage, socket: Socket) => {
+      const key = req.headers['sec-websocket-key'];
+      const accept = createHash('sha1').update(`${key}${WS_GUID}`).digest('base64');
+      socket.write(
+        'HTTP/1.1 101 Switching Protocols\r\n' +
+          'Upgrade: websocket\r\n' +
+          'Connection: Upgrade\r\n' +
+          `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+      );
+
+      this.connections.push(new MockWsConnection(req, socket));
+      for (let i = this.connectionWaiters.length - 1; i >= 0; i--) {
+        const { n, resolve } = this.connectionWaiters[i];
+        if (this.connections.length >= n) {
+          resolve(this.connections[n - 1]);
+          this.connectionWaiters.splice(i, 1);
+        }
+      }
+    });
+  }
+
+  async listen(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `ws://127.0.0.1:${port}`;
+  }
+
+  /**
+   * Resolve with the n-th connection (1-based), waiting if it hasn't arrived yet
+   */
+  waitForConnection(n = this.connections.length + 1): Promise<MockWsConnection> {
+    if (this.connections.length >= n) return Promise.resolve(this.connections[n - 1]);
+    return new Promise((resolve) => this.connectionWaiters.push({ n, resolve }));
+  }
+
+  async close(): Promise<void> {
+    for (const conn of this.connections) conn.destroy();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+}